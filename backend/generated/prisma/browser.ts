@@ -47,18 +47,98 @@ export type Itinerary = Prisma.ItineraryModel
  * 
  */
 export type ItineraryActivity = Prisma.ItineraryActivityModel
+/**
+ * Model RouteProposal
+ * 
+ */
+export type RouteProposal = Prisma.RouteProposalModel
+/**
+ * Model TransportLeg
+ * 
+ */
+export type TransportLeg = Prisma.TransportLegModel
+/**
+ * Model Stay
+ * 
+ */
+export type Stay = Prisma.StayModel
 /**
  * Model TripBudget
  * 
  */
 export type TripBudget = Prisma.TripBudgetModel
+/**
+ * Model Expense
+ * 
+ */
+export type Expense = Prisma.ExpenseModel
+/**
+ * Model ExpenseSplit
+ * 
+ */
+export type ExpenseSplit = Prisma.ExpenseSplitModel
+/**
+ * Model Settlement
+ * 
+ */
+export type Settlement = Prisma.SettlementModel
+/**
+ * Model BudgetAlertRule
+ * 
+ */
+export type BudgetAlertRule = Prisma.BudgetAlertRuleModel
+/**
+ * Model Notification
+ * 
+ */
+export type Notification = Prisma.NotificationModel
+/**
+ * Model TripChange
+ * 
+ */
+export type TripChange = Prisma.TripChangeModel
+/**
+ * Model Session
+ * 
+ */
+export type Session = Prisma.SessionModel
+/**
+ * Model UserIdentity
+ * 
+ */
+export type UserIdentity = Prisma.UserIdentityModel
+/**
+ * Model SecurityEvent
+ * 
+ */
+export type SecurityEvent = Prisma.SecurityEventModel
+/**
+ * Model UserToken
+ * 
+ */
+export type UserToken = Prisma.UserTokenModel
 /**
  * Model SharedTrip
  * 
  */
 export type SharedTrip = Prisma.SharedTripModel
+/**
+ * Model ShareView
+ * 
+ */
+export type ShareView = Prisma.ShareViewModel
+/**
+ * Model ShareInvitation
+ * 
+ */
+export type ShareInvitation = Prisma.ShareInvitationModel
 /**
  * Model SavedCity
  * 
  */
 export type SavedCity = Prisma.SavedCityModel
+/**
+ * Model ExchangeRate
+ * 
+ */
+export type ExchangeRate = Prisma.ExchangeRateModel
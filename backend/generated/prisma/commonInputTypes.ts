@@ -51,6 +51,28 @@ export type EnumUserRoleFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumUserRoleFilter<$PrismaModel> | $Enums.UserRole
 }
 
+export type DateTimeNullableFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+}
+
+export type IntFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntFilter<$PrismaModel> | number
+}
+
 export type DateTimeFilter<$PrismaModel = never> = {
   equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
   in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
@@ -113,6 +135,36 @@ export type EnumUserRoleWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumUserRoleFilter<$PrismaModel>
 }
 
+export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+}
+
+export type IntWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedIntFilter<$PrismaModel>
+  _max?: Prisma.NestedIntFilter<$PrismaModel>
+}
+
 export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
   equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
   in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
@@ -307,17 +359,6 @@ export type DecimalFilter<$PrismaModel = never> = {
   not?: Prisma.NestedDecimalFilter<$PrismaModel> | runtime.Decimal | runtime.DecimalJsLike | number | string
 }
 
-export type IntFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntFilter<$PrismaModel> | number
-}
-
 export type EnumActivityCategoryWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.ActivityCategory | Prisma.EnumActivityCategoryFieldRefInput<$PrismaModel>
   in?: $Enums.ActivityCategory[] | Prisma.ListEnumActivityCategoryFieldRefInput<$PrismaModel>
@@ -344,20 +385,89 @@ export type DecimalWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDecimalFilter<$PrismaModel>
 }
 
-export type IntWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+export type EnumProposalStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProposalStatus | Prisma.EnumProposalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProposalStatusFilter<$PrismaModel> | $Enums.ProposalStatus
+}
+
+export type JsonFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type EnumProposalStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProposalStatus | Prisma.EnumProposalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProposalStatusWithAggregatesFilter<$PrismaModel> | $Enums.ProposalStatus
   _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedIntFilter<$PrismaModel>
-  _max?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumProposalStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumProposalStatusFilter<$PrismaModel>
+}
+
+export type JsonWithAggregatesFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonWithAggregatesFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedJsonFilter<$PrismaModel>
+  _max?: Prisma.NestedJsonFilter<$PrismaModel>
+}
+
+export type EnumTransportModeFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransportMode | Prisma.EnumTransportModeFieldRefInput<$PrismaModel>
+  in?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransportModeFilter<$PrismaModel> | $Enums.TransportMode
+}
+
+export type EnumTransportModeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransportMode | Prisma.EnumTransportModeFieldRefInput<$PrismaModel>
+  in?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransportModeWithAggregatesFilter<$PrismaModel> | $Enums.TransportMode
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTransportModeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTransportModeFilter<$PrismaModel>
 }
 
 export type EnumBudgetCategoryFilter<$PrismaModel = never> = {
@@ -377,6 +487,159 @@ export type EnumBudgetCategoryWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumBudgetCategoryFilter<$PrismaModel>
 }
 
+export type EnumSplitMethodFilter<$PrismaModel = never> = {
+  equals?: $Enums.SplitMethod | Prisma.EnumSplitMethodFieldRefInput<$PrismaModel>
+  in?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSplitMethodFilter<$PrismaModel> | $Enums.SplitMethod
+}
+
+export type EnumSplitMethodWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SplitMethod | Prisma.EnumSplitMethodFieldRefInput<$PrismaModel>
+  in?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSplitMethodWithAggregatesFilter<$PrismaModel> | $Enums.SplitMethod
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSplitMethodFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSplitMethodFilter<$PrismaModel>
+}
+
+export type EnumBudgetCategoryNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.BudgetCategory | Prisma.EnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBudgetCategoryNullableFilter<$PrismaModel> | $Enums.BudgetCategory | null
+}
+
+export type EnumBudgetCategoryNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BudgetCategory | Prisma.EnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBudgetCategoryNullableWithAggregatesFilter<$PrismaModel> | $Enums.BudgetCategory | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBudgetCategoryNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBudgetCategoryNullableFilter<$PrismaModel>
+}
+
+export type EnumNotificationTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel> | $Enums.NotificationType
+}
+
+export type EnumNotificationTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel> | $Enums.NotificationType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+}
+
+export type EnumTripChangeEntityFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeEntity | Prisma.EnumTripChangeEntityFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeEntityFilter<$PrismaModel> | $Enums.TripChangeEntity
+}
+
+export type EnumTripChangeActionFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeAction | Prisma.EnumTripChangeActionFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeActionFilter<$PrismaModel> | $Enums.TripChangeAction
+}
+
+export type EnumTripChangeEntityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeEntity | Prisma.EnumTripChangeEntityFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeEntityWithAggregatesFilter<$PrismaModel> | $Enums.TripChangeEntity
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTripChangeEntityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTripChangeEntityFilter<$PrismaModel>
+}
+
+export type EnumTripChangeActionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeAction | Prisma.EnumTripChangeActionFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeActionWithAggregatesFilter<$PrismaModel> | $Enums.TripChangeAction
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTripChangeActionFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTripChangeActionFilter<$PrismaModel>
+}
+
+export type EnumSessionRevokeReasonNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.SessionRevokeReason | Prisma.EnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel> | $Enums.SessionRevokeReason | null
+}
+
+export type EnumSessionRevokeReasonNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SessionRevokeReason | Prisma.EnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumSessionRevokeReasonNullableWithAggregatesFilter<$PrismaModel> | $Enums.SessionRevokeReason | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel>
+}
+
+export type EnumIdentityProviderFilter<$PrismaModel = never> = {
+  equals?: $Enums.IdentityProvider | Prisma.EnumIdentityProviderFieldRefInput<$PrismaModel>
+  in?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  notIn?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumIdentityProviderFilter<$PrismaModel> | $Enums.IdentityProvider
+}
+
+export type EnumIdentityProviderWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.IdentityProvider | Prisma.EnumIdentityProviderFieldRefInput<$PrismaModel>
+  in?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  notIn?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumIdentityProviderWithAggregatesFilter<$PrismaModel> | $Enums.IdentityProvider
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumIdentityProviderFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumIdentityProviderFilter<$PrismaModel>
+}
+
+export type EnumSecurityEventTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.SecurityEventType | Prisma.EnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSecurityEventTypeFilter<$PrismaModel> | $Enums.SecurityEventType
+}
+
+export type EnumSecurityEventTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SecurityEventType | Prisma.EnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSecurityEventTypeWithAggregatesFilter<$PrismaModel> | $Enums.SecurityEventType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSecurityEventTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSecurityEventTypeFilter<$PrismaModel>
+}
+
+export type EnumUserTokenPurposeFilter<$PrismaModel = never> = {
+  equals?: $Enums.UserTokenPurpose | Prisma.EnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  in?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUserTokenPurposeFilter<$PrismaModel> | $Enums.UserTokenPurpose
+}
+
+export type EnumUserTokenPurposeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.UserTokenPurpose | Prisma.EnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  in?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUserTokenPurposeWithAggregatesFilter<$PrismaModel> | $Enums.UserTokenPurpose
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumUserTokenPurposeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumUserTokenPurposeFilter<$PrismaModel>
+}
+
 export type EnumSharePermissionFilter<$PrismaModel = never> = {
   equals?: $Enums.SharePermission | Prisma.EnumSharePermissionFieldRefInput<$PrismaModel>
   in?: $Enums.SharePermission[] | Prisma.ListEnumSharePermissionFieldRefInput<$PrismaModel>
@@ -384,17 +647,6 @@ export type EnumSharePermissionFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumSharePermissionFilter<$PrismaModel> | $Enums.SharePermission
 }
 
-export type DateTimeNullableFilter<$PrismaModel = never> = {
-  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
-  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
-}
-
 export type EnumSharePermissionWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.SharePermission | Prisma.EnumSharePermissionFieldRefInput<$PrismaModel>
   in?: $Enums.SharePermission[] | Prisma.ListEnumSharePermissionFieldRefInput<$PrismaModel>
@@ -405,18 +657,21 @@ export type EnumSharePermissionWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumSharePermissionFilter<$PrismaModel>
 }
 
-export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
-  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+export type EnumInvitationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvitationStatus | Prisma.EnumInvitationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvitationStatusFilter<$PrismaModel> | $Enums.InvitationStatus
+}
+
+export type EnumInvitationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvitationStatus | Prisma.EnumInvitationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvitationStatusWithAggregatesFilter<$PrismaModel> | $Enums.InvitationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvitationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvitationStatusFilter<$PrismaModel>
 }
 
 export type NestedStringFilter<$PrismaModel = never> = {
@@ -454,6 +709,28 @@ export type NestedEnumUserRoleFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumUserRoleFilter<$PrismaModel> | $Enums.UserRole
 }
 
+export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+}
+
+export type NestedIntFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntFilter<$PrismaModel> | number
+}
+
 export type NestedDateTimeFilter<$PrismaModel = never> = {
   equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
   in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
@@ -482,17 +759,6 @@ export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedStringFilter<$PrismaModel>
 }
 
-export type NestedIntFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntFilter<$PrismaModel> | number
-}
-
 export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
   in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
@@ -531,6 +797,47 @@ export type NestedEnumUserRoleWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumUserRoleFilter<$PrismaModel>
 }
 
+export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+}
+
+export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedIntFilter<$PrismaModel>
+  _max?: Prisma.NestedIntFilter<$PrismaModel>
+}
+
+export type NestedFloatFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatFilter<$PrismaModel> | number
+}
+
 export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
   equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
   in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel>
@@ -713,31 +1020,62 @@ export type NestedDecimalWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDecimalFilter<$PrismaModel>
 }
 
-export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
-  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedIntWithAggregatesFilter<$PrismaModel> | number
+export type NestedEnumProposalStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProposalStatus | Prisma.EnumProposalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProposalStatusFilter<$PrismaModel> | $Enums.ProposalStatus
+}
+
+export type NestedEnumProposalStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProposalStatus | Prisma.EnumProposalStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProposalStatus[] | Prisma.ListEnumProposalStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProposalStatusWithAggregatesFilter<$PrismaModel> | $Enums.ProposalStatus
   _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _avg?: Prisma.NestedFloatFilter<$PrismaModel>
-  _sum?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedIntFilter<$PrismaModel>
-  _max?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumProposalStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumProposalStatusFilter<$PrismaModel>
 }
 
-export type NestedFloatFilter<$PrismaModel = never> = {
-  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
-  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
-  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedFloatFilter<$PrismaModel> | number
+export type NestedJsonFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
+    Required<NestedJsonFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>
+
+export type NestedJsonFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
+export type NestedEnumTransportModeFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransportMode | Prisma.EnumTransportModeFieldRefInput<$PrismaModel>
+  in?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransportModeFilter<$PrismaModel> | $Enums.TransportMode
+}
+
+export type NestedEnumTransportModeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TransportMode | Prisma.EnumTransportModeFieldRefInput<$PrismaModel>
+  in?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TransportMode[] | Prisma.ListEnumTransportModeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTransportModeWithAggregatesFilter<$PrismaModel> | $Enums.TransportMode
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTransportModeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTransportModeFilter<$PrismaModel>
 }
 
 export type NestedEnumBudgetCategoryFilter<$PrismaModel = never> = {
@@ -757,6 +1095,159 @@ export type NestedEnumBudgetCategoryWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumBudgetCategoryFilter<$PrismaModel>
 }
 
+export type NestedEnumSplitMethodFilter<$PrismaModel = never> = {
+  equals?: $Enums.SplitMethod | Prisma.EnumSplitMethodFieldRefInput<$PrismaModel>
+  in?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSplitMethodFilter<$PrismaModel> | $Enums.SplitMethod
+}
+
+export type NestedEnumSplitMethodWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SplitMethod | Prisma.EnumSplitMethodFieldRefInput<$PrismaModel>
+  in?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SplitMethod[] | Prisma.ListEnumSplitMethodFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSplitMethodWithAggregatesFilter<$PrismaModel> | $Enums.SplitMethod
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSplitMethodFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSplitMethodFilter<$PrismaModel>
+}
+
+export type NestedEnumBudgetCategoryNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.BudgetCategory | Prisma.EnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBudgetCategoryNullableFilter<$PrismaModel> | $Enums.BudgetCategory | null
+}
+
+export type NestedEnumBudgetCategoryNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BudgetCategory | Prisma.EnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.BudgetCategory[] | Prisma.ListEnumBudgetCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumBudgetCategoryNullableWithAggregatesFilter<$PrismaModel> | $Enums.BudgetCategory | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBudgetCategoryNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBudgetCategoryNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumNotificationTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel> | $Enums.NotificationType
+}
+
+export type NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel> | $Enums.NotificationType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumTripChangeEntityFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeEntity | Prisma.EnumTripChangeEntityFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeEntityFilter<$PrismaModel> | $Enums.TripChangeEntity
+}
+
+export type NestedEnumTripChangeActionFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeAction | Prisma.EnumTripChangeActionFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeActionFilter<$PrismaModel> | $Enums.TripChangeAction
+}
+
+export type NestedEnumTripChangeEntityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeEntity | Prisma.EnumTripChangeEntityFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeEntity[] | Prisma.ListEnumTripChangeEntityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeEntityWithAggregatesFilter<$PrismaModel> | $Enums.TripChangeEntity
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTripChangeEntityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTripChangeEntityFilter<$PrismaModel>
+}
+
+export type NestedEnumTripChangeActionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.TripChangeAction | Prisma.EnumTripChangeActionFieldRefInput<$PrismaModel>
+  in?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  notIn?: $Enums.TripChangeAction[] | Prisma.ListEnumTripChangeActionFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumTripChangeActionWithAggregatesFilter<$PrismaModel> | $Enums.TripChangeAction
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumTripChangeActionFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumTripChangeActionFilter<$PrismaModel>
+}
+
+export type NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.SessionRevokeReason | Prisma.EnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel> | $Enums.SessionRevokeReason | null
+}
+
+export type NestedEnumSessionRevokeReasonNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SessionRevokeReason | Prisma.EnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.SessionRevokeReason[] | Prisma.ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumSessionRevokeReasonNullableWithAggregatesFilter<$PrismaModel> | $Enums.SessionRevokeReason | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSessionRevokeReasonNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumIdentityProviderFilter<$PrismaModel = never> = {
+  equals?: $Enums.IdentityProvider | Prisma.EnumIdentityProviderFieldRefInput<$PrismaModel>
+  in?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  notIn?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumIdentityProviderFilter<$PrismaModel> | $Enums.IdentityProvider
+}
+
+export type NestedEnumIdentityProviderWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.IdentityProvider | Prisma.EnumIdentityProviderFieldRefInput<$PrismaModel>
+  in?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  notIn?: $Enums.IdentityProvider[] | Prisma.ListEnumIdentityProviderFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumIdentityProviderWithAggregatesFilter<$PrismaModel> | $Enums.IdentityProvider
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumIdentityProviderFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumIdentityProviderFilter<$PrismaModel>
+}
+
+export type NestedEnumSecurityEventTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.SecurityEventType | Prisma.EnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSecurityEventTypeFilter<$PrismaModel> | $Enums.SecurityEventType
+}
+
+export type NestedEnumSecurityEventTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.SecurityEventType | Prisma.EnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.SecurityEventType[] | Prisma.ListEnumSecurityEventTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumSecurityEventTypeWithAggregatesFilter<$PrismaModel> | $Enums.SecurityEventType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumSecurityEventTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumSecurityEventTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumUserTokenPurposeFilter<$PrismaModel = never> = {
+  equals?: $Enums.UserTokenPurpose | Prisma.EnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  in?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUserTokenPurposeFilter<$PrismaModel> | $Enums.UserTokenPurpose
+}
+
+export type NestedEnumUserTokenPurposeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.UserTokenPurpose | Prisma.EnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  in?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.UserTokenPurpose[] | Prisma.ListEnumUserTokenPurposeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumUserTokenPurposeWithAggregatesFilter<$PrismaModel> | $Enums.UserTokenPurpose
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumUserTokenPurposeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumUserTokenPurposeFilter<$PrismaModel>
+}
+
 export type NestedEnumSharePermissionFilter<$PrismaModel = never> = {
   equals?: $Enums.SharePermission | Prisma.EnumSharePermissionFieldRefInput<$PrismaModel>
   in?: $Enums.SharePermission[] | Prisma.ListEnumSharePermissionFieldRefInput<$PrismaModel>
@@ -764,17 +1255,6 @@ export type NestedEnumSharePermissionFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumSharePermissionFilter<$PrismaModel> | $Enums.SharePermission
 }
 
-export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
-  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
-  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
-}
-
 export type NestedEnumSharePermissionWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.SharePermission | Prisma.EnumSharePermissionFieldRefInput<$PrismaModel>
   in?: $Enums.SharePermission[] | Prisma.ListEnumSharePermissionFieldRefInput<$PrismaModel>
@@ -785,18 +1265,21 @@ export type NestedEnumSharePermissionWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumSharePermissionFilter<$PrismaModel>
 }
 
-export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
-  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
-  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
-  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
-  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
-  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+export type NestedEnumInvitationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvitationStatus | Prisma.EnumInvitationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvitationStatusFilter<$PrismaModel> | $Enums.InvitationStatus
+}
+
+export type NestedEnumInvitationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvitationStatus | Prisma.EnumInvitationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvitationStatus[] | Prisma.ListEnumInvitationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvitationStatusWithAggregatesFilter<$PrismaModel> | $Enums.InvitationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvitationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvitationStatusFilter<$PrismaModel>
 }
 
 
@@ -62,3 +62,110 @@ export const UserRole = {
 } as const
 
 export type UserRole = (typeof UserRole)[keyof typeof UserRole]
+
+
+export const TransportMode = {
+  FLIGHT: 'FLIGHT',
+  TRAIN: 'TRAIN',
+  BUS: 'BUS',
+  CAR: 'CAR',
+  FERRY: 'FERRY',
+  OTHER: 'OTHER'
+} as const
+
+export type TransportMode = (typeof TransportMode)[keyof typeof TransportMode]
+
+
+export const SplitMethod = {
+  EQUAL: 'EQUAL',
+  SHARES: 'SHARES',
+  EXACT: 'EXACT'
+} as const
+
+export type SplitMethod = (typeof SplitMethod)[keyof typeof SplitMethod]
+
+
+export const NotificationType = {
+  BUDGET_ALERT: 'BUDGET_ALERT'
+} as const
+
+export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType]
+
+
+export const ProposalStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
+  SUPERSEDED: 'SUPERSEDED',
+  STALE: 'STALE'
+} as const
+
+export type ProposalStatus = (typeof ProposalStatus)[keyof typeof ProposalStatus]
+
+
+export const InvitationStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  REVOKED: 'REVOKED'
+} as const
+
+export type InvitationStatus = (typeof InvitationStatus)[keyof typeof InvitationStatus]
+
+
+export const TripChangeEntity = {
+  TRIP: 'TRIP',
+  DAY: 'DAY',
+  ACTIVITY: 'ACTIVITY',
+  BUDGET: 'BUDGET',
+  SHARE: 'SHARE'
+} as const
+
+export type TripChangeEntity = (typeof TripChangeEntity)[keyof typeof TripChangeEntity]
+
+
+export const TripChangeAction = {
+  CREATE: 'CREATE',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+  RESTORE: 'RESTORE'
+} as const
+
+export type TripChangeAction = (typeof TripChangeAction)[keyof typeof TripChangeAction]
+
+
+export const SessionRevokeReason = {
+  LOGOUT: 'LOGOUT',
+  REVOKED: 'REVOKED',
+  REUSE: 'REUSE',
+  PASSWORD_RESET: 'PASSWORD_RESET'
+} as const
+
+export type SessionRevokeReason = (typeof SessionRevokeReason)[keyof typeof SessionRevokeReason]
+
+
+export const SecurityEventType = {
+  LOGIN_SUCCEEDED: 'LOGIN_SUCCEEDED',
+  LOGIN_FAILED: 'LOGIN_FAILED',
+  LOGIN_BLOCKED: 'LOGIN_BLOCKED',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  PASSWORD_RESET: 'PASSWORD_RESET'
+} as const
+
+export type SecurityEventType = (typeof SecurityEventType)[keyof typeof SecurityEventType]
+
+
+export const IdentityProvider = {
+  GOOGLE: 'GOOGLE',
+  APPLE: 'APPLE'
+} as const
+
+export type IdentityProvider = (typeof IdentityProvider)[keyof typeof IdentityProvider]
+
+
+export const UserTokenPurpose = {
+  PASSWORD_RESET: 'PASSWORD_RESET',
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION'
+} as const
+
+export type UserTokenPurpose = (typeof UserTokenPurpose)[keyof typeof UserTokenPurpose]
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ============== ENUMS ==============\n\nenum TripStatus {\n  DRAFT\n  PLANNING\n  CONFIRMED\n  IN_PROGRESS\n  COMPLETED\n  CANCELLED\n}\n\nenum ActivityCategory {\n  SIGHTSEEING\n  FOOD_TOUR\n  ADVENTURE\n  CULTURAL\n  RELAXATION\n  NIGHTLIFE\n  SHOPPING\n  TRANSPORTATION\n}\n\nenum BudgetCategory {\n  TRANSPORT\n  ACCOMMODATION\n  FOOD\n  ACTIVITIES\n  SHOPPING\n  MISCELLANEOUS\n}\n\nenum SharePermission {\n  VIEW_ONLY\n  CAN_EDIT\n  CAN_COPY\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\n// ============== MODELS ==============\n\n// User Model\n// Stores user account information and preferences\nmodel User {\n  id           String   @id @default(uuid())\n  email        String   @unique\n  passwordHash String\n  name         String\n  avatarUrl    String?\n  language     String   @default(\"en\")\n  currency     String   @default(\"USD\")\n  role         UserRole @default(USER)\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  // Relations\n  trips         Trip[]\n  savedCities   SavedCity[]\n  sharedTrips   SharedTrip[] @relation(\"SharedBy\")\n  receivedTrips SharedTrip[] @relation(\"SharedWith\")\n\n  @@map(\"users\")\n}\n\n// Trip Model\n// Represents a user's travel plan\nmodel Trip {\n  id            String     @id @default(uuid())\n  userId        String\n  name          String\n  description   String?\n  startDate     DateTime\n  endDate       DateTime\n  totalBudget   Decimal?   @db.Decimal(10, 2)\n  coverPhotoUrl String?\n  status        TripStatus @default(DRAFT)\n  aiGenerated   Boolean    @default(false)\n  createdAt     DateTime   @default(now())\n  updatedAt     DateTime   @updatedAt\n\n  // Relations\n  user        User         @relation(fields: [userId], references: [id], onDelete: Cascade)\n  itineraries Itinerary[]\n  budgets     TripBudget[]\n  shares      SharedTrip[]\n\n  @@index([userId])\n  @@index([status])\n  @@map(\"trips\")\n}\n\n// City Model\n// Master data for cities/destinations\nmodel City {\n  id              String   @id @default(uuid())\n  name            String\n  country         String\n  continent       String?\n  imageUrl        String?\n  avgDailyCost    Decimal? @db.Decimal(10, 2)\n  currency        String?\n  popularityScore Int?     @default(0)\n  latitude        Float?\n  longitude       Float?\n  metaInfo        Json? // Flexible field for additional city data\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  activities  Activity[]\n  itineraries Itinerary[]\n  savedBy     SavedCity[]\n\n  @@unique([name, country])\n  @@index([country])\n  @@index([popularityScore])\n  @@map(\"cities\")\n}\n\n// Activity Model\n// Things to do in a city\nmodel Activity {\n  id              String           @id @default(uuid())\n  cityId          String\n  name            String\n  description     String?\n  imageUrl        String?\n  category        ActivityCategory\n  estimatedCost   Decimal          @db.Decimal(10, 2)\n  durationMinutes Int              @default(60)\n  rating          Float?           @default(0)\n  address         String?\n  latitude        Float?\n  longitude       Float?\n  openingHours    Json? // { monday: \"9:00-17:00\", ... }\n  tags            String[]\n  createdAt       DateTime         @default(now())\n  updatedAt       DateTime         @updatedAt\n\n  // Relations\n  city                City                @relation(fields: [cityId], references: [id], onDelete: Cascade)\n  itineraryActivities ItineraryActivity[]\n\n  @@index([cityId])\n  @@index([category])\n  @@map(\"activities\")\n}\n\n// Itinerary Model\n// Represents a day/stop in the trip\nmodel Itinerary {\n  id         String   @id @default(uuid())\n  tripId     String\n  cityId     String\n  dayNumber  Int\n  date       DateTime\n  notes      String?\n  orderIndex Int      @default(0)\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  // Relations\n  trip       Trip                @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  city       City                @relation(fields: [cityId], references: [id])\n  activities ItineraryActivity[]\n\n  @@unique([tripId, dayNumber])\n  @@index([tripId])\n  @@index([cityId])\n  @@map(\"itineraries\")\n}\n\n// ItineraryActivity Model\n// Links activities to specific times in an itinerary day\nmodel ItineraryActivity {\n  id          String   @id @default(uuid())\n  itineraryId String\n  activityId  String\n  startTime   DateTime @db.Time\n  endTime     DateTime @db.Time\n  customNotes String?\n  customCost  Decimal? @db.Decimal(10, 2)\n  orderIndex  Int      @default(0)\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n\n  // Relations\n  itinerary Itinerary @relation(fields: [itineraryId], references: [id], onDelete: Cascade)\n  activity  Activity  @relation(fields: [activityId], references: [id])\n\n  @@index([itineraryId])\n  @@index([activityId])\n  @@map(\"itinerary_activities\")\n}\n\n// TripBudget Model\n// Budget breakdown by category for a trip\nmodel TripBudget {\n  id              String         @id @default(uuid())\n  tripId          String\n  category        BudgetCategory\n  allocatedAmount Decimal        @db.Decimal(10, 2)\n  spentAmount     Decimal        @default(0) @db.Decimal(10, 2)\n  createdAt       DateTime       @default(now())\n  updatedAt       DateTime       @updatedAt\n\n  // Relations\n  trip Trip @relation(fields: [tripId], references: [id], onDelete: Cascade)\n\n  @@unique([tripId, category])\n  @@index([tripId])\n  @@map(\"trip_budgets\")\n}\n\n// SharedTrip Model\n// Handles trip sharing between users\nmodel SharedTrip {\n  id           String          @id @default(uuid())\n  tripId       String\n  sharedById   String\n  sharedWithId String? // Null if shared via public link\n  publicSlug   String?         @unique\n  permission   SharePermission @default(VIEW_ONLY)\n  expiresAt    DateTime?\n  createdAt    DateTime        @default(now())\n\n  // Relations\n  trip       Trip  @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  sharedBy   User  @relation(\"SharedBy\", fields: [sharedById], references: [id])\n  sharedWith User? @relation(\"SharedWith\", fields: [sharedWithId], references: [id])\n\n  @@index([tripId])\n  @@index([publicSlug])\n  @@map(\"shared_trips\")\n}\n\n// SavedCity Model\n// User's wishlist/saved destinations\nmodel SavedCity {\n  id      String   @id @default(uuid())\n  userId  String\n  cityId  String\n  savedAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  city City @relation(fields: [cityId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, cityId])\n  @@index([userId])\n  @@map(\"saved_cities\")\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ============== ENUMS ==============\n\nenum TripStatus {\n  DRAFT\n  PLANNING\n  CONFIRMED\n  IN_PROGRESS\n  COMPLETED\n  CANCELLED\n}\n\nenum ActivityCategory {\n  SIGHTSEEING\n  FOOD_TOUR\n  ADVENTURE\n  CULTURAL\n  RELAXATION\n  NIGHTLIFE\n  SHOPPING\n  TRANSPORTATION\n}\n\nenum BudgetCategory {\n  TRANSPORT\n  ACCOMMODATION\n  FOOD\n  ACTIVITIES\n  SHOPPING\n  MISCELLANEOUS\n}\n\nenum SharePermission {\n  VIEW_ONLY\n  CAN_EDIT\n  CAN_COPY\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum TransportMode {\n  FLIGHT\n  TRAIN\n  BUS\n  CAR\n  FERRY\n  OTHER\n}\n\nenum SplitMethod {\n  EQUAL\n  SHARES\n  EXACT\n}\n\nenum NotificationType {\n  BUDGET_ALERT\n}\n\nenum ProposalStatus {\n  PENDING\n  ACCEPTED\n  REJECTED\n  SUPERSEDED\n  STALE // The day changed after the proposal was made, so it can no longer be applied\n}\n\nenum InvitationStatus {\n  PENDING\n  ACCEPTED\n  DECLINED\n  REVOKED\n}\n\nenum TripChangeEntity {\n  TRIP\n  DAY\n  ACTIVITY\n  BUDGET\n  SHARE\n}\n\nenum TripChangeAction {\n  CREATE\n  UPDATE\n  DELETE\n  RESTORE\n}\n\nenum SessionRevokeReason {\n  LOGOUT // Signed out on the device itself\n  REVOKED // Signed out from another device\n  REUSE // A rotated refresh token was presented again\n  PASSWORD_RESET // The password was reset by email\n}\n\nenum SecurityEventType {\n  LOGIN_SUCCEEDED\n  LOGIN_FAILED\n  LOGIN_BLOCKED // Attempted while the account was locked\n  ACCOUNT_LOCKED\n  PASSWORD_RESET\n}\n\nenum IdentityProvider {\n  GOOGLE\n  APPLE\n}\n\nenum UserTokenPurpose {\n  PASSWORD_RESET\n  EMAIL_VERIFICATION\n}\n\n// ============== MODELS ==============\n\n// User Model\n// Stores user account information and preferences\nmodel User {\n  id                  String    @id @default(uuid())\n  email               String    @unique\n  passwordHash        String? // Null for accounts that only sign in with Google or Apple\n  name                String\n  avatarUrl           String?\n  language            String    @default(\"en\")\n  currency            String    @default(\"USD\")\n  role                UserRole  @default(USER)\n  emailVerifiedAt     DateTime?\n  failedLoginAttempts Int       @default(0) // Consecutive, reset by a successful login\n  lockedUntil         DateTime?\n  createdAt           DateTime  @default(now())\n  updatedAt           DateTime  @updatedAt\n\n  // Relations\n  trips               Trip[]\n  savedCities         SavedCity[]\n  sharedTrips         SharedTrip[]      @relation(\"SharedBy\")\n  receivedTrips       SharedTrip[]      @relation(\"SharedWith\")\n  proposals           RouteProposal[]\n  expensesPaid        Expense[]\n  expenseSplits       ExpenseSplit[]\n  settlementsPaid     Settlement[]      @relation(\"SettlementFrom\")\n  settlementsReceived Settlement[]      @relation(\"SettlementTo\")\n  notifications       Notification[]\n  tripChanges         TripChange[]\n  invitationsSent     ShareInvitation[] @relation(\"InvitedBy\")\n  invitationsReceived ShareInvitation[] @relation(\"Invitee\")\n  shareViews          ShareView[]\n  sessions            Session[]\n  tokens              UserToken[]\n  identities          UserIdentity[]\n  securityEvents      SecurityEvent[]\n\n  @@map(\"users\")\n}\n\n// Trip Model\n// Represents a user's travel plan\nmodel Trip {\n  id            String     @id @default(uuid())\n  userId        String\n  name          String\n  description   String?\n  startDate     DateTime\n  endDate       DateTime\n  totalBudget   Decimal?   @db.Decimal(10, 2)\n  currency      String     @default(\"USD\") // of totalBudget and budget allocations\n  coverPhotoUrl String?\n  status        TripStatus @default(DRAFT)\n  aiGenerated   Boolean    @default(false)\n  deletedAt     DateTime? // Set while the trip is in the trash; it can be restored\n  createdAt     DateTime   @default(now())\n  updatedAt     DateTime   @updatedAt\n\n  // Relations\n  user          User              @relation(fields: [userId], references: [id], onDelete: Cascade)\n  itineraries   Itinerary[]\n  budgets       TripBudget[]\n  shares        SharedTrip[]\n  transportLegs TransportLeg[]\n  stays         Stay[]\n  expenses      Expense[]\n  settlements   Settlement[]\n  alertRules    BudgetAlertRule[]\n  notifications Notification[]\n  changes       TripChange[]\n  invitations   ShareInvitation[]\n\n  @@index([userId])\n  @@index([status])\n  @@map(\"trips\")\n}\n\n// City Model\n// Master data for cities/destinations\nmodel City {\n  id              String   @id @default(uuid())\n  name            String\n  country         String\n  continent       String?\n  imageUrl        String?\n  avgDailyCost    Decimal? @db.Decimal(10, 2)\n  currency        String?\n  popularityScore Int?     @default(0)\n  latitude        Float?\n  longitude       Float?\n  metaInfo        Json? // Flexible field for additional city data\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  activities    Activity[]\n  itineraries   Itinerary[]\n  savedBy       SavedCity[]\n  departingLegs TransportLeg[] @relation(\"DepartureCity\")\n  arrivingLegs  TransportLeg[] @relation(\"ArrivalCity\")\n  stays         Stay[]\n\n  @@unique([name, country])\n  @@index([country])\n  @@index([popularityScore])\n  @@map(\"cities\")\n}\n\n// Activity Model\n// Things to do in a city\nmodel Activity {\n  id              String           @id @default(uuid())\n  cityId          String\n  name            String\n  description     String?\n  imageUrl        String?\n  category        ActivityCategory\n  estimatedCost   Decimal          @db.Decimal(10, 2)\n  durationMinutes Int              @default(60)\n  rating          Float?           @default(0)\n  address         String?\n  latitude        Float?\n  longitude       Float?\n  openingHours    Json? // { monday: \"9:00-17:00\", ... }\n  tags            String[]\n  createdAt       DateTime         @default(now())\n  updatedAt       DateTime         @updatedAt\n\n  // Relations\n  city                City                @relation(fields: [cityId], references: [id], onDelete: Cascade)\n  itineraryActivities ItineraryActivity[]\n\n  @@index([cityId])\n  @@index([category])\n  @@map(\"activities\")\n}\n\n// Itinerary Model\n// Represents a day/stop in the trip\nmodel Itinerary {\n  id         String   @id @default(uuid())\n  tripId     String\n  cityId     String\n  dayNumber  Int\n  date       DateTime\n  notes      String?\n  orderIndex Int      @default(0)\n  version    Int      @default(1) // Bumped on every change; stale updates are rejected\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  // Relations\n  trip       Trip                @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  city       City                @relation(fields: [cityId], references: [id])\n  activities ItineraryActivity[]\n  proposals  RouteProposal[]\n\n  @@unique([tripId, dayNumber])\n  @@index([tripId])\n  @@index([cityId])\n  @@map(\"itineraries\")\n}\n\n// ItineraryActivity Model\n// Links activities to specific times in an itinerary day\nmodel ItineraryActivity {\n  id          String   @id @default(uuid())\n  itineraryId String\n  activityId  String\n  startTime   DateTime @db.Time\n  endTime     DateTime @db.Time\n  customNotes String?\n  customCost  Decimal? @db.Decimal(10, 2)\n  orderIndex  Int      @default(0)\n  version     Int      @default(1) // Bumped on every change; stale updates are rejected\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n\n  // Relations\n  itinerary Itinerary @relation(fields: [itineraryId], references: [id], onDelete: Cascade)\n  activity  Activity  @relation(fields: [activityId], references: [id])\n  expenses  Expense[]\n\n  @@index([itineraryId])\n  @@index([activityId])\n  @@map(\"itinerary_activities\")\n}\n\n// RouteProposal Model\n// A suggested reordering of a day's activities, waiting for the user to accept or reject it\nmodel RouteProposal {\n  id               String         @id @default(uuid())\n  itineraryId      String\n  createdById      String\n  status           ProposalStatus @default(PENDING)\n  changes          Json // [{ itineraryActivityId, orderIndex, startTime: \"HH:MM\", endTime: \"HH:MM\" }]\n  timeSavedMinutes Int?\n  reasoning        String?\n  unmatchedNames   String[]\n  createdAt        DateTime       @default(now())\n  resolvedAt       DateTime?\n\n  // Relations\n  itinerary Itinerary @relation(fields: [itineraryId], references: [id], onDelete: Cascade)\n  createdBy User      @relation(fields: [createdById], references: [id], onDelete: Cascade)\n\n  @@index([itineraryId, status])\n  @@map(\"route_proposals\")\n}\n\n// TransportLeg Model\n// Getting between cities on a trip (train, flight, ...); cost counts towards TRANSPORT\nmodel TransportLeg {\n  id               String        @id @default(uuid())\n  tripId           String\n  mode             TransportMode\n  departureCityId  String\n  arrivalCityId    String\n  departureTime    DateTime\n  arrivalTime      DateTime\n  cost             Decimal       @default(0) @db.Decimal(10, 2)\n  currency         String        @default(\"USD\")\n  bookingReference String?\n  notes            String?\n  createdAt        DateTime      @default(now())\n  updatedAt        DateTime      @updatedAt\n\n  // Relations\n  trip          Trip @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  departureCity City @relation(\"DepartureCity\", fields: [departureCityId], references: [id])\n  arrivalCity   City @relation(\"ArrivalCity\", fields: [arrivalCityId], references: [id])\n\n  @@index([tripId])\n  @@map(\"transport_legs\")\n}\n\n// Stay Model\n// Lodging for a trip; covers each night from checkIn up to (not including) checkOut\nmodel Stay {\n  id                 String   @id @default(uuid())\n  tripId             String\n  cityId             String\n  name               String\n  address            String?\n  latitude           Float?\n  longitude          Float?\n  checkIn            DateTime @db.Date\n  checkOut           DateTime @db.Date\n  nightlyCost        Decimal  @default(0) @db.Decimal(10, 2)\n  currency           String   @default(\"USD\")\n  confirmationNumber String?\n  notes              String?\n  createdAt          DateTime @default(now())\n  updatedAt          DateTime @updatedAt\n\n  // Relations\n  trip Trip @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  city City @relation(fields: [cityId], references: [id])\n\n  @@index([tripId])\n  @@map(\"stays\")\n}\n\n// TripBudget Model\n// Budget breakdown by category for a trip\nmodel TripBudget {\n  id              String         @id @default(uuid())\n  tripId          String\n  category        BudgetCategory\n  allocatedAmount Decimal        @db.Decimal(10, 2)\n  spentAmount     Decimal        @default(0) @db.Decimal(10, 2)\n  createdAt       DateTime       @default(now())\n  updatedAt       DateTime       @updatedAt\n\n  // Relations\n  trip Trip @relation(fields: [tripId], references: [id], onDelete: Cascade)\n\n  @@unique([tripId, category])\n  @@index([tripId])\n  @@map(\"trip_budgets\")\n}\n\n// Expense Model\n// One item of actual spend; TripBudget.spentAmount is derived from these\nmodel Expense {\n  id                  String         @id @default(uuid())\n  tripId              String\n  category            BudgetCategory\n  amount              Decimal        @db.Decimal(10, 2)\n  currency            String         @default(\"USD\")\n  date                DateTime       @db.Date\n  itineraryActivityId String?\n  paidById            String\n  splitMethod         SplitMethod    @default(EQUAL)\n  notes               String?\n  createdAt           DateTime       @default(now())\n  updatedAt           DateTime       @updatedAt\n\n  // Relations\n  trip              Trip               @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  itineraryActivity ItineraryActivity? @relation(fields: [itineraryActivityId], references: [id], onDelete: SetNull)\n  paidBy            User               @relation(fields: [paidById], references: [id], onDelete: Cascade)\n  splits            ExpenseSplit[]\n\n  @@index([tripId, date])\n  @@index([itineraryActivityId])\n  @@map(\"expenses\")\n}\n\n// ExpenseSplit Model\n// One member's share of an expense, in the expense's currency\nmodel ExpenseSplit {\n  id        String   @id @default(uuid())\n  expenseId String\n  userId    String\n  shares    Decimal? @db.Decimal(10, 4) // Only for SHARES splits\n  amount    Decimal  @db.Decimal(10, 2)\n\n  // Relations\n  expense Expense @relation(fields: [expenseId], references: [id], onDelete: Cascade)\n  user    User    @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([expenseId, userId])\n  @@index([userId])\n  @@map(\"expense_splits\")\n}\n\n// Settlement Model\n// A payment between trip members that pays down what one owes the other\nmodel Settlement {\n  id         String   @id @default(uuid())\n  tripId     String\n  fromUserId String\n  toUserId   String\n  amount     Decimal  @db.Decimal(10, 2)\n  currency   String   @default(\"USD\")\n  date       DateTime @db.Date\n  notes      String?\n  createdAt  DateTime @default(now())\n\n  // Relations\n  trip     Trip @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  fromUser User @relation(\"SettlementFrom\", fields: [fromUserId], references: [id], onDelete: Cascade)\n  toUser   User @relation(\"SettlementTo\", fields: [toUserId], references: [id], onDelete: Cascade)\n\n  @@index([tripId])\n  @@map(\"settlements\")\n}\n\n// BudgetAlertRule Model\n// Notifies when spend reaches a percentage of a category's allocation,\n// or of the trip's totalBudget when category is null\nmodel BudgetAlertRule {\n  id               String          @id @default(uuid())\n  tripId           String\n  category         BudgetCategory?\n  thresholdPercent Int             @default(100)\n  isActive         Boolean         @default(true)\n  // Set while spend is at or over the threshold, so the alert fires once per crossing\n  triggeredAt      DateTime?\n  createdAt        DateTime        @default(now())\n  updatedAt        DateTime        @updatedAt\n\n  // Relations\n  trip Trip @relation(fields: [tripId], references: [id], onDelete: Cascade)\n\n  @@index([tripId])\n  @@map(\"budget_alert_rules\")\n}\n\n// Notification Model\n// In-app notifications, read or unread\nmodel Notification {\n  id        String           @id @default(uuid())\n  userId    String\n  tripId    String?\n  type      NotificationType\n  title     String\n  message   String\n  data      Json?\n  readAt    DateTime?\n  createdAt DateTime         @default(now())\n\n  // Relations\n  user User  @relation(fields: [userId], references: [id], onDelete: Cascade)\n  trip Trip? @relation(fields: [tripId], references: [id], onDelete: Cascade)\n\n  @@index([userId, readAt])\n  @@map(\"notifications\")\n}\n\n// TripChange Model\n// Append-only log of changes to a trip, with the entity before and after each one\nmodel TripChange {\n  id         String           @id @default(uuid())\n  tripId     String\n  actorId    String?\n  entity     TripChangeEntity\n  entityId   String\n  action     TripChangeAction\n  before     Json? // Null for CREATE\n  after      Json? // Null for DELETE, except trips, which are only soft-deleted\n  revertOfId String?          @unique // The change this one undid\n  createdAt  DateTime         @default(now())\n\n  // Relations\n  trip       Trip        @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  actor      User?       @relation(fields: [actorId], references: [id], onDelete: SetNull)\n  revertOf   TripChange? @relation(\"TripChangeRevert\", fields: [revertOfId], references: [id], onDelete: SetNull)\n  revertedBy TripChange? @relation(\"TripChangeRevert\")\n\n  @@index([tripId, createdAt])\n  @@map(\"trip_changes\")\n}\n\n// Session Model\n// A signed-in device. It holds the hash of its one current refresh token, which\n// changes on every refresh; presenting an earlier one revokes the session.\nmodel Session {\n  id            String               @id @default(uuid())\n  userId        String\n  tokenHash     String               @unique\n  userAgent     String?\n  ipAddress     String?\n  createdAt     DateTime             @default(now())\n  lastUsedAt    DateTime             @default(now())\n  expiresAt     DateTime\n  revokedAt     DateTime?\n  revokedReason SessionRevokeReason?\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"sessions\")\n}\n\n// UserIdentity Model\n// An external account (Google, Apple) the user signs in with, keyed by the\n// provider's stable subject id. A user can have one per provider.\nmodel UserIdentity {\n  id         String           @id @default(uuid())\n  userId     String\n  provider   IdentityProvider\n  subject    String\n  email      String? // As reported by the provider when last used\n  createdAt  DateTime         @default(now())\n  lastUsedAt DateTime         @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([provider, subject])\n  @@unique([userId, provider])\n  @@map(\"user_identities\")\n}\n\n// SecurityEvent Model\n// The account's security log: sign-in attempts, lockouts and password resets\nmodel SecurityEvent {\n  id        String            @id @default(uuid())\n  userId    String\n  type      SecurityEventType\n  ipAddress String?\n  userAgent String?\n  metadata  Json? // e.g. the sign-in method, or how long a lockout lasts\n  createdAt DateTime          @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId, createdAt])\n  @@map(\"security_events\")\n}\n\n// UserToken Model\n// Single-use tokens sent by email to reset a password or verify an address.\n// Only a hash is stored; the token itself exists only in the email.\nmodel UserToken {\n  id        String           @id @default(uuid())\n  userId    String\n  purpose   UserTokenPurpose\n  tokenHash String           @unique\n  expiresAt DateTime\n  usedAt    DateTime?\n  createdAt DateTime         @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId, purpose])\n  @@map(\"user_tokens\")\n}\n\n// SharedTrip Model\n// Handles trip sharing between users\nmodel SharedTrip {\n  id            String          @id @default(uuid())\n  tripId        String\n  sharedById    String\n  sharedWithId  String? // Null if shared via public link\n  publicSlug    String?         @unique\n  permission    SharePermission @default(VIEW_ONLY)\n  expiresAt     DateTime?\n  passwordHash  String? // Public links only; hashed like User.passwordHash\n  maxViews      Int? // Public links stop working once viewed this many times\n  viewCount     Int             @default(0)\n  lastViewedAt  DateTime?\n  isEnabled     Boolean         @default(true)\n  includeBudget Boolean         @default(false) // Show budget allocations on the public page\n  createdAt     DateTime        @default(now())\n\n  // Relations\n  trip       Trip             @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  sharedBy   User             @relation(\"SharedBy\", fields: [sharedById], references: [id])\n  sharedWith User?            @relation(\"SharedWith\", fields: [sharedWithId], references: [id])\n  invitation ShareInvitation?\n  views      ShareView[]\n\n  @@index([tripId])\n  @@index([publicSlug])\n  @@map(\"shared_trips\")\n}\n\n// ShareView Model\n// One row per distinct viewer of a public link, for its analytics. Viewers are\n// told apart by account, or by a hash of IP address and user agent when anonymous.\nmodel ShareView {\n  id            String   @id @default(uuid())\n  shareId       String\n  viewerKey     String\n  viewerId      String?\n  viewCount     Int      @default(1)\n  firstViewedAt DateTime @default(now())\n  lastViewedAt  DateTime @default(now())\n  // Session of the last counted view; link access through the trip routes counts once per session\n  sessionId     String?\n\n  // Relations\n  share  SharedTrip @relation(fields: [shareId], references: [id], onDelete: Cascade)\n  viewer User?      @relation(fields: [viewerId], references: [id], onDelete: SetNull)\n\n  @@unique([shareId, viewerKey])\n  @@map(\"share_views\")\n}\n\n// ShareInvitation Model\n// Invites an email address to a trip; accepting it creates a direct SharedTrip.\n// The address need not have an account yet: the invite waits until it does.\nmodel ShareInvitation {\n  id            String           @id @default(uuid())\n  tripId        String\n  invitedById   String\n  email         String // Lowercased\n  inviteeId     String? // The account with this email, once there is one\n  permission    SharePermission  @default(VIEW_ONLY)\n  expiresInDays Int? // Lifetime of the resulting share, counted from acceptance\n  status        InvitationStatus @default(PENDING)\n  shareId       String?          @unique\n  sentAt        DateTime         @default(now())\n  respondedAt   DateTime?\n  createdAt     DateTime         @default(now())\n\n  // Relations\n  trip      Trip        @relation(fields: [tripId], references: [id], onDelete: Cascade)\n  invitedBy User        @relation(\"InvitedBy\", fields: [invitedById], references: [id], onDelete: Cascade)\n  invitee   User?       @relation(\"Invitee\", fields: [inviteeId], references: [id], onDelete: SetNull)\n  share     SharedTrip? @relation(fields: [shareId], references: [id], onDelete: SetNull)\n\n  @@index([tripId])\n  @@index([email, status])\n  @@index([inviteeId, status])\n  @@map(\"share_invitations\")\n}\n\n// SavedCity Model\n// User's wishlist/saved destinations\nmodel SavedCity {\n  id      String   @id @default(uuid())\n  userId  String\n  cityId  String\n  savedAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  city City @relation(fields: [cityId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, cityId])\n  @@index([userId])\n  @@map(\"saved_cities\")\n}\n\n// ExchangeRate Model\n// Offline currency rates (1 baseCurrency = rate quoteCurrency), seeded or imported from a file\nmodel ExchangeRate {\n  id            String   @id @default(uuid())\n  baseCurrency  String\n  quoteCurrency String\n  rate          Decimal  @db.Decimal(18, 8)\n  rateDate      DateTime @db.Date\n  source        String?\n  createdAt     DateTime @default(now())\n\n  @@unique([baseCurrency, quoteCurrency, rateDate])\n  @@map(\"exchange_rates\")\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trips\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"TripToUser\"},{\"name\":\"savedCities\",\"kind\":\"object\",\"type\":\"SavedCity\",\"relationName\":\"SavedCityToUser\"},{\"name\":\"sharedTrips\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"SharedBy\"},{\"name\":\"receivedTrips\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"SharedWith\"}],\"dbName\":\"users\"},\"Trip\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"totalBudget\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"coverPhotoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"TripStatus\"},{\"name\":\"aiGenerated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TripToUser\"},{\"name\":\"itineraries\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"ItineraryToTrip\"},{\"name\":\"budgets\",\"kind\":\"object\",\"type\":\"TripBudget\",\"relationName\":\"TripToTripBudget\"},{\"name\":\"shares\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"SharedTripToTrip\"}],\"dbName\":\"trips\"},\"City\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"continent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avgDailyCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"popularityScore\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"latitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"longitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"metaInfo\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"Activity\",\"relationName\":\"ActivityToCity\"},{\"name\":\"itineraries\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"CityToItinerary\"},{\"name\":\"savedBy\",\"kind\":\"object\",\"type\":\"SavedCity\",\"relationName\":\"CityToSavedCity\"}],\"dbName\":\"cities\"},\"Activity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"ActivityCategory\"},{\"name\":\"estimatedCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"durationMinutes\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"latitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"longitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"openingHours\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"tags\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"ActivityToCity\"},{\"name\":\"itineraryActivities\",\"kind\":\"object\",\"type\":\"ItineraryActivity\",\"relationName\":\"ActivityToItineraryActivity\"}],\"dbName\":\"activities\"},\"Itinerary\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dayNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"ItineraryToTrip\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"CityToItinerary\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"ItineraryActivity\",\"relationName\":\"ItineraryToItineraryActivity\"}],\"dbName\":\"itineraries\"},\"ItineraryActivity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"itineraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customNotes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"itinerary\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"ItineraryToItineraryActivity\"},{\"name\":\"activity\",\"kind\":\"object\",\"type\":\"Activity\",\"relationName\":\"ActivityToItineraryActivity\"}],\"dbName\":\"itinerary_activities\"},\"TripBudget\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"BudgetCategory\"},{\"name\":\"allocatedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"spentAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"TripToTripBudget\"}],\"dbName\":\"trip_budgets\"},\"SharedTrip\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sharedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sharedWithId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publicSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"permission\",\"kind\":\"enum\",\"type\":\"SharePermission\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"SharedTripToTrip\"},{\"name\":\"sharedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SharedBy\"},{\"name\":\"sharedWith\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SharedWith\"}],\"dbName\":\"shared_trips\"},\"SavedCity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"savedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SavedCityToUser\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"CityToSavedCity\"}],\"dbName\":\"saved_cities\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"emailVerifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"failedLoginAttempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lockedUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trips\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"TripToUser\"},{\"name\":\"savedCities\",\"kind\":\"object\",\"type\":\"SavedCity\",\"relationName\":\"SavedCityToUser\"},{\"name\":\"sharedTrips\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"SharedBy\"},{\"name\":\"receivedTrips\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"SharedWith\"},{\"name\":\"proposals\",\"kind\":\"object\",\"type\":\"RouteProposal\",\"relationName\":\"RouteProposalToUser\"},{\"name\":\"expensesPaid\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToUser\"},{\"name\":\"expenseSplits\",\"kind\":\"object\",\"type\":\"ExpenseSplit\",\"relationName\":\"ExpenseSplitToUser\"},{\"name\":\"settlementsPaid\",\"kind\":\"object\",\"type\":\"Settlement\",\"relationName\":\"SettlementFrom\"},{\"name\":\"settlementsReceived\",\"kind\":\"object\",\"type\":\"Settlement\",\"relationName\":\"SettlementTo\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"tripChanges\",\"kind\":\"object\",\"type\":\"TripChange\",\"relationName\":\"TripChangeToUser\"},{\"name\":\"invitationsSent\",\"kind\":\"object\",\"type\":\"ShareInvitation\",\"relationName\":\"InvitedBy\"},{\"name\":\"invitationsReceived\",\"kind\":\"object\",\"type\":\"ShareInvitation\",\"relationName\":\"Invitee\"},{\"name\":\"shareViews\",\"kind\":\"object\",\"type\":\"ShareView\",\"relationName\":\"ShareViewToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"tokens\",\"kind\":\"object\",\"type\":\"UserToken\",\"relationName\":\"UserToUserToken\"},{\"name\":\"identities\",\"kind\":\"object\",\"type\":\"UserIdentity\",\"relationName\":\"UserToUserIdentity\"},{\"name\":\"securityEvents\",\"kind\":\"object\",\"type\":\"SecurityEvent\",\"relationName\":\"SecurityEventToUser\"}],\"dbName\":\"users\"},\"Trip\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"totalBudget\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coverPhotoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"TripStatus\"},{\"name\":\"aiGenerated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TripToUser\"},{\"name\":\"itineraries\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"ItineraryToTrip\"},{\"name\":\"budgets\",\"kind\":\"object\",\"type\":\"TripBudget\",\"relationName\":\"TripToTripBudget\"},{\"name\":\"shares\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"SharedTripToTrip\"},{\"name\":\"transportLegs\",\"kind\":\"object\",\"type\":\"TransportLeg\",\"relationName\":\"TransportLegToTrip\"},{\"name\":\"stays\",\"kind\":\"object\",\"type\":\"Stay\",\"relationName\":\"StayToTrip\"},{\"name\":\"expenses\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToTrip\"},{\"name\":\"settlements\",\"kind\":\"object\",\"type\":\"Settlement\",\"relationName\":\"SettlementToTrip\"},{\"name\":\"alertRules\",\"kind\":\"object\",\"type\":\"BudgetAlertRule\",\"relationName\":\"BudgetAlertRuleToTrip\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToTrip\"},{\"name\":\"changes\",\"kind\":\"object\",\"type\":\"TripChange\",\"relationName\":\"TripToTripChange\"},{\"name\":\"invitations\",\"kind\":\"object\",\"type\":\"ShareInvitation\",\"relationName\":\"ShareInvitationToTrip\"}],\"dbName\":\"trips\"},\"City\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"continent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avgDailyCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"popularityScore\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"latitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"longitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"metaInfo\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"Activity\",\"relationName\":\"ActivityToCity\"},{\"name\":\"itineraries\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"CityToItinerary\"},{\"name\":\"savedBy\",\"kind\":\"object\",\"type\":\"SavedCity\",\"relationName\":\"CityToSavedCity\"},{\"name\":\"departingLegs\",\"kind\":\"object\",\"type\":\"TransportLeg\",\"relationName\":\"DepartureCity\"},{\"name\":\"arrivingLegs\",\"kind\":\"object\",\"type\":\"TransportLeg\",\"relationName\":\"ArrivalCity\"},{\"name\":\"stays\",\"kind\":\"object\",\"type\":\"Stay\",\"relationName\":\"CityToStay\"}],\"dbName\":\"cities\"},\"Activity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"ActivityCategory\"},{\"name\":\"estimatedCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"durationMinutes\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"latitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"longitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"openingHours\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"tags\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"ActivityToCity\"},{\"name\":\"itineraryActivities\",\"kind\":\"object\",\"type\":\"ItineraryActivity\",\"relationName\":\"ActivityToItineraryActivity\"}],\"dbName\":\"activities\"},\"Itinerary\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dayNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"ItineraryToTrip\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"CityToItinerary\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"ItineraryActivity\",\"relationName\":\"ItineraryToItineraryActivity\"},{\"name\":\"proposals\",\"kind\":\"object\",\"type\":\"RouteProposal\",\"relationName\":\"ItineraryToRouteProposal\"}],\"dbName\":\"itineraries\"},\"ItineraryActivity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"itineraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"customNotes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"itinerary\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"ItineraryToItineraryActivity\"},{\"name\":\"activity\",\"kind\":\"object\",\"type\":\"Activity\",\"relationName\":\"ActivityToItineraryActivity\"},{\"name\":\"expenses\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToItineraryActivity\"}],\"dbName\":\"itinerary_activities\"},\"RouteProposal\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"itineraryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ProposalStatus\"},{\"name\":\"changes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"timeSavedMinutes\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"reasoning\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unmatchedNames\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"itinerary\",\"kind\":\"object\",\"type\":\"Itinerary\",\"relationName\":\"ItineraryToRouteProposal\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RouteProposalToUser\"}],\"dbName\":\"route_proposals\"},\"TransportLeg\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mode\",\"kind\":\"enum\",\"type\":\"TransportMode\"},{\"name\":\"departureCityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"arrivalCityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"departureTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"arrivalTime\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bookingReference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"TransportLegToTrip\"},{\"name\":\"departureCity\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"DepartureCity\"},{\"name\":\"arrivalCity\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"ArrivalCity\"}],\"dbName\":\"transport_legs\"},\"Stay\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"latitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"longitude\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"checkIn\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"checkOut\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"nightlyCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"confirmationNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"StayToTrip\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"CityToStay\"}],\"dbName\":\"stays\"},\"TripBudget\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"BudgetCategory\"},{\"name\":\"allocatedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"spentAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"TripToTripBudget\"}],\"dbName\":\"trip_budgets\"},\"Expense\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"BudgetCategory\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"itineraryActivityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paidById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"splitMethod\",\"kind\":\"enum\",\"type\":\"SplitMethod\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"ExpenseToTrip\"},{\"name\":\"itineraryActivity\",\"kind\":\"object\",\"type\":\"ItineraryActivity\",\"relationName\":\"ExpenseToItineraryActivity\"},{\"name\":\"paidBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ExpenseToUser\"},{\"name\":\"splits\",\"kind\":\"object\",\"type\":\"ExpenseSplit\",\"relationName\":\"ExpenseToExpenseSplit\"}],\"dbName\":\"expenses\"},\"ExpenseSplit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expenseId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shares\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToExpenseSplit\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ExpenseSplitToUser\"}],\"dbName\":\"expense_splits\"},\"Settlement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fromUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"toUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"SettlementToTrip\"},{\"name\":\"fromUser\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SettlementFrom\"},{\"name\":\"toUser\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SettlementTo\"}],\"dbName\":\"settlements\"},\"BudgetAlertRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"BudgetCategory\"},{\"name\":\"thresholdPercent\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"triggeredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"BudgetAlertRuleToTrip\"}],\"dbName\":\"budget_alert_rules\"},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"data\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"NotificationToTrip\"}],\"dbName\":\"notifications\"},\"TripChange\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entity\",\"kind\":\"enum\",\"type\":\"TripChangeEntity\"},{\"name\":\"entityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"TripChangeAction\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"after\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"revertOfId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"TripToTripChange\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TripChangeToUser\"},{\"name\":\"revertOf\",\"kind\":\"object\",\"type\":\"TripChange\",\"relationName\":\"TripChangeRevert\"},{\"name\":\"revertedBy\",\"kind\":\"object\",\"type\":\"TripChange\",\"relationName\":\"TripChangeRevert\"}],\"dbName\":\"trip_changes\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedReason\",\"kind\":\"enum\",\"type\":\"SessionRevokeReason\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":\"sessions\"},\"UserIdentity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"IdentityProvider\"},{\"name\":\"subject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserIdentity\"}],\"dbName\":\"user_identities\"},\"SecurityEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"SecurityEventType\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SecurityEventToUser\"}],\"dbName\":\"security_events\"},\"UserToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"purpose\",\"kind\":\"enum\",\"type\":\"UserTokenPurpose\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserToken\"}],\"dbName\":\"user_tokens\"},\"SharedTrip\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sharedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sharedWithId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publicSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"permission\",\"kind\":\"enum\",\"type\":\"SharePermission\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"maxViews\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"viewCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastViewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"includeBudget\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"SharedTripToTrip\"},{\"name\":\"sharedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SharedBy\"},{\"name\":\"sharedWith\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SharedWith\"},{\"name\":\"invitation\",\"kind\":\"object\",\"type\":\"ShareInvitation\",\"relationName\":\"ShareInvitationToSharedTrip\"},{\"name\":\"views\",\"kind\":\"object\",\"type\":\"ShareView\",\"relationName\":\"ShareViewToSharedTrip\"}],\"dbName\":\"shared_trips\"},\"ShareView\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shareId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewerKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"viewCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"firstViewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastViewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"share\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"ShareViewToSharedTrip\"},{\"name\":\"viewer\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShareViewToUser\"}],\"dbName\":\"share_views\"},\"ShareInvitation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tripId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invitedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inviteeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"permission\",\"kind\":\"enum\",\"type\":\"SharePermission\"},{\"name\":\"expiresInDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvitationStatus\"},{\"name\":\"shareId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"respondedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trip\",\"kind\":\"object\",\"type\":\"Trip\",\"relationName\":\"ShareInvitationToTrip\"},{\"name\":\"invitedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvitedBy\"},{\"name\":\"invitee\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"Invitee\"},{\"name\":\"share\",\"kind\":\"object\",\"type\":\"SharedTrip\",\"relationName\":\"ShareInvitationToSharedTrip\"}],\"dbName\":\"share_invitations\"},\"SavedCity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"savedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SavedCityToUser\"},{\"name\":\"city\",\"kind\":\"object\",\"type\":\"City\",\"relationName\":\"CityToSavedCity\"}],\"dbName\":\"saved_cities\"},\"ExchangeRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quoteCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"rateDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"exchange_rates\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -234,6 +234,36 @@ export interface PrismaClient<
     */
   get itineraryActivity(): Prisma.ItineraryActivityDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.routeProposal`: Exposes CRUD operations for the **RouteProposal** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RouteProposals
+    * const routeProposals = await prisma.routeProposal.findMany()
+    * ```
+    */
+  get routeProposal(): Prisma.RouteProposalDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.transportLeg`: Exposes CRUD operations for the **TransportLeg** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TransportLegs
+    * const transportLegs = await prisma.transportLeg.findMany()
+    * ```
+    */
+  get transportLeg(): Prisma.TransportLegDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.stay`: Exposes CRUD operations for the **Stay** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Stays
+    * const stays = await prisma.stay.findMany()
+    * ```
+    */
+  get stay(): Prisma.StayDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.tripBudget`: Exposes CRUD operations for the **TripBudget** model.
     * Example usage:
@@ -244,6 +274,106 @@ export interface PrismaClient<
     */
   get tripBudget(): Prisma.TripBudgetDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.expense`: Exposes CRUD operations for the **Expense** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Expenses
+    * const expenses = await prisma.expense.findMany()
+    * ```
+    */
+  get expense(): Prisma.ExpenseDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.expenseSplit`: Exposes CRUD operations for the **ExpenseSplit** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ExpenseSplits
+    * const expenseSplits = await prisma.expenseSplit.findMany()
+    * ```
+    */
+  get expenseSplit(): Prisma.ExpenseSplitDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.settlement`: Exposes CRUD operations for the **Settlement** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Settlements
+    * const settlements = await prisma.settlement.findMany()
+    * ```
+    */
+  get settlement(): Prisma.SettlementDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.budgetAlertRule`: Exposes CRUD operations for the **BudgetAlertRule** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more BudgetAlertRules
+    * const budgetAlertRules = await prisma.budgetAlertRule.findMany()
+    * ```
+    */
+  get budgetAlertRule(): Prisma.BudgetAlertRuleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.notification`: Exposes CRUD operations for the **Notification** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Notifications
+    * const notifications = await prisma.notification.findMany()
+    * ```
+    */
+  get notification(): Prisma.NotificationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.tripChange`: Exposes CRUD operations for the **TripChange** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TripChanges
+    * const tripChanges = await prisma.tripChange.findMany()
+    * ```
+    */
+  get tripChange(): Prisma.TripChangeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.session`: Exposes CRUD operations for the **Session** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Sessions
+    * const sessions = await prisma.session.findMany()
+    * ```
+    */
+  get session(): Prisma.SessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userIdentity`: Exposes CRUD operations for the **UserIdentity** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserIdentities
+    * const userIdentities = await prisma.userIdentity.findMany()
+    * ```
+    */
+  get userIdentity(): Prisma.UserIdentityDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.securityEvent`: Exposes CRUD operations for the **SecurityEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SecurityEvents
+    * const securityEvents = await prisma.securityEvent.findMany()
+    * ```
+    */
+  get securityEvent(): Prisma.SecurityEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userToken`: Exposes CRUD operations for the **UserToken** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserTokens
+    * const userTokens = await prisma.userToken.findMany()
+    * ```
+    */
+  get userToken(): Prisma.UserTokenDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.sharedTrip`: Exposes CRUD operations for the **SharedTrip** model.
     * Example usage:
@@ -254,6 +384,26 @@ export interface PrismaClient<
     */
   get sharedTrip(): Prisma.SharedTripDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.shareView`: Exposes CRUD operations for the **ShareView** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShareViews
+    * const shareViews = await prisma.shareView.findMany()
+    * ```
+    */
+  get shareView(): Prisma.ShareViewDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shareInvitation`: Exposes CRUD operations for the **ShareInvitation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShareInvitations
+    * const shareInvitations = await prisma.shareInvitation.findMany()
+    * ```
+    */
+  get shareInvitation(): Prisma.ShareInvitationDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.savedCity`: Exposes CRUD operations for the **SavedCity** model.
     * Example usage:
@@ -263,6 +413,16 @@ export interface PrismaClient<
     * ```
     */
   get savedCity(): Prisma.SavedCityDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.exchangeRate`: Exposes CRUD operations for the **ExchangeRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ExchangeRates
+    * const exchangeRates = await prisma.exchangeRate.findMany()
+    * ```
+    */
+  get exchangeRate(): Prisma.ExchangeRateDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
@@ -390,9 +390,25 @@ export const ModelName = {
   Activity: 'Activity',
   Itinerary: 'Itinerary',
   ItineraryActivity: 'ItineraryActivity',
+  RouteProposal: 'RouteProposal',
+  TransportLeg: 'TransportLeg',
+  Stay: 'Stay',
   TripBudget: 'TripBudget',
+  Expense: 'Expense',
+  ExpenseSplit: 'ExpenseSplit',
+  Settlement: 'Settlement',
+  BudgetAlertRule: 'BudgetAlertRule',
+  Notification: 'Notification',
+  TripChange: 'TripChange',
+  Session: 'Session',
+  UserIdentity: 'UserIdentity',
+  SecurityEvent: 'SecurityEvent',
+  UserToken: 'UserToken',
   SharedTrip: 'SharedTrip',
-  SavedCity: 'SavedCity'
+  ShareView: 'ShareView',
+  ShareInvitation: 'ShareInvitation',
+  SavedCity: 'SavedCity',
+  ExchangeRate: 'ExchangeRate'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -408,7 +424,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "trip" | "city" | "activity" | "itinerary" | "itineraryActivity" | "tripBudget" | "sharedTrip" | "savedCity"
+    modelProps: "user" | "trip" | "city" | "activity" | "itinerary" | "itineraryActivity" | "routeProposal" | "transportLeg" | "stay" | "tripBudget" | "expense" | "expenseSplit" | "settlement" | "budgetAlertRule" | "notification" | "tripChange" | "session" | "userIdentity" | "securityEvent" | "userToken" | "sharedTrip" | "shareView" | "shareInvitation" | "savedCity" | "exchangeRate"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -856,6 +872,228 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    RouteProposal: {
+      payload: Prisma.$RouteProposalPayload<ExtArgs>
+      fields: Prisma.RouteProposalFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RouteProposalFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RouteProposalFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>
+        }
+        findFirst: {
+          args: Prisma.RouteProposalFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RouteProposalFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>
+        }
+        findMany: {
+          args: Prisma.RouteProposalFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>[]
+        }
+        create: {
+          args: Prisma.RouteProposalCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>
+        }
+        createMany: {
+          args: Prisma.RouteProposalCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RouteProposalCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>[]
+        }
+        delete: {
+          args: Prisma.RouteProposalDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>
+        }
+        update: {
+          args: Prisma.RouteProposalUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>
+        }
+        deleteMany: {
+          args: Prisma.RouteProposalDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RouteProposalUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RouteProposalUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>[]
+        }
+        upsert: {
+          args: Prisma.RouteProposalUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RouteProposalPayload>
+        }
+        aggregate: {
+          args: Prisma.RouteProposalAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRouteProposal>
+        }
+        groupBy: {
+          args: Prisma.RouteProposalGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RouteProposalGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RouteProposalCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RouteProposalCountAggregateOutputType> | number
+        }
+      }
+    }
+    TransportLeg: {
+      payload: Prisma.$TransportLegPayload<ExtArgs>
+      fields: Prisma.TransportLegFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TransportLegFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TransportLegFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>
+        }
+        findFirst: {
+          args: Prisma.TransportLegFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TransportLegFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>
+        }
+        findMany: {
+          args: Prisma.TransportLegFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>[]
+        }
+        create: {
+          args: Prisma.TransportLegCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>
+        }
+        createMany: {
+          args: Prisma.TransportLegCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TransportLegCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>[]
+        }
+        delete: {
+          args: Prisma.TransportLegDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>
+        }
+        update: {
+          args: Prisma.TransportLegUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>
+        }
+        deleteMany: {
+          args: Prisma.TransportLegDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TransportLegUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TransportLegUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>[]
+        }
+        upsert: {
+          args: Prisma.TransportLegUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TransportLegPayload>
+        }
+        aggregate: {
+          args: Prisma.TransportLegAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTransportLeg>
+        }
+        groupBy: {
+          args: Prisma.TransportLegGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TransportLegGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TransportLegCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TransportLegCountAggregateOutputType> | number
+        }
+      }
+    }
+    Stay: {
+      payload: Prisma.$StayPayload<ExtArgs>
+      fields: Prisma.StayFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.StayFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.StayFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>
+        }
+        findFirst: {
+          args: Prisma.StayFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.StayFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>
+        }
+        findMany: {
+          args: Prisma.StayFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>[]
+        }
+        create: {
+          args: Prisma.StayCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>
+        }
+        createMany: {
+          args: Prisma.StayCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.StayCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>[]
+        }
+        delete: {
+          args: Prisma.StayDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>
+        }
+        update: {
+          args: Prisma.StayUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>
+        }
+        deleteMany: {
+          args: Prisma.StayDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.StayUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.StayUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>[]
+        }
+        upsert: {
+          args: Prisma.StayUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StayPayload>
+        }
+        aggregate: {
+          args: Prisma.StayAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateStay>
+        }
+        groupBy: {
+          args: Prisma.StayGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StayGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.StayCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StayCountAggregateOutputType> | number
+        }
+      }
+    }
     TripBudget: {
       payload: Prisma.$TripBudgetPayload<ExtArgs>
       fields: Prisma.TripBudgetFieldRefs
@@ -897,110 +1135,998 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>
         }
         update: {
-          args: Prisma.TripBudgetUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>
+          args: Prisma.TripBudgetUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>
+        }
+        deleteMany: {
+          args: Prisma.TripBudgetDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TripBudgetUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TripBudgetUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>[]
+        }
+        upsert: {
+          args: Prisma.TripBudgetUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>
+        }
+        aggregate: {
+          args: Prisma.TripBudgetAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTripBudget>
+        }
+        groupBy: {
+          args: Prisma.TripBudgetGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TripBudgetGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TripBudgetCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TripBudgetCountAggregateOutputType> | number
+        }
+      }
+    }
+    Expense: {
+      payload: Prisma.$ExpensePayload<ExtArgs>
+      fields: Prisma.ExpenseFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>
+        }
+        findFirst: {
+          args: Prisma.ExpenseFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ExpenseFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>
+        }
+        findMany: {
+          args: Prisma.ExpenseFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[]
+        }
+        create: {
+          args: Prisma.ExpenseCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>
+        }
+        createMany: {
+          args: Prisma.ExpenseCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ExpenseCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[]
+        }
+        delete: {
+          args: Prisma.ExpenseDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>
+        }
+        update: {
+          args: Prisma.ExpenseUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>
+        }
+        deleteMany: {
+          args: Prisma.ExpenseDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ExpenseUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ExpenseUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[]
+        }
+        upsert: {
+          args: Prisma.ExpenseUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>
+        }
+        aggregate: {
+          args: Prisma.ExpenseAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpense>
+        }
+        groupBy: {
+          args: Prisma.ExpenseGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ExpenseCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseCountAggregateOutputType> | number
+        }
+      }
+    }
+    ExpenseSplit: {
+      payload: Prisma.$ExpenseSplitPayload<ExtArgs>
+      fields: Prisma.ExpenseSplitFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseSplitFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseSplitFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>
+        }
+        findFirst: {
+          args: Prisma.ExpenseSplitFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ExpenseSplitFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>
+        }
+        findMany: {
+          args: Prisma.ExpenseSplitFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>[]
+        }
+        create: {
+          args: Prisma.ExpenseSplitCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>
+        }
+        createMany: {
+          args: Prisma.ExpenseSplitCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ExpenseSplitCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>[]
+        }
+        delete: {
+          args: Prisma.ExpenseSplitDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>
+        }
+        update: {
+          args: Prisma.ExpenseSplitUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>
+        }
+        deleteMany: {
+          args: Prisma.ExpenseSplitDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ExpenseSplitUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ExpenseSplitUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>[]
+        }
+        upsert: {
+          args: Prisma.ExpenseSplitUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSplitPayload>
+        }
+        aggregate: {
+          args: Prisma.ExpenseSplitAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpenseSplit>
+        }
+        groupBy: {
+          args: Prisma.ExpenseSplitGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseSplitGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ExpenseSplitCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseSplitCountAggregateOutputType> | number
+        }
+      }
+    }
+    Settlement: {
+      payload: Prisma.$SettlementPayload<ExtArgs>
+      fields: Prisma.SettlementFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SettlementFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SettlementFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>
+        }
+        findFirst: {
+          args: Prisma.SettlementFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SettlementFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>
+        }
+        findMany: {
+          args: Prisma.SettlementFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>[]
+        }
+        create: {
+          args: Prisma.SettlementCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>
+        }
+        createMany: {
+          args: Prisma.SettlementCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SettlementCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>[]
+        }
+        delete: {
+          args: Prisma.SettlementDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>
+        }
+        update: {
+          args: Prisma.SettlementUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>
+        }
+        deleteMany: {
+          args: Prisma.SettlementDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SettlementUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SettlementUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>[]
+        }
+        upsert: {
+          args: Prisma.SettlementUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SettlementPayload>
+        }
+        aggregate: {
+          args: Prisma.SettlementAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSettlement>
+        }
+        groupBy: {
+          args: Prisma.SettlementGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SettlementGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SettlementCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SettlementCountAggregateOutputType> | number
+        }
+      }
+    }
+    BudgetAlertRule: {
+      payload: Prisma.$BudgetAlertRulePayload<ExtArgs>
+      fields: Prisma.BudgetAlertRuleFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BudgetAlertRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BudgetAlertRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>
+        }
+        findFirst: {
+          args: Prisma.BudgetAlertRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BudgetAlertRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>
+        }
+        findMany: {
+          args: Prisma.BudgetAlertRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>[]
+        }
+        create: {
+          args: Prisma.BudgetAlertRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>
+        }
+        createMany: {
+          args: Prisma.BudgetAlertRuleCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BudgetAlertRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>[]
+        }
+        delete: {
+          args: Prisma.BudgetAlertRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>
+        }
+        update: {
+          args: Prisma.BudgetAlertRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>
+        }
+        deleteMany: {
+          args: Prisma.BudgetAlertRuleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BudgetAlertRuleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BudgetAlertRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>[]
+        }
+        upsert: {
+          args: Prisma.BudgetAlertRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetAlertRulePayload>
+        }
+        aggregate: {
+          args: Prisma.BudgetAlertRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBudgetAlertRule>
+        }
+        groupBy: {
+          args: Prisma.BudgetAlertRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BudgetAlertRuleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BudgetAlertRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BudgetAlertRuleCountAggregateOutputType> | number
+        }
+      }
+    }
+    Notification: {
+      payload: Prisma.$NotificationPayload<ExtArgs>
+      fields: Prisma.NotificationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.NotificationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.NotificationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        findFirst: {
+          args: Prisma.NotificationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.NotificationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        findMany: {
+          args: Prisma.NotificationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+        }
+        create: {
+          args: Prisma.NotificationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        createMany: {
+          args: Prisma.NotificationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.NotificationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+        }
+        delete: {
+          args: Prisma.NotificationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        update: {
+          args: Prisma.NotificationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        deleteMany: {
+          args: Prisma.NotificationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.NotificationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.NotificationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>[]
+        }
+        upsert: {
+          args: Prisma.NotificationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$NotificationPayload>
+        }
+        aggregate: {
+          args: Prisma.NotificationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateNotification>
+        }
+        groupBy: {
+          args: Prisma.NotificationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NotificationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.NotificationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.NotificationCountAggregateOutputType> | number
+        }
+      }
+    }
+    TripChange: {
+      payload: Prisma.$TripChangePayload<ExtArgs>
+      fields: Prisma.TripChangeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TripChangeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TripChangeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>
+        }
+        findFirst: {
+          args: Prisma.TripChangeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TripChangeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>
+        }
+        findMany: {
+          args: Prisma.TripChangeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>[]
+        }
+        create: {
+          args: Prisma.TripChangeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>
+        }
+        createMany: {
+          args: Prisma.TripChangeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TripChangeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>[]
+        }
+        delete: {
+          args: Prisma.TripChangeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>
+        }
+        update: {
+          args: Prisma.TripChangeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>
+        }
+        deleteMany: {
+          args: Prisma.TripChangeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TripChangeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TripChangeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>[]
+        }
+        upsert: {
+          args: Prisma.TripChangeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripChangePayload>
+        }
+        aggregate: {
+          args: Prisma.TripChangeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTripChange>
+        }
+        groupBy: {
+          args: Prisma.TripChangeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TripChangeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TripChangeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TripChangeCountAggregateOutputType> | number
+        }
+      }
+    }
+    Session: {
+      payload: Prisma.$SessionPayload<ExtArgs>
+      fields: Prisma.SessionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SessionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SessionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>
+        }
+        findFirst: {
+          args: Prisma.SessionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SessionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>
+        }
+        findMany: {
+          args: Prisma.SessionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>[]
+        }
+        create: {
+          args: Prisma.SessionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>
+        }
+        createMany: {
+          args: Prisma.SessionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SessionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>[]
+        }
+        delete: {
+          args: Prisma.SessionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>
+        }
+        update: {
+          args: Prisma.SessionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>
+        }
+        deleteMany: {
+          args: Prisma.SessionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SessionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SessionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>[]
+        }
+        upsert: {
+          args: Prisma.SessionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SessionPayload>
+        }
+        aggregate: {
+          args: Prisma.SessionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSession>
+        }
+        groupBy: {
+          args: Prisma.SessionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SessionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SessionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SessionCountAggregateOutputType> | number
+        }
+      }
+    }
+    UserIdentity: {
+      payload: Prisma.$UserIdentityPayload<ExtArgs>
+      fields: Prisma.UserIdentityFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.UserIdentityFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.UserIdentityFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>
+        }
+        findFirst: {
+          args: Prisma.UserIdentityFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.UserIdentityFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>
+        }
+        findMany: {
+          args: Prisma.UserIdentityFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>[]
+        }
+        create: {
+          args: Prisma.UserIdentityCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>
+        }
+        createMany: {
+          args: Prisma.UserIdentityCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.UserIdentityCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>[]
+        }
+        delete: {
+          args: Prisma.UserIdentityDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>
+        }
+        update: {
+          args: Prisma.UserIdentityUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>
+        }
+        deleteMany: {
+          args: Prisma.UserIdentityDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.UserIdentityUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.UserIdentityUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>[]
+        }
+        upsert: {
+          args: Prisma.UserIdentityUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserIdentityPayload>
+        }
+        aggregate: {
+          args: Prisma.UserIdentityAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateUserIdentity>
+        }
+        groupBy: {
+          args: Prisma.UserIdentityGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserIdentityGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.UserIdentityCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserIdentityCountAggregateOutputType> | number
+        }
+      }
+    }
+    SecurityEvent: {
+      payload: Prisma.$SecurityEventPayload<ExtArgs>
+      fields: Prisma.SecurityEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SecurityEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SecurityEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>
+        }
+        findFirst: {
+          args: Prisma.SecurityEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SecurityEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>
+        }
+        findMany: {
+          args: Prisma.SecurityEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>[]
+        }
+        create: {
+          args: Prisma.SecurityEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>
+        }
+        createMany: {
+          args: Prisma.SecurityEventCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SecurityEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>[]
+        }
+        delete: {
+          args: Prisma.SecurityEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>
+        }
+        update: {
+          args: Prisma.SecurityEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>
+        }
+        deleteMany: {
+          args: Prisma.SecurityEventDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SecurityEventUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SecurityEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>[]
+        }
+        upsert: {
+          args: Prisma.SecurityEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SecurityEventPayload>
+        }
+        aggregate: {
+          args: Prisma.SecurityEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSecurityEvent>
+        }
+        groupBy: {
+          args: Prisma.SecurityEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SecurityEventGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SecurityEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SecurityEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    UserToken: {
+      payload: Prisma.$UserTokenPayload<ExtArgs>
+      fields: Prisma.UserTokenFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.UserTokenFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.UserTokenFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>
+        }
+        findFirst: {
+          args: Prisma.UserTokenFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.UserTokenFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>
+        }
+        findMany: {
+          args: Prisma.UserTokenFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>[]
+        }
+        create: {
+          args: Prisma.UserTokenCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>
+        }
+        createMany: {
+          args: Prisma.UserTokenCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.UserTokenCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>[]
+        }
+        delete: {
+          args: Prisma.UserTokenDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>
+        }
+        update: {
+          args: Prisma.UserTokenUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>
+        }
+        deleteMany: {
+          args: Prisma.UserTokenDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.UserTokenUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.UserTokenUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>[]
+        }
+        upsert: {
+          args: Prisma.UserTokenUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$UserTokenPayload>
+        }
+        aggregate: {
+          args: Prisma.UserTokenAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateUserToken>
+        }
+        groupBy: {
+          args: Prisma.UserTokenGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserTokenGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.UserTokenCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.UserTokenCountAggregateOutputType> | number
+        }
+      }
+    }
+    SharedTrip: {
+      payload: Prisma.$SharedTripPayload<ExtArgs>
+      fields: Prisma.SharedTripFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SharedTripFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SharedTripFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+        }
+        findFirst: {
+          args: Prisma.SharedTripFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SharedTripFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+        }
+        findMany: {
+          args: Prisma.SharedTripFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>[]
+        }
+        create: {
+          args: Prisma.SharedTripCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+        }
+        createMany: {
+          args: Prisma.SharedTripCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SharedTripCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>[]
+        }
+        delete: {
+          args: Prisma.SharedTripDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+        }
+        update: {
+          args: Prisma.SharedTripUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+        }
+        deleteMany: {
+          args: Prisma.SharedTripDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SharedTripUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SharedTripUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>[]
+        }
+        upsert: {
+          args: Prisma.SharedTripUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+        }
+        aggregate: {
+          args: Prisma.SharedTripAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSharedTrip>
+        }
+        groupBy: {
+          args: Prisma.SharedTripGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SharedTripGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SharedTripCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SharedTripCountAggregateOutputType> | number
+        }
+      }
+    }
+    ShareView: {
+      payload: Prisma.$ShareViewPayload<ExtArgs>
+      fields: Prisma.ShareViewFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShareViewFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShareViewFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>
+        }
+        findFirst: {
+          args: Prisma.ShareViewFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ShareViewFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>
+        }
+        findMany: {
+          args: Prisma.ShareViewFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>[]
+        }
+        create: {
+          args: Prisma.ShareViewCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>
+        }
+        createMany: {
+          args: Prisma.ShareViewCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ShareViewCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>[]
+        }
+        delete: {
+          args: Prisma.ShareViewDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>
+        }
+        update: {
+          args: Prisma.ShareViewUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>
         }
         deleteMany: {
-          args: Prisma.TripBudgetDeleteManyArgs<ExtArgs>
+          args: Prisma.ShareViewDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.TripBudgetUpdateManyArgs<ExtArgs>
+          args: Prisma.ShareViewUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.TripBudgetUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>[]
+          args: Prisma.ShareViewUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>[]
         }
         upsert: {
-          args: Prisma.TripBudgetUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TripBudgetPayload>
+          args: Prisma.ShareViewUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareViewPayload>
         }
         aggregate: {
-          args: Prisma.TripBudgetAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateTripBudget>
+          args: Prisma.ShareViewAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShareView>
         }
         groupBy: {
-          args: Prisma.TripBudgetGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.TripBudgetGroupByOutputType>[]
+          args: Prisma.ShareViewGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShareViewGroupByOutputType>[]
         }
         count: {
-          args: Prisma.TripBudgetCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.TripBudgetCountAggregateOutputType> | number
+          args: Prisma.ShareViewCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShareViewCountAggregateOutputType> | number
         }
       }
     }
-    SharedTrip: {
-      payload: Prisma.$SharedTripPayload<ExtArgs>
-      fields: Prisma.SharedTripFieldRefs
+    ShareInvitation: {
+      payload: Prisma.$ShareInvitationPayload<ExtArgs>
+      fields: Prisma.ShareInvitationFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.SharedTripFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload> | null
+          args: Prisma.ShareInvitationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.SharedTripFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+          args: Prisma.ShareInvitationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>
         }
         findFirst: {
-          args: Prisma.SharedTripFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload> | null
+          args: Prisma.ShareInvitationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.SharedTripFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+          args: Prisma.ShareInvitationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>
         }
         findMany: {
-          args: Prisma.SharedTripFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>[]
+          args: Prisma.ShareInvitationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>[]
         }
         create: {
-          args: Prisma.SharedTripCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+          args: Prisma.ShareInvitationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>
         }
         createMany: {
-          args: Prisma.SharedTripCreateManyArgs<ExtArgs>
+          args: Prisma.ShareInvitationCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.SharedTripCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>[]
+          args: Prisma.ShareInvitationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>[]
         }
         delete: {
-          args: Prisma.SharedTripDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+          args: Prisma.ShareInvitationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>
         }
         update: {
-          args: Prisma.SharedTripUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+          args: Prisma.ShareInvitationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>
         }
         deleteMany: {
-          args: Prisma.SharedTripDeleteManyArgs<ExtArgs>
+          args: Prisma.ShareInvitationDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.SharedTripUpdateManyArgs<ExtArgs>
+          args: Prisma.ShareInvitationUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.SharedTripUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>[]
+          args: Prisma.ShareInvitationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>[]
         }
         upsert: {
-          args: Prisma.SharedTripUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$SharedTripPayload>
+          args: Prisma.ShareInvitationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShareInvitationPayload>
         }
         aggregate: {
-          args: Prisma.SharedTripAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateSharedTrip>
+          args: Prisma.ShareInvitationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShareInvitation>
         }
         groupBy: {
-          args: Prisma.SharedTripGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SharedTripGroupByOutputType>[]
+          args: Prisma.ShareInvitationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShareInvitationGroupByOutputType>[]
         }
         count: {
-          args: Prisma.SharedTripCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.SharedTripCountAggregateOutputType> | number
+          args: Prisma.ShareInvitationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShareInvitationCountAggregateOutputType> | number
         }
       }
     }
@@ -1078,6 +2204,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    ExchangeRate: {
+      payload: Prisma.$ExchangeRatePayload<ExtArgs>
+      fields: Prisma.ExchangeRateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ExchangeRateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ExchangeRateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>
+        }
+        findFirst: {
+          args: Prisma.ExchangeRateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ExchangeRateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>
+        }
+        findMany: {
+          args: Prisma.ExchangeRateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>[]
+        }
+        create: {
+          args: Prisma.ExchangeRateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>
+        }
+        createMany: {
+          args: Prisma.ExchangeRateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ExchangeRateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>[]
+        }
+        delete: {
+          args: Prisma.ExchangeRateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>
+        }
+        update: {
+          args: Prisma.ExchangeRateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>
+        }
+        deleteMany: {
+          args: Prisma.ExchangeRateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ExchangeRateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ExchangeRateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>[]
+        }
+        upsert: {
+          args: Prisma.ExchangeRateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>
+        }
+        aggregate: {
+          args: Prisma.ExchangeRateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExchangeRate>
+        }
+        groupBy: {
+          args: Prisma.ExchangeRateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExchangeRateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ExchangeRateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ExchangeRateCountAggregateOutputType> | number
+        }
+      }
+    }
   }
 } & {
   other: {
@@ -1126,114 +2326,321 @@ export const UserScalarFieldEnum = {
   language: 'language',
   currency: 'currency',
   role: 'role',
+  emailVerifiedAt: 'emailVerifiedAt',
+  failedLoginAttempts: 'failedLoginAttempts',
+  lockedUntil: 'lockedUntil',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
+
+
+export const TripScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  description: 'description',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  totalBudget: 'totalBudget',
+  currency: 'currency',
+  coverPhotoUrl: 'coverPhotoUrl',
+  status: 'status',
+  aiGenerated: 'aiGenerated',
+  deletedAt: 'deletedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TripScalarFieldEnum = (typeof TripScalarFieldEnum)[keyof typeof TripScalarFieldEnum]
+
+
+export const CityScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  country: 'country',
+  continent: 'continent',
+  imageUrl: 'imageUrl',
+  avgDailyCost: 'avgDailyCost',
+  currency: 'currency',
+  popularityScore: 'popularityScore',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  metaInfo: 'metaInfo',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CityScalarFieldEnum = (typeof CityScalarFieldEnum)[keyof typeof CityScalarFieldEnum]
+
+
+export const ActivityScalarFieldEnum = {
+  id: 'id',
+  cityId: 'cityId',
+  name: 'name',
+  description: 'description',
+  imageUrl: 'imageUrl',
+  category: 'category',
+  estimatedCost: 'estimatedCost',
+  durationMinutes: 'durationMinutes',
+  rating: 'rating',
+  address: 'address',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  openingHours: 'openingHours',
+  tags: 'tags',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ActivityScalarFieldEnum = (typeof ActivityScalarFieldEnum)[keyof typeof ActivityScalarFieldEnum]
+
+
+export const ItineraryScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  cityId: 'cityId',
+  dayNumber: 'dayNumber',
+  date: 'date',
+  notes: 'notes',
+  orderIndex: 'orderIndex',
+  version: 'version',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ItineraryScalarFieldEnum = (typeof ItineraryScalarFieldEnum)[keyof typeof ItineraryScalarFieldEnum]
+
+
+export const ItineraryActivityScalarFieldEnum = {
+  id: 'id',
+  itineraryId: 'itineraryId',
+  activityId: 'activityId',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  customNotes: 'customNotes',
+  customCost: 'customCost',
+  orderIndex: 'orderIndex',
+  version: 'version',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ItineraryActivityScalarFieldEnum = (typeof ItineraryActivityScalarFieldEnum)[keyof typeof ItineraryActivityScalarFieldEnum]
+
+
+export const RouteProposalScalarFieldEnum = {
+  id: 'id',
+  itineraryId: 'itineraryId',
+  createdById: 'createdById',
+  status: 'status',
+  changes: 'changes',
+  timeSavedMinutes: 'timeSavedMinutes',
+  reasoning: 'reasoning',
+  unmatchedNames: 'unmatchedNames',
+  createdAt: 'createdAt',
+  resolvedAt: 'resolvedAt'
+} as const
+
+export type RouteProposalScalarFieldEnum = (typeof RouteProposalScalarFieldEnum)[keyof typeof RouteProposalScalarFieldEnum]
+
+
+export const TransportLegScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  mode: 'mode',
+  departureCityId: 'departureCityId',
+  arrivalCityId: 'arrivalCityId',
+  departureTime: 'departureTime',
+  arrivalTime: 'arrivalTime',
+  cost: 'cost',
+  currency: 'currency',
+  bookingReference: 'bookingReference',
+  notes: 'notes',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TransportLegScalarFieldEnum = (typeof TransportLegScalarFieldEnum)[keyof typeof TransportLegScalarFieldEnum]
+
+
+export const StayScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  cityId: 'cityId',
+  name: 'name',
+  address: 'address',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  checkIn: 'checkIn',
+  checkOut: 'checkOut',
+  nightlyCost: 'nightlyCost',
+  currency: 'currency',
+  confirmationNumber: 'confirmationNumber',
+  notes: 'notes',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type StayScalarFieldEnum = (typeof StayScalarFieldEnum)[keyof typeof StayScalarFieldEnum]
+
+
+export const TripBudgetScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  category: 'category',
+  allocatedAmount: 'allocatedAmount',
+  spentAmount: 'spentAmount',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TripBudgetScalarFieldEnum = (typeof TripBudgetScalarFieldEnum)[keyof typeof TripBudgetScalarFieldEnum]
+
+
+export const ExpenseScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  category: 'category',
+  amount: 'amount',
+  currency: 'currency',
+  date: 'date',
+  itineraryActivityId: 'itineraryActivityId',
+  paidById: 'paidById',
+  splitMethod: 'splitMethod',
+  notes: 'notes',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ExpenseScalarFieldEnum = (typeof ExpenseScalarFieldEnum)[keyof typeof ExpenseScalarFieldEnum]
+
+
+export const ExpenseSplitScalarFieldEnum = {
+  id: 'id',
+  expenseId: 'expenseId',
+  userId: 'userId',
+  shares: 'shares',
+  amount: 'amount'
+} as const
+
+export type ExpenseSplitScalarFieldEnum = (typeof ExpenseSplitScalarFieldEnum)[keyof typeof ExpenseSplitScalarFieldEnum]
+
+
+export const SettlementScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  fromUserId: 'fromUserId',
+  toUserId: 'toUserId',
+  amount: 'amount',
+  currency: 'currency',
+  date: 'date',
+  notes: 'notes',
+  createdAt: 'createdAt'
+} as const
+
+export type SettlementScalarFieldEnum = (typeof SettlementScalarFieldEnum)[keyof typeof SettlementScalarFieldEnum]
+
+
+export const BudgetAlertRuleScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  category: 'category',
+  thresholdPercent: 'thresholdPercent',
+  isActive: 'isActive',
+  triggeredAt: 'triggeredAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
 
-export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
+export type BudgetAlertRuleScalarFieldEnum = (typeof BudgetAlertRuleScalarFieldEnum)[keyof typeof BudgetAlertRuleScalarFieldEnum]
 
 
-export const TripScalarFieldEnum = {
+export const NotificationScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
-  name: 'name',
-  description: 'description',
-  startDate: 'startDate',
-  endDate: 'endDate',
-  totalBudget: 'totalBudget',
-  coverPhotoUrl: 'coverPhotoUrl',
-  status: 'status',
-  aiGenerated: 'aiGenerated',
-  createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  tripId: 'tripId',
+  type: 'type',
+  title: 'title',
+  message: 'message',
+  data: 'data',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
 } as const
 
-export type TripScalarFieldEnum = (typeof TripScalarFieldEnum)[keyof typeof TripScalarFieldEnum]
+export type NotificationScalarFieldEnum = (typeof NotificationScalarFieldEnum)[keyof typeof NotificationScalarFieldEnum]
 
 
-export const CityScalarFieldEnum = {
+export const TripChangeScalarFieldEnum = {
   id: 'id',
-  name: 'name',
-  country: 'country',
-  continent: 'continent',
-  imageUrl: 'imageUrl',
-  avgDailyCost: 'avgDailyCost',
-  currency: 'currency',
-  popularityScore: 'popularityScore',
-  latitude: 'latitude',
-  longitude: 'longitude',
-  metaInfo: 'metaInfo',
-  createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  tripId: 'tripId',
+  actorId: 'actorId',
+  entity: 'entity',
+  entityId: 'entityId',
+  action: 'action',
+  before: 'before',
+  after: 'after',
+  revertOfId: 'revertOfId',
+  createdAt: 'createdAt'
 } as const
 
-export type CityScalarFieldEnum = (typeof CityScalarFieldEnum)[keyof typeof CityScalarFieldEnum]
+export type TripChangeScalarFieldEnum = (typeof TripChangeScalarFieldEnum)[keyof typeof TripChangeScalarFieldEnum]
 
 
-export const ActivityScalarFieldEnum = {
+export const SessionScalarFieldEnum = {
   id: 'id',
-  cityId: 'cityId',
-  name: 'name',
-  description: 'description',
-  imageUrl: 'imageUrl',
-  category: 'category',
-  estimatedCost: 'estimatedCost',
-  durationMinutes: 'durationMinutes',
-  rating: 'rating',
-  address: 'address',
-  latitude: 'latitude',
-  longitude: 'longitude',
-  openingHours: 'openingHours',
-  tags: 'tags',
+  userId: 'userId',
+  tokenHash: 'tokenHash',
+  userAgent: 'userAgent',
+  ipAddress: 'ipAddress',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  lastUsedAt: 'lastUsedAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason'
 } as const
 
-export type ActivityScalarFieldEnum = (typeof ActivityScalarFieldEnum)[keyof typeof ActivityScalarFieldEnum]
+export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum]
 
 
-export const ItineraryScalarFieldEnum = {
+export const UserIdentityScalarFieldEnum = {
   id: 'id',
-  tripId: 'tripId',
-  cityId: 'cityId',
-  dayNumber: 'dayNumber',
-  date: 'date',
-  notes: 'notes',
-  orderIndex: 'orderIndex',
+  userId: 'userId',
+  provider: 'provider',
+  subject: 'subject',
+  email: 'email',
   createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  lastUsedAt: 'lastUsedAt'
 } as const
 
-export type ItineraryScalarFieldEnum = (typeof ItineraryScalarFieldEnum)[keyof typeof ItineraryScalarFieldEnum]
+export type UserIdentityScalarFieldEnum = (typeof UserIdentityScalarFieldEnum)[keyof typeof UserIdentityScalarFieldEnum]
 
 
-export const ItineraryActivityScalarFieldEnum = {
+export const SecurityEventScalarFieldEnum = {
   id: 'id',
-  itineraryId: 'itineraryId',
-  activityId: 'activityId',
-  startTime: 'startTime',
-  endTime: 'endTime',
-  customNotes: 'customNotes',
-  customCost: 'customCost',
-  orderIndex: 'orderIndex',
-  createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  userId: 'userId',
+  type: 'type',
+  ipAddress: 'ipAddress',
+  userAgent: 'userAgent',
+  metadata: 'metadata',
+  createdAt: 'createdAt'
 } as const
 
-export type ItineraryActivityScalarFieldEnum = (typeof ItineraryActivityScalarFieldEnum)[keyof typeof ItineraryActivityScalarFieldEnum]
+export type SecurityEventScalarFieldEnum = (typeof SecurityEventScalarFieldEnum)[keyof typeof SecurityEventScalarFieldEnum]
 
 
-export const TripBudgetScalarFieldEnum = {
+export const UserTokenScalarFieldEnum = {
   id: 'id',
-  tripId: 'tripId',
-  category: 'category',
-  allocatedAmount: 'allocatedAmount',
-  spentAmount: 'spentAmount',
-  createdAt: 'createdAt',
-  updatedAt: 'updatedAt'
+  userId: 'userId',
+  purpose: 'purpose',
+  tokenHash: 'tokenHash',
+  expiresAt: 'expiresAt',
+  usedAt: 'usedAt',
+  createdAt: 'createdAt'
 } as const
 
-export type TripBudgetScalarFieldEnum = (typeof TripBudgetScalarFieldEnum)[keyof typeof TripBudgetScalarFieldEnum]
+export type UserTokenScalarFieldEnum = (typeof UserTokenScalarFieldEnum)[keyof typeof UserTokenScalarFieldEnum]
 
 
 export const SharedTripScalarFieldEnum = {
@@ -1244,12 +2651,50 @@ export const SharedTripScalarFieldEnum = {
   publicSlug: 'publicSlug',
   permission: 'permission',
   expiresAt: 'expiresAt',
+  passwordHash: 'passwordHash',
+  maxViews: 'maxViews',
+  viewCount: 'viewCount',
+  lastViewedAt: 'lastViewedAt',
+  isEnabled: 'isEnabled',
+  includeBudget: 'includeBudget',
   createdAt: 'createdAt'
 } as const
 
 export type SharedTripScalarFieldEnum = (typeof SharedTripScalarFieldEnum)[keyof typeof SharedTripScalarFieldEnum]
 
 
+export const ShareViewScalarFieldEnum = {
+  id: 'id',
+  shareId: 'shareId',
+  viewerKey: 'viewerKey',
+  viewerId: 'viewerId',
+  viewCount: 'viewCount',
+  firstViewedAt: 'firstViewedAt',
+  lastViewedAt: 'lastViewedAt',
+  sessionId: 'sessionId'
+} as const
+
+export type ShareViewScalarFieldEnum = (typeof ShareViewScalarFieldEnum)[keyof typeof ShareViewScalarFieldEnum]
+
+
+export const ShareInvitationScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  invitedById: 'invitedById',
+  email: 'email',
+  inviteeId: 'inviteeId',
+  permission: 'permission',
+  expiresInDays: 'expiresInDays',
+  status: 'status',
+  shareId: 'shareId',
+  sentAt: 'sentAt',
+  respondedAt: 'respondedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ShareInvitationScalarFieldEnum = (typeof ShareInvitationScalarFieldEnum)[keyof typeof ShareInvitationScalarFieldEnum]
+
+
 export const SavedCityScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -1260,6 +2705,19 @@ export const SavedCityScalarFieldEnum = {
 export type SavedCityScalarFieldEnum = (typeof SavedCityScalarFieldEnum)[keyof typeof SavedCityScalarFieldEnum]
 
 
+export const ExchangeRateScalarFieldEnum = {
+  id: 'id',
+  baseCurrency: 'baseCurrency',
+  quoteCurrency: 'quoteCurrency',
+  rate: 'rate',
+  rateDate: 'rateDate',
+  source: 'source',
+  createdAt: 'createdAt'
+} as const
+
+export type ExchangeRateScalarFieldEnum = (typeof ExchangeRateScalarFieldEnum)[keyof typeof ExchangeRateScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -1276,6 +2734,13 @@ export const NullableJsonNullValueInput = {
 export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
+export const JsonNullValueInput = {
+  JsonNull: JsonNull
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -1350,51 +2815,51 @@ export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaM
 
 
 /**
- * Reference to a field of type 'Decimal'
+ * Reference to a field of type 'Int'
  */
-export type DecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal'>
+export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
     
 
 
 /**
- * Reference to a field of type 'Decimal[]'
+ * Reference to a field of type 'Int[]'
  */
-export type ListDecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal[]'>
+export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
     
 
 
 /**
- * Reference to a field of type 'TripStatus'
+ * Reference to a field of type 'Decimal'
  */
-export type EnumTripStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripStatus'>
+export type DecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal'>
     
 
 
 /**
- * Reference to a field of type 'TripStatus[]'
+ * Reference to a field of type 'Decimal[]'
  */
-export type ListEnumTripStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripStatus[]'>
+export type ListDecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Decimal[]'>
     
 
 
 /**
- * Reference to a field of type 'Boolean'
+ * Reference to a field of type 'TripStatus'
  */
-export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
+export type EnumTripStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripStatus'>
     
 
 
 /**
- * Reference to a field of type 'Int'
+ * Reference to a field of type 'TripStatus[]'
  */
-export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+export type ListEnumTripStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripStatus[]'>
     
 
 
 /**
- * Reference to a field of type 'Int[]'
+ * Reference to a field of type 'Boolean'
  */
-export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int[]'>
+export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
     
 
 
@@ -1440,6 +2905,34 @@ export type ListEnumActivityCategoryFieldRefInput<$PrismaModel> = FieldRefInputT
     
 
 
+/**
+ * Reference to a field of type 'ProposalStatus'
+ */
+export type EnumProposalStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ProposalStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'ProposalStatus[]'
+ */
+export type ListEnumProposalStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ProposalStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'TransportMode'
+ */
+export type EnumTransportModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TransportMode'>
+    
+
+
+/**
+ * Reference to a field of type 'TransportMode[]'
+ */
+export type ListEnumTransportModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TransportMode[]'>
+    
+
+
 /**
  * Reference to a field of type 'BudgetCategory'
  */
@@ -1454,6 +2947,118 @@ export type ListEnumBudgetCategoryFieldRefInput<$PrismaModel> = FieldRefInputTyp
     
 
 
+/**
+ * Reference to a field of type 'SplitMethod'
+ */
+export type EnumSplitMethodFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SplitMethod'>
+    
+
+
+/**
+ * Reference to a field of type 'SplitMethod[]'
+ */
+export type ListEnumSplitMethodFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SplitMethod[]'>
+    
+
+
+/**
+ * Reference to a field of type 'NotificationType'
+ */
+export type EnumNotificationTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NotificationType'>
+    
+
+
+/**
+ * Reference to a field of type 'NotificationType[]'
+ */
+export type ListEnumNotificationTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NotificationType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'TripChangeEntity'
+ */
+export type EnumTripChangeEntityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripChangeEntity'>
+    
+
+
+/**
+ * Reference to a field of type 'TripChangeEntity[]'
+ */
+export type ListEnumTripChangeEntityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripChangeEntity[]'>
+    
+
+
+/**
+ * Reference to a field of type 'TripChangeAction'
+ */
+export type EnumTripChangeActionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripChangeAction'>
+    
+
+
+/**
+ * Reference to a field of type 'TripChangeAction[]'
+ */
+export type ListEnumTripChangeActionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'TripChangeAction[]'>
+    
+
+
+/**
+ * Reference to a field of type 'SessionRevokeReason'
+ */
+export type EnumSessionRevokeReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SessionRevokeReason'>
+    
+
+
+/**
+ * Reference to a field of type 'SessionRevokeReason[]'
+ */
+export type ListEnumSessionRevokeReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SessionRevokeReason[]'>
+    
+
+
+/**
+ * Reference to a field of type 'IdentityProvider'
+ */
+export type EnumIdentityProviderFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IdentityProvider'>
+    
+
+
+/**
+ * Reference to a field of type 'IdentityProvider[]'
+ */
+export type ListEnumIdentityProviderFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'IdentityProvider[]'>
+    
+
+
+/**
+ * Reference to a field of type 'SecurityEventType'
+ */
+export type EnumSecurityEventTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SecurityEventType'>
+    
+
+
+/**
+ * Reference to a field of type 'SecurityEventType[]'
+ */
+export type ListEnumSecurityEventTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SecurityEventType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'UserTokenPurpose'
+ */
+export type EnumUserTokenPurposeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserTokenPurpose'>
+    
+
+
+/**
+ * Reference to a field of type 'UserTokenPurpose[]'
+ */
+export type ListEnumUserTokenPurposeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserTokenPurpose[]'>
+    
+
+
 /**
  * Reference to a field of type 'SharePermission'
  */
@@ -1467,6 +3072,20 @@ export type EnumSharePermissionFieldRefInput<$PrismaModel> = FieldRefInputType<$
 export type ListEnumSharePermissionFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'SharePermission[]'>
     
 
+
+/**
+ * Reference to a field of type 'InvitationStatus'
+ */
+export type EnumInvitationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvitationStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'InvitationStatus[]'
+ */
+export type ListEnumInvitationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvitationStatus[]'>
+    
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -1568,9 +3187,25 @@ export type GlobalOmitConfig = {
   activity?: Prisma.ActivityOmit
   itinerary?: Prisma.ItineraryOmit
   itineraryActivity?: Prisma.ItineraryActivityOmit
+  routeProposal?: Prisma.RouteProposalOmit
+  transportLeg?: Prisma.TransportLegOmit
+  stay?: Prisma.StayOmit
   tripBudget?: Prisma.TripBudgetOmit
+  expense?: Prisma.ExpenseOmit
+  expenseSplit?: Prisma.ExpenseSplitOmit
+  settlement?: Prisma.SettlementOmit
+  budgetAlertRule?: Prisma.BudgetAlertRuleOmit
+  notification?: Prisma.NotificationOmit
+  tripChange?: Prisma.TripChangeOmit
+  session?: Prisma.SessionOmit
+  userIdentity?: Prisma.UserIdentityOmit
+  securityEvent?: Prisma.SecurityEventOmit
+  userToken?: Prisma.UserTokenOmit
   sharedTrip?: Prisma.SharedTripOmit
+  shareView?: Prisma.ShareViewOmit
+  shareInvitation?: Prisma.ShareInvitationOmit
   savedCity?: Prisma.SavedCityOmit
+  exchangeRate?: Prisma.ExchangeRateOmit
 }
 
 /* Types for Logging */
@@ -57,9 +57,25 @@ export const ModelName = {
   Activity: 'Activity',
   Itinerary: 'Itinerary',
   ItineraryActivity: 'ItineraryActivity',
+  RouteProposal: 'RouteProposal',
+  TransportLeg: 'TransportLeg',
+  Stay: 'Stay',
   TripBudget: 'TripBudget',
+  Expense: 'Expense',
+  ExpenseSplit: 'ExpenseSplit',
+  Settlement: 'Settlement',
+  BudgetAlertRule: 'BudgetAlertRule',
+  Notification: 'Notification',
+  TripChange: 'TripChange',
+  Session: 'Session',
+  UserIdentity: 'UserIdentity',
+  SecurityEvent: 'SecurityEvent',
+  UserToken: 'UserToken',
   SharedTrip: 'SharedTrip',
-  SavedCity: 'SavedCity'
+  ShareView: 'ShareView',
+  ShareInvitation: 'ShareInvitation',
+  SavedCity: 'SavedCity',
+  ExchangeRate: 'ExchangeRate'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -87,6 +103,9 @@ export const UserScalarFieldEnum = {
   language: 'language',
   currency: 'currency',
   role: 'role',
+  emailVerifiedAt: 'emailVerifiedAt',
+  failedLoginAttempts: 'failedLoginAttempts',
+  lockedUntil: 'lockedUntil',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -102,9 +121,11 @@ export const TripScalarFieldEnum = {
   startDate: 'startDate',
   endDate: 'endDate',
   totalBudget: 'totalBudget',
+  currency: 'currency',
   coverPhotoUrl: 'coverPhotoUrl',
   status: 'status',
   aiGenerated: 'aiGenerated',
+  deletedAt: 'deletedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -161,6 +182,7 @@ export const ItineraryScalarFieldEnum = {
   date: 'date',
   notes: 'notes',
   orderIndex: 'orderIndex',
+  version: 'version',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -177,6 +199,7 @@ export const ItineraryActivityScalarFieldEnum = {
   customNotes: 'customNotes',
   customCost: 'customCost',
   orderIndex: 'orderIndex',
+  version: 'version',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -184,6 +207,62 @@ export const ItineraryActivityScalarFieldEnum = {
 export type ItineraryActivityScalarFieldEnum = (typeof ItineraryActivityScalarFieldEnum)[keyof typeof ItineraryActivityScalarFieldEnum]
 
 
+export const RouteProposalScalarFieldEnum = {
+  id: 'id',
+  itineraryId: 'itineraryId',
+  createdById: 'createdById',
+  status: 'status',
+  changes: 'changes',
+  timeSavedMinutes: 'timeSavedMinutes',
+  reasoning: 'reasoning',
+  unmatchedNames: 'unmatchedNames',
+  createdAt: 'createdAt',
+  resolvedAt: 'resolvedAt'
+} as const
+
+export type RouteProposalScalarFieldEnum = (typeof RouteProposalScalarFieldEnum)[keyof typeof RouteProposalScalarFieldEnum]
+
+
+export const TransportLegScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  mode: 'mode',
+  departureCityId: 'departureCityId',
+  arrivalCityId: 'arrivalCityId',
+  departureTime: 'departureTime',
+  arrivalTime: 'arrivalTime',
+  cost: 'cost',
+  currency: 'currency',
+  bookingReference: 'bookingReference',
+  notes: 'notes',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TransportLegScalarFieldEnum = (typeof TransportLegScalarFieldEnum)[keyof typeof TransportLegScalarFieldEnum]
+
+
+export const StayScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  cityId: 'cityId',
+  name: 'name',
+  address: 'address',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  checkIn: 'checkIn',
+  checkOut: 'checkOut',
+  nightlyCost: 'nightlyCost',
+  currency: 'currency',
+  confirmationNumber: 'confirmationNumber',
+  notes: 'notes',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type StayScalarFieldEnum = (typeof StayScalarFieldEnum)[keyof typeof StayScalarFieldEnum]
+
+
 export const TripBudgetScalarFieldEnum = {
   id: 'id',
   tripId: 'tripId',
@@ -197,6 +276,150 @@ export const TripBudgetScalarFieldEnum = {
 export type TripBudgetScalarFieldEnum = (typeof TripBudgetScalarFieldEnum)[keyof typeof TripBudgetScalarFieldEnum]
 
 
+export const ExpenseScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  category: 'category',
+  amount: 'amount',
+  currency: 'currency',
+  date: 'date',
+  itineraryActivityId: 'itineraryActivityId',
+  paidById: 'paidById',
+  splitMethod: 'splitMethod',
+  notes: 'notes',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ExpenseScalarFieldEnum = (typeof ExpenseScalarFieldEnum)[keyof typeof ExpenseScalarFieldEnum]
+
+
+export const ExpenseSplitScalarFieldEnum = {
+  id: 'id',
+  expenseId: 'expenseId',
+  userId: 'userId',
+  shares: 'shares',
+  amount: 'amount'
+} as const
+
+export type ExpenseSplitScalarFieldEnum = (typeof ExpenseSplitScalarFieldEnum)[keyof typeof ExpenseSplitScalarFieldEnum]
+
+
+export const SettlementScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  fromUserId: 'fromUserId',
+  toUserId: 'toUserId',
+  amount: 'amount',
+  currency: 'currency',
+  date: 'date',
+  notes: 'notes',
+  createdAt: 'createdAt'
+} as const
+
+export type SettlementScalarFieldEnum = (typeof SettlementScalarFieldEnum)[keyof typeof SettlementScalarFieldEnum]
+
+
+export const BudgetAlertRuleScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  category: 'category',
+  thresholdPercent: 'thresholdPercent',
+  isActive: 'isActive',
+  triggeredAt: 'triggeredAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BudgetAlertRuleScalarFieldEnum = (typeof BudgetAlertRuleScalarFieldEnum)[keyof typeof BudgetAlertRuleScalarFieldEnum]
+
+
+export const NotificationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  tripId: 'tripId',
+  type: 'type',
+  title: 'title',
+  message: 'message',
+  data: 'data',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+} as const
+
+export type NotificationScalarFieldEnum = (typeof NotificationScalarFieldEnum)[keyof typeof NotificationScalarFieldEnum]
+
+
+export const TripChangeScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  actorId: 'actorId',
+  entity: 'entity',
+  entityId: 'entityId',
+  action: 'action',
+  before: 'before',
+  after: 'after',
+  revertOfId: 'revertOfId',
+  createdAt: 'createdAt'
+} as const
+
+export type TripChangeScalarFieldEnum = (typeof TripChangeScalarFieldEnum)[keyof typeof TripChangeScalarFieldEnum]
+
+
+export const SessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  tokenHash: 'tokenHash',
+  userAgent: 'userAgent',
+  ipAddress: 'ipAddress',
+  createdAt: 'createdAt',
+  lastUsedAt: 'lastUsedAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  revokedReason: 'revokedReason'
+} as const
+
+export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum]
+
+
+export const UserIdentityScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  provider: 'provider',
+  subject: 'subject',
+  email: 'email',
+  createdAt: 'createdAt',
+  lastUsedAt: 'lastUsedAt'
+} as const
+
+export type UserIdentityScalarFieldEnum = (typeof UserIdentityScalarFieldEnum)[keyof typeof UserIdentityScalarFieldEnum]
+
+
+export const SecurityEventScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  ipAddress: 'ipAddress',
+  userAgent: 'userAgent',
+  metadata: 'metadata',
+  createdAt: 'createdAt'
+} as const
+
+export type SecurityEventScalarFieldEnum = (typeof SecurityEventScalarFieldEnum)[keyof typeof SecurityEventScalarFieldEnum]
+
+
+export const UserTokenScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  purpose: 'purpose',
+  tokenHash: 'tokenHash',
+  expiresAt: 'expiresAt',
+  usedAt: 'usedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type UserTokenScalarFieldEnum = (typeof UserTokenScalarFieldEnum)[keyof typeof UserTokenScalarFieldEnum]
+
+
 export const SharedTripScalarFieldEnum = {
   id: 'id',
   tripId: 'tripId',
@@ -205,12 +428,50 @@ export const SharedTripScalarFieldEnum = {
   publicSlug: 'publicSlug',
   permission: 'permission',
   expiresAt: 'expiresAt',
+  passwordHash: 'passwordHash',
+  maxViews: 'maxViews',
+  viewCount: 'viewCount',
+  lastViewedAt: 'lastViewedAt',
+  isEnabled: 'isEnabled',
+  includeBudget: 'includeBudget',
   createdAt: 'createdAt'
 } as const
 
 export type SharedTripScalarFieldEnum = (typeof SharedTripScalarFieldEnum)[keyof typeof SharedTripScalarFieldEnum]
 
 
+export const ShareViewScalarFieldEnum = {
+  id: 'id',
+  shareId: 'shareId',
+  viewerKey: 'viewerKey',
+  viewerId: 'viewerId',
+  viewCount: 'viewCount',
+  firstViewedAt: 'firstViewedAt',
+  lastViewedAt: 'lastViewedAt',
+  sessionId: 'sessionId'
+} as const
+
+export type ShareViewScalarFieldEnum = (typeof ShareViewScalarFieldEnum)[keyof typeof ShareViewScalarFieldEnum]
+
+
+export const ShareInvitationScalarFieldEnum = {
+  id: 'id',
+  tripId: 'tripId',
+  invitedById: 'invitedById',
+  email: 'email',
+  inviteeId: 'inviteeId',
+  permission: 'permission',
+  expiresInDays: 'expiresInDays',
+  status: 'status',
+  shareId: 'shareId',
+  sentAt: 'sentAt',
+  respondedAt: 'respondedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ShareInvitationScalarFieldEnum = (typeof ShareInvitationScalarFieldEnum)[keyof typeof ShareInvitationScalarFieldEnum]
+
+
 export const SavedCityScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -221,6 +482,19 @@ export const SavedCityScalarFieldEnum = {
 export type SavedCityScalarFieldEnum = (typeof SavedCityScalarFieldEnum)[keyof typeof SavedCityScalarFieldEnum]
 
 
+export const ExchangeRateScalarFieldEnum = {
+  id: 'id',
+  baseCurrency: 'baseCurrency',
+  quoteCurrency: 'quoteCurrency',
+  rate: 'rate',
+  rateDate: 'rateDate',
+  source: 'source',
+  createdAt: 'createdAt'
+} as const
+
+export type ExchangeRateScalarFieldEnum = (typeof ExchangeRateScalarFieldEnum)[keyof typeof ExchangeRateScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -237,6 +511,13 @@ export const NullableJsonNullValueInput = {
 export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
+export const JsonNullValueInput = {
+  JsonNull: 'JsonNull'
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -14,7 +14,23 @@ export type * from './models/City.js'
 export type * from './models/Activity.js'
 export type * from './models/Itinerary.js'
 export type * from './models/ItineraryActivity.js'
+export type * from './models/RouteProposal.js'
+export type * from './models/TransportLeg.js'
+export type * from './models/Stay.js'
 export type * from './models/TripBudget.js'
+export type * from './models/Expense.js'
+export type * from './models/ExpenseSplit.js'
+export type * from './models/Settlement.js'
+export type * from './models/BudgetAlertRule.js'
+export type * from './models/Notification.js'
+export type * from './models/TripChange.js'
+export type * from './models/Session.js'
+export type * from './models/UserIdentity.js'
+export type * from './models/SecurityEvent.js'
+export type * from './models/UserToken.js'
 export type * from './models/SharedTrip.js'
+export type * from './models/ShareView.js'
+export type * from './models/ShareInvitation.js'
 export type * from './models/SavedCity.js'
+export type * from './models/ExchangeRate.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
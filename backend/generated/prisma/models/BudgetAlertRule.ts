@@ -0,0 +1,1493 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `BudgetAlertRule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model BudgetAlertRule
+ * 
+ */
+export type BudgetAlertRuleModel = runtime.Types.Result.DefaultSelection<Prisma.$BudgetAlertRulePayload>
+
+export type AggregateBudgetAlertRule = {
+  _count: BudgetAlertRuleCountAggregateOutputType | null
+  _avg: BudgetAlertRuleAvgAggregateOutputType | null
+  _sum: BudgetAlertRuleSumAggregateOutputType | null
+  _min: BudgetAlertRuleMinAggregateOutputType | null
+  _max: BudgetAlertRuleMaxAggregateOutputType | null
+}
+
+export type BudgetAlertRuleAvgAggregateOutputType = {
+  thresholdPercent: number | null
+}
+
+export type BudgetAlertRuleSumAggregateOutputType = {
+  thresholdPercent: number | null
+}
+
+export type BudgetAlertRuleMinAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  category: $Enums.BudgetCategory | null
+  thresholdPercent: number | null
+  isActive: boolean | null
+  triggeredAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BudgetAlertRuleMaxAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  category: $Enums.BudgetCategory | null
+  thresholdPercent: number | null
+  isActive: boolean | null
+  triggeredAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BudgetAlertRuleCountAggregateOutputType = {
+  id: number
+  tripId: number
+  category: number
+  thresholdPercent: number
+  isActive: number
+  triggeredAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BudgetAlertRuleAvgAggregateInputType = {
+  thresholdPercent?: true
+}
+
+export type BudgetAlertRuleSumAggregateInputType = {
+  thresholdPercent?: true
+}
+
+export type BudgetAlertRuleMinAggregateInputType = {
+  id?: true
+  tripId?: true
+  category?: true
+  thresholdPercent?: true
+  isActive?: true
+  triggeredAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BudgetAlertRuleMaxAggregateInputType = {
+  id?: true
+  tripId?: true
+  category?: true
+  thresholdPercent?: true
+  isActive?: true
+  triggeredAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BudgetAlertRuleCountAggregateInputType = {
+  id?: true
+  tripId?: true
+  category?: true
+  thresholdPercent?: true
+  isActive?: true
+  triggeredAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BudgetAlertRuleAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BudgetAlertRule to aggregate.
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BudgetAlertRules to fetch.
+   */
+  orderBy?: Prisma.BudgetAlertRuleOrderByWithRelationInput | Prisma.BudgetAlertRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BudgetAlertRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BudgetAlertRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BudgetAlertRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BudgetAlertRules
+  **/
+  _count?: true | BudgetAlertRuleCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BudgetAlertRuleAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BudgetAlertRuleSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BudgetAlertRuleMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BudgetAlertRuleMaxAggregateInputType
+}
+
+export type GetBudgetAlertRuleAggregateType<T extends BudgetAlertRuleAggregateArgs> = {
+      [P in keyof T & keyof AggregateBudgetAlertRule]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBudgetAlertRule[P]>
+    : Prisma.GetScalarType<T[P], AggregateBudgetAlertRule[P]>
+}
+
+
+
+
+export type BudgetAlertRuleGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BudgetAlertRuleWhereInput
+  orderBy?: Prisma.BudgetAlertRuleOrderByWithAggregationInput | Prisma.BudgetAlertRuleOrderByWithAggregationInput[]
+  by: Prisma.BudgetAlertRuleScalarFieldEnum[] | Prisma.BudgetAlertRuleScalarFieldEnum
+  having?: Prisma.BudgetAlertRuleScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BudgetAlertRuleCountAggregateInputType | true
+  _avg?: BudgetAlertRuleAvgAggregateInputType
+  _sum?: BudgetAlertRuleSumAggregateInputType
+  _min?: BudgetAlertRuleMinAggregateInputType
+  _max?: BudgetAlertRuleMaxAggregateInputType
+}
+
+export type BudgetAlertRuleGroupByOutputType = {
+  id: string
+  tripId: string
+  category: $Enums.BudgetCategory | null
+  thresholdPercent: number
+  isActive: boolean
+  triggeredAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: BudgetAlertRuleCountAggregateOutputType | null
+  _avg: BudgetAlertRuleAvgAggregateOutputType | null
+  _sum: BudgetAlertRuleSumAggregateOutputType | null
+  _min: BudgetAlertRuleMinAggregateOutputType | null
+  _max: BudgetAlertRuleMaxAggregateOutputType | null
+}
+
+type GetBudgetAlertRuleGroupByPayload<T extends BudgetAlertRuleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BudgetAlertRuleGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BudgetAlertRuleGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BudgetAlertRuleGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BudgetAlertRuleGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BudgetAlertRuleWhereInput = {
+  AND?: Prisma.BudgetAlertRuleWhereInput | Prisma.BudgetAlertRuleWhereInput[]
+  OR?: Prisma.BudgetAlertRuleWhereInput[]
+  NOT?: Prisma.BudgetAlertRuleWhereInput | Prisma.BudgetAlertRuleWhereInput[]
+  id?: Prisma.StringFilter<"BudgetAlertRule"> | string
+  tripId?: Prisma.StringFilter<"BudgetAlertRule"> | string
+  category?: Prisma.EnumBudgetCategoryNullableFilter<"BudgetAlertRule"> | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFilter<"BudgetAlertRule"> | number
+  isActive?: Prisma.BoolFilter<"BudgetAlertRule"> | boolean
+  triggeredAt?: Prisma.DateTimeNullableFilter<"BudgetAlertRule"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"BudgetAlertRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BudgetAlertRule"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+}
+
+export type BudgetAlertRuleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  category?: Prisma.SortOrderInput | Prisma.SortOrder
+  thresholdPercent?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  triggeredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  trip?: Prisma.TripOrderByWithRelationInput
+}
+
+export type BudgetAlertRuleWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.BudgetAlertRuleWhereInput | Prisma.BudgetAlertRuleWhereInput[]
+  OR?: Prisma.BudgetAlertRuleWhereInput[]
+  NOT?: Prisma.BudgetAlertRuleWhereInput | Prisma.BudgetAlertRuleWhereInput[]
+  tripId?: Prisma.StringFilter<"BudgetAlertRule"> | string
+  category?: Prisma.EnumBudgetCategoryNullableFilter<"BudgetAlertRule"> | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFilter<"BudgetAlertRule"> | number
+  isActive?: Prisma.BoolFilter<"BudgetAlertRule"> | boolean
+  triggeredAt?: Prisma.DateTimeNullableFilter<"BudgetAlertRule"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"BudgetAlertRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BudgetAlertRule"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+}, "id">
+
+export type BudgetAlertRuleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  category?: Prisma.SortOrderInput | Prisma.SortOrder
+  thresholdPercent?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  triggeredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BudgetAlertRuleCountOrderByAggregateInput
+  _avg?: Prisma.BudgetAlertRuleAvgOrderByAggregateInput
+  _max?: Prisma.BudgetAlertRuleMaxOrderByAggregateInput
+  _min?: Prisma.BudgetAlertRuleMinOrderByAggregateInput
+  _sum?: Prisma.BudgetAlertRuleSumOrderByAggregateInput
+}
+
+export type BudgetAlertRuleScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BudgetAlertRuleScalarWhereWithAggregatesInput | Prisma.BudgetAlertRuleScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BudgetAlertRuleScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BudgetAlertRuleScalarWhereWithAggregatesInput | Prisma.BudgetAlertRuleScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BudgetAlertRule"> | string
+  tripId?: Prisma.StringWithAggregatesFilter<"BudgetAlertRule"> | string
+  category?: Prisma.EnumBudgetCategoryNullableWithAggregatesFilter<"BudgetAlertRule"> | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntWithAggregatesFilter<"BudgetAlertRule"> | number
+  isActive?: Prisma.BoolWithAggregatesFilter<"BudgetAlertRule"> | boolean
+  triggeredAt?: Prisma.DateTimeNullableWithAggregatesFilter<"BudgetAlertRule"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BudgetAlertRule"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BudgetAlertRule"> | Date | string
+}
+
+export type BudgetAlertRuleCreateInput = {
+  id?: string
+  category?: $Enums.BudgetCategory | null
+  thresholdPercent?: number
+  isActive?: boolean
+  triggeredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutAlertRulesInput
+}
+
+export type BudgetAlertRuleUncheckedCreateInput = {
+  id?: string
+  tripId: string
+  category?: $Enums.BudgetCategory | null
+  thresholdPercent?: number
+  isActive?: boolean
+  triggeredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BudgetAlertRuleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutAlertRulesNestedInput
+}
+
+export type BudgetAlertRuleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BudgetAlertRuleCreateManyInput = {
+  id?: string
+  tripId: string
+  category?: $Enums.BudgetCategory | null
+  thresholdPercent?: number
+  isActive?: boolean
+  triggeredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BudgetAlertRuleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BudgetAlertRuleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BudgetAlertRuleListRelationFilter = {
+  every?: Prisma.BudgetAlertRuleWhereInput
+  some?: Prisma.BudgetAlertRuleWhereInput
+  none?: Prisma.BudgetAlertRuleWhereInput
+}
+
+export type BudgetAlertRuleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BudgetAlertRuleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  thresholdPercent?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  triggeredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BudgetAlertRuleAvgOrderByAggregateInput = {
+  thresholdPercent?: Prisma.SortOrder
+}
+
+export type BudgetAlertRuleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  thresholdPercent?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  triggeredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BudgetAlertRuleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  thresholdPercent?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  triggeredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BudgetAlertRuleSumOrderByAggregateInput = {
+  thresholdPercent?: Prisma.SortOrder
+}
+
+export type BudgetAlertRuleCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.BudgetAlertRuleCreateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput> | Prisma.BudgetAlertRuleCreateWithoutTripInput[] | Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput | Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.BudgetAlertRuleCreateManyTripInputEnvelope
+  connect?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+}
+
+export type BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.BudgetAlertRuleCreateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput> | Prisma.BudgetAlertRuleCreateWithoutTripInput[] | Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput | Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.BudgetAlertRuleCreateManyTripInputEnvelope
+  connect?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+}
+
+export type BudgetAlertRuleUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.BudgetAlertRuleCreateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput> | Prisma.BudgetAlertRuleCreateWithoutTripInput[] | Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput | Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.BudgetAlertRuleUpsertWithWhereUniqueWithoutTripInput | Prisma.BudgetAlertRuleUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.BudgetAlertRuleCreateManyTripInputEnvelope
+  set?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  disconnect?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  delete?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  connect?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  update?: Prisma.BudgetAlertRuleUpdateWithWhereUniqueWithoutTripInput | Prisma.BudgetAlertRuleUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.BudgetAlertRuleUpdateManyWithWhereWithoutTripInput | Prisma.BudgetAlertRuleUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.BudgetAlertRuleScalarWhereInput | Prisma.BudgetAlertRuleScalarWhereInput[]
+}
+
+export type BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.BudgetAlertRuleCreateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput> | Prisma.BudgetAlertRuleCreateWithoutTripInput[] | Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput | Prisma.BudgetAlertRuleCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.BudgetAlertRuleUpsertWithWhereUniqueWithoutTripInput | Prisma.BudgetAlertRuleUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.BudgetAlertRuleCreateManyTripInputEnvelope
+  set?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  disconnect?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  delete?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  connect?: Prisma.BudgetAlertRuleWhereUniqueInput | Prisma.BudgetAlertRuleWhereUniqueInput[]
+  update?: Prisma.BudgetAlertRuleUpdateWithWhereUniqueWithoutTripInput | Prisma.BudgetAlertRuleUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.BudgetAlertRuleUpdateManyWithWhereWithoutTripInput | Prisma.BudgetAlertRuleUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.BudgetAlertRuleScalarWhereInput | Prisma.BudgetAlertRuleScalarWhereInput[]
+}
+
+export type NullableEnumBudgetCategoryFieldUpdateOperationsInput = {
+  set?: $Enums.BudgetCategory | null
+}
+
+export type BudgetAlertRuleCreateWithoutTripInput = {
+  id?: string
+  category?: $Enums.BudgetCategory | null
+  thresholdPercent?: number
+  isActive?: boolean
+  triggeredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BudgetAlertRuleUncheckedCreateWithoutTripInput = {
+  id?: string
+  category?: $Enums.BudgetCategory | null
+  thresholdPercent?: number
+  isActive?: boolean
+  triggeredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BudgetAlertRuleCreateOrConnectWithoutTripInput = {
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+  create: Prisma.XOR<Prisma.BudgetAlertRuleCreateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput>
+}
+
+export type BudgetAlertRuleCreateManyTripInputEnvelope = {
+  data: Prisma.BudgetAlertRuleCreateManyTripInput | Prisma.BudgetAlertRuleCreateManyTripInput[]
+  skipDuplicates?: boolean
+}
+
+export type BudgetAlertRuleUpsertWithWhereUniqueWithoutTripInput = {
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+  update: Prisma.XOR<Prisma.BudgetAlertRuleUpdateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedUpdateWithoutTripInput>
+  create: Prisma.XOR<Prisma.BudgetAlertRuleCreateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedCreateWithoutTripInput>
+}
+
+export type BudgetAlertRuleUpdateWithWhereUniqueWithoutTripInput = {
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+  data: Prisma.XOR<Prisma.BudgetAlertRuleUpdateWithoutTripInput, Prisma.BudgetAlertRuleUncheckedUpdateWithoutTripInput>
+}
+
+export type BudgetAlertRuleUpdateManyWithWhereWithoutTripInput = {
+  where: Prisma.BudgetAlertRuleScalarWhereInput
+  data: Prisma.XOR<Prisma.BudgetAlertRuleUpdateManyMutationInput, Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripInput>
+}
+
+export type BudgetAlertRuleScalarWhereInput = {
+  AND?: Prisma.BudgetAlertRuleScalarWhereInput | Prisma.BudgetAlertRuleScalarWhereInput[]
+  OR?: Prisma.BudgetAlertRuleScalarWhereInput[]
+  NOT?: Prisma.BudgetAlertRuleScalarWhereInput | Prisma.BudgetAlertRuleScalarWhereInput[]
+  id?: Prisma.StringFilter<"BudgetAlertRule"> | string
+  tripId?: Prisma.StringFilter<"BudgetAlertRule"> | string
+  category?: Prisma.EnumBudgetCategoryNullableFilter<"BudgetAlertRule"> | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFilter<"BudgetAlertRule"> | number
+  isActive?: Prisma.BoolFilter<"BudgetAlertRule"> | boolean
+  triggeredAt?: Prisma.DateTimeNullableFilter<"BudgetAlertRule"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"BudgetAlertRule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BudgetAlertRule"> | Date | string
+}
+
+export type BudgetAlertRuleCreateManyTripInput = {
+  id?: string
+  category?: $Enums.BudgetCategory | null
+  thresholdPercent?: number
+  isActive?: boolean
+  triggeredAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BudgetAlertRuleUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BudgetAlertRuleUncheckedUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BudgetAlertRuleUncheckedUpdateManyWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableEnumBudgetCategoryFieldUpdateOperationsInput | $Enums.BudgetCategory | null
+  thresholdPercent?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  triggeredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BudgetAlertRuleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  category?: boolean
+  thresholdPercent?: boolean
+  isActive?: boolean
+  triggeredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["budgetAlertRule"]>
+
+export type BudgetAlertRuleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  category?: boolean
+  thresholdPercent?: boolean
+  isActive?: boolean
+  triggeredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["budgetAlertRule"]>
+
+export type BudgetAlertRuleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  category?: boolean
+  thresholdPercent?: boolean
+  isActive?: boolean
+  triggeredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["budgetAlertRule"]>
+
+export type BudgetAlertRuleSelectScalar = {
+  id?: boolean
+  tripId?: boolean
+  category?: boolean
+  thresholdPercent?: boolean
+  isActive?: boolean
+  triggeredAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BudgetAlertRuleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "category" | "thresholdPercent" | "isActive" | "triggeredAt" | "createdAt" | "updatedAt", ExtArgs["result"]["budgetAlertRule"]>
+export type BudgetAlertRuleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+}
+export type BudgetAlertRuleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+}
+export type BudgetAlertRuleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+}
+
+export type $BudgetAlertRulePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BudgetAlertRule"
+  objects: {
+    trip: Prisma.$TripPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tripId: string
+    category: $Enums.BudgetCategory | null
+    thresholdPercent: number
+    isActive: boolean
+    triggeredAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["budgetAlertRule"]>
+  composites: {}
+}
+
+export type BudgetAlertRuleGetPayload<S extends boolean | null | undefined | BudgetAlertRuleDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload, S>
+
+export type BudgetAlertRuleCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BudgetAlertRuleFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BudgetAlertRuleCountAggregateInputType | true
+  }
+
+export interface BudgetAlertRuleDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BudgetAlertRule'], meta: { name: 'BudgetAlertRule' } }
+  /**
+   * Find zero or one BudgetAlertRule that matches the filter.
+   * @param {BudgetAlertRuleFindUniqueArgs} args - Arguments to find a BudgetAlertRule
+   * @example
+   * // Get one BudgetAlertRule
+   * const budgetAlertRule = await prisma.budgetAlertRule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BudgetAlertRuleFindUniqueArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BudgetAlertRule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BudgetAlertRuleFindUniqueOrThrowArgs} args - Arguments to find a BudgetAlertRule
+   * @example
+   * // Get one BudgetAlertRule
+   * const budgetAlertRule = await prisma.budgetAlertRule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BudgetAlertRuleFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BudgetAlertRule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleFindFirstArgs} args - Arguments to find a BudgetAlertRule
+   * @example
+   * // Get one BudgetAlertRule
+   * const budgetAlertRule = await prisma.budgetAlertRule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BudgetAlertRuleFindFirstArgs>(args?: Prisma.SelectSubset<T, BudgetAlertRuleFindFirstArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BudgetAlertRule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleFindFirstOrThrowArgs} args - Arguments to find a BudgetAlertRule
+   * @example
+   * // Get one BudgetAlertRule
+   * const budgetAlertRule = await prisma.budgetAlertRule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BudgetAlertRuleFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BudgetAlertRuleFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BudgetAlertRules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BudgetAlertRules
+   * const budgetAlertRules = await prisma.budgetAlertRule.findMany()
+   * 
+   * // Get first 10 BudgetAlertRules
+   * const budgetAlertRules = await prisma.budgetAlertRule.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const budgetAlertRuleWithIdOnly = await prisma.budgetAlertRule.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BudgetAlertRuleFindManyArgs>(args?: Prisma.SelectSubset<T, BudgetAlertRuleFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BudgetAlertRule.
+   * @param {BudgetAlertRuleCreateArgs} args - Arguments to create a BudgetAlertRule.
+   * @example
+   * // Create one BudgetAlertRule
+   * const BudgetAlertRule = await prisma.budgetAlertRule.create({
+   *   data: {
+   *     // ... data to create a BudgetAlertRule
+   *   }
+   * })
+   * 
+   */
+  create<T extends BudgetAlertRuleCreateArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleCreateArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BudgetAlertRules.
+   * @param {BudgetAlertRuleCreateManyArgs} args - Arguments to create many BudgetAlertRules.
+   * @example
+   * // Create many BudgetAlertRules
+   * const budgetAlertRule = await prisma.budgetAlertRule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BudgetAlertRuleCreateManyArgs>(args?: Prisma.SelectSubset<T, BudgetAlertRuleCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BudgetAlertRules and returns the data saved in the database.
+   * @param {BudgetAlertRuleCreateManyAndReturnArgs} args - Arguments to create many BudgetAlertRules.
+   * @example
+   * // Create many BudgetAlertRules
+   * const budgetAlertRule = await prisma.budgetAlertRule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BudgetAlertRules and only return the `id`
+   * const budgetAlertRuleWithIdOnly = await prisma.budgetAlertRule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BudgetAlertRuleCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BudgetAlertRuleCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BudgetAlertRule.
+   * @param {BudgetAlertRuleDeleteArgs} args - Arguments to delete one BudgetAlertRule.
+   * @example
+   * // Delete one BudgetAlertRule
+   * const BudgetAlertRule = await prisma.budgetAlertRule.delete({
+   *   where: {
+   *     // ... filter to delete one BudgetAlertRule
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BudgetAlertRuleDeleteArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleDeleteArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BudgetAlertRule.
+   * @param {BudgetAlertRuleUpdateArgs} args - Arguments to update one BudgetAlertRule.
+   * @example
+   * // Update one BudgetAlertRule
+   * const budgetAlertRule = await prisma.budgetAlertRule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BudgetAlertRuleUpdateArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleUpdateArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BudgetAlertRules.
+   * @param {BudgetAlertRuleDeleteManyArgs} args - Arguments to filter BudgetAlertRules to delete.
+   * @example
+   * // Delete a few BudgetAlertRules
+   * const { count } = await prisma.budgetAlertRule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BudgetAlertRuleDeleteManyArgs>(args?: Prisma.SelectSubset<T, BudgetAlertRuleDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BudgetAlertRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BudgetAlertRules
+   * const budgetAlertRule = await prisma.budgetAlertRule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BudgetAlertRuleUpdateManyArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BudgetAlertRules and returns the data updated in the database.
+   * @param {BudgetAlertRuleUpdateManyAndReturnArgs} args - Arguments to update many BudgetAlertRules.
+   * @example
+   * // Update many BudgetAlertRules
+   * const budgetAlertRule = await prisma.budgetAlertRule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BudgetAlertRules and only return the `id`
+   * const budgetAlertRuleWithIdOnly = await prisma.budgetAlertRule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BudgetAlertRuleUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BudgetAlertRule.
+   * @param {BudgetAlertRuleUpsertArgs} args - Arguments to update or create a BudgetAlertRule.
+   * @example
+   * // Update or create a BudgetAlertRule
+   * const budgetAlertRule = await prisma.budgetAlertRule.upsert({
+   *   create: {
+   *     // ... data to create a BudgetAlertRule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BudgetAlertRule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BudgetAlertRuleUpsertArgs>(args: Prisma.SelectSubset<T, BudgetAlertRuleUpsertArgs<ExtArgs>>): Prisma.Prisma__BudgetAlertRuleClient<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BudgetAlertRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleCountArgs} args - Arguments to filter BudgetAlertRules to count.
+   * @example
+   * // Count the number of BudgetAlertRules
+   * const count = await prisma.budgetAlertRule.count({
+   *   where: {
+   *     // ... the filter for the BudgetAlertRules we want to count
+   *   }
+   * })
+  **/
+  count<T extends BudgetAlertRuleCountArgs>(
+    args?: Prisma.Subset<T, BudgetAlertRuleCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BudgetAlertRuleCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BudgetAlertRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BudgetAlertRuleAggregateArgs>(args: Prisma.Subset<T, BudgetAlertRuleAggregateArgs>): Prisma.PrismaPromise<GetBudgetAlertRuleAggregateType<T>>
+
+  /**
+   * Group by BudgetAlertRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BudgetAlertRuleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BudgetAlertRuleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BudgetAlertRuleGroupByArgs['orderBy'] }
+      : { orderBy?: BudgetAlertRuleGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BudgetAlertRuleGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBudgetAlertRuleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BudgetAlertRule model
+ */
+readonly fields: BudgetAlertRuleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BudgetAlertRule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BudgetAlertRuleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BudgetAlertRule model
+ */
+export interface BudgetAlertRuleFieldRefs {
+  readonly id: Prisma.FieldRef<"BudgetAlertRule", 'String'>
+  readonly tripId: Prisma.FieldRef<"BudgetAlertRule", 'String'>
+  readonly category: Prisma.FieldRef<"BudgetAlertRule", 'BudgetCategory'>
+  readonly thresholdPercent: Prisma.FieldRef<"BudgetAlertRule", 'Int'>
+  readonly isActive: Prisma.FieldRef<"BudgetAlertRule", 'Boolean'>
+  readonly triggeredAt: Prisma.FieldRef<"BudgetAlertRule", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"BudgetAlertRule", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"BudgetAlertRule", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BudgetAlertRule findUnique
+ */
+export type BudgetAlertRuleFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which BudgetAlertRule to fetch.
+   */
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+}
+
+/**
+ * BudgetAlertRule findUniqueOrThrow
+ */
+export type BudgetAlertRuleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which BudgetAlertRule to fetch.
+   */
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+}
+
+/**
+ * BudgetAlertRule findFirst
+ */
+export type BudgetAlertRuleFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which BudgetAlertRule to fetch.
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BudgetAlertRules to fetch.
+   */
+  orderBy?: Prisma.BudgetAlertRuleOrderByWithRelationInput | Prisma.BudgetAlertRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BudgetAlertRules.
+   */
+  cursor?: Prisma.BudgetAlertRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BudgetAlertRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BudgetAlertRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BudgetAlertRules.
+   */
+  distinct?: Prisma.BudgetAlertRuleScalarFieldEnum | Prisma.BudgetAlertRuleScalarFieldEnum[]
+}
+
+/**
+ * BudgetAlertRule findFirstOrThrow
+ */
+export type BudgetAlertRuleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which BudgetAlertRule to fetch.
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BudgetAlertRules to fetch.
+   */
+  orderBy?: Prisma.BudgetAlertRuleOrderByWithRelationInput | Prisma.BudgetAlertRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BudgetAlertRules.
+   */
+  cursor?: Prisma.BudgetAlertRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BudgetAlertRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BudgetAlertRules.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BudgetAlertRules.
+   */
+  distinct?: Prisma.BudgetAlertRuleScalarFieldEnum | Prisma.BudgetAlertRuleScalarFieldEnum[]
+}
+
+/**
+ * BudgetAlertRule findMany
+ */
+export type BudgetAlertRuleFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * Filter, which BudgetAlertRules to fetch.
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BudgetAlertRules to fetch.
+   */
+  orderBy?: Prisma.BudgetAlertRuleOrderByWithRelationInput | Prisma.BudgetAlertRuleOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BudgetAlertRules.
+   */
+  cursor?: Prisma.BudgetAlertRuleWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BudgetAlertRules from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BudgetAlertRules.
+   */
+  skip?: number
+  distinct?: Prisma.BudgetAlertRuleScalarFieldEnum | Prisma.BudgetAlertRuleScalarFieldEnum[]
+}
+
+/**
+ * BudgetAlertRule create
+ */
+export type BudgetAlertRuleCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BudgetAlertRule.
+   */
+  data: Prisma.XOR<Prisma.BudgetAlertRuleCreateInput, Prisma.BudgetAlertRuleUncheckedCreateInput>
+}
+
+/**
+ * BudgetAlertRule createMany
+ */
+export type BudgetAlertRuleCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BudgetAlertRules.
+   */
+  data: Prisma.BudgetAlertRuleCreateManyInput | Prisma.BudgetAlertRuleCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BudgetAlertRule createManyAndReturn
+ */
+export type BudgetAlertRuleCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * The data used to create many BudgetAlertRules.
+   */
+  data: Prisma.BudgetAlertRuleCreateManyInput | Prisma.BudgetAlertRuleCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BudgetAlertRule update
+ */
+export type BudgetAlertRuleUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BudgetAlertRule.
+   */
+  data: Prisma.XOR<Prisma.BudgetAlertRuleUpdateInput, Prisma.BudgetAlertRuleUncheckedUpdateInput>
+  /**
+   * Choose, which BudgetAlertRule to update.
+   */
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+}
+
+/**
+ * BudgetAlertRule updateMany
+ */
+export type BudgetAlertRuleUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BudgetAlertRules.
+   */
+  data: Prisma.XOR<Prisma.BudgetAlertRuleUpdateManyMutationInput, Prisma.BudgetAlertRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which BudgetAlertRules to update
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * Limit how many BudgetAlertRules to update.
+   */
+  limit?: number
+}
+
+/**
+ * BudgetAlertRule updateManyAndReturn
+ */
+export type BudgetAlertRuleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * The data used to update BudgetAlertRules.
+   */
+  data: Prisma.XOR<Prisma.BudgetAlertRuleUpdateManyMutationInput, Prisma.BudgetAlertRuleUncheckedUpdateManyInput>
+  /**
+   * Filter which BudgetAlertRules to update
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * Limit how many BudgetAlertRules to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BudgetAlertRule upsert
+ */
+export type BudgetAlertRuleUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BudgetAlertRule to update in case it exists.
+   */
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+  /**
+   * In case the BudgetAlertRule found by the `where` argument doesn't exist, create a new BudgetAlertRule with this data.
+   */
+  create: Prisma.XOR<Prisma.BudgetAlertRuleCreateInput, Prisma.BudgetAlertRuleUncheckedCreateInput>
+  /**
+   * In case the BudgetAlertRule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BudgetAlertRuleUpdateInput, Prisma.BudgetAlertRuleUncheckedUpdateInput>
+}
+
+/**
+ * BudgetAlertRule delete
+ */
+export type BudgetAlertRuleDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  /**
+   * Filter which BudgetAlertRule to delete.
+   */
+  where: Prisma.BudgetAlertRuleWhereUniqueInput
+}
+
+/**
+ * BudgetAlertRule deleteMany
+ */
+export type BudgetAlertRuleDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BudgetAlertRules to delete
+   */
+  where?: Prisma.BudgetAlertRuleWhereInput
+  /**
+   * Limit how many BudgetAlertRules to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BudgetAlertRule without action
+ */
+export type BudgetAlertRuleDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+}
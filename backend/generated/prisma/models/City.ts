@@ -291,6 +291,9 @@ export type CityWhereInput = {
   activities?: Prisma.ActivityListRelationFilter
   itineraries?: Prisma.ItineraryListRelationFilter
   savedBy?: Prisma.SavedCityListRelationFilter
+  departingLegs?: Prisma.TransportLegListRelationFilter
+  arrivingLegs?: Prisma.TransportLegListRelationFilter
+  stays?: Prisma.StayListRelationFilter
 }
 
 export type CityOrderByWithRelationInput = {
@@ -310,6 +313,9 @@ export type CityOrderByWithRelationInput = {
   activities?: Prisma.ActivityOrderByRelationAggregateInput
   itineraries?: Prisma.ItineraryOrderByRelationAggregateInput
   savedBy?: Prisma.SavedCityOrderByRelationAggregateInput
+  departingLegs?: Prisma.TransportLegOrderByRelationAggregateInput
+  arrivingLegs?: Prisma.TransportLegOrderByRelationAggregateInput
+  stays?: Prisma.StayOrderByRelationAggregateInput
 }
 
 export type CityWhereUniqueInput = Prisma.AtLeast<{
@@ -333,6 +339,9 @@ export type CityWhereUniqueInput = Prisma.AtLeast<{
   activities?: Prisma.ActivityListRelationFilter
   itineraries?: Prisma.ItineraryListRelationFilter
   savedBy?: Prisma.SavedCityListRelationFilter
+  departingLegs?: Prisma.TransportLegListRelationFilter
+  arrivingLegs?: Prisma.TransportLegListRelationFilter
+  stays?: Prisma.StayListRelationFilter
 }, "id" | "name_country">
 
 export type CityOrderByWithAggregationInput = {
@@ -392,6 +401,9 @@ export type CityCreateInput = {
   activities?: Prisma.ActivityCreateNestedManyWithoutCityInput
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutCityInput
   savedBy?: Prisma.SavedCityCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayCreateNestedManyWithoutCityInput
 }
 
 export type CityUncheckedCreateInput = {
@@ -411,6 +423,9 @@ export type CityUncheckedCreateInput = {
   activities?: Prisma.ActivityUncheckedCreateNestedManyWithoutCityInput
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutCityInput
   savedBy?: Prisma.SavedCityUncheckedCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutCityInput
 }
 
 export type CityUpdateInput = {
@@ -430,6 +445,9 @@ export type CityUpdateInput = {
   activities?: Prisma.ActivityUpdateManyWithoutCityNestedInput
   itineraries?: Prisma.ItineraryUpdateManyWithoutCityNestedInput
   savedBy?: Prisma.SavedCityUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUpdateManyWithoutCityNestedInput
 }
 
 export type CityUncheckedUpdateInput = {
@@ -449,6 +467,9 @@ export type CityUncheckedUpdateInput = {
   activities?: Prisma.ActivityUncheckedUpdateManyWithoutCityNestedInput
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutCityNestedInput
   savedBy?: Prisma.SavedCityUncheckedUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutCityNestedInput
 }
 
 export type CityCreateManyInput = {
@@ -613,6 +634,48 @@ export type CityUpdateOneRequiredWithoutItinerariesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CityUpdateToOneWithWhereWithoutItinerariesInput, Prisma.CityUpdateWithoutItinerariesInput>, Prisma.CityUncheckedUpdateWithoutItinerariesInput>
 }
 
+export type CityCreateNestedOneWithoutDepartingLegsInput = {
+  create?: Prisma.XOR<Prisma.CityCreateWithoutDepartingLegsInput, Prisma.CityUncheckedCreateWithoutDepartingLegsInput>
+  connectOrCreate?: Prisma.CityCreateOrConnectWithoutDepartingLegsInput
+  connect?: Prisma.CityWhereUniqueInput
+}
+
+export type CityCreateNestedOneWithoutArrivingLegsInput = {
+  create?: Prisma.XOR<Prisma.CityCreateWithoutArrivingLegsInput, Prisma.CityUncheckedCreateWithoutArrivingLegsInput>
+  connectOrCreate?: Prisma.CityCreateOrConnectWithoutArrivingLegsInput
+  connect?: Prisma.CityWhereUniqueInput
+}
+
+export type CityUpdateOneRequiredWithoutDepartingLegsNestedInput = {
+  create?: Prisma.XOR<Prisma.CityCreateWithoutDepartingLegsInput, Prisma.CityUncheckedCreateWithoutDepartingLegsInput>
+  connectOrCreate?: Prisma.CityCreateOrConnectWithoutDepartingLegsInput
+  upsert?: Prisma.CityUpsertWithoutDepartingLegsInput
+  connect?: Prisma.CityWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CityUpdateToOneWithWhereWithoutDepartingLegsInput, Prisma.CityUpdateWithoutDepartingLegsInput>, Prisma.CityUncheckedUpdateWithoutDepartingLegsInput>
+}
+
+export type CityUpdateOneRequiredWithoutArrivingLegsNestedInput = {
+  create?: Prisma.XOR<Prisma.CityCreateWithoutArrivingLegsInput, Prisma.CityUncheckedCreateWithoutArrivingLegsInput>
+  connectOrCreate?: Prisma.CityCreateOrConnectWithoutArrivingLegsInput
+  upsert?: Prisma.CityUpsertWithoutArrivingLegsInput
+  connect?: Prisma.CityWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CityUpdateToOneWithWhereWithoutArrivingLegsInput, Prisma.CityUpdateWithoutArrivingLegsInput>, Prisma.CityUncheckedUpdateWithoutArrivingLegsInput>
+}
+
+export type CityCreateNestedOneWithoutStaysInput = {
+  create?: Prisma.XOR<Prisma.CityCreateWithoutStaysInput, Prisma.CityUncheckedCreateWithoutStaysInput>
+  connectOrCreate?: Prisma.CityCreateOrConnectWithoutStaysInput
+  connect?: Prisma.CityWhereUniqueInput
+}
+
+export type CityUpdateOneRequiredWithoutStaysNestedInput = {
+  create?: Prisma.XOR<Prisma.CityCreateWithoutStaysInput, Prisma.CityUncheckedCreateWithoutStaysInput>
+  connectOrCreate?: Prisma.CityCreateOrConnectWithoutStaysInput
+  upsert?: Prisma.CityUpsertWithoutStaysInput
+  connect?: Prisma.CityWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CityUpdateToOneWithWhereWithoutStaysInput, Prisma.CityUpdateWithoutStaysInput>, Prisma.CityUncheckedUpdateWithoutStaysInput>
+}
+
 export type CityCreateNestedOneWithoutSavedByInput = {
   create?: Prisma.XOR<Prisma.CityCreateWithoutSavedByInput, Prisma.CityUncheckedCreateWithoutSavedByInput>
   connectOrCreate?: Prisma.CityCreateOrConnectWithoutSavedByInput
@@ -643,6 +706,9 @@ export type CityCreateWithoutActivitiesInput = {
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutCityInput
   savedBy?: Prisma.SavedCityCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayCreateNestedManyWithoutCityInput
 }
 
 export type CityUncheckedCreateWithoutActivitiesInput = {
@@ -661,6 +727,9 @@ export type CityUncheckedCreateWithoutActivitiesInput = {
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutCityInput
   savedBy?: Prisma.SavedCityUncheckedCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutCityInput
 }
 
 export type CityCreateOrConnectWithoutActivitiesInput = {
@@ -695,6 +764,9 @@ export type CityUpdateWithoutActivitiesInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUpdateManyWithoutCityNestedInput
   savedBy?: Prisma.SavedCityUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUpdateManyWithoutCityNestedInput
 }
 
 export type CityUncheckedUpdateWithoutActivitiesInput = {
@@ -713,6 +785,9 @@ export type CityUncheckedUpdateWithoutActivitiesInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutCityNestedInput
   savedBy?: Prisma.SavedCityUncheckedUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutCityNestedInput
 }
 
 export type CityCreateWithoutItinerariesInput = {
@@ -731,6 +806,9 @@ export type CityCreateWithoutItinerariesInput = {
   updatedAt?: Date | string
   activities?: Prisma.ActivityCreateNestedManyWithoutCityInput
   savedBy?: Prisma.SavedCityCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayCreateNestedManyWithoutCityInput
 }
 
 export type CityUncheckedCreateWithoutItinerariesInput = {
@@ -749,6 +827,9 @@ export type CityUncheckedCreateWithoutItinerariesInput = {
   updatedAt?: Date | string
   activities?: Prisma.ActivityUncheckedCreateNestedManyWithoutCityInput
   savedBy?: Prisma.SavedCityUncheckedCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutCityInput
 }
 
 export type CityCreateOrConnectWithoutItinerariesInput = {
@@ -783,6 +864,9 @@ export type CityUpdateWithoutItinerariesInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ActivityUpdateManyWithoutCityNestedInput
   savedBy?: Prisma.SavedCityUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUpdateManyWithoutCityNestedInput
 }
 
 export type CityUncheckedUpdateWithoutItinerariesInput = {
@@ -801,6 +885,309 @@ export type CityUncheckedUpdateWithoutItinerariesInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ActivityUncheckedUpdateManyWithoutCityNestedInput
   savedBy?: Prisma.SavedCityUncheckedUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutCityNestedInput
+}
+
+export type CityCreateWithoutDepartingLegsInput = {
+  id?: string
+  name: string
+  country: string
+  continent?: string | null
+  imageUrl?: string | null
+  avgDailyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string | null
+  popularityScore?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ActivityCreateNestedManyWithoutCityInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutCityInput
+  savedBy?: Prisma.SavedCityCreateNestedManyWithoutCityInput
+  arrivingLegs?: Prisma.TransportLegCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayCreateNestedManyWithoutCityInput
+}
+
+export type CityUncheckedCreateWithoutDepartingLegsInput = {
+  id?: string
+  name: string
+  country: string
+  continent?: string | null
+  imageUrl?: string | null
+  avgDailyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string | null
+  popularityScore?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ActivityUncheckedCreateNestedManyWithoutCityInput
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutCityInput
+  savedBy?: Prisma.SavedCityUncheckedCreateNestedManyWithoutCityInput
+  arrivingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutCityInput
+}
+
+export type CityCreateOrConnectWithoutDepartingLegsInput = {
+  where: Prisma.CityWhereUniqueInput
+  create: Prisma.XOR<Prisma.CityCreateWithoutDepartingLegsInput, Prisma.CityUncheckedCreateWithoutDepartingLegsInput>
+}
+
+export type CityCreateWithoutArrivingLegsInput = {
+  id?: string
+  name: string
+  country: string
+  continent?: string | null
+  imageUrl?: string | null
+  avgDailyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string | null
+  popularityScore?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ActivityCreateNestedManyWithoutCityInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutCityInput
+  savedBy?: Prisma.SavedCityCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegCreateNestedManyWithoutDepartureCityInput
+  stays?: Prisma.StayCreateNestedManyWithoutCityInput
+}
+
+export type CityUncheckedCreateWithoutArrivingLegsInput = {
+  id?: string
+  name: string
+  country: string
+  continent?: string | null
+  imageUrl?: string | null
+  avgDailyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string | null
+  popularityScore?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ActivityUncheckedCreateNestedManyWithoutCityInput
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutCityInput
+  savedBy?: Prisma.SavedCityUncheckedCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutCityInput
+}
+
+export type CityCreateOrConnectWithoutArrivingLegsInput = {
+  where: Prisma.CityWhereUniqueInput
+  create: Prisma.XOR<Prisma.CityCreateWithoutArrivingLegsInput, Prisma.CityUncheckedCreateWithoutArrivingLegsInput>
+}
+
+export type CityUpsertWithoutDepartingLegsInput = {
+  update: Prisma.XOR<Prisma.CityUpdateWithoutDepartingLegsInput, Prisma.CityUncheckedUpdateWithoutDepartingLegsInput>
+  create: Prisma.XOR<Prisma.CityCreateWithoutDepartingLegsInput, Prisma.CityUncheckedCreateWithoutDepartingLegsInput>
+  where?: Prisma.CityWhereInput
+}
+
+export type CityUpdateToOneWithWhereWithoutDepartingLegsInput = {
+  where?: Prisma.CityWhereInput
+  data: Prisma.XOR<Prisma.CityUpdateWithoutDepartingLegsInput, Prisma.CityUncheckedUpdateWithoutDepartingLegsInput>
+}
+
+export type CityUpdateWithoutDepartingLegsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  continent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avgDailyCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  popularityScore?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ActivityUpdateManyWithoutCityNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutCityNestedInput
+  savedBy?: Prisma.SavedCityUpdateManyWithoutCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUpdateManyWithoutCityNestedInput
+}
+
+export type CityUncheckedUpdateWithoutDepartingLegsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  continent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avgDailyCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  popularityScore?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ActivityUncheckedUpdateManyWithoutCityNestedInput
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutCityNestedInput
+  savedBy?: Prisma.SavedCityUncheckedUpdateManyWithoutCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutCityNestedInput
+}
+
+export type CityUpsertWithoutArrivingLegsInput = {
+  update: Prisma.XOR<Prisma.CityUpdateWithoutArrivingLegsInput, Prisma.CityUncheckedUpdateWithoutArrivingLegsInput>
+  create: Prisma.XOR<Prisma.CityCreateWithoutArrivingLegsInput, Prisma.CityUncheckedCreateWithoutArrivingLegsInput>
+  where?: Prisma.CityWhereInput
+}
+
+export type CityUpdateToOneWithWhereWithoutArrivingLegsInput = {
+  where?: Prisma.CityWhereInput
+  data: Prisma.XOR<Prisma.CityUpdateWithoutArrivingLegsInput, Prisma.CityUncheckedUpdateWithoutArrivingLegsInput>
+}
+
+export type CityUpdateWithoutArrivingLegsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  continent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avgDailyCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  popularityScore?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ActivityUpdateManyWithoutCityNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutCityNestedInput
+  savedBy?: Prisma.SavedCityUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUpdateManyWithoutDepartureCityNestedInput
+  stays?: Prisma.StayUpdateManyWithoutCityNestedInput
+}
+
+export type CityUncheckedUpdateWithoutArrivingLegsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  continent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avgDailyCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  popularityScore?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ActivityUncheckedUpdateManyWithoutCityNestedInput
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutCityNestedInput
+  savedBy?: Prisma.SavedCityUncheckedUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutCityNestedInput
+}
+
+export type CityCreateWithoutStaysInput = {
+  id?: string
+  name: string
+  country: string
+  continent?: string | null
+  imageUrl?: string | null
+  avgDailyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string | null
+  popularityScore?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ActivityCreateNestedManyWithoutCityInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutCityInput
+  savedBy?: Prisma.SavedCityCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegCreateNestedManyWithoutArrivalCityInput
+}
+
+export type CityUncheckedCreateWithoutStaysInput = {
+  id?: string
+  name: string
+  country: string
+  continent?: string | null
+  imageUrl?: string | null
+  avgDailyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string | null
+  popularityScore?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ActivityUncheckedCreateNestedManyWithoutCityInput
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutCityInput
+  savedBy?: Prisma.SavedCityUncheckedCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput
+}
+
+export type CityCreateOrConnectWithoutStaysInput = {
+  where: Prisma.CityWhereUniqueInput
+  create: Prisma.XOR<Prisma.CityCreateWithoutStaysInput, Prisma.CityUncheckedCreateWithoutStaysInput>
+}
+
+export type CityUpsertWithoutStaysInput = {
+  update: Prisma.XOR<Prisma.CityUpdateWithoutStaysInput, Prisma.CityUncheckedUpdateWithoutStaysInput>
+  create: Prisma.XOR<Prisma.CityCreateWithoutStaysInput, Prisma.CityUncheckedCreateWithoutStaysInput>
+  where?: Prisma.CityWhereInput
+}
+
+export type CityUpdateToOneWithWhereWithoutStaysInput = {
+  where?: Prisma.CityWhereInput
+  data: Prisma.XOR<Prisma.CityUpdateWithoutStaysInput, Prisma.CityUncheckedUpdateWithoutStaysInput>
+}
+
+export type CityUpdateWithoutStaysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  continent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avgDailyCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  popularityScore?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ActivityUpdateManyWithoutCityNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutCityNestedInput
+  savedBy?: Prisma.SavedCityUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUpdateManyWithoutArrivalCityNestedInput
+}
+
+export type CityUncheckedUpdateWithoutStaysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  continent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  avgDailyCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  popularityScore?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  metaInfo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ActivityUncheckedUpdateManyWithoutCityNestedInput
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutCityNestedInput
+  savedBy?: Prisma.SavedCityUncheckedUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput
 }
 
 export type CityCreateWithoutSavedByInput = {
@@ -819,6 +1206,9 @@ export type CityCreateWithoutSavedByInput = {
   updatedAt?: Date | string
   activities?: Prisma.ActivityCreateNestedManyWithoutCityInput
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayCreateNestedManyWithoutCityInput
 }
 
 export type CityUncheckedCreateWithoutSavedByInput = {
@@ -837,6 +1227,9 @@ export type CityUncheckedCreateWithoutSavedByInput = {
   updatedAt?: Date | string
   activities?: Prisma.ActivityUncheckedCreateNestedManyWithoutCityInput
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutCityInput
+  departingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput
+  arrivingLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutCityInput
 }
 
 export type CityCreateOrConnectWithoutSavedByInput = {
@@ -871,6 +1264,9 @@ export type CityUpdateWithoutSavedByInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ActivityUpdateManyWithoutCityNestedInput
   itineraries?: Prisma.ItineraryUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUpdateManyWithoutCityNestedInput
 }
 
 export type CityUncheckedUpdateWithoutSavedByInput = {
@@ -889,6 +1285,9 @@ export type CityUncheckedUpdateWithoutSavedByInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ActivityUncheckedUpdateManyWithoutCityNestedInput
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutCityNestedInput
+  departingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput
+  arrivingLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutCityNestedInput
 }
 
 
@@ -900,12 +1299,18 @@ export type CityCountOutputType = {
   activities: number
   itineraries: number
   savedBy: number
+  departingLegs: number
+  arrivingLegs: number
+  stays: number
 }
 
 export type CityCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   activities?: boolean | CityCountOutputTypeCountActivitiesArgs
   itineraries?: boolean | CityCountOutputTypeCountItinerariesArgs
   savedBy?: boolean | CityCountOutputTypeCountSavedByArgs
+  departingLegs?: boolean | CityCountOutputTypeCountDepartingLegsArgs
+  arrivingLegs?: boolean | CityCountOutputTypeCountArrivingLegsArgs
+  stays?: boolean | CityCountOutputTypeCountStaysArgs
 }
 
 /**
@@ -939,6 +1344,27 @@ export type CityCountOutputTypeCountSavedByArgs<ExtArgs extends runtime.Types.Ex
   where?: Prisma.SavedCityWhereInput
 }
 
+/**
+ * CityCountOutputType without action
+ */
+export type CityCountOutputTypeCountDepartingLegsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TransportLegWhereInput
+}
+
+/**
+ * CityCountOutputType without action
+ */
+export type CityCountOutputTypeCountArrivingLegsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TransportLegWhereInput
+}
+
+/**
+ * CityCountOutputType without action
+ */
+export type CityCountOutputTypeCountStaysArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StayWhereInput
+}
+
 
 export type CitySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -957,6 +1383,9 @@ export type CitySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   activities?: boolean | Prisma.City$activitiesArgs<ExtArgs>
   itineraries?: boolean | Prisma.City$itinerariesArgs<ExtArgs>
   savedBy?: boolean | Prisma.City$savedByArgs<ExtArgs>
+  departingLegs?: boolean | Prisma.City$departingLegsArgs<ExtArgs>
+  arrivingLegs?: boolean | Prisma.City$arrivingLegsArgs<ExtArgs>
+  stays?: boolean | Prisma.City$staysArgs<ExtArgs>
   _count?: boolean | Prisma.CityCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["city"]>
 
@@ -1013,6 +1442,9 @@ export type CityInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   activities?: boolean | Prisma.City$activitiesArgs<ExtArgs>
   itineraries?: boolean | Prisma.City$itinerariesArgs<ExtArgs>
   savedBy?: boolean | Prisma.City$savedByArgs<ExtArgs>
+  departingLegs?: boolean | Prisma.City$departingLegsArgs<ExtArgs>
+  arrivingLegs?: boolean | Prisma.City$arrivingLegsArgs<ExtArgs>
+  stays?: boolean | Prisma.City$staysArgs<ExtArgs>
   _count?: boolean | Prisma.CityCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CityIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1024,6 +1456,9 @@ export type $CityPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     activities: Prisma.$ActivityPayload<ExtArgs>[]
     itineraries: Prisma.$ItineraryPayload<ExtArgs>[]
     savedBy: Prisma.$SavedCityPayload<ExtArgs>[]
+    departingLegs: Prisma.$TransportLegPayload<ExtArgs>[]
+    arrivingLegs: Prisma.$TransportLegPayload<ExtArgs>[]
+    stays: Prisma.$StayPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1436,6 +1871,9 @@ export interface Prisma__CityClient<T, Null = never, ExtArgs extends runtime.Typ
   activities<T extends Prisma.City$activitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.City$activitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   itineraries<T extends Prisma.City$itinerariesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.City$itinerariesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItineraryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   savedBy<T extends Prisma.City$savedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.City$savedByArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedCityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  departingLegs<T extends Prisma.City$departingLegsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.City$departingLegsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  arrivingLegs<T extends Prisma.City$arrivingLegsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.City$arrivingLegsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  stays<T extends Prisma.City$staysArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.City$staysArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1937,6 +2375,78 @@ export type City$savedByArgs<ExtArgs extends runtime.Types.Extensions.InternalAr
   distinct?: Prisma.SavedCityScalarFieldEnum | Prisma.SavedCityScalarFieldEnum[]
 }
 
+/**
+ * City.departingLegs
+ */
+export type City$departingLegsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  where?: Prisma.TransportLegWhereInput
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TransportLegScalarFieldEnum | Prisma.TransportLegScalarFieldEnum[]
+}
+
+/**
+ * City.arrivingLegs
+ */
+export type City$arrivingLegsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  where?: Prisma.TransportLegWhereInput
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TransportLegScalarFieldEnum | Prisma.TransportLegScalarFieldEnum[]
+}
+
+/**
+ * City.stays
+ */
+export type City$staysArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  where?: Prisma.StayWhereInput
+  orderBy?: Prisma.StayOrderByWithRelationInput | Prisma.StayOrderByWithRelationInput[]
+  cursor?: Prisma.StayWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StayScalarFieldEnum | Prisma.StayScalarFieldEnum[]
+}
+
 /**
  * City without action
  */
@@ -0,0 +1,1516 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ExpenseSplit` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ExpenseSplit
+ * 
+ */
+export type ExpenseSplitModel = runtime.Types.Result.DefaultSelection<Prisma.$ExpenseSplitPayload>
+
+export type AggregateExpenseSplit = {
+  _count: ExpenseSplitCountAggregateOutputType | null
+  _avg: ExpenseSplitAvgAggregateOutputType | null
+  _sum: ExpenseSplitSumAggregateOutputType | null
+  _min: ExpenseSplitMinAggregateOutputType | null
+  _max: ExpenseSplitMaxAggregateOutputType | null
+}
+
+export type ExpenseSplitAvgAggregateOutputType = {
+  shares: runtime.Decimal | null
+  amount: runtime.Decimal | null
+}
+
+export type ExpenseSplitSumAggregateOutputType = {
+  shares: runtime.Decimal | null
+  amount: runtime.Decimal | null
+}
+
+export type ExpenseSplitMinAggregateOutputType = {
+  id: string | null
+  expenseId: string | null
+  userId: string | null
+  shares: runtime.Decimal | null
+  amount: runtime.Decimal | null
+}
+
+export type ExpenseSplitMaxAggregateOutputType = {
+  id: string | null
+  expenseId: string | null
+  userId: string | null
+  shares: runtime.Decimal | null
+  amount: runtime.Decimal | null
+}
+
+export type ExpenseSplitCountAggregateOutputType = {
+  id: number
+  expenseId: number
+  userId: number
+  shares: number
+  amount: number
+  _all: number
+}
+
+
+export type ExpenseSplitAvgAggregateInputType = {
+  shares?: true
+  amount?: true
+}
+
+export type ExpenseSplitSumAggregateInputType = {
+  shares?: true
+  amount?: true
+}
+
+export type ExpenseSplitMinAggregateInputType = {
+  id?: true
+  expenseId?: true
+  userId?: true
+  shares?: true
+  amount?: true
+}
+
+export type ExpenseSplitMaxAggregateInputType = {
+  id?: true
+  expenseId?: true
+  userId?: true
+  shares?: true
+  amount?: true
+}
+
+export type ExpenseSplitCountAggregateInputType = {
+  id?: true
+  expenseId?: true
+  userId?: true
+  shares?: true
+  amount?: true
+  _all?: true
+}
+
+export type ExpenseSplitAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ExpenseSplit to aggregate.
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExpenseSplits to fetch.
+   */
+  orderBy?: Prisma.ExpenseSplitOrderByWithRelationInput | Prisma.ExpenseSplitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ExpenseSplitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExpenseSplits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExpenseSplits.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ExpenseSplits
+  **/
+  _count?: true | ExpenseSplitCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ExpenseSplitAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ExpenseSplitSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ExpenseSplitMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ExpenseSplitMaxAggregateInputType
+}
+
+export type GetExpenseSplitAggregateType<T extends ExpenseSplitAggregateArgs> = {
+      [P in keyof T & keyof AggregateExpenseSplit]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExpenseSplit[P]>
+    : Prisma.GetScalarType<T[P], AggregateExpenseSplit[P]>
+}
+
+
+
+
+export type ExpenseSplitGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExpenseSplitWhereInput
+  orderBy?: Prisma.ExpenseSplitOrderByWithAggregationInput | Prisma.ExpenseSplitOrderByWithAggregationInput[]
+  by: Prisma.ExpenseSplitScalarFieldEnum[] | Prisma.ExpenseSplitScalarFieldEnum
+  having?: Prisma.ExpenseSplitScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ExpenseSplitCountAggregateInputType | true
+  _avg?: ExpenseSplitAvgAggregateInputType
+  _sum?: ExpenseSplitSumAggregateInputType
+  _min?: ExpenseSplitMinAggregateInputType
+  _max?: ExpenseSplitMaxAggregateInputType
+}
+
+export type ExpenseSplitGroupByOutputType = {
+  id: string
+  expenseId: string
+  userId: string
+  shares: runtime.Decimal | null
+  amount: runtime.Decimal
+  _count: ExpenseSplitCountAggregateOutputType | null
+  _avg: ExpenseSplitAvgAggregateOutputType | null
+  _sum: ExpenseSplitSumAggregateOutputType | null
+  _min: ExpenseSplitMinAggregateOutputType | null
+  _max: ExpenseSplitMaxAggregateOutputType | null
+}
+
+type GetExpenseSplitGroupByPayload<T extends ExpenseSplitGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ExpenseSplitGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ExpenseSplitGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ExpenseSplitGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ExpenseSplitGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ExpenseSplitWhereInput = {
+  AND?: Prisma.ExpenseSplitWhereInput | Prisma.ExpenseSplitWhereInput[]
+  OR?: Prisma.ExpenseSplitWhereInput[]
+  NOT?: Prisma.ExpenseSplitWhereInput | Prisma.ExpenseSplitWhereInput[]
+  id?: Prisma.StringFilter<"ExpenseSplit"> | string
+  expenseId?: Prisma.StringFilter<"ExpenseSplit"> | string
+  userId?: Prisma.StringFilter<"ExpenseSplit"> | string
+  shares?: Prisma.DecimalNullableFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expense?: Prisma.XOR<Prisma.ExpenseScalarRelationFilter, Prisma.ExpenseWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ExpenseSplitOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  expenseId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  shares?: Prisma.SortOrderInput | Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  expense?: Prisma.ExpenseOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ExpenseSplitWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  expenseId_userId?: Prisma.ExpenseSplitExpenseIdUserIdCompoundUniqueInput
+  AND?: Prisma.ExpenseSplitWhereInput | Prisma.ExpenseSplitWhereInput[]
+  OR?: Prisma.ExpenseSplitWhereInput[]
+  NOT?: Prisma.ExpenseSplitWhereInput | Prisma.ExpenseSplitWhereInput[]
+  expenseId?: Prisma.StringFilter<"ExpenseSplit"> | string
+  userId?: Prisma.StringFilter<"ExpenseSplit"> | string
+  shares?: Prisma.DecimalNullableFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expense?: Prisma.XOR<Prisma.ExpenseScalarRelationFilter, Prisma.ExpenseWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "expenseId_userId">
+
+export type ExpenseSplitOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  expenseId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  shares?: Prisma.SortOrderInput | Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  _count?: Prisma.ExpenseSplitCountOrderByAggregateInput
+  _avg?: Prisma.ExpenseSplitAvgOrderByAggregateInput
+  _max?: Prisma.ExpenseSplitMaxOrderByAggregateInput
+  _min?: Prisma.ExpenseSplitMinOrderByAggregateInput
+  _sum?: Prisma.ExpenseSplitSumOrderByAggregateInput
+}
+
+export type ExpenseSplitScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ExpenseSplitScalarWhereWithAggregatesInput | Prisma.ExpenseSplitScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ExpenseSplitScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ExpenseSplitScalarWhereWithAggregatesInput | Prisma.ExpenseSplitScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ExpenseSplit"> | string
+  expenseId?: Prisma.StringWithAggregatesFilter<"ExpenseSplit"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ExpenseSplit"> | string
+  shares?: Prisma.DecimalNullableWithAggregatesFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalWithAggregatesFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitCreateInput = {
+  id?: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expense: Prisma.ExpenseCreateNestedOneWithoutSplitsInput
+  user: Prisma.UserCreateNestedOneWithoutExpenseSplitsInput
+}
+
+export type ExpenseSplitUncheckedCreateInput = {
+  id?: string
+  expenseId: string
+  userId: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutSplitsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseSplitsNestedInput
+}
+
+export type ExpenseSplitUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitCreateManyInput = {
+  id?: string
+  expenseId: string
+  userId: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitListRelationFilter = {
+  every?: Prisma.ExpenseSplitWhereInput
+  some?: Prisma.ExpenseSplitWhereInput
+  none?: Prisma.ExpenseSplitWhereInput
+}
+
+export type ExpenseSplitOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ExpenseSplitExpenseIdUserIdCompoundUniqueInput = {
+  expenseId: string
+  userId: string
+}
+
+export type ExpenseSplitCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  expenseId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  shares?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type ExpenseSplitAvgOrderByAggregateInput = {
+  shares?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type ExpenseSplitMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  expenseId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  shares?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type ExpenseSplitMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  expenseId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  shares?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type ExpenseSplitSumOrderByAggregateInput = {
+  shares?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type ExpenseSplitCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutUserInput, Prisma.ExpenseSplitUncheckedCreateWithoutUserInput> | Prisma.ExpenseSplitCreateWithoutUserInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutUserInput | Prisma.ExpenseSplitCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyUserInputEnvelope
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+}
+
+export type ExpenseSplitUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutUserInput, Prisma.ExpenseSplitUncheckedCreateWithoutUserInput> | Prisma.ExpenseSplitCreateWithoutUserInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutUserInput | Prisma.ExpenseSplitCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyUserInputEnvelope
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+}
+
+export type ExpenseSplitUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutUserInput, Prisma.ExpenseSplitUncheckedCreateWithoutUserInput> | Prisma.ExpenseSplitCreateWithoutUserInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutUserInput | Prisma.ExpenseSplitCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutUserInput | Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyUserInputEnvelope
+  set?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  disconnect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  delete?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  update?: Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutUserInput | Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ExpenseSplitUpdateManyWithWhereWithoutUserInput | Prisma.ExpenseSplitUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ExpenseSplitScalarWhereInput | Prisma.ExpenseSplitScalarWhereInput[]
+}
+
+export type ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutUserInput, Prisma.ExpenseSplitUncheckedCreateWithoutUserInput> | Prisma.ExpenseSplitCreateWithoutUserInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutUserInput | Prisma.ExpenseSplitCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutUserInput | Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyUserInputEnvelope
+  set?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  disconnect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  delete?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  update?: Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutUserInput | Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ExpenseSplitUpdateManyWithWhereWithoutUserInput | Prisma.ExpenseSplitUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ExpenseSplitScalarWhereInput | Prisma.ExpenseSplitScalarWhereInput[]
+}
+
+export type ExpenseSplitCreateNestedManyWithoutExpenseInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput> | Prisma.ExpenseSplitCreateWithoutExpenseInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput | Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyExpenseInputEnvelope
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+}
+
+export type ExpenseSplitUncheckedCreateNestedManyWithoutExpenseInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput> | Prisma.ExpenseSplitCreateWithoutExpenseInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput | Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyExpenseInputEnvelope
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+}
+
+export type ExpenseSplitUpdateManyWithoutExpenseNestedInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput> | Prisma.ExpenseSplitCreateWithoutExpenseInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput | Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput[]
+  upsert?: Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutExpenseInput | Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutExpenseInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyExpenseInputEnvelope
+  set?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  disconnect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  delete?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  update?: Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutExpenseInput | Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutExpenseInput[]
+  updateMany?: Prisma.ExpenseSplitUpdateManyWithWhereWithoutExpenseInput | Prisma.ExpenseSplitUpdateManyWithWhereWithoutExpenseInput[]
+  deleteMany?: Prisma.ExpenseSplitScalarWhereInput | Prisma.ExpenseSplitScalarWhereInput[]
+}
+
+export type ExpenseSplitUncheckedUpdateManyWithoutExpenseNestedInput = {
+  create?: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput> | Prisma.ExpenseSplitCreateWithoutExpenseInput[] | Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput[]
+  connectOrCreate?: Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput | Prisma.ExpenseSplitCreateOrConnectWithoutExpenseInput[]
+  upsert?: Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutExpenseInput | Prisma.ExpenseSplitUpsertWithWhereUniqueWithoutExpenseInput[]
+  createMany?: Prisma.ExpenseSplitCreateManyExpenseInputEnvelope
+  set?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  disconnect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  delete?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  connect?: Prisma.ExpenseSplitWhereUniqueInput | Prisma.ExpenseSplitWhereUniqueInput[]
+  update?: Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutExpenseInput | Prisma.ExpenseSplitUpdateWithWhereUniqueWithoutExpenseInput[]
+  updateMany?: Prisma.ExpenseSplitUpdateManyWithWhereWithoutExpenseInput | Prisma.ExpenseSplitUpdateManyWithWhereWithoutExpenseInput[]
+  deleteMany?: Prisma.ExpenseSplitScalarWhereInput | Prisma.ExpenseSplitScalarWhereInput[]
+}
+
+export type ExpenseSplitCreateWithoutUserInput = {
+  id?: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expense: Prisma.ExpenseCreateNestedOneWithoutSplitsInput
+}
+
+export type ExpenseSplitUncheckedCreateWithoutUserInput = {
+  id?: string
+  expenseId: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitCreateOrConnectWithoutUserInput = {
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  create: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutUserInput, Prisma.ExpenseSplitUncheckedCreateWithoutUserInput>
+}
+
+export type ExpenseSplitCreateManyUserInputEnvelope = {
+  data: Prisma.ExpenseSplitCreateManyUserInput | Prisma.ExpenseSplitCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ExpenseSplitUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  update: Prisma.XOR<Prisma.ExpenseSplitUpdateWithoutUserInput, Prisma.ExpenseSplitUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutUserInput, Prisma.ExpenseSplitUncheckedCreateWithoutUserInput>
+}
+
+export type ExpenseSplitUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateWithoutUserInput, Prisma.ExpenseSplitUncheckedUpdateWithoutUserInput>
+}
+
+export type ExpenseSplitUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ExpenseSplitScalarWhereInput
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateManyMutationInput, Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ExpenseSplitScalarWhereInput = {
+  AND?: Prisma.ExpenseSplitScalarWhereInput | Prisma.ExpenseSplitScalarWhereInput[]
+  OR?: Prisma.ExpenseSplitScalarWhereInput[]
+  NOT?: Prisma.ExpenseSplitScalarWhereInput | Prisma.ExpenseSplitScalarWhereInput[]
+  id?: Prisma.StringFilter<"ExpenseSplit"> | string
+  expenseId?: Prisma.StringFilter<"ExpenseSplit"> | string
+  userId?: Prisma.StringFilter<"ExpenseSplit"> | string
+  shares?: Prisma.DecimalNullableFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFilter<"ExpenseSplit"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitCreateWithoutExpenseInput = {
+  id?: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  user: Prisma.UserCreateNestedOneWithoutExpenseSplitsInput
+}
+
+export type ExpenseSplitUncheckedCreateWithoutExpenseInput = {
+  id?: string
+  userId: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitCreateOrConnectWithoutExpenseInput = {
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  create: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput>
+}
+
+export type ExpenseSplitCreateManyExpenseInputEnvelope = {
+  data: Prisma.ExpenseSplitCreateManyExpenseInput | Prisma.ExpenseSplitCreateManyExpenseInput[]
+  skipDuplicates?: boolean
+}
+
+export type ExpenseSplitUpsertWithWhereUniqueWithoutExpenseInput = {
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  update: Prisma.XOR<Prisma.ExpenseSplitUpdateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedUpdateWithoutExpenseInput>
+  create: Prisma.XOR<Prisma.ExpenseSplitCreateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedCreateWithoutExpenseInput>
+}
+
+export type ExpenseSplitUpdateWithWhereUniqueWithoutExpenseInput = {
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateWithoutExpenseInput, Prisma.ExpenseSplitUncheckedUpdateWithoutExpenseInput>
+}
+
+export type ExpenseSplitUpdateManyWithWhereWithoutExpenseInput = {
+  where: Prisma.ExpenseSplitScalarWhereInput
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateManyMutationInput, Prisma.ExpenseSplitUncheckedUpdateManyWithoutExpenseInput>
+}
+
+export type ExpenseSplitCreateManyUserInput = {
+  id?: string
+  expenseId: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutSplitsNestedInput
+}
+
+export type ExpenseSplitUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitCreateManyExpenseInput = {
+  id?: string
+  userId: string
+  shares?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUpdateWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseSplitsNestedInput
+}
+
+export type ExpenseSplitUncheckedUpdateWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ExpenseSplitUncheckedUpdateManyWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  shares?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+
+
+export type ExpenseSplitSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  expenseId?: boolean
+  userId?: boolean
+  shares?: boolean
+  amount?: boolean
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["expenseSplit"]>
+
+export type ExpenseSplitSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  expenseId?: boolean
+  userId?: boolean
+  shares?: boolean
+  amount?: boolean
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["expenseSplit"]>
+
+export type ExpenseSplitSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  expenseId?: boolean
+  userId?: boolean
+  shares?: boolean
+  amount?: boolean
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["expenseSplit"]>
+
+export type ExpenseSplitSelectScalar = {
+  id?: boolean
+  expenseId?: boolean
+  userId?: boolean
+  shares?: boolean
+  amount?: boolean
+}
+
+export type ExpenseSplitOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "expenseId" | "userId" | "shares" | "amount", ExtArgs["result"]["expenseSplit"]>
+export type ExpenseSplitInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ExpenseSplitIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ExpenseSplitIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ExpenseSplitPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ExpenseSplit"
+  objects: {
+    expense: Prisma.$ExpensePayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    expenseId: string
+    userId: string
+    shares: runtime.Decimal | null
+    amount: runtime.Decimal
+  }, ExtArgs["result"]["expenseSplit"]>
+  composites: {}
+}
+
+export type ExpenseSplitGetPayload<S extends boolean | null | undefined | ExpenseSplitDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload, S>
+
+export type ExpenseSplitCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ExpenseSplitFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ExpenseSplitCountAggregateInputType | true
+  }
+
+export interface ExpenseSplitDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ExpenseSplit'], meta: { name: 'ExpenseSplit' } }
+  /**
+   * Find zero or one ExpenseSplit that matches the filter.
+   * @param {ExpenseSplitFindUniqueArgs} args - Arguments to find a ExpenseSplit
+   * @example
+   * // Get one ExpenseSplit
+   * const expenseSplit = await prisma.expenseSplit.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExpenseSplitFindUniqueArgs>(args: Prisma.SelectSubset<T, ExpenseSplitFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ExpenseSplit that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExpenseSplitFindUniqueOrThrowArgs} args - Arguments to find a ExpenseSplit
+   * @example
+   * // Get one ExpenseSplit
+   * const expenseSplit = await prisma.expenseSplit.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExpenseSplitFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ExpenseSplitFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ExpenseSplit that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitFindFirstArgs} args - Arguments to find a ExpenseSplit
+   * @example
+   * // Get one ExpenseSplit
+   * const expenseSplit = await prisma.expenseSplit.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExpenseSplitFindFirstArgs>(args?: Prisma.SelectSubset<T, ExpenseSplitFindFirstArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ExpenseSplit that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitFindFirstOrThrowArgs} args - Arguments to find a ExpenseSplit
+   * @example
+   * // Get one ExpenseSplit
+   * const expenseSplit = await prisma.expenseSplit.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExpenseSplitFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ExpenseSplitFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ExpenseSplits that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExpenseSplits
+   * const expenseSplits = await prisma.expenseSplit.findMany()
+   * 
+   * // Get first 10 ExpenseSplits
+   * const expenseSplits = await prisma.expenseSplit.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const expenseSplitWithIdOnly = await prisma.expenseSplit.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ExpenseSplitFindManyArgs>(args?: Prisma.SelectSubset<T, ExpenseSplitFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ExpenseSplit.
+   * @param {ExpenseSplitCreateArgs} args - Arguments to create a ExpenseSplit.
+   * @example
+   * // Create one ExpenseSplit
+   * const ExpenseSplit = await prisma.expenseSplit.create({
+   *   data: {
+   *     // ... data to create a ExpenseSplit
+   *   }
+   * })
+   * 
+   */
+  create<T extends ExpenseSplitCreateArgs>(args: Prisma.SelectSubset<T, ExpenseSplitCreateArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ExpenseSplits.
+   * @param {ExpenseSplitCreateManyArgs} args - Arguments to create many ExpenseSplits.
+   * @example
+   * // Create many ExpenseSplits
+   * const expenseSplit = await prisma.expenseSplit.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ExpenseSplitCreateManyArgs>(args?: Prisma.SelectSubset<T, ExpenseSplitCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ExpenseSplits and returns the data saved in the database.
+   * @param {ExpenseSplitCreateManyAndReturnArgs} args - Arguments to create many ExpenseSplits.
+   * @example
+   * // Create many ExpenseSplits
+   * const expenseSplit = await prisma.expenseSplit.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ExpenseSplits and only return the `id`
+   * const expenseSplitWithIdOnly = await prisma.expenseSplit.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ExpenseSplitCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ExpenseSplitCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ExpenseSplit.
+   * @param {ExpenseSplitDeleteArgs} args - Arguments to delete one ExpenseSplit.
+   * @example
+   * // Delete one ExpenseSplit
+   * const ExpenseSplit = await prisma.expenseSplit.delete({
+   *   where: {
+   *     // ... filter to delete one ExpenseSplit
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ExpenseSplitDeleteArgs>(args: Prisma.SelectSubset<T, ExpenseSplitDeleteArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ExpenseSplit.
+   * @param {ExpenseSplitUpdateArgs} args - Arguments to update one ExpenseSplit.
+   * @example
+   * // Update one ExpenseSplit
+   * const expenseSplit = await prisma.expenseSplit.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ExpenseSplitUpdateArgs>(args: Prisma.SelectSubset<T, ExpenseSplitUpdateArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ExpenseSplits.
+   * @param {ExpenseSplitDeleteManyArgs} args - Arguments to filter ExpenseSplits to delete.
+   * @example
+   * // Delete a few ExpenseSplits
+   * const { count } = await prisma.expenseSplit.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ExpenseSplitDeleteManyArgs>(args?: Prisma.SelectSubset<T, ExpenseSplitDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ExpenseSplits.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExpenseSplits
+   * const expenseSplit = await prisma.expenseSplit.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ExpenseSplitUpdateManyArgs>(args: Prisma.SelectSubset<T, ExpenseSplitUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ExpenseSplits and returns the data updated in the database.
+   * @param {ExpenseSplitUpdateManyAndReturnArgs} args - Arguments to update many ExpenseSplits.
+   * @example
+   * // Update many ExpenseSplits
+   * const expenseSplit = await prisma.expenseSplit.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ExpenseSplits and only return the `id`
+   * const expenseSplitWithIdOnly = await prisma.expenseSplit.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ExpenseSplitUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ExpenseSplitUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ExpenseSplit.
+   * @param {ExpenseSplitUpsertArgs} args - Arguments to update or create a ExpenseSplit.
+   * @example
+   * // Update or create a ExpenseSplit
+   * const expenseSplit = await prisma.expenseSplit.upsert({
+   *   create: {
+   *     // ... data to create a ExpenseSplit
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExpenseSplit we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExpenseSplitUpsertArgs>(args: Prisma.SelectSubset<T, ExpenseSplitUpsertArgs<ExtArgs>>): Prisma.Prisma__ExpenseSplitClient<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ExpenseSplits.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitCountArgs} args - Arguments to filter ExpenseSplits to count.
+   * @example
+   * // Count the number of ExpenseSplits
+   * const count = await prisma.expenseSplit.count({
+   *   where: {
+   *     // ... the filter for the ExpenseSplits we want to count
+   *   }
+   * })
+  **/
+  count<T extends ExpenseSplitCountArgs>(
+    args?: Prisma.Subset<T, ExpenseSplitCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ExpenseSplitCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ExpenseSplit.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ExpenseSplitAggregateArgs>(args: Prisma.Subset<T, ExpenseSplitAggregateArgs>): Prisma.PrismaPromise<GetExpenseSplitAggregateType<T>>
+
+  /**
+   * Group by ExpenseSplit.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseSplitGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ExpenseSplitGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExpenseSplitGroupByArgs['orderBy'] }
+      : { orderBy?: ExpenseSplitGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ExpenseSplitGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetExpenseSplitGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ExpenseSplit model
+ */
+readonly fields: ExpenseSplitFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExpenseSplit.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExpenseSplitClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  expense<T extends Prisma.ExpenseDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ExpenseDefaultArgs<ExtArgs>>): Prisma.Prisma__ExpenseClient<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ExpenseSplit model
+ */
+export interface ExpenseSplitFieldRefs {
+  readonly id: Prisma.FieldRef<"ExpenseSplit", 'String'>
+  readonly expenseId: Prisma.FieldRef<"ExpenseSplit", 'String'>
+  readonly userId: Prisma.FieldRef<"ExpenseSplit", 'String'>
+  readonly shares: Prisma.FieldRef<"ExpenseSplit", 'Decimal'>
+  readonly amount: Prisma.FieldRef<"ExpenseSplit", 'Decimal'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ExpenseSplit findUnique
+ */
+export type ExpenseSplitFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * Filter, which ExpenseSplit to fetch.
+   */
+  where: Prisma.ExpenseSplitWhereUniqueInput
+}
+
+/**
+ * ExpenseSplit findUniqueOrThrow
+ */
+export type ExpenseSplitFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * Filter, which ExpenseSplit to fetch.
+   */
+  where: Prisma.ExpenseSplitWhereUniqueInput
+}
+
+/**
+ * ExpenseSplit findFirst
+ */
+export type ExpenseSplitFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * Filter, which ExpenseSplit to fetch.
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExpenseSplits to fetch.
+   */
+  orderBy?: Prisma.ExpenseSplitOrderByWithRelationInput | Prisma.ExpenseSplitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ExpenseSplits.
+   */
+  cursor?: Prisma.ExpenseSplitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExpenseSplits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExpenseSplits.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ExpenseSplits.
+   */
+  distinct?: Prisma.ExpenseSplitScalarFieldEnum | Prisma.ExpenseSplitScalarFieldEnum[]
+}
+
+/**
+ * ExpenseSplit findFirstOrThrow
+ */
+export type ExpenseSplitFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * Filter, which ExpenseSplit to fetch.
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExpenseSplits to fetch.
+   */
+  orderBy?: Prisma.ExpenseSplitOrderByWithRelationInput | Prisma.ExpenseSplitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ExpenseSplits.
+   */
+  cursor?: Prisma.ExpenseSplitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExpenseSplits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExpenseSplits.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ExpenseSplits.
+   */
+  distinct?: Prisma.ExpenseSplitScalarFieldEnum | Prisma.ExpenseSplitScalarFieldEnum[]
+}
+
+/**
+ * ExpenseSplit findMany
+ */
+export type ExpenseSplitFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * Filter, which ExpenseSplits to fetch.
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ExpenseSplits to fetch.
+   */
+  orderBy?: Prisma.ExpenseSplitOrderByWithRelationInput | Prisma.ExpenseSplitOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ExpenseSplits.
+   */
+  cursor?: Prisma.ExpenseSplitWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ExpenseSplits from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ExpenseSplits.
+   */
+  skip?: number
+  distinct?: Prisma.ExpenseSplitScalarFieldEnum | Prisma.ExpenseSplitScalarFieldEnum[]
+}
+
+/**
+ * ExpenseSplit create
+ */
+export type ExpenseSplitCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ExpenseSplit.
+   */
+  data: Prisma.XOR<Prisma.ExpenseSplitCreateInput, Prisma.ExpenseSplitUncheckedCreateInput>
+}
+
+/**
+ * ExpenseSplit createMany
+ */
+export type ExpenseSplitCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ExpenseSplits.
+   */
+  data: Prisma.ExpenseSplitCreateManyInput | Prisma.ExpenseSplitCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ExpenseSplit createManyAndReturn
+ */
+export type ExpenseSplitCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * The data used to create many ExpenseSplits.
+   */
+  data: Prisma.ExpenseSplitCreateManyInput | Prisma.ExpenseSplitCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ExpenseSplit update
+ */
+export type ExpenseSplitUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ExpenseSplit.
+   */
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateInput, Prisma.ExpenseSplitUncheckedUpdateInput>
+  /**
+   * Choose, which ExpenseSplit to update.
+   */
+  where: Prisma.ExpenseSplitWhereUniqueInput
+}
+
+/**
+ * ExpenseSplit updateMany
+ */
+export type ExpenseSplitUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ExpenseSplits.
+   */
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateManyMutationInput, Prisma.ExpenseSplitUncheckedUpdateManyInput>
+  /**
+   * Filter which ExpenseSplits to update
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * Limit how many ExpenseSplits to update.
+   */
+  limit?: number
+}
+
+/**
+ * ExpenseSplit updateManyAndReturn
+ */
+export type ExpenseSplitUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * The data used to update ExpenseSplits.
+   */
+  data: Prisma.XOR<Prisma.ExpenseSplitUpdateManyMutationInput, Prisma.ExpenseSplitUncheckedUpdateManyInput>
+  /**
+   * Filter which ExpenseSplits to update
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * Limit how many ExpenseSplits to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ExpenseSplit upsert
+ */
+export type ExpenseSplitUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ExpenseSplit to update in case it exists.
+   */
+  where: Prisma.ExpenseSplitWhereUniqueInput
+  /**
+   * In case the ExpenseSplit found by the `where` argument doesn't exist, create a new ExpenseSplit with this data.
+   */
+  create: Prisma.XOR<Prisma.ExpenseSplitCreateInput, Prisma.ExpenseSplitUncheckedCreateInput>
+  /**
+   * In case the ExpenseSplit was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ExpenseSplitUpdateInput, Prisma.ExpenseSplitUncheckedUpdateInput>
+}
+
+/**
+ * ExpenseSplit delete
+ */
+export type ExpenseSplitDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  /**
+   * Filter which ExpenseSplit to delete.
+   */
+  where: Prisma.ExpenseSplitWhereUniqueInput
+}
+
+/**
+ * ExpenseSplit deleteMany
+ */
+export type ExpenseSplitDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ExpenseSplits to delete
+   */
+  where?: Prisma.ExpenseSplitWhereInput
+  /**
+   * Limit how many ExpenseSplits to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ExpenseSplit without action
+ */
+export type ExpenseSplitDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+}
@@ -29,11 +29,13 @@ export type AggregateItinerary = {
 export type ItineraryAvgAggregateOutputType = {
   dayNumber: number | null
   orderIndex: number | null
+  version: number | null
 }
 
 export type ItinerarySumAggregateOutputType = {
   dayNumber: number | null
   orderIndex: number | null
+  version: number | null
 }
 
 export type ItineraryMinAggregateOutputType = {
@@ -44,6 +46,7 @@ export type ItineraryMinAggregateOutputType = {
   date: Date | null
   notes: string | null
   orderIndex: number | null
+  version: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -56,6 +59,7 @@ export type ItineraryMaxAggregateOutputType = {
   date: Date | null
   notes: string | null
   orderIndex: number | null
+  version: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -68,6 +72,7 @@ export type ItineraryCountAggregateOutputType = {
   date: number
   notes: number
   orderIndex: number
+  version: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -77,11 +82,13 @@ export type ItineraryCountAggregateOutputType = {
 export type ItineraryAvgAggregateInputType = {
   dayNumber?: true
   orderIndex?: true
+  version?: true
 }
 
 export type ItinerarySumAggregateInputType = {
   dayNumber?: true
   orderIndex?: true
+  version?: true
 }
 
 export type ItineraryMinAggregateInputType = {
@@ -92,6 +99,7 @@ export type ItineraryMinAggregateInputType = {
   date?: true
   notes?: true
   orderIndex?: true
+  version?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -104,6 +112,7 @@ export type ItineraryMaxAggregateInputType = {
   date?: true
   notes?: true
   orderIndex?: true
+  version?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -116,6 +125,7 @@ export type ItineraryCountAggregateInputType = {
   date?: true
   notes?: true
   orderIndex?: true
+  version?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -215,6 +225,7 @@ export type ItineraryGroupByOutputType = {
   date: Date
   notes: string | null
   orderIndex: number
+  version: number
   createdAt: Date
   updatedAt: Date
   _count: ItineraryCountAggregateOutputType | null
@@ -250,11 +261,13 @@ export type ItineraryWhereInput = {
   date?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   notes?: Prisma.StringNullableFilter<"Itinerary"> | string | null
   orderIndex?: Prisma.IntFilter<"Itinerary"> | number
+  version?: Prisma.IntFilter<"Itinerary"> | number
   createdAt?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
   city?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
   activities?: Prisma.ItineraryActivityListRelationFilter
+  proposals?: Prisma.RouteProposalListRelationFilter
 }
 
 export type ItineraryOrderByWithRelationInput = {
@@ -265,11 +278,13 @@ export type ItineraryOrderByWithRelationInput = {
   date?: Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   trip?: Prisma.TripOrderByWithRelationInput
   city?: Prisma.CityOrderByWithRelationInput
   activities?: Prisma.ItineraryActivityOrderByRelationAggregateInput
+  proposals?: Prisma.RouteProposalOrderByRelationAggregateInput
 }
 
 export type ItineraryWhereUniqueInput = Prisma.AtLeast<{
@@ -284,11 +299,13 @@ export type ItineraryWhereUniqueInput = Prisma.AtLeast<{
   date?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   notes?: Prisma.StringNullableFilter<"Itinerary"> | string | null
   orderIndex?: Prisma.IntFilter<"Itinerary"> | number
+  version?: Prisma.IntFilter<"Itinerary"> | number
   createdAt?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
   city?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
   activities?: Prisma.ItineraryActivityListRelationFilter
+  proposals?: Prisma.RouteProposalListRelationFilter
 }, "id" | "tripId_dayNumber">
 
 export type ItineraryOrderByWithAggregationInput = {
@@ -299,6 +316,7 @@ export type ItineraryOrderByWithAggregationInput = {
   date?: Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.ItineraryCountOrderByAggregateInput
@@ -319,6 +337,7 @@ export type ItineraryScalarWhereWithAggregatesInput = {
   date?: Prisma.DateTimeWithAggregatesFilter<"Itinerary"> | Date | string
   notes?: Prisma.StringNullableWithAggregatesFilter<"Itinerary"> | string | null
   orderIndex?: Prisma.IntWithAggregatesFilter<"Itinerary"> | number
+  version?: Prisma.IntWithAggregatesFilter<"Itinerary"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Itinerary"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Itinerary"> | Date | string
 }
@@ -329,11 +348,13 @@ export type ItineraryCreateInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   trip: Prisma.TripCreateNestedOneWithoutItinerariesInput
   city: Prisma.CityCreateNestedOneWithoutItinerariesInput
   activities?: Prisma.ItineraryActivityCreateNestedManyWithoutItineraryInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryUncheckedCreateInput = {
@@ -344,9 +365,11 @@ export type ItineraryUncheckedCreateInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   activities?: Prisma.ItineraryActivityUncheckedCreateNestedManyWithoutItineraryInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryUpdateInput = {
@@ -355,11 +378,13 @@ export type ItineraryUpdateInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trip?: Prisma.TripUpdateOneRequiredWithoutItinerariesNestedInput
   city?: Prisma.CityUpdateOneRequiredWithoutItinerariesNestedInput
   activities?: Prisma.ItineraryActivityUpdateManyWithoutItineraryNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryUncheckedUpdateInput = {
@@ -370,9 +395,11 @@ export type ItineraryUncheckedUpdateInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ItineraryActivityUncheckedUpdateManyWithoutItineraryNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryCreateManyInput = {
@@ -383,6 +410,7 @@ export type ItineraryCreateManyInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -393,6 +421,7 @@ export type ItineraryUpdateManyMutationInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -405,6 +434,7 @@ export type ItineraryUncheckedUpdateManyInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -432,6 +462,7 @@ export type ItineraryCountOrderByAggregateInput = {
   date?: Prisma.SortOrder
   notes?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -439,6 +470,7 @@ export type ItineraryCountOrderByAggregateInput = {
 export type ItineraryAvgOrderByAggregateInput = {
   dayNumber?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
 }
 
 export type ItineraryMaxOrderByAggregateInput = {
@@ -449,6 +481,7 @@ export type ItineraryMaxOrderByAggregateInput = {
   date?: Prisma.SortOrder
   notes?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -461,6 +494,7 @@ export type ItineraryMinOrderByAggregateInput = {
   date?: Prisma.SortOrder
   notes?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -468,6 +502,7 @@ export type ItineraryMinOrderByAggregateInput = {
 export type ItinerarySumOrderByAggregateInput = {
   dayNumber?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
 }
 
 export type ItineraryScalarRelationFilter = {
@@ -573,16 +608,32 @@ export type ItineraryUpdateOneRequiredWithoutActivitiesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ItineraryUpdateToOneWithWhereWithoutActivitiesInput, Prisma.ItineraryUpdateWithoutActivitiesInput>, Prisma.ItineraryUncheckedUpdateWithoutActivitiesInput>
 }
 
+export type ItineraryCreateNestedOneWithoutProposalsInput = {
+  create?: Prisma.XOR<Prisma.ItineraryCreateWithoutProposalsInput, Prisma.ItineraryUncheckedCreateWithoutProposalsInput>
+  connectOrCreate?: Prisma.ItineraryCreateOrConnectWithoutProposalsInput
+  connect?: Prisma.ItineraryWhereUniqueInput
+}
+
+export type ItineraryUpdateOneRequiredWithoutProposalsNestedInput = {
+  create?: Prisma.XOR<Prisma.ItineraryCreateWithoutProposalsInput, Prisma.ItineraryUncheckedCreateWithoutProposalsInput>
+  connectOrCreate?: Prisma.ItineraryCreateOrConnectWithoutProposalsInput
+  upsert?: Prisma.ItineraryUpsertWithoutProposalsInput
+  connect?: Prisma.ItineraryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ItineraryUpdateToOneWithWhereWithoutProposalsInput, Prisma.ItineraryUpdateWithoutProposalsInput>, Prisma.ItineraryUncheckedUpdateWithoutProposalsInput>
+}
+
 export type ItineraryCreateWithoutTripInput = {
   id?: string
   dayNumber: number
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   city: Prisma.CityCreateNestedOneWithoutItinerariesInput
   activities?: Prisma.ItineraryActivityCreateNestedManyWithoutItineraryInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryUncheckedCreateWithoutTripInput = {
@@ -592,9 +643,11 @@ export type ItineraryUncheckedCreateWithoutTripInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   activities?: Prisma.ItineraryActivityUncheckedCreateNestedManyWithoutItineraryInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryCreateOrConnectWithoutTripInput = {
@@ -634,6 +687,7 @@ export type ItineraryScalarWhereInput = {
   date?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   notes?: Prisma.StringNullableFilter<"Itinerary"> | string | null
   orderIndex?: Prisma.IntFilter<"Itinerary"> | number
+  version?: Prisma.IntFilter<"Itinerary"> | number
   createdAt?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Itinerary"> | Date | string
 }
@@ -644,10 +698,12 @@ export type ItineraryCreateWithoutCityInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   trip: Prisma.TripCreateNestedOneWithoutItinerariesInput
   activities?: Prisma.ItineraryActivityCreateNestedManyWithoutItineraryInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryUncheckedCreateWithoutCityInput = {
@@ -657,9 +713,11 @@ export type ItineraryUncheckedCreateWithoutCityInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   activities?: Prisma.ItineraryActivityUncheckedCreateNestedManyWithoutItineraryInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryCreateOrConnectWithoutCityInput = {
@@ -694,10 +752,12 @@ export type ItineraryCreateWithoutActivitiesInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   trip: Prisma.TripCreateNestedOneWithoutItinerariesInput
   city: Prisma.CityCreateNestedOneWithoutItinerariesInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryUncheckedCreateWithoutActivitiesInput = {
@@ -708,8 +768,10 @@ export type ItineraryUncheckedCreateWithoutActivitiesInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutItineraryInput
 }
 
 export type ItineraryCreateOrConnectWithoutActivitiesInput = {
@@ -734,10 +796,12 @@ export type ItineraryUpdateWithoutActivitiesInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trip?: Prisma.TripUpdateOneRequiredWithoutItinerariesNestedInput
   city?: Prisma.CityUpdateOneRequiredWithoutItinerariesNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryUncheckedUpdateWithoutActivitiesInput = {
@@ -748,8 +812,82 @@ export type ItineraryUncheckedUpdateWithoutActivitiesInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutItineraryNestedInput
+}
+
+export type ItineraryCreateWithoutProposalsInput = {
+  id?: string
+  dayNumber: number
+  date: Date | string
+  notes?: string | null
+  orderIndex?: number
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutItinerariesInput
+  city: Prisma.CityCreateNestedOneWithoutItinerariesInput
+  activities?: Prisma.ItineraryActivityCreateNestedManyWithoutItineraryInput
+}
+
+export type ItineraryUncheckedCreateWithoutProposalsInput = {
+  id?: string
+  tripId: string
+  cityId: string
+  dayNumber: number
+  date: Date | string
+  notes?: string | null
+  orderIndex?: number
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  activities?: Prisma.ItineraryActivityUncheckedCreateNestedManyWithoutItineraryInput
+}
+
+export type ItineraryCreateOrConnectWithoutProposalsInput = {
+  where: Prisma.ItineraryWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItineraryCreateWithoutProposalsInput, Prisma.ItineraryUncheckedCreateWithoutProposalsInput>
+}
+
+export type ItineraryUpsertWithoutProposalsInput = {
+  update: Prisma.XOR<Prisma.ItineraryUpdateWithoutProposalsInput, Prisma.ItineraryUncheckedUpdateWithoutProposalsInput>
+  create: Prisma.XOR<Prisma.ItineraryCreateWithoutProposalsInput, Prisma.ItineraryUncheckedCreateWithoutProposalsInput>
+  where?: Prisma.ItineraryWhereInput
+}
+
+export type ItineraryUpdateToOneWithWhereWithoutProposalsInput = {
+  where?: Prisma.ItineraryWhereInput
+  data: Prisma.XOR<Prisma.ItineraryUpdateWithoutProposalsInput, Prisma.ItineraryUncheckedUpdateWithoutProposalsInput>
+}
+
+export type ItineraryUpdateWithoutProposalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  dayNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutItinerariesNestedInput
+  city?: Prisma.CityUpdateOneRequiredWithoutItinerariesNestedInput
+  activities?: Prisma.ItineraryActivityUpdateManyWithoutItineraryNestedInput
+}
+
+export type ItineraryUncheckedUpdateWithoutProposalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  cityId?: Prisma.StringFieldUpdateOperationsInput | string
+  dayNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  activities?: Prisma.ItineraryActivityUncheckedUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryCreateManyTripInput = {
@@ -759,6 +897,7 @@ export type ItineraryCreateManyTripInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -769,10 +908,12 @@ export type ItineraryUpdateWithoutTripInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   city?: Prisma.CityUpdateOneRequiredWithoutItinerariesNestedInput
   activities?: Prisma.ItineraryActivityUpdateManyWithoutItineraryNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryUncheckedUpdateWithoutTripInput = {
@@ -782,9 +923,11 @@ export type ItineraryUncheckedUpdateWithoutTripInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ItineraryActivityUncheckedUpdateManyWithoutItineraryNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryUncheckedUpdateManyWithoutTripInput = {
@@ -794,6 +937,7 @@ export type ItineraryUncheckedUpdateManyWithoutTripInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -805,6 +949,7 @@ export type ItineraryCreateManyCityInput = {
   date: Date | string
   notes?: string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -815,10 +960,12 @@ export type ItineraryUpdateWithoutCityInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trip?: Prisma.TripUpdateOneRequiredWithoutItinerariesNestedInput
   activities?: Prisma.ItineraryActivityUpdateManyWithoutItineraryNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryUncheckedUpdateWithoutCityInput = {
@@ -828,9 +975,11 @@ export type ItineraryUncheckedUpdateWithoutCityInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activities?: Prisma.ItineraryActivityUncheckedUpdateManyWithoutItineraryNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutItineraryNestedInput
 }
 
 export type ItineraryUncheckedUpdateManyWithoutCityInput = {
@@ -840,6 +989,7 @@ export type ItineraryUncheckedUpdateManyWithoutCityInput = {
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -851,10 +1001,12 @@ export type ItineraryUncheckedUpdateManyWithoutCityInput = {
 
 export type ItineraryCountOutputType = {
   activities: number
+  proposals: number
 }
 
 export type ItineraryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   activities?: boolean | ItineraryCountOutputTypeCountActivitiesArgs
+  proposals?: boolean | ItineraryCountOutputTypeCountProposalsArgs
 }
 
 /**
@@ -874,6 +1026,13 @@ export type ItineraryCountOutputTypeCountActivitiesArgs<ExtArgs extends runtime.
   where?: Prisma.ItineraryActivityWhereInput
 }
 
+/**
+ * ItineraryCountOutputType without action
+ */
+export type ItineraryCountOutputTypeCountProposalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RouteProposalWhereInput
+}
+
 
 export type ItinerarySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -883,11 +1042,13 @@ export type ItinerarySelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   date?: boolean
   notes?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
   city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
   activities?: boolean | Prisma.Itinerary$activitiesArgs<ExtArgs>
+  proposals?: boolean | Prisma.Itinerary$proposalsArgs<ExtArgs>
   _count?: boolean | Prisma.ItineraryCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["itinerary"]>
 
@@ -899,6 +1060,7 @@ export type ItinerarySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   date?: boolean
   notes?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
@@ -913,6 +1075,7 @@ export type ItinerarySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   date?: boolean
   notes?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
@@ -927,15 +1090,17 @@ export type ItinerarySelectScalar = {
   date?: boolean
   notes?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type ItineraryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "cityId" | "dayNumber" | "date" | "notes" | "orderIndex" | "createdAt" | "updatedAt", ExtArgs["result"]["itinerary"]>
+export type ItineraryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "cityId" | "dayNumber" | "date" | "notes" | "orderIndex" | "version" | "createdAt" | "updatedAt", ExtArgs["result"]["itinerary"]>
 export type ItineraryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
   city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
   activities?: boolean | Prisma.Itinerary$activitiesArgs<ExtArgs>
+  proposals?: boolean | Prisma.Itinerary$proposalsArgs<ExtArgs>
   _count?: boolean | Prisma.ItineraryCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ItineraryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -953,6 +1118,7 @@ export type $ItineraryPayload<ExtArgs extends runtime.Types.Extensions.InternalA
     trip: Prisma.$TripPayload<ExtArgs>
     city: Prisma.$CityPayload<ExtArgs>
     activities: Prisma.$ItineraryActivityPayload<ExtArgs>[]
+    proposals: Prisma.$RouteProposalPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -962,6 +1128,7 @@ export type $ItineraryPayload<ExtArgs extends runtime.Types.Extensions.InternalA
     date: Date
     notes: string | null
     orderIndex: number
+    version: number
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["itinerary"]>
@@ -1361,6 +1528,7 @@ export interface Prisma__ItineraryClient<T, Null = never, ExtArgs extends runtim
   trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   city<T extends Prisma.CityDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CityDefaultArgs<ExtArgs>>): Prisma.Prisma__CityClient<runtime.Types.Result.GetResult<Prisma.$CityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   activities<T extends Prisma.Itinerary$activitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Itinerary$activitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItineraryActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  proposals<T extends Prisma.Itinerary$proposalsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Itinerary$proposalsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1397,6 +1565,7 @@ export interface ItineraryFieldRefs {
   readonly date: Prisma.FieldRef<"Itinerary", 'DateTime'>
   readonly notes: Prisma.FieldRef<"Itinerary", 'String'>
   readonly orderIndex: Prisma.FieldRef<"Itinerary", 'Int'>
+  readonly version: Prisma.FieldRef<"Itinerary", 'Int'>
   readonly createdAt: Prisma.FieldRef<"Itinerary", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Itinerary", 'DateTime'>
 }
@@ -1818,6 +1987,30 @@ export type Itinerary$activitiesArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.ItineraryActivityScalarFieldEnum | Prisma.ItineraryActivityScalarFieldEnum[]
 }
 
+/**
+ * Itinerary.proposals
+ */
+export type Itinerary$proposalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  where?: Prisma.RouteProposalWhereInput
+  orderBy?: Prisma.RouteProposalOrderByWithRelationInput | Prisma.RouteProposalOrderByWithRelationInput[]
+  cursor?: Prisma.RouteProposalWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RouteProposalScalarFieldEnum | Prisma.RouteProposalScalarFieldEnum[]
+}
+
 /**
  * Itinerary without action
  */
@@ -29,11 +29,13 @@ export type AggregateItineraryActivity = {
 export type ItineraryActivityAvgAggregateOutputType = {
   customCost: runtime.Decimal | null
   orderIndex: number | null
+  version: number | null
 }
 
 export type ItineraryActivitySumAggregateOutputType = {
   customCost: runtime.Decimal | null
   orderIndex: number | null
+  version: number | null
 }
 
 export type ItineraryActivityMinAggregateOutputType = {
@@ -45,6 +47,7 @@ export type ItineraryActivityMinAggregateOutputType = {
   customNotes: string | null
   customCost: runtime.Decimal | null
   orderIndex: number | null
+  version: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -58,6 +61,7 @@ export type ItineraryActivityMaxAggregateOutputType = {
   customNotes: string | null
   customCost: runtime.Decimal | null
   orderIndex: number | null
+  version: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -71,6 +75,7 @@ export type ItineraryActivityCountAggregateOutputType = {
   customNotes: number
   customCost: number
   orderIndex: number
+  version: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -80,11 +85,13 @@ export type ItineraryActivityCountAggregateOutputType = {
 export type ItineraryActivityAvgAggregateInputType = {
   customCost?: true
   orderIndex?: true
+  version?: true
 }
 
 export type ItineraryActivitySumAggregateInputType = {
   customCost?: true
   orderIndex?: true
+  version?: true
 }
 
 export type ItineraryActivityMinAggregateInputType = {
@@ -96,6 +103,7 @@ export type ItineraryActivityMinAggregateInputType = {
   customNotes?: true
   customCost?: true
   orderIndex?: true
+  version?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -109,6 +117,7 @@ export type ItineraryActivityMaxAggregateInputType = {
   customNotes?: true
   customCost?: true
   orderIndex?: true
+  version?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -122,6 +131,7 @@ export type ItineraryActivityCountAggregateInputType = {
   customNotes?: true
   customCost?: true
   orderIndex?: true
+  version?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -222,6 +232,7 @@ export type ItineraryActivityGroupByOutputType = {
   customNotes: string | null
   customCost: runtime.Decimal | null
   orderIndex: number
+  version: number
   createdAt: Date
   updatedAt: Date
   _count: ItineraryActivityCountAggregateOutputType | null
@@ -258,10 +269,12 @@ export type ItineraryActivityWhereInput = {
   customNotes?: Prisma.StringNullableFilter<"ItineraryActivity"> | string | null
   customCost?: Prisma.DecimalNullableFilter<"ItineraryActivity"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFilter<"ItineraryActivity"> | number
+  version?: Prisma.IntFilter<"ItineraryActivity"> | number
   createdAt?: Prisma.DateTimeFilter<"ItineraryActivity"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ItineraryActivity"> | Date | string
   itinerary?: Prisma.XOR<Prisma.ItineraryScalarRelationFilter, Prisma.ItineraryWhereInput>
   activity?: Prisma.XOR<Prisma.ActivityScalarRelationFilter, Prisma.ActivityWhereInput>
+  expenses?: Prisma.ExpenseListRelationFilter
 }
 
 export type ItineraryActivityOrderByWithRelationInput = {
@@ -273,10 +286,12 @@ export type ItineraryActivityOrderByWithRelationInput = {
   customNotes?: Prisma.SortOrderInput | Prisma.SortOrder
   customCost?: Prisma.SortOrderInput | Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   itinerary?: Prisma.ItineraryOrderByWithRelationInput
   activity?: Prisma.ActivityOrderByWithRelationInput
+  expenses?: Prisma.ExpenseOrderByRelationAggregateInput
 }
 
 export type ItineraryActivityWhereUniqueInput = Prisma.AtLeast<{
@@ -291,10 +306,12 @@ export type ItineraryActivityWhereUniqueInput = Prisma.AtLeast<{
   customNotes?: Prisma.StringNullableFilter<"ItineraryActivity"> | string | null
   customCost?: Prisma.DecimalNullableFilter<"ItineraryActivity"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFilter<"ItineraryActivity"> | number
+  version?: Prisma.IntFilter<"ItineraryActivity"> | number
   createdAt?: Prisma.DateTimeFilter<"ItineraryActivity"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ItineraryActivity"> | Date | string
   itinerary?: Prisma.XOR<Prisma.ItineraryScalarRelationFilter, Prisma.ItineraryWhereInput>
   activity?: Prisma.XOR<Prisma.ActivityScalarRelationFilter, Prisma.ActivityWhereInput>
+  expenses?: Prisma.ExpenseListRelationFilter
 }, "id">
 
 export type ItineraryActivityOrderByWithAggregationInput = {
@@ -306,6 +323,7 @@ export type ItineraryActivityOrderByWithAggregationInput = {
   customNotes?: Prisma.SortOrderInput | Prisma.SortOrder
   customCost?: Prisma.SortOrderInput | Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.ItineraryActivityCountOrderByAggregateInput
@@ -327,6 +345,7 @@ export type ItineraryActivityScalarWhereWithAggregatesInput = {
   customNotes?: Prisma.StringNullableWithAggregatesFilter<"ItineraryActivity"> | string | null
   customCost?: Prisma.DecimalNullableWithAggregatesFilter<"ItineraryActivity"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntWithAggregatesFilter<"ItineraryActivity"> | number
+  version?: Prisma.IntWithAggregatesFilter<"ItineraryActivity"> | number
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"ItineraryActivity"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ItineraryActivity"> | Date | string
 }
@@ -338,10 +357,12 @@ export type ItineraryActivityCreateInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   itinerary: Prisma.ItineraryCreateNestedOneWithoutActivitiesInput
   activity: Prisma.ActivityCreateNestedOneWithoutItineraryActivitiesInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutItineraryActivityInput
 }
 
 export type ItineraryActivityUncheckedCreateInput = {
@@ -353,8 +374,10 @@ export type ItineraryActivityUncheckedCreateInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutItineraryActivityInput
 }
 
 export type ItineraryActivityUpdateInput = {
@@ -364,10 +387,12 @@ export type ItineraryActivityUpdateInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itinerary?: Prisma.ItineraryUpdateOneRequiredWithoutActivitiesNestedInput
   activity?: Prisma.ActivityUpdateOneRequiredWithoutItineraryActivitiesNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutItineraryActivityNestedInput
 }
 
 export type ItineraryActivityUncheckedUpdateInput = {
@@ -379,8 +404,10 @@ export type ItineraryActivityUncheckedUpdateInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutItineraryActivityNestedInput
 }
 
 export type ItineraryActivityCreateManyInput = {
@@ -392,6 +419,7 @@ export type ItineraryActivityCreateManyInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -403,6 +431,7 @@ export type ItineraryActivityUpdateManyMutationInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -416,6 +445,7 @@ export type ItineraryActivityUncheckedUpdateManyInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -439,6 +469,7 @@ export type ItineraryActivityCountOrderByAggregateInput = {
   customNotes?: Prisma.SortOrder
   customCost?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -446,6 +477,7 @@ export type ItineraryActivityCountOrderByAggregateInput = {
 export type ItineraryActivityAvgOrderByAggregateInput = {
   customCost?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
 }
 
 export type ItineraryActivityMaxOrderByAggregateInput = {
@@ -457,6 +489,7 @@ export type ItineraryActivityMaxOrderByAggregateInput = {
   customNotes?: Prisma.SortOrder
   customCost?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -470,6 +503,7 @@ export type ItineraryActivityMinOrderByAggregateInput = {
   customNotes?: Prisma.SortOrder
   customCost?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -477,6 +511,12 @@ export type ItineraryActivityMinOrderByAggregateInput = {
 export type ItineraryActivitySumOrderByAggregateInput = {
   customCost?: Prisma.SortOrder
   orderIndex?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+}
+
+export type ItineraryActivityNullableScalarRelationFilter = {
+  is?: Prisma.ItineraryActivityWhereInput | null
+  isNot?: Prisma.ItineraryActivityWhereInput | null
 }
 
 export type ItineraryActivityCreateNestedManyWithoutActivityInput = {
@@ -563,6 +603,22 @@ export type ItineraryActivityUncheckedUpdateManyWithoutItineraryNestedInput = {
   deleteMany?: Prisma.ItineraryActivityScalarWhereInput | Prisma.ItineraryActivityScalarWhereInput[]
 }
 
+export type ItineraryActivityCreateNestedOneWithoutExpensesInput = {
+  create?: Prisma.XOR<Prisma.ItineraryActivityCreateWithoutExpensesInput, Prisma.ItineraryActivityUncheckedCreateWithoutExpensesInput>
+  connectOrCreate?: Prisma.ItineraryActivityCreateOrConnectWithoutExpensesInput
+  connect?: Prisma.ItineraryActivityWhereUniqueInput
+}
+
+export type ItineraryActivityUpdateOneWithoutExpensesNestedInput = {
+  create?: Prisma.XOR<Prisma.ItineraryActivityCreateWithoutExpensesInput, Prisma.ItineraryActivityUncheckedCreateWithoutExpensesInput>
+  connectOrCreate?: Prisma.ItineraryActivityCreateOrConnectWithoutExpensesInput
+  upsert?: Prisma.ItineraryActivityUpsertWithoutExpensesInput
+  disconnect?: Prisma.ItineraryActivityWhereInput | boolean
+  delete?: Prisma.ItineraryActivityWhereInput | boolean
+  connect?: Prisma.ItineraryActivityWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ItineraryActivityUpdateToOneWithWhereWithoutExpensesInput, Prisma.ItineraryActivityUpdateWithoutExpensesInput>, Prisma.ItineraryActivityUncheckedUpdateWithoutExpensesInput>
+}
+
 export type ItineraryActivityCreateWithoutActivityInput = {
   id?: string
   startTime: Date | string
@@ -570,9 +626,11 @@ export type ItineraryActivityCreateWithoutActivityInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   itinerary: Prisma.ItineraryCreateNestedOneWithoutActivitiesInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutItineraryActivityInput
 }
 
 export type ItineraryActivityUncheckedCreateWithoutActivityInput = {
@@ -583,8 +641,10 @@ export type ItineraryActivityUncheckedCreateWithoutActivityInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutItineraryActivityInput
 }
 
 export type ItineraryActivityCreateOrConnectWithoutActivityInput = {
@@ -625,6 +685,7 @@ export type ItineraryActivityScalarWhereInput = {
   customNotes?: Prisma.StringNullableFilter<"ItineraryActivity"> | string | null
   customCost?: Prisma.DecimalNullableFilter<"ItineraryActivity"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFilter<"ItineraryActivity"> | number
+  version?: Prisma.IntFilter<"ItineraryActivity"> | number
   createdAt?: Prisma.DateTimeFilter<"ItineraryActivity"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ItineraryActivity"> | Date | string
 }
@@ -636,9 +697,11 @@ export type ItineraryActivityCreateWithoutItineraryInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   activity: Prisma.ActivityCreateNestedOneWithoutItineraryActivitiesInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutItineraryActivityInput
 }
 
 export type ItineraryActivityUncheckedCreateWithoutItineraryInput = {
@@ -649,8 +712,10 @@ export type ItineraryActivityUncheckedCreateWithoutItineraryInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutItineraryActivityInput
 }
 
 export type ItineraryActivityCreateOrConnectWithoutItineraryInput = {
@@ -679,6 +744,78 @@ export type ItineraryActivityUpdateManyWithWhereWithoutItineraryInput = {
   data: Prisma.XOR<Prisma.ItineraryActivityUpdateManyMutationInput, Prisma.ItineraryActivityUncheckedUpdateManyWithoutItineraryInput>
 }
 
+export type ItineraryActivityCreateWithoutExpensesInput = {
+  id?: string
+  startTime: Date | string
+  endTime: Date | string
+  customNotes?: string | null
+  customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  orderIndex?: number
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itinerary: Prisma.ItineraryCreateNestedOneWithoutActivitiesInput
+  activity: Prisma.ActivityCreateNestedOneWithoutItineraryActivitiesInput
+}
+
+export type ItineraryActivityUncheckedCreateWithoutExpensesInput = {
+  id?: string
+  itineraryId: string
+  activityId: string
+  startTime: Date | string
+  endTime: Date | string
+  customNotes?: string | null
+  customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  orderIndex?: number
+  version?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ItineraryActivityCreateOrConnectWithoutExpensesInput = {
+  where: Prisma.ItineraryActivityWhereUniqueInput
+  create: Prisma.XOR<Prisma.ItineraryActivityCreateWithoutExpensesInput, Prisma.ItineraryActivityUncheckedCreateWithoutExpensesInput>
+}
+
+export type ItineraryActivityUpsertWithoutExpensesInput = {
+  update: Prisma.XOR<Prisma.ItineraryActivityUpdateWithoutExpensesInput, Prisma.ItineraryActivityUncheckedUpdateWithoutExpensesInput>
+  create: Prisma.XOR<Prisma.ItineraryActivityCreateWithoutExpensesInput, Prisma.ItineraryActivityUncheckedCreateWithoutExpensesInput>
+  where?: Prisma.ItineraryActivityWhereInput
+}
+
+export type ItineraryActivityUpdateToOneWithWhereWithoutExpensesInput = {
+  where?: Prisma.ItineraryActivityWhereInput
+  data: Prisma.XOR<Prisma.ItineraryActivityUpdateWithoutExpensesInput, Prisma.ItineraryActivityUncheckedUpdateWithoutExpensesInput>
+}
+
+export type ItineraryActivityUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itinerary?: Prisma.ItineraryUpdateOneRequiredWithoutActivitiesNestedInput
+  activity?: Prisma.ActivityUpdateOneRequiredWithoutItineraryActivitiesNestedInput
+}
+
+export type ItineraryActivityUncheckedUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itineraryId?: Prisma.StringFieldUpdateOperationsInput | string
+  activityId?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type ItineraryActivityCreateManyActivityInput = {
   id?: string
   itineraryId: string
@@ -687,6 +824,7 @@ export type ItineraryActivityCreateManyActivityInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -698,9 +836,11 @@ export type ItineraryActivityUpdateWithoutActivityInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itinerary?: Prisma.ItineraryUpdateOneRequiredWithoutActivitiesNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutItineraryActivityNestedInput
 }
 
 export type ItineraryActivityUncheckedUpdateWithoutActivityInput = {
@@ -711,8 +851,10 @@ export type ItineraryActivityUncheckedUpdateWithoutActivityInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutItineraryActivityNestedInput
 }
 
 export type ItineraryActivityUncheckedUpdateManyWithoutActivityInput = {
@@ -723,6 +865,7 @@ export type ItineraryActivityUncheckedUpdateManyWithoutActivityInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -735,6 +878,7 @@ export type ItineraryActivityCreateManyItineraryInput = {
   customNotes?: string | null
   customCost?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: number
+  version?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -746,9 +890,11 @@ export type ItineraryActivityUpdateWithoutItineraryInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   activity?: Prisma.ActivityUpdateOneRequiredWithoutItineraryActivitiesNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutItineraryActivityNestedInput
 }
 
 export type ItineraryActivityUncheckedUpdateWithoutItineraryInput = {
@@ -759,8 +905,10 @@ export type ItineraryActivityUncheckedUpdateWithoutItineraryInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutItineraryActivityNestedInput
 }
 
 export type ItineraryActivityUncheckedUpdateManyWithoutItineraryInput = {
@@ -771,11 +919,41 @@ export type ItineraryActivityUncheckedUpdateManyWithoutItineraryInput = {
   customNotes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   customCost?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
   orderIndex?: Prisma.IntFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type ItineraryActivityCountOutputType
+ */
+
+export type ItineraryActivityCountOutputType = {
+  expenses: number
+}
+
+export type ItineraryActivityCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  expenses?: boolean | ItineraryActivityCountOutputTypeCountExpensesArgs
+}
+
+/**
+ * ItineraryActivityCountOutputType without action
+ */
+export type ItineraryActivityCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ItineraryActivityCountOutputType
+   */
+  select?: Prisma.ItineraryActivityCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ItineraryActivityCountOutputType without action
+ */
+export type ItineraryActivityCountOutputTypeCountExpensesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExpenseWhereInput
+}
+
 
 export type ItineraryActivitySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -786,10 +964,13 @@ export type ItineraryActivitySelect<ExtArgs extends runtime.Types.Extensions.Int
   customNotes?: boolean
   customCost?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
   activity?: boolean | Prisma.ActivityDefaultArgs<ExtArgs>
+  expenses?: boolean | Prisma.ItineraryActivity$expensesArgs<ExtArgs>
+  _count?: boolean | Prisma.ItineraryActivityCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["itineraryActivity"]>
 
 export type ItineraryActivitySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -801,6 +982,7 @@ export type ItineraryActivitySelectCreateManyAndReturn<ExtArgs extends runtime.T
   customNotes?: boolean
   customCost?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
@@ -816,6 +998,7 @@ export type ItineraryActivitySelectUpdateManyAndReturn<ExtArgs extends runtime.T
   customNotes?: boolean
   customCost?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
@@ -831,14 +1014,17 @@ export type ItineraryActivitySelectScalar = {
   customNotes?: boolean
   customCost?: boolean
   orderIndex?: boolean
+  version?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type ItineraryActivityOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itineraryId" | "activityId" | "startTime" | "endTime" | "customNotes" | "customCost" | "orderIndex" | "createdAt" | "updatedAt", ExtArgs["result"]["itineraryActivity"]>
+export type ItineraryActivityOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itineraryId" | "activityId" | "startTime" | "endTime" | "customNotes" | "customCost" | "orderIndex" | "version" | "createdAt" | "updatedAt", ExtArgs["result"]["itineraryActivity"]>
 export type ItineraryActivityInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
   activity?: boolean | Prisma.ActivityDefaultArgs<ExtArgs>
+  expenses?: boolean | Prisma.ItineraryActivity$expensesArgs<ExtArgs>
+  _count?: boolean | Prisma.ItineraryActivityCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ItineraryActivityIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
@@ -854,6 +1040,7 @@ export type $ItineraryActivityPayload<ExtArgs extends runtime.Types.Extensions.I
   objects: {
     itinerary: Prisma.$ItineraryPayload<ExtArgs>
     activity: Prisma.$ActivityPayload<ExtArgs>
+    expenses: Prisma.$ExpensePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -864,6 +1051,7 @@ export type $ItineraryActivityPayload<ExtArgs extends runtime.Types.Extensions.I
     customNotes: string | null
     customCost: runtime.Decimal | null
     orderIndex: number
+    version: number
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["itineraryActivity"]>
@@ -1262,6 +1450,7 @@ export interface Prisma__ItineraryActivityClient<T, Null = never, ExtArgs extend
   readonly [Symbol.toStringTag]: "PrismaPromise"
   itinerary<T extends Prisma.ItineraryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItineraryDefaultArgs<ExtArgs>>): Prisma.Prisma__ItineraryClient<runtime.Types.Result.GetResult<Prisma.$ItineraryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   activity<T extends Prisma.ActivityDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ActivityDefaultArgs<ExtArgs>>): Prisma.Prisma__ActivityClient<runtime.Types.Result.GetResult<Prisma.$ActivityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  expenses<T extends Prisma.ItineraryActivity$expensesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItineraryActivity$expensesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1299,6 +1488,7 @@ export interface ItineraryActivityFieldRefs {
   readonly customNotes: Prisma.FieldRef<"ItineraryActivity", 'String'>
   readonly customCost: Prisma.FieldRef<"ItineraryActivity", 'Decimal'>
   readonly orderIndex: Prisma.FieldRef<"ItineraryActivity", 'Int'>
+  readonly version: Prisma.FieldRef<"ItineraryActivity", 'Int'>
   readonly createdAt: Prisma.FieldRef<"ItineraryActivity", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"ItineraryActivity", 'DateTime'>
 }
@@ -1696,6 +1886,30 @@ export type ItineraryActivityDeleteManyArgs<ExtArgs extends runtime.Types.Extens
   limit?: number
 }
 
+/**
+ * ItineraryActivity.expenses
+ */
+export type ItineraryActivity$expensesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Expense
+   */
+  select?: Prisma.ExpenseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Expense
+   */
+  omit?: Prisma.ExpenseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseInclude<ExtArgs> | null
+  where?: Prisma.ExpenseWhereInput
+  orderBy?: Prisma.ExpenseOrderByWithRelationInput | Prisma.ExpenseOrderByWithRelationInput[]
+  cursor?: Prisma.ExpenseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ExpenseScalarFieldEnum | Prisma.ExpenseScalarFieldEnum[]
+}
+
 /**
  * ItineraryActivity without action
  */
@@ -0,0 +1,1710 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RouteProposal` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model RouteProposal
+ * 
+ */
+export type RouteProposalModel = runtime.Types.Result.DefaultSelection<Prisma.$RouteProposalPayload>
+
+export type AggregateRouteProposal = {
+  _count: RouteProposalCountAggregateOutputType | null
+  _avg: RouteProposalAvgAggregateOutputType | null
+  _sum: RouteProposalSumAggregateOutputType | null
+  _min: RouteProposalMinAggregateOutputType | null
+  _max: RouteProposalMaxAggregateOutputType | null
+}
+
+export type RouteProposalAvgAggregateOutputType = {
+  timeSavedMinutes: number | null
+}
+
+export type RouteProposalSumAggregateOutputType = {
+  timeSavedMinutes: number | null
+}
+
+export type RouteProposalMinAggregateOutputType = {
+  id: string | null
+  itineraryId: string | null
+  createdById: string | null
+  status: $Enums.ProposalStatus | null
+  timeSavedMinutes: number | null
+  reasoning: string | null
+  createdAt: Date | null
+  resolvedAt: Date | null
+}
+
+export type RouteProposalMaxAggregateOutputType = {
+  id: string | null
+  itineraryId: string | null
+  createdById: string | null
+  status: $Enums.ProposalStatus | null
+  timeSavedMinutes: number | null
+  reasoning: string | null
+  createdAt: Date | null
+  resolvedAt: Date | null
+}
+
+export type RouteProposalCountAggregateOutputType = {
+  id: number
+  itineraryId: number
+  createdById: number
+  status: number
+  changes: number
+  timeSavedMinutes: number
+  reasoning: number
+  unmatchedNames: number
+  createdAt: number
+  resolvedAt: number
+  _all: number
+}
+
+
+export type RouteProposalAvgAggregateInputType = {
+  timeSavedMinutes?: true
+}
+
+export type RouteProposalSumAggregateInputType = {
+  timeSavedMinutes?: true
+}
+
+export type RouteProposalMinAggregateInputType = {
+  id?: true
+  itineraryId?: true
+  createdById?: true
+  status?: true
+  timeSavedMinutes?: true
+  reasoning?: true
+  createdAt?: true
+  resolvedAt?: true
+}
+
+export type RouteProposalMaxAggregateInputType = {
+  id?: true
+  itineraryId?: true
+  createdById?: true
+  status?: true
+  timeSavedMinutes?: true
+  reasoning?: true
+  createdAt?: true
+  resolvedAt?: true
+}
+
+export type RouteProposalCountAggregateInputType = {
+  id?: true
+  itineraryId?: true
+  createdById?: true
+  status?: true
+  changes?: true
+  timeSavedMinutes?: true
+  reasoning?: true
+  unmatchedNames?: true
+  createdAt?: true
+  resolvedAt?: true
+  _all?: true
+}
+
+export type RouteProposalAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RouteProposal to aggregate.
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RouteProposals to fetch.
+   */
+  orderBy?: Prisma.RouteProposalOrderByWithRelationInput | Prisma.RouteProposalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RouteProposalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RouteProposals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RouteProposals.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RouteProposals
+  **/
+  _count?: true | RouteProposalCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RouteProposalAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RouteProposalSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RouteProposalMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RouteProposalMaxAggregateInputType
+}
+
+export type GetRouteProposalAggregateType<T extends RouteProposalAggregateArgs> = {
+      [P in keyof T & keyof AggregateRouteProposal]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRouteProposal[P]>
+    : Prisma.GetScalarType<T[P], AggregateRouteProposal[P]>
+}
+
+
+
+
+export type RouteProposalGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RouteProposalWhereInput
+  orderBy?: Prisma.RouteProposalOrderByWithAggregationInput | Prisma.RouteProposalOrderByWithAggregationInput[]
+  by: Prisma.RouteProposalScalarFieldEnum[] | Prisma.RouteProposalScalarFieldEnum
+  having?: Prisma.RouteProposalScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RouteProposalCountAggregateInputType | true
+  _avg?: RouteProposalAvgAggregateInputType
+  _sum?: RouteProposalSumAggregateInputType
+  _min?: RouteProposalMinAggregateInputType
+  _max?: RouteProposalMaxAggregateInputType
+}
+
+export type RouteProposalGroupByOutputType = {
+  id: string
+  itineraryId: string
+  createdById: string
+  status: $Enums.ProposalStatus
+  changes: runtime.JsonValue
+  timeSavedMinutes: number | null
+  reasoning: string | null
+  unmatchedNames: string[]
+  createdAt: Date
+  resolvedAt: Date | null
+  _count: RouteProposalCountAggregateOutputType | null
+  _avg: RouteProposalAvgAggregateOutputType | null
+  _sum: RouteProposalSumAggregateOutputType | null
+  _min: RouteProposalMinAggregateOutputType | null
+  _max: RouteProposalMaxAggregateOutputType | null
+}
+
+type GetRouteProposalGroupByPayload<T extends RouteProposalGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RouteProposalGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RouteProposalGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RouteProposalGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RouteProposalGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RouteProposalWhereInput = {
+  AND?: Prisma.RouteProposalWhereInput | Prisma.RouteProposalWhereInput[]
+  OR?: Prisma.RouteProposalWhereInput[]
+  NOT?: Prisma.RouteProposalWhereInput | Prisma.RouteProposalWhereInput[]
+  id?: Prisma.StringFilter<"RouteProposal"> | string
+  itineraryId?: Prisma.StringFilter<"RouteProposal"> | string
+  createdById?: Prisma.StringFilter<"RouteProposal"> | string
+  status?: Prisma.EnumProposalStatusFilter<"RouteProposal"> | $Enums.ProposalStatus
+  changes?: Prisma.JsonFilter<"RouteProposal">
+  timeSavedMinutes?: Prisma.IntNullableFilter<"RouteProposal"> | number | null
+  reasoning?: Prisma.StringNullableFilter<"RouteProposal"> | string | null
+  unmatchedNames?: Prisma.StringNullableListFilter<"RouteProposal">
+  createdAt?: Prisma.DateTimeFilter<"RouteProposal"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableFilter<"RouteProposal"> | Date | string | null
+  itinerary?: Prisma.XOR<Prisma.ItineraryScalarRelationFilter, Prisma.ItineraryWhereInput>
+  createdBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type RouteProposalOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  itineraryId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  timeSavedMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  reasoning?: Prisma.SortOrderInput | Prisma.SortOrder
+  unmatchedNames?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  itinerary?: Prisma.ItineraryOrderByWithRelationInput
+  createdBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type RouteProposalWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RouteProposalWhereInput | Prisma.RouteProposalWhereInput[]
+  OR?: Prisma.RouteProposalWhereInput[]
+  NOT?: Prisma.RouteProposalWhereInput | Prisma.RouteProposalWhereInput[]
+  itineraryId?: Prisma.StringFilter<"RouteProposal"> | string
+  createdById?: Prisma.StringFilter<"RouteProposal"> | string
+  status?: Prisma.EnumProposalStatusFilter<"RouteProposal"> | $Enums.ProposalStatus
+  changes?: Prisma.JsonFilter<"RouteProposal">
+  timeSavedMinutes?: Prisma.IntNullableFilter<"RouteProposal"> | number | null
+  reasoning?: Prisma.StringNullableFilter<"RouteProposal"> | string | null
+  unmatchedNames?: Prisma.StringNullableListFilter<"RouteProposal">
+  createdAt?: Prisma.DateTimeFilter<"RouteProposal"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableFilter<"RouteProposal"> | Date | string | null
+  itinerary?: Prisma.XOR<Prisma.ItineraryScalarRelationFilter, Prisma.ItineraryWhereInput>
+  createdBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id">
+
+export type RouteProposalOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  itineraryId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  timeSavedMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  reasoning?: Prisma.SortOrderInput | Prisma.SortOrder
+  unmatchedNames?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.RouteProposalCountOrderByAggregateInput
+  _avg?: Prisma.RouteProposalAvgOrderByAggregateInput
+  _max?: Prisma.RouteProposalMaxOrderByAggregateInput
+  _min?: Prisma.RouteProposalMinOrderByAggregateInput
+  _sum?: Prisma.RouteProposalSumOrderByAggregateInput
+}
+
+export type RouteProposalScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RouteProposalScalarWhereWithAggregatesInput | Prisma.RouteProposalScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RouteProposalScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RouteProposalScalarWhereWithAggregatesInput | Prisma.RouteProposalScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RouteProposal"> | string
+  itineraryId?: Prisma.StringWithAggregatesFilter<"RouteProposal"> | string
+  createdById?: Prisma.StringWithAggregatesFilter<"RouteProposal"> | string
+  status?: Prisma.EnumProposalStatusWithAggregatesFilter<"RouteProposal"> | $Enums.ProposalStatus
+  changes?: Prisma.JsonWithAggregatesFilter<"RouteProposal">
+  timeSavedMinutes?: Prisma.IntNullableWithAggregatesFilter<"RouteProposal"> | number | null
+  reasoning?: Prisma.StringNullableWithAggregatesFilter<"RouteProposal"> | string | null
+  unmatchedNames?: Prisma.StringNullableListFilter<"RouteProposal">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RouteProposal"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"RouteProposal"> | Date | string | null
+}
+
+export type RouteProposalCreateInput = {
+  id?: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+  itinerary: Prisma.ItineraryCreateNestedOneWithoutProposalsInput
+  createdBy: Prisma.UserCreateNestedOneWithoutProposalsInput
+}
+
+export type RouteProposalUncheckedCreateInput = {
+  id?: string
+  itineraryId: string
+  createdById: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type RouteProposalUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  itinerary?: Prisma.ItineraryUpdateOneRequiredWithoutProposalsNestedInput
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutProposalsNestedInput
+}
+
+export type RouteProposalUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itineraryId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type RouteProposalCreateManyInput = {
+  id?: string
+  itineraryId: string
+  createdById: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type RouteProposalUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type RouteProposalUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itineraryId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type RouteProposalListRelationFilter = {
+  every?: Prisma.RouteProposalWhereInput
+  some?: Prisma.RouteProposalWhereInput
+  none?: Prisma.RouteProposalWhereInput
+}
+
+export type RouteProposalOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RouteProposalCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itineraryId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  timeSavedMinutes?: Prisma.SortOrder
+  reasoning?: Prisma.SortOrder
+  unmatchedNames?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+}
+
+export type RouteProposalAvgOrderByAggregateInput = {
+  timeSavedMinutes?: Prisma.SortOrder
+}
+
+export type RouteProposalMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itineraryId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  timeSavedMinutes?: Prisma.SortOrder
+  reasoning?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+}
+
+export type RouteProposalMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  itineraryId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  timeSavedMinutes?: Prisma.SortOrder
+  reasoning?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  resolvedAt?: Prisma.SortOrder
+}
+
+export type RouteProposalSumOrderByAggregateInput = {
+  timeSavedMinutes?: Prisma.SortOrder
+}
+
+export type RouteProposalCreateNestedManyWithoutCreatedByInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutCreatedByInput, Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput> | Prisma.RouteProposalCreateWithoutCreatedByInput[] | Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput | Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput[]
+  createMany?: Prisma.RouteProposalCreateManyCreatedByInputEnvelope
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+}
+
+export type RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutCreatedByInput, Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput> | Prisma.RouteProposalCreateWithoutCreatedByInput[] | Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput | Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput[]
+  createMany?: Prisma.RouteProposalCreateManyCreatedByInputEnvelope
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+}
+
+export type RouteProposalUpdateManyWithoutCreatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutCreatedByInput, Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput> | Prisma.RouteProposalCreateWithoutCreatedByInput[] | Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput | Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput[]
+  upsert?: Prisma.RouteProposalUpsertWithWhereUniqueWithoutCreatedByInput | Prisma.RouteProposalUpsertWithWhereUniqueWithoutCreatedByInput[]
+  createMany?: Prisma.RouteProposalCreateManyCreatedByInputEnvelope
+  set?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  disconnect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  delete?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  update?: Prisma.RouteProposalUpdateWithWhereUniqueWithoutCreatedByInput | Prisma.RouteProposalUpdateWithWhereUniqueWithoutCreatedByInput[]
+  updateMany?: Prisma.RouteProposalUpdateManyWithWhereWithoutCreatedByInput | Prisma.RouteProposalUpdateManyWithWhereWithoutCreatedByInput[]
+  deleteMany?: Prisma.RouteProposalScalarWhereInput | Prisma.RouteProposalScalarWhereInput[]
+}
+
+export type RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutCreatedByInput, Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput> | Prisma.RouteProposalCreateWithoutCreatedByInput[] | Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput | Prisma.RouteProposalCreateOrConnectWithoutCreatedByInput[]
+  upsert?: Prisma.RouteProposalUpsertWithWhereUniqueWithoutCreatedByInput | Prisma.RouteProposalUpsertWithWhereUniqueWithoutCreatedByInput[]
+  createMany?: Prisma.RouteProposalCreateManyCreatedByInputEnvelope
+  set?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  disconnect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  delete?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  update?: Prisma.RouteProposalUpdateWithWhereUniqueWithoutCreatedByInput | Prisma.RouteProposalUpdateWithWhereUniqueWithoutCreatedByInput[]
+  updateMany?: Prisma.RouteProposalUpdateManyWithWhereWithoutCreatedByInput | Prisma.RouteProposalUpdateManyWithWhereWithoutCreatedByInput[]
+  deleteMany?: Prisma.RouteProposalScalarWhereInput | Prisma.RouteProposalScalarWhereInput[]
+}
+
+export type RouteProposalCreateNestedManyWithoutItineraryInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutItineraryInput, Prisma.RouteProposalUncheckedCreateWithoutItineraryInput> | Prisma.RouteProposalCreateWithoutItineraryInput[] | Prisma.RouteProposalUncheckedCreateWithoutItineraryInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutItineraryInput | Prisma.RouteProposalCreateOrConnectWithoutItineraryInput[]
+  createMany?: Prisma.RouteProposalCreateManyItineraryInputEnvelope
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+}
+
+export type RouteProposalUncheckedCreateNestedManyWithoutItineraryInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutItineraryInput, Prisma.RouteProposalUncheckedCreateWithoutItineraryInput> | Prisma.RouteProposalCreateWithoutItineraryInput[] | Prisma.RouteProposalUncheckedCreateWithoutItineraryInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutItineraryInput | Prisma.RouteProposalCreateOrConnectWithoutItineraryInput[]
+  createMany?: Prisma.RouteProposalCreateManyItineraryInputEnvelope
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+}
+
+export type RouteProposalUpdateManyWithoutItineraryNestedInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutItineraryInput, Prisma.RouteProposalUncheckedCreateWithoutItineraryInput> | Prisma.RouteProposalCreateWithoutItineraryInput[] | Prisma.RouteProposalUncheckedCreateWithoutItineraryInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutItineraryInput | Prisma.RouteProposalCreateOrConnectWithoutItineraryInput[]
+  upsert?: Prisma.RouteProposalUpsertWithWhereUniqueWithoutItineraryInput | Prisma.RouteProposalUpsertWithWhereUniqueWithoutItineraryInput[]
+  createMany?: Prisma.RouteProposalCreateManyItineraryInputEnvelope
+  set?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  disconnect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  delete?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  update?: Prisma.RouteProposalUpdateWithWhereUniqueWithoutItineraryInput | Prisma.RouteProposalUpdateWithWhereUniqueWithoutItineraryInput[]
+  updateMany?: Prisma.RouteProposalUpdateManyWithWhereWithoutItineraryInput | Prisma.RouteProposalUpdateManyWithWhereWithoutItineraryInput[]
+  deleteMany?: Prisma.RouteProposalScalarWhereInput | Prisma.RouteProposalScalarWhereInput[]
+}
+
+export type RouteProposalUncheckedUpdateManyWithoutItineraryNestedInput = {
+  create?: Prisma.XOR<Prisma.RouteProposalCreateWithoutItineraryInput, Prisma.RouteProposalUncheckedCreateWithoutItineraryInput> | Prisma.RouteProposalCreateWithoutItineraryInput[] | Prisma.RouteProposalUncheckedCreateWithoutItineraryInput[]
+  connectOrCreate?: Prisma.RouteProposalCreateOrConnectWithoutItineraryInput | Prisma.RouteProposalCreateOrConnectWithoutItineraryInput[]
+  upsert?: Prisma.RouteProposalUpsertWithWhereUniqueWithoutItineraryInput | Prisma.RouteProposalUpsertWithWhereUniqueWithoutItineraryInput[]
+  createMany?: Prisma.RouteProposalCreateManyItineraryInputEnvelope
+  set?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  disconnect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  delete?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  connect?: Prisma.RouteProposalWhereUniqueInput | Prisma.RouteProposalWhereUniqueInput[]
+  update?: Prisma.RouteProposalUpdateWithWhereUniqueWithoutItineraryInput | Prisma.RouteProposalUpdateWithWhereUniqueWithoutItineraryInput[]
+  updateMany?: Prisma.RouteProposalUpdateManyWithWhereWithoutItineraryInput | Prisma.RouteProposalUpdateManyWithWhereWithoutItineraryInput[]
+  deleteMany?: Prisma.RouteProposalScalarWhereInput | Prisma.RouteProposalScalarWhereInput[]
+}
+
+export type RouteProposalCreateunmatchedNamesInput = {
+  set: string[]
+}
+
+export type EnumProposalStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ProposalStatus
+}
+
+export type RouteProposalUpdateunmatchedNamesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type RouteProposalCreateWithoutCreatedByInput = {
+  id?: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+  itinerary: Prisma.ItineraryCreateNestedOneWithoutProposalsInput
+}
+
+export type RouteProposalUncheckedCreateWithoutCreatedByInput = {
+  id?: string
+  itineraryId: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type RouteProposalCreateOrConnectWithoutCreatedByInput = {
+  where: Prisma.RouteProposalWhereUniqueInput
+  create: Prisma.XOR<Prisma.RouteProposalCreateWithoutCreatedByInput, Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput>
+}
+
+export type RouteProposalCreateManyCreatedByInputEnvelope = {
+  data: Prisma.RouteProposalCreateManyCreatedByInput | Prisma.RouteProposalCreateManyCreatedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type RouteProposalUpsertWithWhereUniqueWithoutCreatedByInput = {
+  where: Prisma.RouteProposalWhereUniqueInput
+  update: Prisma.XOR<Prisma.RouteProposalUpdateWithoutCreatedByInput, Prisma.RouteProposalUncheckedUpdateWithoutCreatedByInput>
+  create: Prisma.XOR<Prisma.RouteProposalCreateWithoutCreatedByInput, Prisma.RouteProposalUncheckedCreateWithoutCreatedByInput>
+}
+
+export type RouteProposalUpdateWithWhereUniqueWithoutCreatedByInput = {
+  where: Prisma.RouteProposalWhereUniqueInput
+  data: Prisma.XOR<Prisma.RouteProposalUpdateWithoutCreatedByInput, Prisma.RouteProposalUncheckedUpdateWithoutCreatedByInput>
+}
+
+export type RouteProposalUpdateManyWithWhereWithoutCreatedByInput = {
+  where: Prisma.RouteProposalScalarWhereInput
+  data: Prisma.XOR<Prisma.RouteProposalUpdateManyMutationInput, Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByInput>
+}
+
+export type RouteProposalScalarWhereInput = {
+  AND?: Prisma.RouteProposalScalarWhereInput | Prisma.RouteProposalScalarWhereInput[]
+  OR?: Prisma.RouteProposalScalarWhereInput[]
+  NOT?: Prisma.RouteProposalScalarWhereInput | Prisma.RouteProposalScalarWhereInput[]
+  id?: Prisma.StringFilter<"RouteProposal"> | string
+  itineraryId?: Prisma.StringFilter<"RouteProposal"> | string
+  createdById?: Prisma.StringFilter<"RouteProposal"> | string
+  status?: Prisma.EnumProposalStatusFilter<"RouteProposal"> | $Enums.ProposalStatus
+  changes?: Prisma.JsonFilter<"RouteProposal">
+  timeSavedMinutes?: Prisma.IntNullableFilter<"RouteProposal"> | number | null
+  reasoning?: Prisma.StringNullableFilter<"RouteProposal"> | string | null
+  unmatchedNames?: Prisma.StringNullableListFilter<"RouteProposal">
+  createdAt?: Prisma.DateTimeFilter<"RouteProposal"> | Date | string
+  resolvedAt?: Prisma.DateTimeNullableFilter<"RouteProposal"> | Date | string | null
+}
+
+export type RouteProposalCreateWithoutItineraryInput = {
+  id?: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+  createdBy: Prisma.UserCreateNestedOneWithoutProposalsInput
+}
+
+export type RouteProposalUncheckedCreateWithoutItineraryInput = {
+  id?: string
+  createdById: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type RouteProposalCreateOrConnectWithoutItineraryInput = {
+  where: Prisma.RouteProposalWhereUniqueInput
+  create: Prisma.XOR<Prisma.RouteProposalCreateWithoutItineraryInput, Prisma.RouteProposalUncheckedCreateWithoutItineraryInput>
+}
+
+export type RouteProposalCreateManyItineraryInputEnvelope = {
+  data: Prisma.RouteProposalCreateManyItineraryInput | Prisma.RouteProposalCreateManyItineraryInput[]
+  skipDuplicates?: boolean
+}
+
+export type RouteProposalUpsertWithWhereUniqueWithoutItineraryInput = {
+  where: Prisma.RouteProposalWhereUniqueInput
+  update: Prisma.XOR<Prisma.RouteProposalUpdateWithoutItineraryInput, Prisma.RouteProposalUncheckedUpdateWithoutItineraryInput>
+  create: Prisma.XOR<Prisma.RouteProposalCreateWithoutItineraryInput, Prisma.RouteProposalUncheckedCreateWithoutItineraryInput>
+}
+
+export type RouteProposalUpdateWithWhereUniqueWithoutItineraryInput = {
+  where: Prisma.RouteProposalWhereUniqueInput
+  data: Prisma.XOR<Prisma.RouteProposalUpdateWithoutItineraryInput, Prisma.RouteProposalUncheckedUpdateWithoutItineraryInput>
+}
+
+export type RouteProposalUpdateManyWithWhereWithoutItineraryInput = {
+  where: Prisma.RouteProposalScalarWhereInput
+  data: Prisma.XOR<Prisma.RouteProposalUpdateManyMutationInput, Prisma.RouteProposalUncheckedUpdateManyWithoutItineraryInput>
+}
+
+export type RouteProposalCreateManyCreatedByInput = {
+  id?: string
+  itineraryId: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type RouteProposalUpdateWithoutCreatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  itinerary?: Prisma.ItineraryUpdateOneRequiredWithoutProposalsNestedInput
+}
+
+export type RouteProposalUncheckedUpdateWithoutCreatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itineraryId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type RouteProposalUncheckedUpdateManyWithoutCreatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  itineraryId?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type RouteProposalCreateManyItineraryInput = {
+  id?: string
+  createdById: string
+  status?: $Enums.ProposalStatus
+  changes: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: number | null
+  reasoning?: string | null
+  unmatchedNames?: Prisma.RouteProposalCreateunmatchedNamesInput | string[]
+  createdAt?: Date | string
+  resolvedAt?: Date | string | null
+}
+
+export type RouteProposalUpdateWithoutItineraryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdBy?: Prisma.UserUpdateOneRequiredWithoutProposalsNestedInput
+}
+
+export type RouteProposalUncheckedUpdateWithoutItineraryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type RouteProposalUncheckedUpdateManyWithoutItineraryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumProposalStatusFieldUpdateOperationsInput | $Enums.ProposalStatus
+  changes?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  timeSavedMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reasoning?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  unmatchedNames?: Prisma.RouteProposalUpdateunmatchedNamesInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+
+export type RouteProposalSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itineraryId?: boolean
+  createdById?: boolean
+  status?: boolean
+  changes?: boolean
+  timeSavedMinutes?: boolean
+  reasoning?: boolean
+  unmatchedNames?: boolean
+  createdAt?: boolean
+  resolvedAt?: boolean
+  itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["routeProposal"]>
+
+export type RouteProposalSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itineraryId?: boolean
+  createdById?: boolean
+  status?: boolean
+  changes?: boolean
+  timeSavedMinutes?: boolean
+  reasoning?: boolean
+  unmatchedNames?: boolean
+  createdAt?: boolean
+  resolvedAt?: boolean
+  itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["routeProposal"]>
+
+export type RouteProposalSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  itineraryId?: boolean
+  createdById?: boolean
+  status?: boolean
+  changes?: boolean
+  timeSavedMinutes?: boolean
+  reasoning?: boolean
+  unmatchedNames?: boolean
+  createdAt?: boolean
+  resolvedAt?: boolean
+  itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["routeProposal"]>
+
+export type RouteProposalSelectScalar = {
+  id?: boolean
+  itineraryId?: boolean
+  createdById?: boolean
+  status?: boolean
+  changes?: boolean
+  timeSavedMinutes?: boolean
+  reasoning?: boolean
+  unmatchedNames?: boolean
+  createdAt?: boolean
+  resolvedAt?: boolean
+}
+
+export type RouteProposalOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "itineraryId" | "createdById" | "status" | "changes" | "timeSavedMinutes" | "reasoning" | "unmatchedNames" | "createdAt" | "resolvedAt", ExtArgs["result"]["routeProposal"]>
+export type RouteProposalInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type RouteProposalIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type RouteProposalIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  itinerary?: boolean | Prisma.ItineraryDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $RouteProposalPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RouteProposal"
+  objects: {
+    itinerary: Prisma.$ItineraryPayload<ExtArgs>
+    createdBy: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    itineraryId: string
+    createdById: string
+    status: $Enums.ProposalStatus
+    changes: runtime.JsonValue
+    timeSavedMinutes: number | null
+    reasoning: string | null
+    unmatchedNames: string[]
+    createdAt: Date
+    resolvedAt: Date | null
+  }, ExtArgs["result"]["routeProposal"]>
+  composites: {}
+}
+
+export type RouteProposalGetPayload<S extends boolean | null | undefined | RouteProposalDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload, S>
+
+export type RouteProposalCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RouteProposalFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RouteProposalCountAggregateInputType | true
+  }
+
+export interface RouteProposalDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RouteProposal'], meta: { name: 'RouteProposal' } }
+  /**
+   * Find zero or one RouteProposal that matches the filter.
+   * @param {RouteProposalFindUniqueArgs} args - Arguments to find a RouteProposal
+   * @example
+   * // Get one RouteProposal
+   * const routeProposal = await prisma.routeProposal.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RouteProposalFindUniqueArgs>(args: Prisma.SelectSubset<T, RouteProposalFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RouteProposal that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RouteProposalFindUniqueOrThrowArgs} args - Arguments to find a RouteProposal
+   * @example
+   * // Get one RouteProposal
+   * const routeProposal = await prisma.routeProposal.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RouteProposalFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RouteProposalFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RouteProposal that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalFindFirstArgs} args - Arguments to find a RouteProposal
+   * @example
+   * // Get one RouteProposal
+   * const routeProposal = await prisma.routeProposal.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RouteProposalFindFirstArgs>(args?: Prisma.SelectSubset<T, RouteProposalFindFirstArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RouteProposal that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalFindFirstOrThrowArgs} args - Arguments to find a RouteProposal
+   * @example
+   * // Get one RouteProposal
+   * const routeProposal = await prisma.routeProposal.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RouteProposalFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RouteProposalFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RouteProposals that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RouteProposals
+   * const routeProposals = await prisma.routeProposal.findMany()
+   * 
+   * // Get first 10 RouteProposals
+   * const routeProposals = await prisma.routeProposal.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const routeProposalWithIdOnly = await prisma.routeProposal.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RouteProposalFindManyArgs>(args?: Prisma.SelectSubset<T, RouteProposalFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RouteProposal.
+   * @param {RouteProposalCreateArgs} args - Arguments to create a RouteProposal.
+   * @example
+   * // Create one RouteProposal
+   * const RouteProposal = await prisma.routeProposal.create({
+   *   data: {
+   *     // ... data to create a RouteProposal
+   *   }
+   * })
+   * 
+   */
+  create<T extends RouteProposalCreateArgs>(args: Prisma.SelectSubset<T, RouteProposalCreateArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RouteProposals.
+   * @param {RouteProposalCreateManyArgs} args - Arguments to create many RouteProposals.
+   * @example
+   * // Create many RouteProposals
+   * const routeProposal = await prisma.routeProposal.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RouteProposalCreateManyArgs>(args?: Prisma.SelectSubset<T, RouteProposalCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RouteProposals and returns the data saved in the database.
+   * @param {RouteProposalCreateManyAndReturnArgs} args - Arguments to create many RouteProposals.
+   * @example
+   * // Create many RouteProposals
+   * const routeProposal = await prisma.routeProposal.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RouteProposals and only return the `id`
+   * const routeProposalWithIdOnly = await prisma.routeProposal.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RouteProposalCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RouteProposalCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RouteProposal.
+   * @param {RouteProposalDeleteArgs} args - Arguments to delete one RouteProposal.
+   * @example
+   * // Delete one RouteProposal
+   * const RouteProposal = await prisma.routeProposal.delete({
+   *   where: {
+   *     // ... filter to delete one RouteProposal
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RouteProposalDeleteArgs>(args: Prisma.SelectSubset<T, RouteProposalDeleteArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RouteProposal.
+   * @param {RouteProposalUpdateArgs} args - Arguments to update one RouteProposal.
+   * @example
+   * // Update one RouteProposal
+   * const routeProposal = await prisma.routeProposal.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RouteProposalUpdateArgs>(args: Prisma.SelectSubset<T, RouteProposalUpdateArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RouteProposals.
+   * @param {RouteProposalDeleteManyArgs} args - Arguments to filter RouteProposals to delete.
+   * @example
+   * // Delete a few RouteProposals
+   * const { count } = await prisma.routeProposal.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RouteProposalDeleteManyArgs>(args?: Prisma.SelectSubset<T, RouteProposalDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RouteProposals.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RouteProposals
+   * const routeProposal = await prisma.routeProposal.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RouteProposalUpdateManyArgs>(args: Prisma.SelectSubset<T, RouteProposalUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RouteProposals and returns the data updated in the database.
+   * @param {RouteProposalUpdateManyAndReturnArgs} args - Arguments to update many RouteProposals.
+   * @example
+   * // Update many RouteProposals
+   * const routeProposal = await prisma.routeProposal.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RouteProposals and only return the `id`
+   * const routeProposalWithIdOnly = await prisma.routeProposal.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RouteProposalUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RouteProposalUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RouteProposal.
+   * @param {RouteProposalUpsertArgs} args - Arguments to update or create a RouteProposal.
+   * @example
+   * // Update or create a RouteProposal
+   * const routeProposal = await prisma.routeProposal.upsert({
+   *   create: {
+   *     // ... data to create a RouteProposal
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RouteProposal we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RouteProposalUpsertArgs>(args: Prisma.SelectSubset<T, RouteProposalUpsertArgs<ExtArgs>>): Prisma.Prisma__RouteProposalClient<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RouteProposals.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalCountArgs} args - Arguments to filter RouteProposals to count.
+   * @example
+   * // Count the number of RouteProposals
+   * const count = await prisma.routeProposal.count({
+   *   where: {
+   *     // ... the filter for the RouteProposals we want to count
+   *   }
+   * })
+  **/
+  count<T extends RouteProposalCountArgs>(
+    args?: Prisma.Subset<T, RouteProposalCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RouteProposalCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RouteProposal.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RouteProposalAggregateArgs>(args: Prisma.Subset<T, RouteProposalAggregateArgs>): Prisma.PrismaPromise<GetRouteProposalAggregateType<T>>
+
+  /**
+   * Group by RouteProposal.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RouteProposalGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RouteProposalGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RouteProposalGroupByArgs['orderBy'] }
+      : { orderBy?: RouteProposalGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RouteProposalGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRouteProposalGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RouteProposal model
+ */
+readonly fields: RouteProposalFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RouteProposal.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RouteProposalClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  itinerary<T extends Prisma.ItineraryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ItineraryDefaultArgs<ExtArgs>>): Prisma.Prisma__ItineraryClient<runtime.Types.Result.GetResult<Prisma.$ItineraryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  createdBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RouteProposal model
+ */
+export interface RouteProposalFieldRefs {
+  readonly id: Prisma.FieldRef<"RouteProposal", 'String'>
+  readonly itineraryId: Prisma.FieldRef<"RouteProposal", 'String'>
+  readonly createdById: Prisma.FieldRef<"RouteProposal", 'String'>
+  readonly status: Prisma.FieldRef<"RouteProposal", 'ProposalStatus'>
+  readonly changes: Prisma.FieldRef<"RouteProposal", 'Json'>
+  readonly timeSavedMinutes: Prisma.FieldRef<"RouteProposal", 'Int'>
+  readonly reasoning: Prisma.FieldRef<"RouteProposal", 'String'>
+  readonly unmatchedNames: Prisma.FieldRef<"RouteProposal", 'String[]'>
+  readonly createdAt: Prisma.FieldRef<"RouteProposal", 'DateTime'>
+  readonly resolvedAt: Prisma.FieldRef<"RouteProposal", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RouteProposal findUnique
+ */
+export type RouteProposalFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * Filter, which RouteProposal to fetch.
+   */
+  where: Prisma.RouteProposalWhereUniqueInput
+}
+
+/**
+ * RouteProposal findUniqueOrThrow
+ */
+export type RouteProposalFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * Filter, which RouteProposal to fetch.
+   */
+  where: Prisma.RouteProposalWhereUniqueInput
+}
+
+/**
+ * RouteProposal findFirst
+ */
+export type RouteProposalFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * Filter, which RouteProposal to fetch.
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RouteProposals to fetch.
+   */
+  orderBy?: Prisma.RouteProposalOrderByWithRelationInput | Prisma.RouteProposalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RouteProposals.
+   */
+  cursor?: Prisma.RouteProposalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RouteProposals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RouteProposals.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RouteProposals.
+   */
+  distinct?: Prisma.RouteProposalScalarFieldEnum | Prisma.RouteProposalScalarFieldEnum[]
+}
+
+/**
+ * RouteProposal findFirstOrThrow
+ */
+export type RouteProposalFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * Filter, which RouteProposal to fetch.
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RouteProposals to fetch.
+   */
+  orderBy?: Prisma.RouteProposalOrderByWithRelationInput | Prisma.RouteProposalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RouteProposals.
+   */
+  cursor?: Prisma.RouteProposalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RouteProposals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RouteProposals.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RouteProposals.
+   */
+  distinct?: Prisma.RouteProposalScalarFieldEnum | Prisma.RouteProposalScalarFieldEnum[]
+}
+
+/**
+ * RouteProposal findMany
+ */
+export type RouteProposalFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * Filter, which RouteProposals to fetch.
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RouteProposals to fetch.
+   */
+  orderBy?: Prisma.RouteProposalOrderByWithRelationInput | Prisma.RouteProposalOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RouteProposals.
+   */
+  cursor?: Prisma.RouteProposalWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RouteProposals from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RouteProposals.
+   */
+  skip?: number
+  distinct?: Prisma.RouteProposalScalarFieldEnum | Prisma.RouteProposalScalarFieldEnum[]
+}
+
+/**
+ * RouteProposal create
+ */
+export type RouteProposalCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RouteProposal.
+   */
+  data: Prisma.XOR<Prisma.RouteProposalCreateInput, Prisma.RouteProposalUncheckedCreateInput>
+}
+
+/**
+ * RouteProposal createMany
+ */
+export type RouteProposalCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RouteProposals.
+   */
+  data: Prisma.RouteProposalCreateManyInput | Prisma.RouteProposalCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RouteProposal createManyAndReturn
+ */
+export type RouteProposalCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * The data used to create many RouteProposals.
+   */
+  data: Prisma.RouteProposalCreateManyInput | Prisma.RouteProposalCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RouteProposal update
+ */
+export type RouteProposalUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RouteProposal.
+   */
+  data: Prisma.XOR<Prisma.RouteProposalUpdateInput, Prisma.RouteProposalUncheckedUpdateInput>
+  /**
+   * Choose, which RouteProposal to update.
+   */
+  where: Prisma.RouteProposalWhereUniqueInput
+}
+
+/**
+ * RouteProposal updateMany
+ */
+export type RouteProposalUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RouteProposals.
+   */
+  data: Prisma.XOR<Prisma.RouteProposalUpdateManyMutationInput, Prisma.RouteProposalUncheckedUpdateManyInput>
+  /**
+   * Filter which RouteProposals to update
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * Limit how many RouteProposals to update.
+   */
+  limit?: number
+}
+
+/**
+ * RouteProposal updateManyAndReturn
+ */
+export type RouteProposalUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * The data used to update RouteProposals.
+   */
+  data: Prisma.XOR<Prisma.RouteProposalUpdateManyMutationInput, Prisma.RouteProposalUncheckedUpdateManyInput>
+  /**
+   * Filter which RouteProposals to update
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * Limit how many RouteProposals to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RouteProposal upsert
+ */
+export type RouteProposalUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RouteProposal to update in case it exists.
+   */
+  where: Prisma.RouteProposalWhereUniqueInput
+  /**
+   * In case the RouteProposal found by the `where` argument doesn't exist, create a new RouteProposal with this data.
+   */
+  create: Prisma.XOR<Prisma.RouteProposalCreateInput, Prisma.RouteProposalUncheckedCreateInput>
+  /**
+   * In case the RouteProposal was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RouteProposalUpdateInput, Prisma.RouteProposalUncheckedUpdateInput>
+}
+
+/**
+ * RouteProposal delete
+ */
+export type RouteProposalDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  /**
+   * Filter which RouteProposal to delete.
+   */
+  where: Prisma.RouteProposalWhereUniqueInput
+}
+
+/**
+ * RouteProposal deleteMany
+ */
+export type RouteProposalDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RouteProposals to delete
+   */
+  where?: Prisma.RouteProposalWhereInput
+  /**
+   * Limit how many RouteProposals to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RouteProposal without action
+ */
+export type RouteProposalDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+}
@@ -0,0 +1,1408 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SecurityEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model SecurityEvent
+ * 
+ */
+export type SecurityEventModel = runtime.Types.Result.DefaultSelection<Prisma.$SecurityEventPayload>
+
+export type AggregateSecurityEvent = {
+  _count: SecurityEventCountAggregateOutputType | null
+  _min: SecurityEventMinAggregateOutputType | null
+  _max: SecurityEventMaxAggregateOutputType | null
+}
+
+export type SecurityEventMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  type: $Enums.SecurityEventType | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: Date | null
+}
+
+export type SecurityEventMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  type: $Enums.SecurityEventType | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: Date | null
+}
+
+export type SecurityEventCountAggregateOutputType = {
+  id: number
+  userId: number
+  type: number
+  ipAddress: number
+  userAgent: number
+  metadata: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SecurityEventMinAggregateInputType = {
+  id?: true
+  userId?: true
+  type?: true
+  ipAddress?: true
+  userAgent?: true
+  createdAt?: true
+}
+
+export type SecurityEventMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  type?: true
+  ipAddress?: true
+  userAgent?: true
+  createdAt?: true
+}
+
+export type SecurityEventCountAggregateInputType = {
+  id?: true
+  userId?: true
+  type?: true
+  ipAddress?: true
+  userAgent?: true
+  metadata?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SecurityEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SecurityEvent to aggregate.
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecurityEvents to fetch.
+   */
+  orderBy?: Prisma.SecurityEventOrderByWithRelationInput | Prisma.SecurityEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SecurityEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecurityEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecurityEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SecurityEvents
+  **/
+  _count?: true | SecurityEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SecurityEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SecurityEventMaxAggregateInputType
+}
+
+export type GetSecurityEventAggregateType<T extends SecurityEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateSecurityEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSecurityEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateSecurityEvent[P]>
+}
+
+
+
+
+export type SecurityEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SecurityEventWhereInput
+  orderBy?: Prisma.SecurityEventOrderByWithAggregationInput | Prisma.SecurityEventOrderByWithAggregationInput[]
+  by: Prisma.SecurityEventScalarFieldEnum[] | Prisma.SecurityEventScalarFieldEnum
+  having?: Prisma.SecurityEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SecurityEventCountAggregateInputType | true
+  _min?: SecurityEventMinAggregateInputType
+  _max?: SecurityEventMaxAggregateInputType
+}
+
+export type SecurityEventGroupByOutputType = {
+  id: string
+  userId: string
+  type: $Enums.SecurityEventType
+  ipAddress: string | null
+  userAgent: string | null
+  metadata: runtime.JsonValue | null
+  createdAt: Date
+  _count: SecurityEventCountAggregateOutputType | null
+  _min: SecurityEventMinAggregateOutputType | null
+  _max: SecurityEventMaxAggregateOutputType | null
+}
+
+type GetSecurityEventGroupByPayload<T extends SecurityEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SecurityEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SecurityEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SecurityEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SecurityEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SecurityEventWhereInput = {
+  AND?: Prisma.SecurityEventWhereInput | Prisma.SecurityEventWhereInput[]
+  OR?: Prisma.SecurityEventWhereInput[]
+  NOT?: Prisma.SecurityEventWhereInput | Prisma.SecurityEventWhereInput[]
+  id?: Prisma.StringFilter<"SecurityEvent"> | string
+  userId?: Prisma.StringFilter<"SecurityEvent"> | string
+  type?: Prisma.EnumSecurityEventTypeFilter<"SecurityEvent"> | $Enums.SecurityEventType
+  ipAddress?: Prisma.StringNullableFilter<"SecurityEvent"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"SecurityEvent"> | string | null
+  metadata?: Prisma.JsonNullableFilter<"SecurityEvent">
+  createdAt?: Prisma.DateTimeFilter<"SecurityEvent"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type SecurityEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type SecurityEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SecurityEventWhereInput | Prisma.SecurityEventWhereInput[]
+  OR?: Prisma.SecurityEventWhereInput[]
+  NOT?: Prisma.SecurityEventWhereInput | Prisma.SecurityEventWhereInput[]
+  userId?: Prisma.StringFilter<"SecurityEvent"> | string
+  type?: Prisma.EnumSecurityEventTypeFilter<"SecurityEvent"> | $Enums.SecurityEventType
+  ipAddress?: Prisma.StringNullableFilter<"SecurityEvent"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"SecurityEvent"> | string | null
+  metadata?: Prisma.JsonNullableFilter<"SecurityEvent">
+  createdAt?: Prisma.DateTimeFilter<"SecurityEvent"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id">
+
+export type SecurityEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SecurityEventCountOrderByAggregateInput
+  _max?: Prisma.SecurityEventMaxOrderByAggregateInput
+  _min?: Prisma.SecurityEventMinOrderByAggregateInput
+}
+
+export type SecurityEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SecurityEventScalarWhereWithAggregatesInput | Prisma.SecurityEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SecurityEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SecurityEventScalarWhereWithAggregatesInput | Prisma.SecurityEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"SecurityEvent"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"SecurityEvent"> | string
+  type?: Prisma.EnumSecurityEventTypeWithAggregatesFilter<"SecurityEvent"> | $Enums.SecurityEventType
+  ipAddress?: Prisma.StringNullableWithAggregatesFilter<"SecurityEvent"> | string | null
+  userAgent?: Prisma.StringNullableWithAggregatesFilter<"SecurityEvent"> | string | null
+  metadata?: Prisma.JsonNullableWithAggregatesFilter<"SecurityEvent">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SecurityEvent"> | Date | string
+}
+
+export type SecurityEventCreateInput = {
+  id?: string
+  type: $Enums.SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutSecurityEventsInput
+}
+
+export type SecurityEventUncheckedCreateInput = {
+  id?: string
+  userId: string
+  type: $Enums.SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type SecurityEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutSecurityEventsNestedInput
+}
+
+export type SecurityEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecurityEventCreateManyInput = {
+  id?: string
+  userId: string
+  type: $Enums.SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type SecurityEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecurityEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecurityEventListRelationFilter = {
+  every?: Prisma.SecurityEventWhereInput
+  some?: Prisma.SecurityEventWhereInput
+  none?: Prisma.SecurityEventWhereInput
+}
+
+export type SecurityEventOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SecurityEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  metadata?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SecurityEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SecurityEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SecurityEventCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SecurityEventCreateWithoutUserInput, Prisma.SecurityEventUncheckedCreateWithoutUserInput> | Prisma.SecurityEventCreateWithoutUserInput[] | Prisma.SecurityEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SecurityEventCreateOrConnectWithoutUserInput | Prisma.SecurityEventCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.SecurityEventCreateManyUserInputEnvelope
+  connect?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+}
+
+export type SecurityEventUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.SecurityEventCreateWithoutUserInput, Prisma.SecurityEventUncheckedCreateWithoutUserInput> | Prisma.SecurityEventCreateWithoutUserInput[] | Prisma.SecurityEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SecurityEventCreateOrConnectWithoutUserInput | Prisma.SecurityEventCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.SecurityEventCreateManyUserInputEnvelope
+  connect?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+}
+
+export type SecurityEventUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SecurityEventCreateWithoutUserInput, Prisma.SecurityEventUncheckedCreateWithoutUserInput> | Prisma.SecurityEventCreateWithoutUserInput[] | Prisma.SecurityEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SecurityEventCreateOrConnectWithoutUserInput | Prisma.SecurityEventCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.SecurityEventUpsertWithWhereUniqueWithoutUserInput | Prisma.SecurityEventUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.SecurityEventCreateManyUserInputEnvelope
+  set?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  disconnect?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  delete?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  connect?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  update?: Prisma.SecurityEventUpdateWithWhereUniqueWithoutUserInput | Prisma.SecurityEventUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.SecurityEventUpdateManyWithWhereWithoutUserInput | Prisma.SecurityEventUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.SecurityEventScalarWhereInput | Prisma.SecurityEventScalarWhereInput[]
+}
+
+export type SecurityEventUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SecurityEventCreateWithoutUserInput, Prisma.SecurityEventUncheckedCreateWithoutUserInput> | Prisma.SecurityEventCreateWithoutUserInput[] | Prisma.SecurityEventUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.SecurityEventCreateOrConnectWithoutUserInput | Prisma.SecurityEventCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.SecurityEventUpsertWithWhereUniqueWithoutUserInput | Prisma.SecurityEventUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.SecurityEventCreateManyUserInputEnvelope
+  set?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  disconnect?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  delete?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  connect?: Prisma.SecurityEventWhereUniqueInput | Prisma.SecurityEventWhereUniqueInput[]
+  update?: Prisma.SecurityEventUpdateWithWhereUniqueWithoutUserInput | Prisma.SecurityEventUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.SecurityEventUpdateManyWithWhereWithoutUserInput | Prisma.SecurityEventUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.SecurityEventScalarWhereInput | Prisma.SecurityEventScalarWhereInput[]
+}
+
+export type EnumSecurityEventTypeFieldUpdateOperationsInput = {
+  set?: $Enums.SecurityEventType
+}
+
+export type SecurityEventCreateWithoutUserInput = {
+  id?: string
+  type: $Enums.SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type SecurityEventUncheckedCreateWithoutUserInput = {
+  id?: string
+  type: $Enums.SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type SecurityEventCreateOrConnectWithoutUserInput = {
+  where: Prisma.SecurityEventWhereUniqueInput
+  create: Prisma.XOR<Prisma.SecurityEventCreateWithoutUserInput, Prisma.SecurityEventUncheckedCreateWithoutUserInput>
+}
+
+export type SecurityEventCreateManyUserInputEnvelope = {
+  data: Prisma.SecurityEventCreateManyUserInput | Prisma.SecurityEventCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type SecurityEventUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.SecurityEventWhereUniqueInput
+  update: Prisma.XOR<Prisma.SecurityEventUpdateWithoutUserInput, Prisma.SecurityEventUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.SecurityEventCreateWithoutUserInput, Prisma.SecurityEventUncheckedCreateWithoutUserInput>
+}
+
+export type SecurityEventUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.SecurityEventWhereUniqueInput
+  data: Prisma.XOR<Prisma.SecurityEventUpdateWithoutUserInput, Prisma.SecurityEventUncheckedUpdateWithoutUserInput>
+}
+
+export type SecurityEventUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.SecurityEventScalarWhereInput
+  data: Prisma.XOR<Prisma.SecurityEventUpdateManyMutationInput, Prisma.SecurityEventUncheckedUpdateManyWithoutUserInput>
+}
+
+export type SecurityEventScalarWhereInput = {
+  AND?: Prisma.SecurityEventScalarWhereInput | Prisma.SecurityEventScalarWhereInput[]
+  OR?: Prisma.SecurityEventScalarWhereInput[]
+  NOT?: Prisma.SecurityEventScalarWhereInput | Prisma.SecurityEventScalarWhereInput[]
+  id?: Prisma.StringFilter<"SecurityEvent"> | string
+  userId?: Prisma.StringFilter<"SecurityEvent"> | string
+  type?: Prisma.EnumSecurityEventTypeFilter<"SecurityEvent"> | $Enums.SecurityEventType
+  ipAddress?: Prisma.StringNullableFilter<"SecurityEvent"> | string | null
+  userAgent?: Prisma.StringNullableFilter<"SecurityEvent"> | string | null
+  metadata?: Prisma.JsonNullableFilter<"SecurityEvent">
+  createdAt?: Prisma.DateTimeFilter<"SecurityEvent"> | Date | string
+}
+
+export type SecurityEventCreateManyUserInput = {
+  id?: string
+  type: $Enums.SecurityEventType
+  ipAddress?: string | null
+  userAgent?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type SecurityEventUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecurityEventUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SecurityEventUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumSecurityEventTypeFieldUpdateOperationsInput | $Enums.SecurityEventType
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SecurityEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  type?: boolean
+  ipAddress?: boolean
+  userAgent?: boolean
+  metadata?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["securityEvent"]>
+
+export type SecurityEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  type?: boolean
+  ipAddress?: boolean
+  userAgent?: boolean
+  metadata?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["securityEvent"]>
+
+export type SecurityEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  type?: boolean
+  ipAddress?: boolean
+  userAgent?: boolean
+  metadata?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["securityEvent"]>
+
+export type SecurityEventSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  type?: boolean
+  ipAddress?: boolean
+  userAgent?: boolean
+  metadata?: boolean
+  createdAt?: boolean
+}
+
+export type SecurityEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "type" | "ipAddress" | "userAgent" | "metadata" | "createdAt", ExtArgs["result"]["securityEvent"]>
+export type SecurityEventInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SecurityEventIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SecurityEventIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $SecurityEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SecurityEvent"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    type: $Enums.SecurityEventType
+    ipAddress: string | null
+    userAgent: string | null
+    metadata: runtime.JsonValue | null
+    createdAt: Date
+  }, ExtArgs["result"]["securityEvent"]>
+  composites: {}
+}
+
+export type SecurityEventGetPayload<S extends boolean | null | undefined | SecurityEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload, S>
+
+export type SecurityEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SecurityEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SecurityEventCountAggregateInputType | true
+  }
+
+export interface SecurityEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SecurityEvent'], meta: { name: 'SecurityEvent' } }
+  /**
+   * Find zero or one SecurityEvent that matches the filter.
+   * @param {SecurityEventFindUniqueArgs} args - Arguments to find a SecurityEvent
+   * @example
+   * // Get one SecurityEvent
+   * const securityEvent = await prisma.securityEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SecurityEventFindUniqueArgs>(args: Prisma.SelectSubset<T, SecurityEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SecurityEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SecurityEventFindUniqueOrThrowArgs} args - Arguments to find a SecurityEvent
+   * @example
+   * // Get one SecurityEvent
+   * const securityEvent = await prisma.securityEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SecurityEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SecurityEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SecurityEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventFindFirstArgs} args - Arguments to find a SecurityEvent
+   * @example
+   * // Get one SecurityEvent
+   * const securityEvent = await prisma.securityEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SecurityEventFindFirstArgs>(args?: Prisma.SelectSubset<T, SecurityEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SecurityEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventFindFirstOrThrowArgs} args - Arguments to find a SecurityEvent
+   * @example
+   * // Get one SecurityEvent
+   * const securityEvent = await prisma.securityEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SecurityEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SecurityEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SecurityEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SecurityEvents
+   * const securityEvents = await prisma.securityEvent.findMany()
+   * 
+   * // Get first 10 SecurityEvents
+   * const securityEvents = await prisma.securityEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const securityEventWithIdOnly = await prisma.securityEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SecurityEventFindManyArgs>(args?: Prisma.SelectSubset<T, SecurityEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SecurityEvent.
+   * @param {SecurityEventCreateArgs} args - Arguments to create a SecurityEvent.
+   * @example
+   * // Create one SecurityEvent
+   * const SecurityEvent = await prisma.securityEvent.create({
+   *   data: {
+   *     // ... data to create a SecurityEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends SecurityEventCreateArgs>(args: Prisma.SelectSubset<T, SecurityEventCreateArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SecurityEvents.
+   * @param {SecurityEventCreateManyArgs} args - Arguments to create many SecurityEvents.
+   * @example
+   * // Create many SecurityEvents
+   * const securityEvent = await prisma.securityEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SecurityEventCreateManyArgs>(args?: Prisma.SelectSubset<T, SecurityEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SecurityEvents and returns the data saved in the database.
+   * @param {SecurityEventCreateManyAndReturnArgs} args - Arguments to create many SecurityEvents.
+   * @example
+   * // Create many SecurityEvents
+   * const securityEvent = await prisma.securityEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SecurityEvents and only return the `id`
+   * const securityEventWithIdOnly = await prisma.securityEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SecurityEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SecurityEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SecurityEvent.
+   * @param {SecurityEventDeleteArgs} args - Arguments to delete one SecurityEvent.
+   * @example
+   * // Delete one SecurityEvent
+   * const SecurityEvent = await prisma.securityEvent.delete({
+   *   where: {
+   *     // ... filter to delete one SecurityEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SecurityEventDeleteArgs>(args: Prisma.SelectSubset<T, SecurityEventDeleteArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SecurityEvent.
+   * @param {SecurityEventUpdateArgs} args - Arguments to update one SecurityEvent.
+   * @example
+   * // Update one SecurityEvent
+   * const securityEvent = await prisma.securityEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SecurityEventUpdateArgs>(args: Prisma.SelectSubset<T, SecurityEventUpdateArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SecurityEvents.
+   * @param {SecurityEventDeleteManyArgs} args - Arguments to filter SecurityEvents to delete.
+   * @example
+   * // Delete a few SecurityEvents
+   * const { count } = await prisma.securityEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SecurityEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, SecurityEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SecurityEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SecurityEvents
+   * const securityEvent = await prisma.securityEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SecurityEventUpdateManyArgs>(args: Prisma.SelectSubset<T, SecurityEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SecurityEvents and returns the data updated in the database.
+   * @param {SecurityEventUpdateManyAndReturnArgs} args - Arguments to update many SecurityEvents.
+   * @example
+   * // Update many SecurityEvents
+   * const securityEvent = await prisma.securityEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SecurityEvents and only return the `id`
+   * const securityEventWithIdOnly = await prisma.securityEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SecurityEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SecurityEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SecurityEvent.
+   * @param {SecurityEventUpsertArgs} args - Arguments to update or create a SecurityEvent.
+   * @example
+   * // Update or create a SecurityEvent
+   * const securityEvent = await prisma.securityEvent.upsert({
+   *   create: {
+   *     // ... data to create a SecurityEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SecurityEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SecurityEventUpsertArgs>(args: Prisma.SelectSubset<T, SecurityEventUpsertArgs<ExtArgs>>): Prisma.Prisma__SecurityEventClient<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SecurityEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventCountArgs} args - Arguments to filter SecurityEvents to count.
+   * @example
+   * // Count the number of SecurityEvents
+   * const count = await prisma.securityEvent.count({
+   *   where: {
+   *     // ... the filter for the SecurityEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends SecurityEventCountArgs>(
+    args?: Prisma.Subset<T, SecurityEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SecurityEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SecurityEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SecurityEventAggregateArgs>(args: Prisma.Subset<T, SecurityEventAggregateArgs>): Prisma.PrismaPromise<GetSecurityEventAggregateType<T>>
+
+  /**
+   * Group by SecurityEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SecurityEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SecurityEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SecurityEventGroupByArgs['orderBy'] }
+      : { orderBy?: SecurityEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SecurityEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSecurityEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SecurityEvent model
+ */
+readonly fields: SecurityEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SecurityEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SecurityEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SecurityEvent model
+ */
+export interface SecurityEventFieldRefs {
+  readonly id: Prisma.FieldRef<"SecurityEvent", 'String'>
+  readonly userId: Prisma.FieldRef<"SecurityEvent", 'String'>
+  readonly type: Prisma.FieldRef<"SecurityEvent", 'SecurityEventType'>
+  readonly ipAddress: Prisma.FieldRef<"SecurityEvent", 'String'>
+  readonly userAgent: Prisma.FieldRef<"SecurityEvent", 'String'>
+  readonly metadata: Prisma.FieldRef<"SecurityEvent", 'Json'>
+  readonly createdAt: Prisma.FieldRef<"SecurityEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SecurityEvent findUnique
+ */
+export type SecurityEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * Filter, which SecurityEvent to fetch.
+   */
+  where: Prisma.SecurityEventWhereUniqueInput
+}
+
+/**
+ * SecurityEvent findUniqueOrThrow
+ */
+export type SecurityEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * Filter, which SecurityEvent to fetch.
+   */
+  where: Prisma.SecurityEventWhereUniqueInput
+}
+
+/**
+ * SecurityEvent findFirst
+ */
+export type SecurityEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * Filter, which SecurityEvent to fetch.
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecurityEvents to fetch.
+   */
+  orderBy?: Prisma.SecurityEventOrderByWithRelationInput | Prisma.SecurityEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SecurityEvents.
+   */
+  cursor?: Prisma.SecurityEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecurityEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecurityEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SecurityEvents.
+   */
+  distinct?: Prisma.SecurityEventScalarFieldEnum | Prisma.SecurityEventScalarFieldEnum[]
+}
+
+/**
+ * SecurityEvent findFirstOrThrow
+ */
+export type SecurityEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * Filter, which SecurityEvent to fetch.
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecurityEvents to fetch.
+   */
+  orderBy?: Prisma.SecurityEventOrderByWithRelationInput | Prisma.SecurityEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SecurityEvents.
+   */
+  cursor?: Prisma.SecurityEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecurityEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecurityEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SecurityEvents.
+   */
+  distinct?: Prisma.SecurityEventScalarFieldEnum | Prisma.SecurityEventScalarFieldEnum[]
+}
+
+/**
+ * SecurityEvent findMany
+ */
+export type SecurityEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * Filter, which SecurityEvents to fetch.
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SecurityEvents to fetch.
+   */
+  orderBy?: Prisma.SecurityEventOrderByWithRelationInput | Prisma.SecurityEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SecurityEvents.
+   */
+  cursor?: Prisma.SecurityEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SecurityEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SecurityEvents.
+   */
+  skip?: number
+  distinct?: Prisma.SecurityEventScalarFieldEnum | Prisma.SecurityEventScalarFieldEnum[]
+}
+
+/**
+ * SecurityEvent create
+ */
+export type SecurityEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SecurityEvent.
+   */
+  data: Prisma.XOR<Prisma.SecurityEventCreateInput, Prisma.SecurityEventUncheckedCreateInput>
+}
+
+/**
+ * SecurityEvent createMany
+ */
+export type SecurityEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SecurityEvents.
+   */
+  data: Prisma.SecurityEventCreateManyInput | Prisma.SecurityEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SecurityEvent createManyAndReturn
+ */
+export type SecurityEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many SecurityEvents.
+   */
+  data: Prisma.SecurityEventCreateManyInput | Prisma.SecurityEventCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SecurityEvent update
+ */
+export type SecurityEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SecurityEvent.
+   */
+  data: Prisma.XOR<Prisma.SecurityEventUpdateInput, Prisma.SecurityEventUncheckedUpdateInput>
+  /**
+   * Choose, which SecurityEvent to update.
+   */
+  where: Prisma.SecurityEventWhereUniqueInput
+}
+
+/**
+ * SecurityEvent updateMany
+ */
+export type SecurityEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SecurityEvents.
+   */
+  data: Prisma.XOR<Prisma.SecurityEventUpdateManyMutationInput, Prisma.SecurityEventUncheckedUpdateManyInput>
+  /**
+   * Filter which SecurityEvents to update
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * Limit how many SecurityEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * SecurityEvent updateManyAndReturn
+ */
+export type SecurityEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * The data used to update SecurityEvents.
+   */
+  data: Prisma.XOR<Prisma.SecurityEventUpdateManyMutationInput, Prisma.SecurityEventUncheckedUpdateManyInput>
+  /**
+   * Filter which SecurityEvents to update
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * Limit how many SecurityEvents to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SecurityEvent upsert
+ */
+export type SecurityEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SecurityEvent to update in case it exists.
+   */
+  where: Prisma.SecurityEventWhereUniqueInput
+  /**
+   * In case the SecurityEvent found by the `where` argument doesn't exist, create a new SecurityEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.SecurityEventCreateInput, Prisma.SecurityEventUncheckedCreateInput>
+  /**
+   * In case the SecurityEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SecurityEventUpdateInput, Prisma.SecurityEventUncheckedUpdateInput>
+}
+
+/**
+ * SecurityEvent delete
+ */
+export type SecurityEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  /**
+   * Filter which SecurityEvent to delete.
+   */
+  where: Prisma.SecurityEventWhereUniqueInput
+}
+
+/**
+ * SecurityEvent deleteMany
+ */
+export type SecurityEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SecurityEvents to delete
+   */
+  where?: Prisma.SecurityEventWhereInput
+  /**
+   * Limit how many SecurityEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SecurityEvent without action
+ */
+export type SecurityEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+}
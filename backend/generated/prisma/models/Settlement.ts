@@ -0,0 +1,1812 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Settlement` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Settlement
+ * 
+ */
+export type SettlementModel = runtime.Types.Result.DefaultSelection<Prisma.$SettlementPayload>
+
+export type AggregateSettlement = {
+  _count: SettlementCountAggregateOutputType | null
+  _avg: SettlementAvgAggregateOutputType | null
+  _sum: SettlementSumAggregateOutputType | null
+  _min: SettlementMinAggregateOutputType | null
+  _max: SettlementMaxAggregateOutputType | null
+}
+
+export type SettlementAvgAggregateOutputType = {
+  amount: runtime.Decimal | null
+}
+
+export type SettlementSumAggregateOutputType = {
+  amount: runtime.Decimal | null
+}
+
+export type SettlementMinAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  fromUserId: string | null
+  toUserId: string | null
+  amount: runtime.Decimal | null
+  currency: string | null
+  date: Date | null
+  notes: string | null
+  createdAt: Date | null
+}
+
+export type SettlementMaxAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  fromUserId: string | null
+  toUserId: string | null
+  amount: runtime.Decimal | null
+  currency: string | null
+  date: Date | null
+  notes: string | null
+  createdAt: Date | null
+}
+
+export type SettlementCountAggregateOutputType = {
+  id: number
+  tripId: number
+  fromUserId: number
+  toUserId: number
+  amount: number
+  currency: number
+  date: number
+  notes: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SettlementAvgAggregateInputType = {
+  amount?: true
+}
+
+export type SettlementSumAggregateInputType = {
+  amount?: true
+}
+
+export type SettlementMinAggregateInputType = {
+  id?: true
+  tripId?: true
+  fromUserId?: true
+  toUserId?: true
+  amount?: true
+  currency?: true
+  date?: true
+  notes?: true
+  createdAt?: true
+}
+
+export type SettlementMaxAggregateInputType = {
+  id?: true
+  tripId?: true
+  fromUserId?: true
+  toUserId?: true
+  amount?: true
+  currency?: true
+  date?: true
+  notes?: true
+  createdAt?: true
+}
+
+export type SettlementCountAggregateInputType = {
+  id?: true
+  tripId?: true
+  fromUserId?: true
+  toUserId?: true
+  amount?: true
+  currency?: true
+  date?: true
+  notes?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SettlementAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Settlement to aggregate.
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Settlements to fetch.
+   */
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SettlementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Settlements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Settlements.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Settlements
+  **/
+  _count?: true | SettlementCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SettlementAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SettlementSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SettlementMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SettlementMaxAggregateInputType
+}
+
+export type GetSettlementAggregateType<T extends SettlementAggregateArgs> = {
+      [P in keyof T & keyof AggregateSettlement]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSettlement[P]>
+    : Prisma.GetScalarType<T[P], AggregateSettlement[P]>
+}
+
+
+
+
+export type SettlementGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SettlementWhereInput
+  orderBy?: Prisma.SettlementOrderByWithAggregationInput | Prisma.SettlementOrderByWithAggregationInput[]
+  by: Prisma.SettlementScalarFieldEnum[] | Prisma.SettlementScalarFieldEnum
+  having?: Prisma.SettlementScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SettlementCountAggregateInputType | true
+  _avg?: SettlementAvgAggregateInputType
+  _sum?: SettlementSumAggregateInputType
+  _min?: SettlementMinAggregateInputType
+  _max?: SettlementMaxAggregateInputType
+}
+
+export type SettlementGroupByOutputType = {
+  id: string
+  tripId: string
+  fromUserId: string
+  toUserId: string
+  amount: runtime.Decimal
+  currency: string
+  date: Date
+  notes: string | null
+  createdAt: Date
+  _count: SettlementCountAggregateOutputType | null
+  _avg: SettlementAvgAggregateOutputType | null
+  _sum: SettlementSumAggregateOutputType | null
+  _min: SettlementMinAggregateOutputType | null
+  _max: SettlementMaxAggregateOutputType | null
+}
+
+type GetSettlementGroupByPayload<T extends SettlementGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SettlementGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SettlementGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SettlementGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SettlementGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SettlementWhereInput = {
+  AND?: Prisma.SettlementWhereInput | Prisma.SettlementWhereInput[]
+  OR?: Prisma.SettlementWhereInput[]
+  NOT?: Prisma.SettlementWhereInput | Prisma.SettlementWhereInput[]
+  id?: Prisma.StringFilter<"Settlement"> | string
+  tripId?: Prisma.StringFilter<"Settlement"> | string
+  fromUserId?: Prisma.StringFilter<"Settlement"> | string
+  toUserId?: Prisma.StringFilter<"Settlement"> | string
+  amount?: Prisma.DecimalFilter<"Settlement"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Settlement"> | string
+  date?: Prisma.DateTimeFilter<"Settlement"> | Date | string
+  notes?: Prisma.StringNullableFilter<"Settlement"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Settlement"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  fromUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  toUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type SettlementOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  fromUserId?: Prisma.SortOrder
+  toUserId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  trip?: Prisma.TripOrderByWithRelationInput
+  fromUser?: Prisma.UserOrderByWithRelationInput
+  toUser?: Prisma.UserOrderByWithRelationInput
+}
+
+export type SettlementWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.SettlementWhereInput | Prisma.SettlementWhereInput[]
+  OR?: Prisma.SettlementWhereInput[]
+  NOT?: Prisma.SettlementWhereInput | Prisma.SettlementWhereInput[]
+  tripId?: Prisma.StringFilter<"Settlement"> | string
+  fromUserId?: Prisma.StringFilter<"Settlement"> | string
+  toUserId?: Prisma.StringFilter<"Settlement"> | string
+  amount?: Prisma.DecimalFilter<"Settlement"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Settlement"> | string
+  date?: Prisma.DateTimeFilter<"Settlement"> | Date | string
+  notes?: Prisma.StringNullableFilter<"Settlement"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Settlement"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  fromUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  toUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id">
+
+export type SettlementOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  fromUserId?: Prisma.SortOrder
+  toUserId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SettlementCountOrderByAggregateInput
+  _avg?: Prisma.SettlementAvgOrderByAggregateInput
+  _max?: Prisma.SettlementMaxOrderByAggregateInput
+  _min?: Prisma.SettlementMinOrderByAggregateInput
+  _sum?: Prisma.SettlementSumOrderByAggregateInput
+}
+
+export type SettlementScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SettlementScalarWhereWithAggregatesInput | Prisma.SettlementScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SettlementScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SettlementScalarWhereWithAggregatesInput | Prisma.SettlementScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Settlement"> | string
+  tripId?: Prisma.StringWithAggregatesFilter<"Settlement"> | string
+  fromUserId?: Prisma.StringWithAggregatesFilter<"Settlement"> | string
+  toUserId?: Prisma.StringWithAggregatesFilter<"Settlement"> | string
+  amount?: Prisma.DecimalWithAggregatesFilter<"Settlement"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringWithAggregatesFilter<"Settlement"> | string
+  date?: Prisma.DateTimeWithAggregatesFilter<"Settlement"> | Date | string
+  notes?: Prisma.StringNullableWithAggregatesFilter<"Settlement"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Settlement"> | Date | string
+}
+
+export type SettlementCreateInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutSettlementsInput
+  fromUser: Prisma.UserCreateNestedOneWithoutSettlementsPaidInput
+  toUser: Prisma.UserCreateNestedOneWithoutSettlementsReceivedInput
+}
+
+export type SettlementUncheckedCreateInput = {
+  id?: string
+  tripId: string
+  fromUserId: string
+  toUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutSettlementsNestedInput
+  fromUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsPaidNestedInput
+  toUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput
+}
+
+export type SettlementUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementCreateManyInput = {
+  id?: string
+  tripId: string
+  fromUserId: string
+  toUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementListRelationFilter = {
+  every?: Prisma.SettlementWhereInput
+  some?: Prisma.SettlementWhereInput
+  none?: Prisma.SettlementWhereInput
+}
+
+export type SettlementOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SettlementCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  fromUserId?: Prisma.SortOrder
+  toUserId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SettlementAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type SettlementMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  fromUserId?: Prisma.SortOrder
+  toUserId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SettlementMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  fromUserId?: Prisma.SortOrder
+  toUserId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SettlementSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type SettlementCreateNestedManyWithoutFromUserInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutFromUserInput, Prisma.SettlementUncheckedCreateWithoutFromUserInput> | Prisma.SettlementCreateWithoutFromUserInput[] | Prisma.SettlementUncheckedCreateWithoutFromUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutFromUserInput | Prisma.SettlementCreateOrConnectWithoutFromUserInput[]
+  createMany?: Prisma.SettlementCreateManyFromUserInputEnvelope
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+}
+
+export type SettlementCreateNestedManyWithoutToUserInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutToUserInput, Prisma.SettlementUncheckedCreateWithoutToUserInput> | Prisma.SettlementCreateWithoutToUserInput[] | Prisma.SettlementUncheckedCreateWithoutToUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutToUserInput | Prisma.SettlementCreateOrConnectWithoutToUserInput[]
+  createMany?: Prisma.SettlementCreateManyToUserInputEnvelope
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+}
+
+export type SettlementUncheckedCreateNestedManyWithoutFromUserInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutFromUserInput, Prisma.SettlementUncheckedCreateWithoutFromUserInput> | Prisma.SettlementCreateWithoutFromUserInput[] | Prisma.SettlementUncheckedCreateWithoutFromUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutFromUserInput | Prisma.SettlementCreateOrConnectWithoutFromUserInput[]
+  createMany?: Prisma.SettlementCreateManyFromUserInputEnvelope
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+}
+
+export type SettlementUncheckedCreateNestedManyWithoutToUserInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutToUserInput, Prisma.SettlementUncheckedCreateWithoutToUserInput> | Prisma.SettlementCreateWithoutToUserInput[] | Prisma.SettlementUncheckedCreateWithoutToUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutToUserInput | Prisma.SettlementCreateOrConnectWithoutToUserInput[]
+  createMany?: Prisma.SettlementCreateManyToUserInputEnvelope
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+}
+
+export type SettlementUpdateManyWithoutFromUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutFromUserInput, Prisma.SettlementUncheckedCreateWithoutFromUserInput> | Prisma.SettlementCreateWithoutFromUserInput[] | Prisma.SettlementUncheckedCreateWithoutFromUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutFromUserInput | Prisma.SettlementCreateOrConnectWithoutFromUserInput[]
+  upsert?: Prisma.SettlementUpsertWithWhereUniqueWithoutFromUserInput | Prisma.SettlementUpsertWithWhereUniqueWithoutFromUserInput[]
+  createMany?: Prisma.SettlementCreateManyFromUserInputEnvelope
+  set?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  disconnect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  delete?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  update?: Prisma.SettlementUpdateWithWhereUniqueWithoutFromUserInput | Prisma.SettlementUpdateWithWhereUniqueWithoutFromUserInput[]
+  updateMany?: Prisma.SettlementUpdateManyWithWhereWithoutFromUserInput | Prisma.SettlementUpdateManyWithWhereWithoutFromUserInput[]
+  deleteMany?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+}
+
+export type SettlementUpdateManyWithoutToUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutToUserInput, Prisma.SettlementUncheckedCreateWithoutToUserInput> | Prisma.SettlementCreateWithoutToUserInput[] | Prisma.SettlementUncheckedCreateWithoutToUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutToUserInput | Prisma.SettlementCreateOrConnectWithoutToUserInput[]
+  upsert?: Prisma.SettlementUpsertWithWhereUniqueWithoutToUserInput | Prisma.SettlementUpsertWithWhereUniqueWithoutToUserInput[]
+  createMany?: Prisma.SettlementCreateManyToUserInputEnvelope
+  set?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  disconnect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  delete?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  update?: Prisma.SettlementUpdateWithWhereUniqueWithoutToUserInput | Prisma.SettlementUpdateWithWhereUniqueWithoutToUserInput[]
+  updateMany?: Prisma.SettlementUpdateManyWithWhereWithoutToUserInput | Prisma.SettlementUpdateManyWithWhereWithoutToUserInput[]
+  deleteMany?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+}
+
+export type SettlementUncheckedUpdateManyWithoutFromUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutFromUserInput, Prisma.SettlementUncheckedCreateWithoutFromUserInput> | Prisma.SettlementCreateWithoutFromUserInput[] | Prisma.SettlementUncheckedCreateWithoutFromUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutFromUserInput | Prisma.SettlementCreateOrConnectWithoutFromUserInput[]
+  upsert?: Prisma.SettlementUpsertWithWhereUniqueWithoutFromUserInput | Prisma.SettlementUpsertWithWhereUniqueWithoutFromUserInput[]
+  createMany?: Prisma.SettlementCreateManyFromUserInputEnvelope
+  set?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  disconnect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  delete?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  update?: Prisma.SettlementUpdateWithWhereUniqueWithoutFromUserInput | Prisma.SettlementUpdateWithWhereUniqueWithoutFromUserInput[]
+  updateMany?: Prisma.SettlementUpdateManyWithWhereWithoutFromUserInput | Prisma.SettlementUpdateManyWithWhereWithoutFromUserInput[]
+  deleteMany?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+}
+
+export type SettlementUncheckedUpdateManyWithoutToUserNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutToUserInput, Prisma.SettlementUncheckedCreateWithoutToUserInput> | Prisma.SettlementCreateWithoutToUserInput[] | Prisma.SettlementUncheckedCreateWithoutToUserInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutToUserInput | Prisma.SettlementCreateOrConnectWithoutToUserInput[]
+  upsert?: Prisma.SettlementUpsertWithWhereUniqueWithoutToUserInput | Prisma.SettlementUpsertWithWhereUniqueWithoutToUserInput[]
+  createMany?: Prisma.SettlementCreateManyToUserInputEnvelope
+  set?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  disconnect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  delete?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  update?: Prisma.SettlementUpdateWithWhereUniqueWithoutToUserInput | Prisma.SettlementUpdateWithWhereUniqueWithoutToUserInput[]
+  updateMany?: Prisma.SettlementUpdateManyWithWhereWithoutToUserInput | Prisma.SettlementUpdateManyWithWhereWithoutToUserInput[]
+  deleteMany?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+}
+
+export type SettlementCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutTripInput, Prisma.SettlementUncheckedCreateWithoutTripInput> | Prisma.SettlementCreateWithoutTripInput[] | Prisma.SettlementUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutTripInput | Prisma.SettlementCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.SettlementCreateManyTripInputEnvelope
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+}
+
+export type SettlementUncheckedCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutTripInput, Prisma.SettlementUncheckedCreateWithoutTripInput> | Prisma.SettlementCreateWithoutTripInput[] | Prisma.SettlementUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutTripInput | Prisma.SettlementCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.SettlementCreateManyTripInputEnvelope
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+}
+
+export type SettlementUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutTripInput, Prisma.SettlementUncheckedCreateWithoutTripInput> | Prisma.SettlementCreateWithoutTripInput[] | Prisma.SettlementUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutTripInput | Prisma.SettlementCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.SettlementUpsertWithWhereUniqueWithoutTripInput | Prisma.SettlementUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.SettlementCreateManyTripInputEnvelope
+  set?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  disconnect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  delete?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  update?: Prisma.SettlementUpdateWithWhereUniqueWithoutTripInput | Prisma.SettlementUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.SettlementUpdateManyWithWhereWithoutTripInput | Prisma.SettlementUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+}
+
+export type SettlementUncheckedUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.SettlementCreateWithoutTripInput, Prisma.SettlementUncheckedCreateWithoutTripInput> | Prisma.SettlementCreateWithoutTripInput[] | Prisma.SettlementUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.SettlementCreateOrConnectWithoutTripInput | Prisma.SettlementCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.SettlementUpsertWithWhereUniqueWithoutTripInput | Prisma.SettlementUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.SettlementCreateManyTripInputEnvelope
+  set?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  disconnect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  delete?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  connect?: Prisma.SettlementWhereUniqueInput | Prisma.SettlementWhereUniqueInput[]
+  update?: Prisma.SettlementUpdateWithWhereUniqueWithoutTripInput | Prisma.SettlementUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.SettlementUpdateManyWithWhereWithoutTripInput | Prisma.SettlementUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+}
+
+export type SettlementCreateWithoutFromUserInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutSettlementsInput
+  toUser: Prisma.UserCreateNestedOneWithoutSettlementsReceivedInput
+}
+
+export type SettlementUncheckedCreateWithoutFromUserInput = {
+  id?: string
+  tripId: string
+  toUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementCreateOrConnectWithoutFromUserInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  create: Prisma.XOR<Prisma.SettlementCreateWithoutFromUserInput, Prisma.SettlementUncheckedCreateWithoutFromUserInput>
+}
+
+export type SettlementCreateManyFromUserInputEnvelope = {
+  data: Prisma.SettlementCreateManyFromUserInput | Prisma.SettlementCreateManyFromUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type SettlementCreateWithoutToUserInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutSettlementsInput
+  fromUser: Prisma.UserCreateNestedOneWithoutSettlementsPaidInput
+}
+
+export type SettlementUncheckedCreateWithoutToUserInput = {
+  id?: string
+  tripId: string
+  fromUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementCreateOrConnectWithoutToUserInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  create: Prisma.XOR<Prisma.SettlementCreateWithoutToUserInput, Prisma.SettlementUncheckedCreateWithoutToUserInput>
+}
+
+export type SettlementCreateManyToUserInputEnvelope = {
+  data: Prisma.SettlementCreateManyToUserInput | Prisma.SettlementCreateManyToUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type SettlementUpsertWithWhereUniqueWithoutFromUserInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  update: Prisma.XOR<Prisma.SettlementUpdateWithoutFromUserInput, Prisma.SettlementUncheckedUpdateWithoutFromUserInput>
+  create: Prisma.XOR<Prisma.SettlementCreateWithoutFromUserInput, Prisma.SettlementUncheckedCreateWithoutFromUserInput>
+}
+
+export type SettlementUpdateWithWhereUniqueWithoutFromUserInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  data: Prisma.XOR<Prisma.SettlementUpdateWithoutFromUserInput, Prisma.SettlementUncheckedUpdateWithoutFromUserInput>
+}
+
+export type SettlementUpdateManyWithWhereWithoutFromUserInput = {
+  where: Prisma.SettlementScalarWhereInput
+  data: Prisma.XOR<Prisma.SettlementUpdateManyMutationInput, Prisma.SettlementUncheckedUpdateManyWithoutFromUserInput>
+}
+
+export type SettlementScalarWhereInput = {
+  AND?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+  OR?: Prisma.SettlementScalarWhereInput[]
+  NOT?: Prisma.SettlementScalarWhereInput | Prisma.SettlementScalarWhereInput[]
+  id?: Prisma.StringFilter<"Settlement"> | string
+  tripId?: Prisma.StringFilter<"Settlement"> | string
+  fromUserId?: Prisma.StringFilter<"Settlement"> | string
+  toUserId?: Prisma.StringFilter<"Settlement"> | string
+  amount?: Prisma.DecimalFilter<"Settlement"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Settlement"> | string
+  date?: Prisma.DateTimeFilter<"Settlement"> | Date | string
+  notes?: Prisma.StringNullableFilter<"Settlement"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Settlement"> | Date | string
+}
+
+export type SettlementUpsertWithWhereUniqueWithoutToUserInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  update: Prisma.XOR<Prisma.SettlementUpdateWithoutToUserInput, Prisma.SettlementUncheckedUpdateWithoutToUserInput>
+  create: Prisma.XOR<Prisma.SettlementCreateWithoutToUserInput, Prisma.SettlementUncheckedCreateWithoutToUserInput>
+}
+
+export type SettlementUpdateWithWhereUniqueWithoutToUserInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  data: Prisma.XOR<Prisma.SettlementUpdateWithoutToUserInput, Prisma.SettlementUncheckedUpdateWithoutToUserInput>
+}
+
+export type SettlementUpdateManyWithWhereWithoutToUserInput = {
+  where: Prisma.SettlementScalarWhereInput
+  data: Prisma.XOR<Prisma.SettlementUpdateManyMutationInput, Prisma.SettlementUncheckedUpdateManyWithoutToUserInput>
+}
+
+export type SettlementCreateWithoutTripInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+  fromUser: Prisma.UserCreateNestedOneWithoutSettlementsPaidInput
+  toUser: Prisma.UserCreateNestedOneWithoutSettlementsReceivedInput
+}
+
+export type SettlementUncheckedCreateWithoutTripInput = {
+  id?: string
+  fromUserId: string
+  toUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementCreateOrConnectWithoutTripInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  create: Prisma.XOR<Prisma.SettlementCreateWithoutTripInput, Prisma.SettlementUncheckedCreateWithoutTripInput>
+}
+
+export type SettlementCreateManyTripInputEnvelope = {
+  data: Prisma.SettlementCreateManyTripInput | Prisma.SettlementCreateManyTripInput[]
+  skipDuplicates?: boolean
+}
+
+export type SettlementUpsertWithWhereUniqueWithoutTripInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  update: Prisma.XOR<Prisma.SettlementUpdateWithoutTripInput, Prisma.SettlementUncheckedUpdateWithoutTripInput>
+  create: Prisma.XOR<Prisma.SettlementCreateWithoutTripInput, Prisma.SettlementUncheckedCreateWithoutTripInput>
+}
+
+export type SettlementUpdateWithWhereUniqueWithoutTripInput = {
+  where: Prisma.SettlementWhereUniqueInput
+  data: Prisma.XOR<Prisma.SettlementUpdateWithoutTripInput, Prisma.SettlementUncheckedUpdateWithoutTripInput>
+}
+
+export type SettlementUpdateManyWithWhereWithoutTripInput = {
+  where: Prisma.SettlementScalarWhereInput
+  data: Prisma.XOR<Prisma.SettlementUpdateManyMutationInput, Prisma.SettlementUncheckedUpdateManyWithoutTripInput>
+}
+
+export type SettlementCreateManyFromUserInput = {
+  id?: string
+  tripId: string
+  toUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementCreateManyToUserInput = {
+  id?: string
+  tripId: string
+  fromUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementUpdateWithoutFromUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutSettlementsNestedInput
+  toUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput
+}
+
+export type SettlementUncheckedUpdateWithoutFromUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementUncheckedUpdateManyWithoutFromUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementUpdateWithoutToUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutSettlementsNestedInput
+  fromUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsPaidNestedInput
+}
+
+export type SettlementUncheckedUpdateWithoutToUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementUncheckedUpdateManyWithoutToUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementCreateManyTripInput = {
+  id?: string
+  fromUserId: string
+  toUserId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  date: Date | string
+  notes?: string | null
+  createdAt?: Date | string
+}
+
+export type SettlementUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  fromUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsPaidNestedInput
+  toUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput
+}
+
+export type SettlementUncheckedUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SettlementUncheckedUpdateManyWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SettlementSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  fromUserId?: boolean
+  toUserId?: boolean
+  amount?: boolean
+  currency?: boolean
+  date?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["settlement"]>
+
+export type SettlementSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  fromUserId?: boolean
+  toUserId?: boolean
+  amount?: boolean
+  currency?: boolean
+  date?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["settlement"]>
+
+export type SettlementSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  fromUserId?: boolean
+  toUserId?: boolean
+  amount?: boolean
+  currency?: boolean
+  date?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["settlement"]>
+
+export type SettlementSelectScalar = {
+  id?: boolean
+  tripId?: boolean
+  fromUserId?: boolean
+  toUserId?: boolean
+  amount?: boolean
+  currency?: boolean
+  date?: boolean
+  notes?: boolean
+  createdAt?: boolean
+}
+
+export type SettlementOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "fromUserId" | "toUserId" | "amount" | "currency" | "date" | "notes" | "createdAt", ExtArgs["result"]["settlement"]>
+export type SettlementInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SettlementIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type SettlementIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $SettlementPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Settlement"
+  objects: {
+    trip: Prisma.$TripPayload<ExtArgs>
+    fromUser: Prisma.$UserPayload<ExtArgs>
+    toUser: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tripId: string
+    fromUserId: string
+    toUserId: string
+    amount: runtime.Decimal
+    currency: string
+    date: Date
+    notes: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["settlement"]>
+  composites: {}
+}
+
+export type SettlementGetPayload<S extends boolean | null | undefined | SettlementDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SettlementPayload, S>
+
+export type SettlementCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SettlementFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SettlementCountAggregateInputType | true
+  }
+
+export interface SettlementDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Settlement'], meta: { name: 'Settlement' } }
+  /**
+   * Find zero or one Settlement that matches the filter.
+   * @param {SettlementFindUniqueArgs} args - Arguments to find a Settlement
+   * @example
+   * // Get one Settlement
+   * const settlement = await prisma.settlement.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SettlementFindUniqueArgs>(args: Prisma.SelectSubset<T, SettlementFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Settlement that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SettlementFindUniqueOrThrowArgs} args - Arguments to find a Settlement
+   * @example
+   * // Get one Settlement
+   * const settlement = await prisma.settlement.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SettlementFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SettlementFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Settlement that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementFindFirstArgs} args - Arguments to find a Settlement
+   * @example
+   * // Get one Settlement
+   * const settlement = await prisma.settlement.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SettlementFindFirstArgs>(args?: Prisma.SelectSubset<T, SettlementFindFirstArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Settlement that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementFindFirstOrThrowArgs} args - Arguments to find a Settlement
+   * @example
+   * // Get one Settlement
+   * const settlement = await prisma.settlement.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SettlementFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SettlementFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Settlements that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Settlements
+   * const settlements = await prisma.settlement.findMany()
+   * 
+   * // Get first 10 Settlements
+   * const settlements = await prisma.settlement.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const settlementWithIdOnly = await prisma.settlement.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends SettlementFindManyArgs>(args?: Prisma.SelectSubset<T, SettlementFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Settlement.
+   * @param {SettlementCreateArgs} args - Arguments to create a Settlement.
+   * @example
+   * // Create one Settlement
+   * const Settlement = await prisma.settlement.create({
+   *   data: {
+   *     // ... data to create a Settlement
+   *   }
+   * })
+   * 
+   */
+  create<T extends SettlementCreateArgs>(args: Prisma.SelectSubset<T, SettlementCreateArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Settlements.
+   * @param {SettlementCreateManyArgs} args - Arguments to create many Settlements.
+   * @example
+   * // Create many Settlements
+   * const settlement = await prisma.settlement.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SettlementCreateManyArgs>(args?: Prisma.SelectSubset<T, SettlementCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Settlements and returns the data saved in the database.
+   * @param {SettlementCreateManyAndReturnArgs} args - Arguments to create many Settlements.
+   * @example
+   * // Create many Settlements
+   * const settlement = await prisma.settlement.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Settlements and only return the `id`
+   * const settlementWithIdOnly = await prisma.settlement.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SettlementCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SettlementCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Settlement.
+   * @param {SettlementDeleteArgs} args - Arguments to delete one Settlement.
+   * @example
+   * // Delete one Settlement
+   * const Settlement = await prisma.settlement.delete({
+   *   where: {
+   *     // ... filter to delete one Settlement
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SettlementDeleteArgs>(args: Prisma.SelectSubset<T, SettlementDeleteArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Settlement.
+   * @param {SettlementUpdateArgs} args - Arguments to update one Settlement.
+   * @example
+   * // Update one Settlement
+   * const settlement = await prisma.settlement.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SettlementUpdateArgs>(args: Prisma.SelectSubset<T, SettlementUpdateArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Settlements.
+   * @param {SettlementDeleteManyArgs} args - Arguments to filter Settlements to delete.
+   * @example
+   * // Delete a few Settlements
+   * const { count } = await prisma.settlement.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SettlementDeleteManyArgs>(args?: Prisma.SelectSubset<T, SettlementDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Settlements.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Settlements
+   * const settlement = await prisma.settlement.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SettlementUpdateManyArgs>(args: Prisma.SelectSubset<T, SettlementUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Settlements and returns the data updated in the database.
+   * @param {SettlementUpdateManyAndReturnArgs} args - Arguments to update many Settlements.
+   * @example
+   * // Update many Settlements
+   * const settlement = await prisma.settlement.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Settlements and only return the `id`
+   * const settlementWithIdOnly = await prisma.settlement.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SettlementUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SettlementUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Settlement.
+   * @param {SettlementUpsertArgs} args - Arguments to update or create a Settlement.
+   * @example
+   * // Update or create a Settlement
+   * const settlement = await prisma.settlement.upsert({
+   *   create: {
+   *     // ... data to create a Settlement
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Settlement we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SettlementUpsertArgs>(args: Prisma.SelectSubset<T, SettlementUpsertArgs<ExtArgs>>): Prisma.Prisma__SettlementClient<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Settlements.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementCountArgs} args - Arguments to filter Settlements to count.
+   * @example
+   * // Count the number of Settlements
+   * const count = await prisma.settlement.count({
+   *   where: {
+   *     // ... the filter for the Settlements we want to count
+   *   }
+   * })
+  **/
+  count<T extends SettlementCountArgs>(
+    args?: Prisma.Subset<T, SettlementCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SettlementCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Settlement.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SettlementAggregateArgs>(args: Prisma.Subset<T, SettlementAggregateArgs>): Prisma.PrismaPromise<GetSettlementAggregateType<T>>
+
+  /**
+   * Group by Settlement.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SettlementGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SettlementGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SettlementGroupByArgs['orderBy'] }
+      : { orderBy?: SettlementGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SettlementGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSettlementGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Settlement model
+ */
+readonly fields: SettlementFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Settlement.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SettlementClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  fromUser<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  toUser<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Settlement model
+ */
+export interface SettlementFieldRefs {
+  readonly id: Prisma.FieldRef<"Settlement", 'String'>
+  readonly tripId: Prisma.FieldRef<"Settlement", 'String'>
+  readonly fromUserId: Prisma.FieldRef<"Settlement", 'String'>
+  readonly toUserId: Prisma.FieldRef<"Settlement", 'String'>
+  readonly amount: Prisma.FieldRef<"Settlement", 'Decimal'>
+  readonly currency: Prisma.FieldRef<"Settlement", 'String'>
+  readonly date: Prisma.FieldRef<"Settlement", 'DateTime'>
+  readonly notes: Prisma.FieldRef<"Settlement", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Settlement", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Settlement findUnique
+ */
+export type SettlementFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * Filter, which Settlement to fetch.
+   */
+  where: Prisma.SettlementWhereUniqueInput
+}
+
+/**
+ * Settlement findUniqueOrThrow
+ */
+export type SettlementFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * Filter, which Settlement to fetch.
+   */
+  where: Prisma.SettlementWhereUniqueInput
+}
+
+/**
+ * Settlement findFirst
+ */
+export type SettlementFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * Filter, which Settlement to fetch.
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Settlements to fetch.
+   */
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Settlements.
+   */
+  cursor?: Prisma.SettlementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Settlements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Settlements.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Settlements.
+   */
+  distinct?: Prisma.SettlementScalarFieldEnum | Prisma.SettlementScalarFieldEnum[]
+}
+
+/**
+ * Settlement findFirstOrThrow
+ */
+export type SettlementFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * Filter, which Settlement to fetch.
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Settlements to fetch.
+   */
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Settlements.
+   */
+  cursor?: Prisma.SettlementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Settlements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Settlements.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Settlements.
+   */
+  distinct?: Prisma.SettlementScalarFieldEnum | Prisma.SettlementScalarFieldEnum[]
+}
+
+/**
+ * Settlement findMany
+ */
+export type SettlementFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * Filter, which Settlements to fetch.
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Settlements to fetch.
+   */
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Settlements.
+   */
+  cursor?: Prisma.SettlementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Settlements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Settlements.
+   */
+  skip?: number
+  distinct?: Prisma.SettlementScalarFieldEnum | Prisma.SettlementScalarFieldEnum[]
+}
+
+/**
+ * Settlement create
+ */
+export type SettlementCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Settlement.
+   */
+  data: Prisma.XOR<Prisma.SettlementCreateInput, Prisma.SettlementUncheckedCreateInput>
+}
+
+/**
+ * Settlement createMany
+ */
+export type SettlementCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Settlements.
+   */
+  data: Prisma.SettlementCreateManyInput | Prisma.SettlementCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Settlement createManyAndReturn
+ */
+export type SettlementCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * The data used to create many Settlements.
+   */
+  data: Prisma.SettlementCreateManyInput | Prisma.SettlementCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Settlement update
+ */
+export type SettlementUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Settlement.
+   */
+  data: Prisma.XOR<Prisma.SettlementUpdateInput, Prisma.SettlementUncheckedUpdateInput>
+  /**
+   * Choose, which Settlement to update.
+   */
+  where: Prisma.SettlementWhereUniqueInput
+}
+
+/**
+ * Settlement updateMany
+ */
+export type SettlementUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Settlements.
+   */
+  data: Prisma.XOR<Prisma.SettlementUpdateManyMutationInput, Prisma.SettlementUncheckedUpdateManyInput>
+  /**
+   * Filter which Settlements to update
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * Limit how many Settlements to update.
+   */
+  limit?: number
+}
+
+/**
+ * Settlement updateManyAndReturn
+ */
+export type SettlementUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * The data used to update Settlements.
+   */
+  data: Prisma.XOR<Prisma.SettlementUpdateManyMutationInput, Prisma.SettlementUncheckedUpdateManyInput>
+  /**
+   * Filter which Settlements to update
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * Limit how many Settlements to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Settlement upsert
+ */
+export type SettlementUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Settlement to update in case it exists.
+   */
+  where: Prisma.SettlementWhereUniqueInput
+  /**
+   * In case the Settlement found by the `where` argument doesn't exist, create a new Settlement with this data.
+   */
+  create: Prisma.XOR<Prisma.SettlementCreateInput, Prisma.SettlementUncheckedCreateInput>
+  /**
+   * In case the Settlement was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SettlementUpdateInput, Prisma.SettlementUncheckedUpdateInput>
+}
+
+/**
+ * Settlement delete
+ */
+export type SettlementDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  /**
+   * Filter which Settlement to delete.
+   */
+  where: Prisma.SettlementWhereUniqueInput
+}
+
+/**
+ * Settlement deleteMany
+ */
+export type SettlementDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Settlements to delete
+   */
+  where?: Prisma.SettlementWhereInput
+  /**
+   * Limit how many Settlements to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Settlement without action
+ */
+export type SettlementDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+}
@@ -0,0 +1,2114 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShareInvitation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ShareInvitation
+ * 
+ */
+export type ShareInvitationModel = runtime.Types.Result.DefaultSelection<Prisma.$ShareInvitationPayload>
+
+export type AggregateShareInvitation = {
+  _count: ShareInvitationCountAggregateOutputType | null
+  _avg: ShareInvitationAvgAggregateOutputType | null
+  _sum: ShareInvitationSumAggregateOutputType | null
+  _min: ShareInvitationMinAggregateOutputType | null
+  _max: ShareInvitationMaxAggregateOutputType | null
+}
+
+export type ShareInvitationAvgAggregateOutputType = {
+  expiresInDays: number | null
+}
+
+export type ShareInvitationSumAggregateOutputType = {
+  expiresInDays: number | null
+}
+
+export type ShareInvitationMinAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  invitedById: string | null
+  email: string | null
+  inviteeId: string | null
+  permission: $Enums.SharePermission | null
+  expiresInDays: number | null
+  status: $Enums.InvitationStatus | null
+  shareId: string | null
+  sentAt: Date | null
+  respondedAt: Date | null
+  createdAt: Date | null
+}
+
+export type ShareInvitationMaxAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  invitedById: string | null
+  email: string | null
+  inviteeId: string | null
+  permission: $Enums.SharePermission | null
+  expiresInDays: number | null
+  status: $Enums.InvitationStatus | null
+  shareId: string | null
+  sentAt: Date | null
+  respondedAt: Date | null
+  createdAt: Date | null
+}
+
+export type ShareInvitationCountAggregateOutputType = {
+  id: number
+  tripId: number
+  invitedById: number
+  email: number
+  inviteeId: number
+  permission: number
+  expiresInDays: number
+  status: number
+  shareId: number
+  sentAt: number
+  respondedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ShareInvitationAvgAggregateInputType = {
+  expiresInDays?: true
+}
+
+export type ShareInvitationSumAggregateInputType = {
+  expiresInDays?: true
+}
+
+export type ShareInvitationMinAggregateInputType = {
+  id?: true
+  tripId?: true
+  invitedById?: true
+  email?: true
+  inviteeId?: true
+  permission?: true
+  expiresInDays?: true
+  status?: true
+  shareId?: true
+  sentAt?: true
+  respondedAt?: true
+  createdAt?: true
+}
+
+export type ShareInvitationMaxAggregateInputType = {
+  id?: true
+  tripId?: true
+  invitedById?: true
+  email?: true
+  inviteeId?: true
+  permission?: true
+  expiresInDays?: true
+  status?: true
+  shareId?: true
+  sentAt?: true
+  respondedAt?: true
+  createdAt?: true
+}
+
+export type ShareInvitationCountAggregateInputType = {
+  id?: true
+  tripId?: true
+  invitedById?: true
+  email?: true
+  inviteeId?: true
+  permission?: true
+  expiresInDays?: true
+  status?: true
+  shareId?: true
+  sentAt?: true
+  respondedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ShareInvitationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShareInvitation to aggregate.
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareInvitations to fetch.
+   */
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareInvitations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShareInvitations
+  **/
+  _count?: true | ShareInvitationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShareInvitationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShareInvitationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShareInvitationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShareInvitationMaxAggregateInputType
+}
+
+export type GetShareInvitationAggregateType<T extends ShareInvitationAggregateArgs> = {
+      [P in keyof T & keyof AggregateShareInvitation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShareInvitation[P]>
+    : Prisma.GetScalarType<T[P], AggregateShareInvitation[P]>
+}
+
+
+
+
+export type ShareInvitationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareInvitationWhereInput
+  orderBy?: Prisma.ShareInvitationOrderByWithAggregationInput | Prisma.ShareInvitationOrderByWithAggregationInput[]
+  by: Prisma.ShareInvitationScalarFieldEnum[] | Prisma.ShareInvitationScalarFieldEnum
+  having?: Prisma.ShareInvitationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShareInvitationCountAggregateInputType | true
+  _avg?: ShareInvitationAvgAggregateInputType
+  _sum?: ShareInvitationSumAggregateInputType
+  _min?: ShareInvitationMinAggregateInputType
+  _max?: ShareInvitationMaxAggregateInputType
+}
+
+export type ShareInvitationGroupByOutputType = {
+  id: string
+  tripId: string
+  invitedById: string
+  email: string
+  inviteeId: string | null
+  permission: $Enums.SharePermission
+  expiresInDays: number | null
+  status: $Enums.InvitationStatus
+  shareId: string | null
+  sentAt: Date
+  respondedAt: Date | null
+  createdAt: Date
+  _count: ShareInvitationCountAggregateOutputType | null
+  _avg: ShareInvitationAvgAggregateOutputType | null
+  _sum: ShareInvitationSumAggregateOutputType | null
+  _min: ShareInvitationMinAggregateOutputType | null
+  _max: ShareInvitationMaxAggregateOutputType | null
+}
+
+type GetShareInvitationGroupByPayload<T extends ShareInvitationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShareInvitationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShareInvitationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShareInvitationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShareInvitationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShareInvitationWhereInput = {
+  AND?: Prisma.ShareInvitationWhereInput | Prisma.ShareInvitationWhereInput[]
+  OR?: Prisma.ShareInvitationWhereInput[]
+  NOT?: Prisma.ShareInvitationWhereInput | Prisma.ShareInvitationWhereInput[]
+  id?: Prisma.StringFilter<"ShareInvitation"> | string
+  tripId?: Prisma.StringFilter<"ShareInvitation"> | string
+  invitedById?: Prisma.StringFilter<"ShareInvitation"> | string
+  email?: Prisma.StringFilter<"ShareInvitation"> | string
+  inviteeId?: Prisma.StringNullableFilter<"ShareInvitation"> | string | null
+  permission?: Prisma.EnumSharePermissionFilter<"ShareInvitation"> | $Enums.SharePermission
+  expiresInDays?: Prisma.IntNullableFilter<"ShareInvitation"> | number | null
+  status?: Prisma.EnumInvitationStatusFilter<"ShareInvitation"> | $Enums.InvitationStatus
+  shareId?: Prisma.StringNullableFilter<"ShareInvitation"> | string | null
+  sentAt?: Prisma.DateTimeFilter<"ShareInvitation"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableFilter<"ShareInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ShareInvitation"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  invitedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  invitee?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  share?: Prisma.XOR<Prisma.SharedTripNullableScalarRelationFilter, Prisma.SharedTripWhereInput> | null
+}
+
+export type ShareInvitationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  inviteeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  permission?: Prisma.SortOrder
+  expiresInDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  shareId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  trip?: Prisma.TripOrderByWithRelationInput
+  invitedBy?: Prisma.UserOrderByWithRelationInput
+  invitee?: Prisma.UserOrderByWithRelationInput
+  share?: Prisma.SharedTripOrderByWithRelationInput
+}
+
+export type ShareInvitationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  shareId?: string
+  AND?: Prisma.ShareInvitationWhereInput | Prisma.ShareInvitationWhereInput[]
+  OR?: Prisma.ShareInvitationWhereInput[]
+  NOT?: Prisma.ShareInvitationWhereInput | Prisma.ShareInvitationWhereInput[]
+  tripId?: Prisma.StringFilter<"ShareInvitation"> | string
+  invitedById?: Prisma.StringFilter<"ShareInvitation"> | string
+  email?: Prisma.StringFilter<"ShareInvitation"> | string
+  inviteeId?: Prisma.StringNullableFilter<"ShareInvitation"> | string | null
+  permission?: Prisma.EnumSharePermissionFilter<"ShareInvitation"> | $Enums.SharePermission
+  expiresInDays?: Prisma.IntNullableFilter<"ShareInvitation"> | number | null
+  status?: Prisma.EnumInvitationStatusFilter<"ShareInvitation"> | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFilter<"ShareInvitation"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableFilter<"ShareInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ShareInvitation"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  invitedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  invitee?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  share?: Prisma.XOR<Prisma.SharedTripNullableScalarRelationFilter, Prisma.SharedTripWhereInput> | null
+}, "id" | "shareId">
+
+export type ShareInvitationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  inviteeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  permission?: Prisma.SortOrder
+  expiresInDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  shareId?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ShareInvitationCountOrderByAggregateInput
+  _avg?: Prisma.ShareInvitationAvgOrderByAggregateInput
+  _max?: Prisma.ShareInvitationMaxOrderByAggregateInput
+  _min?: Prisma.ShareInvitationMinOrderByAggregateInput
+  _sum?: Prisma.ShareInvitationSumOrderByAggregateInput
+}
+
+export type ShareInvitationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShareInvitationScalarWhereWithAggregatesInput | Prisma.ShareInvitationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShareInvitationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShareInvitationScalarWhereWithAggregatesInput | Prisma.ShareInvitationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShareInvitation"> | string
+  tripId?: Prisma.StringWithAggregatesFilter<"ShareInvitation"> | string
+  invitedById?: Prisma.StringWithAggregatesFilter<"ShareInvitation"> | string
+  email?: Prisma.StringWithAggregatesFilter<"ShareInvitation"> | string
+  inviteeId?: Prisma.StringNullableWithAggregatesFilter<"ShareInvitation"> | string | null
+  permission?: Prisma.EnumSharePermissionWithAggregatesFilter<"ShareInvitation"> | $Enums.SharePermission
+  expiresInDays?: Prisma.IntNullableWithAggregatesFilter<"ShareInvitation"> | number | null
+  status?: Prisma.EnumInvitationStatusWithAggregatesFilter<"ShareInvitation"> | $Enums.InvitationStatus
+  shareId?: Prisma.StringNullableWithAggregatesFilter<"ShareInvitation"> | string | null
+  sentAt?: Prisma.DateTimeWithAggregatesFilter<"ShareInvitation"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ShareInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ShareInvitation"> | Date | string
+}
+
+export type ShareInvitationCreateInput = {
+  id?: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutInvitationsInput
+  invitedBy: Prisma.UserCreateNestedOneWithoutInvitationsSentInput
+  invitee?: Prisma.UserCreateNestedOneWithoutInvitationsReceivedInput
+  share?: Prisma.SharedTripCreateNestedOneWithoutInvitationInput
+}
+
+export type ShareInvitationUncheckedCreateInput = {
+  id?: string
+  tripId: string
+  invitedById: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutInvitationsNestedInput
+  invitedBy?: Prisma.UserUpdateOneRequiredWithoutInvitationsSentNestedInput
+  invitee?: Prisma.UserUpdateOneWithoutInvitationsReceivedNestedInput
+  share?: Prisma.SharedTripUpdateOneWithoutInvitationNestedInput
+}
+
+export type ShareInvitationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationCreateManyInput = {
+  id?: string
+  tripId: string
+  invitedById: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationListRelationFilter = {
+  every?: Prisma.ShareInvitationWhereInput
+  some?: Prisma.ShareInvitationWhereInput
+  none?: Prisma.ShareInvitationWhereInput
+}
+
+export type ShareInvitationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShareInvitationNullableScalarRelationFilter = {
+  is?: Prisma.ShareInvitationWhereInput | null
+  isNot?: Prisma.ShareInvitationWhereInput | null
+}
+
+export type ShareInvitationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  inviteeId?: Prisma.SortOrder
+  permission?: Prisma.SortOrder
+  expiresInDays?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ShareInvitationAvgOrderByAggregateInput = {
+  expiresInDays?: Prisma.SortOrder
+}
+
+export type ShareInvitationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  inviteeId?: Prisma.SortOrder
+  permission?: Prisma.SortOrder
+  expiresInDays?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ShareInvitationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  inviteeId?: Prisma.SortOrder
+  permission?: Prisma.SortOrder
+  expiresInDays?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ShareInvitationSumOrderByAggregateInput = {
+  expiresInDays?: Prisma.SortOrder
+}
+
+export type ShareInvitationCreateNestedManyWithoutInvitedByInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.ShareInvitationCreateWithoutInvitedByInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput | Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInvitedByInputEnvelope
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+}
+
+export type ShareInvitationCreateNestedManyWithoutInviteeInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInviteeInput, Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput> | Prisma.ShareInvitationCreateWithoutInviteeInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput | Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInviteeInputEnvelope
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+}
+
+export type ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.ShareInvitationCreateWithoutInvitedByInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput | Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInvitedByInputEnvelope
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+}
+
+export type ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInviteeInput, Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput> | Prisma.ShareInvitationCreateWithoutInviteeInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput | Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInviteeInputEnvelope
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+}
+
+export type ShareInvitationUpdateManyWithoutInvitedByNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.ShareInvitationCreateWithoutInvitedByInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput | Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput[]
+  upsert?: Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInvitedByInput | Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInvitedByInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInvitedByInputEnvelope
+  set?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  disconnect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  delete?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  update?: Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInvitedByInput | Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInvitedByInput[]
+  updateMany?: Prisma.ShareInvitationUpdateManyWithWhereWithoutInvitedByInput | Prisma.ShareInvitationUpdateManyWithWhereWithoutInvitedByInput[]
+  deleteMany?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+}
+
+export type ShareInvitationUpdateManyWithoutInviteeNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInviteeInput, Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput> | Prisma.ShareInvitationCreateWithoutInviteeInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput | Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput[]
+  upsert?: Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInviteeInput | Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInviteeInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInviteeInputEnvelope
+  set?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  disconnect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  delete?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  update?: Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInviteeInput | Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInviteeInput[]
+  updateMany?: Prisma.ShareInvitationUpdateManyWithWhereWithoutInviteeInput | Prisma.ShareInvitationUpdateManyWithWhereWithoutInviteeInput[]
+  deleteMany?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+}
+
+export type ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.ShareInvitationCreateWithoutInvitedByInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput | Prisma.ShareInvitationCreateOrConnectWithoutInvitedByInput[]
+  upsert?: Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInvitedByInput | Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInvitedByInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInvitedByInputEnvelope
+  set?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  disconnect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  delete?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  update?: Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInvitedByInput | Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInvitedByInput[]
+  updateMany?: Prisma.ShareInvitationUpdateManyWithWhereWithoutInvitedByInput | Prisma.ShareInvitationUpdateManyWithWhereWithoutInvitedByInput[]
+  deleteMany?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+}
+
+export type ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInviteeInput, Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput> | Prisma.ShareInvitationCreateWithoutInviteeInput[] | Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput | Prisma.ShareInvitationCreateOrConnectWithoutInviteeInput[]
+  upsert?: Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInviteeInput | Prisma.ShareInvitationUpsertWithWhereUniqueWithoutInviteeInput[]
+  createMany?: Prisma.ShareInvitationCreateManyInviteeInputEnvelope
+  set?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  disconnect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  delete?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  update?: Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInviteeInput | Prisma.ShareInvitationUpdateWithWhereUniqueWithoutInviteeInput[]
+  updateMany?: Prisma.ShareInvitationUpdateManyWithWhereWithoutInviteeInput | Prisma.ShareInvitationUpdateManyWithWhereWithoutInviteeInput[]
+  deleteMany?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+}
+
+export type ShareInvitationCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutTripInput, Prisma.ShareInvitationUncheckedCreateWithoutTripInput> | Prisma.ShareInvitationCreateWithoutTripInput[] | Prisma.ShareInvitationUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutTripInput | Prisma.ShareInvitationCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.ShareInvitationCreateManyTripInputEnvelope
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+}
+
+export type ShareInvitationUncheckedCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutTripInput, Prisma.ShareInvitationUncheckedCreateWithoutTripInput> | Prisma.ShareInvitationCreateWithoutTripInput[] | Prisma.ShareInvitationUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutTripInput | Prisma.ShareInvitationCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.ShareInvitationCreateManyTripInputEnvelope
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+}
+
+export type ShareInvitationUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutTripInput, Prisma.ShareInvitationUncheckedCreateWithoutTripInput> | Prisma.ShareInvitationCreateWithoutTripInput[] | Prisma.ShareInvitationUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutTripInput | Prisma.ShareInvitationCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.ShareInvitationUpsertWithWhereUniqueWithoutTripInput | Prisma.ShareInvitationUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.ShareInvitationCreateManyTripInputEnvelope
+  set?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  disconnect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  delete?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  update?: Prisma.ShareInvitationUpdateWithWhereUniqueWithoutTripInput | Prisma.ShareInvitationUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.ShareInvitationUpdateManyWithWhereWithoutTripInput | Prisma.ShareInvitationUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+}
+
+export type ShareInvitationUncheckedUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutTripInput, Prisma.ShareInvitationUncheckedCreateWithoutTripInput> | Prisma.ShareInvitationCreateWithoutTripInput[] | Prisma.ShareInvitationUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutTripInput | Prisma.ShareInvitationCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.ShareInvitationUpsertWithWhereUniqueWithoutTripInput | Prisma.ShareInvitationUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.ShareInvitationCreateManyTripInputEnvelope
+  set?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  disconnect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  delete?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  connect?: Prisma.ShareInvitationWhereUniqueInput | Prisma.ShareInvitationWhereUniqueInput[]
+  update?: Prisma.ShareInvitationUpdateWithWhereUniqueWithoutTripInput | Prisma.ShareInvitationUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.ShareInvitationUpdateManyWithWhereWithoutTripInput | Prisma.ShareInvitationUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+}
+
+export type ShareInvitationCreateNestedOneWithoutShareInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutShareInput, Prisma.ShareInvitationUncheckedCreateWithoutShareInput>
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutShareInput
+  connect?: Prisma.ShareInvitationWhereUniqueInput
+}
+
+export type ShareInvitationUncheckedCreateNestedOneWithoutShareInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutShareInput, Prisma.ShareInvitationUncheckedCreateWithoutShareInput>
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutShareInput
+  connect?: Prisma.ShareInvitationWhereUniqueInput
+}
+
+export type ShareInvitationUpdateOneWithoutShareNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutShareInput, Prisma.ShareInvitationUncheckedCreateWithoutShareInput>
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutShareInput
+  upsert?: Prisma.ShareInvitationUpsertWithoutShareInput
+  disconnect?: Prisma.ShareInvitationWhereInput | boolean
+  delete?: Prisma.ShareInvitationWhereInput | boolean
+  connect?: Prisma.ShareInvitationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShareInvitationUpdateToOneWithWhereWithoutShareInput, Prisma.ShareInvitationUpdateWithoutShareInput>, Prisma.ShareInvitationUncheckedUpdateWithoutShareInput>
+}
+
+export type ShareInvitationUncheckedUpdateOneWithoutShareNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareInvitationCreateWithoutShareInput, Prisma.ShareInvitationUncheckedCreateWithoutShareInput>
+  connectOrCreate?: Prisma.ShareInvitationCreateOrConnectWithoutShareInput
+  upsert?: Prisma.ShareInvitationUpsertWithoutShareInput
+  disconnect?: Prisma.ShareInvitationWhereInput | boolean
+  delete?: Prisma.ShareInvitationWhereInput | boolean
+  connect?: Prisma.ShareInvitationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShareInvitationUpdateToOneWithWhereWithoutShareInput, Prisma.ShareInvitationUpdateWithoutShareInput>, Prisma.ShareInvitationUncheckedUpdateWithoutShareInput>
+}
+
+export type EnumInvitationStatusFieldUpdateOperationsInput = {
+  set?: $Enums.InvitationStatus
+}
+
+export type ShareInvitationCreateWithoutInvitedByInput = {
+  id?: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutInvitationsInput
+  invitee?: Prisma.UserCreateNestedOneWithoutInvitationsReceivedInput
+  share?: Prisma.SharedTripCreateNestedOneWithoutInvitationInput
+}
+
+export type ShareInvitationUncheckedCreateWithoutInvitedByInput = {
+  id?: string
+  tripId: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationCreateOrConnectWithoutInvitedByInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput>
+}
+
+export type ShareInvitationCreateManyInvitedByInputEnvelope = {
+  data: Prisma.ShareInvitationCreateManyInvitedByInput | Prisma.ShareInvitationCreateManyInvitedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShareInvitationCreateWithoutInviteeInput = {
+  id?: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutInvitationsInput
+  invitedBy: Prisma.UserCreateNestedOneWithoutInvitationsSentInput
+  share?: Prisma.SharedTripCreateNestedOneWithoutInvitationInput
+}
+
+export type ShareInvitationUncheckedCreateWithoutInviteeInput = {
+  id?: string
+  tripId: string
+  invitedById: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationCreateOrConnectWithoutInviteeInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInviteeInput, Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput>
+}
+
+export type ShareInvitationCreateManyInviteeInputEnvelope = {
+  data: Prisma.ShareInvitationCreateManyInviteeInput | Prisma.ShareInvitationCreateManyInviteeInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShareInvitationUpsertWithWhereUniqueWithoutInvitedByInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedUpdateWithoutInvitedByInput>
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedCreateWithoutInvitedByInput>
+}
+
+export type ShareInvitationUpdateWithWhereUniqueWithoutInvitedByInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutInvitedByInput, Prisma.ShareInvitationUncheckedUpdateWithoutInvitedByInput>
+}
+
+export type ShareInvitationUpdateManyWithWhereWithoutInvitedByInput = {
+  where: Prisma.ShareInvitationScalarWhereInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateManyMutationInput, Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByInput>
+}
+
+export type ShareInvitationScalarWhereInput = {
+  AND?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+  OR?: Prisma.ShareInvitationScalarWhereInput[]
+  NOT?: Prisma.ShareInvitationScalarWhereInput | Prisma.ShareInvitationScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShareInvitation"> | string
+  tripId?: Prisma.StringFilter<"ShareInvitation"> | string
+  invitedById?: Prisma.StringFilter<"ShareInvitation"> | string
+  email?: Prisma.StringFilter<"ShareInvitation"> | string
+  inviteeId?: Prisma.StringNullableFilter<"ShareInvitation"> | string | null
+  permission?: Prisma.EnumSharePermissionFilter<"ShareInvitation"> | $Enums.SharePermission
+  expiresInDays?: Prisma.IntNullableFilter<"ShareInvitation"> | number | null
+  status?: Prisma.EnumInvitationStatusFilter<"ShareInvitation"> | $Enums.InvitationStatus
+  shareId?: Prisma.StringNullableFilter<"ShareInvitation"> | string | null
+  sentAt?: Prisma.DateTimeFilter<"ShareInvitation"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableFilter<"ShareInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ShareInvitation"> | Date | string
+}
+
+export type ShareInvitationUpsertWithWhereUniqueWithoutInviteeInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutInviteeInput, Prisma.ShareInvitationUncheckedUpdateWithoutInviteeInput>
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutInviteeInput, Prisma.ShareInvitationUncheckedCreateWithoutInviteeInput>
+}
+
+export type ShareInvitationUpdateWithWhereUniqueWithoutInviteeInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutInviteeInput, Prisma.ShareInvitationUncheckedUpdateWithoutInviteeInput>
+}
+
+export type ShareInvitationUpdateManyWithWhereWithoutInviteeInput = {
+  where: Prisma.ShareInvitationScalarWhereInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateManyMutationInput, Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeInput>
+}
+
+export type ShareInvitationCreateWithoutTripInput = {
+  id?: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  invitedBy: Prisma.UserCreateNestedOneWithoutInvitationsSentInput
+  invitee?: Prisma.UserCreateNestedOneWithoutInvitationsReceivedInput
+  share?: Prisma.SharedTripCreateNestedOneWithoutInvitationInput
+}
+
+export type ShareInvitationUncheckedCreateWithoutTripInput = {
+  id?: string
+  invitedById: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationCreateOrConnectWithoutTripInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutTripInput, Prisma.ShareInvitationUncheckedCreateWithoutTripInput>
+}
+
+export type ShareInvitationCreateManyTripInputEnvelope = {
+  data: Prisma.ShareInvitationCreateManyTripInput | Prisma.ShareInvitationCreateManyTripInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShareInvitationUpsertWithWhereUniqueWithoutTripInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutTripInput, Prisma.ShareInvitationUncheckedUpdateWithoutTripInput>
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutTripInput, Prisma.ShareInvitationUncheckedCreateWithoutTripInput>
+}
+
+export type ShareInvitationUpdateWithWhereUniqueWithoutTripInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutTripInput, Prisma.ShareInvitationUncheckedUpdateWithoutTripInput>
+}
+
+export type ShareInvitationUpdateManyWithWhereWithoutTripInput = {
+  where: Prisma.ShareInvitationScalarWhereInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateManyMutationInput, Prisma.ShareInvitationUncheckedUpdateManyWithoutTripInput>
+}
+
+export type ShareInvitationCreateWithoutShareInput = {
+  id?: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutInvitationsInput
+  invitedBy: Prisma.UserCreateNestedOneWithoutInvitationsSentInput
+  invitee?: Prisma.UserCreateNestedOneWithoutInvitationsReceivedInput
+}
+
+export type ShareInvitationUncheckedCreateWithoutShareInput = {
+  id?: string
+  tripId: string
+  invitedById: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationCreateOrConnectWithoutShareInput = {
+  where: Prisma.ShareInvitationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutShareInput, Prisma.ShareInvitationUncheckedCreateWithoutShareInput>
+}
+
+export type ShareInvitationUpsertWithoutShareInput = {
+  update: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutShareInput, Prisma.ShareInvitationUncheckedUpdateWithoutShareInput>
+  create: Prisma.XOR<Prisma.ShareInvitationCreateWithoutShareInput, Prisma.ShareInvitationUncheckedCreateWithoutShareInput>
+  where?: Prisma.ShareInvitationWhereInput
+}
+
+export type ShareInvitationUpdateToOneWithWhereWithoutShareInput = {
+  where?: Prisma.ShareInvitationWhereInput
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateWithoutShareInput, Prisma.ShareInvitationUncheckedUpdateWithoutShareInput>
+}
+
+export type ShareInvitationUpdateWithoutShareInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutInvitationsNestedInput
+  invitedBy?: Prisma.UserUpdateOneRequiredWithoutInvitationsSentNestedInput
+  invitee?: Prisma.UserUpdateOneWithoutInvitationsReceivedNestedInput
+}
+
+export type ShareInvitationUncheckedUpdateWithoutShareInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationCreateManyInvitedByInput = {
+  id?: string
+  tripId: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationCreateManyInviteeInput = {
+  id?: string
+  tripId: string
+  invitedById: string
+  email: string
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationUpdateWithoutInvitedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutInvitationsNestedInput
+  invitee?: Prisma.UserUpdateOneWithoutInvitationsReceivedNestedInput
+  share?: Prisma.SharedTripUpdateOneWithoutInvitationNestedInput
+}
+
+export type ShareInvitationUncheckedUpdateWithoutInvitedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationUncheckedUpdateManyWithoutInvitedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationUpdateWithoutInviteeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutInvitationsNestedInput
+  invitedBy?: Prisma.UserUpdateOneRequiredWithoutInvitationsSentNestedInput
+  share?: Prisma.SharedTripUpdateOneWithoutInvitationNestedInput
+}
+
+export type ShareInvitationUncheckedUpdateWithoutInviteeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationUncheckedUpdateManyWithoutInviteeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationCreateManyTripInput = {
+  id?: string
+  invitedById: string
+  email: string
+  inviteeId?: string | null
+  permission?: $Enums.SharePermission
+  expiresInDays?: number | null
+  status?: $Enums.InvitationStatus
+  shareId?: string | null
+  sentAt?: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type ShareInvitationUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invitedBy?: Prisma.UserUpdateOneRequiredWithoutInvitationsSentNestedInput
+  invitee?: Prisma.UserUpdateOneWithoutInvitationsReceivedNestedInput
+  share?: Prisma.SharedTripUpdateOneWithoutInvitationNestedInput
+}
+
+export type ShareInvitationUncheckedUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShareInvitationUncheckedUpdateManyWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  inviteeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresInDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  status?: Prisma.EnumInvitationStatusFieldUpdateOperationsInput | $Enums.InvitationStatus
+  shareId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ShareInvitationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  invitedById?: boolean
+  email?: boolean
+  inviteeId?: boolean
+  permission?: boolean
+  expiresInDays?: boolean
+  status?: boolean
+  shareId?: boolean
+  sentAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  invitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  invitee?: boolean | Prisma.ShareInvitation$inviteeArgs<ExtArgs>
+  share?: boolean | Prisma.ShareInvitation$shareArgs<ExtArgs>
+}, ExtArgs["result"]["shareInvitation"]>
+
+export type ShareInvitationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  invitedById?: boolean
+  email?: boolean
+  inviteeId?: boolean
+  permission?: boolean
+  expiresInDays?: boolean
+  status?: boolean
+  shareId?: boolean
+  sentAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  invitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  invitee?: boolean | Prisma.ShareInvitation$inviteeArgs<ExtArgs>
+  share?: boolean | Prisma.ShareInvitation$shareArgs<ExtArgs>
+}, ExtArgs["result"]["shareInvitation"]>
+
+export type ShareInvitationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  invitedById?: boolean
+  email?: boolean
+  inviteeId?: boolean
+  permission?: boolean
+  expiresInDays?: boolean
+  status?: boolean
+  shareId?: boolean
+  sentAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  invitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  invitee?: boolean | Prisma.ShareInvitation$inviteeArgs<ExtArgs>
+  share?: boolean | Prisma.ShareInvitation$shareArgs<ExtArgs>
+}, ExtArgs["result"]["shareInvitation"]>
+
+export type ShareInvitationSelectScalar = {
+  id?: boolean
+  tripId?: boolean
+  invitedById?: boolean
+  email?: boolean
+  inviteeId?: boolean
+  permission?: boolean
+  expiresInDays?: boolean
+  status?: boolean
+  shareId?: boolean
+  sentAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+}
+
+export type ShareInvitationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "invitedById" | "email" | "inviteeId" | "permission" | "expiresInDays" | "status" | "shareId" | "sentAt" | "respondedAt" | "createdAt", ExtArgs["result"]["shareInvitation"]>
+export type ShareInvitationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  invitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  invitee?: boolean | Prisma.ShareInvitation$inviteeArgs<ExtArgs>
+  share?: boolean | Prisma.ShareInvitation$shareArgs<ExtArgs>
+}
+export type ShareInvitationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  invitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  invitee?: boolean | Prisma.ShareInvitation$inviteeArgs<ExtArgs>
+  share?: boolean | Prisma.ShareInvitation$shareArgs<ExtArgs>
+}
+export type ShareInvitationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  invitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  invitee?: boolean | Prisma.ShareInvitation$inviteeArgs<ExtArgs>
+  share?: boolean | Prisma.ShareInvitation$shareArgs<ExtArgs>
+}
+
+export type $ShareInvitationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShareInvitation"
+  objects: {
+    trip: Prisma.$TripPayload<ExtArgs>
+    invitedBy: Prisma.$UserPayload<ExtArgs>
+    invitee: Prisma.$UserPayload<ExtArgs> | null
+    share: Prisma.$SharedTripPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tripId: string
+    invitedById: string
+    email: string
+    inviteeId: string | null
+    permission: $Enums.SharePermission
+    expiresInDays: number | null
+    status: $Enums.InvitationStatus
+    shareId: string | null
+    sentAt: Date
+    respondedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["shareInvitation"]>
+  composites: {}
+}
+
+export type ShareInvitationGetPayload<S extends boolean | null | undefined | ShareInvitationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload, S>
+
+export type ShareInvitationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShareInvitationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShareInvitationCountAggregateInputType | true
+  }
+
+export interface ShareInvitationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShareInvitation'], meta: { name: 'ShareInvitation' } }
+  /**
+   * Find zero or one ShareInvitation that matches the filter.
+   * @param {ShareInvitationFindUniqueArgs} args - Arguments to find a ShareInvitation
+   * @example
+   * // Get one ShareInvitation
+   * const shareInvitation = await prisma.shareInvitation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShareInvitationFindUniqueArgs>(args: Prisma.SelectSubset<T, ShareInvitationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShareInvitation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShareInvitationFindUniqueOrThrowArgs} args - Arguments to find a ShareInvitation
+   * @example
+   * // Get one ShareInvitation
+   * const shareInvitation = await prisma.shareInvitation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShareInvitationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShareInvitationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShareInvitation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationFindFirstArgs} args - Arguments to find a ShareInvitation
+   * @example
+   * // Get one ShareInvitation
+   * const shareInvitation = await prisma.shareInvitation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShareInvitationFindFirstArgs>(args?: Prisma.SelectSubset<T, ShareInvitationFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShareInvitation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationFindFirstOrThrowArgs} args - Arguments to find a ShareInvitation
+   * @example
+   * // Get one ShareInvitation
+   * const shareInvitation = await prisma.shareInvitation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShareInvitationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShareInvitationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShareInvitations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShareInvitations
+   * const shareInvitations = await prisma.shareInvitation.findMany()
+   * 
+   * // Get first 10 ShareInvitations
+   * const shareInvitations = await prisma.shareInvitation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shareInvitationWithIdOnly = await prisma.shareInvitation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShareInvitationFindManyArgs>(args?: Prisma.SelectSubset<T, ShareInvitationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShareInvitation.
+   * @param {ShareInvitationCreateArgs} args - Arguments to create a ShareInvitation.
+   * @example
+   * // Create one ShareInvitation
+   * const ShareInvitation = await prisma.shareInvitation.create({
+   *   data: {
+   *     // ... data to create a ShareInvitation
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShareInvitationCreateArgs>(args: Prisma.SelectSubset<T, ShareInvitationCreateArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShareInvitations.
+   * @param {ShareInvitationCreateManyArgs} args - Arguments to create many ShareInvitations.
+   * @example
+   * // Create many ShareInvitations
+   * const shareInvitation = await prisma.shareInvitation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShareInvitationCreateManyArgs>(args?: Prisma.SelectSubset<T, ShareInvitationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShareInvitations and returns the data saved in the database.
+   * @param {ShareInvitationCreateManyAndReturnArgs} args - Arguments to create many ShareInvitations.
+   * @example
+   * // Create many ShareInvitations
+   * const shareInvitation = await prisma.shareInvitation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShareInvitations and only return the `id`
+   * const shareInvitationWithIdOnly = await prisma.shareInvitation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShareInvitationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShareInvitationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShareInvitation.
+   * @param {ShareInvitationDeleteArgs} args - Arguments to delete one ShareInvitation.
+   * @example
+   * // Delete one ShareInvitation
+   * const ShareInvitation = await prisma.shareInvitation.delete({
+   *   where: {
+   *     // ... filter to delete one ShareInvitation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShareInvitationDeleteArgs>(args: Prisma.SelectSubset<T, ShareInvitationDeleteArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShareInvitation.
+   * @param {ShareInvitationUpdateArgs} args - Arguments to update one ShareInvitation.
+   * @example
+   * // Update one ShareInvitation
+   * const shareInvitation = await prisma.shareInvitation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShareInvitationUpdateArgs>(args: Prisma.SelectSubset<T, ShareInvitationUpdateArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShareInvitations.
+   * @param {ShareInvitationDeleteManyArgs} args - Arguments to filter ShareInvitations to delete.
+   * @example
+   * // Delete a few ShareInvitations
+   * const { count } = await prisma.shareInvitation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShareInvitationDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShareInvitationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShareInvitations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShareInvitations
+   * const shareInvitation = await prisma.shareInvitation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShareInvitationUpdateManyArgs>(args: Prisma.SelectSubset<T, ShareInvitationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShareInvitations and returns the data updated in the database.
+   * @param {ShareInvitationUpdateManyAndReturnArgs} args - Arguments to update many ShareInvitations.
+   * @example
+   * // Update many ShareInvitations
+   * const shareInvitation = await prisma.shareInvitation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShareInvitations and only return the `id`
+   * const shareInvitationWithIdOnly = await prisma.shareInvitation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShareInvitationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShareInvitationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShareInvitation.
+   * @param {ShareInvitationUpsertArgs} args - Arguments to update or create a ShareInvitation.
+   * @example
+   * // Update or create a ShareInvitation
+   * const shareInvitation = await prisma.shareInvitation.upsert({
+   *   create: {
+   *     // ... data to create a ShareInvitation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShareInvitation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShareInvitationUpsertArgs>(args: Prisma.SelectSubset<T, ShareInvitationUpsertArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShareInvitations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationCountArgs} args - Arguments to filter ShareInvitations to count.
+   * @example
+   * // Count the number of ShareInvitations
+   * const count = await prisma.shareInvitation.count({
+   *   where: {
+   *     // ... the filter for the ShareInvitations we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShareInvitationCountArgs>(
+    args?: Prisma.Subset<T, ShareInvitationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShareInvitationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShareInvitation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShareInvitationAggregateArgs>(args: Prisma.Subset<T, ShareInvitationAggregateArgs>): Prisma.PrismaPromise<GetShareInvitationAggregateType<T>>
+
+  /**
+   * Group by ShareInvitation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareInvitationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShareInvitationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShareInvitationGroupByArgs['orderBy'] }
+      : { orderBy?: ShareInvitationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShareInvitationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShareInvitationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShareInvitation model
+ */
+readonly fields: ShareInvitationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShareInvitation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShareInvitationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  invitedBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  invitee<T extends Prisma.ShareInvitation$inviteeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShareInvitation$inviteeArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  share<T extends Prisma.ShareInvitation$shareArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShareInvitation$shareArgs<ExtArgs>>): Prisma.Prisma__SharedTripClient<runtime.Types.Result.GetResult<Prisma.$SharedTripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShareInvitation model
+ */
+export interface ShareInvitationFieldRefs {
+  readonly id: Prisma.FieldRef<"ShareInvitation", 'String'>
+  readonly tripId: Prisma.FieldRef<"ShareInvitation", 'String'>
+  readonly invitedById: Prisma.FieldRef<"ShareInvitation", 'String'>
+  readonly email: Prisma.FieldRef<"ShareInvitation", 'String'>
+  readonly inviteeId: Prisma.FieldRef<"ShareInvitation", 'String'>
+  readonly permission: Prisma.FieldRef<"ShareInvitation", 'SharePermission'>
+  readonly expiresInDays: Prisma.FieldRef<"ShareInvitation", 'Int'>
+  readonly status: Prisma.FieldRef<"ShareInvitation", 'InvitationStatus'>
+  readonly shareId: Prisma.FieldRef<"ShareInvitation", 'String'>
+  readonly sentAt: Prisma.FieldRef<"ShareInvitation", 'DateTime'>
+  readonly respondedAt: Prisma.FieldRef<"ShareInvitation", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ShareInvitation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShareInvitation findUnique
+ */
+export type ShareInvitationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareInvitation to fetch.
+   */
+  where: Prisma.ShareInvitationWhereUniqueInput
+}
+
+/**
+ * ShareInvitation findUniqueOrThrow
+ */
+export type ShareInvitationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareInvitation to fetch.
+   */
+  where: Prisma.ShareInvitationWhereUniqueInput
+}
+
+/**
+ * ShareInvitation findFirst
+ */
+export type ShareInvitationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareInvitation to fetch.
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareInvitations to fetch.
+   */
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShareInvitations.
+   */
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareInvitations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShareInvitations.
+   */
+  distinct?: Prisma.ShareInvitationScalarFieldEnum | Prisma.ShareInvitationScalarFieldEnum[]
+}
+
+/**
+ * ShareInvitation findFirstOrThrow
+ */
+export type ShareInvitationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareInvitation to fetch.
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareInvitations to fetch.
+   */
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShareInvitations.
+   */
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareInvitations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShareInvitations.
+   */
+  distinct?: Prisma.ShareInvitationScalarFieldEnum | Prisma.ShareInvitationScalarFieldEnum[]
+}
+
+/**
+ * ShareInvitation findMany
+ */
+export type ShareInvitationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareInvitations to fetch.
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareInvitations to fetch.
+   */
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShareInvitations.
+   */
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareInvitations.
+   */
+  skip?: number
+  distinct?: Prisma.ShareInvitationScalarFieldEnum | Prisma.ShareInvitationScalarFieldEnum[]
+}
+
+/**
+ * ShareInvitation create
+ */
+export type ShareInvitationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShareInvitation.
+   */
+  data: Prisma.XOR<Prisma.ShareInvitationCreateInput, Prisma.ShareInvitationUncheckedCreateInput>
+}
+
+/**
+ * ShareInvitation createMany
+ */
+export type ShareInvitationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShareInvitations.
+   */
+  data: Prisma.ShareInvitationCreateManyInput | Prisma.ShareInvitationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShareInvitation createManyAndReturn
+ */
+export type ShareInvitationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShareInvitations.
+   */
+  data: Prisma.ShareInvitationCreateManyInput | Prisma.ShareInvitationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShareInvitation update
+ */
+export type ShareInvitationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShareInvitation.
+   */
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateInput, Prisma.ShareInvitationUncheckedUpdateInput>
+  /**
+   * Choose, which ShareInvitation to update.
+   */
+  where: Prisma.ShareInvitationWhereUniqueInput
+}
+
+/**
+ * ShareInvitation updateMany
+ */
+export type ShareInvitationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShareInvitations.
+   */
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateManyMutationInput, Prisma.ShareInvitationUncheckedUpdateManyInput>
+  /**
+   * Filter which ShareInvitations to update
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * Limit how many ShareInvitations to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShareInvitation updateManyAndReturn
+ */
+export type ShareInvitationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * The data used to update ShareInvitations.
+   */
+  data: Prisma.XOR<Prisma.ShareInvitationUpdateManyMutationInput, Prisma.ShareInvitationUncheckedUpdateManyInput>
+  /**
+   * Filter which ShareInvitations to update
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * Limit how many ShareInvitations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShareInvitation upsert
+ */
+export type ShareInvitationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShareInvitation to update in case it exists.
+   */
+  where: Prisma.ShareInvitationWhereUniqueInput
+  /**
+   * In case the ShareInvitation found by the `where` argument doesn't exist, create a new ShareInvitation with this data.
+   */
+  create: Prisma.XOR<Prisma.ShareInvitationCreateInput, Prisma.ShareInvitationUncheckedCreateInput>
+  /**
+   * In case the ShareInvitation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShareInvitationUpdateInput, Prisma.ShareInvitationUncheckedUpdateInput>
+}
+
+/**
+ * ShareInvitation delete
+ */
+export type ShareInvitationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  /**
+   * Filter which ShareInvitation to delete.
+   */
+  where: Prisma.ShareInvitationWhereUniqueInput
+}
+
+/**
+ * ShareInvitation deleteMany
+ */
+export type ShareInvitationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShareInvitations to delete
+   */
+  where?: Prisma.ShareInvitationWhereInput
+  /**
+   * Limit how many ShareInvitations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShareInvitation.invitee
+ */
+export type ShareInvitation$inviteeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * ShareInvitation.share
+ */
+export type ShareInvitation$shareArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SharedTrip
+   */
+  select?: Prisma.SharedTripSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SharedTrip
+   */
+  omit?: Prisma.SharedTripOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SharedTripInclude<ExtArgs> | null
+  where?: Prisma.SharedTripWhereInput
+}
+
+/**
+ * ShareInvitation without action
+ */
+export type ShareInvitationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+}
@@ -0,0 +1,1652 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShareView` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ShareView
+ * 
+ */
+export type ShareViewModel = runtime.Types.Result.DefaultSelection<Prisma.$ShareViewPayload>
+
+export type AggregateShareView = {
+  _count: ShareViewCountAggregateOutputType | null
+  _avg: ShareViewAvgAggregateOutputType | null
+  _sum: ShareViewSumAggregateOutputType | null
+  _min: ShareViewMinAggregateOutputType | null
+  _max: ShareViewMaxAggregateOutputType | null
+}
+
+export type ShareViewAvgAggregateOutputType = {
+  viewCount: number | null
+}
+
+export type ShareViewSumAggregateOutputType = {
+  viewCount: number | null
+}
+
+export type ShareViewMinAggregateOutputType = {
+  id: string | null
+  shareId: string | null
+  viewerKey: string | null
+  viewerId: string | null
+  viewCount: number | null
+  firstViewedAt: Date | null
+  lastViewedAt: Date | null
+  sessionId: string | null
+}
+
+export type ShareViewMaxAggregateOutputType = {
+  id: string | null
+  shareId: string | null
+  viewerKey: string | null
+  viewerId: string | null
+  viewCount: number | null
+  firstViewedAt: Date | null
+  lastViewedAt: Date | null
+  sessionId: string | null
+}
+
+export type ShareViewCountAggregateOutputType = {
+  id: number
+  shareId: number
+  viewerKey: number
+  viewerId: number
+  viewCount: number
+  firstViewedAt: number
+  lastViewedAt: number
+  sessionId: number
+  _all: number
+}
+
+
+export type ShareViewAvgAggregateInputType = {
+  viewCount?: true
+}
+
+export type ShareViewSumAggregateInputType = {
+  viewCount?: true
+}
+
+export type ShareViewMinAggregateInputType = {
+  id?: true
+  shareId?: true
+  viewerKey?: true
+  viewerId?: true
+  viewCount?: true
+  firstViewedAt?: true
+  lastViewedAt?: true
+  sessionId?: true
+}
+
+export type ShareViewMaxAggregateInputType = {
+  id?: true
+  shareId?: true
+  viewerKey?: true
+  viewerId?: true
+  viewCount?: true
+  firstViewedAt?: true
+  lastViewedAt?: true
+  sessionId?: true
+}
+
+export type ShareViewCountAggregateInputType = {
+  id?: true
+  shareId?: true
+  viewerKey?: true
+  viewerId?: true
+  viewCount?: true
+  firstViewedAt?: true
+  lastViewedAt?: true
+  sessionId?: true
+  _all?: true
+}
+
+export type ShareViewAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShareView to aggregate.
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareViews to fetch.
+   */
+  orderBy?: Prisma.ShareViewOrderByWithRelationInput | Prisma.ShareViewOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShareViewWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareViews from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareViews.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShareViews
+  **/
+  _count?: true | ShareViewCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShareViewAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShareViewSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShareViewMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShareViewMaxAggregateInputType
+}
+
+export type GetShareViewAggregateType<T extends ShareViewAggregateArgs> = {
+      [P in keyof T & keyof AggregateShareView]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShareView[P]>
+    : Prisma.GetScalarType<T[P], AggregateShareView[P]>
+}
+
+
+
+
+export type ShareViewGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareViewWhereInput
+  orderBy?: Prisma.ShareViewOrderByWithAggregationInput | Prisma.ShareViewOrderByWithAggregationInput[]
+  by: Prisma.ShareViewScalarFieldEnum[] | Prisma.ShareViewScalarFieldEnum
+  having?: Prisma.ShareViewScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShareViewCountAggregateInputType | true
+  _avg?: ShareViewAvgAggregateInputType
+  _sum?: ShareViewSumAggregateInputType
+  _min?: ShareViewMinAggregateInputType
+  _max?: ShareViewMaxAggregateInputType
+}
+
+export type ShareViewGroupByOutputType = {
+  id: string
+  shareId: string
+  viewerKey: string
+  viewerId: string | null
+  viewCount: number
+  firstViewedAt: Date
+  lastViewedAt: Date
+  sessionId: string | null
+  _count: ShareViewCountAggregateOutputType | null
+  _avg: ShareViewAvgAggregateOutputType | null
+  _sum: ShareViewSumAggregateOutputType | null
+  _min: ShareViewMinAggregateOutputType | null
+  _max: ShareViewMaxAggregateOutputType | null
+}
+
+type GetShareViewGroupByPayload<T extends ShareViewGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShareViewGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShareViewGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShareViewGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShareViewGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShareViewWhereInput = {
+  AND?: Prisma.ShareViewWhereInput | Prisma.ShareViewWhereInput[]
+  OR?: Prisma.ShareViewWhereInput[]
+  NOT?: Prisma.ShareViewWhereInput | Prisma.ShareViewWhereInput[]
+  id?: Prisma.StringFilter<"ShareView"> | string
+  shareId?: Prisma.StringFilter<"ShareView"> | string
+  viewerKey?: Prisma.StringFilter<"ShareView"> | string
+  viewerId?: Prisma.StringNullableFilter<"ShareView"> | string | null
+  viewCount?: Prisma.IntFilter<"ShareView"> | number
+  firstViewedAt?: Prisma.DateTimeFilter<"ShareView"> | Date | string
+  lastViewedAt?: Prisma.DateTimeFilter<"ShareView"> | Date | string
+  sessionId?: Prisma.StringNullableFilter<"ShareView"> | string | null
+  share?: Prisma.XOR<Prisma.SharedTripScalarRelationFilter, Prisma.SharedTripWhereInput>
+  viewer?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type ShareViewOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  viewerKey?: Prisma.SortOrder
+  viewerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  firstViewedAt?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  sessionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  share?: Prisma.SharedTripOrderByWithRelationInput
+  viewer?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ShareViewWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  shareId_viewerKey?: Prisma.ShareViewShareIdViewerKeyCompoundUniqueInput
+  AND?: Prisma.ShareViewWhereInput | Prisma.ShareViewWhereInput[]
+  OR?: Prisma.ShareViewWhereInput[]
+  NOT?: Prisma.ShareViewWhereInput | Prisma.ShareViewWhereInput[]
+  shareId?: Prisma.StringFilter<"ShareView"> | string
+  viewerKey?: Prisma.StringFilter<"ShareView"> | string
+  viewerId?: Prisma.StringNullableFilter<"ShareView"> | string | null
+  viewCount?: Prisma.IntFilter<"ShareView"> | number
+  firstViewedAt?: Prisma.DateTimeFilter<"ShareView"> | Date | string
+  lastViewedAt?: Prisma.DateTimeFilter<"ShareView"> | Date | string
+  sessionId?: Prisma.StringNullableFilter<"ShareView"> | string | null
+  share?: Prisma.XOR<Prisma.SharedTripScalarRelationFilter, Prisma.SharedTripWhereInput>
+  viewer?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id" | "shareId_viewerKey">
+
+export type ShareViewOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  viewerKey?: Prisma.SortOrder
+  viewerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  firstViewedAt?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  sessionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ShareViewCountOrderByAggregateInput
+  _avg?: Prisma.ShareViewAvgOrderByAggregateInput
+  _max?: Prisma.ShareViewMaxOrderByAggregateInput
+  _min?: Prisma.ShareViewMinOrderByAggregateInput
+  _sum?: Prisma.ShareViewSumOrderByAggregateInput
+}
+
+export type ShareViewScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShareViewScalarWhereWithAggregatesInput | Prisma.ShareViewScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShareViewScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShareViewScalarWhereWithAggregatesInput | Prisma.ShareViewScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShareView"> | string
+  shareId?: Prisma.StringWithAggregatesFilter<"ShareView"> | string
+  viewerKey?: Prisma.StringWithAggregatesFilter<"ShareView"> | string
+  viewerId?: Prisma.StringNullableWithAggregatesFilter<"ShareView"> | string | null
+  viewCount?: Prisma.IntWithAggregatesFilter<"ShareView"> | number
+  firstViewedAt?: Prisma.DateTimeWithAggregatesFilter<"ShareView"> | Date | string
+  lastViewedAt?: Prisma.DateTimeWithAggregatesFilter<"ShareView"> | Date | string
+  sessionId?: Prisma.StringNullableWithAggregatesFilter<"ShareView"> | string | null
+}
+
+export type ShareViewCreateInput = {
+  id?: string
+  viewerKey: string
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+  share: Prisma.SharedTripCreateNestedOneWithoutViewsInput
+  viewer?: Prisma.UserCreateNestedOneWithoutShareViewsInput
+}
+
+export type ShareViewUncheckedCreateInput = {
+  id?: string
+  shareId: string
+  viewerKey: string
+  viewerId?: string | null
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+}
+
+export type ShareViewUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  share?: Prisma.SharedTripUpdateOneRequiredWithoutViewsNestedInput
+  viewer?: Prisma.UserUpdateOneWithoutShareViewsNestedInput
+}
+
+export type ShareViewUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shareId?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ShareViewCreateManyInput = {
+  id?: string
+  shareId: string
+  viewerKey: string
+  viewerId?: string | null
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+}
+
+export type ShareViewUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ShareViewUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shareId?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ShareViewListRelationFilter = {
+  every?: Prisma.ShareViewWhereInput
+  some?: Prisma.ShareViewWhereInput
+  none?: Prisma.ShareViewWhereInput
+}
+
+export type ShareViewOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShareViewShareIdViewerKeyCompoundUniqueInput = {
+  shareId: string
+  viewerKey: string
+}
+
+export type ShareViewCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  viewerKey?: Prisma.SortOrder
+  viewerId?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  firstViewedAt?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  sessionId?: Prisma.SortOrder
+}
+
+export type ShareViewAvgOrderByAggregateInput = {
+  viewCount?: Prisma.SortOrder
+}
+
+export type ShareViewMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  viewerKey?: Prisma.SortOrder
+  viewerId?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  firstViewedAt?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  sessionId?: Prisma.SortOrder
+}
+
+export type ShareViewMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shareId?: Prisma.SortOrder
+  viewerKey?: Prisma.SortOrder
+  viewerId?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  firstViewedAt?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  sessionId?: Prisma.SortOrder
+}
+
+export type ShareViewSumOrderByAggregateInput = {
+  viewCount?: Prisma.SortOrder
+}
+
+export type ShareViewCreateNestedManyWithoutViewerInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutViewerInput, Prisma.ShareViewUncheckedCreateWithoutViewerInput> | Prisma.ShareViewCreateWithoutViewerInput[] | Prisma.ShareViewUncheckedCreateWithoutViewerInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutViewerInput | Prisma.ShareViewCreateOrConnectWithoutViewerInput[]
+  createMany?: Prisma.ShareViewCreateManyViewerInputEnvelope
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+}
+
+export type ShareViewUncheckedCreateNestedManyWithoutViewerInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutViewerInput, Prisma.ShareViewUncheckedCreateWithoutViewerInput> | Prisma.ShareViewCreateWithoutViewerInput[] | Prisma.ShareViewUncheckedCreateWithoutViewerInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutViewerInput | Prisma.ShareViewCreateOrConnectWithoutViewerInput[]
+  createMany?: Prisma.ShareViewCreateManyViewerInputEnvelope
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+}
+
+export type ShareViewUpdateManyWithoutViewerNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutViewerInput, Prisma.ShareViewUncheckedCreateWithoutViewerInput> | Prisma.ShareViewCreateWithoutViewerInput[] | Prisma.ShareViewUncheckedCreateWithoutViewerInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutViewerInput | Prisma.ShareViewCreateOrConnectWithoutViewerInput[]
+  upsert?: Prisma.ShareViewUpsertWithWhereUniqueWithoutViewerInput | Prisma.ShareViewUpsertWithWhereUniqueWithoutViewerInput[]
+  createMany?: Prisma.ShareViewCreateManyViewerInputEnvelope
+  set?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  disconnect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  delete?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  update?: Prisma.ShareViewUpdateWithWhereUniqueWithoutViewerInput | Prisma.ShareViewUpdateWithWhereUniqueWithoutViewerInput[]
+  updateMany?: Prisma.ShareViewUpdateManyWithWhereWithoutViewerInput | Prisma.ShareViewUpdateManyWithWhereWithoutViewerInput[]
+  deleteMany?: Prisma.ShareViewScalarWhereInput | Prisma.ShareViewScalarWhereInput[]
+}
+
+export type ShareViewUncheckedUpdateManyWithoutViewerNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutViewerInput, Prisma.ShareViewUncheckedCreateWithoutViewerInput> | Prisma.ShareViewCreateWithoutViewerInput[] | Prisma.ShareViewUncheckedCreateWithoutViewerInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutViewerInput | Prisma.ShareViewCreateOrConnectWithoutViewerInput[]
+  upsert?: Prisma.ShareViewUpsertWithWhereUniqueWithoutViewerInput | Prisma.ShareViewUpsertWithWhereUniqueWithoutViewerInput[]
+  createMany?: Prisma.ShareViewCreateManyViewerInputEnvelope
+  set?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  disconnect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  delete?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  update?: Prisma.ShareViewUpdateWithWhereUniqueWithoutViewerInput | Prisma.ShareViewUpdateWithWhereUniqueWithoutViewerInput[]
+  updateMany?: Prisma.ShareViewUpdateManyWithWhereWithoutViewerInput | Prisma.ShareViewUpdateManyWithWhereWithoutViewerInput[]
+  deleteMany?: Prisma.ShareViewScalarWhereInput | Prisma.ShareViewScalarWhereInput[]
+}
+
+export type ShareViewCreateNestedManyWithoutShareInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutShareInput, Prisma.ShareViewUncheckedCreateWithoutShareInput> | Prisma.ShareViewCreateWithoutShareInput[] | Prisma.ShareViewUncheckedCreateWithoutShareInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutShareInput | Prisma.ShareViewCreateOrConnectWithoutShareInput[]
+  createMany?: Prisma.ShareViewCreateManyShareInputEnvelope
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+}
+
+export type ShareViewUncheckedCreateNestedManyWithoutShareInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutShareInput, Prisma.ShareViewUncheckedCreateWithoutShareInput> | Prisma.ShareViewCreateWithoutShareInput[] | Prisma.ShareViewUncheckedCreateWithoutShareInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutShareInput | Prisma.ShareViewCreateOrConnectWithoutShareInput[]
+  createMany?: Prisma.ShareViewCreateManyShareInputEnvelope
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+}
+
+export type ShareViewUpdateManyWithoutShareNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutShareInput, Prisma.ShareViewUncheckedCreateWithoutShareInput> | Prisma.ShareViewCreateWithoutShareInput[] | Prisma.ShareViewUncheckedCreateWithoutShareInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutShareInput | Prisma.ShareViewCreateOrConnectWithoutShareInput[]
+  upsert?: Prisma.ShareViewUpsertWithWhereUniqueWithoutShareInput | Prisma.ShareViewUpsertWithWhereUniqueWithoutShareInput[]
+  createMany?: Prisma.ShareViewCreateManyShareInputEnvelope
+  set?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  disconnect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  delete?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  update?: Prisma.ShareViewUpdateWithWhereUniqueWithoutShareInput | Prisma.ShareViewUpdateWithWhereUniqueWithoutShareInput[]
+  updateMany?: Prisma.ShareViewUpdateManyWithWhereWithoutShareInput | Prisma.ShareViewUpdateManyWithWhereWithoutShareInput[]
+  deleteMany?: Prisma.ShareViewScalarWhereInput | Prisma.ShareViewScalarWhereInput[]
+}
+
+export type ShareViewUncheckedUpdateManyWithoutShareNestedInput = {
+  create?: Prisma.XOR<Prisma.ShareViewCreateWithoutShareInput, Prisma.ShareViewUncheckedCreateWithoutShareInput> | Prisma.ShareViewCreateWithoutShareInput[] | Prisma.ShareViewUncheckedCreateWithoutShareInput[]
+  connectOrCreate?: Prisma.ShareViewCreateOrConnectWithoutShareInput | Prisma.ShareViewCreateOrConnectWithoutShareInput[]
+  upsert?: Prisma.ShareViewUpsertWithWhereUniqueWithoutShareInput | Prisma.ShareViewUpsertWithWhereUniqueWithoutShareInput[]
+  createMany?: Prisma.ShareViewCreateManyShareInputEnvelope
+  set?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  disconnect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  delete?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  connect?: Prisma.ShareViewWhereUniqueInput | Prisma.ShareViewWhereUniqueInput[]
+  update?: Prisma.ShareViewUpdateWithWhereUniqueWithoutShareInput | Prisma.ShareViewUpdateWithWhereUniqueWithoutShareInput[]
+  updateMany?: Prisma.ShareViewUpdateManyWithWhereWithoutShareInput | Prisma.ShareViewUpdateManyWithWhereWithoutShareInput[]
+  deleteMany?: Prisma.ShareViewScalarWhereInput | Prisma.ShareViewScalarWhereInput[]
+}
+
+export type ShareViewCreateWithoutViewerInput = {
+  id?: string
+  viewerKey: string
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+  share: Prisma.SharedTripCreateNestedOneWithoutViewsInput
+}
+
+export type ShareViewUncheckedCreateWithoutViewerInput = {
+  id?: string
+  shareId: string
+  viewerKey: string
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+}
+
+export type ShareViewCreateOrConnectWithoutViewerInput = {
+  where: Prisma.ShareViewWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShareViewCreateWithoutViewerInput, Prisma.ShareViewUncheckedCreateWithoutViewerInput>
+}
+
+export type ShareViewCreateManyViewerInputEnvelope = {
+  data: Prisma.ShareViewCreateManyViewerInput | Prisma.ShareViewCreateManyViewerInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShareViewUpsertWithWhereUniqueWithoutViewerInput = {
+  where: Prisma.ShareViewWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShareViewUpdateWithoutViewerInput, Prisma.ShareViewUncheckedUpdateWithoutViewerInput>
+  create: Prisma.XOR<Prisma.ShareViewCreateWithoutViewerInput, Prisma.ShareViewUncheckedCreateWithoutViewerInput>
+}
+
+export type ShareViewUpdateWithWhereUniqueWithoutViewerInput = {
+  where: Prisma.ShareViewWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShareViewUpdateWithoutViewerInput, Prisma.ShareViewUncheckedUpdateWithoutViewerInput>
+}
+
+export type ShareViewUpdateManyWithWhereWithoutViewerInput = {
+  where: Prisma.ShareViewScalarWhereInput
+  data: Prisma.XOR<Prisma.ShareViewUpdateManyMutationInput, Prisma.ShareViewUncheckedUpdateManyWithoutViewerInput>
+}
+
+export type ShareViewScalarWhereInput = {
+  AND?: Prisma.ShareViewScalarWhereInput | Prisma.ShareViewScalarWhereInput[]
+  OR?: Prisma.ShareViewScalarWhereInput[]
+  NOT?: Prisma.ShareViewScalarWhereInput | Prisma.ShareViewScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShareView"> | string
+  shareId?: Prisma.StringFilter<"ShareView"> | string
+  viewerKey?: Prisma.StringFilter<"ShareView"> | string
+  viewerId?: Prisma.StringNullableFilter<"ShareView"> | string | null
+  viewCount?: Prisma.IntFilter<"ShareView"> | number
+  firstViewedAt?: Prisma.DateTimeFilter<"ShareView"> | Date | string
+  lastViewedAt?: Prisma.DateTimeFilter<"ShareView"> | Date | string
+  sessionId?: Prisma.StringNullableFilter<"ShareView"> | string | null
+}
+
+export type ShareViewCreateWithoutShareInput = {
+  id?: string
+  viewerKey: string
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+  viewer?: Prisma.UserCreateNestedOneWithoutShareViewsInput
+}
+
+export type ShareViewUncheckedCreateWithoutShareInput = {
+  id?: string
+  viewerKey: string
+  viewerId?: string | null
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+}
+
+export type ShareViewCreateOrConnectWithoutShareInput = {
+  where: Prisma.ShareViewWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShareViewCreateWithoutShareInput, Prisma.ShareViewUncheckedCreateWithoutShareInput>
+}
+
+export type ShareViewCreateManyShareInputEnvelope = {
+  data: Prisma.ShareViewCreateManyShareInput | Prisma.ShareViewCreateManyShareInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShareViewUpsertWithWhereUniqueWithoutShareInput = {
+  where: Prisma.ShareViewWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShareViewUpdateWithoutShareInput, Prisma.ShareViewUncheckedUpdateWithoutShareInput>
+  create: Prisma.XOR<Prisma.ShareViewCreateWithoutShareInput, Prisma.ShareViewUncheckedCreateWithoutShareInput>
+}
+
+export type ShareViewUpdateWithWhereUniqueWithoutShareInput = {
+  where: Prisma.ShareViewWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShareViewUpdateWithoutShareInput, Prisma.ShareViewUncheckedUpdateWithoutShareInput>
+}
+
+export type ShareViewUpdateManyWithWhereWithoutShareInput = {
+  where: Prisma.ShareViewScalarWhereInput
+  data: Prisma.XOR<Prisma.ShareViewUpdateManyMutationInput, Prisma.ShareViewUncheckedUpdateManyWithoutShareInput>
+}
+
+export type ShareViewCreateManyViewerInput = {
+  id?: string
+  shareId: string
+  viewerKey: string
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+}
+
+export type ShareViewUpdateWithoutViewerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  share?: Prisma.SharedTripUpdateOneRequiredWithoutViewsNestedInput
+}
+
+export type ShareViewUncheckedUpdateWithoutViewerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shareId?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ShareViewUncheckedUpdateManyWithoutViewerInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shareId?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ShareViewCreateManyShareInput = {
+  id?: string
+  viewerKey: string
+  viewerId?: string | null
+  viewCount?: number
+  firstViewedAt?: Date | string
+  lastViewedAt?: Date | string
+  sessionId?: string | null
+}
+
+export type ShareViewUpdateWithoutShareInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  viewer?: Prisma.UserUpdateOneWithoutShareViewsNestedInput
+}
+
+export type ShareViewUncheckedUpdateWithoutShareInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type ShareViewUncheckedUpdateManyWithoutShareInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerKey?: Prisma.StringFieldUpdateOperationsInput | string
+  viewerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  firstViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastViewedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sessionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+
+
+export type ShareViewSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shareId?: boolean
+  viewerKey?: boolean
+  viewerId?: boolean
+  viewCount?: boolean
+  firstViewedAt?: boolean
+  lastViewedAt?: boolean
+  sessionId?: boolean
+  share?: boolean | Prisma.SharedTripDefaultArgs<ExtArgs>
+  viewer?: boolean | Prisma.ShareView$viewerArgs<ExtArgs>
+}, ExtArgs["result"]["shareView"]>
+
+export type ShareViewSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shareId?: boolean
+  viewerKey?: boolean
+  viewerId?: boolean
+  viewCount?: boolean
+  firstViewedAt?: boolean
+  lastViewedAt?: boolean
+  sessionId?: boolean
+  share?: boolean | Prisma.SharedTripDefaultArgs<ExtArgs>
+  viewer?: boolean | Prisma.ShareView$viewerArgs<ExtArgs>
+}, ExtArgs["result"]["shareView"]>
+
+export type ShareViewSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shareId?: boolean
+  viewerKey?: boolean
+  viewerId?: boolean
+  viewCount?: boolean
+  firstViewedAt?: boolean
+  lastViewedAt?: boolean
+  sessionId?: boolean
+  share?: boolean | Prisma.SharedTripDefaultArgs<ExtArgs>
+  viewer?: boolean | Prisma.ShareView$viewerArgs<ExtArgs>
+}, ExtArgs["result"]["shareView"]>
+
+export type ShareViewSelectScalar = {
+  id?: boolean
+  shareId?: boolean
+  viewerKey?: boolean
+  viewerId?: boolean
+  viewCount?: boolean
+  firstViewedAt?: boolean
+  lastViewedAt?: boolean
+  sessionId?: boolean
+}
+
+export type ShareViewOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "shareId" | "viewerKey" | "viewerId" | "viewCount" | "firstViewedAt" | "lastViewedAt" | "sessionId", ExtArgs["result"]["shareView"]>
+export type ShareViewInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  share?: boolean | Prisma.SharedTripDefaultArgs<ExtArgs>
+  viewer?: boolean | Prisma.ShareView$viewerArgs<ExtArgs>
+}
+export type ShareViewIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  share?: boolean | Prisma.SharedTripDefaultArgs<ExtArgs>
+  viewer?: boolean | Prisma.ShareView$viewerArgs<ExtArgs>
+}
+export type ShareViewIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  share?: boolean | Prisma.SharedTripDefaultArgs<ExtArgs>
+  viewer?: boolean | Prisma.ShareView$viewerArgs<ExtArgs>
+}
+
+export type $ShareViewPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShareView"
+  objects: {
+    share: Prisma.$SharedTripPayload<ExtArgs>
+    viewer: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    shareId: string
+    viewerKey: string
+    viewerId: string | null
+    viewCount: number
+    firstViewedAt: Date
+    lastViewedAt: Date
+    sessionId: string | null
+  }, ExtArgs["result"]["shareView"]>
+  composites: {}
+}
+
+export type ShareViewGetPayload<S extends boolean | null | undefined | ShareViewDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShareViewPayload, S>
+
+export type ShareViewCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShareViewFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShareViewCountAggregateInputType | true
+  }
+
+export interface ShareViewDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShareView'], meta: { name: 'ShareView' } }
+  /**
+   * Find zero or one ShareView that matches the filter.
+   * @param {ShareViewFindUniqueArgs} args - Arguments to find a ShareView
+   * @example
+   * // Get one ShareView
+   * const shareView = await prisma.shareView.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShareViewFindUniqueArgs>(args: Prisma.SelectSubset<T, ShareViewFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShareView that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShareViewFindUniqueOrThrowArgs} args - Arguments to find a ShareView
+   * @example
+   * // Get one ShareView
+   * const shareView = await prisma.shareView.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShareViewFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShareViewFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShareView that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewFindFirstArgs} args - Arguments to find a ShareView
+   * @example
+   * // Get one ShareView
+   * const shareView = await prisma.shareView.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShareViewFindFirstArgs>(args?: Prisma.SelectSubset<T, ShareViewFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShareView that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewFindFirstOrThrowArgs} args - Arguments to find a ShareView
+   * @example
+   * // Get one ShareView
+   * const shareView = await prisma.shareView.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShareViewFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShareViewFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShareViews that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShareViews
+   * const shareViews = await prisma.shareView.findMany()
+   * 
+   * // Get first 10 ShareViews
+   * const shareViews = await prisma.shareView.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shareViewWithIdOnly = await prisma.shareView.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShareViewFindManyArgs>(args?: Prisma.SelectSubset<T, ShareViewFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShareView.
+   * @param {ShareViewCreateArgs} args - Arguments to create a ShareView.
+   * @example
+   * // Create one ShareView
+   * const ShareView = await prisma.shareView.create({
+   *   data: {
+   *     // ... data to create a ShareView
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShareViewCreateArgs>(args: Prisma.SelectSubset<T, ShareViewCreateArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShareViews.
+   * @param {ShareViewCreateManyArgs} args - Arguments to create many ShareViews.
+   * @example
+   * // Create many ShareViews
+   * const shareView = await prisma.shareView.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShareViewCreateManyArgs>(args?: Prisma.SelectSubset<T, ShareViewCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShareViews and returns the data saved in the database.
+   * @param {ShareViewCreateManyAndReturnArgs} args - Arguments to create many ShareViews.
+   * @example
+   * // Create many ShareViews
+   * const shareView = await prisma.shareView.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShareViews and only return the `id`
+   * const shareViewWithIdOnly = await prisma.shareView.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShareViewCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShareViewCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShareView.
+   * @param {ShareViewDeleteArgs} args - Arguments to delete one ShareView.
+   * @example
+   * // Delete one ShareView
+   * const ShareView = await prisma.shareView.delete({
+   *   where: {
+   *     // ... filter to delete one ShareView
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShareViewDeleteArgs>(args: Prisma.SelectSubset<T, ShareViewDeleteArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShareView.
+   * @param {ShareViewUpdateArgs} args - Arguments to update one ShareView.
+   * @example
+   * // Update one ShareView
+   * const shareView = await prisma.shareView.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShareViewUpdateArgs>(args: Prisma.SelectSubset<T, ShareViewUpdateArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShareViews.
+   * @param {ShareViewDeleteManyArgs} args - Arguments to filter ShareViews to delete.
+   * @example
+   * // Delete a few ShareViews
+   * const { count } = await prisma.shareView.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShareViewDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShareViewDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShareViews.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShareViews
+   * const shareView = await prisma.shareView.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShareViewUpdateManyArgs>(args: Prisma.SelectSubset<T, ShareViewUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShareViews and returns the data updated in the database.
+   * @param {ShareViewUpdateManyAndReturnArgs} args - Arguments to update many ShareViews.
+   * @example
+   * // Update many ShareViews
+   * const shareView = await prisma.shareView.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShareViews and only return the `id`
+   * const shareViewWithIdOnly = await prisma.shareView.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShareViewUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShareViewUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShareView.
+   * @param {ShareViewUpsertArgs} args - Arguments to update or create a ShareView.
+   * @example
+   * // Update or create a ShareView
+   * const shareView = await prisma.shareView.upsert({
+   *   create: {
+   *     // ... data to create a ShareView
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShareView we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShareViewUpsertArgs>(args: Prisma.SelectSubset<T, ShareViewUpsertArgs<ExtArgs>>): Prisma.Prisma__ShareViewClient<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShareViews.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewCountArgs} args - Arguments to filter ShareViews to count.
+   * @example
+   * // Count the number of ShareViews
+   * const count = await prisma.shareView.count({
+   *   where: {
+   *     // ... the filter for the ShareViews we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShareViewCountArgs>(
+    args?: Prisma.Subset<T, ShareViewCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShareViewCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShareView.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShareViewAggregateArgs>(args: Prisma.Subset<T, ShareViewAggregateArgs>): Prisma.PrismaPromise<GetShareViewAggregateType<T>>
+
+  /**
+   * Group by ShareView.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShareViewGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShareViewGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShareViewGroupByArgs['orderBy'] }
+      : { orderBy?: ShareViewGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShareViewGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShareViewGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShareView model
+ */
+readonly fields: ShareViewFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShareView.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShareViewClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  share<T extends Prisma.SharedTripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SharedTripDefaultArgs<ExtArgs>>): Prisma.Prisma__SharedTripClient<runtime.Types.Result.GetResult<Prisma.$SharedTripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  viewer<T extends Prisma.ShareView$viewerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShareView$viewerArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShareView model
+ */
+export interface ShareViewFieldRefs {
+  readonly id: Prisma.FieldRef<"ShareView", 'String'>
+  readonly shareId: Prisma.FieldRef<"ShareView", 'String'>
+  readonly viewerKey: Prisma.FieldRef<"ShareView", 'String'>
+  readonly viewerId: Prisma.FieldRef<"ShareView", 'String'>
+  readonly viewCount: Prisma.FieldRef<"ShareView", 'Int'>
+  readonly firstViewedAt: Prisma.FieldRef<"ShareView", 'DateTime'>
+  readonly lastViewedAt: Prisma.FieldRef<"ShareView", 'DateTime'>
+  readonly sessionId: Prisma.FieldRef<"ShareView", 'String'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShareView findUnique
+ */
+export type ShareViewFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareView to fetch.
+   */
+  where: Prisma.ShareViewWhereUniqueInput
+}
+
+/**
+ * ShareView findUniqueOrThrow
+ */
+export type ShareViewFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareView to fetch.
+   */
+  where: Prisma.ShareViewWhereUniqueInput
+}
+
+/**
+ * ShareView findFirst
+ */
+export type ShareViewFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareView to fetch.
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareViews to fetch.
+   */
+  orderBy?: Prisma.ShareViewOrderByWithRelationInput | Prisma.ShareViewOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShareViews.
+   */
+  cursor?: Prisma.ShareViewWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareViews from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareViews.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShareViews.
+   */
+  distinct?: Prisma.ShareViewScalarFieldEnum | Prisma.ShareViewScalarFieldEnum[]
+}
+
+/**
+ * ShareView findFirstOrThrow
+ */
+export type ShareViewFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareView to fetch.
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareViews to fetch.
+   */
+  orderBy?: Prisma.ShareViewOrderByWithRelationInput | Prisma.ShareViewOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShareViews.
+   */
+  cursor?: Prisma.ShareViewWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareViews from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareViews.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShareViews.
+   */
+  distinct?: Prisma.ShareViewScalarFieldEnum | Prisma.ShareViewScalarFieldEnum[]
+}
+
+/**
+ * ShareView findMany
+ */
+export type ShareViewFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * Filter, which ShareViews to fetch.
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShareViews to fetch.
+   */
+  orderBy?: Prisma.ShareViewOrderByWithRelationInput | Prisma.ShareViewOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShareViews.
+   */
+  cursor?: Prisma.ShareViewWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShareViews from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShareViews.
+   */
+  skip?: number
+  distinct?: Prisma.ShareViewScalarFieldEnum | Prisma.ShareViewScalarFieldEnum[]
+}
+
+/**
+ * ShareView create
+ */
+export type ShareViewCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShareView.
+   */
+  data: Prisma.XOR<Prisma.ShareViewCreateInput, Prisma.ShareViewUncheckedCreateInput>
+}
+
+/**
+ * ShareView createMany
+ */
+export type ShareViewCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShareViews.
+   */
+  data: Prisma.ShareViewCreateManyInput | Prisma.ShareViewCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShareView createManyAndReturn
+ */
+export type ShareViewCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShareViews.
+   */
+  data: Prisma.ShareViewCreateManyInput | Prisma.ShareViewCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShareView update
+ */
+export type ShareViewUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShareView.
+   */
+  data: Prisma.XOR<Prisma.ShareViewUpdateInput, Prisma.ShareViewUncheckedUpdateInput>
+  /**
+   * Choose, which ShareView to update.
+   */
+  where: Prisma.ShareViewWhereUniqueInput
+}
+
+/**
+ * ShareView updateMany
+ */
+export type ShareViewUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShareViews.
+   */
+  data: Prisma.XOR<Prisma.ShareViewUpdateManyMutationInput, Prisma.ShareViewUncheckedUpdateManyInput>
+  /**
+   * Filter which ShareViews to update
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * Limit how many ShareViews to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShareView updateManyAndReturn
+ */
+export type ShareViewUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * The data used to update ShareViews.
+   */
+  data: Prisma.XOR<Prisma.ShareViewUpdateManyMutationInput, Prisma.ShareViewUncheckedUpdateManyInput>
+  /**
+   * Filter which ShareViews to update
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * Limit how many ShareViews to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShareView upsert
+ */
+export type ShareViewUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShareView to update in case it exists.
+   */
+  where: Prisma.ShareViewWhereUniqueInput
+  /**
+   * In case the ShareView found by the `where` argument doesn't exist, create a new ShareView with this data.
+   */
+  create: Prisma.XOR<Prisma.ShareViewCreateInput, Prisma.ShareViewUncheckedCreateInput>
+  /**
+   * In case the ShareView was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShareViewUpdateInput, Prisma.ShareViewUncheckedUpdateInput>
+}
+
+/**
+ * ShareView delete
+ */
+export type ShareViewDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  /**
+   * Filter which ShareView to delete.
+   */
+  where: Prisma.ShareViewWhereUniqueInput
+}
+
+/**
+ * ShareView deleteMany
+ */
+export type ShareViewDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShareViews to delete
+   */
+  where?: Prisma.ShareViewWhereInput
+  /**
+   * Limit how many ShareViews to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShareView.viewer
+ */
+export type ShareView$viewerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * ShareView without action
+ */
+export type ShareViewDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+}
@@ -20,10 +20,22 @@ export type SharedTripModel = runtime.Types.Result.DefaultSelection<Prisma.$Shar
 
 export type AggregateSharedTrip = {
   _count: SharedTripCountAggregateOutputType | null
+  _avg: SharedTripAvgAggregateOutputType | null
+  _sum: SharedTripSumAggregateOutputType | null
   _min: SharedTripMinAggregateOutputType | null
   _max: SharedTripMaxAggregateOutputType | null
 }
 
+export type SharedTripAvgAggregateOutputType = {
+  maxViews: number | null
+  viewCount: number | null
+}
+
+export type SharedTripSumAggregateOutputType = {
+  maxViews: number | null
+  viewCount: number | null
+}
+
 export type SharedTripMinAggregateOutputType = {
   id: string | null
   tripId: string | null
@@ -32,6 +44,12 @@ export type SharedTripMinAggregateOutputType = {
   publicSlug: string | null
   permission: $Enums.SharePermission | null
   expiresAt: Date | null
+  passwordHash: string | null
+  maxViews: number | null
+  viewCount: number | null
+  lastViewedAt: Date | null
+  isEnabled: boolean | null
+  includeBudget: boolean | null
   createdAt: Date | null
 }
 
@@ -43,6 +61,12 @@ export type SharedTripMaxAggregateOutputType = {
   publicSlug: string | null
   permission: $Enums.SharePermission | null
   expiresAt: Date | null
+  passwordHash: string | null
+  maxViews: number | null
+  viewCount: number | null
+  lastViewedAt: Date | null
+  isEnabled: boolean | null
+  includeBudget: boolean | null
   createdAt: Date | null
 }
 
@@ -54,11 +78,27 @@ export type SharedTripCountAggregateOutputType = {
   publicSlug: number
   permission: number
   expiresAt: number
+  passwordHash: number
+  maxViews: number
+  viewCount: number
+  lastViewedAt: number
+  isEnabled: number
+  includeBudget: number
   createdAt: number
   _all: number
 }
 
 
+export type SharedTripAvgAggregateInputType = {
+  maxViews?: true
+  viewCount?: true
+}
+
+export type SharedTripSumAggregateInputType = {
+  maxViews?: true
+  viewCount?: true
+}
+
 export type SharedTripMinAggregateInputType = {
   id?: true
   tripId?: true
@@ -67,6 +107,12 @@ export type SharedTripMinAggregateInputType = {
   publicSlug?: true
   permission?: true
   expiresAt?: true
+  passwordHash?: true
+  maxViews?: true
+  viewCount?: true
+  lastViewedAt?: true
+  isEnabled?: true
+  includeBudget?: true
   createdAt?: true
 }
 
@@ -78,6 +124,12 @@ export type SharedTripMaxAggregateInputType = {
   publicSlug?: true
   permission?: true
   expiresAt?: true
+  passwordHash?: true
+  maxViews?: true
+  viewCount?: true
+  lastViewedAt?: true
+  isEnabled?: true
+  includeBudget?: true
   createdAt?: true
 }
 
@@ -89,6 +141,12 @@ export type SharedTripCountAggregateInputType = {
   publicSlug?: true
   permission?: true
   expiresAt?: true
+  passwordHash?: true
+  maxViews?: true
+  viewCount?: true
+  lastViewedAt?: true
+  isEnabled?: true
+  includeBudget?: true
   createdAt?: true
   _all?: true
 }
@@ -128,6 +186,18 @@ export type SharedTripAggregateArgs<ExtArgs extends runtime.Types.Extensions.Int
    * Count returned SharedTrips
   **/
   _count?: true | SharedTripCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SharedTripAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SharedTripSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -161,6 +231,8 @@ export type SharedTripGroupByArgs<ExtArgs extends runtime.Types.Extensions.Inter
   take?: number
   skip?: number
   _count?: SharedTripCountAggregateInputType | true
+  _avg?: SharedTripAvgAggregateInputType
+  _sum?: SharedTripSumAggregateInputType
   _min?: SharedTripMinAggregateInputType
   _max?: SharedTripMaxAggregateInputType
 }
@@ -173,8 +245,16 @@ export type SharedTripGroupByOutputType = {
   publicSlug: string | null
   permission: $Enums.SharePermission
   expiresAt: Date | null
+  passwordHash: string | null
+  maxViews: number | null
+  viewCount: number
+  lastViewedAt: Date | null
+  isEnabled: boolean
+  includeBudget: boolean
   createdAt: Date
   _count: SharedTripCountAggregateOutputType | null
+  _avg: SharedTripAvgAggregateOutputType | null
+  _sum: SharedTripSumAggregateOutputType | null
   _min: SharedTripMinAggregateOutputType | null
   _max: SharedTripMaxAggregateOutputType | null
 }
@@ -205,10 +285,18 @@ export type SharedTripWhereInput = {
   publicSlug?: Prisma.StringNullableFilter<"SharedTrip"> | string | null
   permission?: Prisma.EnumSharePermissionFilter<"SharedTrip"> | $Enums.SharePermission
   expiresAt?: Prisma.DateTimeNullableFilter<"SharedTrip"> | Date | string | null
+  passwordHash?: Prisma.StringNullableFilter<"SharedTrip"> | string | null
+  maxViews?: Prisma.IntNullableFilter<"SharedTrip"> | number | null
+  viewCount?: Prisma.IntFilter<"SharedTrip"> | number
+  lastViewedAt?: Prisma.DateTimeNullableFilter<"SharedTrip"> | Date | string | null
+  isEnabled?: Prisma.BoolFilter<"SharedTrip"> | boolean
+  includeBudget?: Prisma.BoolFilter<"SharedTrip"> | boolean
   createdAt?: Prisma.DateTimeFilter<"SharedTrip"> | Date | string
   trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
   sharedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   sharedWith?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  invitation?: Prisma.XOR<Prisma.ShareInvitationNullableScalarRelationFilter, Prisma.ShareInvitationWhereInput> | null
+  views?: Prisma.ShareViewListRelationFilter
 }
 
 export type SharedTripOrderByWithRelationInput = {
@@ -219,10 +307,18 @@ export type SharedTripOrderByWithRelationInput = {
   publicSlug?: Prisma.SortOrderInput | Prisma.SortOrder
   permission?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  passwordHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxViews?: Prisma.SortOrderInput | Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  isEnabled?: Prisma.SortOrder
+  includeBudget?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   trip?: Prisma.TripOrderByWithRelationInput
   sharedBy?: Prisma.UserOrderByWithRelationInput
   sharedWith?: Prisma.UserOrderByWithRelationInput
+  invitation?: Prisma.ShareInvitationOrderByWithRelationInput
+  views?: Prisma.ShareViewOrderByRelationAggregateInput
 }
 
 export type SharedTripWhereUniqueInput = Prisma.AtLeast<{
@@ -236,10 +332,18 @@ export type SharedTripWhereUniqueInput = Prisma.AtLeast<{
   sharedWithId?: Prisma.StringNullableFilter<"SharedTrip"> | string | null
   permission?: Prisma.EnumSharePermissionFilter<"SharedTrip"> | $Enums.SharePermission
   expiresAt?: Prisma.DateTimeNullableFilter<"SharedTrip"> | Date | string | null
+  passwordHash?: Prisma.StringNullableFilter<"SharedTrip"> | string | null
+  maxViews?: Prisma.IntNullableFilter<"SharedTrip"> | number | null
+  viewCount?: Prisma.IntFilter<"SharedTrip"> | number
+  lastViewedAt?: Prisma.DateTimeNullableFilter<"SharedTrip"> | Date | string | null
+  isEnabled?: Prisma.BoolFilter<"SharedTrip"> | boolean
+  includeBudget?: Prisma.BoolFilter<"SharedTrip"> | boolean
   createdAt?: Prisma.DateTimeFilter<"SharedTrip"> | Date | string
   trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
   sharedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   sharedWith?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  invitation?: Prisma.XOR<Prisma.ShareInvitationNullableScalarRelationFilter, Prisma.ShareInvitationWhereInput> | null
+  views?: Prisma.ShareViewListRelationFilter
 }, "id" | "publicSlug">
 
 export type SharedTripOrderByWithAggregationInput = {
@@ -250,10 +354,18 @@ export type SharedTripOrderByWithAggregationInput = {
   publicSlug?: Prisma.SortOrderInput | Prisma.SortOrder
   permission?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  passwordHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxViews?: Prisma.SortOrderInput | Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  isEnabled?: Prisma.SortOrder
+  includeBudget?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   _count?: Prisma.SharedTripCountOrderByAggregateInput
+  _avg?: Prisma.SharedTripAvgOrderByAggregateInput
   _max?: Prisma.SharedTripMaxOrderByAggregateInput
   _min?: Prisma.SharedTripMinOrderByAggregateInput
+  _sum?: Prisma.SharedTripSumOrderByAggregateInput
 }
 
 export type SharedTripScalarWhereWithAggregatesInput = {
@@ -267,6 +379,12 @@ export type SharedTripScalarWhereWithAggregatesInput = {
   publicSlug?: Prisma.StringNullableWithAggregatesFilter<"SharedTrip"> | string | null
   permission?: Prisma.EnumSharePermissionWithAggregatesFilter<"SharedTrip"> | $Enums.SharePermission
   expiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SharedTrip"> | Date | string | null
+  passwordHash?: Prisma.StringNullableWithAggregatesFilter<"SharedTrip"> | string | null
+  maxViews?: Prisma.IntNullableWithAggregatesFilter<"SharedTrip"> | number | null
+  viewCount?: Prisma.IntWithAggregatesFilter<"SharedTrip"> | number
+  lastViewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SharedTrip"> | Date | string | null
+  isEnabled?: Prisma.BoolWithAggregatesFilter<"SharedTrip"> | boolean
+  includeBudget?: Prisma.BoolWithAggregatesFilter<"SharedTrip"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"SharedTrip"> | Date | string
 }
 
@@ -275,10 +393,18 @@ export type SharedTripCreateInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
   trip: Prisma.TripCreateNestedOneWithoutSharesInput
   sharedBy: Prisma.UserCreateNestedOneWithoutSharedTripsInput
   sharedWith?: Prisma.UserCreateNestedOneWithoutReceivedTripsInput
+  invitation?: Prisma.ShareInvitationCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripUncheckedCreateInput = {
@@ -289,7 +415,15 @@ export type SharedTripUncheckedCreateInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
+  invitation?: Prisma.ShareInvitationUncheckedCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewUncheckedCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripUpdateInput = {
@@ -297,10 +431,18 @@ export type SharedTripUpdateInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trip?: Prisma.TripUpdateOneRequiredWithoutSharesNestedInput
   sharedBy?: Prisma.UserUpdateOneRequiredWithoutSharedTripsNestedInput
   sharedWith?: Prisma.UserUpdateOneWithoutReceivedTripsNestedInput
+  invitation?: Prisma.ShareInvitationUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateInput = {
@@ -311,7 +453,15 @@ export type SharedTripUncheckedUpdateInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invitation?: Prisma.ShareInvitationUncheckedUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUncheckedUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripCreateManyInput = {
@@ -322,6 +472,12 @@ export type SharedTripCreateManyInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
 }
 
@@ -330,6 +486,12 @@ export type SharedTripUpdateManyMutationInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -341,6 +503,12 @@ export type SharedTripUncheckedUpdateManyInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -362,9 +530,20 @@ export type SharedTripCountOrderByAggregateInput = {
   publicSlug?: Prisma.SortOrder
   permission?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrder
+  passwordHash?: Prisma.SortOrder
+  maxViews?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  isEnabled?: Prisma.SortOrder
+  includeBudget?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
+export type SharedTripAvgOrderByAggregateInput = {
+  maxViews?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+}
+
 export type SharedTripMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   tripId?: Prisma.SortOrder
@@ -373,6 +552,12 @@ export type SharedTripMaxOrderByAggregateInput = {
   publicSlug?: Prisma.SortOrder
   permission?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrder
+  passwordHash?: Prisma.SortOrder
+  maxViews?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  isEnabled?: Prisma.SortOrder
+  includeBudget?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
@@ -384,9 +569,30 @@ export type SharedTripMinOrderByAggregateInput = {
   publicSlug?: Prisma.SortOrder
   permission?: Prisma.SortOrder
   expiresAt?: Prisma.SortOrder
+  passwordHash?: Prisma.SortOrder
+  maxViews?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+  lastViewedAt?: Prisma.SortOrder
+  isEnabled?: Prisma.SortOrder
+  includeBudget?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
 }
 
+export type SharedTripSumOrderByAggregateInput = {
+  maxViews?: Prisma.SortOrder
+  viewCount?: Prisma.SortOrder
+}
+
+export type SharedTripScalarRelationFilter = {
+  is?: Prisma.SharedTripWhereInput
+  isNot?: Prisma.SharedTripWhereInput
+}
+
+export type SharedTripNullableScalarRelationFilter = {
+  is?: Prisma.SharedTripWhereInput | null
+  isNot?: Prisma.SharedTripWhereInput | null
+}
+
 export type SharedTripCreateNestedManyWithoutSharedByInput = {
   create?: Prisma.XOR<Prisma.SharedTripCreateWithoutSharedByInput, Prisma.SharedTripUncheckedCreateWithoutSharedByInput> | Prisma.SharedTripCreateWithoutSharedByInput[] | Prisma.SharedTripUncheckedCreateWithoutSharedByInput[]
   connectOrCreate?: Prisma.SharedTripCreateOrConnectWithoutSharedByInput | Prisma.SharedTripCreateOrConnectWithoutSharedByInput[]
@@ -517,8 +723,34 @@ export type EnumSharePermissionFieldUpdateOperationsInput = {
   set?: $Enums.SharePermission
 }
 
-export type NullableDateTimeFieldUpdateOperationsInput = {
-  set?: Date | string | null
+export type SharedTripCreateNestedOneWithoutViewsInput = {
+  create?: Prisma.XOR<Prisma.SharedTripCreateWithoutViewsInput, Prisma.SharedTripUncheckedCreateWithoutViewsInput>
+  connectOrCreate?: Prisma.SharedTripCreateOrConnectWithoutViewsInput
+  connect?: Prisma.SharedTripWhereUniqueInput
+}
+
+export type SharedTripUpdateOneRequiredWithoutViewsNestedInput = {
+  create?: Prisma.XOR<Prisma.SharedTripCreateWithoutViewsInput, Prisma.SharedTripUncheckedCreateWithoutViewsInput>
+  connectOrCreate?: Prisma.SharedTripCreateOrConnectWithoutViewsInput
+  upsert?: Prisma.SharedTripUpsertWithoutViewsInput
+  connect?: Prisma.SharedTripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SharedTripUpdateToOneWithWhereWithoutViewsInput, Prisma.SharedTripUpdateWithoutViewsInput>, Prisma.SharedTripUncheckedUpdateWithoutViewsInput>
+}
+
+export type SharedTripCreateNestedOneWithoutInvitationInput = {
+  create?: Prisma.XOR<Prisma.SharedTripCreateWithoutInvitationInput, Prisma.SharedTripUncheckedCreateWithoutInvitationInput>
+  connectOrCreate?: Prisma.SharedTripCreateOrConnectWithoutInvitationInput
+  connect?: Prisma.SharedTripWhereUniqueInput
+}
+
+export type SharedTripUpdateOneWithoutInvitationNestedInput = {
+  create?: Prisma.XOR<Prisma.SharedTripCreateWithoutInvitationInput, Prisma.SharedTripUncheckedCreateWithoutInvitationInput>
+  connectOrCreate?: Prisma.SharedTripCreateOrConnectWithoutInvitationInput
+  upsert?: Prisma.SharedTripUpsertWithoutInvitationInput
+  disconnect?: Prisma.SharedTripWhereInput | boolean
+  delete?: Prisma.SharedTripWhereInput | boolean
+  connect?: Prisma.SharedTripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SharedTripUpdateToOneWithWhereWithoutInvitationInput, Prisma.SharedTripUpdateWithoutInvitationInput>, Prisma.SharedTripUncheckedUpdateWithoutInvitationInput>
 }
 
 export type SharedTripCreateWithoutSharedByInput = {
@@ -526,9 +758,17 @@ export type SharedTripCreateWithoutSharedByInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
   trip: Prisma.TripCreateNestedOneWithoutSharesInput
   sharedWith?: Prisma.UserCreateNestedOneWithoutReceivedTripsInput
+  invitation?: Prisma.ShareInvitationCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripUncheckedCreateWithoutSharedByInput = {
@@ -538,7 +778,15 @@ export type SharedTripUncheckedCreateWithoutSharedByInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
+  invitation?: Prisma.ShareInvitationUncheckedCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewUncheckedCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripCreateOrConnectWithoutSharedByInput = {
@@ -556,9 +804,17 @@ export type SharedTripCreateWithoutSharedWithInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
   trip: Prisma.TripCreateNestedOneWithoutSharesInput
   sharedBy: Prisma.UserCreateNestedOneWithoutSharedTripsInput
+  invitation?: Prisma.ShareInvitationCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripUncheckedCreateWithoutSharedWithInput = {
@@ -568,7 +824,15 @@ export type SharedTripUncheckedCreateWithoutSharedWithInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
+  invitation?: Prisma.ShareInvitationUncheckedCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewUncheckedCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripCreateOrConnectWithoutSharedWithInput = {
@@ -608,6 +872,12 @@ export type SharedTripScalarWhereInput = {
   publicSlug?: Prisma.StringNullableFilter<"SharedTrip"> | string | null
   permission?: Prisma.EnumSharePermissionFilter<"SharedTrip"> | $Enums.SharePermission
   expiresAt?: Prisma.DateTimeNullableFilter<"SharedTrip"> | Date | string | null
+  passwordHash?: Prisma.StringNullableFilter<"SharedTrip"> | string | null
+  maxViews?: Prisma.IntNullableFilter<"SharedTrip"> | number | null
+  viewCount?: Prisma.IntFilter<"SharedTrip"> | number
+  lastViewedAt?: Prisma.DateTimeNullableFilter<"SharedTrip"> | Date | string | null
+  isEnabled?: Prisma.BoolFilter<"SharedTrip"> | boolean
+  includeBudget?: Prisma.BoolFilter<"SharedTrip"> | boolean
   createdAt?: Prisma.DateTimeFilter<"SharedTrip"> | Date | string
 }
 
@@ -632,9 +902,17 @@ export type SharedTripCreateWithoutTripInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
   sharedBy: Prisma.UserCreateNestedOneWithoutSharedTripsInput
   sharedWith?: Prisma.UserCreateNestedOneWithoutReceivedTripsInput
+  invitation?: Prisma.ShareInvitationCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripUncheckedCreateWithoutTripInput = {
@@ -644,7 +922,15 @@ export type SharedTripUncheckedCreateWithoutTripInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
+  invitation?: Prisma.ShareInvitationUncheckedCreateNestedOneWithoutShareInput
+  views?: Prisma.ShareViewUncheckedCreateNestedManyWithoutShareInput
 }
 
 export type SharedTripCreateOrConnectWithoutTripInput = {
@@ -673,6 +959,182 @@ export type SharedTripUpdateManyWithWhereWithoutTripInput = {
   data: Prisma.XOR<Prisma.SharedTripUpdateManyMutationInput, Prisma.SharedTripUncheckedUpdateManyWithoutTripInput>
 }
 
+export type SharedTripCreateWithoutViewsInput = {
+  id?: string
+  publicSlug?: string | null
+  permission?: $Enums.SharePermission
+  expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutSharesInput
+  sharedBy: Prisma.UserCreateNestedOneWithoutSharedTripsInput
+  sharedWith?: Prisma.UserCreateNestedOneWithoutReceivedTripsInput
+  invitation?: Prisma.ShareInvitationCreateNestedOneWithoutShareInput
+}
+
+export type SharedTripUncheckedCreateWithoutViewsInput = {
+  id?: string
+  tripId: string
+  sharedById: string
+  sharedWithId?: string | null
+  publicSlug?: string | null
+  permission?: $Enums.SharePermission
+  expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
+  createdAt?: Date | string
+  invitation?: Prisma.ShareInvitationUncheckedCreateNestedOneWithoutShareInput
+}
+
+export type SharedTripCreateOrConnectWithoutViewsInput = {
+  where: Prisma.SharedTripWhereUniqueInput
+  create: Prisma.XOR<Prisma.SharedTripCreateWithoutViewsInput, Prisma.SharedTripUncheckedCreateWithoutViewsInput>
+}
+
+export type SharedTripUpsertWithoutViewsInput = {
+  update: Prisma.XOR<Prisma.SharedTripUpdateWithoutViewsInput, Prisma.SharedTripUncheckedUpdateWithoutViewsInput>
+  create: Prisma.XOR<Prisma.SharedTripCreateWithoutViewsInput, Prisma.SharedTripUncheckedCreateWithoutViewsInput>
+  where?: Prisma.SharedTripWhereInput
+}
+
+export type SharedTripUpdateToOneWithWhereWithoutViewsInput = {
+  where?: Prisma.SharedTripWhereInput
+  data: Prisma.XOR<Prisma.SharedTripUpdateWithoutViewsInput, Prisma.SharedTripUncheckedUpdateWithoutViewsInput>
+}
+
+export type SharedTripUpdateWithoutViewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutSharesNestedInput
+  sharedBy?: Prisma.UserUpdateOneRequiredWithoutSharedTripsNestedInput
+  sharedWith?: Prisma.UserUpdateOneWithoutReceivedTripsNestedInput
+  invitation?: Prisma.ShareInvitationUpdateOneWithoutShareNestedInput
+}
+
+export type SharedTripUncheckedUpdateWithoutViewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  sharedById?: Prisma.StringFieldUpdateOperationsInput | string
+  sharedWithId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invitation?: Prisma.ShareInvitationUncheckedUpdateOneWithoutShareNestedInput
+}
+
+export type SharedTripCreateWithoutInvitationInput = {
+  id?: string
+  publicSlug?: string | null
+  permission?: $Enums.SharePermission
+  expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutSharesInput
+  sharedBy: Prisma.UserCreateNestedOneWithoutSharedTripsInput
+  sharedWith?: Prisma.UserCreateNestedOneWithoutReceivedTripsInput
+  views?: Prisma.ShareViewCreateNestedManyWithoutShareInput
+}
+
+export type SharedTripUncheckedCreateWithoutInvitationInput = {
+  id?: string
+  tripId: string
+  sharedById: string
+  sharedWithId?: string | null
+  publicSlug?: string | null
+  permission?: $Enums.SharePermission
+  expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
+  createdAt?: Date | string
+  views?: Prisma.ShareViewUncheckedCreateNestedManyWithoutShareInput
+}
+
+export type SharedTripCreateOrConnectWithoutInvitationInput = {
+  where: Prisma.SharedTripWhereUniqueInput
+  create: Prisma.XOR<Prisma.SharedTripCreateWithoutInvitationInput, Prisma.SharedTripUncheckedCreateWithoutInvitationInput>
+}
+
+export type SharedTripUpsertWithoutInvitationInput = {
+  update: Prisma.XOR<Prisma.SharedTripUpdateWithoutInvitationInput, Prisma.SharedTripUncheckedUpdateWithoutInvitationInput>
+  create: Prisma.XOR<Prisma.SharedTripCreateWithoutInvitationInput, Prisma.SharedTripUncheckedCreateWithoutInvitationInput>
+  where?: Prisma.SharedTripWhereInput
+}
+
+export type SharedTripUpdateToOneWithWhereWithoutInvitationInput = {
+  where?: Prisma.SharedTripWhereInput
+  data: Prisma.XOR<Prisma.SharedTripUpdateWithoutInvitationInput, Prisma.SharedTripUncheckedUpdateWithoutInvitationInput>
+}
+
+export type SharedTripUpdateWithoutInvitationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutSharesNestedInput
+  sharedBy?: Prisma.UserUpdateOneRequiredWithoutSharedTripsNestedInput
+  sharedWith?: Prisma.UserUpdateOneWithoutReceivedTripsNestedInput
+  views?: Prisma.ShareViewUpdateManyWithoutShareNestedInput
+}
+
+export type SharedTripUncheckedUpdateWithoutInvitationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  sharedById?: Prisma.StringFieldUpdateOperationsInput | string
+  sharedWithId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  views?: Prisma.ShareViewUncheckedUpdateManyWithoutShareNestedInput
+}
+
 export type SharedTripCreateManySharedByInput = {
   id?: string
   tripId: string
@@ -680,6 +1142,12 @@ export type SharedTripCreateManySharedByInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
 }
 
@@ -690,6 +1158,12 @@ export type SharedTripCreateManySharedWithInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
 }
 
@@ -698,9 +1172,17 @@ export type SharedTripUpdateWithoutSharedByInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trip?: Prisma.TripUpdateOneRequiredWithoutSharesNestedInput
   sharedWith?: Prisma.UserUpdateOneWithoutReceivedTripsNestedInput
+  invitation?: Prisma.ShareInvitationUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateWithoutSharedByInput = {
@@ -710,7 +1192,15 @@ export type SharedTripUncheckedUpdateWithoutSharedByInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invitation?: Prisma.ShareInvitationUncheckedUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUncheckedUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateManyWithoutSharedByInput = {
@@ -720,6 +1210,12 @@ export type SharedTripUncheckedUpdateManyWithoutSharedByInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -728,9 +1224,17 @@ export type SharedTripUpdateWithoutSharedWithInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trip?: Prisma.TripUpdateOneRequiredWithoutSharesNestedInput
   sharedBy?: Prisma.UserUpdateOneRequiredWithoutSharedTripsNestedInput
+  invitation?: Prisma.ShareInvitationUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateWithoutSharedWithInput = {
@@ -740,7 +1244,15 @@ export type SharedTripUncheckedUpdateWithoutSharedWithInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invitation?: Prisma.ShareInvitationUncheckedUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUncheckedUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateManyWithoutSharedWithInput = {
@@ -750,6 +1262,12 @@ export type SharedTripUncheckedUpdateManyWithoutSharedWithInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -760,6 +1278,12 @@ export type SharedTripCreateManyTripInput = {
   publicSlug?: string | null
   permission?: $Enums.SharePermission
   expiresAt?: Date | string | null
+  passwordHash?: string | null
+  maxViews?: number | null
+  viewCount?: number
+  lastViewedAt?: Date | string | null
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: Date | string
 }
 
@@ -768,9 +1292,17 @@ export type SharedTripUpdateWithoutTripInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   sharedBy?: Prisma.UserUpdateOneRequiredWithoutSharedTripsNestedInput
   sharedWith?: Prisma.UserUpdateOneWithoutReceivedTripsNestedInput
+  invitation?: Prisma.ShareInvitationUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateWithoutTripInput = {
@@ -780,7 +1312,15 @@ export type SharedTripUncheckedUpdateWithoutTripInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invitation?: Prisma.ShareInvitationUncheckedUpdateOneWithoutShareNestedInput
+  views?: Prisma.ShareViewUncheckedUpdateManyWithoutShareNestedInput
 }
 
 export type SharedTripUncheckedUpdateManyWithoutTripInput = {
@@ -790,10 +1330,45 @@ export type SharedTripUncheckedUpdateManyWithoutTripInput = {
   publicSlug?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   permission?: Prisma.EnumSharePermissionFieldUpdateOperationsInput | $Enums.SharePermission
   expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxViews?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  viewCount?: Prisma.IntFieldUpdateOperationsInput | number
+  lastViewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  includeBudget?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type SharedTripCountOutputType
+ */
+
+export type SharedTripCountOutputType = {
+  views: number
+}
+
+export type SharedTripCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  views?: boolean | SharedTripCountOutputTypeCountViewsArgs
+}
+
+/**
+ * SharedTripCountOutputType without action
+ */
+export type SharedTripCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SharedTripCountOutputType
+   */
+  select?: Prisma.SharedTripCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * SharedTripCountOutputType without action
+ */
+export type SharedTripCountOutputTypeCountViewsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareViewWhereInput
+}
+
 
 export type SharedTripSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -803,10 +1378,19 @@ export type SharedTripSelect<ExtArgs extends runtime.Types.Extensions.InternalAr
   publicSlug?: boolean
   permission?: boolean
   expiresAt?: boolean
+  passwordHash?: boolean
+  maxViews?: boolean
+  viewCount?: boolean
+  lastViewedAt?: boolean
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: boolean
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
   sharedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   sharedWith?: boolean | Prisma.SharedTrip$sharedWithArgs<ExtArgs>
+  invitation?: boolean | Prisma.SharedTrip$invitationArgs<ExtArgs>
+  views?: boolean | Prisma.SharedTrip$viewsArgs<ExtArgs>
+  _count?: boolean | Prisma.SharedTripCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["sharedTrip"]>
 
 export type SharedTripSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -817,6 +1401,12 @@ export type SharedTripSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ex
   publicSlug?: boolean
   permission?: boolean
   expiresAt?: boolean
+  passwordHash?: boolean
+  maxViews?: boolean
+  viewCount?: boolean
+  lastViewedAt?: boolean
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: boolean
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
   sharedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -831,6 +1421,12 @@ export type SharedTripSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ex
   publicSlug?: boolean
   permission?: boolean
   expiresAt?: boolean
+  passwordHash?: boolean
+  maxViews?: boolean
+  viewCount?: boolean
+  lastViewedAt?: boolean
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: boolean
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
   sharedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -845,14 +1441,23 @@ export type SharedTripSelectScalar = {
   publicSlug?: boolean
   permission?: boolean
   expiresAt?: boolean
+  passwordHash?: boolean
+  maxViews?: boolean
+  viewCount?: boolean
+  lastViewedAt?: boolean
+  isEnabled?: boolean
+  includeBudget?: boolean
   createdAt?: boolean
 }
 
-export type SharedTripOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "sharedById" | "sharedWithId" | "publicSlug" | "permission" | "expiresAt" | "createdAt", ExtArgs["result"]["sharedTrip"]>
+export type SharedTripOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "sharedById" | "sharedWithId" | "publicSlug" | "permission" | "expiresAt" | "passwordHash" | "maxViews" | "viewCount" | "lastViewedAt" | "isEnabled" | "includeBudget" | "createdAt", ExtArgs["result"]["sharedTrip"]>
 export type SharedTripInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
   sharedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   sharedWith?: boolean | Prisma.SharedTrip$sharedWithArgs<ExtArgs>
+  invitation?: boolean | Prisma.SharedTrip$invitationArgs<ExtArgs>
+  views?: boolean | Prisma.SharedTrip$viewsArgs<ExtArgs>
+  _count?: boolean | Prisma.SharedTripCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type SharedTripIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
@@ -871,6 +1476,8 @@ export type $SharedTripPayload<ExtArgs extends runtime.Types.Extensions.Internal
     trip: Prisma.$TripPayload<ExtArgs>
     sharedBy: Prisma.$UserPayload<ExtArgs>
     sharedWith: Prisma.$UserPayload<ExtArgs> | null
+    invitation: Prisma.$ShareInvitationPayload<ExtArgs> | null
+    views: Prisma.$ShareViewPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -880,6 +1487,12 @@ export type $SharedTripPayload<ExtArgs extends runtime.Types.Extensions.Internal
     publicSlug: string | null
     permission: $Enums.SharePermission
     expiresAt: Date | null
+    passwordHash: string | null
+    maxViews: number | null
+    viewCount: number
+    lastViewedAt: Date | null
+    isEnabled: boolean
+    includeBudget: boolean
     createdAt: Date
   }, ExtArgs["result"]["sharedTrip"]>
   composites: {}
@@ -1278,6 +1891,8 @@ export interface Prisma__SharedTripClient<T, Null = never, ExtArgs extends runti
   trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   sharedBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   sharedWith<T extends Prisma.SharedTrip$sharedWithArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SharedTrip$sharedWithArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  invitation<T extends Prisma.SharedTrip$invitationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SharedTrip$invitationArgs<ExtArgs>>): Prisma.Prisma__ShareInvitationClient<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  views<T extends Prisma.SharedTrip$viewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SharedTrip$viewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1314,6 +1929,12 @@ export interface SharedTripFieldRefs {
   readonly publicSlug: Prisma.FieldRef<"SharedTrip", 'String'>
   readonly permission: Prisma.FieldRef<"SharedTrip", 'SharePermission'>
   readonly expiresAt: Prisma.FieldRef<"SharedTrip", 'DateTime'>
+  readonly passwordHash: Prisma.FieldRef<"SharedTrip", 'String'>
+  readonly maxViews: Prisma.FieldRef<"SharedTrip", 'Int'>
+  readonly viewCount: Prisma.FieldRef<"SharedTrip", 'Int'>
+  readonly lastViewedAt: Prisma.FieldRef<"SharedTrip", 'DateTime'>
+  readonly isEnabled: Prisma.FieldRef<"SharedTrip", 'Boolean'>
+  readonly includeBudget: Prisma.FieldRef<"SharedTrip", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"SharedTrip", 'DateTime'>
 }
     
@@ -1729,6 +2350,49 @@ export type SharedTrip$sharedWithArgs<ExtArgs extends runtime.Types.Extensions.I
   where?: Prisma.UserWhereInput
 }
 
+/**
+ * SharedTrip.invitation
+ */
+export type SharedTrip$invitationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  where?: Prisma.ShareInvitationWhereInput
+}
+
+/**
+ * SharedTrip.views
+ */
+export type SharedTrip$viewsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  where?: Prisma.ShareViewWhereInput
+  orderBy?: Prisma.ShareViewOrderByWithRelationInput | Prisma.ShareViewOrderByWithRelationInput[]
+  cursor?: Prisma.ShareViewWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShareViewScalarFieldEnum | Prisma.ShareViewScalarFieldEnum[]
+}
+
 /**
  * SharedTrip without action
  */
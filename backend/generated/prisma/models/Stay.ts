@@ -0,0 +1,1926 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Stay` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Stay
+ * 
+ */
+export type StayModel = runtime.Types.Result.DefaultSelection<Prisma.$StayPayload>
+
+export type AggregateStay = {
+  _count: StayCountAggregateOutputType | null
+  _avg: StayAvgAggregateOutputType | null
+  _sum: StaySumAggregateOutputType | null
+  _min: StayMinAggregateOutputType | null
+  _max: StayMaxAggregateOutputType | null
+}
+
+export type StayAvgAggregateOutputType = {
+  latitude: number | null
+  longitude: number | null
+  nightlyCost: runtime.Decimal | null
+}
+
+export type StaySumAggregateOutputType = {
+  latitude: number | null
+  longitude: number | null
+  nightlyCost: runtime.Decimal | null
+}
+
+export type StayMinAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  cityId: string | null
+  name: string | null
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  checkIn: Date | null
+  checkOut: Date | null
+  nightlyCost: runtime.Decimal | null
+  currency: string | null
+  confirmationNumber: string | null
+  notes: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type StayMaxAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  cityId: string | null
+  name: string | null
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  checkIn: Date | null
+  checkOut: Date | null
+  nightlyCost: runtime.Decimal | null
+  currency: string | null
+  confirmationNumber: string | null
+  notes: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type StayCountAggregateOutputType = {
+  id: number
+  tripId: number
+  cityId: number
+  name: number
+  address: number
+  latitude: number
+  longitude: number
+  checkIn: number
+  checkOut: number
+  nightlyCost: number
+  currency: number
+  confirmationNumber: number
+  notes: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type StayAvgAggregateInputType = {
+  latitude?: true
+  longitude?: true
+  nightlyCost?: true
+}
+
+export type StaySumAggregateInputType = {
+  latitude?: true
+  longitude?: true
+  nightlyCost?: true
+}
+
+export type StayMinAggregateInputType = {
+  id?: true
+  tripId?: true
+  cityId?: true
+  name?: true
+  address?: true
+  latitude?: true
+  longitude?: true
+  checkIn?: true
+  checkOut?: true
+  nightlyCost?: true
+  currency?: true
+  confirmationNumber?: true
+  notes?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type StayMaxAggregateInputType = {
+  id?: true
+  tripId?: true
+  cityId?: true
+  name?: true
+  address?: true
+  latitude?: true
+  longitude?: true
+  checkIn?: true
+  checkOut?: true
+  nightlyCost?: true
+  currency?: true
+  confirmationNumber?: true
+  notes?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type StayCountAggregateInputType = {
+  id?: true
+  tripId?: true
+  cityId?: true
+  name?: true
+  address?: true
+  latitude?: true
+  longitude?: true
+  checkIn?: true
+  checkOut?: true
+  nightlyCost?: true
+  currency?: true
+  confirmationNumber?: true
+  notes?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type StayAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Stay to aggregate.
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Stays to fetch.
+   */
+  orderBy?: Prisma.StayOrderByWithRelationInput | Prisma.StayOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.StayWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Stays from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Stays.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Stays
+  **/
+  _count?: true | StayCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: StayAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: StaySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: StayMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: StayMaxAggregateInputType
+}
+
+export type GetStayAggregateType<T extends StayAggregateArgs> = {
+      [P in keyof T & keyof AggregateStay]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateStay[P]>
+    : Prisma.GetScalarType<T[P], AggregateStay[P]>
+}
+
+
+
+
+export type StayGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StayWhereInput
+  orderBy?: Prisma.StayOrderByWithAggregationInput | Prisma.StayOrderByWithAggregationInput[]
+  by: Prisma.StayScalarFieldEnum[] | Prisma.StayScalarFieldEnum
+  having?: Prisma.StayScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: StayCountAggregateInputType | true
+  _avg?: StayAvgAggregateInputType
+  _sum?: StaySumAggregateInputType
+  _min?: StayMinAggregateInputType
+  _max?: StayMaxAggregateInputType
+}
+
+export type StayGroupByOutputType = {
+  id: string
+  tripId: string
+  cityId: string
+  name: string
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  checkIn: Date
+  checkOut: Date
+  nightlyCost: runtime.Decimal
+  currency: string
+  confirmationNumber: string | null
+  notes: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: StayCountAggregateOutputType | null
+  _avg: StayAvgAggregateOutputType | null
+  _sum: StaySumAggregateOutputType | null
+  _min: StayMinAggregateOutputType | null
+  _max: StayMaxAggregateOutputType | null
+}
+
+type GetStayGroupByPayload<T extends StayGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<StayGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof StayGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], StayGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], StayGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type StayWhereInput = {
+  AND?: Prisma.StayWhereInput | Prisma.StayWhereInput[]
+  OR?: Prisma.StayWhereInput[]
+  NOT?: Prisma.StayWhereInput | Prisma.StayWhereInput[]
+  id?: Prisma.StringFilter<"Stay"> | string
+  tripId?: Prisma.StringFilter<"Stay"> | string
+  cityId?: Prisma.StringFilter<"Stay"> | string
+  name?: Prisma.StringFilter<"Stay"> | string
+  address?: Prisma.StringNullableFilter<"Stay"> | string | null
+  latitude?: Prisma.FloatNullableFilter<"Stay"> | number | null
+  longitude?: Prisma.FloatNullableFilter<"Stay"> | number | null
+  checkIn?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  checkOut?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  nightlyCost?: Prisma.DecimalFilter<"Stay"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Stay"> | string
+  confirmationNumber?: Prisma.StringNullableFilter<"Stay"> | string | null
+  notes?: Prisma.StringNullableFilter<"Stay"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  city?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
+}
+
+export type StayOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  cityId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrderInput | Prisma.SortOrder
+  latitude?: Prisma.SortOrderInput | Prisma.SortOrder
+  longitude?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkIn?: Prisma.SortOrder
+  checkOut?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  confirmationNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  trip?: Prisma.TripOrderByWithRelationInput
+  city?: Prisma.CityOrderByWithRelationInput
+}
+
+export type StayWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.StayWhereInput | Prisma.StayWhereInput[]
+  OR?: Prisma.StayWhereInput[]
+  NOT?: Prisma.StayWhereInput | Prisma.StayWhereInput[]
+  tripId?: Prisma.StringFilter<"Stay"> | string
+  cityId?: Prisma.StringFilter<"Stay"> | string
+  name?: Prisma.StringFilter<"Stay"> | string
+  address?: Prisma.StringNullableFilter<"Stay"> | string | null
+  latitude?: Prisma.FloatNullableFilter<"Stay"> | number | null
+  longitude?: Prisma.FloatNullableFilter<"Stay"> | number | null
+  checkIn?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  checkOut?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  nightlyCost?: Prisma.DecimalFilter<"Stay"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Stay"> | string
+  confirmationNumber?: Prisma.StringNullableFilter<"Stay"> | string | null
+  notes?: Prisma.StringNullableFilter<"Stay"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  city?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
+}, "id">
+
+export type StayOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  cityId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrderInput | Prisma.SortOrder
+  latitude?: Prisma.SortOrderInput | Prisma.SortOrder
+  longitude?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkIn?: Prisma.SortOrder
+  checkOut?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  confirmationNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.StayCountOrderByAggregateInput
+  _avg?: Prisma.StayAvgOrderByAggregateInput
+  _max?: Prisma.StayMaxOrderByAggregateInput
+  _min?: Prisma.StayMinOrderByAggregateInput
+  _sum?: Prisma.StaySumOrderByAggregateInput
+}
+
+export type StayScalarWhereWithAggregatesInput = {
+  AND?: Prisma.StayScalarWhereWithAggregatesInput | Prisma.StayScalarWhereWithAggregatesInput[]
+  OR?: Prisma.StayScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.StayScalarWhereWithAggregatesInput | Prisma.StayScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Stay"> | string
+  tripId?: Prisma.StringWithAggregatesFilter<"Stay"> | string
+  cityId?: Prisma.StringWithAggregatesFilter<"Stay"> | string
+  name?: Prisma.StringWithAggregatesFilter<"Stay"> | string
+  address?: Prisma.StringNullableWithAggregatesFilter<"Stay"> | string | null
+  latitude?: Prisma.FloatNullableWithAggregatesFilter<"Stay"> | number | null
+  longitude?: Prisma.FloatNullableWithAggregatesFilter<"Stay"> | number | null
+  checkIn?: Prisma.DateTimeWithAggregatesFilter<"Stay"> | Date | string
+  checkOut?: Prisma.DateTimeWithAggregatesFilter<"Stay"> | Date | string
+  nightlyCost?: Prisma.DecimalWithAggregatesFilter<"Stay"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringWithAggregatesFilter<"Stay"> | string
+  confirmationNumber?: Prisma.StringNullableWithAggregatesFilter<"Stay"> | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"Stay"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Stay"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Stay"> | Date | string
+}
+
+export type StayCreateInput = {
+  id?: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutStaysInput
+  city: Prisma.CityCreateNestedOneWithoutStaysInput
+}
+
+export type StayUncheckedCreateInput = {
+  id?: string
+  tripId: string
+  cityId: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StayUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutStaysNestedInput
+  city?: Prisma.CityUpdateOneRequiredWithoutStaysNestedInput
+}
+
+export type StayUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  cityId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StayCreateManyInput = {
+  id?: string
+  tripId: string
+  cityId: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StayUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StayUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  cityId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StayListRelationFilter = {
+  every?: Prisma.StayWhereInput
+  some?: Prisma.StayWhereInput
+  none?: Prisma.StayWhereInput
+}
+
+export type StayOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type StayCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  cityId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  latitude?: Prisma.SortOrder
+  longitude?: Prisma.SortOrder
+  checkIn?: Prisma.SortOrder
+  checkOut?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  confirmationNumber?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StayAvgOrderByAggregateInput = {
+  latitude?: Prisma.SortOrder
+  longitude?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+}
+
+export type StayMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  cityId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  latitude?: Prisma.SortOrder
+  longitude?: Prisma.SortOrder
+  checkIn?: Prisma.SortOrder
+  checkOut?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  confirmationNumber?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StayMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  cityId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  address?: Prisma.SortOrder
+  latitude?: Prisma.SortOrder
+  longitude?: Prisma.SortOrder
+  checkIn?: Prisma.SortOrder
+  checkOut?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  confirmationNumber?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StaySumOrderByAggregateInput = {
+  latitude?: Prisma.SortOrder
+  longitude?: Prisma.SortOrder
+  nightlyCost?: Prisma.SortOrder
+}
+
+export type StayCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutTripInput, Prisma.StayUncheckedCreateWithoutTripInput> | Prisma.StayCreateWithoutTripInput[] | Prisma.StayUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutTripInput | Prisma.StayCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.StayCreateManyTripInputEnvelope
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+}
+
+export type StayUncheckedCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutTripInput, Prisma.StayUncheckedCreateWithoutTripInput> | Prisma.StayCreateWithoutTripInput[] | Prisma.StayUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutTripInput | Prisma.StayCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.StayCreateManyTripInputEnvelope
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+}
+
+export type StayUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutTripInput, Prisma.StayUncheckedCreateWithoutTripInput> | Prisma.StayCreateWithoutTripInput[] | Prisma.StayUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutTripInput | Prisma.StayCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.StayUpsertWithWhereUniqueWithoutTripInput | Prisma.StayUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.StayCreateManyTripInputEnvelope
+  set?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  disconnect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  delete?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  update?: Prisma.StayUpdateWithWhereUniqueWithoutTripInput | Prisma.StayUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.StayUpdateManyWithWhereWithoutTripInput | Prisma.StayUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.StayScalarWhereInput | Prisma.StayScalarWhereInput[]
+}
+
+export type StayUncheckedUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutTripInput, Prisma.StayUncheckedCreateWithoutTripInput> | Prisma.StayCreateWithoutTripInput[] | Prisma.StayUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutTripInput | Prisma.StayCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.StayUpsertWithWhereUniqueWithoutTripInput | Prisma.StayUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.StayCreateManyTripInputEnvelope
+  set?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  disconnect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  delete?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  update?: Prisma.StayUpdateWithWhereUniqueWithoutTripInput | Prisma.StayUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.StayUpdateManyWithWhereWithoutTripInput | Prisma.StayUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.StayScalarWhereInput | Prisma.StayScalarWhereInput[]
+}
+
+export type StayCreateNestedManyWithoutCityInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutCityInput, Prisma.StayUncheckedCreateWithoutCityInput> | Prisma.StayCreateWithoutCityInput[] | Prisma.StayUncheckedCreateWithoutCityInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutCityInput | Prisma.StayCreateOrConnectWithoutCityInput[]
+  createMany?: Prisma.StayCreateManyCityInputEnvelope
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+}
+
+export type StayUncheckedCreateNestedManyWithoutCityInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutCityInput, Prisma.StayUncheckedCreateWithoutCityInput> | Prisma.StayCreateWithoutCityInput[] | Prisma.StayUncheckedCreateWithoutCityInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutCityInput | Prisma.StayCreateOrConnectWithoutCityInput[]
+  createMany?: Prisma.StayCreateManyCityInputEnvelope
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+}
+
+export type StayUpdateManyWithoutCityNestedInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutCityInput, Prisma.StayUncheckedCreateWithoutCityInput> | Prisma.StayCreateWithoutCityInput[] | Prisma.StayUncheckedCreateWithoutCityInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutCityInput | Prisma.StayCreateOrConnectWithoutCityInput[]
+  upsert?: Prisma.StayUpsertWithWhereUniqueWithoutCityInput | Prisma.StayUpsertWithWhereUniqueWithoutCityInput[]
+  createMany?: Prisma.StayCreateManyCityInputEnvelope
+  set?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  disconnect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  delete?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  update?: Prisma.StayUpdateWithWhereUniqueWithoutCityInput | Prisma.StayUpdateWithWhereUniqueWithoutCityInput[]
+  updateMany?: Prisma.StayUpdateManyWithWhereWithoutCityInput | Prisma.StayUpdateManyWithWhereWithoutCityInput[]
+  deleteMany?: Prisma.StayScalarWhereInput | Prisma.StayScalarWhereInput[]
+}
+
+export type StayUncheckedUpdateManyWithoutCityNestedInput = {
+  create?: Prisma.XOR<Prisma.StayCreateWithoutCityInput, Prisma.StayUncheckedCreateWithoutCityInput> | Prisma.StayCreateWithoutCityInput[] | Prisma.StayUncheckedCreateWithoutCityInput[]
+  connectOrCreate?: Prisma.StayCreateOrConnectWithoutCityInput | Prisma.StayCreateOrConnectWithoutCityInput[]
+  upsert?: Prisma.StayUpsertWithWhereUniqueWithoutCityInput | Prisma.StayUpsertWithWhereUniqueWithoutCityInput[]
+  createMany?: Prisma.StayCreateManyCityInputEnvelope
+  set?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  disconnect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  delete?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  connect?: Prisma.StayWhereUniqueInput | Prisma.StayWhereUniqueInput[]
+  update?: Prisma.StayUpdateWithWhereUniqueWithoutCityInput | Prisma.StayUpdateWithWhereUniqueWithoutCityInput[]
+  updateMany?: Prisma.StayUpdateManyWithWhereWithoutCityInput | Prisma.StayUpdateManyWithWhereWithoutCityInput[]
+  deleteMany?: Prisma.StayScalarWhereInput | Prisma.StayScalarWhereInput[]
+}
+
+export type StayCreateWithoutTripInput = {
+  id?: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  city: Prisma.CityCreateNestedOneWithoutStaysInput
+}
+
+export type StayUncheckedCreateWithoutTripInput = {
+  id?: string
+  cityId: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StayCreateOrConnectWithoutTripInput = {
+  where: Prisma.StayWhereUniqueInput
+  create: Prisma.XOR<Prisma.StayCreateWithoutTripInput, Prisma.StayUncheckedCreateWithoutTripInput>
+}
+
+export type StayCreateManyTripInputEnvelope = {
+  data: Prisma.StayCreateManyTripInput | Prisma.StayCreateManyTripInput[]
+  skipDuplicates?: boolean
+}
+
+export type StayUpsertWithWhereUniqueWithoutTripInput = {
+  where: Prisma.StayWhereUniqueInput
+  update: Prisma.XOR<Prisma.StayUpdateWithoutTripInput, Prisma.StayUncheckedUpdateWithoutTripInput>
+  create: Prisma.XOR<Prisma.StayCreateWithoutTripInput, Prisma.StayUncheckedCreateWithoutTripInput>
+}
+
+export type StayUpdateWithWhereUniqueWithoutTripInput = {
+  where: Prisma.StayWhereUniqueInput
+  data: Prisma.XOR<Prisma.StayUpdateWithoutTripInput, Prisma.StayUncheckedUpdateWithoutTripInput>
+}
+
+export type StayUpdateManyWithWhereWithoutTripInput = {
+  where: Prisma.StayScalarWhereInput
+  data: Prisma.XOR<Prisma.StayUpdateManyMutationInput, Prisma.StayUncheckedUpdateManyWithoutTripInput>
+}
+
+export type StayScalarWhereInput = {
+  AND?: Prisma.StayScalarWhereInput | Prisma.StayScalarWhereInput[]
+  OR?: Prisma.StayScalarWhereInput[]
+  NOT?: Prisma.StayScalarWhereInput | Prisma.StayScalarWhereInput[]
+  id?: Prisma.StringFilter<"Stay"> | string
+  tripId?: Prisma.StringFilter<"Stay"> | string
+  cityId?: Prisma.StringFilter<"Stay"> | string
+  name?: Prisma.StringFilter<"Stay"> | string
+  address?: Prisma.StringNullableFilter<"Stay"> | string | null
+  latitude?: Prisma.FloatNullableFilter<"Stay"> | number | null
+  longitude?: Prisma.FloatNullableFilter<"Stay"> | number | null
+  checkIn?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  checkOut?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  nightlyCost?: Prisma.DecimalFilter<"Stay"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"Stay"> | string
+  confirmationNumber?: Prisma.StringNullableFilter<"Stay"> | string | null
+  notes?: Prisma.StringNullableFilter<"Stay"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Stay"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Stay"> | Date | string
+}
+
+export type StayCreateWithoutCityInput = {
+  id?: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutStaysInput
+}
+
+export type StayUncheckedCreateWithoutCityInput = {
+  id?: string
+  tripId: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StayCreateOrConnectWithoutCityInput = {
+  where: Prisma.StayWhereUniqueInput
+  create: Prisma.XOR<Prisma.StayCreateWithoutCityInput, Prisma.StayUncheckedCreateWithoutCityInput>
+}
+
+export type StayCreateManyCityInputEnvelope = {
+  data: Prisma.StayCreateManyCityInput | Prisma.StayCreateManyCityInput[]
+  skipDuplicates?: boolean
+}
+
+export type StayUpsertWithWhereUniqueWithoutCityInput = {
+  where: Prisma.StayWhereUniqueInput
+  update: Prisma.XOR<Prisma.StayUpdateWithoutCityInput, Prisma.StayUncheckedUpdateWithoutCityInput>
+  create: Prisma.XOR<Prisma.StayCreateWithoutCityInput, Prisma.StayUncheckedCreateWithoutCityInput>
+}
+
+export type StayUpdateWithWhereUniqueWithoutCityInput = {
+  where: Prisma.StayWhereUniqueInput
+  data: Prisma.XOR<Prisma.StayUpdateWithoutCityInput, Prisma.StayUncheckedUpdateWithoutCityInput>
+}
+
+export type StayUpdateManyWithWhereWithoutCityInput = {
+  where: Prisma.StayScalarWhereInput
+  data: Prisma.XOR<Prisma.StayUpdateManyMutationInput, Prisma.StayUncheckedUpdateManyWithoutCityInput>
+}
+
+export type StayCreateManyTripInput = {
+  id?: string
+  cityId: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StayUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  city?: Prisma.CityUpdateOneRequiredWithoutStaysNestedInput
+}
+
+export type StayUncheckedUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cityId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StayUncheckedUpdateManyWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  cityId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StayCreateManyCityInput = {
+  id?: string
+  tripId: string
+  name: string
+  address?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  checkIn: Date | string
+  checkOut: Date | string
+  nightlyCost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  confirmationNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type StayUpdateWithoutCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutStaysNestedInput
+}
+
+export type StayUncheckedUpdateWithoutCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StayUncheckedUpdateManyWithoutCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  latitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  longitude?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  checkIn?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  checkOut?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  nightlyCost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  confirmationNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type StaySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  cityId?: boolean
+  name?: boolean
+  address?: boolean
+  latitude?: boolean
+  longitude?: boolean
+  checkIn?: boolean
+  checkOut?: boolean
+  nightlyCost?: boolean
+  currency?: boolean
+  confirmationNumber?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["stay"]>
+
+export type StaySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  cityId?: boolean
+  name?: boolean
+  address?: boolean
+  latitude?: boolean
+  longitude?: boolean
+  checkIn?: boolean
+  checkOut?: boolean
+  nightlyCost?: boolean
+  currency?: boolean
+  confirmationNumber?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["stay"]>
+
+export type StaySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  cityId?: boolean
+  name?: boolean
+  address?: boolean
+  latitude?: boolean
+  longitude?: boolean
+  checkIn?: boolean
+  checkOut?: boolean
+  nightlyCost?: boolean
+  currency?: boolean
+  confirmationNumber?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["stay"]>
+
+export type StaySelectScalar = {
+  id?: boolean
+  tripId?: boolean
+  cityId?: boolean
+  name?: boolean
+  address?: boolean
+  latitude?: boolean
+  longitude?: boolean
+  checkIn?: boolean
+  checkOut?: boolean
+  nightlyCost?: boolean
+  currency?: boolean
+  confirmationNumber?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type StayOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "cityId" | "name" | "address" | "latitude" | "longitude" | "checkIn" | "checkOut" | "nightlyCost" | "currency" | "confirmationNumber" | "notes" | "createdAt" | "updatedAt", ExtArgs["result"]["stay"]>
+export type StayInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}
+export type StayIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}
+export type StayIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  city?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}
+
+export type $StayPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Stay"
+  objects: {
+    trip: Prisma.$TripPayload<ExtArgs>
+    city: Prisma.$CityPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tripId: string
+    cityId: string
+    name: string
+    address: string | null
+    latitude: number | null
+    longitude: number | null
+    checkIn: Date
+    checkOut: Date
+    nightlyCost: runtime.Decimal
+    currency: string
+    confirmationNumber: string | null
+    notes: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["stay"]>
+  composites: {}
+}
+
+export type StayGetPayload<S extends boolean | null | undefined | StayDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$StayPayload, S>
+
+export type StayCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<StayFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: StayCountAggregateInputType | true
+  }
+
+export interface StayDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Stay'], meta: { name: 'Stay' } }
+  /**
+   * Find zero or one Stay that matches the filter.
+   * @param {StayFindUniqueArgs} args - Arguments to find a Stay
+   * @example
+   * // Get one Stay
+   * const stay = await prisma.stay.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends StayFindUniqueArgs>(args: Prisma.SelectSubset<T, StayFindUniqueArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Stay that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {StayFindUniqueOrThrowArgs} args - Arguments to find a Stay
+   * @example
+   * // Get one Stay
+   * const stay = await prisma.stay.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends StayFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, StayFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Stay that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayFindFirstArgs} args - Arguments to find a Stay
+   * @example
+   * // Get one Stay
+   * const stay = await prisma.stay.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends StayFindFirstArgs>(args?: Prisma.SelectSubset<T, StayFindFirstArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Stay that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayFindFirstOrThrowArgs} args - Arguments to find a Stay
+   * @example
+   * // Get one Stay
+   * const stay = await prisma.stay.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends StayFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, StayFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Stays that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Stays
+   * const stays = await prisma.stay.findMany()
+   * 
+   * // Get first 10 Stays
+   * const stays = await prisma.stay.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const stayWithIdOnly = await prisma.stay.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends StayFindManyArgs>(args?: Prisma.SelectSubset<T, StayFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Stay.
+   * @param {StayCreateArgs} args - Arguments to create a Stay.
+   * @example
+   * // Create one Stay
+   * const Stay = await prisma.stay.create({
+   *   data: {
+   *     // ... data to create a Stay
+   *   }
+   * })
+   * 
+   */
+  create<T extends StayCreateArgs>(args: Prisma.SelectSubset<T, StayCreateArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Stays.
+   * @param {StayCreateManyArgs} args - Arguments to create many Stays.
+   * @example
+   * // Create many Stays
+   * const stay = await prisma.stay.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends StayCreateManyArgs>(args?: Prisma.SelectSubset<T, StayCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Stays and returns the data saved in the database.
+   * @param {StayCreateManyAndReturnArgs} args - Arguments to create many Stays.
+   * @example
+   * // Create many Stays
+   * const stay = await prisma.stay.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Stays and only return the `id`
+   * const stayWithIdOnly = await prisma.stay.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends StayCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, StayCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Stay.
+   * @param {StayDeleteArgs} args - Arguments to delete one Stay.
+   * @example
+   * // Delete one Stay
+   * const Stay = await prisma.stay.delete({
+   *   where: {
+   *     // ... filter to delete one Stay
+   *   }
+   * })
+   * 
+   */
+  delete<T extends StayDeleteArgs>(args: Prisma.SelectSubset<T, StayDeleteArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Stay.
+   * @param {StayUpdateArgs} args - Arguments to update one Stay.
+   * @example
+   * // Update one Stay
+   * const stay = await prisma.stay.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends StayUpdateArgs>(args: Prisma.SelectSubset<T, StayUpdateArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Stays.
+   * @param {StayDeleteManyArgs} args - Arguments to filter Stays to delete.
+   * @example
+   * // Delete a few Stays
+   * const { count } = await prisma.stay.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends StayDeleteManyArgs>(args?: Prisma.SelectSubset<T, StayDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Stays.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Stays
+   * const stay = await prisma.stay.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends StayUpdateManyArgs>(args: Prisma.SelectSubset<T, StayUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Stays and returns the data updated in the database.
+   * @param {StayUpdateManyAndReturnArgs} args - Arguments to update many Stays.
+   * @example
+   * // Update many Stays
+   * const stay = await prisma.stay.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Stays and only return the `id`
+   * const stayWithIdOnly = await prisma.stay.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends StayUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, StayUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Stay.
+   * @param {StayUpsertArgs} args - Arguments to update or create a Stay.
+   * @example
+   * // Update or create a Stay
+   * const stay = await prisma.stay.upsert({
+   *   create: {
+   *     // ... data to create a Stay
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Stay we want to update
+   *   }
+   * })
+   */
+  upsert<T extends StayUpsertArgs>(args: Prisma.SelectSubset<T, StayUpsertArgs<ExtArgs>>): Prisma.Prisma__StayClient<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Stays.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayCountArgs} args - Arguments to filter Stays to count.
+   * @example
+   * // Count the number of Stays
+   * const count = await prisma.stay.count({
+   *   where: {
+   *     // ... the filter for the Stays we want to count
+   *   }
+   * })
+  **/
+  count<T extends StayCountArgs>(
+    args?: Prisma.Subset<T, StayCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], StayCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Stay.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends StayAggregateArgs>(args: Prisma.Subset<T, StayAggregateArgs>): Prisma.PrismaPromise<GetStayAggregateType<T>>
+
+  /**
+   * Group by Stay.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StayGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends StayGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: StayGroupByArgs['orderBy'] }
+      : { orderBy?: StayGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, StayGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetStayGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Stay model
+ */
+readonly fields: StayFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Stay.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__StayClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  city<T extends Prisma.CityDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CityDefaultArgs<ExtArgs>>): Prisma.Prisma__CityClient<runtime.Types.Result.GetResult<Prisma.$CityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Stay model
+ */
+export interface StayFieldRefs {
+  readonly id: Prisma.FieldRef<"Stay", 'String'>
+  readonly tripId: Prisma.FieldRef<"Stay", 'String'>
+  readonly cityId: Prisma.FieldRef<"Stay", 'String'>
+  readonly name: Prisma.FieldRef<"Stay", 'String'>
+  readonly address: Prisma.FieldRef<"Stay", 'String'>
+  readonly latitude: Prisma.FieldRef<"Stay", 'Float'>
+  readonly longitude: Prisma.FieldRef<"Stay", 'Float'>
+  readonly checkIn: Prisma.FieldRef<"Stay", 'DateTime'>
+  readonly checkOut: Prisma.FieldRef<"Stay", 'DateTime'>
+  readonly nightlyCost: Prisma.FieldRef<"Stay", 'Decimal'>
+  readonly currency: Prisma.FieldRef<"Stay", 'String'>
+  readonly confirmationNumber: Prisma.FieldRef<"Stay", 'String'>
+  readonly notes: Prisma.FieldRef<"Stay", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Stay", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Stay", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Stay findUnique
+ */
+export type StayFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * Filter, which Stay to fetch.
+   */
+  where: Prisma.StayWhereUniqueInput
+}
+
+/**
+ * Stay findUniqueOrThrow
+ */
+export type StayFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * Filter, which Stay to fetch.
+   */
+  where: Prisma.StayWhereUniqueInput
+}
+
+/**
+ * Stay findFirst
+ */
+export type StayFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * Filter, which Stay to fetch.
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Stays to fetch.
+   */
+  orderBy?: Prisma.StayOrderByWithRelationInput | Prisma.StayOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Stays.
+   */
+  cursor?: Prisma.StayWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Stays from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Stays.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Stays.
+   */
+  distinct?: Prisma.StayScalarFieldEnum | Prisma.StayScalarFieldEnum[]
+}
+
+/**
+ * Stay findFirstOrThrow
+ */
+export type StayFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * Filter, which Stay to fetch.
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Stays to fetch.
+   */
+  orderBy?: Prisma.StayOrderByWithRelationInput | Prisma.StayOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Stays.
+   */
+  cursor?: Prisma.StayWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Stays from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Stays.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Stays.
+   */
+  distinct?: Prisma.StayScalarFieldEnum | Prisma.StayScalarFieldEnum[]
+}
+
+/**
+ * Stay findMany
+ */
+export type StayFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * Filter, which Stays to fetch.
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Stays to fetch.
+   */
+  orderBy?: Prisma.StayOrderByWithRelationInput | Prisma.StayOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Stays.
+   */
+  cursor?: Prisma.StayWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Stays from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Stays.
+   */
+  skip?: number
+  distinct?: Prisma.StayScalarFieldEnum | Prisma.StayScalarFieldEnum[]
+}
+
+/**
+ * Stay create
+ */
+export type StayCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Stay.
+   */
+  data: Prisma.XOR<Prisma.StayCreateInput, Prisma.StayUncheckedCreateInput>
+}
+
+/**
+ * Stay createMany
+ */
+export type StayCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Stays.
+   */
+  data: Prisma.StayCreateManyInput | Prisma.StayCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Stay createManyAndReturn
+ */
+export type StayCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * The data used to create many Stays.
+   */
+  data: Prisma.StayCreateManyInput | Prisma.StayCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Stay update
+ */
+export type StayUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Stay.
+   */
+  data: Prisma.XOR<Prisma.StayUpdateInput, Prisma.StayUncheckedUpdateInput>
+  /**
+   * Choose, which Stay to update.
+   */
+  where: Prisma.StayWhereUniqueInput
+}
+
+/**
+ * Stay updateMany
+ */
+export type StayUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Stays.
+   */
+  data: Prisma.XOR<Prisma.StayUpdateManyMutationInput, Prisma.StayUncheckedUpdateManyInput>
+  /**
+   * Filter which Stays to update
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * Limit how many Stays to update.
+   */
+  limit?: number
+}
+
+/**
+ * Stay updateManyAndReturn
+ */
+export type StayUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * The data used to update Stays.
+   */
+  data: Prisma.XOR<Prisma.StayUpdateManyMutationInput, Prisma.StayUncheckedUpdateManyInput>
+  /**
+   * Filter which Stays to update
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * Limit how many Stays to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Stay upsert
+ */
+export type StayUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Stay to update in case it exists.
+   */
+  where: Prisma.StayWhereUniqueInput
+  /**
+   * In case the Stay found by the `where` argument doesn't exist, create a new Stay with this data.
+   */
+  create: Prisma.XOR<Prisma.StayCreateInput, Prisma.StayUncheckedCreateInput>
+  /**
+   * In case the Stay was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.StayUpdateInput, Prisma.StayUncheckedUpdateInput>
+}
+
+/**
+ * Stay delete
+ */
+export type StayDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  /**
+   * Filter which Stay to delete.
+   */
+  where: Prisma.StayWhereUniqueInput
+}
+
+/**
+ * Stay deleteMany
+ */
+export type StayDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Stays to delete
+   */
+  where?: Prisma.StayWhereInput
+  /**
+   * Limit how many Stays to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Stay without action
+ */
+export type StayDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+}
@@ -0,0 +1,2004 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TransportLeg` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model TransportLeg
+ * 
+ */
+export type TransportLegModel = runtime.Types.Result.DefaultSelection<Prisma.$TransportLegPayload>
+
+export type AggregateTransportLeg = {
+  _count: TransportLegCountAggregateOutputType | null
+  _avg: TransportLegAvgAggregateOutputType | null
+  _sum: TransportLegSumAggregateOutputType | null
+  _min: TransportLegMinAggregateOutputType | null
+  _max: TransportLegMaxAggregateOutputType | null
+}
+
+export type TransportLegAvgAggregateOutputType = {
+  cost: runtime.Decimal | null
+}
+
+export type TransportLegSumAggregateOutputType = {
+  cost: runtime.Decimal | null
+}
+
+export type TransportLegMinAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  mode: $Enums.TransportMode | null
+  departureCityId: string | null
+  arrivalCityId: string | null
+  departureTime: Date | null
+  arrivalTime: Date | null
+  cost: runtime.Decimal | null
+  currency: string | null
+  bookingReference: string | null
+  notes: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TransportLegMaxAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  mode: $Enums.TransportMode | null
+  departureCityId: string | null
+  arrivalCityId: string | null
+  departureTime: Date | null
+  arrivalTime: Date | null
+  cost: runtime.Decimal | null
+  currency: string | null
+  bookingReference: string | null
+  notes: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TransportLegCountAggregateOutputType = {
+  id: number
+  tripId: number
+  mode: number
+  departureCityId: number
+  arrivalCityId: number
+  departureTime: number
+  arrivalTime: number
+  cost: number
+  currency: number
+  bookingReference: number
+  notes: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type TransportLegAvgAggregateInputType = {
+  cost?: true
+}
+
+export type TransportLegSumAggregateInputType = {
+  cost?: true
+}
+
+export type TransportLegMinAggregateInputType = {
+  id?: true
+  tripId?: true
+  mode?: true
+  departureCityId?: true
+  arrivalCityId?: true
+  departureTime?: true
+  arrivalTime?: true
+  cost?: true
+  currency?: true
+  bookingReference?: true
+  notes?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TransportLegMaxAggregateInputType = {
+  id?: true
+  tripId?: true
+  mode?: true
+  departureCityId?: true
+  arrivalCityId?: true
+  departureTime?: true
+  arrivalTime?: true
+  cost?: true
+  currency?: true
+  bookingReference?: true
+  notes?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TransportLegCountAggregateInputType = {
+  id?: true
+  tripId?: true
+  mode?: true
+  departureCityId?: true
+  arrivalCityId?: true
+  departureTime?: true
+  arrivalTime?: true
+  cost?: true
+  currency?: true
+  bookingReference?: true
+  notes?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type TransportLegAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TransportLeg to aggregate.
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TransportLegs to fetch.
+   */
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TransportLegs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TransportLegs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TransportLegs
+  **/
+  _count?: true | TransportLegCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TransportLegAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TransportLegSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TransportLegMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TransportLegMaxAggregateInputType
+}
+
+export type GetTransportLegAggregateType<T extends TransportLegAggregateArgs> = {
+      [P in keyof T & keyof AggregateTransportLeg]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTransportLeg[P]>
+    : Prisma.GetScalarType<T[P], AggregateTransportLeg[P]>
+}
+
+
+
+
+export type TransportLegGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TransportLegWhereInput
+  orderBy?: Prisma.TransportLegOrderByWithAggregationInput | Prisma.TransportLegOrderByWithAggregationInput[]
+  by: Prisma.TransportLegScalarFieldEnum[] | Prisma.TransportLegScalarFieldEnum
+  having?: Prisma.TransportLegScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TransportLegCountAggregateInputType | true
+  _avg?: TransportLegAvgAggregateInputType
+  _sum?: TransportLegSumAggregateInputType
+  _min?: TransportLegMinAggregateInputType
+  _max?: TransportLegMaxAggregateInputType
+}
+
+export type TransportLegGroupByOutputType = {
+  id: string
+  tripId: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  arrivalCityId: string
+  departureTime: Date
+  arrivalTime: Date
+  cost: runtime.Decimal
+  currency: string
+  bookingReference: string | null
+  notes: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: TransportLegCountAggregateOutputType | null
+  _avg: TransportLegAvgAggregateOutputType | null
+  _sum: TransportLegSumAggregateOutputType | null
+  _min: TransportLegMinAggregateOutputType | null
+  _max: TransportLegMaxAggregateOutputType | null
+}
+
+type GetTransportLegGroupByPayload<T extends TransportLegGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TransportLegGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TransportLegGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TransportLegGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TransportLegGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TransportLegWhereInput = {
+  AND?: Prisma.TransportLegWhereInput | Prisma.TransportLegWhereInput[]
+  OR?: Prisma.TransportLegWhereInput[]
+  NOT?: Prisma.TransportLegWhereInput | Prisma.TransportLegWhereInput[]
+  id?: Prisma.StringFilter<"TransportLeg"> | string
+  tripId?: Prisma.StringFilter<"TransportLeg"> | string
+  mode?: Prisma.EnumTransportModeFilter<"TransportLeg"> | $Enums.TransportMode
+  departureCityId?: Prisma.StringFilter<"TransportLeg"> | string
+  arrivalCityId?: Prisma.StringFilter<"TransportLeg"> | string
+  departureTime?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  arrivalTime?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  cost?: Prisma.DecimalFilter<"TransportLeg"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"TransportLeg"> | string
+  bookingReference?: Prisma.StringNullableFilter<"TransportLeg"> | string | null
+  notes?: Prisma.StringNullableFilter<"TransportLeg"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  departureCity?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
+  arrivalCity?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
+}
+
+export type TransportLegOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  mode?: Prisma.SortOrder
+  departureCityId?: Prisma.SortOrder
+  arrivalCityId?: Prisma.SortOrder
+  departureTime?: Prisma.SortOrder
+  arrivalTime?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  bookingReference?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  trip?: Prisma.TripOrderByWithRelationInput
+  departureCity?: Prisma.CityOrderByWithRelationInput
+  arrivalCity?: Prisma.CityOrderByWithRelationInput
+}
+
+export type TransportLegWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.TransportLegWhereInput | Prisma.TransportLegWhereInput[]
+  OR?: Prisma.TransportLegWhereInput[]
+  NOT?: Prisma.TransportLegWhereInput | Prisma.TransportLegWhereInput[]
+  tripId?: Prisma.StringFilter<"TransportLeg"> | string
+  mode?: Prisma.EnumTransportModeFilter<"TransportLeg"> | $Enums.TransportMode
+  departureCityId?: Prisma.StringFilter<"TransportLeg"> | string
+  arrivalCityId?: Prisma.StringFilter<"TransportLeg"> | string
+  departureTime?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  arrivalTime?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  cost?: Prisma.DecimalFilter<"TransportLeg"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"TransportLeg"> | string
+  bookingReference?: Prisma.StringNullableFilter<"TransportLeg"> | string | null
+  notes?: Prisma.StringNullableFilter<"TransportLeg"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  departureCity?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
+  arrivalCity?: Prisma.XOR<Prisma.CityScalarRelationFilter, Prisma.CityWhereInput>
+}, "id">
+
+export type TransportLegOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  mode?: Prisma.SortOrder
+  departureCityId?: Prisma.SortOrder
+  arrivalCityId?: Prisma.SortOrder
+  departureTime?: Prisma.SortOrder
+  arrivalTime?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  bookingReference?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.TransportLegCountOrderByAggregateInput
+  _avg?: Prisma.TransportLegAvgOrderByAggregateInput
+  _max?: Prisma.TransportLegMaxOrderByAggregateInput
+  _min?: Prisma.TransportLegMinOrderByAggregateInput
+  _sum?: Prisma.TransportLegSumOrderByAggregateInput
+}
+
+export type TransportLegScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TransportLegScalarWhereWithAggregatesInput | Prisma.TransportLegScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TransportLegScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TransportLegScalarWhereWithAggregatesInput | Prisma.TransportLegScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"TransportLeg"> | string
+  tripId?: Prisma.StringWithAggregatesFilter<"TransportLeg"> | string
+  mode?: Prisma.EnumTransportModeWithAggregatesFilter<"TransportLeg"> | $Enums.TransportMode
+  departureCityId?: Prisma.StringWithAggregatesFilter<"TransportLeg"> | string
+  arrivalCityId?: Prisma.StringWithAggregatesFilter<"TransportLeg"> | string
+  departureTime?: Prisma.DateTimeWithAggregatesFilter<"TransportLeg"> | Date | string
+  arrivalTime?: Prisma.DateTimeWithAggregatesFilter<"TransportLeg"> | Date | string
+  cost?: Prisma.DecimalWithAggregatesFilter<"TransportLeg"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringWithAggregatesFilter<"TransportLeg"> | string
+  bookingReference?: Prisma.StringNullableWithAggregatesFilter<"TransportLeg"> | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"TransportLeg"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TransportLeg"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TransportLeg"> | Date | string
+}
+
+export type TransportLegCreateInput = {
+  id?: string
+  mode: $Enums.TransportMode
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutTransportLegsInput
+  departureCity: Prisma.CityCreateNestedOneWithoutDepartingLegsInput
+  arrivalCity: Prisma.CityCreateNestedOneWithoutArrivingLegsInput
+}
+
+export type TransportLegUncheckedCreateInput = {
+  id?: string
+  tripId: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  arrivalCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutTransportLegsNestedInput
+  departureCity?: Prisma.CityUpdateOneRequiredWithoutDepartingLegsNestedInput
+  arrivalCity?: Prisma.CityUpdateOneRequiredWithoutArrivingLegsNestedInput
+}
+
+export type TransportLegUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  arrivalCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegCreateManyInput = {
+  id?: string
+  tripId: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  arrivalCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  arrivalCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegListRelationFilter = {
+  every?: Prisma.TransportLegWhereInput
+  some?: Prisma.TransportLegWhereInput
+  none?: Prisma.TransportLegWhereInput
+}
+
+export type TransportLegOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TransportLegCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  mode?: Prisma.SortOrder
+  departureCityId?: Prisma.SortOrder
+  arrivalCityId?: Prisma.SortOrder
+  departureTime?: Prisma.SortOrder
+  arrivalTime?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  bookingReference?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TransportLegAvgOrderByAggregateInput = {
+  cost?: Prisma.SortOrder
+}
+
+export type TransportLegMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  mode?: Prisma.SortOrder
+  departureCityId?: Prisma.SortOrder
+  arrivalCityId?: Prisma.SortOrder
+  departureTime?: Prisma.SortOrder
+  arrivalTime?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  bookingReference?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TransportLegMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  mode?: Prisma.SortOrder
+  departureCityId?: Prisma.SortOrder
+  arrivalCityId?: Prisma.SortOrder
+  departureTime?: Prisma.SortOrder
+  arrivalTime?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  bookingReference?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TransportLegSumOrderByAggregateInput = {
+  cost?: Prisma.SortOrder
+}
+
+export type TransportLegCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutTripInput, Prisma.TransportLegUncheckedCreateWithoutTripInput> | Prisma.TransportLegCreateWithoutTripInput[] | Prisma.TransportLegUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutTripInput | Prisma.TransportLegCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.TransportLegCreateManyTripInputEnvelope
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+}
+
+export type TransportLegUncheckedCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutTripInput, Prisma.TransportLegUncheckedCreateWithoutTripInput> | Prisma.TransportLegCreateWithoutTripInput[] | Prisma.TransportLegUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutTripInput | Prisma.TransportLegCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.TransportLegCreateManyTripInputEnvelope
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+}
+
+export type TransportLegUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutTripInput, Prisma.TransportLegUncheckedCreateWithoutTripInput> | Prisma.TransportLegCreateWithoutTripInput[] | Prisma.TransportLegUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutTripInput | Prisma.TransportLegCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.TransportLegUpsertWithWhereUniqueWithoutTripInput | Prisma.TransportLegUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.TransportLegCreateManyTripInputEnvelope
+  set?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  disconnect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  delete?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  update?: Prisma.TransportLegUpdateWithWhereUniqueWithoutTripInput | Prisma.TransportLegUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.TransportLegUpdateManyWithWhereWithoutTripInput | Prisma.TransportLegUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+}
+
+export type TransportLegUncheckedUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutTripInput, Prisma.TransportLegUncheckedCreateWithoutTripInput> | Prisma.TransportLegCreateWithoutTripInput[] | Prisma.TransportLegUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutTripInput | Prisma.TransportLegCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.TransportLegUpsertWithWhereUniqueWithoutTripInput | Prisma.TransportLegUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.TransportLegCreateManyTripInputEnvelope
+  set?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  disconnect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  delete?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  update?: Prisma.TransportLegUpdateWithWhereUniqueWithoutTripInput | Prisma.TransportLegUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.TransportLegUpdateManyWithWhereWithoutTripInput | Prisma.TransportLegUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+}
+
+export type TransportLegCreateNestedManyWithoutDepartureCityInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutDepartureCityInput, Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput> | Prisma.TransportLegCreateWithoutDepartureCityInput[] | Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput | Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput[]
+  createMany?: Prisma.TransportLegCreateManyDepartureCityInputEnvelope
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+}
+
+export type TransportLegCreateNestedManyWithoutArrivalCityInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutArrivalCityInput, Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput> | Prisma.TransportLegCreateWithoutArrivalCityInput[] | Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput | Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput[]
+  createMany?: Prisma.TransportLegCreateManyArrivalCityInputEnvelope
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+}
+
+export type TransportLegUncheckedCreateNestedManyWithoutDepartureCityInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutDepartureCityInput, Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput> | Prisma.TransportLegCreateWithoutDepartureCityInput[] | Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput | Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput[]
+  createMany?: Prisma.TransportLegCreateManyDepartureCityInputEnvelope
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+}
+
+export type TransportLegUncheckedCreateNestedManyWithoutArrivalCityInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutArrivalCityInput, Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput> | Prisma.TransportLegCreateWithoutArrivalCityInput[] | Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput | Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput[]
+  createMany?: Prisma.TransportLegCreateManyArrivalCityInputEnvelope
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+}
+
+export type TransportLegUpdateManyWithoutDepartureCityNestedInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutDepartureCityInput, Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput> | Prisma.TransportLegCreateWithoutDepartureCityInput[] | Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput | Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput[]
+  upsert?: Prisma.TransportLegUpsertWithWhereUniqueWithoutDepartureCityInput | Prisma.TransportLegUpsertWithWhereUniqueWithoutDepartureCityInput[]
+  createMany?: Prisma.TransportLegCreateManyDepartureCityInputEnvelope
+  set?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  disconnect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  delete?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  update?: Prisma.TransportLegUpdateWithWhereUniqueWithoutDepartureCityInput | Prisma.TransportLegUpdateWithWhereUniqueWithoutDepartureCityInput[]
+  updateMany?: Prisma.TransportLegUpdateManyWithWhereWithoutDepartureCityInput | Prisma.TransportLegUpdateManyWithWhereWithoutDepartureCityInput[]
+  deleteMany?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+}
+
+export type TransportLegUpdateManyWithoutArrivalCityNestedInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutArrivalCityInput, Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput> | Prisma.TransportLegCreateWithoutArrivalCityInput[] | Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput | Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput[]
+  upsert?: Prisma.TransportLegUpsertWithWhereUniqueWithoutArrivalCityInput | Prisma.TransportLegUpsertWithWhereUniqueWithoutArrivalCityInput[]
+  createMany?: Prisma.TransportLegCreateManyArrivalCityInputEnvelope
+  set?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  disconnect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  delete?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  update?: Prisma.TransportLegUpdateWithWhereUniqueWithoutArrivalCityInput | Prisma.TransportLegUpdateWithWhereUniqueWithoutArrivalCityInput[]
+  updateMany?: Prisma.TransportLegUpdateManyWithWhereWithoutArrivalCityInput | Prisma.TransportLegUpdateManyWithWhereWithoutArrivalCityInput[]
+  deleteMany?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+}
+
+export type TransportLegUncheckedUpdateManyWithoutDepartureCityNestedInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutDepartureCityInput, Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput> | Prisma.TransportLegCreateWithoutDepartureCityInput[] | Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput | Prisma.TransportLegCreateOrConnectWithoutDepartureCityInput[]
+  upsert?: Prisma.TransportLegUpsertWithWhereUniqueWithoutDepartureCityInput | Prisma.TransportLegUpsertWithWhereUniqueWithoutDepartureCityInput[]
+  createMany?: Prisma.TransportLegCreateManyDepartureCityInputEnvelope
+  set?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  disconnect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  delete?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  update?: Prisma.TransportLegUpdateWithWhereUniqueWithoutDepartureCityInput | Prisma.TransportLegUpdateWithWhereUniqueWithoutDepartureCityInput[]
+  updateMany?: Prisma.TransportLegUpdateManyWithWhereWithoutDepartureCityInput | Prisma.TransportLegUpdateManyWithWhereWithoutDepartureCityInput[]
+  deleteMany?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+}
+
+export type TransportLegUncheckedUpdateManyWithoutArrivalCityNestedInput = {
+  create?: Prisma.XOR<Prisma.TransportLegCreateWithoutArrivalCityInput, Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput> | Prisma.TransportLegCreateWithoutArrivalCityInput[] | Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput[]
+  connectOrCreate?: Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput | Prisma.TransportLegCreateOrConnectWithoutArrivalCityInput[]
+  upsert?: Prisma.TransportLegUpsertWithWhereUniqueWithoutArrivalCityInput | Prisma.TransportLegUpsertWithWhereUniqueWithoutArrivalCityInput[]
+  createMany?: Prisma.TransportLegCreateManyArrivalCityInputEnvelope
+  set?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  disconnect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  delete?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  connect?: Prisma.TransportLegWhereUniqueInput | Prisma.TransportLegWhereUniqueInput[]
+  update?: Prisma.TransportLegUpdateWithWhereUniqueWithoutArrivalCityInput | Prisma.TransportLegUpdateWithWhereUniqueWithoutArrivalCityInput[]
+  updateMany?: Prisma.TransportLegUpdateManyWithWhereWithoutArrivalCityInput | Prisma.TransportLegUpdateManyWithWhereWithoutArrivalCityInput[]
+  deleteMany?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+}
+
+export type EnumTransportModeFieldUpdateOperationsInput = {
+  set?: $Enums.TransportMode
+}
+
+export type TransportLegCreateWithoutTripInput = {
+  id?: string
+  mode: $Enums.TransportMode
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  departureCity: Prisma.CityCreateNestedOneWithoutDepartingLegsInput
+  arrivalCity: Prisma.CityCreateNestedOneWithoutArrivingLegsInput
+}
+
+export type TransportLegUncheckedCreateWithoutTripInput = {
+  id?: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  arrivalCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegCreateOrConnectWithoutTripInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  create: Prisma.XOR<Prisma.TransportLegCreateWithoutTripInput, Prisma.TransportLegUncheckedCreateWithoutTripInput>
+}
+
+export type TransportLegCreateManyTripInputEnvelope = {
+  data: Prisma.TransportLegCreateManyTripInput | Prisma.TransportLegCreateManyTripInput[]
+  skipDuplicates?: boolean
+}
+
+export type TransportLegUpsertWithWhereUniqueWithoutTripInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  update: Prisma.XOR<Prisma.TransportLegUpdateWithoutTripInput, Prisma.TransportLegUncheckedUpdateWithoutTripInput>
+  create: Prisma.XOR<Prisma.TransportLegCreateWithoutTripInput, Prisma.TransportLegUncheckedCreateWithoutTripInput>
+}
+
+export type TransportLegUpdateWithWhereUniqueWithoutTripInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  data: Prisma.XOR<Prisma.TransportLegUpdateWithoutTripInput, Prisma.TransportLegUncheckedUpdateWithoutTripInput>
+}
+
+export type TransportLegUpdateManyWithWhereWithoutTripInput = {
+  where: Prisma.TransportLegScalarWhereInput
+  data: Prisma.XOR<Prisma.TransportLegUpdateManyMutationInput, Prisma.TransportLegUncheckedUpdateManyWithoutTripInput>
+}
+
+export type TransportLegScalarWhereInput = {
+  AND?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+  OR?: Prisma.TransportLegScalarWhereInput[]
+  NOT?: Prisma.TransportLegScalarWhereInput | Prisma.TransportLegScalarWhereInput[]
+  id?: Prisma.StringFilter<"TransportLeg"> | string
+  tripId?: Prisma.StringFilter<"TransportLeg"> | string
+  mode?: Prisma.EnumTransportModeFilter<"TransportLeg"> | $Enums.TransportMode
+  departureCityId?: Prisma.StringFilter<"TransportLeg"> | string
+  arrivalCityId?: Prisma.StringFilter<"TransportLeg"> | string
+  departureTime?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  arrivalTime?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  cost?: Prisma.DecimalFilter<"TransportLeg"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFilter<"TransportLeg"> | string
+  bookingReference?: Prisma.StringNullableFilter<"TransportLeg"> | string | null
+  notes?: Prisma.StringNullableFilter<"TransportLeg"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TransportLeg"> | Date | string
+}
+
+export type TransportLegCreateWithoutDepartureCityInput = {
+  id?: string
+  mode: $Enums.TransportMode
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutTransportLegsInput
+  arrivalCity: Prisma.CityCreateNestedOneWithoutArrivingLegsInput
+}
+
+export type TransportLegUncheckedCreateWithoutDepartureCityInput = {
+  id?: string
+  tripId: string
+  mode: $Enums.TransportMode
+  arrivalCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegCreateOrConnectWithoutDepartureCityInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  create: Prisma.XOR<Prisma.TransportLegCreateWithoutDepartureCityInput, Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput>
+}
+
+export type TransportLegCreateManyDepartureCityInputEnvelope = {
+  data: Prisma.TransportLegCreateManyDepartureCityInput | Prisma.TransportLegCreateManyDepartureCityInput[]
+  skipDuplicates?: boolean
+}
+
+export type TransportLegCreateWithoutArrivalCityInput = {
+  id?: string
+  mode: $Enums.TransportMode
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutTransportLegsInput
+  departureCity: Prisma.CityCreateNestedOneWithoutDepartingLegsInput
+}
+
+export type TransportLegUncheckedCreateWithoutArrivalCityInput = {
+  id?: string
+  tripId: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegCreateOrConnectWithoutArrivalCityInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  create: Prisma.XOR<Prisma.TransportLegCreateWithoutArrivalCityInput, Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput>
+}
+
+export type TransportLegCreateManyArrivalCityInputEnvelope = {
+  data: Prisma.TransportLegCreateManyArrivalCityInput | Prisma.TransportLegCreateManyArrivalCityInput[]
+  skipDuplicates?: boolean
+}
+
+export type TransportLegUpsertWithWhereUniqueWithoutDepartureCityInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  update: Prisma.XOR<Prisma.TransportLegUpdateWithoutDepartureCityInput, Prisma.TransportLegUncheckedUpdateWithoutDepartureCityInput>
+  create: Prisma.XOR<Prisma.TransportLegCreateWithoutDepartureCityInput, Prisma.TransportLegUncheckedCreateWithoutDepartureCityInput>
+}
+
+export type TransportLegUpdateWithWhereUniqueWithoutDepartureCityInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  data: Prisma.XOR<Prisma.TransportLegUpdateWithoutDepartureCityInput, Prisma.TransportLegUncheckedUpdateWithoutDepartureCityInput>
+}
+
+export type TransportLegUpdateManyWithWhereWithoutDepartureCityInput = {
+  where: Prisma.TransportLegScalarWhereInput
+  data: Prisma.XOR<Prisma.TransportLegUpdateManyMutationInput, Prisma.TransportLegUncheckedUpdateManyWithoutDepartureCityInput>
+}
+
+export type TransportLegUpsertWithWhereUniqueWithoutArrivalCityInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  update: Prisma.XOR<Prisma.TransportLegUpdateWithoutArrivalCityInput, Prisma.TransportLegUncheckedUpdateWithoutArrivalCityInput>
+  create: Prisma.XOR<Prisma.TransportLegCreateWithoutArrivalCityInput, Prisma.TransportLegUncheckedCreateWithoutArrivalCityInput>
+}
+
+export type TransportLegUpdateWithWhereUniqueWithoutArrivalCityInput = {
+  where: Prisma.TransportLegWhereUniqueInput
+  data: Prisma.XOR<Prisma.TransportLegUpdateWithoutArrivalCityInput, Prisma.TransportLegUncheckedUpdateWithoutArrivalCityInput>
+}
+
+export type TransportLegUpdateManyWithWhereWithoutArrivalCityInput = {
+  where: Prisma.TransportLegScalarWhereInput
+  data: Prisma.XOR<Prisma.TransportLegUpdateManyMutationInput, Prisma.TransportLegUncheckedUpdateManyWithoutArrivalCityInput>
+}
+
+export type TransportLegCreateManyTripInput = {
+  id?: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  arrivalCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  departureCity?: Prisma.CityUpdateOneRequiredWithoutDepartingLegsNestedInput
+  arrivalCity?: Prisma.CityUpdateOneRequiredWithoutArrivingLegsNestedInput
+}
+
+export type TransportLegUncheckedUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  arrivalCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegUncheckedUpdateManyWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  arrivalCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegCreateManyDepartureCityInput = {
+  id?: string
+  tripId: string
+  mode: $Enums.TransportMode
+  arrivalCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegCreateManyArrivalCityInput = {
+  id?: string
+  tripId: string
+  mode: $Enums.TransportMode
+  departureCityId: string
+  departureTime: Date | string
+  arrivalTime: Date | string
+  cost?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: string
+  bookingReference?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TransportLegUpdateWithoutDepartureCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutTransportLegsNestedInput
+  arrivalCity?: Prisma.CityUpdateOneRequiredWithoutArrivingLegsNestedInput
+}
+
+export type TransportLegUncheckedUpdateWithoutDepartureCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  arrivalCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegUncheckedUpdateManyWithoutDepartureCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  arrivalCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegUpdateWithoutArrivalCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutTransportLegsNestedInput
+  departureCity?: Prisma.CityUpdateOneRequiredWithoutDepartingLegsNestedInput
+}
+
+export type TransportLegUncheckedUpdateWithoutArrivalCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TransportLegUncheckedUpdateManyWithoutArrivalCityInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  mode?: Prisma.EnumTransportModeFieldUpdateOperationsInput | $Enums.TransportMode
+  departureCityId?: Prisma.StringFieldUpdateOperationsInput | string
+  departureTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  arrivalTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingReference?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TransportLegSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  mode?: boolean
+  departureCityId?: boolean
+  arrivalCityId?: boolean
+  departureTime?: boolean
+  arrivalTime?: boolean
+  cost?: boolean
+  currency?: boolean
+  bookingReference?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  departureCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+  arrivalCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["transportLeg"]>
+
+export type TransportLegSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  mode?: boolean
+  departureCityId?: boolean
+  arrivalCityId?: boolean
+  departureTime?: boolean
+  arrivalTime?: boolean
+  cost?: boolean
+  currency?: boolean
+  bookingReference?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  departureCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+  arrivalCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["transportLeg"]>
+
+export type TransportLegSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  mode?: boolean
+  departureCityId?: boolean
+  arrivalCityId?: boolean
+  departureTime?: boolean
+  arrivalTime?: boolean
+  cost?: boolean
+  currency?: boolean
+  bookingReference?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  departureCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+  arrivalCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["transportLeg"]>
+
+export type TransportLegSelectScalar = {
+  id?: boolean
+  tripId?: boolean
+  mode?: boolean
+  departureCityId?: boolean
+  arrivalCityId?: boolean
+  departureTime?: boolean
+  arrivalTime?: boolean
+  cost?: boolean
+  currency?: boolean
+  bookingReference?: boolean
+  notes?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type TransportLegOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "mode" | "departureCityId" | "arrivalCityId" | "departureTime" | "arrivalTime" | "cost" | "currency" | "bookingReference" | "notes" | "createdAt" | "updatedAt", ExtArgs["result"]["transportLeg"]>
+export type TransportLegInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  departureCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+  arrivalCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}
+export type TransportLegIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  departureCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+  arrivalCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}
+export type TransportLegIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  departureCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+  arrivalCity?: boolean | Prisma.CityDefaultArgs<ExtArgs>
+}
+
+export type $TransportLegPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TransportLeg"
+  objects: {
+    trip: Prisma.$TripPayload<ExtArgs>
+    departureCity: Prisma.$CityPayload<ExtArgs>
+    arrivalCity: Prisma.$CityPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tripId: string
+    mode: $Enums.TransportMode
+    departureCityId: string
+    arrivalCityId: string
+    departureTime: Date
+    arrivalTime: Date
+    cost: runtime.Decimal
+    currency: string
+    bookingReference: string | null
+    notes: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["transportLeg"]>
+  composites: {}
+}
+
+export type TransportLegGetPayload<S extends boolean | null | undefined | TransportLegDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TransportLegPayload, S>
+
+export type TransportLegCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TransportLegFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TransportLegCountAggregateInputType | true
+  }
+
+export interface TransportLegDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TransportLeg'], meta: { name: 'TransportLeg' } }
+  /**
+   * Find zero or one TransportLeg that matches the filter.
+   * @param {TransportLegFindUniqueArgs} args - Arguments to find a TransportLeg
+   * @example
+   * // Get one TransportLeg
+   * const transportLeg = await prisma.transportLeg.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TransportLegFindUniqueArgs>(args: Prisma.SelectSubset<T, TransportLegFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TransportLeg that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TransportLegFindUniqueOrThrowArgs} args - Arguments to find a TransportLeg
+   * @example
+   * // Get one TransportLeg
+   * const transportLeg = await prisma.transportLeg.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TransportLegFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TransportLegFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TransportLeg that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegFindFirstArgs} args - Arguments to find a TransportLeg
+   * @example
+   * // Get one TransportLeg
+   * const transportLeg = await prisma.transportLeg.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TransportLegFindFirstArgs>(args?: Prisma.SelectSubset<T, TransportLegFindFirstArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TransportLeg that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegFindFirstOrThrowArgs} args - Arguments to find a TransportLeg
+   * @example
+   * // Get one TransportLeg
+   * const transportLeg = await prisma.transportLeg.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TransportLegFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TransportLegFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TransportLegs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TransportLegs
+   * const transportLegs = await prisma.transportLeg.findMany()
+   * 
+   * // Get first 10 TransportLegs
+   * const transportLegs = await prisma.transportLeg.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const transportLegWithIdOnly = await prisma.transportLeg.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TransportLegFindManyArgs>(args?: Prisma.SelectSubset<T, TransportLegFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TransportLeg.
+   * @param {TransportLegCreateArgs} args - Arguments to create a TransportLeg.
+   * @example
+   * // Create one TransportLeg
+   * const TransportLeg = await prisma.transportLeg.create({
+   *   data: {
+   *     // ... data to create a TransportLeg
+   *   }
+   * })
+   * 
+   */
+  create<T extends TransportLegCreateArgs>(args: Prisma.SelectSubset<T, TransportLegCreateArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TransportLegs.
+   * @param {TransportLegCreateManyArgs} args - Arguments to create many TransportLegs.
+   * @example
+   * // Create many TransportLegs
+   * const transportLeg = await prisma.transportLeg.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TransportLegCreateManyArgs>(args?: Prisma.SelectSubset<T, TransportLegCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TransportLegs and returns the data saved in the database.
+   * @param {TransportLegCreateManyAndReturnArgs} args - Arguments to create many TransportLegs.
+   * @example
+   * // Create many TransportLegs
+   * const transportLeg = await prisma.transportLeg.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TransportLegs and only return the `id`
+   * const transportLegWithIdOnly = await prisma.transportLeg.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TransportLegCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TransportLegCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TransportLeg.
+   * @param {TransportLegDeleteArgs} args - Arguments to delete one TransportLeg.
+   * @example
+   * // Delete one TransportLeg
+   * const TransportLeg = await prisma.transportLeg.delete({
+   *   where: {
+   *     // ... filter to delete one TransportLeg
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TransportLegDeleteArgs>(args: Prisma.SelectSubset<T, TransportLegDeleteArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TransportLeg.
+   * @param {TransportLegUpdateArgs} args - Arguments to update one TransportLeg.
+   * @example
+   * // Update one TransportLeg
+   * const transportLeg = await prisma.transportLeg.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TransportLegUpdateArgs>(args: Prisma.SelectSubset<T, TransportLegUpdateArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TransportLegs.
+   * @param {TransportLegDeleteManyArgs} args - Arguments to filter TransportLegs to delete.
+   * @example
+   * // Delete a few TransportLegs
+   * const { count } = await prisma.transportLeg.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TransportLegDeleteManyArgs>(args?: Prisma.SelectSubset<T, TransportLegDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TransportLegs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TransportLegs
+   * const transportLeg = await prisma.transportLeg.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TransportLegUpdateManyArgs>(args: Prisma.SelectSubset<T, TransportLegUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TransportLegs and returns the data updated in the database.
+   * @param {TransportLegUpdateManyAndReturnArgs} args - Arguments to update many TransportLegs.
+   * @example
+   * // Update many TransportLegs
+   * const transportLeg = await prisma.transportLeg.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TransportLegs and only return the `id`
+   * const transportLegWithIdOnly = await prisma.transportLeg.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TransportLegUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TransportLegUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TransportLeg.
+   * @param {TransportLegUpsertArgs} args - Arguments to update or create a TransportLeg.
+   * @example
+   * // Update or create a TransportLeg
+   * const transportLeg = await prisma.transportLeg.upsert({
+   *   create: {
+   *     // ... data to create a TransportLeg
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TransportLeg we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TransportLegUpsertArgs>(args: Prisma.SelectSubset<T, TransportLegUpsertArgs<ExtArgs>>): Prisma.Prisma__TransportLegClient<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TransportLegs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegCountArgs} args - Arguments to filter TransportLegs to count.
+   * @example
+   * // Count the number of TransportLegs
+   * const count = await prisma.transportLeg.count({
+   *   where: {
+   *     // ... the filter for the TransportLegs we want to count
+   *   }
+   * })
+  **/
+  count<T extends TransportLegCountArgs>(
+    args?: Prisma.Subset<T, TransportLegCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TransportLegCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TransportLeg.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TransportLegAggregateArgs>(args: Prisma.Subset<T, TransportLegAggregateArgs>): Prisma.PrismaPromise<GetTransportLegAggregateType<T>>
+
+  /**
+   * Group by TransportLeg.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TransportLegGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TransportLegGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TransportLegGroupByArgs['orderBy'] }
+      : { orderBy?: TransportLegGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TransportLegGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTransportLegGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TransportLeg model
+ */
+readonly fields: TransportLegFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TransportLeg.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TransportLegClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  departureCity<T extends Prisma.CityDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CityDefaultArgs<ExtArgs>>): Prisma.Prisma__CityClient<runtime.Types.Result.GetResult<Prisma.$CityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  arrivalCity<T extends Prisma.CityDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CityDefaultArgs<ExtArgs>>): Prisma.Prisma__CityClient<runtime.Types.Result.GetResult<Prisma.$CityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TransportLeg model
+ */
+export interface TransportLegFieldRefs {
+  readonly id: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly tripId: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly mode: Prisma.FieldRef<"TransportLeg", 'TransportMode'>
+  readonly departureCityId: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly arrivalCityId: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly departureTime: Prisma.FieldRef<"TransportLeg", 'DateTime'>
+  readonly arrivalTime: Prisma.FieldRef<"TransportLeg", 'DateTime'>
+  readonly cost: Prisma.FieldRef<"TransportLeg", 'Decimal'>
+  readonly currency: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly bookingReference: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly notes: Prisma.FieldRef<"TransportLeg", 'String'>
+  readonly createdAt: Prisma.FieldRef<"TransportLeg", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"TransportLeg", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TransportLeg findUnique
+ */
+export type TransportLegFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * Filter, which TransportLeg to fetch.
+   */
+  where: Prisma.TransportLegWhereUniqueInput
+}
+
+/**
+ * TransportLeg findUniqueOrThrow
+ */
+export type TransportLegFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * Filter, which TransportLeg to fetch.
+   */
+  where: Prisma.TransportLegWhereUniqueInput
+}
+
+/**
+ * TransportLeg findFirst
+ */
+export type TransportLegFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * Filter, which TransportLeg to fetch.
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TransportLegs to fetch.
+   */
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TransportLegs.
+   */
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TransportLegs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TransportLegs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TransportLegs.
+   */
+  distinct?: Prisma.TransportLegScalarFieldEnum | Prisma.TransportLegScalarFieldEnum[]
+}
+
+/**
+ * TransportLeg findFirstOrThrow
+ */
+export type TransportLegFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * Filter, which TransportLeg to fetch.
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TransportLegs to fetch.
+   */
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TransportLegs.
+   */
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TransportLegs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TransportLegs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TransportLegs.
+   */
+  distinct?: Prisma.TransportLegScalarFieldEnum | Prisma.TransportLegScalarFieldEnum[]
+}
+
+/**
+ * TransportLeg findMany
+ */
+export type TransportLegFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * Filter, which TransportLegs to fetch.
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TransportLegs to fetch.
+   */
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TransportLegs.
+   */
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TransportLegs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TransportLegs.
+   */
+  skip?: number
+  distinct?: Prisma.TransportLegScalarFieldEnum | Prisma.TransportLegScalarFieldEnum[]
+}
+
+/**
+ * TransportLeg create
+ */
+export type TransportLegCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TransportLeg.
+   */
+  data: Prisma.XOR<Prisma.TransportLegCreateInput, Prisma.TransportLegUncheckedCreateInput>
+}
+
+/**
+ * TransportLeg createMany
+ */
+export type TransportLegCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TransportLegs.
+   */
+  data: Prisma.TransportLegCreateManyInput | Prisma.TransportLegCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TransportLeg createManyAndReturn
+ */
+export type TransportLegCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * The data used to create many TransportLegs.
+   */
+  data: Prisma.TransportLegCreateManyInput | Prisma.TransportLegCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TransportLeg update
+ */
+export type TransportLegUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TransportLeg.
+   */
+  data: Prisma.XOR<Prisma.TransportLegUpdateInput, Prisma.TransportLegUncheckedUpdateInput>
+  /**
+   * Choose, which TransportLeg to update.
+   */
+  where: Prisma.TransportLegWhereUniqueInput
+}
+
+/**
+ * TransportLeg updateMany
+ */
+export type TransportLegUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TransportLegs.
+   */
+  data: Prisma.XOR<Prisma.TransportLegUpdateManyMutationInput, Prisma.TransportLegUncheckedUpdateManyInput>
+  /**
+   * Filter which TransportLegs to update
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * Limit how many TransportLegs to update.
+   */
+  limit?: number
+}
+
+/**
+ * TransportLeg updateManyAndReturn
+ */
+export type TransportLegUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * The data used to update TransportLegs.
+   */
+  data: Prisma.XOR<Prisma.TransportLegUpdateManyMutationInput, Prisma.TransportLegUncheckedUpdateManyInput>
+  /**
+   * Filter which TransportLegs to update
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * Limit how many TransportLegs to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TransportLeg upsert
+ */
+export type TransportLegUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TransportLeg to update in case it exists.
+   */
+  where: Prisma.TransportLegWhereUniqueInput
+  /**
+   * In case the TransportLeg found by the `where` argument doesn't exist, create a new TransportLeg with this data.
+   */
+  create: Prisma.XOR<Prisma.TransportLegCreateInput, Prisma.TransportLegUncheckedCreateInput>
+  /**
+   * In case the TransportLeg was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TransportLegUpdateInput, Prisma.TransportLegUncheckedUpdateInput>
+}
+
+/**
+ * TransportLeg delete
+ */
+export type TransportLegDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  /**
+   * Filter which TransportLeg to delete.
+   */
+  where: Prisma.TransportLegWhereUniqueInput
+}
+
+/**
+ * TransportLeg deleteMany
+ */
+export type TransportLegDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TransportLegs to delete
+   */
+  where?: Prisma.TransportLegWhereInput
+  /**
+   * Limit how many TransportLegs to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TransportLeg without action
+ */
+export type TransportLegDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+}
@@ -42,9 +42,11 @@ export type TripMinAggregateOutputType = {
   startDate: Date | null
   endDate: Date | null
   totalBudget: runtime.Decimal | null
+  currency: string | null
   coverPhotoUrl: string | null
   status: $Enums.TripStatus | null
   aiGenerated: boolean | null
+  deletedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -57,9 +59,11 @@ export type TripMaxAggregateOutputType = {
   startDate: Date | null
   endDate: Date | null
   totalBudget: runtime.Decimal | null
+  currency: string | null
   coverPhotoUrl: string | null
   status: $Enums.TripStatus | null
   aiGenerated: boolean | null
+  deletedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -72,9 +76,11 @@ export type TripCountAggregateOutputType = {
   startDate: number
   endDate: number
   totalBudget: number
+  currency: number
   coverPhotoUrl: number
   status: number
   aiGenerated: number
+  deletedAt: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -97,9 +103,11 @@ export type TripMinAggregateInputType = {
   startDate?: true
   endDate?: true
   totalBudget?: true
+  currency?: true
   coverPhotoUrl?: true
   status?: true
   aiGenerated?: true
+  deletedAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -112,9 +120,11 @@ export type TripMaxAggregateInputType = {
   startDate?: true
   endDate?: true
   totalBudget?: true
+  currency?: true
   coverPhotoUrl?: true
   status?: true
   aiGenerated?: true
+  deletedAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -127,9 +137,11 @@ export type TripCountAggregateInputType = {
   startDate?: true
   endDate?: true
   totalBudget?: true
+  currency?: true
   coverPhotoUrl?: true
   status?: true
   aiGenerated?: true
+  deletedAt?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -229,9 +241,11 @@ export type TripGroupByOutputType = {
   startDate: Date
   endDate: Date
   totalBudget: runtime.Decimal | null
+  currency: string
   coverPhotoUrl: string | null
   status: $Enums.TripStatus
   aiGenerated: boolean
+  deletedAt: Date | null
   createdAt: Date
   updatedAt: Date
   _count: TripCountAggregateOutputType | null
@@ -267,15 +281,25 @@ export type TripWhereInput = {
   startDate?: Prisma.DateTimeFilter<"Trip"> | Date | string
   endDate?: Prisma.DateTimeFilter<"Trip"> | Date | string
   totalBudget?: Prisma.DecimalNullableFilter<"Trip"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFilter<"Trip"> | string
   coverPhotoUrl?: Prisma.StringNullableFilter<"Trip"> | string | null
   status?: Prisma.EnumTripStatusFilter<"Trip"> | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFilter<"Trip"> | boolean
+  deletedAt?: Prisma.DateTimeNullableFilter<"Trip"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Trip"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Trip"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   itineraries?: Prisma.ItineraryListRelationFilter
   budgets?: Prisma.TripBudgetListRelationFilter
   shares?: Prisma.SharedTripListRelationFilter
+  transportLegs?: Prisma.TransportLegListRelationFilter
+  stays?: Prisma.StayListRelationFilter
+  expenses?: Prisma.ExpenseListRelationFilter
+  settlements?: Prisma.SettlementListRelationFilter
+  alertRules?: Prisma.BudgetAlertRuleListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+  changes?: Prisma.TripChangeListRelationFilter
+  invitations?: Prisma.ShareInvitationListRelationFilter
 }
 
 export type TripOrderByWithRelationInput = {
@@ -286,15 +310,25 @@ export type TripOrderByWithRelationInput = {
   startDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   totalBudget?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
   coverPhotoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   aiGenerated?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
   itineraries?: Prisma.ItineraryOrderByRelationAggregateInput
   budgets?: Prisma.TripBudgetOrderByRelationAggregateInput
   shares?: Prisma.SharedTripOrderByRelationAggregateInput
+  transportLegs?: Prisma.TransportLegOrderByRelationAggregateInput
+  stays?: Prisma.StayOrderByRelationAggregateInput
+  expenses?: Prisma.ExpenseOrderByRelationAggregateInput
+  settlements?: Prisma.SettlementOrderByRelationAggregateInput
+  alertRules?: Prisma.BudgetAlertRuleOrderByRelationAggregateInput
+  notifications?: Prisma.NotificationOrderByRelationAggregateInput
+  changes?: Prisma.TripChangeOrderByRelationAggregateInput
+  invitations?: Prisma.ShareInvitationOrderByRelationAggregateInput
 }
 
 export type TripWhereUniqueInput = Prisma.AtLeast<{
@@ -308,15 +342,25 @@ export type TripWhereUniqueInput = Prisma.AtLeast<{
   startDate?: Prisma.DateTimeFilter<"Trip"> | Date | string
   endDate?: Prisma.DateTimeFilter<"Trip"> | Date | string
   totalBudget?: Prisma.DecimalNullableFilter<"Trip"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFilter<"Trip"> | string
   coverPhotoUrl?: Prisma.StringNullableFilter<"Trip"> | string | null
   status?: Prisma.EnumTripStatusFilter<"Trip"> | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFilter<"Trip"> | boolean
+  deletedAt?: Prisma.DateTimeNullableFilter<"Trip"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Trip"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Trip"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   itineraries?: Prisma.ItineraryListRelationFilter
   budgets?: Prisma.TripBudgetListRelationFilter
   shares?: Prisma.SharedTripListRelationFilter
+  transportLegs?: Prisma.TransportLegListRelationFilter
+  stays?: Prisma.StayListRelationFilter
+  expenses?: Prisma.ExpenseListRelationFilter
+  settlements?: Prisma.SettlementListRelationFilter
+  alertRules?: Prisma.BudgetAlertRuleListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+  changes?: Prisma.TripChangeListRelationFilter
+  invitations?: Prisma.ShareInvitationListRelationFilter
 }, "id">
 
 export type TripOrderByWithAggregationInput = {
@@ -327,9 +371,11 @@ export type TripOrderByWithAggregationInput = {
   startDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   totalBudget?: Prisma.SortOrderInput | Prisma.SortOrder
+  currency?: Prisma.SortOrder
   coverPhotoUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   aiGenerated?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.TripCountOrderByAggregateInput
@@ -350,9 +396,11 @@ export type TripScalarWhereWithAggregatesInput = {
   startDate?: Prisma.DateTimeWithAggregatesFilter<"Trip"> | Date | string
   endDate?: Prisma.DateTimeWithAggregatesFilter<"Trip"> | Date | string
   totalBudget?: Prisma.DecimalNullableWithAggregatesFilter<"Trip"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringWithAggregatesFilter<"Trip"> | string
   coverPhotoUrl?: Prisma.StringNullableWithAggregatesFilter<"Trip"> | string | null
   status?: Prisma.EnumTripStatusWithAggregatesFilter<"Trip"> | $Enums.TripStatus
   aiGenerated?: Prisma.BoolWithAggregatesFilter<"Trip"> | boolean
+  deletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Trip"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Trip"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Trip"> | Date | string
 }
@@ -364,15 +412,25 @@ export type TripCreateInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutTripsInput
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
 }
 
 export type TripUncheckedCreateInput = {
@@ -383,14 +441,24 @@ export type TripUncheckedCreateInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
 }
 
 export type TripUpdateInput = {
@@ -400,15 +468,25 @@ export type TripUpdateInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
   itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
 }
 
 export type TripUncheckedUpdateInput = {
@@ -419,14 +497,24 @@ export type TripUncheckedUpdateInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
 }
 
 export type TripCreateManyInput = {
@@ -437,9 +525,11 @@ export type TripCreateManyInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -451,9 +541,11 @@ export type TripUpdateManyMutationInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -466,9 +558,11 @@ export type TripUncheckedUpdateManyInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -491,9 +585,11 @@ export type TripCountOrderByAggregateInput = {
   startDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   totalBudget?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   coverPhotoUrl?: Prisma.SortOrder
   status?: Prisma.SortOrder
   aiGenerated?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -510,9 +606,11 @@ export type TripMaxOrderByAggregateInput = {
   startDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   totalBudget?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   coverPhotoUrl?: Prisma.SortOrder
   status?: Prisma.SortOrder
   aiGenerated?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -525,9 +623,11 @@ export type TripMinOrderByAggregateInput = {
   startDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   totalBudget?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
   coverPhotoUrl?: Prisma.SortOrder
   status?: Prisma.SortOrder
   aiGenerated?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -541,6 +641,11 @@ export type TripScalarRelationFilter = {
   isNot?: Prisma.TripWhereInput
 }
 
+export type TripNullableScalarRelationFilter = {
+  is?: Prisma.TripWhereInput | null
+  isNot?: Prisma.TripWhereInput | null
+}
+
 export type TripCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.TripCreateWithoutUserInput, Prisma.TripUncheckedCreateWithoutUserInput> | Prisma.TripCreateWithoutUserInput[] | Prisma.TripUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.TripCreateOrConnectWithoutUserInput | Prisma.TripCreateOrConnectWithoutUserInput[]
@@ -613,6 +718,34 @@ export type TripUpdateOneRequiredWithoutItinerariesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutItinerariesInput, Prisma.TripUpdateWithoutItinerariesInput>, Prisma.TripUncheckedUpdateWithoutItinerariesInput>
 }
 
+export type TripCreateNestedOneWithoutTransportLegsInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutTransportLegsInput, Prisma.TripUncheckedCreateWithoutTransportLegsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutTransportLegsInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutTransportLegsNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutTransportLegsInput, Prisma.TripUncheckedCreateWithoutTransportLegsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutTransportLegsInput
+  upsert?: Prisma.TripUpsertWithoutTransportLegsInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutTransportLegsInput, Prisma.TripUpdateWithoutTransportLegsInput>, Prisma.TripUncheckedUpdateWithoutTransportLegsInput>
+}
+
+export type TripCreateNestedOneWithoutStaysInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutStaysInput, Prisma.TripUncheckedCreateWithoutStaysInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutStaysInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutStaysNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutStaysInput, Prisma.TripUncheckedCreateWithoutStaysInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutStaysInput
+  upsert?: Prisma.TripUpsertWithoutStaysInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutStaysInput, Prisma.TripUpdateWithoutStaysInput>, Prisma.TripUncheckedUpdateWithoutStaysInput>
+}
+
 export type TripCreateNestedOneWithoutBudgetsInput = {
   create?: Prisma.XOR<Prisma.TripCreateWithoutBudgetsInput, Prisma.TripUncheckedCreateWithoutBudgetsInput>
   connectOrCreate?: Prisma.TripCreateOrConnectWithoutBudgetsInput
@@ -627,6 +760,78 @@ export type TripUpdateOneRequiredWithoutBudgetsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutBudgetsInput, Prisma.TripUpdateWithoutBudgetsInput>, Prisma.TripUncheckedUpdateWithoutBudgetsInput>
 }
 
+export type TripCreateNestedOneWithoutExpensesInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutExpensesInput, Prisma.TripUncheckedCreateWithoutExpensesInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutExpensesInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutExpensesNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutExpensesInput, Prisma.TripUncheckedCreateWithoutExpensesInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutExpensesInput
+  upsert?: Prisma.TripUpsertWithoutExpensesInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutExpensesInput, Prisma.TripUpdateWithoutExpensesInput>, Prisma.TripUncheckedUpdateWithoutExpensesInput>
+}
+
+export type TripCreateNestedOneWithoutSettlementsInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutSettlementsInput, Prisma.TripUncheckedCreateWithoutSettlementsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutSettlementsInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutSettlementsNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutSettlementsInput, Prisma.TripUncheckedCreateWithoutSettlementsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutSettlementsInput
+  upsert?: Prisma.TripUpsertWithoutSettlementsInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutSettlementsInput, Prisma.TripUpdateWithoutSettlementsInput>, Prisma.TripUncheckedUpdateWithoutSettlementsInput>
+}
+
+export type TripCreateNestedOneWithoutAlertRulesInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutAlertRulesInput, Prisma.TripUncheckedCreateWithoutAlertRulesInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutAlertRulesInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutAlertRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutAlertRulesInput, Prisma.TripUncheckedCreateWithoutAlertRulesInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutAlertRulesInput
+  upsert?: Prisma.TripUpsertWithoutAlertRulesInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutAlertRulesInput, Prisma.TripUpdateWithoutAlertRulesInput>, Prisma.TripUncheckedUpdateWithoutAlertRulesInput>
+}
+
+export type TripCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutNotificationsInput, Prisma.TripUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutNotificationsInput, Prisma.TripUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.TripUpsertWithoutNotificationsInput
+  disconnect?: Prisma.TripWhereInput | boolean
+  delete?: Prisma.TripWhereInput | boolean
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutNotificationsInput, Prisma.TripUpdateWithoutNotificationsInput>, Prisma.TripUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type TripCreateNestedOneWithoutChangesInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutChangesInput, Prisma.TripUncheckedCreateWithoutChangesInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutChangesInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutChangesNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutChangesInput, Prisma.TripUncheckedCreateWithoutChangesInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutChangesInput
+  upsert?: Prisma.TripUpsertWithoutChangesInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutChangesInput, Prisma.TripUpdateWithoutChangesInput>, Prisma.TripUncheckedUpdateWithoutChangesInput>
+}
+
 export type TripCreateNestedOneWithoutSharesInput = {
   create?: Prisma.XOR<Prisma.TripCreateWithoutSharesInput, Prisma.TripUncheckedCreateWithoutSharesInput>
   connectOrCreate?: Prisma.TripCreateOrConnectWithoutSharesInput
@@ -641,6 +846,20 @@ export type TripUpdateOneRequiredWithoutSharesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutSharesInput, Prisma.TripUpdateWithoutSharesInput>, Prisma.TripUncheckedUpdateWithoutSharesInput>
 }
 
+export type TripCreateNestedOneWithoutInvitationsInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutInvitationsInput, Prisma.TripUncheckedCreateWithoutInvitationsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutInvitationsInput
+  connect?: Prisma.TripWhereUniqueInput
+}
+
+export type TripUpdateOneRequiredWithoutInvitationsNestedInput = {
+  create?: Prisma.XOR<Prisma.TripCreateWithoutInvitationsInput, Prisma.TripUncheckedCreateWithoutInvitationsInput>
+  connectOrCreate?: Prisma.TripCreateOrConnectWithoutInvitationsInput
+  upsert?: Prisma.TripUpsertWithoutInvitationsInput
+  connect?: Prisma.TripWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripUpdateToOneWithWhereWithoutInvitationsInput, Prisma.TripUpdateWithoutInvitationsInput>, Prisma.TripUncheckedUpdateWithoutInvitationsInput>
+}
+
 export type TripCreateWithoutUserInput = {
   id?: string
   name: string
@@ -648,14 +867,24 @@ export type TripCreateWithoutUserInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
 }
 
 export type TripUncheckedCreateWithoutUserInput = {
@@ -665,14 +894,24 @@ export type TripUncheckedCreateWithoutUserInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
 }
 
 export type TripCreateOrConnectWithoutUserInput = {
@@ -712,31 +951,911 @@ export type TripScalarWhereInput = {
   startDate?: Prisma.DateTimeFilter<"Trip"> | Date | string
   endDate?: Prisma.DateTimeFilter<"Trip"> | Date | string
   totalBudget?: Prisma.DecimalNullableFilter<"Trip"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFilter<"Trip"> | string
   coverPhotoUrl?: Prisma.StringNullableFilter<"Trip"> | string | null
   status?: Prisma.EnumTripStatusFilter<"Trip"> | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFilter<"Trip"> | boolean
+  deletedAt?: Prisma.DateTimeNullableFilter<"Trip"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"Trip"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Trip"> | Date | string
 }
 
-export type TripCreateWithoutItinerariesInput = {
+export type TripCreateWithoutItinerariesInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutItinerariesInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutItinerariesInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutItinerariesInput, Prisma.TripUncheckedCreateWithoutItinerariesInput>
+}
+
+export type TripUpsertWithoutItinerariesInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutItinerariesInput, Prisma.TripUncheckedUpdateWithoutItinerariesInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutItinerariesInput, Prisma.TripUncheckedCreateWithoutItinerariesInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutItinerariesInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutItinerariesInput, Prisma.TripUncheckedUpdateWithoutItinerariesInput>
+}
+
+export type TripUpdateWithoutItinerariesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutItinerariesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutTransportLegsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutTransportLegsInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutTransportLegsInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutTransportLegsInput, Prisma.TripUncheckedCreateWithoutTransportLegsInput>
+}
+
+export type TripUpsertWithoutTransportLegsInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutTransportLegsInput, Prisma.TripUncheckedUpdateWithoutTransportLegsInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutTransportLegsInput, Prisma.TripUncheckedCreateWithoutTransportLegsInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutTransportLegsInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutTransportLegsInput, Prisma.TripUncheckedUpdateWithoutTransportLegsInput>
+}
+
+export type TripUpdateWithoutTransportLegsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutTransportLegsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutStaysInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutStaysInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutStaysInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutStaysInput, Prisma.TripUncheckedCreateWithoutStaysInput>
+}
+
+export type TripUpsertWithoutStaysInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutStaysInput, Prisma.TripUncheckedUpdateWithoutStaysInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutStaysInput, Prisma.TripUncheckedCreateWithoutStaysInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutStaysInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutStaysInput, Prisma.TripUncheckedUpdateWithoutStaysInput>
+}
+
+export type TripUpdateWithoutStaysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutStaysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutBudgetsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutBudgetsInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutBudgetsInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutBudgetsInput, Prisma.TripUncheckedCreateWithoutBudgetsInput>
+}
+
+export type TripUpsertWithoutBudgetsInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutBudgetsInput, Prisma.TripUncheckedUpdateWithoutBudgetsInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutBudgetsInput, Prisma.TripUncheckedCreateWithoutBudgetsInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutBudgetsInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutBudgetsInput, Prisma.TripUncheckedUpdateWithoutBudgetsInput>
+}
+
+export type TripUpdateWithoutBudgetsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutBudgetsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutExpensesInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutExpensesInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutExpensesInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutExpensesInput, Prisma.TripUncheckedCreateWithoutExpensesInput>
+}
+
+export type TripUpsertWithoutExpensesInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutExpensesInput, Prisma.TripUncheckedUpdateWithoutExpensesInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutExpensesInput, Prisma.TripUncheckedCreateWithoutExpensesInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutExpensesInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutExpensesInput, Prisma.TripUncheckedUpdateWithoutExpensesInput>
+}
+
+export type TripUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutSettlementsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutSettlementsInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutSettlementsInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutSettlementsInput, Prisma.TripUncheckedCreateWithoutSettlementsInput>
+}
+
+export type TripUpsertWithoutSettlementsInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutSettlementsInput, Prisma.TripUncheckedUpdateWithoutSettlementsInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutSettlementsInput, Prisma.TripUncheckedCreateWithoutSettlementsInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutSettlementsInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutSettlementsInput, Prisma.TripUncheckedUpdateWithoutSettlementsInput>
+}
+
+export type TripUpdateWithoutSettlementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutSettlementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutAlertRulesInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutAlertRulesInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutAlertRulesInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutAlertRulesInput, Prisma.TripUncheckedCreateWithoutAlertRulesInput>
+}
+
+export type TripUpsertWithoutAlertRulesInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutAlertRulesInput, Prisma.TripUncheckedUpdateWithoutAlertRulesInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutAlertRulesInput, Prisma.TripUncheckedCreateWithoutAlertRulesInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutAlertRulesInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutAlertRulesInput, Prisma.TripUncheckedUpdateWithoutAlertRulesInput>
+}
+
+export type TripUpdateWithoutAlertRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutAlertRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutNotificationsInput = {
   id?: string
   name: string
   description?: string | null
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
 }
 
-export type TripUncheckedCreateWithoutItinerariesInput = {
+export type TripUncheckedCreateWithoutNotificationsInput = {
   id?: string
   userId: string
   name: string
@@ -744,49 +1863,69 @@ export type TripUncheckedCreateWithoutItinerariesInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
 }
 
-export type TripCreateOrConnectWithoutItinerariesInput = {
+export type TripCreateOrConnectWithoutNotificationsInput = {
   where: Prisma.TripWhereUniqueInput
-  create: Prisma.XOR<Prisma.TripCreateWithoutItinerariesInput, Prisma.TripUncheckedCreateWithoutItinerariesInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutNotificationsInput, Prisma.TripUncheckedCreateWithoutNotificationsInput>
 }
 
-export type TripUpsertWithoutItinerariesInput = {
-  update: Prisma.XOR<Prisma.TripUpdateWithoutItinerariesInput, Prisma.TripUncheckedUpdateWithoutItinerariesInput>
-  create: Prisma.XOR<Prisma.TripCreateWithoutItinerariesInput, Prisma.TripUncheckedCreateWithoutItinerariesInput>
+export type TripUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutNotificationsInput, Prisma.TripUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutNotificationsInput, Prisma.TripUncheckedCreateWithoutNotificationsInput>
   where?: Prisma.TripWhereInput
 }
 
-export type TripUpdateToOneWithWhereWithoutItinerariesInput = {
+export type TripUpdateToOneWithWhereWithoutNotificationsInput = {
   where?: Prisma.TripWhereInput
-  data: Prisma.XOR<Prisma.TripUpdateWithoutItinerariesInput, Prisma.TripUncheckedUpdateWithoutItinerariesInput>
+  data: Prisma.XOR<Prisma.TripUpdateWithoutNotificationsInput, Prisma.TripUncheckedUpdateWithoutNotificationsInput>
 }
 
-export type TripUpdateWithoutItinerariesInput = {
+export type TripUpdateWithoutNotificationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
 }
 
-export type TripUncheckedUpdateWithoutItinerariesInput = {
+export type TripUncheckedUpdateWithoutNotificationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -794,33 +1933,53 @@ export type TripUncheckedUpdateWithoutItinerariesInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
 }
 
-export type TripCreateWithoutBudgetsInput = {
+export type TripCreateWithoutChangesInput = {
   id?: string
   name: string
   description?: string | null
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutTripsInput
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
 }
 
-export type TripUncheckedCreateWithoutBudgetsInput = {
+export type TripUncheckedCreateWithoutChangesInput = {
   id?: string
   userId: string
   name: string
@@ -828,49 +1987,69 @@ export type TripUncheckedCreateWithoutBudgetsInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
   shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
 }
 
-export type TripCreateOrConnectWithoutBudgetsInput = {
+export type TripCreateOrConnectWithoutChangesInput = {
   where: Prisma.TripWhereUniqueInput
-  create: Prisma.XOR<Prisma.TripCreateWithoutBudgetsInput, Prisma.TripUncheckedCreateWithoutBudgetsInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutChangesInput, Prisma.TripUncheckedCreateWithoutChangesInput>
 }
 
-export type TripUpsertWithoutBudgetsInput = {
-  update: Prisma.XOR<Prisma.TripUpdateWithoutBudgetsInput, Prisma.TripUncheckedUpdateWithoutBudgetsInput>
-  create: Prisma.XOR<Prisma.TripCreateWithoutBudgetsInput, Prisma.TripUncheckedCreateWithoutBudgetsInput>
+export type TripUpsertWithoutChangesInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutChangesInput, Prisma.TripUncheckedUpdateWithoutChangesInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutChangesInput, Prisma.TripUncheckedCreateWithoutChangesInput>
   where?: Prisma.TripWhereInput
 }
 
-export type TripUpdateToOneWithWhereWithoutBudgetsInput = {
+export type TripUpdateToOneWithWhereWithoutChangesInput = {
   where?: Prisma.TripWhereInput
-  data: Prisma.XOR<Prisma.TripUpdateWithoutBudgetsInput, Prisma.TripUncheckedUpdateWithoutBudgetsInput>
+  data: Prisma.XOR<Prisma.TripUpdateWithoutChangesInput, Prisma.TripUncheckedUpdateWithoutChangesInput>
 }
 
-export type TripUpdateWithoutBudgetsInput = {
+export type TripUpdateWithoutChangesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
   itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
 }
 
-export type TripUncheckedUpdateWithoutBudgetsInput = {
+export type TripUncheckedUpdateWithoutChangesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -878,13 +2057,23 @@ export type TripUncheckedUpdateWithoutBudgetsInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
 }
 
 export type TripCreateWithoutSharesInput = {
@@ -894,14 +2083,24 @@ export type TripCreateWithoutSharesInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   user: Prisma.UserCreateNestedOneWithoutTripsInput
   itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationCreateNestedManyWithoutTripInput
 }
 
 export type TripUncheckedCreateWithoutSharesInput = {
@@ -912,13 +2111,23 @@ export type TripUncheckedCreateWithoutSharesInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
   budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+  invitations?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutTripInput
 }
 
 export type TripCreateOrConnectWithoutSharesInput = {
@@ -944,14 +2153,24 @@ export type TripUpdateWithoutSharesInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
   itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
 }
 
 export type TripUncheckedUpdateWithoutSharesInput = {
@@ -962,13 +2181,147 @@ export type TripUncheckedUpdateWithoutSharesInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
+}
+
+export type TripCreateWithoutInvitationsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTripsInput
+  itineraries?: Prisma.ItineraryCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeCreateNestedManyWithoutTripInput
+}
+
+export type TripUncheckedCreateWithoutInvitationsInput = {
+  id?: string
+  userId: string
+  name: string
+  description?: string | null
+  startDate: Date | string
+  endDate: Date | string
+  totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
+  coverPhotoUrl?: string | null
+  status?: $Enums.TripStatus
+  aiGenerated?: boolean
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  itineraries?: Prisma.ItineraryUncheckedCreateNestedManyWithoutTripInput
+  budgets?: Prisma.TripBudgetUncheckedCreateNestedManyWithoutTripInput
+  shares?: Prisma.SharedTripUncheckedCreateNestedManyWithoutTripInput
+  transportLegs?: Prisma.TransportLegUncheckedCreateNestedManyWithoutTripInput
+  stays?: Prisma.StayUncheckedCreateNestedManyWithoutTripInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutTripInput
+  settlements?: Prisma.SettlementUncheckedCreateNestedManyWithoutTripInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedCreateNestedManyWithoutTripInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTripInput
+  changes?: Prisma.TripChangeUncheckedCreateNestedManyWithoutTripInput
+}
+
+export type TripCreateOrConnectWithoutInvitationsInput = {
+  where: Prisma.TripWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripCreateWithoutInvitationsInput, Prisma.TripUncheckedCreateWithoutInvitationsInput>
+}
+
+export type TripUpsertWithoutInvitationsInput = {
+  update: Prisma.XOR<Prisma.TripUpdateWithoutInvitationsInput, Prisma.TripUncheckedUpdateWithoutInvitationsInput>
+  create: Prisma.XOR<Prisma.TripCreateWithoutInvitationsInput, Prisma.TripUncheckedCreateWithoutInvitationsInput>
+  where?: Prisma.TripWhereInput
+}
+
+export type TripUpdateToOneWithWhereWithoutInvitationsInput = {
+  where?: Prisma.TripWhereInput
+  data: Prisma.XOR<Prisma.TripUpdateWithoutInvitationsInput, Prisma.TripUncheckedUpdateWithoutInvitationsInput>
+}
+
+export type TripUpdateWithoutInvitationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
+  aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTripsNestedInput
+  itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
+  budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+}
+
+export type TripUncheckedUpdateWithoutInvitationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
+  shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
 }
 
 export type TripCreateManyUserInput = {
@@ -978,9 +2331,11 @@ export type TripCreateManyUserInput = {
   startDate: Date | string
   endDate: Date | string
   totalBudget?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: string
   coverPhotoUrl?: string | null
   status?: $Enums.TripStatus
   aiGenerated?: boolean
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -992,14 +2347,24 @@ export type TripUpdateWithoutUserInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUpdateManyWithoutTripNestedInput
 }
 
 export type TripUncheckedUpdateWithoutUserInput = {
@@ -1009,14 +2374,24 @@ export type TripUncheckedUpdateWithoutUserInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   itineraries?: Prisma.ItineraryUncheckedUpdateManyWithoutTripNestedInput
   budgets?: Prisma.TripBudgetUncheckedUpdateManyWithoutTripNestedInput
   shares?: Prisma.SharedTripUncheckedUpdateManyWithoutTripNestedInput
+  transportLegs?: Prisma.TransportLegUncheckedUpdateManyWithoutTripNestedInput
+  stays?: Prisma.StayUncheckedUpdateManyWithoutTripNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutTripNestedInput
+  settlements?: Prisma.SettlementUncheckedUpdateManyWithoutTripNestedInput
+  alertRules?: Prisma.BudgetAlertRuleUncheckedUpdateManyWithoutTripNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTripNestedInput
+  changes?: Prisma.TripChangeUncheckedUpdateManyWithoutTripNestedInput
+  invitations?: Prisma.ShareInvitationUncheckedUpdateManyWithoutTripNestedInput
 }
 
 export type TripUncheckedUpdateManyWithoutUserInput = {
@@ -1026,9 +2401,11 @@ export type TripUncheckedUpdateManyWithoutUserInput = {
   startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   totalBudget?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
   coverPhotoUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumTripStatusFieldUpdateOperationsInput | $Enums.TripStatus
   aiGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -1042,12 +2419,28 @@ export type TripCountOutputType = {
   itineraries: number
   budgets: number
   shares: number
+  transportLegs: number
+  stays: number
+  expenses: number
+  settlements: number
+  alertRules: number
+  notifications: number
+  changes: number
+  invitations: number
 }
 
 export type TripCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   itineraries?: boolean | TripCountOutputTypeCountItinerariesArgs
   budgets?: boolean | TripCountOutputTypeCountBudgetsArgs
   shares?: boolean | TripCountOutputTypeCountSharesArgs
+  transportLegs?: boolean | TripCountOutputTypeCountTransportLegsArgs
+  stays?: boolean | TripCountOutputTypeCountStaysArgs
+  expenses?: boolean | TripCountOutputTypeCountExpensesArgs
+  settlements?: boolean | TripCountOutputTypeCountSettlementsArgs
+  alertRules?: boolean | TripCountOutputTypeCountAlertRulesArgs
+  notifications?: boolean | TripCountOutputTypeCountNotificationsArgs
+  changes?: boolean | TripCountOutputTypeCountChangesArgs
+  invitations?: boolean | TripCountOutputTypeCountInvitationsArgs
 }
 
 /**
@@ -1081,6 +2474,62 @@ export type TripCountOutputTypeCountSharesArgs<ExtArgs extends runtime.Types.Ext
   where?: Prisma.SharedTripWhereInput
 }
 
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountTransportLegsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TransportLegWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountStaysArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StayWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountExpensesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExpenseWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountSettlementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SettlementWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountAlertRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BudgetAlertRuleWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TripChangeWhereInput
+}
+
+/**
+ * TripCountOutputType without action
+ */
+export type TripCountOutputTypeCountInvitationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareInvitationWhereInput
+}
+
 
 export type TripSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1090,15 +2539,25 @@ export type TripSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   startDate?: boolean
   endDate?: boolean
   totalBudget?: boolean
+  currency?: boolean
   coverPhotoUrl?: boolean
   status?: boolean
   aiGenerated?: boolean
+  deletedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   itineraries?: boolean | Prisma.Trip$itinerariesArgs<ExtArgs>
   budgets?: boolean | Prisma.Trip$budgetsArgs<ExtArgs>
   shares?: boolean | Prisma.Trip$sharesArgs<ExtArgs>
+  transportLegs?: boolean | Prisma.Trip$transportLegsArgs<ExtArgs>
+  stays?: boolean | Prisma.Trip$staysArgs<ExtArgs>
+  expenses?: boolean | Prisma.Trip$expensesArgs<ExtArgs>
+  settlements?: boolean | Prisma.Trip$settlementsArgs<ExtArgs>
+  alertRules?: boolean | Prisma.Trip$alertRulesArgs<ExtArgs>
+  notifications?: boolean | Prisma.Trip$notificationsArgs<ExtArgs>
+  changes?: boolean | Prisma.Trip$changesArgs<ExtArgs>
+  invitations?: boolean | Prisma.Trip$invitationsArgs<ExtArgs>
   _count?: boolean | Prisma.TripCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["trip"]>
 
@@ -1110,9 +2569,11 @@ export type TripSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   startDate?: boolean
   endDate?: boolean
   totalBudget?: boolean
+  currency?: boolean
   coverPhotoUrl?: boolean
   status?: boolean
   aiGenerated?: boolean
+  deletedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1126,9 +2587,11 @@ export type TripSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   startDate?: boolean
   endDate?: boolean
   totalBudget?: boolean
+  currency?: boolean
   coverPhotoUrl?: boolean
   status?: boolean
   aiGenerated?: boolean
+  deletedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1142,19 +2605,29 @@ export type TripSelectScalar = {
   startDate?: boolean
   endDate?: boolean
   totalBudget?: boolean
+  currency?: boolean
   coverPhotoUrl?: boolean
   status?: boolean
   aiGenerated?: boolean
+  deletedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type TripOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "description" | "startDate" | "endDate" | "totalBudget" | "coverPhotoUrl" | "status" | "aiGenerated" | "createdAt" | "updatedAt", ExtArgs["result"]["trip"]>
+export type TripOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "description" | "startDate" | "endDate" | "totalBudget" | "currency" | "coverPhotoUrl" | "status" | "aiGenerated" | "deletedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["trip"]>
 export type TripInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   itineraries?: boolean | Prisma.Trip$itinerariesArgs<ExtArgs>
   budgets?: boolean | Prisma.Trip$budgetsArgs<ExtArgs>
   shares?: boolean | Prisma.Trip$sharesArgs<ExtArgs>
+  transportLegs?: boolean | Prisma.Trip$transportLegsArgs<ExtArgs>
+  stays?: boolean | Prisma.Trip$staysArgs<ExtArgs>
+  expenses?: boolean | Prisma.Trip$expensesArgs<ExtArgs>
+  settlements?: boolean | Prisma.Trip$settlementsArgs<ExtArgs>
+  alertRules?: boolean | Prisma.Trip$alertRulesArgs<ExtArgs>
+  notifications?: boolean | Prisma.Trip$notificationsArgs<ExtArgs>
+  changes?: boolean | Prisma.Trip$changesArgs<ExtArgs>
+  invitations?: boolean | Prisma.Trip$invitationsArgs<ExtArgs>
   _count?: boolean | Prisma.TripCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TripIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1171,6 +2644,14 @@ export type $TripPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     itineraries: Prisma.$ItineraryPayload<ExtArgs>[]
     budgets: Prisma.$TripBudgetPayload<ExtArgs>[]
     shares: Prisma.$SharedTripPayload<ExtArgs>[]
+    transportLegs: Prisma.$TransportLegPayload<ExtArgs>[]
+    stays: Prisma.$StayPayload<ExtArgs>[]
+    expenses: Prisma.$ExpensePayload<ExtArgs>[]
+    settlements: Prisma.$SettlementPayload<ExtArgs>[]
+    alertRules: Prisma.$BudgetAlertRulePayload<ExtArgs>[]
+    notifications: Prisma.$NotificationPayload<ExtArgs>[]
+    changes: Prisma.$TripChangePayload<ExtArgs>[]
+    invitations: Prisma.$ShareInvitationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1180,9 +2661,11 @@ export type $TripPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     startDate: Date
     endDate: Date
     totalBudget: runtime.Decimal | null
+    currency: string
     coverPhotoUrl: string | null
     status: $Enums.TripStatus
     aiGenerated: boolean
+    deletedAt: Date | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["trip"]>
@@ -1583,6 +3066,14 @@ export interface Prisma__TripClient<T, Null = never, ExtArgs extends runtime.Typ
   itineraries<T extends Prisma.Trip$itinerariesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$itinerariesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ItineraryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   budgets<T extends Prisma.Trip$budgetsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$budgetsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TripBudgetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   shares<T extends Prisma.Trip$sharesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$sharesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SharedTripPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  transportLegs<T extends Prisma.Trip$transportLegsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$transportLegsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TransportLegPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  stays<T extends Prisma.Trip$staysArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$staysArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StayPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  expenses<T extends Prisma.Trip$expensesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$expensesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  settlements<T extends Prisma.Trip$settlementsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$settlementsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  alertRules<T extends Prisma.Trip$alertRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$alertRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BudgetAlertRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.Trip$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  changes<T extends Prisma.Trip$changesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$changesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invitations<T extends Prisma.Trip$invitationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Trip$invitationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1619,9 +3110,11 @@ export interface TripFieldRefs {
   readonly startDate: Prisma.FieldRef<"Trip", 'DateTime'>
   readonly endDate: Prisma.FieldRef<"Trip", 'DateTime'>
   readonly totalBudget: Prisma.FieldRef<"Trip", 'Decimal'>
+  readonly currency: Prisma.FieldRef<"Trip", 'String'>
   readonly coverPhotoUrl: Prisma.FieldRef<"Trip", 'String'>
   readonly status: Prisma.FieldRef<"Trip", 'TripStatus'>
   readonly aiGenerated: Prisma.FieldRef<"Trip", 'Boolean'>
+  readonly deletedAt: Prisma.FieldRef<"Trip", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"Trip", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Trip", 'DateTime'>
 }
@@ -2091,6 +3584,198 @@ export type Trip$sharesArgs<ExtArgs extends runtime.Types.Extensions.InternalArg
   distinct?: Prisma.SharedTripScalarFieldEnum | Prisma.SharedTripScalarFieldEnum[]
 }
 
+/**
+ * Trip.transportLegs
+ */
+export type Trip$transportLegsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TransportLeg
+   */
+  select?: Prisma.TransportLegSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TransportLeg
+   */
+  omit?: Prisma.TransportLegOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TransportLegInclude<ExtArgs> | null
+  where?: Prisma.TransportLegWhereInput
+  orderBy?: Prisma.TransportLegOrderByWithRelationInput | Prisma.TransportLegOrderByWithRelationInput[]
+  cursor?: Prisma.TransportLegWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TransportLegScalarFieldEnum | Prisma.TransportLegScalarFieldEnum[]
+}
+
+/**
+ * Trip.stays
+ */
+export type Trip$staysArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Stay
+   */
+  select?: Prisma.StaySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Stay
+   */
+  omit?: Prisma.StayOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StayInclude<ExtArgs> | null
+  where?: Prisma.StayWhereInput
+  orderBy?: Prisma.StayOrderByWithRelationInput | Prisma.StayOrderByWithRelationInput[]
+  cursor?: Prisma.StayWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StayScalarFieldEnum | Prisma.StayScalarFieldEnum[]
+}
+
+/**
+ * Trip.expenses
+ */
+export type Trip$expensesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Expense
+   */
+  select?: Prisma.ExpenseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Expense
+   */
+  omit?: Prisma.ExpenseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseInclude<ExtArgs> | null
+  where?: Prisma.ExpenseWhereInput
+  orderBy?: Prisma.ExpenseOrderByWithRelationInput | Prisma.ExpenseOrderByWithRelationInput[]
+  cursor?: Prisma.ExpenseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ExpenseScalarFieldEnum | Prisma.ExpenseScalarFieldEnum[]
+}
+
+/**
+ * Trip.settlements
+ */
+export type Trip$settlementsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  where?: Prisma.SettlementWhereInput
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  cursor?: Prisma.SettlementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SettlementScalarFieldEnum | Prisma.SettlementScalarFieldEnum[]
+}
+
+/**
+ * Trip.alertRules
+ */
+export type Trip$alertRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BudgetAlertRule
+   */
+  select?: Prisma.BudgetAlertRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BudgetAlertRule
+   */
+  omit?: Prisma.BudgetAlertRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetAlertRuleInclude<ExtArgs> | null
+  where?: Prisma.BudgetAlertRuleWhereInput
+  orderBy?: Prisma.BudgetAlertRuleOrderByWithRelationInput | Prisma.BudgetAlertRuleOrderByWithRelationInput[]
+  cursor?: Prisma.BudgetAlertRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BudgetAlertRuleScalarFieldEnum | Prisma.BudgetAlertRuleScalarFieldEnum[]
+}
+
+/**
+ * Trip.notifications
+ */
+export type Trip$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * Trip.changes
+ */
+export type Trip$changesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  where?: Prisma.TripChangeWhereInput
+  orderBy?: Prisma.TripChangeOrderByWithRelationInput | Prisma.TripChangeOrderByWithRelationInput[]
+  cursor?: Prisma.TripChangeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TripChangeScalarFieldEnum | Prisma.TripChangeScalarFieldEnum[]
+}
+
+/**
+ * Trip.invitations
+ */
+export type Trip$invitationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  where?: Prisma.ShareInvitationWhereInput
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShareInvitationScalarFieldEnum | Prisma.ShareInvitationScalarFieldEnum[]
+}
+
 /**
  * Trip without action
  */
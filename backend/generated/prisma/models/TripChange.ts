@@ -0,0 +1,1936 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TripChange` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model TripChange
+ * 
+ */
+export type TripChangeModel = runtime.Types.Result.DefaultSelection<Prisma.$TripChangePayload>
+
+export type AggregateTripChange = {
+  _count: TripChangeCountAggregateOutputType | null
+  _min: TripChangeMinAggregateOutputType | null
+  _max: TripChangeMaxAggregateOutputType | null
+}
+
+export type TripChangeMinAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  actorId: string | null
+  entity: $Enums.TripChangeEntity | null
+  entityId: string | null
+  action: $Enums.TripChangeAction | null
+  revertOfId: string | null
+  createdAt: Date | null
+}
+
+export type TripChangeMaxAggregateOutputType = {
+  id: string | null
+  tripId: string | null
+  actorId: string | null
+  entity: $Enums.TripChangeEntity | null
+  entityId: string | null
+  action: $Enums.TripChangeAction | null
+  revertOfId: string | null
+  createdAt: Date | null
+}
+
+export type TripChangeCountAggregateOutputType = {
+  id: number
+  tripId: number
+  actorId: number
+  entity: number
+  entityId: number
+  action: number
+  before: number
+  after: number
+  revertOfId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TripChangeMinAggregateInputType = {
+  id?: true
+  tripId?: true
+  actorId?: true
+  entity?: true
+  entityId?: true
+  action?: true
+  revertOfId?: true
+  createdAt?: true
+}
+
+export type TripChangeMaxAggregateInputType = {
+  id?: true
+  tripId?: true
+  actorId?: true
+  entity?: true
+  entityId?: true
+  action?: true
+  revertOfId?: true
+  createdAt?: true
+}
+
+export type TripChangeCountAggregateInputType = {
+  id?: true
+  tripId?: true
+  actorId?: true
+  entity?: true
+  entityId?: true
+  action?: true
+  before?: true
+  after?: true
+  revertOfId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TripChangeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TripChange to aggregate.
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TripChanges to fetch.
+   */
+  orderBy?: Prisma.TripChangeOrderByWithRelationInput | Prisma.TripChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TripChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TripChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TripChanges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TripChanges
+  **/
+  _count?: true | TripChangeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TripChangeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TripChangeMaxAggregateInputType
+}
+
+export type GetTripChangeAggregateType<T extends TripChangeAggregateArgs> = {
+      [P in keyof T & keyof AggregateTripChange]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTripChange[P]>
+    : Prisma.GetScalarType<T[P], AggregateTripChange[P]>
+}
+
+
+
+
+export type TripChangeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TripChangeWhereInput
+  orderBy?: Prisma.TripChangeOrderByWithAggregationInput | Prisma.TripChangeOrderByWithAggregationInput[]
+  by: Prisma.TripChangeScalarFieldEnum[] | Prisma.TripChangeScalarFieldEnum
+  having?: Prisma.TripChangeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TripChangeCountAggregateInputType | true
+  _min?: TripChangeMinAggregateInputType
+  _max?: TripChangeMaxAggregateInputType
+}
+
+export type TripChangeGroupByOutputType = {
+  id: string
+  tripId: string
+  actorId: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before: runtime.JsonValue | null
+  after: runtime.JsonValue | null
+  revertOfId: string | null
+  createdAt: Date
+  _count: TripChangeCountAggregateOutputType | null
+  _min: TripChangeMinAggregateOutputType | null
+  _max: TripChangeMaxAggregateOutputType | null
+}
+
+type GetTripChangeGroupByPayload<T extends TripChangeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TripChangeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TripChangeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TripChangeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TripChangeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TripChangeWhereInput = {
+  AND?: Prisma.TripChangeWhereInput | Prisma.TripChangeWhereInput[]
+  OR?: Prisma.TripChangeWhereInput[]
+  NOT?: Prisma.TripChangeWhereInput | Prisma.TripChangeWhereInput[]
+  id?: Prisma.StringFilter<"TripChange"> | string
+  tripId?: Prisma.StringFilter<"TripChange"> | string
+  actorId?: Prisma.StringNullableFilter<"TripChange"> | string | null
+  entity?: Prisma.EnumTripChangeEntityFilter<"TripChange"> | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFilter<"TripChange"> | string
+  action?: Prisma.EnumTripChangeActionFilter<"TripChange"> | $Enums.TripChangeAction
+  before?: Prisma.JsonNullableFilter<"TripChange">
+  after?: Prisma.JsonNullableFilter<"TripChange">
+  revertOfId?: Prisma.StringNullableFilter<"TripChange"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TripChange"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  revertOf?: Prisma.XOR<Prisma.TripChangeNullableScalarRelationFilter, Prisma.TripChangeWhereInput> | null
+  revertedBy?: Prisma.XOR<Prisma.TripChangeNullableScalarRelationFilter, Prisma.TripChangeWhereInput> | null
+}
+
+export type TripChangeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  entity?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  before?: Prisma.SortOrderInput | Prisma.SortOrder
+  after?: Prisma.SortOrderInput | Prisma.SortOrder
+  revertOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  trip?: Prisma.TripOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+  revertOf?: Prisma.TripChangeOrderByWithRelationInput
+  revertedBy?: Prisma.TripChangeOrderByWithRelationInput
+}
+
+export type TripChangeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  revertOfId?: string
+  AND?: Prisma.TripChangeWhereInput | Prisma.TripChangeWhereInput[]
+  OR?: Prisma.TripChangeWhereInput[]
+  NOT?: Prisma.TripChangeWhereInput | Prisma.TripChangeWhereInput[]
+  tripId?: Prisma.StringFilter<"TripChange"> | string
+  actorId?: Prisma.StringNullableFilter<"TripChange"> | string | null
+  entity?: Prisma.EnumTripChangeEntityFilter<"TripChange"> | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFilter<"TripChange"> | string
+  action?: Prisma.EnumTripChangeActionFilter<"TripChange"> | $Enums.TripChangeAction
+  before?: Prisma.JsonNullableFilter<"TripChange">
+  after?: Prisma.JsonNullableFilter<"TripChange">
+  createdAt?: Prisma.DateTimeFilter<"TripChange"> | Date | string
+  trip?: Prisma.XOR<Prisma.TripScalarRelationFilter, Prisma.TripWhereInput>
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  revertOf?: Prisma.XOR<Prisma.TripChangeNullableScalarRelationFilter, Prisma.TripChangeWhereInput> | null
+  revertedBy?: Prisma.XOR<Prisma.TripChangeNullableScalarRelationFilter, Prisma.TripChangeWhereInput> | null
+}, "id" | "revertOfId">
+
+export type TripChangeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  entity?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  before?: Prisma.SortOrderInput | Prisma.SortOrder
+  after?: Prisma.SortOrderInput | Prisma.SortOrder
+  revertOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TripChangeCountOrderByAggregateInput
+  _max?: Prisma.TripChangeMaxOrderByAggregateInput
+  _min?: Prisma.TripChangeMinOrderByAggregateInput
+}
+
+export type TripChangeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TripChangeScalarWhereWithAggregatesInput | Prisma.TripChangeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TripChangeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TripChangeScalarWhereWithAggregatesInput | Prisma.TripChangeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"TripChange"> | string
+  tripId?: Prisma.StringWithAggregatesFilter<"TripChange"> | string
+  actorId?: Prisma.StringNullableWithAggregatesFilter<"TripChange"> | string | null
+  entity?: Prisma.EnumTripChangeEntityWithAggregatesFilter<"TripChange"> | $Enums.TripChangeEntity
+  entityId?: Prisma.StringWithAggregatesFilter<"TripChange"> | string
+  action?: Prisma.EnumTripChangeActionWithAggregatesFilter<"TripChange"> | $Enums.TripChangeAction
+  before?: Prisma.JsonNullableWithAggregatesFilter<"TripChange">
+  after?: Prisma.JsonNullableWithAggregatesFilter<"TripChange">
+  revertOfId?: Prisma.StringNullableWithAggregatesFilter<"TripChange"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TripChange"> | Date | string
+}
+
+export type TripChangeCreateInput = {
+  id?: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutChangesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTripChangesInput
+  revertOf?: Prisma.TripChangeCreateNestedOneWithoutRevertedByInput
+  revertedBy?: Prisma.TripChangeCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeUncheckedCreateInput = {
+  id?: string
+  tripId: string
+  actorId?: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+  revertedBy?: Prisma.TripChangeUncheckedCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutChangesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTripChangesNestedInput
+  revertOf?: Prisma.TripChangeUpdateOneWithoutRevertedByNestedInput
+  revertedBy?: Prisma.TripChangeUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedBy?: Prisma.TripChangeUncheckedUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeCreateManyInput = {
+  id?: string
+  tripId: string
+  actorId?: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type TripChangeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TripChangeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TripChangeListRelationFilter = {
+  every?: Prisma.TripChangeWhereInput
+  some?: Prisma.TripChangeWhereInput
+  none?: Prisma.TripChangeWhereInput
+}
+
+export type TripChangeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TripChangeNullableScalarRelationFilter = {
+  is?: Prisma.TripChangeWhereInput | null
+  isNot?: Prisma.TripChangeWhereInput | null
+}
+
+export type TripChangeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  entity?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  before?: Prisma.SortOrder
+  after?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TripChangeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  entity?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TripChangeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tripId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  entity?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  revertOfId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TripChangeCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutActorInput, Prisma.TripChangeUncheckedCreateWithoutActorInput> | Prisma.TripChangeCreateWithoutActorInput[] | Prisma.TripChangeUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutActorInput | Prisma.TripChangeCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.TripChangeCreateManyActorInputEnvelope
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+}
+
+export type TripChangeUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutActorInput, Prisma.TripChangeUncheckedCreateWithoutActorInput> | Prisma.TripChangeCreateWithoutActorInput[] | Prisma.TripChangeUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutActorInput | Prisma.TripChangeCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.TripChangeCreateManyActorInputEnvelope
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+}
+
+export type TripChangeUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutActorInput, Prisma.TripChangeUncheckedCreateWithoutActorInput> | Prisma.TripChangeCreateWithoutActorInput[] | Prisma.TripChangeUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutActorInput | Prisma.TripChangeCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.TripChangeUpsertWithWhereUniqueWithoutActorInput | Prisma.TripChangeUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.TripChangeCreateManyActorInputEnvelope
+  set?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  disconnect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  delete?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  update?: Prisma.TripChangeUpdateWithWhereUniqueWithoutActorInput | Prisma.TripChangeUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.TripChangeUpdateManyWithWhereWithoutActorInput | Prisma.TripChangeUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.TripChangeScalarWhereInput | Prisma.TripChangeScalarWhereInput[]
+}
+
+export type TripChangeUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutActorInput, Prisma.TripChangeUncheckedCreateWithoutActorInput> | Prisma.TripChangeCreateWithoutActorInput[] | Prisma.TripChangeUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutActorInput | Prisma.TripChangeCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.TripChangeUpsertWithWhereUniqueWithoutActorInput | Prisma.TripChangeUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.TripChangeCreateManyActorInputEnvelope
+  set?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  disconnect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  delete?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  update?: Prisma.TripChangeUpdateWithWhereUniqueWithoutActorInput | Prisma.TripChangeUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.TripChangeUpdateManyWithWhereWithoutActorInput | Prisma.TripChangeUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.TripChangeScalarWhereInput | Prisma.TripChangeScalarWhereInput[]
+}
+
+export type TripChangeCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutTripInput, Prisma.TripChangeUncheckedCreateWithoutTripInput> | Prisma.TripChangeCreateWithoutTripInput[] | Prisma.TripChangeUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutTripInput | Prisma.TripChangeCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.TripChangeCreateManyTripInputEnvelope
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+}
+
+export type TripChangeUncheckedCreateNestedManyWithoutTripInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutTripInput, Prisma.TripChangeUncheckedCreateWithoutTripInput> | Prisma.TripChangeCreateWithoutTripInput[] | Prisma.TripChangeUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutTripInput | Prisma.TripChangeCreateOrConnectWithoutTripInput[]
+  createMany?: Prisma.TripChangeCreateManyTripInputEnvelope
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+}
+
+export type TripChangeUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutTripInput, Prisma.TripChangeUncheckedCreateWithoutTripInput> | Prisma.TripChangeCreateWithoutTripInput[] | Prisma.TripChangeUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutTripInput | Prisma.TripChangeCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.TripChangeUpsertWithWhereUniqueWithoutTripInput | Prisma.TripChangeUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.TripChangeCreateManyTripInputEnvelope
+  set?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  disconnect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  delete?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  update?: Prisma.TripChangeUpdateWithWhereUniqueWithoutTripInput | Prisma.TripChangeUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.TripChangeUpdateManyWithWhereWithoutTripInput | Prisma.TripChangeUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.TripChangeScalarWhereInput | Prisma.TripChangeScalarWhereInput[]
+}
+
+export type TripChangeUncheckedUpdateManyWithoutTripNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutTripInput, Prisma.TripChangeUncheckedCreateWithoutTripInput> | Prisma.TripChangeCreateWithoutTripInput[] | Prisma.TripChangeUncheckedCreateWithoutTripInput[]
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutTripInput | Prisma.TripChangeCreateOrConnectWithoutTripInput[]
+  upsert?: Prisma.TripChangeUpsertWithWhereUniqueWithoutTripInput | Prisma.TripChangeUpsertWithWhereUniqueWithoutTripInput[]
+  createMany?: Prisma.TripChangeCreateManyTripInputEnvelope
+  set?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  disconnect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  delete?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  connect?: Prisma.TripChangeWhereUniqueInput | Prisma.TripChangeWhereUniqueInput[]
+  update?: Prisma.TripChangeUpdateWithWhereUniqueWithoutTripInput | Prisma.TripChangeUpdateWithWhereUniqueWithoutTripInput[]
+  updateMany?: Prisma.TripChangeUpdateManyWithWhereWithoutTripInput | Prisma.TripChangeUpdateManyWithWhereWithoutTripInput[]
+  deleteMany?: Prisma.TripChangeScalarWhereInput | Prisma.TripChangeScalarWhereInput[]
+}
+
+export type TripChangeCreateNestedOneWithoutRevertedByInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertedByInput, Prisma.TripChangeUncheckedCreateWithoutRevertedByInput>
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutRevertedByInput
+  connect?: Prisma.TripChangeWhereUniqueInput
+}
+
+export type TripChangeCreateNestedOneWithoutRevertOfInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertOfInput, Prisma.TripChangeUncheckedCreateWithoutRevertOfInput>
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutRevertOfInput
+  connect?: Prisma.TripChangeWhereUniqueInput
+}
+
+export type TripChangeUncheckedCreateNestedOneWithoutRevertOfInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertOfInput, Prisma.TripChangeUncheckedCreateWithoutRevertOfInput>
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutRevertOfInput
+  connect?: Prisma.TripChangeWhereUniqueInput
+}
+
+export type EnumTripChangeEntityFieldUpdateOperationsInput = {
+  set?: $Enums.TripChangeEntity
+}
+
+export type EnumTripChangeActionFieldUpdateOperationsInput = {
+  set?: $Enums.TripChangeAction
+}
+
+export type TripChangeUpdateOneWithoutRevertedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertedByInput, Prisma.TripChangeUncheckedCreateWithoutRevertedByInput>
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutRevertedByInput
+  upsert?: Prisma.TripChangeUpsertWithoutRevertedByInput
+  disconnect?: Prisma.TripChangeWhereInput | boolean
+  delete?: Prisma.TripChangeWhereInput | boolean
+  connect?: Prisma.TripChangeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripChangeUpdateToOneWithWhereWithoutRevertedByInput, Prisma.TripChangeUpdateWithoutRevertedByInput>, Prisma.TripChangeUncheckedUpdateWithoutRevertedByInput>
+}
+
+export type TripChangeUpdateOneWithoutRevertOfNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertOfInput, Prisma.TripChangeUncheckedCreateWithoutRevertOfInput>
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutRevertOfInput
+  upsert?: Prisma.TripChangeUpsertWithoutRevertOfInput
+  disconnect?: Prisma.TripChangeWhereInput | boolean
+  delete?: Prisma.TripChangeWhereInput | boolean
+  connect?: Prisma.TripChangeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripChangeUpdateToOneWithWhereWithoutRevertOfInput, Prisma.TripChangeUpdateWithoutRevertOfInput>, Prisma.TripChangeUncheckedUpdateWithoutRevertOfInput>
+}
+
+export type TripChangeUncheckedUpdateOneWithoutRevertOfNestedInput = {
+  create?: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertOfInput, Prisma.TripChangeUncheckedCreateWithoutRevertOfInput>
+  connectOrCreate?: Prisma.TripChangeCreateOrConnectWithoutRevertOfInput
+  upsert?: Prisma.TripChangeUpsertWithoutRevertOfInput
+  disconnect?: Prisma.TripChangeWhereInput | boolean
+  delete?: Prisma.TripChangeWhereInput | boolean
+  connect?: Prisma.TripChangeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TripChangeUpdateToOneWithWhereWithoutRevertOfInput, Prisma.TripChangeUpdateWithoutRevertOfInput>, Prisma.TripChangeUncheckedUpdateWithoutRevertOfInput>
+}
+
+export type TripChangeCreateWithoutActorInput = {
+  id?: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutChangesInput
+  revertOf?: Prisma.TripChangeCreateNestedOneWithoutRevertedByInput
+  revertedBy?: Prisma.TripChangeCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeUncheckedCreateWithoutActorInput = {
+  id?: string
+  tripId: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+  revertedBy?: Prisma.TripChangeUncheckedCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeCreateOrConnectWithoutActorInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutActorInput, Prisma.TripChangeUncheckedCreateWithoutActorInput>
+}
+
+export type TripChangeCreateManyActorInputEnvelope = {
+  data: Prisma.TripChangeCreateManyActorInput | Prisma.TripChangeCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type TripChangeUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  update: Prisma.XOR<Prisma.TripChangeUpdateWithoutActorInput, Prisma.TripChangeUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutActorInput, Prisma.TripChangeUncheckedCreateWithoutActorInput>
+}
+
+export type TripChangeUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  data: Prisma.XOR<Prisma.TripChangeUpdateWithoutActorInput, Prisma.TripChangeUncheckedUpdateWithoutActorInput>
+}
+
+export type TripChangeUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.TripChangeScalarWhereInput
+  data: Prisma.XOR<Prisma.TripChangeUpdateManyMutationInput, Prisma.TripChangeUncheckedUpdateManyWithoutActorInput>
+}
+
+export type TripChangeScalarWhereInput = {
+  AND?: Prisma.TripChangeScalarWhereInput | Prisma.TripChangeScalarWhereInput[]
+  OR?: Prisma.TripChangeScalarWhereInput[]
+  NOT?: Prisma.TripChangeScalarWhereInput | Prisma.TripChangeScalarWhereInput[]
+  id?: Prisma.StringFilter<"TripChange"> | string
+  tripId?: Prisma.StringFilter<"TripChange"> | string
+  actorId?: Prisma.StringNullableFilter<"TripChange"> | string | null
+  entity?: Prisma.EnumTripChangeEntityFilter<"TripChange"> | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFilter<"TripChange"> | string
+  action?: Prisma.EnumTripChangeActionFilter<"TripChange"> | $Enums.TripChangeAction
+  before?: Prisma.JsonNullableFilter<"TripChange">
+  after?: Prisma.JsonNullableFilter<"TripChange">
+  revertOfId?: Prisma.StringNullableFilter<"TripChange"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TripChange"> | Date | string
+}
+
+export type TripChangeCreateWithoutTripInput = {
+  id?: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  actor?: Prisma.UserCreateNestedOneWithoutTripChangesInput
+  revertOf?: Prisma.TripChangeCreateNestedOneWithoutRevertedByInput
+  revertedBy?: Prisma.TripChangeCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeUncheckedCreateWithoutTripInput = {
+  id?: string
+  actorId?: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+  revertedBy?: Prisma.TripChangeUncheckedCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeCreateOrConnectWithoutTripInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutTripInput, Prisma.TripChangeUncheckedCreateWithoutTripInput>
+}
+
+export type TripChangeCreateManyTripInputEnvelope = {
+  data: Prisma.TripChangeCreateManyTripInput | Prisma.TripChangeCreateManyTripInput[]
+  skipDuplicates?: boolean
+}
+
+export type TripChangeUpsertWithWhereUniqueWithoutTripInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  update: Prisma.XOR<Prisma.TripChangeUpdateWithoutTripInput, Prisma.TripChangeUncheckedUpdateWithoutTripInput>
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutTripInput, Prisma.TripChangeUncheckedCreateWithoutTripInput>
+}
+
+export type TripChangeUpdateWithWhereUniqueWithoutTripInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  data: Prisma.XOR<Prisma.TripChangeUpdateWithoutTripInput, Prisma.TripChangeUncheckedUpdateWithoutTripInput>
+}
+
+export type TripChangeUpdateManyWithWhereWithoutTripInput = {
+  where: Prisma.TripChangeScalarWhereInput
+  data: Prisma.XOR<Prisma.TripChangeUpdateManyMutationInput, Prisma.TripChangeUncheckedUpdateManyWithoutTripInput>
+}
+
+export type TripChangeCreateWithoutRevertedByInput = {
+  id?: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutChangesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTripChangesInput
+  revertOf?: Prisma.TripChangeCreateNestedOneWithoutRevertedByInput
+}
+
+export type TripChangeUncheckedCreateWithoutRevertedByInput = {
+  id?: string
+  tripId: string
+  actorId?: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type TripChangeCreateOrConnectWithoutRevertedByInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertedByInput, Prisma.TripChangeUncheckedCreateWithoutRevertedByInput>
+}
+
+export type TripChangeCreateWithoutRevertOfInput = {
+  id?: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  trip: Prisma.TripCreateNestedOneWithoutChangesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTripChangesInput
+  revertedBy?: Prisma.TripChangeCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeUncheckedCreateWithoutRevertOfInput = {
+  id?: string
+  tripId: string
+  actorId?: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  revertedBy?: Prisma.TripChangeUncheckedCreateNestedOneWithoutRevertOfInput
+}
+
+export type TripChangeCreateOrConnectWithoutRevertOfInput = {
+  where: Prisma.TripChangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertOfInput, Prisma.TripChangeUncheckedCreateWithoutRevertOfInput>
+}
+
+export type TripChangeUpsertWithoutRevertedByInput = {
+  update: Prisma.XOR<Prisma.TripChangeUpdateWithoutRevertedByInput, Prisma.TripChangeUncheckedUpdateWithoutRevertedByInput>
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertedByInput, Prisma.TripChangeUncheckedCreateWithoutRevertedByInput>
+  where?: Prisma.TripChangeWhereInput
+}
+
+export type TripChangeUpdateToOneWithWhereWithoutRevertedByInput = {
+  where?: Prisma.TripChangeWhereInput
+  data: Prisma.XOR<Prisma.TripChangeUpdateWithoutRevertedByInput, Prisma.TripChangeUncheckedUpdateWithoutRevertedByInput>
+}
+
+export type TripChangeUpdateWithoutRevertedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutChangesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTripChangesNestedInput
+  revertOf?: Prisma.TripChangeUpdateOneWithoutRevertedByNestedInput
+}
+
+export type TripChangeUncheckedUpdateWithoutRevertedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TripChangeUpsertWithoutRevertOfInput = {
+  update: Prisma.XOR<Prisma.TripChangeUpdateWithoutRevertOfInput, Prisma.TripChangeUncheckedUpdateWithoutRevertOfInput>
+  create: Prisma.XOR<Prisma.TripChangeCreateWithoutRevertOfInput, Prisma.TripChangeUncheckedCreateWithoutRevertOfInput>
+  where?: Prisma.TripChangeWhereInput
+}
+
+export type TripChangeUpdateToOneWithWhereWithoutRevertOfInput = {
+  where?: Prisma.TripChangeWhereInput
+  data: Prisma.XOR<Prisma.TripChangeUpdateWithoutRevertOfInput, Prisma.TripChangeUncheckedUpdateWithoutRevertOfInput>
+}
+
+export type TripChangeUpdateWithoutRevertOfInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutChangesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTripChangesNestedInput
+  revertedBy?: Prisma.TripChangeUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeUncheckedUpdateWithoutRevertOfInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedBy?: Prisma.TripChangeUncheckedUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeCreateManyActorInput = {
+  id?: string
+  tripId: string
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type TripChangeUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trip?: Prisma.TripUpdateOneRequiredWithoutChangesNestedInput
+  revertOf?: Prisma.TripChangeUpdateOneWithoutRevertedByNestedInput
+  revertedBy?: Prisma.TripChangeUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedBy?: Prisma.TripChangeUncheckedUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  tripId?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TripChangeCreateManyTripInput = {
+  id?: string
+  actorId?: string | null
+  entity: $Enums.TripChangeEntity
+  entityId: string
+  action: $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: string | null
+  createdAt?: Date | string
+}
+
+export type TripChangeUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  actor?: Prisma.UserUpdateOneWithoutTripChangesNestedInput
+  revertOf?: Prisma.TripChangeUpdateOneWithoutRevertedByNestedInput
+  revertedBy?: Prisma.TripChangeUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeUncheckedUpdateWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revertedBy?: Prisma.TripChangeUncheckedUpdateOneWithoutRevertOfNestedInput
+}
+
+export type TripChangeUncheckedUpdateManyWithoutTripInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entity?: Prisma.EnumTripChangeEntityFieldUpdateOperationsInput | $Enums.TripChangeEntity
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumTripChangeActionFieldUpdateOperationsInput | $Enums.TripChangeAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  revertOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TripChangeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  actorId?: boolean
+  entity?: boolean
+  entityId?: boolean
+  action?: boolean
+  before?: boolean
+  after?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.TripChange$actorArgs<ExtArgs>
+  revertOf?: boolean | Prisma.TripChange$revertOfArgs<ExtArgs>
+  revertedBy?: boolean | Prisma.TripChange$revertedByArgs<ExtArgs>
+}, ExtArgs["result"]["tripChange"]>
+
+export type TripChangeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  actorId?: boolean
+  entity?: boolean
+  entityId?: boolean
+  action?: boolean
+  before?: boolean
+  after?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.TripChange$actorArgs<ExtArgs>
+  revertOf?: boolean | Prisma.TripChange$revertOfArgs<ExtArgs>
+}, ExtArgs["result"]["tripChange"]>
+
+export type TripChangeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tripId?: boolean
+  actorId?: boolean
+  entity?: boolean
+  entityId?: boolean
+  action?: boolean
+  before?: boolean
+  after?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.TripChange$actorArgs<ExtArgs>
+  revertOf?: boolean | Prisma.TripChange$revertOfArgs<ExtArgs>
+}, ExtArgs["result"]["tripChange"]>
+
+export type TripChangeSelectScalar = {
+  id?: boolean
+  tripId?: boolean
+  actorId?: boolean
+  entity?: boolean
+  entityId?: boolean
+  action?: boolean
+  before?: boolean
+  after?: boolean
+  revertOfId?: boolean
+  createdAt?: boolean
+}
+
+export type TripChangeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tripId" | "actorId" | "entity" | "entityId" | "action" | "before" | "after" | "revertOfId" | "createdAt", ExtArgs["result"]["tripChange"]>
+export type TripChangeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.TripChange$actorArgs<ExtArgs>
+  revertOf?: boolean | Prisma.TripChange$revertOfArgs<ExtArgs>
+  revertedBy?: boolean | Prisma.TripChange$revertedByArgs<ExtArgs>
+}
+export type TripChangeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.TripChange$actorArgs<ExtArgs>
+  revertOf?: boolean | Prisma.TripChange$revertOfArgs<ExtArgs>
+}
+export type TripChangeIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  trip?: boolean | Prisma.TripDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.TripChange$actorArgs<ExtArgs>
+  revertOf?: boolean | Prisma.TripChange$revertOfArgs<ExtArgs>
+}
+
+export type $TripChangePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TripChange"
+  objects: {
+    trip: Prisma.$TripPayload<ExtArgs>
+    actor: Prisma.$UserPayload<ExtArgs> | null
+    revertOf: Prisma.$TripChangePayload<ExtArgs> | null
+    revertedBy: Prisma.$TripChangePayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    tripId: string
+    actorId: string | null
+    entity: $Enums.TripChangeEntity
+    entityId: string
+    action: $Enums.TripChangeAction
+    before: runtime.JsonValue | null
+    after: runtime.JsonValue | null
+    revertOfId: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["tripChange"]>
+  composites: {}
+}
+
+export type TripChangeGetPayload<S extends boolean | null | undefined | TripChangeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TripChangePayload, S>
+
+export type TripChangeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TripChangeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TripChangeCountAggregateInputType | true
+  }
+
+export interface TripChangeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TripChange'], meta: { name: 'TripChange' } }
+  /**
+   * Find zero or one TripChange that matches the filter.
+   * @param {TripChangeFindUniqueArgs} args - Arguments to find a TripChange
+   * @example
+   * // Get one TripChange
+   * const tripChange = await prisma.tripChange.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TripChangeFindUniqueArgs>(args: Prisma.SelectSubset<T, TripChangeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TripChange that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TripChangeFindUniqueOrThrowArgs} args - Arguments to find a TripChange
+   * @example
+   * // Get one TripChange
+   * const tripChange = await prisma.tripChange.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TripChangeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TripChangeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TripChange that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeFindFirstArgs} args - Arguments to find a TripChange
+   * @example
+   * // Get one TripChange
+   * const tripChange = await prisma.tripChange.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TripChangeFindFirstArgs>(args?: Prisma.SelectSubset<T, TripChangeFindFirstArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TripChange that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeFindFirstOrThrowArgs} args - Arguments to find a TripChange
+   * @example
+   * // Get one TripChange
+   * const tripChange = await prisma.tripChange.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TripChangeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TripChangeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TripChanges that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TripChanges
+   * const tripChanges = await prisma.tripChange.findMany()
+   * 
+   * // Get first 10 TripChanges
+   * const tripChanges = await prisma.tripChange.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const tripChangeWithIdOnly = await prisma.tripChange.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TripChangeFindManyArgs>(args?: Prisma.SelectSubset<T, TripChangeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TripChange.
+   * @param {TripChangeCreateArgs} args - Arguments to create a TripChange.
+   * @example
+   * // Create one TripChange
+   * const TripChange = await prisma.tripChange.create({
+   *   data: {
+   *     // ... data to create a TripChange
+   *   }
+   * })
+   * 
+   */
+  create<T extends TripChangeCreateArgs>(args: Prisma.SelectSubset<T, TripChangeCreateArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TripChanges.
+   * @param {TripChangeCreateManyArgs} args - Arguments to create many TripChanges.
+   * @example
+   * // Create many TripChanges
+   * const tripChange = await prisma.tripChange.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TripChangeCreateManyArgs>(args?: Prisma.SelectSubset<T, TripChangeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TripChanges and returns the data saved in the database.
+   * @param {TripChangeCreateManyAndReturnArgs} args - Arguments to create many TripChanges.
+   * @example
+   * // Create many TripChanges
+   * const tripChange = await prisma.tripChange.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TripChanges and only return the `id`
+   * const tripChangeWithIdOnly = await prisma.tripChange.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TripChangeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TripChangeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TripChange.
+   * @param {TripChangeDeleteArgs} args - Arguments to delete one TripChange.
+   * @example
+   * // Delete one TripChange
+   * const TripChange = await prisma.tripChange.delete({
+   *   where: {
+   *     // ... filter to delete one TripChange
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TripChangeDeleteArgs>(args: Prisma.SelectSubset<T, TripChangeDeleteArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TripChange.
+   * @param {TripChangeUpdateArgs} args - Arguments to update one TripChange.
+   * @example
+   * // Update one TripChange
+   * const tripChange = await prisma.tripChange.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TripChangeUpdateArgs>(args: Prisma.SelectSubset<T, TripChangeUpdateArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TripChanges.
+   * @param {TripChangeDeleteManyArgs} args - Arguments to filter TripChanges to delete.
+   * @example
+   * // Delete a few TripChanges
+   * const { count } = await prisma.tripChange.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TripChangeDeleteManyArgs>(args?: Prisma.SelectSubset<T, TripChangeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TripChanges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TripChanges
+   * const tripChange = await prisma.tripChange.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TripChangeUpdateManyArgs>(args: Prisma.SelectSubset<T, TripChangeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TripChanges and returns the data updated in the database.
+   * @param {TripChangeUpdateManyAndReturnArgs} args - Arguments to update many TripChanges.
+   * @example
+   * // Update many TripChanges
+   * const tripChange = await prisma.tripChange.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TripChanges and only return the `id`
+   * const tripChangeWithIdOnly = await prisma.tripChange.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TripChangeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TripChangeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TripChange.
+   * @param {TripChangeUpsertArgs} args - Arguments to update or create a TripChange.
+   * @example
+   * // Update or create a TripChange
+   * const tripChange = await prisma.tripChange.upsert({
+   *   create: {
+   *     // ... data to create a TripChange
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TripChange we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TripChangeUpsertArgs>(args: Prisma.SelectSubset<T, TripChangeUpsertArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TripChanges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeCountArgs} args - Arguments to filter TripChanges to count.
+   * @example
+   * // Count the number of TripChanges
+   * const count = await prisma.tripChange.count({
+   *   where: {
+   *     // ... the filter for the TripChanges we want to count
+   *   }
+   * })
+  **/
+  count<T extends TripChangeCountArgs>(
+    args?: Prisma.Subset<T, TripChangeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TripChangeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TripChange.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TripChangeAggregateArgs>(args: Prisma.Subset<T, TripChangeAggregateArgs>): Prisma.PrismaPromise<GetTripChangeAggregateType<T>>
+
+  /**
+   * Group by TripChange.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TripChangeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TripChangeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TripChangeGroupByArgs['orderBy'] }
+      : { orderBy?: TripChangeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TripChangeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTripChangeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TripChange model
+ */
+readonly fields: TripChangeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TripChange.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TripChangeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  trip<T extends Prisma.TripDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripDefaultArgs<ExtArgs>>): Prisma.Prisma__TripClient<runtime.Types.Result.GetResult<Prisma.$TripPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.TripChange$actorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripChange$actorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  revertOf<T extends Prisma.TripChange$revertOfArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripChange$revertOfArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  revertedBy<T extends Prisma.TripChange$revertedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TripChange$revertedByArgs<ExtArgs>>): Prisma.Prisma__TripChangeClient<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TripChange model
+ */
+export interface TripChangeFieldRefs {
+  readonly id: Prisma.FieldRef<"TripChange", 'String'>
+  readonly tripId: Prisma.FieldRef<"TripChange", 'String'>
+  readonly actorId: Prisma.FieldRef<"TripChange", 'String'>
+  readonly entity: Prisma.FieldRef<"TripChange", 'TripChangeEntity'>
+  readonly entityId: Prisma.FieldRef<"TripChange", 'String'>
+  readonly action: Prisma.FieldRef<"TripChange", 'TripChangeAction'>
+  readonly before: Prisma.FieldRef<"TripChange", 'Json'>
+  readonly after: Prisma.FieldRef<"TripChange", 'Json'>
+  readonly revertOfId: Prisma.FieldRef<"TripChange", 'String'>
+  readonly createdAt: Prisma.FieldRef<"TripChange", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TripChange findUnique
+ */
+export type TripChangeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which TripChange to fetch.
+   */
+  where: Prisma.TripChangeWhereUniqueInput
+}
+
+/**
+ * TripChange findUniqueOrThrow
+ */
+export type TripChangeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which TripChange to fetch.
+   */
+  where: Prisma.TripChangeWhereUniqueInput
+}
+
+/**
+ * TripChange findFirst
+ */
+export type TripChangeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which TripChange to fetch.
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TripChanges to fetch.
+   */
+  orderBy?: Prisma.TripChangeOrderByWithRelationInput | Prisma.TripChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TripChanges.
+   */
+  cursor?: Prisma.TripChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TripChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TripChanges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TripChanges.
+   */
+  distinct?: Prisma.TripChangeScalarFieldEnum | Prisma.TripChangeScalarFieldEnum[]
+}
+
+/**
+ * TripChange findFirstOrThrow
+ */
+export type TripChangeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which TripChange to fetch.
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TripChanges to fetch.
+   */
+  orderBy?: Prisma.TripChangeOrderByWithRelationInput | Prisma.TripChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TripChanges.
+   */
+  cursor?: Prisma.TripChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TripChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TripChanges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TripChanges.
+   */
+  distinct?: Prisma.TripChangeScalarFieldEnum | Prisma.TripChangeScalarFieldEnum[]
+}
+
+/**
+ * TripChange findMany
+ */
+export type TripChangeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which TripChanges to fetch.
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TripChanges to fetch.
+   */
+  orderBy?: Prisma.TripChangeOrderByWithRelationInput | Prisma.TripChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TripChanges.
+   */
+  cursor?: Prisma.TripChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TripChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TripChanges.
+   */
+  skip?: number
+  distinct?: Prisma.TripChangeScalarFieldEnum | Prisma.TripChangeScalarFieldEnum[]
+}
+
+/**
+ * TripChange create
+ */
+export type TripChangeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TripChange.
+   */
+  data: Prisma.XOR<Prisma.TripChangeCreateInput, Prisma.TripChangeUncheckedCreateInput>
+}
+
+/**
+ * TripChange createMany
+ */
+export type TripChangeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TripChanges.
+   */
+  data: Prisma.TripChangeCreateManyInput | Prisma.TripChangeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TripChange createManyAndReturn
+ */
+export type TripChangeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * The data used to create many TripChanges.
+   */
+  data: Prisma.TripChangeCreateManyInput | Prisma.TripChangeCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TripChange update
+ */
+export type TripChangeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TripChange.
+   */
+  data: Prisma.XOR<Prisma.TripChangeUpdateInput, Prisma.TripChangeUncheckedUpdateInput>
+  /**
+   * Choose, which TripChange to update.
+   */
+  where: Prisma.TripChangeWhereUniqueInput
+}
+
+/**
+ * TripChange updateMany
+ */
+export type TripChangeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TripChanges.
+   */
+  data: Prisma.XOR<Prisma.TripChangeUpdateManyMutationInput, Prisma.TripChangeUncheckedUpdateManyInput>
+  /**
+   * Filter which TripChanges to update
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * Limit how many TripChanges to update.
+   */
+  limit?: number
+}
+
+/**
+ * TripChange updateManyAndReturn
+ */
+export type TripChangeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * The data used to update TripChanges.
+   */
+  data: Prisma.XOR<Prisma.TripChangeUpdateManyMutationInput, Prisma.TripChangeUncheckedUpdateManyInput>
+  /**
+   * Filter which TripChanges to update
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * Limit how many TripChanges to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TripChange upsert
+ */
+export type TripChangeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TripChange to update in case it exists.
+   */
+  where: Prisma.TripChangeWhereUniqueInput
+  /**
+   * In case the TripChange found by the `where` argument doesn't exist, create a new TripChange with this data.
+   */
+  create: Prisma.XOR<Prisma.TripChangeCreateInput, Prisma.TripChangeUncheckedCreateInput>
+  /**
+   * In case the TripChange was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TripChangeUpdateInput, Prisma.TripChangeUncheckedUpdateInput>
+}
+
+/**
+ * TripChange delete
+ */
+export type TripChangeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  /**
+   * Filter which TripChange to delete.
+   */
+  where: Prisma.TripChangeWhereUniqueInput
+}
+
+/**
+ * TripChange deleteMany
+ */
+export type TripChangeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TripChanges to delete
+   */
+  where?: Prisma.TripChangeWhereInput
+  /**
+   * Limit how many TripChanges to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TripChange.actor
+ */
+export type TripChange$actorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TripChange.revertOf
+ */
+export type TripChange$revertOfArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  where?: Prisma.TripChangeWhereInput
+}
+
+/**
+ * TripChange.revertedBy
+ */
+export type TripChange$revertedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  where?: Prisma.TripChangeWhereInput
+}
+
+/**
+ * TripChange without action
+ */
+export type TripChangeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+}
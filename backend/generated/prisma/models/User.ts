@@ -20,10 +20,20 @@ export type UserModel = runtime.Types.Result.DefaultSelection<Prisma.$UserPayloa
 
 export type AggregateUser = {
   _count: UserCountAggregateOutputType | null
+  _avg: UserAvgAggregateOutputType | null
+  _sum: UserSumAggregateOutputType | null
   _min: UserMinAggregateOutputType | null
   _max: UserMaxAggregateOutputType | null
 }
 
+export type UserAvgAggregateOutputType = {
+  failedLoginAttempts: number | null
+}
+
+export type UserSumAggregateOutputType = {
+  failedLoginAttempts: number | null
+}
+
 export type UserMinAggregateOutputType = {
   id: string | null
   email: string | null
@@ -33,6 +43,9 @@ export type UserMinAggregateOutputType = {
   language: string | null
   currency: string | null
   role: $Enums.UserRole | null
+  emailVerifiedAt: Date | null
+  failedLoginAttempts: number | null
+  lockedUntil: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -46,6 +59,9 @@ export type UserMaxAggregateOutputType = {
   language: string | null
   currency: string | null
   role: $Enums.UserRole | null
+  emailVerifiedAt: Date | null
+  failedLoginAttempts: number | null
+  lockedUntil: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -59,12 +75,23 @@ export type UserCountAggregateOutputType = {
   language: number
   currency: number
   role: number
+  emailVerifiedAt: number
+  failedLoginAttempts: number
+  lockedUntil: number
   createdAt: number
   updatedAt: number
   _all: number
 }
 
 
+export type UserAvgAggregateInputType = {
+  failedLoginAttempts?: true
+}
+
+export type UserSumAggregateInputType = {
+  failedLoginAttempts?: true
+}
+
 export type UserMinAggregateInputType = {
   id?: true
   email?: true
@@ -74,6 +101,9 @@ export type UserMinAggregateInputType = {
   language?: true
   currency?: true
   role?: true
+  emailVerifiedAt?: true
+  failedLoginAttempts?: true
+  lockedUntil?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -87,6 +117,9 @@ export type UserMaxAggregateInputType = {
   language?: true
   currency?: true
   role?: true
+  emailVerifiedAt?: true
+  failedLoginAttempts?: true
+  lockedUntil?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -100,6 +133,9 @@ export type UserCountAggregateInputType = {
   language?: true
   currency?: true
   role?: true
+  emailVerifiedAt?: true
+  failedLoginAttempts?: true
+  lockedUntil?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -140,6 +176,18 @@ export type UserAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalA
    * Count returned Users
   **/
   _count?: true | UserCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: UserAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: UserSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -173,6 +221,8 @@ export type UserGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArg
   take?: number
   skip?: number
   _count?: UserCountAggregateInputType | true
+  _avg?: UserAvgAggregateInputType
+  _sum?: UserSumAggregateInputType
   _min?: UserMinAggregateInputType
   _max?: UserMaxAggregateInputType
 }
@@ -180,15 +230,20 @@ export type UserGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArg
 export type UserGroupByOutputType = {
   id: string
   email: string
-  passwordHash: string
+  passwordHash: string | null
   name: string
   avatarUrl: string | null
   language: string
   currency: string
   role: $Enums.UserRole
+  emailVerifiedAt: Date | null
+  failedLoginAttempts: number
+  lockedUntil: Date | null
   createdAt: Date
   updatedAt: Date
   _count: UserCountAggregateOutputType | null
+  _avg: UserAvgAggregateOutputType | null
+  _sum: UserSumAggregateOutputType | null
   _min: UserMinAggregateOutputType | null
   _max: UserMaxAggregateOutputType | null
 }
@@ -214,35 +269,69 @@ export type UserWhereInput = {
   NOT?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
   id?: Prisma.StringFilter<"User"> | string
   email?: Prisma.StringFilter<"User"> | string
-  passwordHash?: Prisma.StringFilter<"User"> | string
+  passwordHash?: Prisma.StringNullableFilter<"User"> | string | null
   name?: Prisma.StringFilter<"User"> | string
   avatarUrl?: Prisma.StringNullableFilter<"User"> | string | null
   language?: Prisma.StringFilter<"User"> | string
   currency?: Prisma.StringFilter<"User"> | string
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
+  emailVerifiedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  failedLoginAttempts?: Prisma.IntFilter<"User"> | number
+  lockedUntil?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   trips?: Prisma.TripListRelationFilter
   savedCities?: Prisma.SavedCityListRelationFilter
   sharedTrips?: Prisma.SharedTripListRelationFilter
   receivedTrips?: Prisma.SharedTripListRelationFilter
+  proposals?: Prisma.RouteProposalListRelationFilter
+  expensesPaid?: Prisma.ExpenseListRelationFilter
+  expenseSplits?: Prisma.ExpenseSplitListRelationFilter
+  settlementsPaid?: Prisma.SettlementListRelationFilter
+  settlementsReceived?: Prisma.SettlementListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+  tripChanges?: Prisma.TripChangeListRelationFilter
+  invitationsSent?: Prisma.ShareInvitationListRelationFilter
+  invitationsReceived?: Prisma.ShareInvitationListRelationFilter
+  shareViews?: Prisma.ShareViewListRelationFilter
+  sessions?: Prisma.SessionListRelationFilter
+  tokens?: Prisma.UserTokenListRelationFilter
+  identities?: Prisma.UserIdentityListRelationFilter
+  securityEvents?: Prisma.SecurityEventListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
-  passwordHash?: Prisma.SortOrder
+  passwordHash?: Prisma.SortOrderInput | Prisma.SortOrder
   name?: Prisma.SortOrder
   avatarUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   language?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   role?: Prisma.SortOrder
+  emailVerifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failedLoginAttempts?: Prisma.SortOrder
+  lockedUntil?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   trips?: Prisma.TripOrderByRelationAggregateInput
   savedCities?: Prisma.SavedCityOrderByRelationAggregateInput
   sharedTrips?: Prisma.SharedTripOrderByRelationAggregateInput
   receivedTrips?: Prisma.SharedTripOrderByRelationAggregateInput
+  proposals?: Prisma.RouteProposalOrderByRelationAggregateInput
+  expensesPaid?: Prisma.ExpenseOrderByRelationAggregateInput
+  expenseSplits?: Prisma.ExpenseSplitOrderByRelationAggregateInput
+  settlementsPaid?: Prisma.SettlementOrderByRelationAggregateInput
+  settlementsReceived?: Prisma.SettlementOrderByRelationAggregateInput
+  notifications?: Prisma.NotificationOrderByRelationAggregateInput
+  tripChanges?: Prisma.TripChangeOrderByRelationAggregateInput
+  invitationsSent?: Prisma.ShareInvitationOrderByRelationAggregateInput
+  invitationsReceived?: Prisma.ShareInvitationOrderByRelationAggregateInput
+  shareViews?: Prisma.ShareViewOrderByRelationAggregateInput
+  sessions?: Prisma.SessionOrderByRelationAggregateInput
+  tokens?: Prisma.UserTokenOrderByRelationAggregateInput
+  identities?: Prisma.UserIdentityOrderByRelationAggregateInput
+  securityEvents?: Prisma.SecurityEventOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -251,34 +340,56 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   AND?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
   OR?: Prisma.UserWhereInput[]
   NOT?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
-  passwordHash?: Prisma.StringFilter<"User"> | string
+  passwordHash?: Prisma.StringNullableFilter<"User"> | string | null
   name?: Prisma.StringFilter<"User"> | string
   avatarUrl?: Prisma.StringNullableFilter<"User"> | string | null
   language?: Prisma.StringFilter<"User"> | string
   currency?: Prisma.StringFilter<"User"> | string
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
+  emailVerifiedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  failedLoginAttempts?: Prisma.IntFilter<"User"> | number
+  lockedUntil?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   trips?: Prisma.TripListRelationFilter
   savedCities?: Prisma.SavedCityListRelationFilter
   sharedTrips?: Prisma.SharedTripListRelationFilter
   receivedTrips?: Prisma.SharedTripListRelationFilter
+  proposals?: Prisma.RouteProposalListRelationFilter
+  expensesPaid?: Prisma.ExpenseListRelationFilter
+  expenseSplits?: Prisma.ExpenseSplitListRelationFilter
+  settlementsPaid?: Prisma.SettlementListRelationFilter
+  settlementsReceived?: Prisma.SettlementListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+  tripChanges?: Prisma.TripChangeListRelationFilter
+  invitationsSent?: Prisma.ShareInvitationListRelationFilter
+  invitationsReceived?: Prisma.ShareInvitationListRelationFilter
+  shareViews?: Prisma.ShareViewListRelationFilter
+  sessions?: Prisma.SessionListRelationFilter
+  tokens?: Prisma.UserTokenListRelationFilter
+  identities?: Prisma.UserIdentityListRelationFilter
+  securityEvents?: Prisma.SecurityEventListRelationFilter
 }, "id" | "email">
 
 export type UserOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
-  passwordHash?: Prisma.SortOrder
+  passwordHash?: Prisma.SortOrderInput | Prisma.SortOrder
   name?: Prisma.SortOrder
   avatarUrl?: Prisma.SortOrderInput | Prisma.SortOrder
   language?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   role?: Prisma.SortOrder
+  emailVerifiedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  failedLoginAttempts?: Prisma.SortOrder
+  lockedUntil?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.UserCountOrderByAggregateInput
+  _avg?: Prisma.UserAvgOrderByAggregateInput
   _max?: Prisma.UserMaxOrderByAggregateInput
   _min?: Prisma.UserMinOrderByAggregateInput
+  _sum?: Prisma.UserSumOrderByAggregateInput
 }
 
 export type UserScalarWhereWithAggregatesInput = {
@@ -287,12 +398,15 @@ export type UserScalarWhereWithAggregatesInput = {
   NOT?: Prisma.UserScalarWhereWithAggregatesInput | Prisma.UserScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"User"> | string
   email?: Prisma.StringWithAggregatesFilter<"User"> | string
-  passwordHash?: Prisma.StringWithAggregatesFilter<"User"> | string
+  passwordHash?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   name?: Prisma.StringWithAggregatesFilter<"User"> | string
   avatarUrl?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   language?: Prisma.StringWithAggregatesFilter<"User"> | string
   currency?: Prisma.StringWithAggregatesFilter<"User"> | string
   role?: Prisma.EnumUserRoleWithAggregatesFilter<"User"> | $Enums.UserRole
+  emailVerifiedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  failedLoginAttempts?: Prisma.IntWithAggregatesFilter<"User"> | number
+  lockedUntil?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
 }
@@ -300,80 +414,151 @@ export type UserScalarWhereWithAggregatesInput = {
 export type UserCreateInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripCreateNestedManyWithoutUserInput
   savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
   savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUpdateManyWithoutUserNestedInput
   savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
   savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateManyInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -381,12 +566,15 @@ export type UserCreateManyInput = {
 export type UserUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -394,12 +582,15 @@ export type UserUpdateManyMutationInput = {
 export type UserUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -413,10 +604,17 @@ export type UserCountOrderByAggregateInput = {
   language?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   role?: Prisma.SortOrder
+  emailVerifiedAt?: Prisma.SortOrder
+  failedLoginAttempts?: Prisma.SortOrder
+  lockedUntil?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type UserAvgOrderByAggregateInput = {
+  failedLoginAttempts?: Prisma.SortOrder
+}
+
 export type UserMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
@@ -426,6 +624,9 @@ export type UserMaxOrderByAggregateInput = {
   language?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   role?: Prisma.SortOrder
+  emailVerifiedAt?: Prisma.SortOrder
+  failedLoginAttempts?: Prisma.SortOrder
+  lockedUntil?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -439,10 +640,17 @@ export type UserMinOrderByAggregateInput = {
   language?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   role?: Prisma.SortOrder
+  emailVerifiedAt?: Prisma.SortOrder
+  failedLoginAttempts?: Prisma.SortOrder
+  lockedUntil?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type UserSumOrderByAggregateInput = {
+  failedLoginAttempts?: Prisma.SortOrder
+}
+
 export type UserScalarRelationFilter = {
   is?: Prisma.UserWhereInput
   isNot?: Prisma.UserWhereInput
@@ -465,6 +673,18 @@ export type EnumUserRoleFieldUpdateOperationsInput = {
   set?: $Enums.UserRole
 }
 
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
+export type IntFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
 export type DateTimeFieldUpdateOperationsInput = {
   set?: Date | string
 }
@@ -483,6 +703,162 @@ export type UserUpdateOneRequiredWithoutTripsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTripsInput, Prisma.UserUpdateWithoutTripsInput>, Prisma.UserUncheckedUpdateWithoutTripsInput>
 }
 
+export type UserCreateNestedOneWithoutProposalsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProposalsInput, Prisma.UserUncheckedCreateWithoutProposalsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProposalsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutProposalsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProposalsInput, Prisma.UserUncheckedCreateWithoutProposalsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProposalsInput
+  upsert?: Prisma.UserUpsertWithoutProposalsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutProposalsInput, Prisma.UserUpdateWithoutProposalsInput>, Prisma.UserUncheckedUpdateWithoutProposalsInput>
+}
+
+export type UserCreateNestedOneWithoutExpensesPaidInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutExpensesPaidInput, Prisma.UserUncheckedCreateWithoutExpensesPaidInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpensesPaidInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutExpensesPaidNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutExpensesPaidInput, Prisma.UserUncheckedCreateWithoutExpensesPaidInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpensesPaidInput
+  upsert?: Prisma.UserUpsertWithoutExpensesPaidInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutExpensesPaidInput, Prisma.UserUpdateWithoutExpensesPaidInput>, Prisma.UserUncheckedUpdateWithoutExpensesPaidInput>
+}
+
+export type UserCreateNestedOneWithoutExpenseSplitsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutExpenseSplitsInput, Prisma.UserUncheckedCreateWithoutExpenseSplitsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseSplitsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutExpenseSplitsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutExpenseSplitsInput, Prisma.UserUncheckedCreateWithoutExpenseSplitsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseSplitsInput
+  upsert?: Prisma.UserUpsertWithoutExpenseSplitsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutExpenseSplitsInput, Prisma.UserUpdateWithoutExpenseSplitsInput>, Prisma.UserUncheckedUpdateWithoutExpenseSplitsInput>
+}
+
+export type UserCreateNestedOneWithoutSettlementsPaidInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSettlementsPaidInput, Prisma.UserUncheckedCreateWithoutSettlementsPaidInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsPaidInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutSettlementsReceivedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSettlementsReceivedInput, Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSettlementsPaidNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSettlementsPaidInput, Prisma.UserUncheckedCreateWithoutSettlementsPaidInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsPaidInput
+  upsert?: Prisma.UserUpsertWithoutSettlementsPaidInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSettlementsPaidInput, Prisma.UserUpdateWithoutSettlementsPaidInput>, Prisma.UserUncheckedUpdateWithoutSettlementsPaidInput>
+}
+
+export type UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSettlementsReceivedInput, Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsReceivedInput
+  upsert?: Prisma.UserUpsertWithoutSettlementsReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSettlementsReceivedInput, Prisma.UserUpdateWithoutSettlementsReceivedInput>, Prisma.UserUncheckedUpdateWithoutSettlementsReceivedInput>
+}
+
+export type UserCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.UserUpsertWithoutNotificationsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutNotificationsInput, Prisma.UserUpdateWithoutNotificationsInput>, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type UserCreateNestedOneWithoutTripChangesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTripChangesInput, Prisma.UserUncheckedCreateWithoutTripChangesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTripChangesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutTripChangesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTripChangesInput, Prisma.UserUncheckedCreateWithoutTripChangesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTripChangesInput
+  upsert?: Prisma.UserUpsertWithoutTripChangesInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTripChangesInput, Prisma.UserUpdateWithoutTripChangesInput>, Prisma.UserUncheckedUpdateWithoutTripChangesInput>
+}
+
+export type UserCreateNestedOneWithoutSessionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSessionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSessionsInput
+  upsert?: Prisma.UserUpsertWithoutSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSessionsInput, Prisma.UserUpdateWithoutSessionsInput>, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+}
+
+export type UserCreateNestedOneWithoutIdentitiesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIdentitiesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutIdentitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIdentitiesInput
+  upsert?: Prisma.UserUpsertWithoutIdentitiesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutIdentitiesInput, Prisma.UserUpdateWithoutIdentitiesInput>, Prisma.UserUncheckedUpdateWithoutIdentitiesInput>
+}
+
+export type UserCreateNestedOneWithoutSecurityEventsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSecurityEventsInput, Prisma.UserUncheckedCreateWithoutSecurityEventsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSecurityEventsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSecurityEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSecurityEventsInput, Prisma.UserUncheckedCreateWithoutSecurityEventsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSecurityEventsInput
+  upsert?: Prisma.UserUpsertWithoutSecurityEventsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSecurityEventsInput, Prisma.UserUpdateWithoutSecurityEventsInput>, Prisma.UserUncheckedUpdateWithoutSecurityEventsInput>
+}
+
+export type UserCreateNestedOneWithoutTokensInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTokensInput, Prisma.UserUncheckedCreateWithoutTokensInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTokensInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutTokensNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTokensInput, Prisma.UserUncheckedCreateWithoutTokensInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTokensInput
+  upsert?: Prisma.UserUpsertWithoutTokensInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTokensInput, Prisma.UserUpdateWithoutTokensInput>, Prisma.UserUncheckedUpdateWithoutTokensInput>
+}
+
 export type UserCreateNestedOneWithoutSharedTripsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutSharedTripsInput, Prisma.UserUncheckedCreateWithoutSharedTripsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutSharedTripsInput
@@ -513,6 +889,52 @@ export type UserUpdateOneWithoutReceivedTripsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutReceivedTripsInput, Prisma.UserUpdateWithoutReceivedTripsInput>, Prisma.UserUncheckedUpdateWithoutReceivedTripsInput>
 }
 
+export type UserCreateNestedOneWithoutShareViewsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutShareViewsInput, Prisma.UserUncheckedCreateWithoutShareViewsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutShareViewsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutShareViewsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutShareViewsInput, Prisma.UserUncheckedCreateWithoutShareViewsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutShareViewsInput
+  upsert?: Prisma.UserUpsertWithoutShareViewsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutShareViewsInput, Prisma.UserUpdateWithoutShareViewsInput>, Prisma.UserUncheckedUpdateWithoutShareViewsInput>
+}
+
+export type UserCreateNestedOneWithoutInvitationsSentInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvitationsSentInput, Prisma.UserUncheckedCreateWithoutInvitationsSentInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvitationsSentInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutInvitationsReceivedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvitationsReceivedInput, Prisma.UserUncheckedCreateWithoutInvitationsReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvitationsReceivedInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutInvitationsSentNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvitationsSentInput, Prisma.UserUncheckedCreateWithoutInvitationsSentInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvitationsSentInput
+  upsert?: Prisma.UserUpsertWithoutInvitationsSentInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInvitationsSentInput, Prisma.UserUpdateWithoutInvitationsSentInput>, Prisma.UserUncheckedUpdateWithoutInvitationsSentInput>
+}
+
+export type UserUpdateOneWithoutInvitationsReceivedNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvitationsReceivedInput, Prisma.UserUncheckedCreateWithoutInvitationsReceivedInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvitationsReceivedInput
+  upsert?: Prisma.UserUpsertWithoutInvitationsReceivedInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInvitationsReceivedInput, Prisma.UserUpdateWithoutInvitationsReceivedInput>, Prisma.UserUncheckedUpdateWithoutInvitationsReceivedInput>
+}
+
 export type UserCreateNestedOneWithoutSavedCitiesInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutSavedCitiesInput, Prisma.UserUncheckedCreateWithoutSavedCitiesInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutSavedCitiesInput
@@ -530,33 +952,67 @@ export type UserUpdateOneRequiredWithoutSavedCitiesNestedInput = {
 export type UserCreateWithoutTripsInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutTripsInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutTripsInput = {
@@ -578,225 +1034,2501 @@ export type UserUpdateToOneWithWhereWithoutTripsInput = {
 export type UserUpdateWithoutTripsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutTripsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutSharedTripsInput = {
+export type UserCreateWithoutProposalsInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripCreateNestedManyWithoutUserInput
   savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutSharedTripsInput = {
+export type UserUncheckedCreateWithoutProposalsInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
   savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutSharedTripsInput = {
+export type UserCreateOrConnectWithoutProposalsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutSharedTripsInput, Prisma.UserUncheckedCreateWithoutSharedTripsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProposalsInput, Prisma.UserUncheckedCreateWithoutProposalsInput>
 }
 
-export type UserCreateWithoutReceivedTripsInput = {
+export type UserUpsertWithoutProposalsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutProposalsInput, Prisma.UserUncheckedUpdateWithoutProposalsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProposalsInput, Prisma.UserUncheckedCreateWithoutProposalsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutProposalsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutProposalsInput, Prisma.UserUncheckedUpdateWithoutProposalsInput>
+}
+
+export type UserUpdateWithoutProposalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutProposalsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutExpensesPaidInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripCreateNestedManyWithoutUserInput
   savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutReceivedTripsInput = {
+export type UserUncheckedCreateWithoutExpensesPaidInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
   savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutReceivedTripsInput = {
+export type UserCreateOrConnectWithoutExpensesPaidInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutReceivedTripsInput, Prisma.UserUncheckedCreateWithoutReceivedTripsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutExpensesPaidInput, Prisma.UserUncheckedCreateWithoutExpensesPaidInput>
 }
 
-export type UserUpsertWithoutSharedTripsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutSharedTripsInput, Prisma.UserUncheckedUpdateWithoutSharedTripsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutSharedTripsInput, Prisma.UserUncheckedCreateWithoutSharedTripsInput>
+export type UserUpsertWithoutExpensesPaidInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutExpensesPaidInput, Prisma.UserUncheckedUpdateWithoutExpensesPaidInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutExpensesPaidInput, Prisma.UserUncheckedCreateWithoutExpensesPaidInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutSharedTripsInput = {
+export type UserUpdateToOneWithWhereWithoutExpensesPaidInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutSharedTripsInput, Prisma.UserUncheckedUpdateWithoutSharedTripsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutExpensesPaidInput, Prisma.UserUncheckedUpdateWithoutExpensesPaidInput>
 }
 
-export type UserUpdateWithoutSharedTripsInput = {
+export type UserUpdateWithoutExpensesPaidInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUpdateManyWithoutUserNestedInput
   savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutSharedTripsInput = {
+export type UserUncheckedUpdateWithoutExpensesPaidInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
   savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserUpsertWithoutReceivedTripsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutReceivedTripsInput, Prisma.UserUncheckedUpdateWithoutReceivedTripsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutReceivedTripsInput, Prisma.UserUncheckedCreateWithoutReceivedTripsInput>
+export type UserCreateWithoutExpenseSplitsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutExpenseSplitsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutExpenseSplitsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutExpenseSplitsInput, Prisma.UserUncheckedCreateWithoutExpenseSplitsInput>
+}
+
+export type UserUpsertWithoutExpenseSplitsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutExpenseSplitsInput, Prisma.UserUncheckedUpdateWithoutExpenseSplitsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutExpenseSplitsInput, Prisma.UserUncheckedCreateWithoutExpenseSplitsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutReceivedTripsInput = {
+export type UserUpdateToOneWithWhereWithoutExpenseSplitsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutReceivedTripsInput, Prisma.UserUncheckedUpdateWithoutReceivedTripsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutExpenseSplitsInput, Prisma.UserUncheckedUpdateWithoutExpenseSplitsInput>
+}
+
+export type UserUpdateWithoutExpenseSplitsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutExpenseSplitsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutSettlementsPaidInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSettlementsPaidInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSettlementsPaidInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSettlementsPaidInput, Prisma.UserUncheckedCreateWithoutSettlementsPaidInput>
+}
+
+export type UserCreateWithoutSettlementsReceivedInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSettlementsReceivedInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSettlementsReceivedInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSettlementsReceivedInput, Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput>
+}
+
+export type UserUpsertWithoutSettlementsPaidInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSettlementsPaidInput, Prisma.UserUncheckedUpdateWithoutSettlementsPaidInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSettlementsPaidInput, Prisma.UserUncheckedCreateWithoutSettlementsPaidInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSettlementsPaidInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSettlementsPaidInput, Prisma.UserUncheckedUpdateWithoutSettlementsPaidInput>
+}
+
+export type UserUpdateWithoutSettlementsPaidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSettlementsPaidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutSettlementsReceivedInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSettlementsReceivedInput, Prisma.UserUncheckedUpdateWithoutSettlementsReceivedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSettlementsReceivedInput, Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSettlementsReceivedInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSettlementsReceivedInput, Prisma.UserUncheckedUpdateWithoutSettlementsReceivedInput>
+}
+
+export type UserUpdateWithoutSettlementsReceivedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSettlementsReceivedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutNotificationsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutNotificationsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutNotificationsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+}
+
+export type UserUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutNotificationsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type UserUpdateWithoutNotificationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTripChangesInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTripChangesInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTripChangesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTripChangesInput, Prisma.UserUncheckedCreateWithoutTripChangesInput>
+}
+
+export type UserUpsertWithoutTripChangesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTripChangesInput, Prisma.UserUncheckedUpdateWithoutTripChangesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTripChangesInput, Prisma.UserUncheckedCreateWithoutTripChangesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTripChangesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTripChangesInput, Prisma.UserUncheckedUpdateWithoutTripChangesInput>
+}
+
+export type UserUpdateWithoutTripChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTripChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutSessionsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSessionsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSessionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+}
+
+export type UserUpsertWithoutSessionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSessionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+}
+
+export type UserUpdateWithoutSessionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSessionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutIdentitiesInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutIdentitiesInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutIdentitiesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+}
+
+export type UserUpsertWithoutIdentitiesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutIdentitiesInput, Prisma.UserUncheckedUpdateWithoutIdentitiesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutIdentitiesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutIdentitiesInput, Prisma.UserUncheckedUpdateWithoutIdentitiesInput>
+}
+
+export type UserUpdateWithoutIdentitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutIdentitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutSecurityEventsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSecurityEventsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSecurityEventsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSecurityEventsInput, Prisma.UserUncheckedCreateWithoutSecurityEventsInput>
+}
+
+export type UserUpsertWithoutSecurityEventsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSecurityEventsInput, Prisma.UserUncheckedUpdateWithoutSecurityEventsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSecurityEventsInput, Prisma.UserUncheckedCreateWithoutSecurityEventsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSecurityEventsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSecurityEventsInput, Prisma.UserUncheckedUpdateWithoutSecurityEventsInput>
+}
+
+export type UserUpdateWithoutSecurityEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSecurityEventsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTokensInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTokensInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTokensInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTokensInput, Prisma.UserUncheckedCreateWithoutTokensInput>
+}
+
+export type UserUpsertWithoutTokensInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTokensInput, Prisma.UserUncheckedUpdateWithoutTokensInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTokensInput, Prisma.UserUncheckedCreateWithoutTokensInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTokensInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTokensInput, Prisma.UserUncheckedUpdateWithoutTokensInput>
+}
+
+export type UserUpdateWithoutTokensInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTokensInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutSharedTripsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSharedTripsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSharedTripsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSharedTripsInput, Prisma.UserUncheckedCreateWithoutSharedTripsInput>
+}
+
+export type UserCreateWithoutReceivedTripsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutReceivedTripsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutReceivedTripsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReceivedTripsInput, Prisma.UserUncheckedCreateWithoutReceivedTripsInput>
+}
+
+export type UserUpsertWithoutSharedTripsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSharedTripsInput, Prisma.UserUncheckedUpdateWithoutSharedTripsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSharedTripsInput, Prisma.UserUncheckedCreateWithoutSharedTripsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSharedTripsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSharedTripsInput, Prisma.UserUncheckedUpdateWithoutSharedTripsInput>
+}
+
+export type UserUpdateWithoutSharedTripsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSharedTripsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutReceivedTripsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReceivedTripsInput, Prisma.UserUncheckedUpdateWithoutReceivedTripsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReceivedTripsInput, Prisma.UserUncheckedCreateWithoutReceivedTripsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReceivedTripsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReceivedTripsInput, Prisma.UserUncheckedUpdateWithoutReceivedTripsInput>
+}
+
+export type UserUpdateWithoutReceivedTripsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReceivedTripsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutShareViewsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutShareViewsInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutShareViewsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutShareViewsInput, Prisma.UserUncheckedCreateWithoutShareViewsInput>
+}
+
+export type UserUpsertWithoutShareViewsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutShareViewsInput, Prisma.UserUncheckedUpdateWithoutShareViewsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutShareViewsInput, Prisma.UserUncheckedCreateWithoutShareViewsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutShareViewsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutShareViewsInput, Prisma.UserUncheckedUpdateWithoutShareViewsInput>
+}
+
+export type UserUpdateWithoutShareViewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutShareViewsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutInvitationsSentInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutInvitationsSentInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutInvitationsSentInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvitationsSentInput, Prisma.UserUncheckedCreateWithoutInvitationsSentInput>
+}
+
+export type UserCreateWithoutInvitationsReceivedInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutInvitationsReceivedInput = {
+  id?: string
+  email: string
+  passwordHash?: string | null
+  name: string
+  avatarUrl?: string | null
+  language?: string
+  currency?: string
+  role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
+  savedCities?: Prisma.SavedCityUncheckedCreateNestedManyWithoutUserInput
+  sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
+  receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutInvitationsReceivedInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvitationsReceivedInput, Prisma.UserUncheckedCreateWithoutInvitationsReceivedInput>
+}
+
+export type UserUpsertWithoutInvitationsSentInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInvitationsSentInput, Prisma.UserUncheckedUpdateWithoutInvitationsSentInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvitationsSentInput, Prisma.UserUncheckedCreateWithoutInvitationsSentInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutInvitationsSentInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInvitationsSentInput, Prisma.UserUncheckedUpdateWithoutInvitationsSentInput>
+}
+
+export type UserUpdateWithoutInvitationsSentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutInvitationsSentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  language?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
+  savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
+  sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutInvitationsReceivedInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInvitationsReceivedInput, Prisma.UserUncheckedUpdateWithoutInvitationsReceivedInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvitationsReceivedInput, Prisma.UserUncheckedCreateWithoutInvitationsReceivedInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutInvitationsReceivedInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInvitationsReceivedInput, Prisma.UserUncheckedUpdateWithoutInvitationsReceivedInput>
 }
 
-export type UserUpdateWithoutReceivedTripsInput = {
+export type UserUpdateWithoutInvitationsReceivedInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUpdateManyWithoutUserNestedInput
   savedCities?: Prisma.SavedCityUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutReceivedTripsInput = {
+export type UserUncheckedUpdateWithoutInvitationsReceivedInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
   savedCities?: Prisma.SavedCityUncheckedUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
+  receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
 }
 
 export type UserCreateWithoutSavedCitiesInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventCreateNestedManyWithoutUserInput
 }
 
 export type UserUncheckedCreateWithoutSavedCitiesInput = {
   id?: string
   email: string
-  passwordHash: string
+  passwordHash?: string | null
   name: string
   avatarUrl?: string | null
   language?: string
   currency?: string
   role?: $Enums.UserRole
+  emailVerifiedAt?: Date | string | null
+  failedLoginAttempts?: number
+  lockedUntil?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   trips?: Prisma.TripUncheckedCreateNestedManyWithoutUserInput
   sharedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedByInput
   receivedTrips?: Prisma.SharedTripUncheckedCreateNestedManyWithoutSharedWithInput
+  proposals?: Prisma.RouteProposalUncheckedCreateNestedManyWithoutCreatedByInput
+  expensesPaid?: Prisma.ExpenseUncheckedCreateNestedManyWithoutPaidByInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedCreateNestedManyWithoutUserInput
+  settlementsPaid?: Prisma.SettlementUncheckedCreateNestedManyWithoutFromUserInput
+  settlementsReceived?: Prisma.SettlementUncheckedCreateNestedManyWithoutToUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  tripChanges?: Prisma.TripChangeUncheckedCreateNestedManyWithoutActorInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedCreateNestedManyWithoutInviteeInput
+  shareViews?: Prisma.ShareViewUncheckedCreateNestedManyWithoutViewerInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  tokens?: Prisma.UserTokenUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  securityEvents?: Prisma.SecurityEventUncheckedCreateNestedManyWithoutUserInput
 }
 
 export type UserCreateOrConnectWithoutSavedCitiesInput = {
@@ -818,33 +3550,67 @@ export type UserUpdateToOneWithWhereWithoutSavedCitiesInput = {
 export type UserUpdateWithoutSavedCitiesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUpdateManyWithoutUserNestedInput
 }
 
 export type UserUncheckedUpdateWithoutSavedCitiesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  passwordHash?: Prisma.StringFieldUpdateOperationsInput | string
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   language?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  emailVerifiedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  failedLoginAttempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lockedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   trips?: Prisma.TripUncheckedUpdateManyWithoutUserNestedInput
   sharedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedByNestedInput
   receivedTrips?: Prisma.SharedTripUncheckedUpdateManyWithoutSharedWithNestedInput
+  proposals?: Prisma.RouteProposalUncheckedUpdateManyWithoutCreatedByNestedInput
+  expensesPaid?: Prisma.ExpenseUncheckedUpdateManyWithoutPaidByNestedInput
+  expenseSplits?: Prisma.ExpenseSplitUncheckedUpdateManyWithoutUserNestedInput
+  settlementsPaid?: Prisma.SettlementUncheckedUpdateManyWithoutFromUserNestedInput
+  settlementsReceived?: Prisma.SettlementUncheckedUpdateManyWithoutToUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  tripChanges?: Prisma.TripChangeUncheckedUpdateManyWithoutActorNestedInput
+  invitationsSent?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  invitationsReceived?: Prisma.ShareInvitationUncheckedUpdateManyWithoutInviteeNestedInput
+  shareViews?: Prisma.ShareViewUncheckedUpdateManyWithoutViewerNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  tokens?: Prisma.UserTokenUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  securityEvents?: Prisma.SecurityEventUncheckedUpdateManyWithoutUserNestedInput
 }
 
 
@@ -857,6 +3623,20 @@ export type UserCountOutputType = {
   savedCities: number
   sharedTrips: number
   receivedTrips: number
+  proposals: number
+  expensesPaid: number
+  expenseSplits: number
+  settlementsPaid: number
+  settlementsReceived: number
+  notifications: number
+  tripChanges: number
+  invitationsSent: number
+  invitationsReceived: number
+  shareViews: number
+  sessions: number
+  tokens: number
+  identities: number
+  securityEvents: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -864,6 +3644,20 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   savedCities?: boolean | UserCountOutputTypeCountSavedCitiesArgs
   sharedTrips?: boolean | UserCountOutputTypeCountSharedTripsArgs
   receivedTrips?: boolean | UserCountOutputTypeCountReceivedTripsArgs
+  proposals?: boolean | UserCountOutputTypeCountProposalsArgs
+  expensesPaid?: boolean | UserCountOutputTypeCountExpensesPaidArgs
+  expenseSplits?: boolean | UserCountOutputTypeCountExpenseSplitsArgs
+  settlementsPaid?: boolean | UserCountOutputTypeCountSettlementsPaidArgs
+  settlementsReceived?: boolean | UserCountOutputTypeCountSettlementsReceivedArgs
+  notifications?: boolean | UserCountOutputTypeCountNotificationsArgs
+  tripChanges?: boolean | UserCountOutputTypeCountTripChangesArgs
+  invitationsSent?: boolean | UserCountOutputTypeCountInvitationsSentArgs
+  invitationsReceived?: boolean | UserCountOutputTypeCountInvitationsReceivedArgs
+  shareViews?: boolean | UserCountOutputTypeCountShareViewsArgs
+  sessions?: boolean | UserCountOutputTypeCountSessionsArgs
+  tokens?: boolean | UserCountOutputTypeCountTokensArgs
+  identities?: boolean | UserCountOutputTypeCountIdentitiesArgs
+  securityEvents?: boolean | UserCountOutputTypeCountSecurityEventsArgs
 }
 
 /**
@@ -904,6 +3698,104 @@ export type UserCountOutputTypeCountReceivedTripsArgs<ExtArgs extends runtime.Ty
   where?: Prisma.SharedTripWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountProposalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RouteProposalWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountExpensesPaidArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExpenseWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountExpenseSplitsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ExpenseSplitWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSettlementsPaidArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SettlementWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSettlementsReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SettlementWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTripChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TripChangeWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInvitationsSentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareInvitationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInvitationsReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareInvitationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountShareViewsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShareViewWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SessionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserTokenWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountIdentitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserIdentityWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSecurityEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SecurityEventWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -914,12 +3806,29 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   language?: boolean
   currency?: boolean
   role?: boolean
+  emailVerifiedAt?: boolean
+  failedLoginAttempts?: boolean
+  lockedUntil?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   trips?: boolean | Prisma.User$tripsArgs<ExtArgs>
   savedCities?: boolean | Prisma.User$savedCitiesArgs<ExtArgs>
   sharedTrips?: boolean | Prisma.User$sharedTripsArgs<ExtArgs>
   receivedTrips?: boolean | Prisma.User$receivedTripsArgs<ExtArgs>
+  proposals?: boolean | Prisma.User$proposalsArgs<ExtArgs>
+  expensesPaid?: boolean | Prisma.User$expensesPaidArgs<ExtArgs>
+  expenseSplits?: boolean | Prisma.User$expenseSplitsArgs<ExtArgs>
+  settlementsPaid?: boolean | Prisma.User$settlementsPaidArgs<ExtArgs>
+  settlementsReceived?: boolean | Prisma.User$settlementsReceivedArgs<ExtArgs>
+  notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>
+  tripChanges?: boolean | Prisma.User$tripChangesArgs<ExtArgs>
+  invitationsSent?: boolean | Prisma.User$invitationsSentArgs<ExtArgs>
+  invitationsReceived?: boolean | Prisma.User$invitationsReceivedArgs<ExtArgs>
+  shareViews?: boolean | Prisma.User$shareViewsArgs<ExtArgs>
+  sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
+  tokens?: boolean | Prisma.User$tokensArgs<ExtArgs>
+  identities?: boolean | Prisma.User$identitiesArgs<ExtArgs>
+  securityEvents?: boolean | Prisma.User$securityEventsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -932,6 +3841,9 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   language?: boolean
   currency?: boolean
   role?: boolean
+  emailVerifiedAt?: boolean
+  failedLoginAttempts?: boolean
+  lockedUntil?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["user"]>
@@ -945,6 +3857,9 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   language?: boolean
   currency?: boolean
   role?: boolean
+  emailVerifiedAt?: boolean
+  failedLoginAttempts?: boolean
+  lockedUntil?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["user"]>
@@ -958,16 +3873,33 @@ export type UserSelectScalar = {
   language?: boolean
   currency?: boolean
   role?: boolean
+  emailVerifiedAt?: boolean
+  failedLoginAttempts?: boolean
+  lockedUntil?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "passwordHash" | "name" | "avatarUrl" | "language" | "currency" | "role" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "passwordHash" | "name" | "avatarUrl" | "language" | "currency" | "role" | "emailVerifiedAt" | "failedLoginAttempts" | "lockedUntil" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   trips?: boolean | Prisma.User$tripsArgs<ExtArgs>
   savedCities?: boolean | Prisma.User$savedCitiesArgs<ExtArgs>
   sharedTrips?: boolean | Prisma.User$sharedTripsArgs<ExtArgs>
   receivedTrips?: boolean | Prisma.User$receivedTripsArgs<ExtArgs>
+  proposals?: boolean | Prisma.User$proposalsArgs<ExtArgs>
+  expensesPaid?: boolean | Prisma.User$expensesPaidArgs<ExtArgs>
+  expenseSplits?: boolean | Prisma.User$expenseSplitsArgs<ExtArgs>
+  settlementsPaid?: boolean | Prisma.User$settlementsPaidArgs<ExtArgs>
+  settlementsReceived?: boolean | Prisma.User$settlementsReceivedArgs<ExtArgs>
+  notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>
+  tripChanges?: boolean | Prisma.User$tripChangesArgs<ExtArgs>
+  invitationsSent?: boolean | Prisma.User$invitationsSentArgs<ExtArgs>
+  invitationsReceived?: boolean | Prisma.User$invitationsReceivedArgs<ExtArgs>
+  shareViews?: boolean | Prisma.User$shareViewsArgs<ExtArgs>
+  sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
+  tokens?: boolean | Prisma.User$tokensArgs<ExtArgs>
+  identities?: boolean | Prisma.User$identitiesArgs<ExtArgs>
+  securityEvents?: boolean | Prisma.User$securityEventsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -980,16 +3912,33 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     savedCities: Prisma.$SavedCityPayload<ExtArgs>[]
     sharedTrips: Prisma.$SharedTripPayload<ExtArgs>[]
     receivedTrips: Prisma.$SharedTripPayload<ExtArgs>[]
+    proposals: Prisma.$RouteProposalPayload<ExtArgs>[]
+    expensesPaid: Prisma.$ExpensePayload<ExtArgs>[]
+    expenseSplits: Prisma.$ExpenseSplitPayload<ExtArgs>[]
+    settlementsPaid: Prisma.$SettlementPayload<ExtArgs>[]
+    settlementsReceived: Prisma.$SettlementPayload<ExtArgs>[]
+    notifications: Prisma.$NotificationPayload<ExtArgs>[]
+    tripChanges: Prisma.$TripChangePayload<ExtArgs>[]
+    invitationsSent: Prisma.$ShareInvitationPayload<ExtArgs>[]
+    invitationsReceived: Prisma.$ShareInvitationPayload<ExtArgs>[]
+    shareViews: Prisma.$ShareViewPayload<ExtArgs>[]
+    sessions: Prisma.$SessionPayload<ExtArgs>[]
+    tokens: Prisma.$UserTokenPayload<ExtArgs>[]
+    identities: Prisma.$UserIdentityPayload<ExtArgs>[]
+    securityEvents: Prisma.$SecurityEventPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     email: string
-    passwordHash: string
+    passwordHash: string | null
     name: string
     avatarUrl: string | null
     language: string
     currency: string
     role: $Enums.UserRole
+    emailVerifiedAt: Date | null
+    failedLoginAttempts: number
+    lockedUntil: Date | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["user"]>
@@ -1390,6 +4339,20 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   savedCities<T extends Prisma.User$savedCitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$savedCitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SavedCityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   sharedTrips<T extends Prisma.User$sharedTripsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sharedTripsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SharedTripPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   receivedTrips<T extends Prisma.User$receivedTripsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$receivedTripsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SharedTripPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  proposals<T extends Prisma.User$proposalsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$proposalsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RouteProposalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  expensesPaid<T extends Prisma.User$expensesPaidArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$expensesPaidArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  expenseSplits<T extends Prisma.User$expenseSplitsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$expenseSplitsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpenseSplitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  settlementsPaid<T extends Prisma.User$settlementsPaidArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$settlementsPaidArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  settlementsReceived<T extends Prisma.User$settlementsReceivedArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$settlementsReceivedArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SettlementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.User$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  tripChanges<T extends Prisma.User$tripChangesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$tripChangesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TripChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invitationsSent<T extends Prisma.User$invitationsSentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$invitationsSentArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invitationsReceived<T extends Prisma.User$invitationsReceivedArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$invitationsReceivedArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  shareViews<T extends Prisma.User$shareViewsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$shareViewsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShareViewPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  tokens<T extends Prisma.User$tokensArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$tokensArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  identities<T extends Prisma.User$identitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$identitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  securityEvents<T extends Prisma.User$securityEventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$securityEventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SecurityEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1427,6 +4390,9 @@ export interface UserFieldRefs {
   readonly language: Prisma.FieldRef<"User", 'String'>
   readonly currency: Prisma.FieldRef<"User", 'String'>
   readonly role: Prisma.FieldRef<"User", 'UserRole'>
+  readonly emailVerifiedAt: Prisma.FieldRef<"User", 'DateTime'>
+  readonly failedLoginAttempts: Prisma.FieldRef<"User", 'Int'>
+  readonly lockedUntil: Prisma.FieldRef<"User", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"User", 'DateTime'>
 }
@@ -1912,6 +4878,342 @@ export type User$receivedTripsArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.SharedTripScalarFieldEnum | Prisma.SharedTripScalarFieldEnum[]
 }
 
+/**
+ * User.proposals
+ */
+export type User$proposalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RouteProposal
+   */
+  select?: Prisma.RouteProposalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RouteProposal
+   */
+  omit?: Prisma.RouteProposalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RouteProposalInclude<ExtArgs> | null
+  where?: Prisma.RouteProposalWhereInput
+  orderBy?: Prisma.RouteProposalOrderByWithRelationInput | Prisma.RouteProposalOrderByWithRelationInput[]
+  cursor?: Prisma.RouteProposalWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RouteProposalScalarFieldEnum | Prisma.RouteProposalScalarFieldEnum[]
+}
+
+/**
+ * User.expensesPaid
+ */
+export type User$expensesPaidArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Expense
+   */
+  select?: Prisma.ExpenseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Expense
+   */
+  omit?: Prisma.ExpenseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseInclude<ExtArgs> | null
+  where?: Prisma.ExpenseWhereInput
+  orderBy?: Prisma.ExpenseOrderByWithRelationInput | Prisma.ExpenseOrderByWithRelationInput[]
+  cursor?: Prisma.ExpenseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ExpenseScalarFieldEnum | Prisma.ExpenseScalarFieldEnum[]
+}
+
+/**
+ * User.expenseSplits
+ */
+export type User$expenseSplitsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExpenseSplit
+   */
+  select?: Prisma.ExpenseSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExpenseSplit
+   */
+  omit?: Prisma.ExpenseSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseSplitInclude<ExtArgs> | null
+  where?: Prisma.ExpenseSplitWhereInput
+  orderBy?: Prisma.ExpenseSplitOrderByWithRelationInput | Prisma.ExpenseSplitOrderByWithRelationInput[]
+  cursor?: Prisma.ExpenseSplitWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ExpenseSplitScalarFieldEnum | Prisma.ExpenseSplitScalarFieldEnum[]
+}
+
+/**
+ * User.settlementsPaid
+ */
+export type User$settlementsPaidArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  where?: Prisma.SettlementWhereInput
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  cursor?: Prisma.SettlementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SettlementScalarFieldEnum | Prisma.SettlementScalarFieldEnum[]
+}
+
+/**
+ * User.settlementsReceived
+ */
+export type User$settlementsReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Settlement
+   */
+  select?: Prisma.SettlementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Settlement
+   */
+  omit?: Prisma.SettlementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SettlementInclude<ExtArgs> | null
+  where?: Prisma.SettlementWhereInput
+  orderBy?: Prisma.SettlementOrderByWithRelationInput | Prisma.SettlementOrderByWithRelationInput[]
+  cursor?: Prisma.SettlementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SettlementScalarFieldEnum | Prisma.SettlementScalarFieldEnum[]
+}
+
+/**
+ * User.notifications
+ */
+export type User$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * User.tripChanges
+ */
+export type User$tripChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TripChange
+   */
+  select?: Prisma.TripChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TripChange
+   */
+  omit?: Prisma.TripChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TripChangeInclude<ExtArgs> | null
+  where?: Prisma.TripChangeWhereInput
+  orderBy?: Prisma.TripChangeOrderByWithRelationInput | Prisma.TripChangeOrderByWithRelationInput[]
+  cursor?: Prisma.TripChangeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TripChangeScalarFieldEnum | Prisma.TripChangeScalarFieldEnum[]
+}
+
+/**
+ * User.invitationsSent
+ */
+export type User$invitationsSentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  where?: Prisma.ShareInvitationWhereInput
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShareInvitationScalarFieldEnum | Prisma.ShareInvitationScalarFieldEnum[]
+}
+
+/**
+ * User.invitationsReceived
+ */
+export type User$invitationsReceivedArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareInvitation
+   */
+  select?: Prisma.ShareInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareInvitation
+   */
+  omit?: Prisma.ShareInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareInvitationInclude<ExtArgs> | null
+  where?: Prisma.ShareInvitationWhereInput
+  orderBy?: Prisma.ShareInvitationOrderByWithRelationInput | Prisma.ShareInvitationOrderByWithRelationInput[]
+  cursor?: Prisma.ShareInvitationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShareInvitationScalarFieldEnum | Prisma.ShareInvitationScalarFieldEnum[]
+}
+
+/**
+ * User.shareViews
+ */
+export type User$shareViewsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShareView
+   */
+  select?: Prisma.ShareViewSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShareView
+   */
+  omit?: Prisma.ShareViewOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShareViewInclude<ExtArgs> | null
+  where?: Prisma.ShareViewWhereInput
+  orderBy?: Prisma.ShareViewOrderByWithRelationInput | Prisma.ShareViewOrderByWithRelationInput[]
+  cursor?: Prisma.ShareViewWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShareViewScalarFieldEnum | Prisma.ShareViewScalarFieldEnum[]
+}
+
+/**
+ * User.sessions
+ */
+export type User$sessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Session
+   */
+  select?: Prisma.SessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Session
+   */
+  omit?: Prisma.SessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SessionInclude<ExtArgs> | null
+  where?: Prisma.SessionWhereInput
+  orderBy?: Prisma.SessionOrderByWithRelationInput | Prisma.SessionOrderByWithRelationInput[]
+  cursor?: Prisma.SessionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SessionScalarFieldEnum | Prisma.SessionScalarFieldEnum[]
+}
+
+/**
+ * User.tokens
+ */
+export type User$tokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  where?: Prisma.UserTokenWhereInput
+  orderBy?: Prisma.UserTokenOrderByWithRelationInput | Prisma.UserTokenOrderByWithRelationInput[]
+  cursor?: Prisma.UserTokenWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UserTokenScalarFieldEnum | Prisma.UserTokenScalarFieldEnum[]
+}
+
+/**
+ * User.identities
+ */
+export type User$identitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  where?: Prisma.UserIdentityWhereInput
+  orderBy?: Prisma.UserIdentityOrderByWithRelationInput | Prisma.UserIdentityOrderByWithRelationInput[]
+  cursor?: Prisma.UserIdentityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UserIdentityScalarFieldEnum | Prisma.UserIdentityScalarFieldEnum[]
+}
+
+/**
+ * User.securityEvents
+ */
+export type User$securityEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SecurityEvent
+   */
+  select?: Prisma.SecurityEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SecurityEvent
+   */
+  omit?: Prisma.SecurityEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SecurityEventInclude<ExtArgs> | null
+  where?: Prisma.SecurityEventWhereInput
+  orderBy?: Prisma.SecurityEventOrderByWithRelationInput | Prisma.SecurityEventOrderByWithRelationInput[]
+  cursor?: Prisma.SecurityEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SecurityEventScalarFieldEnum | Prisma.SecurityEventScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
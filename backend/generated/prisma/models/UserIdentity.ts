@@ -0,0 +1,1426 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `UserIdentity` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model UserIdentity
+ * 
+ */
+export type UserIdentityModel = runtime.Types.Result.DefaultSelection<Prisma.$UserIdentityPayload>
+
+export type AggregateUserIdentity = {
+  _count: UserIdentityCountAggregateOutputType | null
+  _min: UserIdentityMinAggregateOutputType | null
+  _max: UserIdentityMaxAggregateOutputType | null
+}
+
+export type UserIdentityMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  provider: $Enums.IdentityProvider | null
+  subject: string | null
+  email: string | null
+  createdAt: Date | null
+  lastUsedAt: Date | null
+}
+
+export type UserIdentityMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  provider: $Enums.IdentityProvider | null
+  subject: string | null
+  email: string | null
+  createdAt: Date | null
+  lastUsedAt: Date | null
+}
+
+export type UserIdentityCountAggregateOutputType = {
+  id: number
+  userId: number
+  provider: number
+  subject: number
+  email: number
+  createdAt: number
+  lastUsedAt: number
+  _all: number
+}
+
+
+export type UserIdentityMinAggregateInputType = {
+  id?: true
+  userId?: true
+  provider?: true
+  subject?: true
+  email?: true
+  createdAt?: true
+  lastUsedAt?: true
+}
+
+export type UserIdentityMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  provider?: true
+  subject?: true
+  email?: true
+  createdAt?: true
+  lastUsedAt?: true
+}
+
+export type UserIdentityCountAggregateInputType = {
+  id?: true
+  userId?: true
+  provider?: true
+  subject?: true
+  email?: true
+  createdAt?: true
+  lastUsedAt?: true
+  _all?: true
+}
+
+export type UserIdentityAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which UserIdentity to aggregate.
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserIdentities to fetch.
+   */
+  orderBy?: Prisma.UserIdentityOrderByWithRelationInput | Prisma.UserIdentityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.UserIdentityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserIdentities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserIdentities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned UserIdentities
+  **/
+  _count?: true | UserIdentityCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: UserIdentityMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: UserIdentityMaxAggregateInputType
+}
+
+export type GetUserIdentityAggregateType<T extends UserIdentityAggregateArgs> = {
+      [P in keyof T & keyof AggregateUserIdentity]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateUserIdentity[P]>
+    : Prisma.GetScalarType<T[P], AggregateUserIdentity[P]>
+}
+
+
+
+
+export type UserIdentityGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserIdentityWhereInput
+  orderBy?: Prisma.UserIdentityOrderByWithAggregationInput | Prisma.UserIdentityOrderByWithAggregationInput[]
+  by: Prisma.UserIdentityScalarFieldEnum[] | Prisma.UserIdentityScalarFieldEnum
+  having?: Prisma.UserIdentityScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: UserIdentityCountAggregateInputType | true
+  _min?: UserIdentityMinAggregateInputType
+  _max?: UserIdentityMaxAggregateInputType
+}
+
+export type UserIdentityGroupByOutputType = {
+  id: string
+  userId: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  _count: UserIdentityCountAggregateOutputType | null
+  _min: UserIdentityMinAggregateOutputType | null
+  _max: UserIdentityMaxAggregateOutputType | null
+}
+
+type GetUserIdentityGroupByPayload<T extends UserIdentityGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<UserIdentityGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof UserIdentityGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], UserIdentityGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], UserIdentityGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type UserIdentityWhereInput = {
+  AND?: Prisma.UserIdentityWhereInput | Prisma.UserIdentityWhereInput[]
+  OR?: Prisma.UserIdentityWhereInput[]
+  NOT?: Prisma.UserIdentityWhereInput | Prisma.UserIdentityWhereInput[]
+  id?: Prisma.StringFilter<"UserIdentity"> | string
+  userId?: Prisma.StringFilter<"UserIdentity"> | string
+  provider?: Prisma.EnumIdentityProviderFilter<"UserIdentity"> | $Enums.IdentityProvider
+  subject?: Prisma.StringFilter<"UserIdentity"> | string
+  email?: Prisma.StringNullableFilter<"UserIdentity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"UserIdentity"> | Date | string
+  lastUsedAt?: Prisma.DateTimeFilter<"UserIdentity"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type UserIdentityOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  email?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type UserIdentityWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  provider_subject?: Prisma.UserIdentityProviderSubjectCompoundUniqueInput
+  userId_provider?: Prisma.UserIdentityUserIdProviderCompoundUniqueInput
+  AND?: Prisma.UserIdentityWhereInput | Prisma.UserIdentityWhereInput[]
+  OR?: Prisma.UserIdentityWhereInput[]
+  NOT?: Prisma.UserIdentityWhereInput | Prisma.UserIdentityWhereInput[]
+  userId?: Prisma.StringFilter<"UserIdentity"> | string
+  provider?: Prisma.EnumIdentityProviderFilter<"UserIdentity"> | $Enums.IdentityProvider
+  subject?: Prisma.StringFilter<"UserIdentity"> | string
+  email?: Prisma.StringNullableFilter<"UserIdentity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"UserIdentity"> | Date | string
+  lastUsedAt?: Prisma.DateTimeFilter<"UserIdentity"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "provider_subject" | "userId_provider">
+
+export type UserIdentityOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  email?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  _count?: Prisma.UserIdentityCountOrderByAggregateInput
+  _max?: Prisma.UserIdentityMaxOrderByAggregateInput
+  _min?: Prisma.UserIdentityMinOrderByAggregateInput
+}
+
+export type UserIdentityScalarWhereWithAggregatesInput = {
+  AND?: Prisma.UserIdentityScalarWhereWithAggregatesInput | Prisma.UserIdentityScalarWhereWithAggregatesInput[]
+  OR?: Prisma.UserIdentityScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.UserIdentityScalarWhereWithAggregatesInput | Prisma.UserIdentityScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"UserIdentity"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"UserIdentity"> | string
+  provider?: Prisma.EnumIdentityProviderWithAggregatesFilter<"UserIdentity"> | $Enums.IdentityProvider
+  subject?: Prisma.StringWithAggregatesFilter<"UserIdentity"> | string
+  email?: Prisma.StringNullableWithAggregatesFilter<"UserIdentity"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"UserIdentity"> | Date | string
+  lastUsedAt?: Prisma.DateTimeWithAggregatesFilter<"UserIdentity"> | Date | string
+}
+
+export type UserIdentityCreateInput = {
+  id?: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email?: string | null
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutIdentitiesInput
+}
+
+export type UserIdentityUncheckedCreateInput = {
+  id?: string
+  userId: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email?: string | null
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type UserIdentityUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutIdentitiesNestedInput
+}
+
+export type UserIdentityUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserIdentityCreateManyInput = {
+  id?: string
+  userId: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email?: string | null
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type UserIdentityUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserIdentityUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserIdentityListRelationFilter = {
+  every?: Prisma.UserIdentityWhereInput
+  some?: Prisma.UserIdentityWhereInput
+  none?: Prisma.UserIdentityWhereInput
+}
+
+export type UserIdentityOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type UserIdentityProviderSubjectCompoundUniqueInput = {
+  provider: $Enums.IdentityProvider
+  subject: string
+}
+
+export type UserIdentityUserIdProviderCompoundUniqueInput = {
+  userId: string
+  provider: $Enums.IdentityProvider
+}
+
+export type UserIdentityCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type UserIdentityMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type UserIdentityMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+}
+
+export type UserIdentityCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.UserIdentityCreateWithoutUserInput, Prisma.UserIdentityUncheckedCreateWithoutUserInput> | Prisma.UserIdentityCreateWithoutUserInput[] | Prisma.UserIdentityUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserIdentityCreateOrConnectWithoutUserInput | Prisma.UserIdentityCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.UserIdentityCreateManyUserInputEnvelope
+  connect?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+}
+
+export type UserIdentityUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.UserIdentityCreateWithoutUserInput, Prisma.UserIdentityUncheckedCreateWithoutUserInput> | Prisma.UserIdentityCreateWithoutUserInput[] | Prisma.UserIdentityUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserIdentityCreateOrConnectWithoutUserInput | Prisma.UserIdentityCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.UserIdentityCreateManyUserInputEnvelope
+  connect?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+}
+
+export type UserIdentityUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.UserIdentityCreateWithoutUserInput, Prisma.UserIdentityUncheckedCreateWithoutUserInput> | Prisma.UserIdentityCreateWithoutUserInput[] | Prisma.UserIdentityUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserIdentityCreateOrConnectWithoutUserInput | Prisma.UserIdentityCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.UserIdentityUpsertWithWhereUniqueWithoutUserInput | Prisma.UserIdentityUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.UserIdentityCreateManyUserInputEnvelope
+  set?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  disconnect?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  delete?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  connect?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  update?: Prisma.UserIdentityUpdateWithWhereUniqueWithoutUserInput | Prisma.UserIdentityUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.UserIdentityUpdateManyWithWhereWithoutUserInput | Prisma.UserIdentityUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.UserIdentityScalarWhereInput | Prisma.UserIdentityScalarWhereInput[]
+}
+
+export type UserIdentityUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.UserIdentityCreateWithoutUserInput, Prisma.UserIdentityUncheckedCreateWithoutUserInput> | Prisma.UserIdentityCreateWithoutUserInput[] | Prisma.UserIdentityUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserIdentityCreateOrConnectWithoutUserInput | Prisma.UserIdentityCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.UserIdentityUpsertWithWhereUniqueWithoutUserInput | Prisma.UserIdentityUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.UserIdentityCreateManyUserInputEnvelope
+  set?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  disconnect?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  delete?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  connect?: Prisma.UserIdentityWhereUniqueInput | Prisma.UserIdentityWhereUniqueInput[]
+  update?: Prisma.UserIdentityUpdateWithWhereUniqueWithoutUserInput | Prisma.UserIdentityUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.UserIdentityUpdateManyWithWhereWithoutUserInput | Prisma.UserIdentityUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.UserIdentityScalarWhereInput | Prisma.UserIdentityScalarWhereInput[]
+}
+
+export type EnumIdentityProviderFieldUpdateOperationsInput = {
+  set?: $Enums.IdentityProvider
+}
+
+export type UserIdentityCreateWithoutUserInput = {
+  id?: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email?: string | null
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type UserIdentityUncheckedCreateWithoutUserInput = {
+  id?: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email?: string | null
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type UserIdentityCreateOrConnectWithoutUserInput = {
+  where: Prisma.UserIdentityWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserIdentityCreateWithoutUserInput, Prisma.UserIdentityUncheckedCreateWithoutUserInput>
+}
+
+export type UserIdentityCreateManyUserInputEnvelope = {
+  data: Prisma.UserIdentityCreateManyUserInput | Prisma.UserIdentityCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type UserIdentityUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.UserIdentityWhereUniqueInput
+  update: Prisma.XOR<Prisma.UserIdentityUpdateWithoutUserInput, Prisma.UserIdentityUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.UserIdentityCreateWithoutUserInput, Prisma.UserIdentityUncheckedCreateWithoutUserInput>
+}
+
+export type UserIdentityUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.UserIdentityWhereUniqueInput
+  data: Prisma.XOR<Prisma.UserIdentityUpdateWithoutUserInput, Prisma.UserIdentityUncheckedUpdateWithoutUserInput>
+}
+
+export type UserIdentityUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.UserIdentityScalarWhereInput
+  data: Prisma.XOR<Prisma.UserIdentityUpdateManyMutationInput, Prisma.UserIdentityUncheckedUpdateManyWithoutUserInput>
+}
+
+export type UserIdentityScalarWhereInput = {
+  AND?: Prisma.UserIdentityScalarWhereInput | Prisma.UserIdentityScalarWhereInput[]
+  OR?: Prisma.UserIdentityScalarWhereInput[]
+  NOT?: Prisma.UserIdentityScalarWhereInput | Prisma.UserIdentityScalarWhereInput[]
+  id?: Prisma.StringFilter<"UserIdentity"> | string
+  userId?: Prisma.StringFilter<"UserIdentity"> | string
+  provider?: Prisma.EnumIdentityProviderFilter<"UserIdentity"> | $Enums.IdentityProvider
+  subject?: Prisma.StringFilter<"UserIdentity"> | string
+  email?: Prisma.StringNullableFilter<"UserIdentity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"UserIdentity"> | Date | string
+  lastUsedAt?: Prisma.DateTimeFilter<"UserIdentity"> | Date | string
+}
+
+export type UserIdentityCreateManyUserInput = {
+  id?: string
+  provider: $Enums.IdentityProvider
+  subject: string
+  email?: string | null
+  createdAt?: Date | string
+  lastUsedAt?: Date | string
+}
+
+export type UserIdentityUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserIdentityUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserIdentityUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumIdentityProviderFieldUpdateOperationsInput | $Enums.IdentityProvider
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type UserIdentitySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  provider?: boolean
+  subject?: boolean
+  email?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["userIdentity"]>
+
+export type UserIdentitySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  provider?: boolean
+  subject?: boolean
+  email?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["userIdentity"]>
+
+export type UserIdentitySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  provider?: boolean
+  subject?: boolean
+  email?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["userIdentity"]>
+
+export type UserIdentitySelectScalar = {
+  id?: boolean
+  userId?: boolean
+  provider?: boolean
+  subject?: boolean
+  email?: boolean
+  createdAt?: boolean
+  lastUsedAt?: boolean
+}
+
+export type UserIdentityOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "provider" | "subject" | "email" | "createdAt" | "lastUsedAt", ExtArgs["result"]["userIdentity"]>
+export type UserIdentityInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type UserIdentityIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type UserIdentityIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $UserIdentityPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "UserIdentity"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    provider: $Enums.IdentityProvider
+    subject: string
+    email: string | null
+    createdAt: Date
+    lastUsedAt: Date
+  }, ExtArgs["result"]["userIdentity"]>
+  composites: {}
+}
+
+export type UserIdentityGetPayload<S extends boolean | null | undefined | UserIdentityDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload, S>
+
+export type UserIdentityCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<UserIdentityFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: UserIdentityCountAggregateInputType | true
+  }
+
+export interface UserIdentityDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['UserIdentity'], meta: { name: 'UserIdentity' } }
+  /**
+   * Find zero or one UserIdentity that matches the filter.
+   * @param {UserIdentityFindUniqueArgs} args - Arguments to find a UserIdentity
+   * @example
+   * // Get one UserIdentity
+   * const userIdentity = await prisma.userIdentity.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends UserIdentityFindUniqueArgs>(args: Prisma.SelectSubset<T, UserIdentityFindUniqueArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one UserIdentity that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {UserIdentityFindUniqueOrThrowArgs} args - Arguments to find a UserIdentity
+   * @example
+   * // Get one UserIdentity
+   * const userIdentity = await prisma.userIdentity.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends UserIdentityFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, UserIdentityFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first UserIdentity that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityFindFirstArgs} args - Arguments to find a UserIdentity
+   * @example
+   * // Get one UserIdentity
+   * const userIdentity = await prisma.userIdentity.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends UserIdentityFindFirstArgs>(args?: Prisma.SelectSubset<T, UserIdentityFindFirstArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first UserIdentity that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityFindFirstOrThrowArgs} args - Arguments to find a UserIdentity
+   * @example
+   * // Get one UserIdentity
+   * const userIdentity = await prisma.userIdentity.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends UserIdentityFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, UserIdentityFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more UserIdentities that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all UserIdentities
+   * const userIdentities = await prisma.userIdentity.findMany()
+   * 
+   * // Get first 10 UserIdentities
+   * const userIdentities = await prisma.userIdentity.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const userIdentityWithIdOnly = await prisma.userIdentity.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends UserIdentityFindManyArgs>(args?: Prisma.SelectSubset<T, UserIdentityFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a UserIdentity.
+   * @param {UserIdentityCreateArgs} args - Arguments to create a UserIdentity.
+   * @example
+   * // Create one UserIdentity
+   * const UserIdentity = await prisma.userIdentity.create({
+   *   data: {
+   *     // ... data to create a UserIdentity
+   *   }
+   * })
+   * 
+   */
+  create<T extends UserIdentityCreateArgs>(args: Prisma.SelectSubset<T, UserIdentityCreateArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many UserIdentities.
+   * @param {UserIdentityCreateManyArgs} args - Arguments to create many UserIdentities.
+   * @example
+   * // Create many UserIdentities
+   * const userIdentity = await prisma.userIdentity.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends UserIdentityCreateManyArgs>(args?: Prisma.SelectSubset<T, UserIdentityCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many UserIdentities and returns the data saved in the database.
+   * @param {UserIdentityCreateManyAndReturnArgs} args - Arguments to create many UserIdentities.
+   * @example
+   * // Create many UserIdentities
+   * const userIdentity = await prisma.userIdentity.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many UserIdentities and only return the `id`
+   * const userIdentityWithIdOnly = await prisma.userIdentity.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends UserIdentityCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, UserIdentityCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a UserIdentity.
+   * @param {UserIdentityDeleteArgs} args - Arguments to delete one UserIdentity.
+   * @example
+   * // Delete one UserIdentity
+   * const UserIdentity = await prisma.userIdentity.delete({
+   *   where: {
+   *     // ... filter to delete one UserIdentity
+   *   }
+   * })
+   * 
+   */
+  delete<T extends UserIdentityDeleteArgs>(args: Prisma.SelectSubset<T, UserIdentityDeleteArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one UserIdentity.
+   * @param {UserIdentityUpdateArgs} args - Arguments to update one UserIdentity.
+   * @example
+   * // Update one UserIdentity
+   * const userIdentity = await prisma.userIdentity.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends UserIdentityUpdateArgs>(args: Prisma.SelectSubset<T, UserIdentityUpdateArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more UserIdentities.
+   * @param {UserIdentityDeleteManyArgs} args - Arguments to filter UserIdentities to delete.
+   * @example
+   * // Delete a few UserIdentities
+   * const { count } = await prisma.userIdentity.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends UserIdentityDeleteManyArgs>(args?: Prisma.SelectSubset<T, UserIdentityDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more UserIdentities.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many UserIdentities
+   * const userIdentity = await prisma.userIdentity.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends UserIdentityUpdateManyArgs>(args: Prisma.SelectSubset<T, UserIdentityUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more UserIdentities and returns the data updated in the database.
+   * @param {UserIdentityUpdateManyAndReturnArgs} args - Arguments to update many UserIdentities.
+   * @example
+   * // Update many UserIdentities
+   * const userIdentity = await prisma.userIdentity.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more UserIdentities and only return the `id`
+   * const userIdentityWithIdOnly = await prisma.userIdentity.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends UserIdentityUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, UserIdentityUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one UserIdentity.
+   * @param {UserIdentityUpsertArgs} args - Arguments to update or create a UserIdentity.
+   * @example
+   * // Update or create a UserIdentity
+   * const userIdentity = await prisma.userIdentity.upsert({
+   *   create: {
+   *     // ... data to create a UserIdentity
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the UserIdentity we want to update
+   *   }
+   * })
+   */
+  upsert<T extends UserIdentityUpsertArgs>(args: Prisma.SelectSubset<T, UserIdentityUpsertArgs<ExtArgs>>): Prisma.Prisma__UserIdentityClient<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of UserIdentities.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityCountArgs} args - Arguments to filter UserIdentities to count.
+   * @example
+   * // Count the number of UserIdentities
+   * const count = await prisma.userIdentity.count({
+   *   where: {
+   *     // ... the filter for the UserIdentities we want to count
+   *   }
+   * })
+  **/
+  count<T extends UserIdentityCountArgs>(
+    args?: Prisma.Subset<T, UserIdentityCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], UserIdentityCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a UserIdentity.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends UserIdentityAggregateArgs>(args: Prisma.Subset<T, UserIdentityAggregateArgs>): Prisma.PrismaPromise<GetUserIdentityAggregateType<T>>
+
+  /**
+   * Group by UserIdentity.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserIdentityGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends UserIdentityGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: UserIdentityGroupByArgs['orderBy'] }
+      : { orderBy?: UserIdentityGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, UserIdentityGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetUserIdentityGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the UserIdentity model
+ */
+readonly fields: UserIdentityFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for UserIdentity.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__UserIdentityClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the UserIdentity model
+ */
+export interface UserIdentityFieldRefs {
+  readonly id: Prisma.FieldRef<"UserIdentity", 'String'>
+  readonly userId: Prisma.FieldRef<"UserIdentity", 'String'>
+  readonly provider: Prisma.FieldRef<"UserIdentity", 'IdentityProvider'>
+  readonly subject: Prisma.FieldRef<"UserIdentity", 'String'>
+  readonly email: Prisma.FieldRef<"UserIdentity", 'String'>
+  readonly createdAt: Prisma.FieldRef<"UserIdentity", 'DateTime'>
+  readonly lastUsedAt: Prisma.FieldRef<"UserIdentity", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * UserIdentity findUnique
+ */
+export type UserIdentityFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * Filter, which UserIdentity to fetch.
+   */
+  where: Prisma.UserIdentityWhereUniqueInput
+}
+
+/**
+ * UserIdentity findUniqueOrThrow
+ */
+export type UserIdentityFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * Filter, which UserIdentity to fetch.
+   */
+  where: Prisma.UserIdentityWhereUniqueInput
+}
+
+/**
+ * UserIdentity findFirst
+ */
+export type UserIdentityFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * Filter, which UserIdentity to fetch.
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserIdentities to fetch.
+   */
+  orderBy?: Prisma.UserIdentityOrderByWithRelationInput | Prisma.UserIdentityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for UserIdentities.
+   */
+  cursor?: Prisma.UserIdentityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserIdentities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserIdentities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of UserIdentities.
+   */
+  distinct?: Prisma.UserIdentityScalarFieldEnum | Prisma.UserIdentityScalarFieldEnum[]
+}
+
+/**
+ * UserIdentity findFirstOrThrow
+ */
+export type UserIdentityFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * Filter, which UserIdentity to fetch.
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserIdentities to fetch.
+   */
+  orderBy?: Prisma.UserIdentityOrderByWithRelationInput | Prisma.UserIdentityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for UserIdentities.
+   */
+  cursor?: Prisma.UserIdentityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserIdentities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserIdentities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of UserIdentities.
+   */
+  distinct?: Prisma.UserIdentityScalarFieldEnum | Prisma.UserIdentityScalarFieldEnum[]
+}
+
+/**
+ * UserIdentity findMany
+ */
+export type UserIdentityFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * Filter, which UserIdentities to fetch.
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserIdentities to fetch.
+   */
+  orderBy?: Prisma.UserIdentityOrderByWithRelationInput | Prisma.UserIdentityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing UserIdentities.
+   */
+  cursor?: Prisma.UserIdentityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserIdentities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserIdentities.
+   */
+  skip?: number
+  distinct?: Prisma.UserIdentityScalarFieldEnum | Prisma.UserIdentityScalarFieldEnum[]
+}
+
+/**
+ * UserIdentity create
+ */
+export type UserIdentityCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * The data needed to create a UserIdentity.
+   */
+  data: Prisma.XOR<Prisma.UserIdentityCreateInput, Prisma.UserIdentityUncheckedCreateInput>
+}
+
+/**
+ * UserIdentity createMany
+ */
+export type UserIdentityCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many UserIdentities.
+   */
+  data: Prisma.UserIdentityCreateManyInput | Prisma.UserIdentityCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * UserIdentity createManyAndReturn
+ */
+export type UserIdentityCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * The data used to create many UserIdentities.
+   */
+  data: Prisma.UserIdentityCreateManyInput | Prisma.UserIdentityCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * UserIdentity update
+ */
+export type UserIdentityUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * The data needed to update a UserIdentity.
+   */
+  data: Prisma.XOR<Prisma.UserIdentityUpdateInput, Prisma.UserIdentityUncheckedUpdateInput>
+  /**
+   * Choose, which UserIdentity to update.
+   */
+  where: Prisma.UserIdentityWhereUniqueInput
+}
+
+/**
+ * UserIdentity updateMany
+ */
+export type UserIdentityUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update UserIdentities.
+   */
+  data: Prisma.XOR<Prisma.UserIdentityUpdateManyMutationInput, Prisma.UserIdentityUncheckedUpdateManyInput>
+  /**
+   * Filter which UserIdentities to update
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * Limit how many UserIdentities to update.
+   */
+  limit?: number
+}
+
+/**
+ * UserIdentity updateManyAndReturn
+ */
+export type UserIdentityUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * The data used to update UserIdentities.
+   */
+  data: Prisma.XOR<Prisma.UserIdentityUpdateManyMutationInput, Prisma.UserIdentityUncheckedUpdateManyInput>
+  /**
+   * Filter which UserIdentities to update
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * Limit how many UserIdentities to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * UserIdentity upsert
+ */
+export type UserIdentityUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * The filter to search for the UserIdentity to update in case it exists.
+   */
+  where: Prisma.UserIdentityWhereUniqueInput
+  /**
+   * In case the UserIdentity found by the `where` argument doesn't exist, create a new UserIdentity with this data.
+   */
+  create: Prisma.XOR<Prisma.UserIdentityCreateInput, Prisma.UserIdentityUncheckedCreateInput>
+  /**
+   * In case the UserIdentity was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.UserIdentityUpdateInput, Prisma.UserIdentityUncheckedUpdateInput>
+}
+
+/**
+ * UserIdentity delete
+ */
+export type UserIdentityDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  /**
+   * Filter which UserIdentity to delete.
+   */
+  where: Prisma.UserIdentityWhereUniqueInput
+}
+
+/**
+ * UserIdentity deleteMany
+ */
+export type UserIdentityDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which UserIdentities to delete
+   */
+  where?: Prisma.UserIdentityWhereInput
+  /**
+   * Limit how many UserIdentities to delete.
+   */
+  limit?: number
+}
+
+/**
+ * UserIdentity without action
+ */
+export type UserIdentityDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+}
@@ -0,0 +1,1414 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `UserToken` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model UserToken
+ * 
+ */
+export type UserTokenModel = runtime.Types.Result.DefaultSelection<Prisma.$UserTokenPayload>
+
+export type AggregateUserToken = {
+  _count: UserTokenCountAggregateOutputType | null
+  _min: UserTokenMinAggregateOutputType | null
+  _max: UserTokenMaxAggregateOutputType | null
+}
+
+export type UserTokenMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  purpose: $Enums.UserTokenPurpose | null
+  tokenHash: string | null
+  expiresAt: Date | null
+  usedAt: Date | null
+  createdAt: Date | null
+}
+
+export type UserTokenMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  purpose: $Enums.UserTokenPurpose | null
+  tokenHash: string | null
+  expiresAt: Date | null
+  usedAt: Date | null
+  createdAt: Date | null
+}
+
+export type UserTokenCountAggregateOutputType = {
+  id: number
+  userId: number
+  purpose: number
+  tokenHash: number
+  expiresAt: number
+  usedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type UserTokenMinAggregateInputType = {
+  id?: true
+  userId?: true
+  purpose?: true
+  tokenHash?: true
+  expiresAt?: true
+  usedAt?: true
+  createdAt?: true
+}
+
+export type UserTokenMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  purpose?: true
+  tokenHash?: true
+  expiresAt?: true
+  usedAt?: true
+  createdAt?: true
+}
+
+export type UserTokenCountAggregateInputType = {
+  id?: true
+  userId?: true
+  purpose?: true
+  tokenHash?: true
+  expiresAt?: true
+  usedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type UserTokenAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which UserToken to aggregate.
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserTokens to fetch.
+   */
+  orderBy?: Prisma.UserTokenOrderByWithRelationInput | Prisma.UserTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.UserTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserTokens.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned UserTokens
+  **/
+  _count?: true | UserTokenCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: UserTokenMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: UserTokenMaxAggregateInputType
+}
+
+export type GetUserTokenAggregateType<T extends UserTokenAggregateArgs> = {
+      [P in keyof T & keyof AggregateUserToken]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateUserToken[P]>
+    : Prisma.GetScalarType<T[P], AggregateUserToken[P]>
+}
+
+
+
+
+export type UserTokenGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserTokenWhereInput
+  orderBy?: Prisma.UserTokenOrderByWithAggregationInput | Prisma.UserTokenOrderByWithAggregationInput[]
+  by: Prisma.UserTokenScalarFieldEnum[] | Prisma.UserTokenScalarFieldEnum
+  having?: Prisma.UserTokenScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: UserTokenCountAggregateInputType | true
+  _min?: UserTokenMinAggregateInputType
+  _max?: UserTokenMaxAggregateInputType
+}
+
+export type UserTokenGroupByOutputType = {
+  id: string
+  userId: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date
+  usedAt: Date | null
+  createdAt: Date
+  _count: UserTokenCountAggregateOutputType | null
+  _min: UserTokenMinAggregateOutputType | null
+  _max: UserTokenMaxAggregateOutputType | null
+}
+
+type GetUserTokenGroupByPayload<T extends UserTokenGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<UserTokenGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof UserTokenGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], UserTokenGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], UserTokenGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type UserTokenWhereInput = {
+  AND?: Prisma.UserTokenWhereInput | Prisma.UserTokenWhereInput[]
+  OR?: Prisma.UserTokenWhereInput[]
+  NOT?: Prisma.UserTokenWhereInput | Prisma.UserTokenWhereInput[]
+  id?: Prisma.StringFilter<"UserToken"> | string
+  userId?: Prisma.StringFilter<"UserToken"> | string
+  purpose?: Prisma.EnumUserTokenPurposeFilter<"UserToken"> | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFilter<"UserToken"> | string
+  expiresAt?: Prisma.DateTimeFilter<"UserToken"> | Date | string
+  usedAt?: Prisma.DateTimeNullableFilter<"UserToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"UserToken"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type UserTokenOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  purpose?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type UserTokenWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  tokenHash?: string
+  AND?: Prisma.UserTokenWhereInput | Prisma.UserTokenWhereInput[]
+  OR?: Prisma.UserTokenWhereInput[]
+  NOT?: Prisma.UserTokenWhereInput | Prisma.UserTokenWhereInput[]
+  userId?: Prisma.StringFilter<"UserToken"> | string
+  purpose?: Prisma.EnumUserTokenPurposeFilter<"UserToken"> | $Enums.UserTokenPurpose
+  expiresAt?: Prisma.DateTimeFilter<"UserToken"> | Date | string
+  usedAt?: Prisma.DateTimeNullableFilter<"UserToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"UserToken"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "tokenHash">
+
+export type UserTokenOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  purpose?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.UserTokenCountOrderByAggregateInput
+  _max?: Prisma.UserTokenMaxOrderByAggregateInput
+  _min?: Prisma.UserTokenMinOrderByAggregateInput
+}
+
+export type UserTokenScalarWhereWithAggregatesInput = {
+  AND?: Prisma.UserTokenScalarWhereWithAggregatesInput | Prisma.UserTokenScalarWhereWithAggregatesInput[]
+  OR?: Prisma.UserTokenScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.UserTokenScalarWhereWithAggregatesInput | Prisma.UserTokenScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"UserToken"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"UserToken"> | string
+  purpose?: Prisma.EnumUserTokenPurposeWithAggregatesFilter<"UserToken"> | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringWithAggregatesFilter<"UserToken"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"UserToken"> | Date | string
+  usedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"UserToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"UserToken"> | Date | string
+}
+
+export type UserTokenCreateInput = {
+  id?: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTokensInput
+}
+
+export type UserTokenUncheckedCreateInput = {
+  id?: string
+  userId: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type UserTokenUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTokensNestedInput
+}
+
+export type UserTokenUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserTokenCreateManyInput = {
+  id?: string
+  userId: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type UserTokenUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserTokenUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserTokenListRelationFilter = {
+  every?: Prisma.UserTokenWhereInput
+  some?: Prisma.UserTokenWhereInput
+  none?: Prisma.UserTokenWhereInput
+}
+
+export type UserTokenOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type UserTokenCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  purpose?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type UserTokenMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  purpose?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type UserTokenMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  purpose?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  usedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type UserTokenCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.UserTokenCreateWithoutUserInput, Prisma.UserTokenUncheckedCreateWithoutUserInput> | Prisma.UserTokenCreateWithoutUserInput[] | Prisma.UserTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserTokenCreateOrConnectWithoutUserInput | Prisma.UserTokenCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.UserTokenCreateManyUserInputEnvelope
+  connect?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+}
+
+export type UserTokenUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.UserTokenCreateWithoutUserInput, Prisma.UserTokenUncheckedCreateWithoutUserInput> | Prisma.UserTokenCreateWithoutUserInput[] | Prisma.UserTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserTokenCreateOrConnectWithoutUserInput | Prisma.UserTokenCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.UserTokenCreateManyUserInputEnvelope
+  connect?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+}
+
+export type UserTokenUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.UserTokenCreateWithoutUserInput, Prisma.UserTokenUncheckedCreateWithoutUserInput> | Prisma.UserTokenCreateWithoutUserInput[] | Prisma.UserTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserTokenCreateOrConnectWithoutUserInput | Prisma.UserTokenCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.UserTokenUpsertWithWhereUniqueWithoutUserInput | Prisma.UserTokenUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.UserTokenCreateManyUserInputEnvelope
+  set?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  disconnect?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  delete?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  connect?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  update?: Prisma.UserTokenUpdateWithWhereUniqueWithoutUserInput | Prisma.UserTokenUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.UserTokenUpdateManyWithWhereWithoutUserInput | Prisma.UserTokenUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.UserTokenScalarWhereInput | Prisma.UserTokenScalarWhereInput[]
+}
+
+export type UserTokenUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.UserTokenCreateWithoutUserInput, Prisma.UserTokenUncheckedCreateWithoutUserInput> | Prisma.UserTokenCreateWithoutUserInput[] | Prisma.UserTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.UserTokenCreateOrConnectWithoutUserInput | Prisma.UserTokenCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.UserTokenUpsertWithWhereUniqueWithoutUserInput | Prisma.UserTokenUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.UserTokenCreateManyUserInputEnvelope
+  set?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  disconnect?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  delete?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  connect?: Prisma.UserTokenWhereUniqueInput | Prisma.UserTokenWhereUniqueInput[]
+  update?: Prisma.UserTokenUpdateWithWhereUniqueWithoutUserInput | Prisma.UserTokenUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.UserTokenUpdateManyWithWhereWithoutUserInput | Prisma.UserTokenUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.UserTokenScalarWhereInput | Prisma.UserTokenScalarWhereInput[]
+}
+
+export type EnumUserTokenPurposeFieldUpdateOperationsInput = {
+  set?: $Enums.UserTokenPurpose
+}
+
+export type UserTokenCreateWithoutUserInput = {
+  id?: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type UserTokenUncheckedCreateWithoutUserInput = {
+  id?: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type UserTokenCreateOrConnectWithoutUserInput = {
+  where: Prisma.UserTokenWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserTokenCreateWithoutUserInput, Prisma.UserTokenUncheckedCreateWithoutUserInput>
+}
+
+export type UserTokenCreateManyUserInputEnvelope = {
+  data: Prisma.UserTokenCreateManyUserInput | Prisma.UserTokenCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type UserTokenUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.UserTokenWhereUniqueInput
+  update: Prisma.XOR<Prisma.UserTokenUpdateWithoutUserInput, Prisma.UserTokenUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.UserTokenCreateWithoutUserInput, Prisma.UserTokenUncheckedCreateWithoutUserInput>
+}
+
+export type UserTokenUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.UserTokenWhereUniqueInput
+  data: Prisma.XOR<Prisma.UserTokenUpdateWithoutUserInput, Prisma.UserTokenUncheckedUpdateWithoutUserInput>
+}
+
+export type UserTokenUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.UserTokenScalarWhereInput
+  data: Prisma.XOR<Prisma.UserTokenUpdateManyMutationInput, Prisma.UserTokenUncheckedUpdateManyWithoutUserInput>
+}
+
+export type UserTokenScalarWhereInput = {
+  AND?: Prisma.UserTokenScalarWhereInput | Prisma.UserTokenScalarWhereInput[]
+  OR?: Prisma.UserTokenScalarWhereInput[]
+  NOT?: Prisma.UserTokenScalarWhereInput | Prisma.UserTokenScalarWhereInput[]
+  id?: Prisma.StringFilter<"UserToken"> | string
+  userId?: Prisma.StringFilter<"UserToken"> | string
+  purpose?: Prisma.EnumUserTokenPurposeFilter<"UserToken"> | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFilter<"UserToken"> | string
+  expiresAt?: Prisma.DateTimeFilter<"UserToken"> | Date | string
+  usedAt?: Prisma.DateTimeNullableFilter<"UserToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"UserToken"> | Date | string
+}
+
+export type UserTokenCreateManyUserInput = {
+  id?: string
+  purpose: $Enums.UserTokenPurpose
+  tokenHash: string
+  expiresAt: Date | string
+  usedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type UserTokenUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserTokenUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type UserTokenUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  purpose?: Prisma.EnumUserTokenPurposeFieldUpdateOperationsInput | $Enums.UserTokenPurpose
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  usedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type UserTokenSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  purpose?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["userToken"]>
+
+export type UserTokenSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  purpose?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["userToken"]>
+
+export type UserTokenSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  purpose?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["userToken"]>
+
+export type UserTokenSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  purpose?: boolean
+  tokenHash?: boolean
+  expiresAt?: boolean
+  usedAt?: boolean
+  createdAt?: boolean
+}
+
+export type UserTokenOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "purpose" | "tokenHash" | "expiresAt" | "usedAt" | "createdAt", ExtArgs["result"]["userToken"]>
+export type UserTokenInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type UserTokenIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type UserTokenIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $UserTokenPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "UserToken"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    purpose: $Enums.UserTokenPurpose
+    tokenHash: string
+    expiresAt: Date
+    usedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["userToken"]>
+  composites: {}
+}
+
+export type UserTokenGetPayload<S extends boolean | null | undefined | UserTokenDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$UserTokenPayload, S>
+
+export type UserTokenCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<UserTokenFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: UserTokenCountAggregateInputType | true
+  }
+
+export interface UserTokenDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['UserToken'], meta: { name: 'UserToken' } }
+  /**
+   * Find zero or one UserToken that matches the filter.
+   * @param {UserTokenFindUniqueArgs} args - Arguments to find a UserToken
+   * @example
+   * // Get one UserToken
+   * const userToken = await prisma.userToken.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends UserTokenFindUniqueArgs>(args: Prisma.SelectSubset<T, UserTokenFindUniqueArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one UserToken that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {UserTokenFindUniqueOrThrowArgs} args - Arguments to find a UserToken
+   * @example
+   * // Get one UserToken
+   * const userToken = await prisma.userToken.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends UserTokenFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, UserTokenFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first UserToken that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenFindFirstArgs} args - Arguments to find a UserToken
+   * @example
+   * // Get one UserToken
+   * const userToken = await prisma.userToken.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends UserTokenFindFirstArgs>(args?: Prisma.SelectSubset<T, UserTokenFindFirstArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first UserToken that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenFindFirstOrThrowArgs} args - Arguments to find a UserToken
+   * @example
+   * // Get one UserToken
+   * const userToken = await prisma.userToken.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends UserTokenFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, UserTokenFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more UserTokens that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all UserTokens
+   * const userTokens = await prisma.userToken.findMany()
+   * 
+   * // Get first 10 UserTokens
+   * const userTokens = await prisma.userToken.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const userTokenWithIdOnly = await prisma.userToken.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends UserTokenFindManyArgs>(args?: Prisma.SelectSubset<T, UserTokenFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a UserToken.
+   * @param {UserTokenCreateArgs} args - Arguments to create a UserToken.
+   * @example
+   * // Create one UserToken
+   * const UserToken = await prisma.userToken.create({
+   *   data: {
+   *     // ... data to create a UserToken
+   *   }
+   * })
+   * 
+   */
+  create<T extends UserTokenCreateArgs>(args: Prisma.SelectSubset<T, UserTokenCreateArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many UserTokens.
+   * @param {UserTokenCreateManyArgs} args - Arguments to create many UserTokens.
+   * @example
+   * // Create many UserTokens
+   * const userToken = await prisma.userToken.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends UserTokenCreateManyArgs>(args?: Prisma.SelectSubset<T, UserTokenCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many UserTokens and returns the data saved in the database.
+   * @param {UserTokenCreateManyAndReturnArgs} args - Arguments to create many UserTokens.
+   * @example
+   * // Create many UserTokens
+   * const userToken = await prisma.userToken.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many UserTokens and only return the `id`
+   * const userTokenWithIdOnly = await prisma.userToken.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends UserTokenCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, UserTokenCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a UserToken.
+   * @param {UserTokenDeleteArgs} args - Arguments to delete one UserToken.
+   * @example
+   * // Delete one UserToken
+   * const UserToken = await prisma.userToken.delete({
+   *   where: {
+   *     // ... filter to delete one UserToken
+   *   }
+   * })
+   * 
+   */
+  delete<T extends UserTokenDeleteArgs>(args: Prisma.SelectSubset<T, UserTokenDeleteArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one UserToken.
+   * @param {UserTokenUpdateArgs} args - Arguments to update one UserToken.
+   * @example
+   * // Update one UserToken
+   * const userToken = await prisma.userToken.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends UserTokenUpdateArgs>(args: Prisma.SelectSubset<T, UserTokenUpdateArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more UserTokens.
+   * @param {UserTokenDeleteManyArgs} args - Arguments to filter UserTokens to delete.
+   * @example
+   * // Delete a few UserTokens
+   * const { count } = await prisma.userToken.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends UserTokenDeleteManyArgs>(args?: Prisma.SelectSubset<T, UserTokenDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more UserTokens.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many UserTokens
+   * const userToken = await prisma.userToken.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends UserTokenUpdateManyArgs>(args: Prisma.SelectSubset<T, UserTokenUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more UserTokens and returns the data updated in the database.
+   * @param {UserTokenUpdateManyAndReturnArgs} args - Arguments to update many UserTokens.
+   * @example
+   * // Update many UserTokens
+   * const userToken = await prisma.userToken.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more UserTokens and only return the `id`
+   * const userTokenWithIdOnly = await prisma.userToken.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends UserTokenUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, UserTokenUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one UserToken.
+   * @param {UserTokenUpsertArgs} args - Arguments to update or create a UserToken.
+   * @example
+   * // Update or create a UserToken
+   * const userToken = await prisma.userToken.upsert({
+   *   create: {
+   *     // ... data to create a UserToken
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the UserToken we want to update
+   *   }
+   * })
+   */
+  upsert<T extends UserTokenUpsertArgs>(args: Prisma.SelectSubset<T, UserTokenUpsertArgs<ExtArgs>>): Prisma.Prisma__UserTokenClient<runtime.Types.Result.GetResult<Prisma.$UserTokenPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of UserTokens.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenCountArgs} args - Arguments to filter UserTokens to count.
+   * @example
+   * // Count the number of UserTokens
+   * const count = await prisma.userToken.count({
+   *   where: {
+   *     // ... the filter for the UserTokens we want to count
+   *   }
+   * })
+  **/
+  count<T extends UserTokenCountArgs>(
+    args?: Prisma.Subset<T, UserTokenCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], UserTokenCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a UserToken.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends UserTokenAggregateArgs>(args: Prisma.Subset<T, UserTokenAggregateArgs>): Prisma.PrismaPromise<GetUserTokenAggregateType<T>>
+
+  /**
+   * Group by UserToken.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {UserTokenGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends UserTokenGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: UserTokenGroupByArgs['orderBy'] }
+      : { orderBy?: UserTokenGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, UserTokenGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetUserTokenGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the UserToken model
+ */
+readonly fields: UserTokenFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for UserToken.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__UserTokenClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the UserToken model
+ */
+export interface UserTokenFieldRefs {
+  readonly id: Prisma.FieldRef<"UserToken", 'String'>
+  readonly userId: Prisma.FieldRef<"UserToken", 'String'>
+  readonly purpose: Prisma.FieldRef<"UserToken", 'UserTokenPurpose'>
+  readonly tokenHash: Prisma.FieldRef<"UserToken", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"UserToken", 'DateTime'>
+  readonly usedAt: Prisma.FieldRef<"UserToken", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"UserToken", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * UserToken findUnique
+ */
+export type UserTokenFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which UserToken to fetch.
+   */
+  where: Prisma.UserTokenWhereUniqueInput
+}
+
+/**
+ * UserToken findUniqueOrThrow
+ */
+export type UserTokenFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which UserToken to fetch.
+   */
+  where: Prisma.UserTokenWhereUniqueInput
+}
+
+/**
+ * UserToken findFirst
+ */
+export type UserTokenFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which UserToken to fetch.
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserTokens to fetch.
+   */
+  orderBy?: Prisma.UserTokenOrderByWithRelationInput | Prisma.UserTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for UserTokens.
+   */
+  cursor?: Prisma.UserTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserTokens.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of UserTokens.
+   */
+  distinct?: Prisma.UserTokenScalarFieldEnum | Prisma.UserTokenScalarFieldEnum[]
+}
+
+/**
+ * UserToken findFirstOrThrow
+ */
+export type UserTokenFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which UserToken to fetch.
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserTokens to fetch.
+   */
+  orderBy?: Prisma.UserTokenOrderByWithRelationInput | Prisma.UserTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for UserTokens.
+   */
+  cursor?: Prisma.UserTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserTokens.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of UserTokens.
+   */
+  distinct?: Prisma.UserTokenScalarFieldEnum | Prisma.UserTokenScalarFieldEnum[]
+}
+
+/**
+ * UserToken findMany
+ */
+export type UserTokenFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which UserTokens to fetch.
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of UserTokens to fetch.
+   */
+  orderBy?: Prisma.UserTokenOrderByWithRelationInput | Prisma.UserTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing UserTokens.
+   */
+  cursor?: Prisma.UserTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` UserTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` UserTokens.
+   */
+  skip?: number
+  distinct?: Prisma.UserTokenScalarFieldEnum | Prisma.UserTokenScalarFieldEnum[]
+}
+
+/**
+ * UserToken create
+ */
+export type UserTokenCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * The data needed to create a UserToken.
+   */
+  data: Prisma.XOR<Prisma.UserTokenCreateInput, Prisma.UserTokenUncheckedCreateInput>
+}
+
+/**
+ * UserToken createMany
+ */
+export type UserTokenCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many UserTokens.
+   */
+  data: Prisma.UserTokenCreateManyInput | Prisma.UserTokenCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * UserToken createManyAndReturn
+ */
+export type UserTokenCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * The data used to create many UserTokens.
+   */
+  data: Prisma.UserTokenCreateManyInput | Prisma.UserTokenCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * UserToken update
+ */
+export type UserTokenUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * The data needed to update a UserToken.
+   */
+  data: Prisma.XOR<Prisma.UserTokenUpdateInput, Prisma.UserTokenUncheckedUpdateInput>
+  /**
+   * Choose, which UserToken to update.
+   */
+  where: Prisma.UserTokenWhereUniqueInput
+}
+
+/**
+ * UserToken updateMany
+ */
+export type UserTokenUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update UserTokens.
+   */
+  data: Prisma.XOR<Prisma.UserTokenUpdateManyMutationInput, Prisma.UserTokenUncheckedUpdateManyInput>
+  /**
+   * Filter which UserTokens to update
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * Limit how many UserTokens to update.
+   */
+  limit?: number
+}
+
+/**
+ * UserToken updateManyAndReturn
+ */
+export type UserTokenUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * The data used to update UserTokens.
+   */
+  data: Prisma.XOR<Prisma.UserTokenUpdateManyMutationInput, Prisma.UserTokenUncheckedUpdateManyInput>
+  /**
+   * Filter which UserTokens to update
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * Limit how many UserTokens to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * UserToken upsert
+ */
+export type UserTokenUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * The filter to search for the UserToken to update in case it exists.
+   */
+  where: Prisma.UserTokenWhereUniqueInput
+  /**
+   * In case the UserToken found by the `where` argument doesn't exist, create a new UserToken with this data.
+   */
+  create: Prisma.XOR<Prisma.UserTokenCreateInput, Prisma.UserTokenUncheckedCreateInput>
+  /**
+   * In case the UserToken was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.UserTokenUpdateInput, Prisma.UserTokenUncheckedUpdateInput>
+}
+
+/**
+ * UserToken delete
+ */
+export type UserTokenDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+  /**
+   * Filter which UserToken to delete.
+   */
+  where: Prisma.UserTokenWhereUniqueInput
+}
+
+/**
+ * UserToken deleteMany
+ */
+export type UserTokenDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which UserTokens to delete
+   */
+  where?: Prisma.UserTokenWhereInput
+  /**
+   * Limit how many UserTokens to delete.
+   */
+  limit?: number
+}
+
+/**
+ * UserToken without action
+ */
+export type UserTokenDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserToken
+   */
+  select?: Prisma.UserTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserToken
+   */
+  omit?: Prisma.UserTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserTokenInclude<ExtArgs> | null
+}
@@ -0,0 +1,31 @@
+import "dotenv/config";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "@prisma/client";
+import { importExchangeRateFile } from "../src/modules/currency/currency.import";
+
+// Usage: npm run db:import-rates -- path/to/rates.csv|json
+const path = process.argv[2];
+
+if (!path) {
+    console.error("Usage: npm run db:import-rates -- <rates.csv|rates.json>");
+    process.exit(1);
+}
+
+const connectionString = process.env.DATABASE_URL;
+
+if (!connectionString) {
+    throw new Error("DATABASE_URL environment variable is not set");
+}
+
+const adapter = new PrismaPg({ connectionString });
+const prisma = new PrismaClient({ adapter } as any);
+
+importExchangeRateFile(prisma, path)
+    .then((count) => console.log(`✅ Imported ${count} exchange rates from ${path}`))
+    .catch((e) => {
+        console.error("❌ Import failed:", e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
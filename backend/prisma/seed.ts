@@ -1,6 +1,7 @@
 import "dotenv/config";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { PrismaClient } from "@prisma/client";
+import { importExchangeRateFile } from "../src/modules/currency/currency.import";
 
 // Prisma 7 driver adapter pattern
 const connectionString = process.env.DATABASE_URL;
@@ -319,6 +320,10 @@ async function main() {
 
     console.log(`✅ Created ${activities.length} activities`);
 
+    // Seed exchange rates from the bundled offline table
+    const rateCount = await importExchangeRateFile(prisma, "prisma/exchange-rates.json");
+    console.log(`✅ Imported ${rateCount} exchange rates`);
+
     console.log("🎉 Seed completed successfully!");
 }
 
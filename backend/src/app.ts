@@ -16,9 +16,23 @@ import activityRoutes from "./modules/activities/activities.routes";
 import budgetRoutes from "./modules/budget/budget.routes";
 import sharingRoutes from "./modules/sharing/sharing.routes";
 import aiRoutes from "./modules/ai/ai.routes";
+import transportRoutes from "./modules/transport/transport.routes";
+import stayRoutes from "./modules/stays/stays.routes";
+import memberRoutes from "./modules/members/members.routes";
+import balanceRoutes from "./modules/balances/balances.routes";
+import notificationRoutes from "./modules/notifications/notifications.routes";
+import realtimeRoutes from "./modules/realtime/realtime.routes";
+import historyRoutes from "./modules/history/history.routes";
+import invitationRoutes from "./modules/sharing/invitations.routes";
+import sessionRoutes from "./modules/auth/sessions.routes";
+import identityRoutes from "./modules/auth/identities.routes";
+import securityEventRoutes from "./modules/security/security.routes";
 
 const app: Express = express();
 
+// Use X-Forwarded-For from that many proxies as the client IP
+app.set("trust proxy", env.TRUST_PROXY);
+
 // Security middleware
 app.use(helmet({
     contentSecurityPolicy: false, // Disable for SSE and Swagger UI
@@ -78,10 +92,21 @@ app.get("/health", (req, res) => {
 const API_PREFIX = "/api/v1";
 
 app.use(`${API_PREFIX}/auth`, authRoutes);
+app.use(`${API_PREFIX}/users/me/notifications`, notificationRoutes);
+app.use(`${API_PREFIX}/users/me/invitations`, invitationRoutes);
+app.use(`${API_PREFIX}/users/me/sessions`, sessionRoutes);
+app.use(`${API_PREFIX}/users/me/identities`, identityRoutes);
+app.use(`${API_PREFIX}/users/me/security-events`, securityEventRoutes);
 app.use(`${API_PREFIX}/users`, userRoutes);
 app.use(`${API_PREFIX}/trips`, tripRoutes);
 app.use(`${API_PREFIX}/trips/:tripId/itinerary`, itineraryRoutes);
 app.use(`${API_PREFIX}/trips/:tripId/budget`, budgetRoutes);
+app.use(`${API_PREFIX}/trips/:tripId/transport`, transportRoutes);
+app.use(`${API_PREFIX}/trips/:tripId/stays`, stayRoutes);
+app.use(`${API_PREFIX}/trips/:tripId/members`, memberRoutes);
+app.use(`${API_PREFIX}/trips/:tripId/balances`, balanceRoutes);
+app.use(`${API_PREFIX}/trips/:tripId/events`, realtimeRoutes);
+app.use(`${API_PREFIX}/trips/:tripId/history`, historyRoutes);
 app.use(`${API_PREFIX}/cities`, cityRoutes);
 app.use(`${API_PREFIX}/activities`, activityRoutes);
 app.use(`${API_PREFIX}/sharing`, sharingRoutes);
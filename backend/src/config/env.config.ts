@@ -17,6 +17,47 @@ export const env = {
 
     // Gemini AI
     GOOGLE_GENERATIVE_AI_API_KEY: process.env.GOOGLE_GENERATIVE_AI_API_KEY || "",
+
+    // AI provider: gemini | openai-compatible | rule-based
+    AI_PROVIDER: process.env.AI_PROVIDER || "gemini",
+    AI_MODEL: process.env.AI_MODEL || "",
+    // OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...)
+    AI_BASE_URL: process.env.AI_BASE_URL || "http://localhost:11434/v1",
+    AI_API_KEY: process.env.AI_API_KEY || "",
+
+    // Average door-to-door speeds (km/h) used for travel time between activities
+    TRAVEL_SPEED_WALK_KMH: parseFloat(process.env.TRAVEL_SPEED_WALK_KMH || "4.5"),
+    TRAVEL_SPEED_TRANSIT_KMH: parseFloat(process.env.TRAVEL_SPEED_TRANSIT_KMH || "18"),
+    TRAVEL_SPEED_DRIVE_KMH: parseFloat(process.env.TRAVEL_SPEED_DRIVE_KMH || "30"),
+
+    // Notification delivery: comma-separated list of in-app | smtp
+    NOTIFICATION_CHANNELS: process.env.NOTIFICATION_CHANNELS || "in-app",
+    // SMTP server for email notifications and MAIL_ADAPTER=smtp (defaults suit a local mail catcher such as Mailpit)
+    SMTP_HOST: process.env.SMTP_HOST || "localhost",
+    SMTP_PORT: parseInt(process.env.SMTP_PORT || "1025", 10),
+    SMTP_SECURE: process.env.SMTP_SECURE === "true",
+    SMTP_USER: process.env.SMTP_USER || "",
+    SMTP_PASS: process.env.SMTP_PASS || "",
+    SMTP_FROM: process.env.SMTP_FROM || "Globe Trotter <no-reply@globetrotter.local>",
+
+    // Transactional email such as share invitations and password resets:
+    // console (logged) | file (written to MAIL_FILE_DIR) | smtp
+    MAIL_ADAPTER: process.env.MAIL_ADAPTER || "console",
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || "tmp/mail",
+    // Frontend base URL used for links in emails
+    APP_URL: process.env.APP_URL || "http://localhost:5173",
+
+    // Google / Apple sign-in: accepted ID token audiences (comma-separated client ids; empty
+    // disables the provider) and the signing key set, as a URL or a JSON file path
+    GOOGLE_CLIENT_IDS: process.env.GOOGLE_CLIENT_IDS || "",
+    GOOGLE_JWKS: process.env.GOOGLE_JWKS || "https://www.googleapis.com/oauth2/v3/certs",
+    APPLE_CLIENT_IDS: process.env.APPLE_CLIENT_IDS || "",
+    APPLE_JWKS: process.env.APPLE_JWKS || "https://appleid.apple.com/auth/keys",
+
+    // Throttling of the auth routes, on unless set to "false"
+    RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED !== "false",
+    // Proxy hops in front of the API (Express "trust proxy"), so rate limits see the client's IP
+    TRUST_PROXY: parseInt(process.env.TRUST_PROXY || "0", 10),
 };
 
 // Validate required environment variables
@@ -14,6 +14,8 @@ This API provides endpoints for:
 - **User Profiles** - Profile management and saved cities
 - **Trips** - Create, update, delete, and duplicate travel plans
 - **Itineraries** - Day-by-day trip planning with activities
+- **Transport** - Trains, flights and other legs between cities
+- **Stays** - Where you sleep each night of the trip
 - **Cities & Activities** - Browse destinations and things to do
 - **Budget Management** - Track and allocate trip budgets
 - **Sharing** - Share trips via public links
@@ -128,6 +130,7 @@ This API provides endpoints for:
                         startDate: { type: "string", format: "date-time" },
                         endDate: { type: "string", format: "date-time" },
                         totalBudget: { type: "number", nullable: true },
+                        currency: { type: "string", example: "USD" },
                         coverPhotoUrl: { type: "string", nullable: true },
                         status: {
                             type: "string",
@@ -146,6 +149,7 @@ This API provides endpoints for:
                         startDate: { type: "string", format: "date", example: "2025-07-01" },
                         endDate: { type: "string", format: "date", example: "2025-07-15" },
                         totalBudget: { type: "number", example: 5000 },
+                        currency: { type: "string", example: "EUR", description: "Defaults to your profile currency" },
                         coverPhotoUrl: { type: "string" },
                     },
                 },
@@ -210,6 +214,13 @@ This API provides endpoints for:
             { name: "Cities", description: "City/destination endpoints" },
             { name: "Activities", description: "Activity endpoints" },
             { name: "Budget", description: "Budget management" },
+            { name: "Transport", description: "Inter-city transport legs" },
+            { name: "Stays", description: "Accommodation for trip nights" },
+            { name: "Members", description: "People taking part in a trip" },
+            { name: "Balances", description: "Expense splits, balances and settle-up" },
+            { name: "Notifications", description: "In-app notifications such as budget alerts" },
+            { name: "Realtime", description: "Live trip changes and presence (SSE streaming)" },
+            { name: "History", description: "Trip change history and undo" },
             { name: "Sharing", description: "Trip sharing" },
             { name: "AI", description: "AI-powered features (SSE streaming)" },
         ],
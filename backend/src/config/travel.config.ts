@@ -0,0 +1,12 @@
+import { env } from "./env.config";
+
+// Ways of getting between activities, with the speed assumed for each
+export const TRAVEL_MODES = ["walk", "transit", "drive"] as const;
+
+export type TravelMode = (typeof TRAVEL_MODES)[number];
+
+export const travelSpeedsKmh: Record<TravelMode, number> = {
+    walk: env.TRAVEL_SPEED_WALK_KMH,
+    transit: env.TRAVEL_SPEED_TRANSIT_KMH,
+    drive: env.TRAVEL_SPEED_DRIVE_KMH,
+};
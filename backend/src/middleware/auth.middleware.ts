@@ -3,12 +3,15 @@ import jwt from "jsonwebtoken";
 import { env } from "../config/env.config";
 import { sendError } from "../utils/response.util";
 import prisma from "../config/db.config";
+import { isSessionActive } from "../modules/auth/sessions.service";
 
 export interface AuthRequest extends Request {
     user?: {
         id: string;
         email: string;
         role: string;
+        // The session the access token belongs to
+        sessionId?: string;
     };
 }
 
@@ -30,22 +33,31 @@ export const authMiddleware = async (
             userId: string;
             email: string;
             role: string;
+            sid?: string;
         };
 
-        // Verify user still exists
-        const user = await prisma.user.findUnique({
-            where: { id: decoded.userId },
-            select: { id: true, email: true, role: true },
-        });
+        // Verify user still exists and the session has not been signed out
+        const [user, sessionActive] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: decoded.userId },
+                select: { id: true, email: true, role: true },
+            }),
+            decoded.sid ? isSessionActive(decoded.sid) : true,
+        ]);
 
         if (!user) {
             return sendError(res, "User not found", 401);
         }
 
+        if (!sessionActive) {
+            return sendError(res, "Session has been revoked", 401);
+        }
+
         req.user = {
             id: user.id,
             email: user.email,
             role: user.role,
+            sessionId: decoded.sid,
         };
 
         next();
@@ -90,18 +102,23 @@ export const optionalAuthMiddleware = async (
             userId: string;
             email: string;
             role: string;
+            sid?: string;
         };
 
-        const user = await prisma.user.findUnique({
-            where: { id: decoded.userId },
-            select: { id: true, email: true, role: true },
-        });
+        const [user, sessionActive] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: decoded.userId },
+                select: { id: true, email: true, role: true },
+            }),
+            decoded.sid ? isSessionActive(decoded.sid) : true,
+        ]);
 
-        if (user) {
+        if (user && sessionActive) {
             req.user = {
                 id: user.id,
                 email: user.email,
                 role: user.role,
+                sessionId: decoded.sid,
             };
         }
 
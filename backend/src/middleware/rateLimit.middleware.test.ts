@@ -0,0 +1,105 @@
+import { beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Request, Response } from "express";
+import { createMemoryRateLimitStore, setRateLimitStore } from "../modules/security/rateLimit.store";
+import { emailKey, rateLimit, setRetryAfter } from "./rateLimit.middleware";
+
+// Just enough of a response to see what the limiter sent
+const fakeResponse = () => {
+    const res = {
+        headers: {} as Record<string, unknown>,
+        statusCode: 200,
+        body: undefined as unknown,
+        setHeader(name: string, value: unknown) {
+            res.headers[name] = value;
+            return res;
+        },
+        status(code: number) {
+            res.statusCode = code;
+            return res;
+        },
+        json(body: unknown) {
+            res.body = body;
+            return res;
+        },
+    };
+    return res;
+};
+
+const call = async (limiter: ReturnType<typeof rateLimit>, req: Partial<Request>) => {
+    const res = fakeResponse();
+    let passed = false;
+    const next: NextFunction = () => {
+        passed = true;
+    };
+    await limiter(req as Request, res as unknown as Response, next);
+    return { res, passed };
+};
+
+describe("rateLimit", () => {
+    beforeEach(() => {
+        setRateLimitStore(createMemoryRateLimitStore());
+    });
+
+    it("lets requests through up to the limit and counts them down", async () => {
+        const limiter = rateLimit({ name: "test", windowMs: 60_000, max: 2 });
+
+        const first = await call(limiter, { ip: "1.2.3.4" });
+        const second = await call(limiter, { ip: "1.2.3.4" });
+
+        assert.ok(first.passed && second.passed);
+        assert.equal(first.res.headers["X-RateLimit-Remaining"], 1);
+        assert.equal(second.res.headers["X-RateLimit-Remaining"], 0);
+    });
+
+    it("answers 429 with Retry-After once the limit is passed", async () => {
+        const limiter = rateLimit({ name: "test", windowMs: 60_000, max: 1 });
+        await call(limiter, { ip: "1.2.3.4" });
+
+        const { res, passed } = await call(limiter, { ip: "1.2.3.4" });
+
+        assert.equal(passed, false);
+        assert.equal(res.statusCode, 429);
+        assert.equal(res.headers["Retry-After"], 60);
+        assert.equal((await call(limiter, { ip: "5.6.7.8" })).passed, true);
+    });
+
+    it("does not count requests the key ignores", async () => {
+        const limiter = rateLimit({ name: "test", windowMs: 60_000, max: 1, key: emailKey });
+
+        for (let i = 0; i < 3; i++) {
+            const { res, passed } = await call(limiter, { body: {} });
+            assert.ok(passed);
+            assert.equal(res.headers["X-RateLimit-Remaining"], undefined);
+        }
+        assert.ok((await call(limiter, { body: { email: " Ana@Example.com" } })).passed);
+        assert.equal((await call(limiter, { body: { email: "ana@example.com" } })).res.statusCode, 429);
+    });
+
+    it("lets requests through when the store fails", async () => {
+        setRateLimitStore({
+            name: "broken",
+            hit: async () => {
+                throw new Error("store down");
+            },
+            reset: async () => {},
+        });
+        const limiter = rateLimit({ name: "test", windowMs: 60_000, max: 1 });
+        const logged = mock.method(console, "error", () => {});
+
+        assert.equal((await call(limiter, { ip: "1.2.3.4" })).passed, true);
+        assert.equal(logged.mock.callCount(), 1);
+        logged.mock.restore();
+    });
+});
+
+describe("setRetryAfter", () => {
+    it("rounds up to whole seconds and never goes below one", () => {
+        const res = fakeResponse();
+
+        setRetryAfter(res as unknown as Response, new Date(Date.now() + 1500));
+        assert.equal(res.headers["Retry-After"], 2);
+        setRetryAfter(res as unknown as Response, new Date(Date.now() - 1000));
+        assert.equal(res.headers["Retry-After"], 1);
+    });
+});
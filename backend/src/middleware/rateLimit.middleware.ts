@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from "express";
+import { env } from "../config/env.config";
+import { sendError } from "../utils/response.util";
+import { getRateLimitStore } from "../modules/security/rateLimit.store";
+
+export interface RateLimitOptions {
+    // Separates the counters of different limits on the same key
+    name: string;
+    windowMs: number;
+    max: number;
+    // What to count hits against; requests it returns nothing for are not limited
+    key?: (req: Request) => string | undefined;
+    message?: string;
+}
+
+// Tells the client how many whole seconds to wait
+export const setRetryAfter = (res: Response, until: Date) => {
+    res.setHeader("Retry-After", Math.max(Math.ceil((until.getTime() - Date.now()) / 1000), 1));
+};
+
+// Limits by client IP unless another key is given; see TRUST_PROXY for running behind a proxy
+export const rateLimit = ({
+    name,
+    windowMs,
+    max,
+    key = (req) => req.ip,
+    message = "Too many requests, please try again later",
+}: RateLimitOptions) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const subject = env.RATE_LIMIT_ENABLED ? key(req) : undefined;
+        if (!subject) {
+            return next();
+        }
+
+        let hit;
+        try {
+            hit = await getRateLimitStore().hit(`${name}:${subject}`, windowMs);
+        } catch (error) {
+            // An unavailable store should not take sign-in down with it
+            console.error(`Rate limit store failed for ${name}:`, error);
+            return next();
+        }
+
+        res.setHeader("X-RateLimit-Limit", max);
+        res.setHeader("X-RateLimit-Remaining", Math.max(max - hit.count, 0));
+
+        if (hit.count > max) {
+            setRetryAfter(res, hit.resetAt);
+            return sendError(res, message, 429);
+        }
+
+        next();
+    };
+};
+
+// Key for per-account limits: the email in the request body, before validation
+export const emailKey = (req: Request) =>
+    typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined;
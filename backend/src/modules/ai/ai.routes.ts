@@ -1,29 +1,34 @@
 import { Router, Response } from "express";
-import { streamText } from "ai";
-import { geminiModel, TRAVEL_AI_SYSTEM_PROMPT } from "../../config/ai.config";
+import { DeepPartial } from "ai";
+import { TRAVEL_AI_SYSTEM_PROMPT } from "../../config/ai.config";
 import prisma from "../../config/db.config";
-import { sendError } from "../../utils/response.util";
 import { validate } from "../../middleware/validate.middleware";
 import {
     generateItinerarySchema,
+    generatedItinerarySchema,
+    activitySuggestionsSchema,
+    routeOptimizationSchema,
+    budgetAdviceSchema,
+    dayEnhancementSchema,
+    optimizeRouteSchema,
     aiChatSchema,
+    GeneratedItinerary,
 } from "../../utils/validation.util";
 import { asyncHandler } from "../../middleware/error.middleware";
 import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { saveGeneratedItinerary, createRouteProposal } from "./ai.service";
+import { openSSEStream, createItemEmitter, streamStructured, ItemEmitter } from "./ai.stream";
+import { getAIProvider } from "./providers/ai.provider";
+import { buildBudgetSummary, listActivityCosts } from "../budget/budget.service";
+import { createCurrencyConverter, getUserCurrency } from "../currency/currency.service";
+import { getTripAccess } from "../trips/trips.access";
+import { publishTripEvent } from "../realtime/realtime.hub";
 
 const router = Router();
 
 // All AI routes require authentication
 router.use(authMiddleware);
 
-// Helper to set SSE headers
-const setSSEHeaders = (res: Response) => {
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-    res.setHeader("X-Accel-Buffering", "no");
-};
-
 // Type definitions for Prisma query results
 interface ActivityData {
     name: string;
@@ -39,19 +44,9 @@ interface ItineraryActivityData {
     endTime: Date;
 }
 
-interface ItineraryData {
-    city: { name: string };
-    activities: ItineraryActivityData[];
-}
-
-interface BudgetData {
-    category: string;
-    allocatedAmount: any;
-    spentAmount: any;
-}
-
 interface CityWithActivities {
     name: string;
+    currency: string;
     activities: ActivityData[];
 }
 
@@ -70,10 +65,16 @@ interface DayWithCityAndActivities {
  *       Uses AI to generate a complete travel itinerary based on a prompt.
  *       Returns a Server-Sent Events (SSE) stream with real-time AI response.
  *       
+ *       Every event carries an SSE `id:`; idle streams receive `: heartbeat` comments.
+ *
  *       **SSE Event Types:**
  *       - `thinking` - AI is processing
- *       - `content` - Partial response content
- *       - `done` - Generation complete
+ *       - `city` - A day's city, as soon as it is complete
+ *       - `activity` - A completed activity, tagged with its `dayNumber`
+ *       - `insight` - A travel tip
+ *       - `done` - Generation complete. Carries the validated `itinerary`; when
+ *         `saveToTripId` is given, also the `createdDayIds` and any `unmatched`
+ *         cities (day skipped) or activities (placeholder created)
  *       - `error` - Error occurred
  *     security:
  *       - bearerAuth: []
@@ -97,12 +98,19 @@ router.post(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { prompt, preferences, saveToTripId } = req.body;
 
-        setSSEHeaders(res);
+        const sse = openSSEStream(res);
 
         try {
-            res.write(
-                `data: ${JSON.stringify({ type: "thinking", content: "Analyzing your travel preferences..." })}\n\n`
-            );
+            if (saveToTripId) {
+                const access = await getTripAccess(req, saveToTripId, "edit");
+                if (!access.ok) {
+                    sse.send("error", access.error);
+                    sse.end();
+                    return;
+                }
+            }
+
+            sse.send("thinking", "Analyzing your travel preferences...");
 
             const preferencesStr = preferences
                 ? `
@@ -129,45 +137,66 @@ Please respond with a structured itinerary that includes:
 3. Total estimated cost
 4. Helpful tips and insights
 
-Format your response as a JSON object with this structure:
-{
-  "tripName": "...",
-  "days": [
-    {
-      "dayNumber": 1,
-      "city": {"name": "...", "country": "..."},
-      "activities": [
-        {"name": "...", "startTime": "09:00", "endTime": "12:00", "estimatedCost": 25, "category": "SIGHTSEEING", "description": "..."}
-      ]
-    }
-  ],
-  "totalEstimatedCost": 0,
-  "insights": ["..."]
-}
+Use 24-hour HH:MM times for every activity.
 `;
 
-            const { textStream } = await streamText({
-                model: geminiModel,
+            // Cities and activities are sent as soon as the model has finished writing them
+            let days: DeepPartial<GeneratedItinerary>["days"] = [];
+            const citiesSent = new Set<number>();
+            const activityEmitters: Array<ItemEmitter<object>> = [];
+            const emitInsights = createItemEmitter((insight: string) => sse.send("insight", insight));
+
+            const itinerary = await streamStructured({
+                sse,
+                task: { type: "itinerary", request: prompt, preferences },
+                schema: generatedItinerarySchema,
                 system: TRAVEL_AI_SYSTEM_PROMPT,
                 prompt: fullPrompt,
+                onPartial: (partial, final) => {
+                    days = partial.days ?? [];
+                    days.forEach((day, index) => {
+                        if (!day) return;
+                        const dayComplete = final || index < days!.length - 1;
+
+                        if (!citiesSent.has(index) && day.city && (dayComplete || day.activities)) {
+                            citiesSent.add(index);
+                            sse.send("city", { dayNumber: day.dayNumber, ...day.city });
+                        }
+
+                        activityEmitters[index] ??= createItemEmitter((activity: object) =>
+                            sse.send("activity", { dayNumber: days![index]?.dayNumber, ...activity })
+                        );
+                        activityEmitters[index](day.activities, dayComplete);
+                    });
+                    emitInsights(partial.insights, final);
+                },
             });
 
-            for await (const chunk of textStream) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`
-                );
+            const saved = saveToTripId
+                ? await saveGeneratedItinerary(saveToTripId, itinerary, req.user!.id)
+                : null;
+
+            if (saved?.createdDayIds.length) {
+                const days = await prisma.itinerary.findMany({
+                    where: { id: { in: saved.createdDayIds } },
+                    include: { city: true },
+                });
+                for (const day of days) {
+                    publishTripEvent(saveToTripId, "day.created", req.user!.id, day);
+                }
             }
 
-            res.write(
-                `data: ${JSON.stringify({ type: "done", content: { saveToTripId } })}\n\n`
-            );
-            res.end();
+            sse.send("done", {
+                saveToTripId,
+                itinerary,
+                createdDayIds: saved?.createdDayIds ?? [],
+                unmatched: saved?.unmatched ?? { cities: [], activities: [] },
+            });
+            sse.end();
         } catch (error) {
             console.error("AI generation error:", error);
-            res.write(
-                `data: ${JSON.stringify({ type: "error", content: "Failed to generate itinerary" })}\n\n`
-            );
-            res.end();
+            sse.send("error", "Failed to generate itinerary");
+            sse.end();
         }
     })
 );
@@ -180,7 +209,8 @@ Format your response as a JSON object with this structure:
  *     summary: Get AI activity suggestions (SSE stream)
  *     description: |
  *       AI suggests activities for a city based on preferences and existing plans.
- *       Returns SSE stream with suggestions.
+ *       Streams a `suggestion` event per activity (with `activityId` when it matches
+ *       our catalogue), then `done` with the full list.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -228,7 +258,7 @@ router.post(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { cityId, existingActivities, preferences, timeSlot } = req.body;
 
-        setSSEHeaders(res);
+        const sse = openSSEStream(res);
 
         try {
             const city = await prisma.city.findUnique({
@@ -237,10 +267,8 @@ router.post(
             });
 
             if (!city) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "error", content: "City not found" })}\n\n`
-                );
-                res.end();
+                sse.send("error", "City not found");
+                sse.end();
                 return;
             }
 
@@ -257,41 +285,52 @@ router.post(
 Suggest activities in ${city.name}, ${city.country} for a traveler.
 
 Time slot: ${timeSlot?.start || "flexible"} to ${timeSlot?.end || "flexible"}
-Budget per activity: $${preferences?.budget || "any"}
+Budget per activity: ${preferences?.budget ? `${preferences.budget} ${city.currency}` : "any"}
 Interests: ${preferences?.interests?.join(", ") || "general"}
 Already planned: ${existingNames.join(", ") || "none"}
 
 Available activities in our database:
-${city.activities.map((a: ActivityData) => `- ${a.name} ($${a.estimatedCost}, ${a.category}, ${a.durationMinutes}min)`).join("\n")}
+${city.activities.map((a: ActivityData) => `- ${a.name} (${a.estimatedCost} ${city.currency}, ${a.category}, ${a.durationMinutes}min)`).join("\n")}
 
 Suggest 3-5 activities that would fit well, explaining why each is a good choice.
-Format as JSON array: [{"name": "...", "reason": "...", "fitScore": 0.95}]
+Give each a fitScore between 0 and 1.
 `;
 
-            res.write(
-                `data: ${JSON.stringify({ type: "thinking", content: "Finding the best activities for you..." })}\n\n`
+            sse.send("thinking", "Finding the best activities for you...");
+
+            // Link suggestions back to our catalogue when the model picked a known activity
+            const withActivityId = (suggestion: { name?: string }) => ({
+                ...suggestion,
+                activityId:
+                    city.activities.find(
+                        (a) => a.name.toLowerCase() === suggestion.name?.toLowerCase()
+                    )?.id ?? null,
+            });
+            const emitSuggestions = createItemEmitter((suggestion: { name?: string }) =>
+                sse.send("suggestion", withActivityId(suggestion))
             );
 
-            const { textStream } = await streamText({
-                model: geminiModel,
+            const result = await streamStructured({
+                sse,
+                task: {
+                    type: "suggestions",
+                    cityId: city.id,
+                    excludeActivityIds: existingActivities ?? [],
+                    budget: preferences?.budget,
+                    interests: preferences?.interests,
+                },
+                schema: activitySuggestionsSchema,
                 system: TRAVEL_AI_SYSTEM_PROMPT,
                 prompt,
+                onPartial: (partial, final) => emitSuggestions(partial.suggestions, final),
             });
 
-            for await (const chunk of textStream) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`
-                );
-            }
-
-            res.write(`data: ${JSON.stringify({ type: "done" })}\n\n`);
-            res.end();
+            sse.send("done", { suggestions: result.suggestions.map(withActivityId) });
+            sse.end();
         } catch (error) {
             console.error("AI suggestion error:", error);
-            res.write(
-                `data: ${JSON.stringify({ type: "error", content: "Failed to suggest activities" })}\n\n`
-            );
-            res.end();
+            sse.send("error", "Failed to suggest activities");
+            sse.end();
         }
     })
 );
@@ -304,7 +343,13 @@ Format as JSON array: [{"name": "...", "reason": "...", "fitScore": 0.95}]
  *     summary: Optimize day's route (SSE stream)
  *     description: |
  *       AI analyzes activities for a day and suggests optimal ordering
- *       to minimize travel time and improve experience.
+ *       to minimize travel time and improve experience. Sends the reasoning as an
+ *       `insight` event, then `done` with `optimizedOrder` and `timeSavedMinutes`.
+ *
+ *       With `apply: true` the order is mapped back to the day's activities and saved
+ *       as a pending proposal (new `orderIndex`, `startTime`, `endTime` with durations
+ *       kept), returned as `proposal` in the `done` event. Accept or reject it via
+ *       `/trips/{tripId}/itinerary/proposals/{proposalId}/accept|reject`.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -318,6 +363,9 @@ Format as JSON array: [{"name": "...", "reason": "...", "fitScore": 0.95}]
  *               itineraryDayId:
  *                 type: string
  *                 format: uuid
+ *               apply:
+ *                 type: boolean
+ *                 description: Save the result as a pending route proposal
  *     responses:
  *       200:
  *         description: SSE stream with route optimization
@@ -328,10 +376,11 @@ Format as JSON array: [{"name": "...", "reason": "...", "fitScore": 0.95}]
  */
 router.post(
     "/optimize-route",
+    validate(optimizeRouteSchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
-        const { itineraryDayId } = req.body;
+        const { itineraryDayId, apply } = req.body;
 
-        setSSEHeaders(res);
+        const sse = openSSEStream(res);
 
         try {
             const day = await prisma.itinerary.findUnique({
@@ -340,15 +389,22 @@ router.post(
                     city: true,
                     activities: {
                         include: { activity: true },
+                        orderBy: { orderIndex: "asc" },
                     },
                 },
             });
 
             if (!day) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "error", content: "Day not found" })}\n\n`
-                );
-                res.end();
+                sse.send("error", "Day not found");
+                sse.end();
+                return;
+            }
+
+            // Proposing a new order changes the day, so applying needs edit access
+            const access = await getTripAccess(req, day.tripId, apply ? "edit" : "view");
+            if (!access.ok) {
+                sse.send("error", access.status === 404 ? "Day not found" : access.error);
+                sse.end();
                 return;
             }
 
@@ -363,33 +419,31 @@ Consider:
 - Logical flow (e.g., breakfast before sightseeing)
 - Energy levels throughout the day
 
-Respond with JSON: {"optimizedOrder": ["activity-name-1", "activity-name-2"], "timeSavedMinutes": 30, "reasoning": "..."}
+Return optimizedOrder as the exact activity names above, estimate the minutes saved and explain your reasoning.
 `;
 
-            res.write(
-                `data: ${JSON.stringify({ type: "thinking", content: "Analyzing optimal route..." })}\n\n`
-            );
+            sse.send("thinking", "Analyzing optimal route...");
 
-            const { textStream } = await streamText({
-                model: geminiModel,
+            const result = await streamStructured({
+                sse,
+                task: { type: "route", dayId: day.id },
+                schema: routeOptimizationSchema,
                 system: TRAVEL_AI_SYSTEM_PROMPT,
                 prompt,
             });
 
-            for await (const chunk of textStream) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`
-                );
-            }
+            sse.send("insight", result.reasoning);
 
-            res.write(`data: ${JSON.stringify({ type: "done" })}\n\n`);
-            res.end();
+            const proposal = apply
+                ? await createRouteProposal(day.id, req.user!.id, result)
+                : null;
+
+            sse.send("done", { ...result, proposal });
+            sse.end();
         } catch (error) {
             console.error("AI optimization error:", error);
-            res.write(
-                `data: ${JSON.stringify({ type: "error", content: "Failed to optimize route" })}\n\n`
-            );
-            res.end();
+            sse.send("error", "Failed to optimize route");
+            sse.end();
         }
     })
 );
@@ -402,7 +456,8 @@ Respond with JSON: {"optimizedOrder": ["activity-name-1", "activity-name-2"], "t
  *     summary: Get AI budget advice (SSE stream)
  *     description: |
  *       AI analyzes trip budget and provides recommendations for
- *       savings and optimal allocation.
+ *       savings and optimal allocation. Each tip streams as an `insight` event;
+ *       `done` carries the full advice including `healthScore`.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -429,88 +484,79 @@ router.post(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId } = req.body;
 
-        setSSEHeaders(res);
+        const sse = openSSEStream(res);
 
         try {
-            const trip = await prisma.trip.findFirst({
-                where: { id: tripId, userId: req.user!.id },
-                include: {
-                    itineraries: {
-                        include: {
-                            city: true,
-                            activities: { include: { activity: true } },
-                        },
-                    },
-                    budgets: true,
-                },
-            });
-
-            if (!trip) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "error", content: "Trip not found" })}\n\n`
-                );
-                res.end();
+            const access = await getTripAccess(req, tripId, "view");
+            if (!access.ok) {
+                sse.send("error", access.error);
+                sse.end();
                 return;
             }
 
-            const totalBudget = trip.totalBudget ? Number(trip.totalBudget) : "not set";
-            const activityCosts = (trip.itineraries as ItineraryData[]).flatMap(
-                (it) =>
-                    it.activities.map((a: ItineraryActivityData) => ({
-                        name: a.activity.name,
-                        cost: a.customCost
-                            ? Number(a.customCost)
-                            : Number(a.activity.estimatedCost),
-                        city: it.city.name,
-                    }))
-            );
+            const trip = await prisma.trip.findUniqueOrThrow({
+                where: { id: tripId },
+                include: { itineraries: true },
+            });
+
+            const currency = await getUserCurrency(req.user!.id);
+            const converter = await createCurrencyConverter(currency);
+            const [summary, activityCosts] = await Promise.all([
+                buildBudgetSummary(trip, currency),
+                listActivityCosts(trip.id, converter),
+            ]);
+            const rates = [...summary.rates, ...converter.appliedRates()];
 
             const prompt = `
-Analyze this trip budget and provide advice:
+Analyze this trip budget and provide advice. All amounts are in ${currency}.
 
 Trip: ${trip.name}
-Total Budget: $${totalBudget}
+Total Budget: ${summary.totalBudget ?? "not set"}
 Duration: ${trip.itineraries.length} days
 
 Planned Activities:
-${activityCosts.map((a: { name: string; city: string; cost: number }) => `- ${a.name} in ${a.city}: $${a.cost}`).join("\n")}
+${activityCosts.map((a) => `- ${a.name} in ${a.city}: ${a.cost}`).join("\n")}
 
 Budget Allocations:
-${(trip.budgets as BudgetData[]).map((b) => `- ${b.category}: $${b.allocatedAmount} allocated, $${b.spentAmount} spent`).join("\n")}
+${summary.breakdown.map((b) => `- ${b.category}: ${b.allocated} allocated, ${b.spent} spent`).join("\n")}
 
+Exchange rates used:
+${[...new Set(rates.map((r) => `- 1 ${r.from} = ${r.rate} ${r.to} (as of ${r.rateDate})`))].join("\n") || "none"}
+${summary.unconvertedCurrencies.length ? `Left out for lack of a rate: ${summary.unconvertedCurrencies.join(", ")}\n` : ""}
 Please provide:
 1. Budget health assessment
 2. Areas where they might save money
 3. Suggestions for budget reallocation
 4. Tips for the destinations they're visiting
 
-Format as JSON: {"healthScore": 85, "assessment": "...", "savingTips": ["..."], "recommendations": ["..."]}
+Give a healthScore from 0 to 100.
 `;
 
-            res.write(
-                `data: ${JSON.stringify({ type: "thinking", content: "Analyzing your budget..." })}\n\n`
+            sse.send("thinking", "Analyzing your budget...");
+
+            const emitTips = createItemEmitter((tip: string) => sse.send("insight", tip));
+            const emitRecommendations = createItemEmitter((recommendation: string) =>
+                sse.send("insight", recommendation)
             );
 
-            const { textStream } = await streamText({
-                model: geminiModel,
+            const advice = await streamStructured({
+                sse,
+                task: { type: "budget", tripId: trip.id, currency },
+                schema: budgetAdviceSchema,
                 system: TRAVEL_AI_SYSTEM_PROMPT,
                 prompt,
+                onPartial: (partial, final) => {
+                    emitTips(partial.savingTips, final || partial.recommendations !== undefined);
+                    emitRecommendations(partial.recommendations, final);
+                },
             });
 
-            for await (const chunk of textStream) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`
-                );
-            }
-
-            res.write(`data: ${JSON.stringify({ type: "done" })}\n\n`);
-            res.end();
+            sse.send("done", advice);
+            sse.end();
         } catch (error) {
             console.error("AI budget error:", error);
-            res.write(
-                `data: ${JSON.stringify({ type: "error", content: "Failed to analyze budget" })}\n\n`
-            );
-            res.end();
+            sse.send("error", "Failed to analyze budget");
+            sse.end();
         }
     })
 );
@@ -524,6 +570,7 @@ Format as JSON: {"healthScore": 85, "assessment": "...", "savingTips": ["..."],
  *     description: |
  *       Interactive chat with an AI travel assistant.
  *       Supports conversation context and trip-specific queries.
+ *       Streams `content` chunks, then `done` with the full `message`.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -564,14 +611,17 @@ router.post(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { messages, tripContext } = req.body;
 
-        setSSEHeaders(res);
+        const sse = openSSEStream(res);
 
         try {
             let contextInfo = "";
+            let contextTripId: string | undefined;
 
-            if (tripContext?.tripId) {
-                const trip = await prisma.trip.findFirst({
-                    where: { id: tripContext.tripId, userId: req.user!.id },
+            // Trips the user cannot view are ignored rather than reported
+            const access = tripContext?.tripId ? await getTripAccess(req, tripContext.tripId, "view") : null;
+            if (access?.ok) {
+                const trip = await prisma.trip.findUnique({
+                    where: { id: access.trip.id },
                     include: {
                         itineraries: {
                             include: { city: true, activities: { include: { activity: true } } },
@@ -580,12 +630,13 @@ router.post(
                 });
 
                 if (trip) {
+                    contextTripId = trip.id;
                     contextInfo = `
 Current Trip Context:
 - Trip: ${trip.name}
 - Dates: ${trip.startDate.toDateString()} to ${trip.endDate.toDateString()}
 - Cities: ${(trip.itineraries as Array<{ city: { name: string } }>).map((it) => it.city.name).join(", ")}
-- Budget: $${trip.totalBudget || "not set"}
+- Budget: ${trip.totalBudget ? `${trip.totalBudget} ${trip.currency}` : "not set"}
 `;
                 }
             }
@@ -600,26 +651,26 @@ Current Trip Context:
             const systemPrompt =
                 TRAVEL_AI_SYSTEM_PROMPT + (contextInfo ? `\n\n${contextInfo}` : "");
 
-            const { textStream } = await streamText({
-                model: geminiModel,
+            // Chat replies are free-form prose, so they stream as plain content chunks
+            const textStream = getAIProvider().streamChat({
+                task: { type: "chat", tripId: contextTripId },
                 system: systemPrompt,
                 messages: formattedMessages,
+                signal: sse.signal,
             });
 
+            let reply = "";
             for await (const chunk of textStream) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`
-                );
+                reply += chunk;
+                sse.send("content", chunk);
             }
 
-            res.write(`data: ${JSON.stringify({ type: "done" })}\n\n`);
-            res.end();
+            sse.send("done", { message: reply });
+            sse.end();
         } catch (error) {
             console.error("AI chat error:", error);
-            res.write(
-                `data: ${JSON.stringify({ type: "error", content: "Chat failed" })}\n\n`
-            );
-            res.end();
+            sse.send("error", "Chat failed");
+            sse.end();
         }
     })
 );
@@ -632,7 +683,8 @@ Current Trip Context:
  *     summary: AI enhance day itinerary (SSE stream)
  *     description: |
  *       AI fills gaps in a manually created day's schedule,
- *       suggesting activities based on user instructions.
+ *       suggesting activities based on user instructions. Streams a `suggestion`
+ *       event per timed activity, then `done` with the full list.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -665,23 +717,18 @@ router.post(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId, dayId, instruction } = req.body;
 
-        setSSEHeaders(res);
+        const sse = openSSEStream(res);
 
         try {
-            const trip = await prisma.trip.findFirst({
-                where: { id: tripId, userId: req.user!.id },
-            });
-
-            if (!trip) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "error", content: "Trip not found" })}\n\n`
-                );
-                res.end();
+            const access = await getTripAccess(req, tripId, "view");
+            if (!access.ok) {
+                sse.send("error", access.error);
+                sse.end();
                 return;
             }
 
-            const day = (await prisma.itinerary.findUnique({
-                where: { id: dayId },
+            const day = (await prisma.itinerary.findFirst({
+                where: { id: dayId, tripId },
                 include: {
                     city: { include: { activities: true } },
                     activities: { include: { activity: true }, orderBy: { startTime: "asc" } },
@@ -689,10 +736,8 @@ router.post(
             })) as DayWithCityAndActivities | null;
 
             if (!day) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "error", content: "Day not found" })}\n\n`
-                );
-                res.end();
+                sse.send("error", "Day not found");
+                sse.end();
                 return;
             }
 
@@ -712,36 +757,32 @@ ${existingSchedule || "Empty - no activities planned yet"}
 User's Request: "${instruction}"
 
 Available activities in ${day.city.name}:
-${day.city.activities.slice(0, 20).map((a: ActivityData) => `- ${a.name} ($${a.estimatedCost}, ${a.category}, ${a.durationMinutes}min)`).join("\n")}
+${day.city.activities.slice(0, 20).map((a: ActivityData) => `- ${a.name} (${a.estimatedCost} ${day.city.currency}, ${a.category}, ${a.durationMinutes}min)`).join("\n")}
 
-Suggest specific activities with times to add. Format as JSON array:
-[{"name": "...", "startTime": "14:00", "endTime": "16:00", "reason": "..."}]
+Suggest specific activities with 24-hour HH:MM start and end times to add.
 `;
 
-            res.write(
-                `data: ${JSON.stringify({ type: "thinking", content: "Enhancing your day..." })}\n\n`
+            sse.send("thinking", "Enhancing your day...");
+
+            const emitSuggestions = createItemEmitter((suggestion) =>
+                sse.send("suggestion", suggestion)
             );
 
-            const { textStream } = await streamText({
-                model: geminiModel,
+            const result = await streamStructured({
+                sse,
+                task: { type: "enhance", dayId, instruction },
+                schema: dayEnhancementSchema,
                 system: TRAVEL_AI_SYSTEM_PROMPT,
                 prompt,
+                onPartial: (partial, final) => emitSuggestions(partial.suggestions, final),
             });
 
-            for await (const chunk of textStream) {
-                res.write(
-                    `data: ${JSON.stringify({ type: "content", content: chunk })}\n\n`
-                );
-            }
-
-            res.write(`data: ${JSON.stringify({ type: "done" })}\n\n`);
-            res.end();
+            sse.send("done", result);
+            sse.end();
         } catch (error) {
             console.error("AI enhance error:", error);
-            res.write(
-                `data: ${JSON.stringify({ type: "error", content: "Failed to enhance day" })}\n\n`
-            );
-            res.end();
+            sse.send("error", "Failed to enhance day");
+            sse.end();
         }
     })
 );
@@ -0,0 +1,212 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { parseTime, timeToMinutes } from "../../utils/time.util";
+import { GeneratedItinerary } from "../../utils/validation.util";
+import { rescheduleInOrder } from "../itinerary/itinerary.service";
+import { recordTripChange } from "../history/history.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SavedItineraryResult {
+    tripId: string;
+    createdDayIds: string[];
+    unmatched: {
+        cities: Array<{ dayNumber: number; name: string; country: string }>;
+        activities: Array<{ dayId: string; name: string; placeholderActivityId: string }>;
+    };
+}
+
+// Match by name + country first, then fall back to the most popular city with that name
+const findCity = async (tx: Prisma.TransactionClient, name: string, country: string) => {
+    const exact = await tx.city.findFirst({
+        where: {
+            name: { equals: name, mode: "insensitive" },
+            country: { equals: country, mode: "insensitive" },
+        },
+    });
+
+    return (
+        exact ??
+        tx.city.findFirst({
+            where: { name: { equals: name, mode: "insensitive" } },
+            orderBy: { popularityScore: "desc" },
+        })
+    );
+};
+
+/**
+ * Writes a generated itinerary into an existing trip as Itinerary + ItineraryActivity rows.
+ * Days are appended after the trip's last day; activities that don't match an existing
+ * Activity in the day's city get a placeholder Activity. Days whose city is unknown are skipped.
+ */
+export const saveGeneratedItinerary = async (
+    tripId: string,
+    itinerary: GeneratedItinerary,
+    actorId: string
+): Promise<SavedItineraryResult> => {
+    return prisma.$transaction(async (tx) => {
+        const trip = await tx.trip.findUniqueOrThrow({ where: { id: tripId } });
+
+        const lastDay = await tx.itinerary.findFirst({
+            where: { tripId },
+            orderBy: { dayNumber: "desc" },
+        });
+        const dayOffset = lastDay?.dayNumber ?? 0;
+
+        const result: SavedItineraryResult = {
+            tripId,
+            createdDayIds: [],
+            unmatched: { cities: [], activities: [] },
+        };
+
+        const days = [...itinerary.days].sort((a, b) => a.dayNumber - b.dayNumber);
+
+        for (const generatedDay of days) {
+            const city = await findCity(tx, generatedDay.city.name, generatedDay.city.country);
+
+            if (!city) {
+                result.unmatched.cities.push({
+                    dayNumber: generatedDay.dayNumber,
+                    ...generatedDay.city,
+                });
+                continue;
+            }
+
+            const dayNumber = dayOffset + result.createdDayIds.length + 1;
+            const day = await tx.itinerary.create({
+                data: {
+                    tripId,
+                    cityId: city.id,
+                    dayNumber,
+                    date: new Date(trip.startDate.getTime() + (dayNumber - 1) * DAY_MS),
+                    orderIndex: dayNumber - 1,
+                },
+            });
+
+            const scheduled = [];
+            for (const [orderIndex, generated] of generatedDay.activities.entries()) {
+                let activity = await tx.activity.findFirst({
+                    where: {
+                        cityId: city.id,
+                        name: { equals: generated.name, mode: "insensitive" },
+                    },
+                });
+
+                if (!activity) {
+                    const duration = timeToMinutes(generated.endTime) - timeToMinutes(generated.startTime);
+                    activity = await tx.activity.create({
+                        data: {
+                            cityId: city.id,
+                            name: generated.name,
+                            description: generated.description,
+                            category: generated.category,
+                            estimatedCost: generated.estimatedCost,
+                            durationMinutes: duration > 0 ? duration : 60,
+                            tags: ["ai-generated"],
+                        },
+                    });
+                    result.unmatched.activities.push({
+                        dayId: day.id,
+                        name: generated.name,
+                        placeholderActivityId: activity.id,
+                    });
+                }
+
+                scheduled.push(
+                    await tx.itineraryActivity.create({
+                        data: {
+                            itineraryId: day.id,
+                            activityId: activity.id,
+                            startTime: parseTime(generated.startTime),
+                            endTime: parseTime(generated.endTime),
+                            orderIndex,
+                        },
+                    })
+                );
+            }
+
+            await recordTripChange(tx, {
+                tripId,
+                actorId,
+                entity: "DAY",
+                entityId: day.id,
+                action: "CREATE",
+                after: { ...day, activities: scheduled },
+            });
+            result.createdDayIds.push(day.id);
+        }
+
+        await tx.trip.update({
+            where: { id: tripId },
+            data: { aiGenerated: true },
+        });
+
+        return result;
+    });
+};
+
+interface RouteOptimization {
+    optimizedOrder: string[];
+    timeSavedMinutes: number;
+    reasoning: string;
+}
+
+/**
+ * Turns an AI route optimization into a pending RouteProposal for the day.
+ * Activity names are matched back to ItineraryActivity rows (exact, then partial match);
+ * activities the model left out keep their relative order at the end of the day.
+ * Any earlier pending proposal for the same day is superseded.
+ */
+export const createRouteProposal = async (
+    dayId: string,
+    userId: string,
+    optimization: RouteOptimization
+) => {
+    const scheduled = await prisma.itineraryActivity.findMany({
+        where: { itineraryId: dayId },
+        include: { activity: { select: { name: true } } },
+        orderBy: { orderIndex: "asc" },
+    });
+
+    const remaining = [...scheduled];
+    const orderedIds: string[] = [];
+    const unmatchedNames: string[] = [];
+
+    for (const name of optimization.optimizedOrder) {
+        const needle = name.trim().toLowerCase();
+        let index = remaining.findIndex((ia) => ia.activity.name.toLowerCase() === needle);
+        if (index === -1) {
+            index = remaining.findIndex((ia) => {
+                const candidate = ia.activity.name.toLowerCase();
+                return candidate.includes(needle) || needle.includes(candidate);
+            });
+        }
+
+        if (index === -1) {
+            unmatchedNames.push(name);
+            continue;
+        }
+        orderedIds.push(remaining.splice(index, 1)[0].id);
+    }
+    orderedIds.push(...remaining.map((ia) => ia.id));
+
+    const changes = rescheduleInOrder(scheduled, orderedIds);
+
+    return prisma.$transaction(async (tx) => {
+        await tx.routeProposal.updateMany({
+            where: { itineraryId: dayId, status: "PENDING" },
+            data: { status: "SUPERSEDED", resolvedAt: new Date() },
+        });
+
+        return tx.routeProposal.create({
+            data: {
+                itineraryId: dayId,
+                createdById: userId,
+                changes: changes as unknown as Prisma.InputJsonValue,
+                timeSavedMinutes: Math.round(optimization.timeSavedMinutes),
+                reasoning: optimization.reasoning,
+                unmatchedNames,
+            },
+        });
+    });
+};
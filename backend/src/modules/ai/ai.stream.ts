@@ -0,0 +1,130 @@
+import { Response } from "express";
+import { DeepPartial } from "ai";
+import { z } from "zod";
+import { getAIProvider, AITask } from "./providers/ai.provider";
+
+// How often a comment line is written to keep proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Event types sent to clients over SSE. Every event is written as
+// `id: <n>` + `data: {"type": ..., "content": ...}`.
+export type AIStreamEventType =
+    | "thinking"
+    | "content"
+    | "city"
+    | "activity"
+    | "suggestion"
+    | "insight"
+    | "done"
+    | "error";
+
+export interface SSEStream<T extends string = AIStreamEventType> {
+    send: (type: T, content?: unknown) => void;
+    end: () => void;
+    // Aborted when the client disconnects so the model call can be cancelled
+    signal: AbortSignal;
+}
+
+// Sets SSE headers and returns a writer that numbers events and sends heartbeats until closed
+export const openSSEStream = <T extends string = AIStreamEventType>(res: Response): SSEStream<T> => {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    const controller = new AbortController();
+    let eventId = 0;
+    let closed = false;
+
+    const heartbeat = setInterval(() => {
+        res.write(": heartbeat\n\n");
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+    };
+
+    res.on("close", () => {
+        cleanup();
+        controller.abort();
+    });
+
+    return {
+        send: (type, content) => {
+            if (closed) return;
+            eventId += 1;
+            res.write(`id: ${eventId}\ndata: ${JSON.stringify({ type, content })}\n\n`);
+        },
+        end: () => {
+            cleanup();
+            res.end();
+        },
+        signal: controller.signal,
+    };
+};
+
+export type ItemEmitter<T> = (items: ReadonlyArray<T | undefined> | undefined, final: boolean) => void;
+
+/**
+ * Emits items of a growing array as they complete. While streaming, the last item of a
+ * partial array may still be half-written, so it is held back until a later item appears
+ * or the stream is final.
+ */
+export const createItemEmitter = <T>(emit: (item: T, index: number) => void): ItemEmitter<T> => {
+    let emitted = 0;
+
+    return (items, final) => {
+        if (!items) return;
+        const ready = final ? items.length : items.length - 1;
+        while (emitted < ready) {
+            const item = items[emitted];
+            if (item !== undefined) {
+                emit(item, emitted);
+            }
+            emitted += 1;
+        }
+    };
+};
+
+interface StructuredStreamOptions<T> {
+    sse: SSEStream;
+    task: AITask;
+    schema: z.ZodType<T>;
+    system: string;
+    prompt: string;
+    // Called with every partial object, then once more with the validated final object
+    onPartial?: (partial: DeepPartial<T>, final: boolean) => void;
+}
+
+/**
+ * Streams a structured response from the configured AI provider. Partial objects are handed to `onPartial` so
+ * handlers can emit typed events incrementally; resolves with the schema-validated result.
+ */
+export const streamStructured = async <T>({
+    sse,
+    task,
+    schema,
+    system,
+    prompt,
+    onPartial,
+}: StructuredStreamOptions<T>): Promise<T> => {
+    const result = getAIProvider().streamObject({
+        task,
+        schema,
+        system,
+        prompt,
+        signal: sse.signal,
+    });
+
+    for await (const partial of result.partialOutputStream) {
+        onPartial?.(partial, false);
+    }
+
+    const output = await result.output;
+    onPartial?.(output as DeepPartial<T>, true);
+
+    return output;
+};
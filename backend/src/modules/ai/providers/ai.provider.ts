@@ -0,0 +1,90 @@
+import { DeepPartial, ModelMessage } from "ai";
+import { z } from "zod";
+import { google } from "@ai-sdk/google";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { env } from "../../../config/env.config";
+import { createLLMProvider } from "./llm.provider";
+import { ruleBasedProvider } from "./rule-based.provider";
+
+// What each AI endpoint is asking for. LLM providers only need the prompt,
+// but the rule-based provider works from these structured inputs instead.
+export type AITask =
+    | {
+        type: "itinerary";
+        request: string;
+        preferences?: {
+            travelStyle?: "relaxed" | "packed" | "balanced";
+            interests?: string[];
+            budgetPriority?: string;
+            avoidCrowds?: boolean;
+        };
+    }
+    | {
+        type: "suggestions";
+        cityId: string;
+        excludeActivityIds: string[];
+        budget?: number;
+        interests?: string[];
+    }
+    | { type: "route"; dayId: string }
+    | { type: "budget"; tripId: string; currency: string }
+    | { type: "enhance"; dayId: string; instruction: string }
+    | { type: "chat"; tripId?: string };
+
+export interface StructuredRequest<T> {
+    task: AITask;
+    schema: z.ZodType<T>;
+    system: string;
+    prompt: string;
+    signal?: AbortSignal;
+}
+
+export interface StructuredStream<T> {
+    partialOutputStream: AsyncIterable<DeepPartial<T>>;
+    output: PromiseLike<T>;
+}
+
+export interface ChatRequest {
+    task: Extract<AITask, { type: "chat" }>;
+    system: string;
+    messages: ModelMessage[];
+    signal?: AbortSignal;
+}
+
+export interface AIProvider {
+    name: string;
+    streamObject: <T>(request: StructuredRequest<T>) => StructuredStream<T>;
+    streamChat: (request: ChatRequest) => AsyncIterable<string>;
+}
+
+// Providers selectable through AI_PROVIDER; AI_MODEL overrides the default model
+const providers: Record<string, () => AIProvider> = {
+    gemini: () =>
+        createLLMProvider("gemini", google(env.AI_MODEL || "gemini-1.5-flash")),
+    "openai-compatible": () =>
+        createLLMProvider(
+            "openai-compatible",
+            createOpenAICompatible({
+                name: "openai-compatible",
+                baseURL: env.AI_BASE_URL,
+                apiKey: env.AI_API_KEY || undefined,
+                supportsStructuredOutputs: true,
+            })(env.AI_MODEL || "llama3.1")
+        ),
+    "rule-based": () => ruleBasedProvider,
+};
+
+let activeProvider: AIProvider | undefined;
+
+export const getAIProvider = (): AIProvider => {
+    if (!activeProvider) {
+        const factory = providers[env.AI_PROVIDER];
+        if (!factory) {
+            throw new Error(
+                `Unknown AI_PROVIDER "${env.AI_PROVIDER}". Expected one of: ${Object.keys(providers).join(", ")}`
+            );
+        }
+        activeProvider = factory();
+    }
+    return activeProvider;
+};
@@ -0,0 +1,30 @@
+import { streamText, Output, LanguageModel, DeepPartial } from "ai";
+import type { AIProvider, StructuredRequest } from "./ai.provider";
+
+// Provider backed by an AI SDK language model (Gemini, OpenAI-compatible servers, ...)
+export const createLLMProvider = (name: string, model: LanguageModel): AIProvider => ({
+    name,
+
+    streamObject: <T>({ schema, system, prompt, signal }: StructuredRequest<T>) => {
+        const result = streamText({
+            model,
+            system,
+            prompt,
+            output: Output.object({ schema }),
+            abortSignal: signal,
+        });
+
+        return {
+            partialOutputStream: result.partialOutputStream as AsyncIterable<DeepPartial<T>>,
+            output: result.output as PromiseLike<T>,
+        };
+    },
+
+    streamChat: ({ system, messages, signal }) =>
+        streamText({
+            model,
+            system,
+            messages,
+            abortSignal: signal,
+        }).textStream,
+});
@@ -0,0 +1,352 @@
+import { DeepPartial } from "ai";
+import { z } from "zod";
+import prisma from "../../../config/db.config";
+import { dateToMinutes, minutesToTime } from "../../../utils/time.util";
+import { buildRouteStops, dayStartMinutes } from "../../itinerary/itinerary.service";
+import { optimizeRoute, scheduleRoute } from "../../itinerary/itinerary.optimizer";
+import { travelSpeedsKmh } from "../../../config/travel.config";
+import { buildBudgetSummary, listActivityCosts } from "../../budget/budget.service";
+import { createCurrencyConverter } from "../../currency/currency.service";
+import type { AIProvider, AITask, StructuredStream } from "./ai.provider";
+
+// Offline provider: builds every AI answer from the City/Activity tables with fixed rules,
+// so the AI routes work without a model and always return the same result for the same data.
+
+const DAY_START = 9 * 60;
+const DAY_END = 21 * 60;
+const BUFFER_MINUTES = 30;
+const ACTIVITIES_PER_DAY = { relaxed: 2, balanced: 3, packed: 4 } as const;
+
+type ActivityRow = Awaited<ReturnType<typeof prisma.activity.findMany>>[number];
+
+type TaskOf<K extends AITask["type"]> = Extract<AITask, { type: K }>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const matchesInterest = (activity: ActivityRow, interests: string[] = []) =>
+    interests.find((interest) => {
+        const needle = interest.toLowerCase();
+        return (
+            activity.category.toLowerCase().includes(needle) ||
+            activity.tags.some((tag) => tag.toLowerCase().includes(needle))
+        );
+    });
+
+// Highest rated first, interest matches ahead of everything else; name breaks ties
+const rankActivities = (activities: ActivityRow[], interests?: string[]) =>
+    [...activities].sort(
+        (a, b) =>
+            Number(Boolean(matchesInterest(b, interests))) -
+                Number(Boolean(matchesInterest(a, interests))) ||
+            (b.rating ?? 0) - (a.rating ?? 0) ||
+            a.name.localeCompare(b.name)
+    );
+
+const buildItinerary = async (task: TaskOf<"itinerary">) => {
+    const cities = await prisma.city.findMany({
+        include: { activities: true },
+        orderBy: [{ popularityScore: "desc" }, { name: "asc" }],
+    });
+
+    const request = task.request.toLowerCase();
+    const mentioned = cities.filter(
+        (city) =>
+            request.includes(city.name.toLowerCase()) ||
+            request.includes(city.country.toLowerCase())
+    );
+    const picked = mentioned.length ? mentioned : cities.slice(0, 1);
+
+    if (!picked.length) {
+        throw new Error("No cities available to build an itinerary from");
+    }
+
+    const requestedDays = Number(request.match(/(\d+)\s*-?\s*days?/)?.[1] ?? 3);
+    const dayCount = Math.min(Math.max(requestedDays, 1), 14);
+    const perDay = ACTIVITIES_PER_DAY[task.preferences?.travelStyle ?? "balanced"];
+    const used = new Set<string>();
+
+    const days = Array.from({ length: dayCount }, (_, index) => {
+        const city = picked[Math.floor((index * picked.length) / dayCount)];
+        const available = rankActivities(
+            city.activities.filter((a) => !used.has(a.id)),
+            task.preferences?.interests
+        );
+
+        let clock = DAY_START;
+        const activities = [];
+        for (const activity of available) {
+            if (activities.length >= perDay || clock + activity.durationMinutes > DAY_END) break;
+            used.add(activity.id);
+            activities.push({
+                name: activity.name,
+                startTime: minutesToTime(clock),
+                endTime: minutesToTime(clock + activity.durationMinutes),
+                estimatedCost: Number(activity.estimatedCost),
+                category: activity.category,
+                description: activity.description ?? undefined,
+            });
+            clock += activity.durationMinutes + BUFFER_MINUTES;
+        }
+
+        return {
+            dayNumber: index + 1,
+            city: { name: city.name, country: city.country },
+            activities,
+            dailyCost: Number(city.avgDailyCost ?? 0),
+        };
+    });
+
+    const activityTotal = days
+        .flatMap((day) => day.activities)
+        .reduce((sum, a) => sum + a.estimatedCost, 0);
+    const dailyTotal = days.reduce((sum, day) => sum + day.dailyCost, 0);
+
+    return {
+        tripName: `${dayCount}-day ${picked.map((c) => c.name).join(" & ")} trip`,
+        days: days.map(({ dailyCost, ...day }) => day),
+        totalEstimatedCost: round2(activityTotal + dailyTotal),
+        insights: picked
+            .filter((city) => city.avgDailyCost)
+            .map(
+                (city) =>
+                    `Plan for about ${Number(city.avgDailyCost)}${city.currency ? ` ${city.currency}` : ""} ` +
+                    `per day in ${city.name} for food, lodging and local transport.`
+            ),
+    };
+};
+
+const buildSuggestions = async (task: TaskOf<"suggestions">) => {
+    const activities = await prisma.activity.findMany({
+        where: {
+            cityId: task.cityId,
+            id: { notIn: task.excludeActivityIds },
+            ...(task.budget !== undefined && { estimatedCost: { lte: task.budget } }),
+        },
+    });
+
+    const suggestions = activities
+        .map((activity) => {
+            const interest = matchesInterest(activity, task.interests);
+            const fitScore = Math.min(1, (activity.rating ?? 2.5) / 5 + (interest ? 0.2 : 0));
+            const reason =
+                `${activity.category.replace("_", " ").toLowerCase()} rated ${activity.rating ?? "n/a"}/5, ` +
+                `about ${Number(activity.estimatedCost)} for ${activity.durationMinutes} minutes` +
+                (interest ? `, matches your interest in ${interest}` : "");
+            return { name: activity.name, reason, fitScore: round2(fitScore) };
+        })
+        .sort((a, b) => b.fitScore - a.fitScore || a.name.localeCompare(b.name))
+        .slice(0, 5);
+
+    return { suggestions };
+};
+
+const buildRoute = async (task: TaskOf<"route">) => {
+    const day = await prisma.itinerary.findUniqueOrThrow({
+        where: { id: task.dayId },
+        include: {
+            activities: { include: { activity: true }, orderBy: { orderIndex: "asc" } },
+        },
+    });
+
+    const stops = buildRouteStops(day);
+    const options = { dayStart: dayStartMinutes(day.activities), speedKmh: travelSpeedsKmh.walk };
+    const before = scheduleRoute(stops, options);
+    const after = optimizeRoute(stops, options);
+    const savedKm = Math.max(0, before.distanceKm - after.distanceKm);
+
+    return {
+        optimizedOrder: after.stops.map((stop) => stop.name),
+        timeSavedMinutes: Math.max(0, before.travelMinutes - after.travelMinutes),
+        reasoning:
+            `Orders the stops to keep walking short while fitting opening hours, ` +
+            `cutting about ${savedKm.toFixed(1)} km of walking.` +
+            (after.violations.length
+                ? ` Still unresolved: ${after.violations.map((v) => `${v.name} (${v.reason.toLowerCase()})`).join(", ")}.`
+                : ""),
+    };
+};
+
+const buildBudgetAdvice = async (task: TaskOf<"budget">) => {
+    const trip = await prisma.trip.findUniqueOrThrow({ where: { id: task.tripId } });
+    const converter = await createCurrencyConverter(task.currency);
+    const [summary, activities] = await Promise.all([
+        buildBudgetSummary(trip, task.currency),
+        listActivityCosts(trip.id, converter),
+    ]);
+    const amount = (value: number) => `${round2(value)} ${summary.currency}`;
+
+    const activityTotal = summary.estimatedActivityCosts;
+    const totalBudget = summary.totalBudget;
+    const overspent = summary.breakdown.filter((b) => b.isOverBudget);
+
+    let healthScore = 100 - overspent.length * 10;
+    if (totalBudget && activityTotal > totalBudget) {
+        healthScore -= Math.round(((activityTotal - totalBudget) / totalBudget) * 100);
+    }
+    healthScore = Math.min(100, Math.max(0, healthScore));
+
+    const savingTips = [...activities]
+        .sort((a, b) => b.cost - a.cost)
+        .slice(0, 3)
+        .filter((a) => a.cost > 0)
+        .map((a) => `${a.name} is one of your biggest costs (${amount(a.cost)}); look for a cheaper slot or alternative.`);
+
+    const recommendations = [
+        ...overspent.map(
+            (b) =>
+                `${b.category} is over its allocation by ${amount(b.spent - b.allocated)}; move funds from an underused category.`
+        ),
+        ...(summary.breakdown.length === 0
+            ? ["Set category allocations so spending can be tracked against a plan."]
+            : []),
+        ...(totalBudget === null ? ["Set a total budget for the trip."] : []),
+        ...(summary.unconvertedCurrencies.length
+            ? [`Amounts in ${summary.unconvertedCurrencies.join(", ")} are left out: import exchange rates for them.`]
+            : []),
+    ];
+
+    const rateDates = [...new Set([...summary.rates, ...converter.appliedRates()].map((r) => r.rateDate))].sort();
+    const assessment =
+        (totalBudget === null
+            ? `Planned activities cost ${amount(activityTotal)}; no total budget is set yet.`
+            : `Planned activities cost ${amount(activityTotal)} of a ${amount(totalBudget)} budget` +
+            (overspent.length ? `, with ${overspent.length} categories over allocation.` : ".")) +
+        (rateDates.length ? ` Converted with exchange rates from ${rateDates.join(", ")}.` : "");
+
+    return { healthScore, assessment, savingTips, recommendations };
+};
+
+// Instruction keywords -> preferred category and time window for /ai/enhance-day
+const ENHANCE_RULES: Array<{ pattern: RegExp; category?: string; window?: [number, number] }> = [
+    { pattern: /dinner|supper/, category: "FOOD_TOUR", window: [18 * 60, 22 * 60] },
+    { pattern: /lunch/, category: "FOOD_TOUR", window: [12 * 60, 15 * 60] },
+    { pattern: /breakfast/, category: "FOOD_TOUR", window: [7 * 60, 10 * 60] },
+    { pattern: /food|eat|restaurant/, category: "FOOD_TOUR" },
+    { pattern: /night|bar|club|drinks/, category: "NIGHTLIFE", window: [19 * 60, 24 * 60 - 1] },
+    { pattern: /evening/, window: [17 * 60, 22 * 60] },
+    { pattern: /afternoon/, window: [12 * 60, 17 * 60] },
+    { pattern: /morning/, window: [8 * 60, 12 * 60] },
+    { pattern: /shop/, category: "SHOPPING" },
+    { pattern: /museum|culture|history|art/, category: "CULTURAL" },
+    { pattern: /relax|spa|rest/, category: "RELAXATION" },
+    { pattern: /adventure|hike|outdoor/, category: "ADVENTURE" },
+    { pattern: /sight|landmark|view/, category: "SIGHTSEEING" },
+];
+
+const buildDayEnhancement = async (task: TaskOf<"enhance">) => {
+    const day = await prisma.itinerary.findUniqueOrThrow({
+        where: { id: task.dayId },
+        include: { city: { include: { activities: true } }, activities: true },
+    });
+
+    const instruction = task.instruction.toLowerCase();
+    const rules = ENHANCE_RULES.filter((rule) => rule.pattern.test(instruction));
+    const categories = rules.map((r) => r.category).filter(Boolean);
+    const [windowStart, windowEnd] = rules.find((r) => r.window)?.window ?? [DAY_START, DAY_END];
+
+    const busy = day.activities
+        .map((ia) => [dateToMinutes(ia.startTime), dateToMinutes(ia.endTime)])
+        .sort((a, b) => a[0] - b[0]);
+    const scheduled = new Set(day.activities.map((ia) => ia.activityId));
+
+    const candidates = [...day.city.activities]
+        .filter((a) => !scheduled.has(a.id))
+        .sort(
+            (a, b) =>
+                Number(categories.includes(b.category)) - Number(categories.includes(a.category)) ||
+                (b.rating ?? 0) - (a.rating ?? 0) ||
+                a.name.localeCompare(b.name)
+        );
+
+    // Earliest start inside the window where the activity fits around busy slots
+    const findSlot = (duration: number) => {
+        let start = windowStart;
+        for (const [busyStart, busyEnd] of busy) {
+            if (start + duration <= busyStart) break;
+            start = Math.max(start, busyEnd);
+        }
+        return start + duration <= windowEnd ? start : null;
+    };
+
+    const suggestions = [];
+    for (const activity of candidates) {
+        if (suggestions.length >= 3) break;
+        const start = findSlot(activity.durationMinutes);
+        if (start === null) continue;
+
+        const end = start + activity.durationMinutes;
+        busy.push([start, end]);
+        busy.sort((a, b) => a[0] - b[0]);
+        suggestions.push({
+            name: activity.name,
+            startTime: minutesToTime(start),
+            endTime: minutesToTime(end),
+            reason: categories.includes(activity.category)
+                ? `Fits your request and a free ${activity.durationMinutes}-minute slot.`
+                : `Well-rated ${activity.category.replace("_", " ").toLowerCase()} that fits a free slot.`,
+        });
+    }
+
+    return { suggestions };
+};
+
+const builders: { [K in Exclude<AITask["type"], "chat">]: (task: TaskOf<K>) => Promise<unknown> } = {
+    itinerary: buildItinerary,
+    suggestions: buildSuggestions,
+    route: buildRoute,
+    budget: buildBudgetAdvice,
+    enhance: buildDayEnhancement,
+};
+
+const buildChatReply = async (task: TaskOf<"chat">) => {
+    const intro =
+        "I'm running in offline mode, so I can't hold an open conversation, but the itinerary, " +
+        "suggestion, route and budget tools all work from our destination data.";
+
+    if (!task.tripId) {
+        return intro;
+    }
+
+    const trip = await prisma.trip.findUnique({
+        where: { id: task.tripId },
+        include: { itineraries: { include: { city: true }, orderBy: { dayNumber: "asc" } } },
+    });
+    if (!trip) {
+        return intro;
+    }
+
+    const cities = [...new Set(trip.itineraries.map((it) => it.city.name))];
+    return (
+        `${intro} Your trip "${trip.name}" runs ${trip.startDate.toDateString()} to ${trip.endDate.toDateString()}` +
+        (cities.length ? ` and visits ${cities.join(", ")}.` : " and has no days planned yet.")
+    );
+};
+
+export const ruleBasedProvider: AIProvider = {
+    name: "rule-based",
+
+    streamObject: <T>({ task, schema }: { task: AITask; schema: z.ZodType<T> }): StructuredStream<T> => {
+        if (task.type === "chat") {
+            throw new Error("Chat is not a structured task");
+        }
+
+        const build = builders[task.type] as (task: AITask) => Promise<unknown>;
+        const output = build(task).then((raw) => schema.parse(raw));
+        // Failures surface through partialOutputStream; avoid an unhandled rejection here
+        output.catch(() => undefined);
+
+        return {
+            partialOutputStream: (async function* () {
+                yield (await output) as DeepPartial<T>;
+            })(),
+            output,
+        };
+    },
+
+    streamChat: async function* ({ task }) {
+        const reply = await buildChatReply(task);
+        for (const word of reply.split(/(?<= )/)) {
+            yield word;
+        }
+    },
+};
@@ -1,29 +1,68 @@
+import { randomUUID } from "crypto";
 import { Router, Request, Response } from "express";
+import { IdentityProvider } from "@prisma/client";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import prisma from "../../config/db.config";
-import { env } from "../../config/env.config";
 import { sendSuccess, sendError } from "../../utils/response.util";
 import { validate } from "../../middleware/validate.middleware";
-import { registerSchema, loginSchema } from "../../utils/validation.util";
+import {
+    registerSchema,
+    loginSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    verifyEmailSchema,
+    identitySignInSchema,
+} from "../../utils/validation.util";
 import { asyncHandler } from "../../middleware/error.middleware";
 import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { rateLimit, emailKey, setRetryAfter } from "../../middleware/rateLimit.middleware";
+import { linkPendingInvitations } from "../sharing/invitations.service";
+import { createSession, revokeSessions, rotateSession, SessionClient } from "./sessions.service";
+import { consumeUserToken, sendPasswordResetEmail, sendVerificationEmail } from "./user-tokens.service";
+import { verifyIdToken } from "./identity.providers";
+import { signInWithIdentity } from "./identity.service";
+import {
+    activeLockout,
+    recordSecurityEvent,
+    registerFailedLogin,
+    registerSuccessfulLogin,
+} from "../security/security.service";
 
 const router = Router();
 
-// Generate tokens
-const generateTokens = (userId: string, email: string, role: string) => {
-    const accessToken = jwt.sign({ userId, email, role }, env.JWT_SECRET, {
-        expiresIn: "15m",
-    });
+const sessionClient = (req: Request): SessionClient => ({
+    userAgent: req.header("user-agent"),
+    ipAddress: req.ip,
+});
+
+const MINUTE = 60 * 1000;
 
-    const refreshToken = jwt.sign(
-        { userId, email, role, type: "refresh" },
-        env.REFRESH_TOKEN_SECRET,
-        { expiresIn: "7d" }
-    );
+// Hash of a random password nobody knows, compared against when there is no real hash
+const UNUSABLE_PASSWORD_HASH = bcrypt.hashSync(randomUUID(), 12);
 
-    return { accessToken, refreshToken };
+// Per client IP, and per account where the request names one
+const limits = {
+    login: [
+        rateLimit({ name: "login-ip", windowMs: 15 * MINUTE, max: 20 }),
+        rateLimit({ name: "login-account", windowMs: 15 * MINUTE, max: 10, key: emailKey }),
+    ],
+    register: [rateLimit({ name: "register-ip", windowMs: 60 * MINUTE, max: 5 })],
+    identity: [rateLimit({ name: "identity-ip", windowMs: 15 * MINUTE, max: 20 })],
+    refresh: [rateLimit({ name: "refresh-ip", windowMs: 15 * MINUTE, max: 60 })],
+    forgotPassword: [
+        rateLimit({ name: "forgot-password-ip", windowMs: 60 * MINUTE, max: 10 }),
+        rateLimit({ name: "forgot-password-account", windowMs: 60 * MINUTE, max: 3, key: emailKey }),
+    ],
+    // Guessing an emailed token
+    token: [rateLimit({ name: "token-ip", windowMs: 15 * MINUTE, max: 10 })],
+    resendVerification: [
+        rateLimit({
+            name: "resend-verification-user",
+            windowMs: 60 * MINUTE,
+            max: 3,
+            key: (req) => (req as AuthRequest).user?.id,
+        }),
+    ],
 };
 
 /**
@@ -32,7 +71,9 @@ const generateTokens = (userId: string, email: string, role: string) => {
  *   post:
  *     tags: [Auth]
  *     summary: Register a new user
- *     description: Creates a new user account and returns JWT tokens
+ *     description: |
+ *       Creates a new user account and returns JWT tokens. A link to confirm the email address
+ *       is sent to it; see /auth/verify-email.
  *     requestBody:
  *       required: true
  *       content:
@@ -48,9 +89,12 @@ const generateTokens = (userId: string, email: string, role: string) => {
  *               $ref: '#/components/schemas/AuthResponse'
  *       409:
  *         description: Email already registered
+ *       429:
+ *         description: Too many requests; see the Retry-After header
  */
 router.post(
     "/register",
+    limits.register,
     validate(registerSchema),
     asyncHandler(async (req: Request, res: Response) => {
         const { email, password, name } = req.body;
@@ -82,11 +126,17 @@ router.post(
                 language: true,
                 currency: true,
                 role: true,
+                emailVerifiedAt: true,
                 createdAt: true,
             },
         });
 
-        const tokens = generateTokens(user.id, user.email, user.role);
+        // The account works without it, so a mail failure does not fail the registration
+        await sendVerificationEmail(user).catch((error) =>
+            console.error(`Failed to send verification email to user ${user.id}:`, error)
+        );
+
+        const tokens = await createSession(user, sessionClient(req));
 
         return sendSuccess(
             res,
@@ -106,7 +156,12 @@ router.post(
  *   post:
  *     tags: [Auth]
  *     summary: Login user
- *     description: Authenticates user and returns JWT tokens
+ *     description: |
+ *       Authenticates user and returns JWT tokens. Requests are limited per IP address and per
+ *       account. Five failed logins in a row lock the account for a minute, doubling with each
+ *       further failure up to an hour. A wrong password is always a plain 401; the lockout is
+ *       only reported once the right password is given. Attempts are recorded in the user's
+ *       security log.
  *     requestBody:
  *       required: true
  *       content:
@@ -122,9 +177,12 @@ router.post(
  *               $ref: '#/components/schemas/AuthResponse'
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many requests, or the right password for a locked account; see the Retry-After header
  */
 router.post(
     "/login",
+    limits.login,
     validate(loginSchema),
     asyncHandler(async (req: Request, res: Response) => {
         const { email, password } = req.body;
@@ -134,18 +192,43 @@ router.post(
             where: { email },
         });
 
+        // Unknown emails and accounts without a password (created through Google or Apple)
+        // are compared against a dummy hash, so the response takes as long as a real check
+        const isValidPassword =
+            (await bcrypt.compare(password, user?.passwordHash ?? UNUSABLE_PASSWORD_HASH)) && !!user?.passwordHash;
+
         if (!user) {
             return sendError(res, "Invalid credentials", 401);
         }
 
-        // Verify password
-        const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+        const client = sessionClient(req);
+        const lockedUntil = activeLockout(user);
 
+        // A wrong password gets the same answer whether or not the account exists or is locked;
+        // only someone who knows the password learns about a lockout
         if (!isValidPassword) {
+            if (lockedUntil) {
+                await recordSecurityEvent(user.id, "LOGIN_BLOCKED", client);
+            } else {
+                await registerFailedLogin(user.id, client);
+            }
             return sendError(res, "Invalid credentials", 401);
         }
 
-        const tokens = generateTokens(user.id, user.email, user.role);
+        if (lockedUntil) {
+            await recordSecurityEvent(user.id, "LOGIN_BLOCKED", client);
+            setRetryAfter(res, lockedUntil);
+            return sendError(res, "Account temporarily locked after too many failed logins", 429);
+        }
+
+        await registerSuccessfulLogin(user.id, client, "password");
+
+        // Invitations sent to this address before it had an account, once it is proven theirs
+        if (user.emailVerifiedAt) {
+            await linkPendingInvitations(user.id, user.email);
+        }
+
+        const tokens = await createSession(user, client);
 
         return sendSuccess(res, {
             user: {
@@ -156,19 +239,153 @@ router.post(
                 language: user.language,
                 currency: user.currency,
                 role: user.role,
+                emailVerifiedAt: user.emailVerifiedAt,
             },
             ...tokens,
         });
     })
 );
 
+// Signs in with a Google or Apple ID token, linking or creating the account as needed
+const identitySignIn = (provider: IdentityProvider) =>
+    asyncHandler(async (req: Request, res: Response) => {
+        const { idToken, name } = req.body;
+
+        const verified = await verifyIdToken(provider, idToken);
+        if (!verified.ok) {
+            return sendError(res, verified.reason, verified.status);
+        }
+
+        const result = await signInWithIdentity(provider, verified.claims, name);
+        if (!result.ok) {
+            return sendError(res, result.reason, result.status);
+        }
+
+        const { user, created } = result;
+        if (user.emailVerifiedAt) {
+            await linkPendingInvitations(user.id, user.email);
+        }
+
+        const client = sessionClient(req);
+        await registerSuccessfulLogin(user.id, client, provider.toLowerCase());
+
+        const tokens = await createSession(user, client);
+
+        return sendSuccess(
+            res,
+            {
+                user: {
+                    id: user.id,
+                    email: user.email,
+                    name: user.name,
+                    avatarUrl: user.avatarUrl,
+                    language: user.language,
+                    currency: user.currency,
+                    role: user.role,
+                    emailVerifiedAt: user.emailVerifiedAt,
+                },
+                ...tokens,
+            },
+            created ? "Registration successful" : "Login successful",
+            created ? 201 : 200
+        );
+    });
+
+/**
+ * @openapi
+ * /api/v1/auth/google:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sign in with Google
+ *     description: |
+ *       Exchanges a Google ID token for JWT tokens. A Google account seen before signs in its
+ *       user. A new one is linked to the account with the same email when Google has verified
+ *       the address, or else gets a new account without a password.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [idToken]
+ *             properties:
+ *               idToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       201:
+ *         description: Account created
+ *       400:
+ *         description: The token has no email address
+ *       401:
+ *         description: Invalid ID token
+ *       409:
+ *         description: The email belongs to an account this identity cannot be linked to
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ *       503:
+ *         description: Google sign-in is not configured
+ */
+router.post("/google", limits.identity, validate(identitySignInSchema), identitySignIn("GOOGLE"));
+
+/**
+ * @openapi
+ * /api/v1/auth/apple:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sign in with Apple
+ *     description: |
+ *       Exchanges an Apple ID token for JWT tokens, linking or creating the account like
+ *       /auth/google. Apple leaves the user's name out of the token, so pass the one it gave
+ *       the app on first sign-in as `name`.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [idToken]
+ *             properties:
+ *               idToken:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       201:
+ *         description: Account created
+ *       400:
+ *         description: The token has no email address
+ *       401:
+ *         description: Invalid ID token
+ *       409:
+ *         description: The email belongs to an account this identity cannot be linked to
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ *       503:
+ *         description: Apple sign-in is not configured
+ */
+router.post("/apple", limits.identity, validate(identitySignInSchema), identitySignIn("APPLE"));
+
 /**
  * @openapi
  * /api/v1/auth/refresh:
  *   post:
  *     tags: [Auth]
  *     summary: Refresh access token
- *     description: Returns new access and refresh tokens
+ *     description: |
+ *       Returns new access and refresh tokens. Each refresh token works once: using one that
+ *       has already been exchanged signs the session out everywhere it is in use.
  *     requestBody:
  *       required: true
  *       content:
@@ -184,9 +401,12 @@ router.post(
  *         description: Tokens refreshed
  *       401:
  *         description: Invalid refresh token
+ *       429:
+ *         description: Too many requests; see the Retry-After header
  */
 router.post(
     "/refresh",
+    limits.refresh,
     asyncHandler(async (req: Request, res: Response) => {
         const { refreshToken } = req.body;
 
@@ -194,43 +414,242 @@ router.post(
             return sendError(res, "Refresh token required", 400);
         }
 
-        try {
-            const decoded = jwt.verify(refreshToken, env.REFRESH_TOKEN_SECRET) as {
-                userId: string;
-                email: string;
-                role: string;
-                type: string;
-            };
-
-            if (decoded.type !== "refresh") {
-                return sendError(res, "Invalid token type", 401);
-            }
+        const result = await rotateSession(refreshToken, sessionClient(req));
+        if (!result.ok) {
+            return sendError(res, result.reason, 401);
+        }
 
-            // Verify user still exists
-            const user = await prisma.user.findUnique({
-                where: { id: decoded.userId },
-            });
+        return sendSuccess(res, result.tokens);
+    })
+);
 
-            if (!user) {
-                return sendError(res, "User not found", 401);
-            }
+/**
+ * @openapi
+ * /api/v1/auth/forgot-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Request a password reset
+ *     description: |
+ *       Emails a single-use link to reset the password, valid for an hour. The response is the
+ *       same whether or not the address has an account.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ */
+router.post(
+    "/forgot-password",
+    limits.forgotPassword,
+    validate(forgotPasswordSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { email } = req.body;
+
+        const user = await prisma.user.findUnique({
+            where: { email },
+            select: { id: true, email: true, name: true },
+        });
+
+        // Failures are only logged so the response never reveals whether the account exists
+        if (user) {
+            await sendPasswordResetEmail(user).catch((error) =>
+                console.error(`Failed to send password reset email to user ${user.id}:`, error)
+            );
+        }
+
+        return sendSuccess(res, null, "If an account exists for that email, a reset link has been sent");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/auth/reset-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Reset password
+ *     description: |
+ *       Sets a new password with the token from a reset email. The token works once, and every
+ *       session of the account is signed out.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, newPassword]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid or expired reset token
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ */
+router.post(
+    "/reset-password",
+    limits.token,
+    validate(resetPasswordSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { token, newPassword } = req.body;
+
+        const userId = await consumeUserToken(token, "PASSWORD_RESET");
+        if (!userId) {
+            return sendError(res, "Invalid or expired reset token", 400);
+        }
+
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+        const passwordHash = await bcrypt.hash(newPassword, 12);
 
-            const tokens = generateTokens(user.id, user.email, user.role);
+        // Receiving the email also proves the address belongs to the user, so any lockout is lifted
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                passwordHash,
+                emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+            },
+        });
+        await recordSecurityEvent(userId, "PASSWORD_RESET", sessionClient(req));
+        if (!user.emailVerifiedAt) {
+            await linkPendingInvitations(user.id, user.email);
+        }
+
+        await revokeSessions({ userId }, "PASSWORD_RESET");
 
-            return sendSuccess(res, tokens);
+        return sendSuccess(res, null, "Password reset successfully");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Verify email address
+ *     description: |
+ *       Confirms the account's email address with the token from the verification email. Share
+ *       invitations sent to the address become visible to the account from then on.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid or expired verification token
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ */
+router.post(
+    "/verify-email",
+    limits.token,
+    validate(verifyEmailSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = await consumeUserToken(req.body.token, "EMAIL_VERIFICATION");
+        if (!userId) {
+            return sendError(res, "Invalid or expired verification token", 400);
+        }
+
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: { emailVerifiedAt: new Date() },
+        });
+        await linkPendingInvitations(user.id, user.email);
+
+        return sendSuccess(res, { emailVerifiedAt: user.emailVerifiedAt }, "Email verified");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/auth/resend-verification:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Resend the verification email
+ *     description: Sends a new verification link; earlier ones stop working
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       409:
+ *         description: Email already verified
+ *       429:
+ *         description: Too many requests; see the Retry-After header
+ *       502:
+ *         description: The email could not be sent
+ */
+router.post(
+    "/resend-verification",
+    authMiddleware,
+    limits.resendVerification,
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: req.user!.id },
+            select: { id: true, email: true, name: true, emailVerifiedAt: true },
+        });
+
+        if (user.emailVerifiedAt) {
+            return sendError(res, "Email already verified", 409);
+        }
+
+        try {
+            await sendVerificationEmail(user);
         } catch (error) {
-            return sendError(res, "Invalid refresh token", 401);
+            console.error(`Failed to send verification email to user ${user.id}:`, error);
+            return sendError(res, "Could not send the verification email", 502);
         }
+
+        return sendSuccess(res, null, "Verification email sent");
     })
 );
 
-// POST /auth/logout (just for client-side token invalidation acknowledgment)
+/**
+ * @openapi
+ * /api/v1/auth/logout:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Logout
+ *     description: Revokes the current session, so its refresh token and access tokens stop working
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out
+ */
 router.post(
     "/logout",
     authMiddleware,
     asyncHandler(async (req: AuthRequest, res: Response) => {
-        // In a production app, you might want to blacklist the token
-        // For now, we just acknowledge the logout
+        if (req.user!.sessionId) {
+            await revokeSessions({ id: req.user!.sessionId }, "LOGOUT");
+        }
+
         return sendSuccess(res, null, "Logged out successfully");
     })
 );
@@ -0,0 +1,93 @@
+import { Router, Response } from "express";
+import { IdentityProvider } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/users/me/identities:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List my sign-in methods
+ *     description: The Google and Apple accounts linked to mine, and whether I also have a password
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked identities and `hasPassword`
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: req.user!.id },
+            select: {
+                passwordHash: true,
+                identities: {
+                    select: { provider: true, email: true, createdAt: true, lastUsedAt: true },
+                    orderBy: { createdAt: "asc" },
+                },
+            },
+        });
+
+        return sendSuccess(res, { hasPassword: user.passwordHash !== null, identities: user.identities });
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/identities/{provider}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Unlink a sign-in method
+ *     description: Unlinks a Google or Apple account. The last way to sign in cannot be removed; set a password first.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [google, apple]
+ *     responses:
+ *       200:
+ *         description: Identity unlinked
+ *       404:
+ *         description: No identity from this provider is linked
+ *       409:
+ *         description: It is the only way to sign in to the account
+ */
+router.delete(
+    "/:provider",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const provider = req.params.provider.toUpperCase() as IdentityProvider;
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: req.user!.id },
+            select: { passwordHash: true, identities: { select: { id: true, provider: true } } },
+        });
+
+        const identity = user.identities.find((linked) => linked.provider === provider);
+        if (!identity) {
+            return sendError(res, "Identity not found", 404);
+        }
+
+        if (!user.passwordHash && user.identities.length === 1) {
+            return sendError(res, "This is the only way to sign in to your account; set a password first", 409);
+        }
+
+        await prisma.userIdentity.delete({ where: { id: identity.id } });
+
+        return sendSuccess(res, null, "Identity unlinked");
+    })
+);
+
+export default router;
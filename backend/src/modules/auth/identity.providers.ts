@@ -0,0 +1,99 @@
+import jwt from "jsonwebtoken";
+import { IdentityProvider } from "@prisma/client";
+import { env } from "../../config/env.config";
+import { getSigningKey } from "./jwks";
+
+interface IdentityProviderConfig {
+    label: string;
+    issuers: [string, ...string[]];
+    clientIds: string[];
+    jwks: string;
+}
+
+const splitList = (value: string) =>
+    value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+const PROVIDERS: Record<IdentityProvider, IdentityProviderConfig> = {
+    GOOGLE: {
+        label: "Google",
+        issuers: ["https://accounts.google.com", "accounts.google.com"],
+        clientIds: splitList(env.GOOGLE_CLIENT_IDS),
+        jwks: env.GOOGLE_JWKS,
+    },
+    APPLE: {
+        label: "Apple",
+        issuers: ["https://appleid.apple.com"],
+        clientIds: splitList(env.APPLE_CLIENT_IDS),
+        jwks: env.APPLE_JWKS,
+    },
+};
+
+// What the app uses from a verified ID token
+export interface IdentityClaims {
+    subject: string;
+    email?: string;
+    emailVerified: boolean;
+    name?: string;
+    picture?: string;
+}
+
+interface IdTokenPayload {
+    sub: string;
+    email?: string;
+    // Apple sends these as "true"/"false" strings
+    email_verified?: boolean | string;
+    name?: string;
+    picture?: string;
+}
+
+export type IdTokenResult =
+    | { ok: true; claims: IdentityClaims }
+    | { ok: false; status: 401 | 503; reason: string };
+
+/**
+ * Checks an ID token's signature against the provider's key set, and its
+ * issuer, audience and expiry, then returns the identity it asserts.
+ */
+export const verifyIdToken = async (provider: IdentityProvider, idToken: string): Promise<IdTokenResult> => {
+    const { label, issuers, clientIds, jwks } = PROVIDERS[provider];
+    if (!clientIds.length) {
+        return { ok: false, status: 503, reason: `${label} sign-in is not configured` };
+    }
+
+    const kid = jwt.decode(idToken, { complete: true })?.header.kid;
+    if (!kid) {
+        return { ok: false, status: 401, reason: `Invalid ${label} ID token` };
+    }
+
+    const key = await getSigningKey(jwks, kid);
+    if (!key) {
+        return { ok: false, status: 401, reason: `Invalid ${label} ID token` };
+    }
+
+    let payload: IdTokenPayload;
+    try {
+        payload = jwt.verify(idToken, key, {
+            algorithms: ["RS256"],
+            issuer: issuers,
+            audience: clientIds as [string, ...string[]],
+        }) as IdTokenPayload;
+    } catch {
+        return { ok: false, status: 401, reason: `Invalid ${label} ID token` };
+    }
+
+    return {
+        ok: true,
+        claims: {
+            subject: payload.sub,
+            email: payload.email?.toLowerCase(),
+            emailVerified: payload.email_verified === true || payload.email_verified === "true",
+            name: payload.name,
+            picture: payload.picture,
+        },
+    };
+};
+
+export const identityProviderLabel = (provider: IdentityProvider) => PROVIDERS[provider].label;
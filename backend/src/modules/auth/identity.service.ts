@@ -0,0 +1,82 @@
+import { IdentityProvider, User } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { IdentityClaims, identityProviderLabel } from "./identity.providers";
+import { revokeSessions } from "./sessions.service";
+
+export type IdentitySignInResult =
+    | { ok: true; user: User; created: boolean }
+    | { ok: false; status: 400 | 409; reason: string };
+
+/**
+ * Finds the user a verified external identity belongs to. An identity seen
+ * before signs in its user; a new one is linked to the account with the same
+ * email if the provider has verified that address, and otherwise gets a new
+ * account without a password.
+ */
+export const signInWithIdentity = async (
+    provider: IdentityProvider,
+    claims: IdentityClaims,
+    fallbackName?: string
+): Promise<IdentitySignInResult> => {
+    const label = identityProviderLabel(provider);
+
+    const identity = await prisma.userIdentity.findUnique({
+        where: { provider_subject: { provider, subject: claims.subject } },
+    });
+    if (identity) {
+        const { user } = await prisma.userIdentity.update({
+            where: { id: identity.id },
+            data: { lastUsedAt: new Date(), email: claims.email },
+            include: { user: true },
+        });
+        return { ok: true, user, created: false };
+    }
+
+    if (!claims.email) {
+        return { ok: false, status: 400, reason: `${label} did not share an email address` };
+    }
+
+    const existing = await prisma.user.findFirst({
+        where: { email: { equals: claims.email, mode: "insensitive" } },
+        include: { identities: { where: { provider } } },
+    });
+
+    if (existing) {
+        if (!claims.emailVerified) {
+            return {
+                ok: false,
+                status: 409,
+                reason: `An account already uses this email address, which ${label} has not verified`,
+            };
+        }
+        if (existing.identities.length) {
+            return { ok: false, status: 409, reason: `This account is linked to a different ${label} account` };
+        }
+
+        // Nobody proved they owned the address before, so a password set then is not trusted
+        // over the provider: it is cleared and its sessions signed out
+        if (!existing.emailVerifiedAt) {
+            await revokeSessions({ userId: existing.id }, "REVOKED");
+        }
+
+        const user = await prisma.user.update({
+            where: { id: existing.id },
+            data: {
+                ...(!existing.emailVerifiedAt && { emailVerifiedAt: new Date(), passwordHash: null }),
+                identities: { create: { provider, subject: claims.subject, email: claims.email } },
+            },
+        });
+        return { ok: true, user, created: false };
+    }
+
+    const user = await prisma.user.create({
+        data: {
+            email: claims.email,
+            name: claims.name ?? fallbackName ?? claims.email.split("@")[0],
+            avatarUrl: claims.picture,
+            emailVerifiedAt: claims.emailVerified ? new Date() : null,
+            identities: { create: { provider, subject: claims.subject, email: claims.email } },
+        },
+    });
+    return { ok: true, user, created: true };
+};
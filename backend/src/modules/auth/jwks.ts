@@ -0,0 +1,56 @@
+import { readFile } from "fs/promises";
+import { createPublicKey, JsonWebKeyInput, KeyObject } from "crypto";
+
+// How long a fetched key set is trusted, and how soon an unknown key id may trigger a refetch
+const JWKS_TTL_MS = 60 * 60 * 1000;
+const JWKS_REFETCH_MS = 60 * 1000;
+
+interface CachedKeySet {
+    keys: Map<string, KeyObject>;
+    loadedAt: number;
+}
+
+type Jwk = JsonWebKeyInput["key"] & { kid?: string };
+
+const cache = new Map<string, CachedKeySet>();
+
+// A key set source is an http(s) URL, or a path to a JSON file for offline use and tests
+const readKeySet = async (source: string): Promise<{ keys: Jwk[] }> => {
+    if (/^https?:\/\//.test(source)) {
+        const response = await fetch(source);
+        if (!response.ok) {
+            throw new Error(`Fetching JWKS from ${source} failed with ${response.status}`);
+        }
+        return (await response.json()) as { keys: Jwk[] };
+    }
+    return JSON.parse(await readFile(source, "utf8"));
+};
+
+const loadKeySet = async (source: string): Promise<CachedKeySet> => {
+    const { keys } = await readKeySet(source);
+    const keySet: CachedKeySet = {
+        keys: new Map(
+            keys
+                .filter((jwk) => jwk.kid)
+                .map((jwk) => [jwk.kid!, createPublicKey({ key: jwk, format: "jwk" })])
+        ),
+        loadedAt: Date.now(),
+    };
+    cache.set(source, keySet);
+    return keySet;
+};
+
+/**
+ * Finds the public key with the given id in a key set. The set is cached, and
+ * reloaded when it is stale or (providers rotate keys) the id is not in it.
+ */
+export const getSigningKey = async (source: string, kid: string): Promise<KeyObject | undefined> => {
+    let keySet = cache.get(source);
+    if (!keySet || Date.now() - keySet.loadedAt > JWKS_TTL_MS) {
+        keySet = await loadKeySet(source);
+    }
+    if (!keySet.keys.has(kid) && Date.now() - keySet.loadedAt > JWKS_REFETCH_MS) {
+        keySet = await loadKeySet(source);
+    }
+    return keySet.keys.get(kid);
+};
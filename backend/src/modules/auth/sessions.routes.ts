@@ -0,0 +1,116 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { revokeSessions } from "./sessions.service";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/users/me/sessions:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List my sessions
+ *     description: Devices currently signed in to the account, most recently used first. `current` marks this one.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of active sessions
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const sessions = await prisma.session.findMany({
+            where: { userId: req.user!.id, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: {
+                id: true,
+                userAgent: true,
+                ipAddress: true,
+                createdAt: true,
+                lastUsedAt: true,
+                expiresAt: true,
+            },
+            orderBy: { lastUsedAt: "desc" },
+        });
+
+        return sendSuccess(
+            res,
+            sessions.map((session) => ({ ...session, current: session.id === req.user!.sessionId }))
+        );
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/sessions:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Sign out all other devices
+ *     description: Revokes every session except the current one
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked; `revoked` is how many
+ */
+router.delete(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { sessionId } = req.user!;
+
+        const revoked = await revokeSessions(
+            { userId: req.user!.id, ...(sessionId && { NOT: { id: sessionId } }) },
+            "REVOKED"
+        );
+
+        return sendSuccess(res, { revoked }, "Signed out of other devices");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/sessions/{sessionId}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Sign out a device
+ *     description: Revokes one session. Revoking the current one is the same as logging out.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+    "/:sessionId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { sessionId } = req.params;
+
+        const revoked = await revokeSessions(
+            { id: sessionId, userId: req.user!.id },
+            sessionId === req.user!.sessionId ? "LOGOUT" : "REVOKED"
+        );
+
+        if (!revoked) {
+            return sendError(res, "Session not found", 404);
+        }
+
+        return sendSuccess(res, null, "Session revoked");
+    })
+);
+
+export default router;
@@ -0,0 +1,103 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { stubPrisma } from "../../test/prisma";
+import { createSession, rotateSession } from "./sessions.service";
+
+const user = { id: "user-1", email: "ana@example.com", role: "USER" };
+const client = { userAgent: "test", ipAddress: "127.0.0.1" };
+
+type SessionRow = Record<string, unknown> & { id: string; revokedAt: Date | null; expiresAt: Date };
+
+// A one-table stand-in for the sessions the service reads and writes
+let sessions: SessionRow[];
+
+const matches = (row: SessionRow, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+stubPrisma("session", {
+    create: async ({ data }) => {
+        sessions.push({ revokedAt: null, revokedReason: null, ...data });
+        return data;
+    },
+    findUnique: async ({ where }) => {
+        const row = sessions.find((session) => session.id === where.id);
+        return row && { ...row, user };
+    },
+    updateMany: async ({ where, data }) => {
+        const rows = sessions.filter((session) => matches(session, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+    },
+});
+
+const sign = async () => (await createSession(user, client)).refreshToken;
+
+describe("rotateSession", () => {
+    beforeEach(() => {
+        sessions = [];
+    });
+
+    it("swaps the refresh token for a new pair on the same session", async () => {
+        const refreshToken = await sign();
+
+        const result = await rotateSession(refreshToken, client);
+
+        assert.ok(result.ok);
+        assert.notEqual(result.tokens.refreshToken, refreshToken);
+        const payload = jwt.decode(result.tokens.accessToken) as { sid: string };
+        assert.equal(payload.sid, sessions[0].id);
+        assert.equal(sessions.length, 1);
+        assert.equal(sessions[0].revokedAt, null);
+    });
+
+    it("accepts the rotated token next time", async () => {
+        const first = await rotateSession(await sign(), client);
+        assert.ok(first.ok);
+
+        const second = await rotateSession(first.tokens.refreshToken, client);
+
+        assert.ok(second.ok);
+    });
+
+    it("revokes the session when an exchanged token comes back", async () => {
+        const refreshToken = await sign();
+        const rotated = await rotateSession(refreshToken, client);
+        assert.ok(rotated.ok);
+
+        const reused = await rotateSession(refreshToken, client);
+
+        assert.equal(reused.ok, false);
+        assert.equal(sessions[0].revokedReason, "REUSE");
+        assert.ok(sessions[0].revokedAt instanceof Date);
+        // The holder of the newer token is signed out as well
+        assert.deepEqual(await rotateSession(rotated.tokens.refreshToken, client), {
+            ok: false,
+            reason: "Session has been revoked",
+        });
+    });
+
+    it("lets only one of two simultaneous refreshes with the same token win", async () => {
+        const refreshToken = await sign();
+
+        const results = await Promise.all([rotateSession(refreshToken, client), rotateSession(refreshToken, client)]);
+
+        assert.equal(results.filter((result) => result.ok).length, 1);
+        assert.equal(sessions[0].revokedReason, "REUSE");
+    });
+
+    it("refuses expired sessions", async () => {
+        const refreshToken = await sign();
+        sessions[0].expiresAt = new Date(Date.now() - 1000);
+
+        assert.deepEqual(await rotateSession(refreshToken, client), { ok: false, reason: "Session has expired" });
+    });
+
+    it("refuses access tokens and tokens for another user's session", async () => {
+        const { accessToken, refreshToken } = await createSession(user, client);
+        assert.deepEqual(await rotateSession(accessToken, client), { ok: false, reason: "Invalid refresh token" });
+
+        sessions[0].userId = "user-2";
+        assert.deepEqual(await rotateSession(refreshToken, client), { ok: false, reason: "Session not found" });
+    });
+});
@@ -0,0 +1,140 @@
+import { createHash, randomUUID } from "crypto";
+import jwt from "jsonwebtoken";
+import { SessionRevokeReason } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { env } from "../../config/env.config";
+
+const REFRESH_TOKEN_DAYS = 7;
+
+export interface TokenUser {
+    id: string;
+    email: string;
+    role: string;
+}
+
+// Where a session was started or last refreshed from
+export interface SessionClient {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+interface RefreshTokenPayload {
+    userId: string;
+    sid: string;
+    type: string;
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+
+// Both tokens carry the session id, so a revoked session's access tokens stop working too
+const generateTokens = (user: TokenUser, sessionId: string) => {
+    const accessToken = jwt.sign({ userId: user.id, email: user.email, role: user.role, sid: sessionId }, env.JWT_SECRET, {
+        expiresIn: "15m",
+    });
+
+    // jti keeps two tokens issued in the same second from being identical
+    const refreshToken = jwt.sign(
+        { userId: user.id, email: user.email, role: user.role, type: "refresh", sid: sessionId },
+        env.REFRESH_TOKEN_SECRET,
+        { expiresIn: `${REFRESH_TOKEN_DAYS}d`, jwtid: randomUUID() }
+    );
+
+    return { accessToken, refreshToken };
+};
+
+// Starts a session for a user who just signed in and returns its first tokens
+export const createSession = async (user: TokenUser, client: SessionClient) => {
+    const id = randomUUID();
+    const tokens = generateTokens(user, id);
+
+    await prisma.session.create({
+        data: {
+            id,
+            userId: user.id,
+            tokenHash: hashToken(tokens.refreshToken),
+            userAgent: client.userAgent,
+            ipAddress: client.ipAddress,
+            expiresAt: refreshExpiry(),
+        },
+    });
+
+    return tokens;
+};
+
+export type RotateResult =
+    | { ok: true; tokens: { accessToken: string; refreshToken: string } }
+    | { ok: false; reason: string };
+
+/**
+ * Exchanges a refresh token for a new pair, retiring the old one. A token that
+ * has already been exchanged means it was copied, so the whole session is
+ * revoked and whoever holds its current token has to sign in again.
+ */
+export const rotateSession = async (refreshToken: string, client: SessionClient): Promise<RotateResult> => {
+    let payload: RefreshTokenPayload;
+    try {
+        payload = jwt.verify(refreshToken, env.REFRESH_TOKEN_SECRET) as RefreshTokenPayload;
+    } catch {
+        return { ok: false, reason: "Invalid refresh token" };
+    }
+    if (payload.type !== "refresh" || !payload.sid) {
+        return { ok: false, reason: "Invalid token type" };
+    }
+
+    const session = await prisma.session.findUnique({
+        where: { id: payload.sid },
+        include: { user: { select: { id: true, email: true, role: true } } },
+    });
+    if (!session || session.userId !== payload.userId) {
+        return { ok: false, reason: "Session not found" };
+    }
+    if (session.revokedAt) {
+        return { ok: false, reason: "Session has been revoked" };
+    }
+    if (session.expiresAt <= new Date()) {
+        return { ok: false, reason: "Session has expired" };
+    }
+
+    const tokens = generateTokens(session.user, session.id);
+
+    // Compare-and-swap on the hash, so of two refreshes with the same token only one wins
+    const { count } = await prisma.session.updateMany({
+        where: { id: session.id, tokenHash: hashToken(refreshToken), revokedAt: null },
+        data: {
+            tokenHash: hashToken(tokens.refreshToken),
+            lastUsedAt: new Date(),
+            expiresAt: refreshExpiry(),
+            userAgent: client.userAgent ?? session.userAgent,
+            ipAddress: client.ipAddress ?? session.ipAddress,
+        },
+    });
+    if (!count) {
+        await revokeSessions({ id: session.id }, "REUSE");
+        return { ok: false, reason: "Refresh token has already been used; please sign in again" };
+    }
+
+    return { ok: true, tokens };
+};
+
+// Revokes the matching sessions that are still active; returns how many there were
+export const revokeSessions = async (
+    where: { id?: string; userId?: string; NOT?: { id: string } },
+    reason: SessionRevokeReason
+) => {
+    const { count } = await prisma.session.updateMany({
+        where: { ...where, revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return count;
+};
+
+// Whether an access token's session is still signed in
+export const isSessionActive = async (sessionId: string) => {
+    const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { revokedAt: true, expiresAt: true },
+    });
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+};
@@ -0,0 +1,72 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { stubPrisma } from "../../test/prisma";
+import { consumeUserToken } from "./user-tokens.service";
+
+type TokenRow = { id: string; userId: string; purpose: string; tokenHash: string; expiresAt: Date; usedAt: Date | null };
+
+let tokens: TokenRow[];
+
+stubPrisma("userToken", {
+    findUnique: async ({ where }) => {
+        const row = tokens.find((token) => token.tokenHash === where.tokenHash);
+        return row && { ...row };
+    },
+    updateMany: async ({ where, data }) => {
+        const rows = tokens.filter((token) => token.id === where.id && token.usedAt === where.usedAt);
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+    },
+});
+
+const addToken = (token: string, minutesLeft = 60, purpose = "PASSWORD_RESET") => {
+    tokens.push({
+        id: `token-${tokens.length + 1}`,
+        userId: "user-1",
+        purpose,
+        tokenHash: createHash("sha256").update(token).digest("hex"),
+        expiresAt: new Date(Date.now() + minutesLeft * 60 * 1000),
+        usedAt: null,
+    });
+};
+
+describe("consumeUserToken", () => {
+    beforeEach(() => {
+        tokens = [];
+    });
+
+    it("returns the user once and marks the token used", async () => {
+        addToken("abc");
+
+        assert.equal(await consumeUserToken("abc", "PASSWORD_RESET"), "user-1");
+        assert.ok(tokens[0].usedAt instanceof Date);
+        assert.equal(await consumeUserToken("abc", "PASSWORD_RESET"), null);
+    });
+
+    it("lets only one of two simultaneous uses through", async () => {
+        addToken("abc");
+
+        const results = await Promise.all([
+            consumeUserToken("abc", "PASSWORD_RESET"),
+            consumeUserToken("abc", "PASSWORD_RESET"),
+        ]);
+
+        assert.deepEqual(results.sort(), ["user-1", null].sort());
+    });
+
+    it("refuses expired tokens without using them up", async () => {
+        addToken("abc", -1);
+
+        assert.equal(await consumeUserToken("abc", "PASSWORD_RESET"), null);
+        assert.equal(tokens[0].usedAt, null);
+    });
+
+    it("refuses unknown tokens and tokens meant for something else", async () => {
+        addToken("abc", 60, "EMAIL_VERIFICATION");
+
+        assert.equal(await consumeUserToken("abc", "PASSWORD_RESET"), null);
+        assert.equal(await consumeUserToken("xyz", "EMAIL_VERIFICATION"), null);
+        assert.equal(await consumeUserToken("abc", "EMAIL_VERIFICATION"), "user-1");
+    });
+});
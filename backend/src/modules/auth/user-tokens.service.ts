@@ -0,0 +1,91 @@
+import { createHash, randomBytes } from "crypto";
+import { UserTokenPurpose } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { env } from "../../config/env.config";
+import { getMailAdapter } from "../mail/mail.adapter";
+
+// How long each kind of emailed token stays valid
+const TOKEN_LIFETIME_MINUTES: Record<UserTokenPurpose, number> = {
+    PASSWORD_RESET: 60,
+    EMAIL_VERIFICATION: 48 * 60,
+};
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+/**
+ * Creates a token for the user and returns it; only its hash is kept. Earlier
+ * unused tokens for the same purpose are discarded, so only the latest email works.
+ */
+export const issueUserToken = async (userId: string, purpose: UserTokenPurpose) => {
+    const token = randomBytes(32).toString("hex");
+
+    await prisma.$transaction([
+        prisma.userToken.deleteMany({ where: { userId, purpose, usedAt: null } }),
+        prisma.userToken.create({
+            data: {
+                userId,
+                purpose,
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + TOKEN_LIFETIME_MINUTES[purpose] * 60 * 1000),
+            },
+        }),
+    ]);
+
+    return token;
+};
+
+/**
+ * Uses up a token and returns the id of the user it was issued to, or null if
+ * it is unknown, expired, already used or meant for something else.
+ */
+export const consumeUserToken = async (token: string, purpose: UserTokenPurpose): Promise<string | null> => {
+    const record = await prisma.userToken.findUnique({ where: { tokenHash: hashToken(token) } });
+    if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+        return null;
+    }
+
+    // Guarded so the same token cannot be used twice at once
+    const { count } = await prisma.userToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: new Date() },
+    });
+    return count ? record.userId : null;
+};
+
+interface MailRecipient {
+    id: string;
+    email: string;
+    name: string;
+}
+
+export const sendPasswordResetEmail = async (user: MailRecipient) => {
+    const token = await issueUserToken(user.id, "PASSWORD_RESET");
+
+    await getMailAdapter().send({
+        to: user.email,
+        subject: "Reset your Globe Trotter password",
+        text: [
+            `Hi ${user.name},`,
+            "",
+            `Someone asked to reset the password for ${user.email}. Choose a new one here within the next hour:`,
+            `${env.APP_URL}/reset-password?token=${token}`,
+            "",
+            "If it wasn't you, ignore this email; your password stays the same.",
+        ].join("\n"),
+    });
+};
+
+export const sendVerificationEmail = async (user: MailRecipient) => {
+    const token = await issueUserToken(user.id, "EMAIL_VERIFICATION");
+
+    await getMailAdapter().send({
+        to: user.email,
+        subject: "Confirm your email address for Globe Trotter",
+        text: [
+            `Hi ${user.name},`,
+            "",
+            "Confirm this is your email address by opening the link below within 48 hours:",
+            `${env.APP_URL}/verify-email?token=${token}`,
+        ].join("\n"),
+    });
+};
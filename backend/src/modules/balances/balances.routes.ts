@@ -0,0 +1,279 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { validate } from "../../middleware/validate.middleware";
+import { createSettlementSchema } from "../../utils/validation.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { BUDGET_HIDDEN_ERROR, canSeeBudget, getTripAccess } from "../trips/trips.access";
+import { areTripMembers, listTripMembers } from "../members/members.service";
+import { getUserCurrency } from "../currency/currency.service";
+import { buildBalances } from "./balances.service";
+
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+const userSummary = { select: { id: true, name: true, avatarUrl: true } } as const;
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/balances:
+ *   get:
+ *     tags: [Balances]
+ *     summary: Get who owes whom
+ *     description: |
+ *       Nets every member's split expenses and settlements in your profile
+ *       currency. `net` is positive when the member is owed money. `transfers`
+ *       is the smallest set of payments that settles everyone up. Expenses
+ *       recorded without splits count as the payer's own.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Per-member balances, settle-up transfers and the exchange rates used
+ *       403:
+ *         description: The share link does not include the budget
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        if (!canSeeBudget(access)) {
+            return sendError(res, BUDGET_HIDDEN_ERROR, 403);
+        }
+
+        const members = await listTripMembers(tripId);
+        const result = await buildBalances(
+            tripId,
+            members.map((m) => m.id),
+            await getUserCurrency(req.user!.id)
+        );
+
+        // People with ledger entries who are no longer members still need a name
+        const users = await prisma.user.findMany({
+            where: { id: { in: result.balances.map((b) => b.userId) } },
+            ...userSummary,
+        });
+        const userById = new Map(users.map((u) => [u.id, u]));
+
+        return sendSuccess(res, {
+            ...result,
+            balances: result.balances.map((b) => ({
+                ...b,
+                user: userById.get(b.userId) ?? null,
+                isMember: members.some((m) => m.id === b.userId),
+            })),
+        });
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/balances/settlements:
+ *   get:
+ *     tags: [Balances]
+ *     summary: List settlements
+ *     description: Payments recorded between members, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Settlements
+ *       403:
+ *         description: The share link does not include the budget
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/settlements",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        if (!canSeeBudget(access)) {
+            return sendError(res, BUDGET_HIDDEN_ERROR, 403);
+        }
+
+        const settlements = await prisma.settlement.findMany({
+            where: { tripId },
+            include: { fromUser: userSummary, toUser: userSummary },
+            orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+        });
+
+        return sendSuccess(res, settlements);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/balances/settlements:
+ *   post:
+ *     tags: [Balances]
+ *     summary: Record a settlement
+ *     description: Records a payment from one member to another, reducing what the payer owes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [toUserId, amount]
+ *             properties:
+ *               fromUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Defaults to you
+ *               toUserId:
+ *                 type: string
+ *                 format: uuid
+ *               amount:
+ *                 type: number
+ *                 example: 35
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
+ *                 description: Defaults to your profile currency
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to today
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Settlement recorded
+ *       400:
+ *         description: Both people must be different trip members
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip not found
+ */
+router.post(
+    "/settlements",
+    validate(createSettlementSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+        const { fromUserId = req.user!.id, toUserId, currency, date = new Date(), ...rest } = req.body;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        if (fromUserId === toUserId) {
+            return sendError(res, "A settlement must be between two different members", 400);
+        }
+
+        if (!(await areTripMembers(tripId, [fromUserId, toUserId]))) {
+            return sendError(res, "Both people must be trip members", 400);
+        }
+
+        const settlement = await prisma.settlement.create({
+            data: {
+                ...rest,
+                tripId,
+                fromUserId,
+                toUserId,
+                date,
+                currency: currency ?? (await getUserCurrency(req.user!.id)),
+            },
+            include: { fromUser: userSummary, toUser: userSummary },
+        });
+
+        return sendSuccess(res, settlement, "Settlement recorded", 201);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/balances/settlements/{settlementId}:
+ *   delete:
+ *     tags: [Balances]
+ *     summary: Delete a settlement
+ *     description: Only the trip owner or the member who paid can delete a settlement
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: settlementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Settlement deleted
+ *       403:
+ *         description: No edit access to this trip, or not the trip owner or the payer
+ *       404:
+ *         description: Trip or settlement not found
+ */
+router.delete(
+    "/settlements/:settlementId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, settlementId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        const { trip } = access;
+
+        const existing = await prisma.settlement.findFirst({ where: { id: settlementId, tripId } });
+        if (!existing) {
+            return sendError(res, "Settlement not found", 404);
+        }
+
+        if (trip.userId !== req.user!.id && existing.fromUserId !== req.user!.id) {
+            return sendError(res, "Only the trip owner or the payer can delete this settlement", 403);
+        }
+
+        await prisma.settlement.delete({ where: { id: settlementId } });
+
+        return sendSuccess(res, null, "Settlement deleted");
+    })
+);
+
+export default router;
@@ -0,0 +1,169 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { allocateCents, computeSplit, settleUp, Transfer } from "./balances.service";
+
+const amounts = (result: ReturnType<typeof computeSplit>) => {
+    assert.ok(result.ok);
+    return result.splits.map((split) => split.amount);
+};
+
+const people = (...ids: string[]) => ids.map((userId) => ({ userId }));
+
+describe("allocateCents", () => {
+    it("always adds up to the total", () => {
+        for (const total of [0, 1, 99, 1000, 12345]) {
+            for (const weights of [[1], [1, 1, 1], [1, 2, 3], [0.5, 0.25, 0.25], [7, 0, 3]]) {
+                const parts = allocateCents(total, weights);
+                assert.equal(parts.reduce((sum, p) => sum + p, 0), total, `${total} by ${weights}`);
+            }
+        }
+    });
+
+    it("gives leftover cents to the largest remainders, earliest first on ties", () => {
+        assert.deepEqual(allocateCents(100, [1, 1, 1]), [34, 33, 33]);
+        assert.deepEqual(allocateCents(100, [1, 2]), [33, 67]);
+        assert.deepEqual(allocateCents(5, [1, 1, 1, 1]), [2, 1, 1, 1]);
+    });
+
+    it("splits evenly when every weight is zero", () => {
+        assert.deepEqual(allocateCents(10, [0, 0]), [5, 5]);
+    });
+});
+
+describe("computeSplit", () => {
+    it("splits equally to the cent", () => {
+        assert.deepEqual(amounts(computeSplit(100, { method: "EQUAL", participants: people("a", "b", "c") })), [
+            33.34, 33.33, 33.33,
+        ]);
+        assert.deepEqual(amounts(computeSplit(19.99, { method: "EQUAL", participants: people("a", "b", "c") })), [
+            6.67, 6.66, 6.66,
+        ]);
+    });
+
+    it("does not lose cents on amounts smaller than the group", () => {
+        assert.deepEqual(amounts(computeSplit(0.05, { method: "EQUAL", participants: people("a", "b", "c") })), [
+            0.02, 0.02, 0.01,
+        ]);
+    });
+
+    it("splits by shares and records them", () => {
+        const result = computeSplit(100, {
+            method: "SHARES",
+            participants: [
+                { userId: "a", shares: 1 },
+                { userId: "b", shares: 2 },
+            ],
+        });
+
+        assert.deepEqual(result, {
+            ok: true,
+            splits: [
+                { userId: "a", shares: 1, amount: 33.33 },
+                { userId: "b", shares: 2, amount: 66.67 },
+            ],
+        });
+    });
+
+    it("accepts exact amounts that add up despite floating point", () => {
+        const result = computeSplit(0.3, {
+            method: "EXACT",
+            participants: [
+                { userId: "a", amount: 0.1 },
+                { userId: "b", amount: 0.2 },
+            ],
+        });
+
+        assert.deepEqual(amounts(result), [0.1, 0.2]);
+        assert.ok(result.ok && result.splits.every((split) => split.shares === null));
+    });
+
+    it("rejects exact amounts that do not add up", () => {
+        const result = computeSplit(50, {
+            method: "EXACT",
+            participants: [
+                { userId: "a", amount: 20 },
+                { userId: "b", amount: 29.99 },
+            ],
+        });
+
+        assert.deepEqual(result, { ok: false, reason: "Split amounts add up to 49.99, not the expense amount 50.00" });
+    });
+});
+
+// Net balance of each person once the transfers are made, in cents
+const afterTransfers = (balances: Map<string, number>, transfers: Transfer[]) => {
+    const result = new Map(balances);
+    for (const { fromUserId, toUserId, amount } of transfers) {
+        const cents = Math.round(amount * 100);
+        result.set(fromUserId, (result.get(fromUserId) ?? 0) + cents);
+        result.set(toUserId, (result.get(toUserId) ?? 0) - cents);
+    }
+    return result;
+};
+
+const assertSettled = (balances: Map<string, number>, transfers: Transfer[]) => {
+    for (const [userId, cents] of afterTransfers(balances, transfers)) {
+        assert.equal(cents, 0, `${userId} is left with ${cents}`);
+    }
+    assert.ok(transfers.every((t) => t.amount > 0 && t.fromUserId !== t.toUserId));
+};
+
+// Balances of -7, +2, -6, +6, +5: {c, d} and {a, b, e} each net to zero, so
+// three transfers do it where matching largest to largest needs four
+const splittable = (): [string, number][] => [
+    ["a", -700],
+    ["b", 200],
+    ["c", -600],
+    ["d", 600],
+    ["e", 500],
+];
+
+// Pairs that cancel out exactly, with larger amounts than the splittable group
+const pairs = (count: number): [string, number][] =>
+    Array.from({ length: count }, (_, i): [string, number][] => [
+        [`owed-${i}`, (i + 1) * 10_000],
+        [`owes-${i}`, -(i + 1) * 10_000],
+    ]).flat();
+
+describe("settleUp", () => {
+    it("needs no transfers when everyone is even", () => {
+        assert.deepEqual(settleUp(new Map()), []);
+        assert.deepEqual(settleUp(new Map([["a", 0], ["b", 0]])), []);
+    });
+
+    it("pays one creditor from every debtor", () => {
+        const balances = new Map([["a", 3000], ["b", -1000], ["c", -2000]]);
+
+        assert.deepEqual(settleUp(balances), [
+            { fromUserId: "c", toUserId: "a", amount: 20 },
+            { fromUserId: "b", toUserId: "a", amount: 10 },
+        ]);
+    });
+
+    it("settles groups that net to zero among themselves", () => {
+        const balances = new Map(splittable());
+
+        const transfers = settleUp(balances);
+
+        assertSettled(balances, transfers);
+        assert.equal(transfers.length, 3);
+    });
+
+    it("finds the fewest transfers for up to fourteen people", () => {
+        const balances = new Map([...splittable(), ...pairs(4)]);
+
+        const transfers = settleUp(balances);
+
+        assertSettled(balances, transfers);
+        assert.equal(transfers.length, 4 + 3);
+    });
+
+    it("falls back to greedy matching above fourteen people, which still settles everyone", () => {
+        const balances = new Map([...splittable(), ...pairs(5)]);
+
+        const transfers = settleUp(balances);
+
+        assertSettled(balances, transfers);
+        assert.equal(transfers.length, 5 + 4);
+    });
+});
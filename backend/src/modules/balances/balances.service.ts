@@ -0,0 +1,232 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { createCurrencyConverter } from "../currency/currency.service";
+
+// Group accounting for shared trips. Amounts are handled in whole cents so
+// splits always add up to the expense and balances always net to zero.
+
+export type SplitMethod = "EQUAL" | "SHARES" | "EXACT";
+
+export interface SplitParticipant {
+    userId: string;
+    // SHARES only: relative weight
+    shares?: number;
+    // EXACT only: amount owed in the expense currency
+    amount?: number;
+}
+
+export interface SplitInput {
+    method: SplitMethod;
+    participants: SplitParticipant[];
+}
+
+export interface ComputedSplit {
+    userId: string;
+    shares: number | null;
+    amount: number;
+}
+
+export type SplitResult = { ok: true; splits: ComputedSplit[] } | { ok: false; reason: string };
+
+export interface Transfer {
+    fromUserId: string;
+    toUserId: string;
+    amount: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Divides `total` cents in proportion to `weights`. Each part is rounded down and
+ * the leftover cents go to the largest remainders (earliest first on ties).
+ */
+export const allocateCents = (total: number, weights: number[]): number[] => {
+    const weightSum = weights.reduce((sum, w) => sum + w, 0);
+    const effective = weightSum > 0 ? weights : weights.map(() => 1);
+    const effectiveSum = weightSum > 0 ? weightSum : weights.length;
+
+    const raw = effective.map((w) => (total * w) / effectiveSum);
+    const parts = raw.map(Math.floor);
+    let leftover = total - parts.reduce((sum, p) => sum + p, 0);
+
+    const byRemainder = raw.map((value, i) => ({ i, rest: value - parts[i] })).sort((a, b) => b.rest - a.rest || a.i - b.i);
+    for (const { i } of byRemainder) {
+        if (leftover <= 0) break;
+        parts[i] += 1;
+        leftover -= 1;
+    }
+    return parts;
+};
+
+// Works out what each participant owes for an expense of `amount`
+export const computeSplit = (amount: number, { method, participants }: SplitInput): SplitResult => {
+    const total = toCents(amount);
+
+    if (method === "EXACT") {
+        const cents = participants.map((p) => toCents(p.amount ?? 0));
+        const sum = cents.reduce((acc, c) => acc + c, 0);
+        if (sum !== total) {
+            return {
+                ok: false,
+                reason: `Split amounts add up to ${fromCents(sum).toFixed(2)}, not the expense amount ${fromCents(total).toFixed(2)}`,
+            };
+        }
+        return {
+            ok: true,
+            splits: participants.map((p, i) => ({ userId: p.userId, shares: null, amount: fromCents(cents[i]) })),
+        };
+    }
+
+    const weights = participants.map((p) => (method === "SHARES" ? p.shares ?? 0 : 1));
+    const parts = allocateCents(total, weights);
+    return {
+        ok: true,
+        splits: participants.map((p, i) => ({
+            userId: p.userId,
+            shares: method === "SHARES" ? weights[i] : null,
+            amount: fromCents(parts[i]),
+        })),
+    };
+};
+
+// Replaces an expense's splits inside an existing transaction
+export const replaceExpenseSplits = async (
+    tx: Prisma.TransactionClient,
+    expenseId: string,
+    splits: ComputedSplit[]
+) => {
+    await tx.expenseSplit.deleteMany({ where: { expenseId } });
+    await tx.expenseSplit.createMany({ data: splits.map((split) => ({ ...split, expenseId })) });
+};
+
+// Largest creditor is paid by the largest debtor until the group is clear
+const greedyTransfers = (group: [string, number][]): Transfer[] => {
+    const creditors = group.filter(([, c]) => c > 0).map(([id, c]) => ({ id, cents: c }));
+    const debtors = group.filter(([, c]) => c < 0).map(([id, c]) => ({ id, cents: -c }));
+    const transfers: Transfer[] = [];
+
+    while (creditors.length && debtors.length) {
+        creditors.sort((a, b) => b.cents - a.cents);
+        debtors.sort((a, b) => b.cents - a.cents);
+        const [creditor, debtor] = [creditors[0], debtors[0]];
+        const cents = Math.min(creditor.cents, debtor.cents);
+
+        transfers.push({ fromUserId: debtor.id, toUserId: creditor.id, amount: fromCents(cents) });
+        creditor.cents -= cents;
+        debtor.cents -= cents;
+        if (!creditor.cents) creditors.shift();
+        if (!debtor.cents) debtors.shift();
+    }
+    return transfers;
+};
+
+// Above this many people with a balance, fall back to plain greedy matching
+const MAX_EXACT_SETTLE = 14;
+
+/**
+ * Splits the balances into as many groups that net to zero as possible
+ * (a group of k people needs k - 1 transfers, so more groups means fewer
+ * transfers). Dynamic programming over subsets.
+ */
+const zeroSumGroups = (open: [string, number][]): [string, number][][] => {
+    const n = open.length;
+    const full = (1 << n) - 1;
+    const sums = new Array<number>(full + 1).fill(0);
+    const best = new Array<number>(full + 1).fill(0);
+
+    for (let mask = 1; mask <= full; mask++) {
+        const low = 31 - Math.clz32(mask & -mask);
+        sums[mask] = sums[mask & (mask - 1)] + open[low][1];
+        for (let i = 0; i < n; i++) {
+            if (mask & (1 << i)) best[mask] = Math.max(best[mask], best[mask ^ (1 << i)]);
+        }
+        if (sums[mask] === 0) best[mask] += 1;
+    }
+
+    const groups: [string, number][][] = [];
+    let current: [string, number][] = [];
+    let mask = full;
+    while (mask) {
+        const bonus = sums[mask] === 0 ? 1 : 0;
+        const i = open.findIndex((_, j) => mask & (1 << j) && best[mask ^ (1 << j)] + bonus === best[mask]);
+        current.push(open[i]);
+        mask ^= 1 << i;
+        if (sums[mask] === 0) {
+            groups.push(current);
+            current = [];
+        }
+    }
+    return groups;
+};
+
+/**
+ * Fewest transfers that bring every balance (in cents, positive = is owed) to zero.
+ */
+export const settleUp = (balances: Map<string, number>): Transfer[] => {
+    const open = [...balances]
+        .filter(([, cents]) => cents !== 0)
+        .sort(([a, ca], [b, cb]) => Math.abs(cb) - Math.abs(ca) || a.localeCompare(b));
+
+    const groups = open.length <= MAX_EXACT_SETTLE ? zeroSumGroups(open) : [open];
+    return groups.flatMap(greedyTransfers);
+};
+
+/**
+ * Who owes whom on a trip, in `currency`. Each member's net is what they paid
+ * minus their share of split expenses, plus settlements they paid minus those
+ * they received. Expenses without splits are treated as the payer's own.
+ */
+export const buildBalances = async (tripId: string, memberIds: string[], currency: string) => {
+    const converter = await createCurrencyConverter(currency);
+    const [expenses, settlements] = await Promise.all([
+        prisma.expense.findMany({ where: { tripId }, include: { splits: true } }),
+        prisma.settlement.findMany({ where: { tripId } }),
+    ]);
+
+    const tally = new Map<string, { paid: number; share: number; sent: number; received: number }>();
+    const entry = (userId: string) => {
+        if (!tally.has(userId)) tally.set(userId, { paid: 0, share: 0, sent: 0, received: 0 });
+        return tally.get(userId)!;
+    };
+    memberIds.forEach(entry);
+
+    for (const expense of expenses) {
+        if (!expense.splits.length) continue;
+        const converted = converter.convert(Number(expense.amount), expense.currency, expense.date);
+        if (converted === null) continue;
+
+        const total = toCents(converted);
+        const parts = allocateCents(total, expense.splits.map((s) => Number(s.amount)));
+        entry(expense.paidById).paid += total;
+        expense.splits.forEach((split, i) => {
+            entry(split.userId).share += parts[i];
+        });
+    }
+
+    for (const settlement of settlements) {
+        const converted = converter.convert(Number(settlement.amount), settlement.currency, settlement.date);
+        if (converted === null) continue;
+
+        const cents = toCents(converted);
+        entry(settlement.fromUserId).sent += cents;
+        entry(settlement.toUserId).received += cents;
+    }
+
+    const net = new Map([...tally].map(([userId, t]) => [userId, t.paid - t.share + t.sent - t.received]));
+
+    return {
+        currency: converter.currency,
+        balances: [...tally].map(([userId, t]) => ({
+            userId,
+            paid: fromCents(t.paid),
+            share: fromCents(t.share),
+            settlementsPaid: fromCents(t.sent),
+            settlementsReceived: fromCents(t.received),
+            net: fromCents(net.get(userId)!),
+        })),
+        transfers: settleUp(net),
+        rates: converter.appliedRates(),
+        unconvertedCurrencies: converter.missingCurrencies(),
+    };
+};
@@ -0,0 +1,123 @@
+import { BudgetAlertRule, BudgetCategory } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { listTripMembers } from "../members/members.service";
+import { notifyUsers } from "../notifications/notifications.service";
+
+interface AlertTrip {
+    totalBudget: unknown;
+}
+
+interface AlertBudget {
+    category: BudgetCategory;
+    allocatedAmount: unknown;
+    spentAmount: unknown;
+}
+
+export interface AlertUsage {
+    spent: number;
+    limit: number;
+    // Spend as a percentage of the limit, rounded down; null when the limit is zero
+    percent: number | null;
+    reached: boolean;
+}
+
+/**
+ * How far a rule's spend has got towards its threshold: a category's spend
+ * against its allocation, or total spend against totalBudget. Returns null when
+ * there is nothing to compare against (no allocation row or no totalBudget).
+ */
+export const alertUsage = (
+    rule: Pick<BudgetAlertRule, "category" | "thresholdPercent">,
+    trip: AlertTrip,
+    budgets: AlertBudget[]
+): AlertUsage | null => {
+    let spent: number;
+    let limit: number;
+
+    if (rule.category) {
+        const budget = budgets.find((b) => b.category === rule.category);
+        if (!budget) return null;
+        spent = Number(budget.spentAmount);
+        limit = Number(budget.allocatedAmount);
+    } else {
+        if (trip.totalBudget === null) return null;
+        spent = budgets.reduce((sum, b) => sum + Number(b.spentAmount), 0);
+        limit = Number(trip.totalBudget);
+    }
+
+    const percent = limit > 0 ? Math.floor((spent / limit) * 100) : null;
+    return {
+        spent,
+        limit,
+        percent,
+        reached: spent > 0 && (percent === null || percent >= rule.thresholdPercent),
+    };
+};
+
+/**
+ * Checks a trip's active alert rules against its current spend and allocations.
+ * A rule notifies the owner and CAN_EDIT members once when spend crosses its
+ * threshold, and re-arms when spend drops back below it. Call this after
+ * anything that changes spend, allocations or totalBudget has been saved.
+ */
+export const evaluateBudgetAlerts = async (tripId: string) => {
+    const rules = await prisma.budgetAlertRule.findMany({ where: { tripId, isActive: true } });
+    if (!rules.length) {
+        return;
+    }
+
+    const [trip, budgets] = await Promise.all([
+        prisma.trip.findUniqueOrThrow({ where: { id: tripId } }),
+        prisma.tripBudget.findMany({ where: { tripId } }),
+    ]);
+
+    for (const rule of rules) {
+        const usage = alertUsage(rule, trip, budgets);
+        const reached = usage?.reached ?? false;
+
+        if (!reached) {
+            if (rule.triggeredAt) {
+                await prisma.budgetAlertRule.update({ where: { id: rule.id }, data: { triggeredAt: null } });
+            }
+            continue;
+        }
+
+        // Claim the crossing first so concurrent evaluations notify only once
+        const claimed = await prisma.budgetAlertRule.updateMany({
+            where: { id: rule.id, triggeredAt: null },
+            data: { triggeredAt: new Date() },
+        });
+        if (!claimed.count || !usage) {
+            continue;
+        }
+
+        const subject = rule.category ?? "Total";
+        const limitLabel = rule.category ? "allocation" : "trip budget";
+        const amount = (value: number) => `${value.toFixed(2)} ${trip.currency}`;
+        const recipients = (await listTripMembers(tripId))
+            .filter((m) => m.role === "OWNER" || m.role === "CAN_EDIT")
+            .map((m) => m.id);
+
+        await notifyUsers(recipients, {
+            type: "BUDGET_ALERT",
+            tripId,
+            title:
+                usage.percent === null
+                    ? `${trip.name}: ${subject} spending with no ${limitLabel}`
+                    : `${trip.name}: ${subject} spending at ${usage.percent}% of ${limitLabel}`,
+            message:
+                `${subject} spending is ${amount(usage.spent)} of a ${amount(usage.limit)} ${limitLabel}` +
+                (usage.percent === null ? "" : ` (${usage.percent}%)`) +
+                `, reaching your ${rule.thresholdPercent}% alert.`,
+            data: {
+                ruleId: rule.id,
+                category: rule.category,
+                thresholdPercent: rule.thresholdPercent,
+                spent: usage.spent,
+                limit: usage.limit,
+                percent: usage.percent,
+                currency: trip.currency,
+            },
+        });
+    }
+};
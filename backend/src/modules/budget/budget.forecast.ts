@@ -0,0 +1,177 @@
+// Deterministic budget forecast. Projects each trip day's costs per category from
+// the plan, compares the running totals with allocations and the total budget,
+// and suggests moving money from categories with room to those that will overrun.
+
+export const BUDGET_CATEGORIES = [
+    "TRANSPORT",
+    "ACCOMMODATION",
+    "FOOD",
+    "ACTIVITIES",
+    "SHOPPING",
+    "MISCELLANEOUS",
+] as const;
+
+export type BudgetCategoryName = (typeof BUDGET_CATEGORIES)[number];
+
+// How a city's avgDailyCost (food, lodging and local transport) is split across categories
+export const DAILY_COST_SHARES = {
+    ACCOMMODATION: 0.5,
+    FOOD: 0.3,
+    TRANSPORT: 0.2,
+} as const;
+
+// One trip day, with every amount already in the forecast currency
+export interface ForecastDayInput {
+    date: string;
+    // City avgDailyCost for the day; null when no city or cost is known
+    dailyCost: number | null;
+    // Whether a night starts on this day (every day but the last)
+    hasNight: boolean;
+    // Booked lodging for that night; null falls back to the daily-cost estimate
+    lodgingCost: number | null;
+    activityCosts: number;
+    transportLegCosts: number;
+}
+
+export interface ForecastDay {
+    date: string;
+    categories: Partial<Record<BudgetCategoryName, number>>;
+    total: number;
+    cumulative: number;
+}
+
+export interface CategoryForecast {
+    category: BudgetCategoryName;
+    forecast: number;
+    // null when the trip has no allocations at all
+    allocated: number | null;
+    // allocated - forecast; negative means a projected overrun
+    difference: number | null;
+    // First day the running forecast passes the allocation
+    overrunDate: string | null;
+}
+
+export interface Reallocation {
+    // null = budget that is not allocated to any category yet
+    fromCategory: BudgetCategoryName | null;
+    toCategory: BudgetCategoryName;
+    amount: number;
+}
+
+export interface BudgetForecast {
+    days: ForecastDay[];
+    categories: CategoryForecast[];
+    totalForecast: number;
+    totalBudget: number | null;
+    totalAllocated: number;
+    budgetOverrunDate: string | null;
+    suggestedReallocations: Reallocation[];
+}
+
+interface ForecastInput {
+    days: ForecastDayInput[];
+    allocations: Partial<Record<BudgetCategoryName, number>>;
+    totalBudget: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const dayCosts = (day: ForecastDayInput): Partial<Record<BudgetCategoryName, number>> => {
+    const share = (category: keyof typeof DAILY_COST_SHARES) => (day.dailyCost ?? 0) * DAILY_COST_SHARES[category];
+    return {
+        ACCOMMODATION: day.hasNight ? day.lodgingCost ?? share("ACCOMMODATION") : 0,
+        FOOD: share("FOOD"),
+        ACTIVITIES: day.activityCosts,
+        TRANSPORT: day.transportLegCosts + share("TRANSPORT"),
+    };
+};
+
+/**
+ * Moves surplus from categories forecast to come in under their allocation
+ * (largest surplus first), then unallocated budget, into categories forecast
+ * to overrun (largest overrun first).
+ */
+const suggestReallocations = (categories: CategoryForecast[], unallocated: number): Reallocation[] => {
+    const byAmount = (a: { amount: number }, b: { amount: number }) => b.amount - a.amount;
+    const sources: { category: BudgetCategoryName | null; amount: number }[] = [
+        ...categories
+            .filter((c) => c.difference !== null && c.difference > 0)
+            .map((c) => ({ category: c.category, amount: c.difference! }))
+            .sort(byAmount),
+        ...(unallocated > 0 ? [{ category: null, amount: unallocated }] : []),
+    ];
+    const needs = categories
+        .filter((c) => c.difference !== null && c.difference < 0)
+        .map((c) => ({ category: c.category, amount: -c.difference! }))
+        .sort(byAmount);
+
+    const moves: Reallocation[] = [];
+    for (const need of needs) {
+        for (const source of sources) {
+            if (need.amount <= 0) break;
+            const amount = round2(Math.min(need.amount, source.amount));
+            if (amount <= 0) continue;
+            moves.push({ fromCategory: source.category, toCategory: need.category, amount });
+            need.amount -= amount;
+            source.amount -= amount;
+        }
+    }
+    return moves;
+};
+
+export const forecastBudget = ({ days, allocations, totalBudget }: ForecastInput): BudgetForecast => {
+    const hasAllocations = Object.keys(allocations).length > 0;
+    const running: Partial<Record<BudgetCategoryName, number>> = {};
+    const overrunDates: Partial<Record<BudgetCategoryName, string>> = {};
+    let cumulative = 0;
+    let budgetOverrunDate: string | null = null;
+
+    const forecastDays = days.map((day) => {
+        const categories = dayCosts(day);
+        const total = Object.values(categories).reduce((sum, cost) => sum + cost, 0);
+        cumulative += total;
+
+        for (const [category, cost] of Object.entries(categories) as [BudgetCategoryName, number][]) {
+            running[category] = (running[category] ?? 0) + cost;
+            const allocated = allocations[category] ?? 0;
+            if (hasAllocations && !overrunDates[category] && round2(running[category]!) > allocated) {
+                overrunDates[category] = day.date;
+            }
+        }
+        if (totalBudget !== null && budgetOverrunDate === null && round2(cumulative) > totalBudget) {
+            budgetOverrunDate = day.date;
+        }
+
+        return {
+            date: day.date,
+            categories: Object.fromEntries(Object.entries(categories).map(([c, cost]) => [c, round2(cost)])),
+            total: round2(total),
+            cumulative: round2(cumulative),
+        };
+    });
+
+    const categories = BUDGET_CATEGORIES.map((category) => {
+        const forecast = round2(running[category] ?? 0);
+        const allocated = hasAllocations ? round2(allocations[category] ?? 0) : null;
+        return {
+            category,
+            forecast,
+            allocated,
+            difference: allocated === null ? null : round2(allocated - forecast),
+            overrunDate: overrunDates[category] ?? null,
+        };
+    }).filter((c) => c.forecast > 0 || c.allocated);
+
+    const totalAllocated = round2(Object.values(allocations).reduce((sum, amount) => sum + amount, 0));
+    const unallocated = totalBudget !== null && hasAllocations ? totalBudget - totalAllocated : 0;
+
+    return {
+        days: forecastDays,
+        categories,
+        totalForecast: round2(cumulative),
+        totalBudget,
+        totalAllocated,
+        budgetOverrunDate,
+        suggestedReallocations: hasAllocations ? suggestReallocations(categories, unallocated) : [],
+    };
+};
@@ -2,20 +2,55 @@ import { Router, Response } from "express";
 import prisma from "../../config/db.config";
 import { sendSuccess, sendError } from "../../utils/response.util";
 import { validate } from "../../middleware/validate.middleware";
-import { setBudgetSchema } from "../../utils/validation.util";
+import {
+    setBudgetSchema,
+    createExpenseSchema,
+    updateExpenseSchema,
+    expenseQuerySchema,
+    createBudgetAlertSchema,
+    updateBudgetAlertSchema,
+} from "../../utils/validation.util";
 import { asyncHandler } from "../../middleware/error.middleware";
 import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { BUDGET_HIDDEN_ERROR, canSeeBudget, getTripAccess } from "../trips/trips.access";
+import { buildBudgetForecast, buildBudgetSummary, syncBudgetSpend } from "./budget.service";
+import { alertUsage, evaluateBudgetAlerts } from "./budget.alerts";
+import { publishTripEvent } from "../realtime/realtime.hub";
+import { recordTripChange, recordTripChanges } from "../history/history.service";
+import { getUserCurrency } from "../currency/currency.service";
+import { areTripMembers, listTripMembers } from "../members/members.service";
+import {
+    computeSplit,
+    replaceExpenseSplits,
+    SplitMethod,
+    SplitParticipant,
+    SplitResult,
+} from "../balances/balances.service";
 
 const router = Router({ mergeParams: true });
 
 // All routes require authentication
 router.use(authMiddleware);
 
-// Helper to verify trip ownership
-const verifyTripOwnership = async (tripId: string, userId: string) => {
-    return prisma.trip.findFirst({
-        where: { id: tripId, userId },
+// Helper to work out an expense split; participants default to every trip member
+const planSplit = async (
+    tripId: string,
+    amount: number,
+    split: { method: SplitMethod; participants?: SplitParticipant[] }
+): Promise<SplitResult> => {
+    const participants = split.participants ?? (await listTripMembers(tripId)).map((m) => ({ userId: m.id }));
+    if (!(await areTripMembers(tripId, participants.map((p) => p.userId)))) {
+        return { ok: false, reason: "Split participants must be trip members" };
+    }
+    return computeSplit(amount, { method: split.method, participants });
+};
+
+// Helper to check a linked itinerary activity belongs to the trip
+const itineraryActivityInTrip = async (itineraryActivityId: string, tripId: string) => {
+    const ia = await prisma.itineraryActivity.findFirst({
+        where: { id: itineraryActivityId, itinerary: { tripId } },
     });
+    return ia !== null;
 };
 
 /**
@@ -24,7 +59,12 @@ const verifyTripOwnership = async (tripId: string, userId: string) => {
  *   get:
  *     tags: [Budget]
  *     summary: Get trip budget breakdown
- *     description: Returns detailed budget breakdown with allocations, spending, and warnings
+ *     description: |
+ *       Returns detailed budget breakdown with allocations, spending, and warnings.
+ *       Spent amounts come from the expense ledger (plus transport legs for TRANSPORT);
+ *       `spendByCategory` and `spendByDay` summarise the ledger. All amounts are
+ *       converted into your profile currency using the offline exchange-rate table;
+ *       `rates` lists each rate used with its date.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -47,6 +87,9 @@ const verifyTripOwnership = async (tripId: string, userId: string) => {
  *                 data:
  *                   type: object
  *                   properties:
+ *                     currency:
+ *                       type: string
+ *                       example: "EUR"
  *                     totalBudget:
  *                       type: number
  *                       nullable: true
@@ -58,6 +101,27 @@ const verifyTripOwnership = async (tripId: string, userId: string) => {
  *                       type: number
  *                     estimatedActivityCosts:
  *                       type: number
+ *                     estimatedAccommodationCosts:
+ *                       type: number
+ *                     nightsWithoutLodging:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         format: date
+ *                     spendByCategory:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: number
+ *                     spendByDay:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                           amount:
+ *                             type: number
  *                     breakdown:
  *                       type: array
  *                       items:
@@ -77,6 +141,27 @@ const verifyTripOwnership = async (tripId: string, userId: string) => {
  *                       type: array
  *                       items:
  *                         type: string
+ *                     rates:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           from:
+ *                             type: string
+ *                           to:
+ *                             type: string
+ *                           rate:
+ *                             type: number
+ *                           rateDate:
+ *                             type: string
+ *                             format: date
+ *                     unconvertedCurrencies:
+ *                       type: array
+ *                       description: Currencies with no exchange rate; their amounts are left out
+ *                       items:
+ *                         type: string
+ *       403:
+ *         description: The share link does not include the budget
  *       404:
  *         description: Trip not found
  */
@@ -85,68 +170,122 @@ router.get(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId } = req.params;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        if (!canSeeBudget(access)) {
+            return sendError(res, BUDGET_HIDDEN_ERROR, 403);
         }
+        const { trip } = access;
 
-        const budgets = await prisma.tripBudget.findMany({
-            where: { tripId },
-        });
+        const summary = await buildBudgetSummary(trip, await getUserCurrency(req.user!.id));
 
-        const totalAllocated = budgets.reduce(
-            (sum: number, b) => sum + Number(b.allocatedAmount),
-            0
-        );
-        const totalSpent = budgets.reduce(
-            (sum: number, b) => sum + Number(b.spentAmount),
-            0
-        );
+        return sendSuccess(res, summary);
+    })
+);
 
-        const itineraryActivities = await prisma.itineraryActivity.findMany({
-            where: {
-                itinerary: { tripId },
-            },
-            include: { activity: true },
-        });
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/forecast:
+ *   get:
+ *     tags: [Budget]
+ *     summary: Forecast trip costs
+ *     description: |
+ *       Deterministic counterpart to `/ai/budget-advisor`. Projects each trip day's
+ *       costs: accommodation from booked stays (else a share of the day's city
+ *       `avgDailyCost`), food and local transport from shares of the daily cost,
+ *       activities from the itinerary and transport legs by departure day.
+ *       Running totals are compared with allocations and `totalBudget` to find the
+ *       first overrun dates, and surplus categories are matched to overrunning ones
+ *       as suggested reallocations. Amounts are in your profile currency.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Forecast
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     currency:
+ *                       type: string
+ *                     days:
+ *                       type: array
+ *                       description: Per-day category costs with a running total
+ *                       items:
+ *                         type: object
+ *                     categories:
+ *                       type: array
+ *                       description: Forecast vs allocation per category, with the first overrun date
+ *                       items:
+ *                         type: object
+ *                     totalForecast:
+ *                       type: number
+ *                     totalBudget:
+ *                       type: number
+ *                       nullable: true
+ *                     totalAllocated:
+ *                       type: number
+ *                     budgetOverrunDate:
+ *                       type: string
+ *                       format: date
+ *                       nullable: true
+ *                     suggestedReallocations:
+ *                       type: array
+ *                       description: fromCategory null means budget not yet allocated
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           fromCategory:
+ *                             type: string
+ *                             nullable: true
+ *                           toCategory:
+ *                             type: string
+ *                           amount:
+ *                             type: number
+ *                     daysWithoutDailyCost:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     dailyCostShares:
+ *                       type: object
+ *                       description: How avgDailyCost is split between ACCOMMODATION, FOOD and TRANSPORT
+ *       403:
+ *         description: The share link does not include the budget
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/forecast",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
 
-        const activityCosts = itineraryActivities.reduce(
-            (sum: number, ia) => {
-                const cost = ia.customCost
-                    ? Number(ia.customCost)
-                    : Number(ia.activity.estimatedCost);
-                return sum + cost;
-            },
-            0
-        );
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        if (!canSeeBudget(access)) {
+            return sendError(res, BUDGET_HIDDEN_ERROR, 403);
+        }
+        const { trip } = access;
 
-        const breakdown = budgets.map((b) => ({
-            category: b.category,
-            allocated: Number(b.allocatedAmount),
-            spent: Number(b.spentAmount),
-            percentage:
-                totalAllocated > 0
-                    ? Math.round((Number(b.allocatedAmount) / totalAllocated) * 100)
-                    : 0,
-            isOverBudget: Number(b.spentAmount) > Number(b.allocatedAmount),
-        }));
-
-        const overBudgetWarnings = breakdown
-            .filter((b) => b.isOverBudget)
-            .map(
-                (b) =>
-                    `${b.category} is over budget by $${(b.spent - b.allocated).toFixed(2)}`
-            );
+        const forecast = await buildBudgetForecast(trip, await getUserCurrency(req.user!.id));
 
-        return sendSuccess(res, {
-            totalBudget: trip.totalBudget ? Number(trip.totalBudget) : null,
-            totalAllocated,
-            totalSpent,
-            remaining: totalAllocated - totalSpent,
-            estimatedActivityCosts: activityCosts,
-            breakdown,
-            overBudgetWarnings,
-        });
+        return sendSuccess(res, forecast);
     })
 );
 
@@ -189,6 +328,8 @@ router.get(
  *     responses:
  *       200:
  *         description: Budget allocations updated
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
  *         description: Trip not found
  */
@@ -199,30 +340,51 @@ router.post(
         const { tripId } = req.params;
         const { allocations } = req.body;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        await Promise.all(
-            (allocations as Array<{ category: string; amount: number }>).map((alloc) =>
-                prisma.tripBudget.upsert({
-                    where: {
-                        tripId_category: {
+        await prisma.$transaction(async (tx) => {
+            const previous = await tx.tripBudget.findMany({ where: { tripId } });
+            const saved = await Promise.all(
+                (allocations as Array<{ category: string; amount: number }>).map((alloc) =>
+                    tx.tripBudget.upsert({
+                        where: {
+                            tripId_category: {
+                                tripId,
+                                category: alloc.category as any,
+                            },
+                        },
+                        update: { allocatedAmount: alloc.amount },
+                        create: {
                             tripId,
                             category: alloc.category as any,
+                            allocatedAmount: alloc.amount,
+                            spentAmount: 0,
                         },
-                    },
-                    update: { allocatedAmount: alloc.amount },
-                    create: {
+                    })
+                )
+            );
+            await recordTripChanges(
+                tx,
+                saved.map((budget) => {
+                    const before = previous.find((b) => b.id === budget.id);
+                    return {
                         tripId,
-                        category: alloc.category as any,
-                        allocatedAmount: alloc.amount,
-                        spentAmount: 0,
-                    },
+                        actorId: req.user!.id,
+                        entity: "BUDGET" as const,
+                        entityId: budget.id,
+                        action: before ? ("UPDATE" as const) : ("CREATE" as const),
+                        before,
+                        after: budget,
+                    };
                 })
-            )
-        );
+            );
+            await syncBudgetSpend(tx, tripId);
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "allocation" });
 
         const budgets = await prisma.tripBudget.findMany({
             where: { tripId },
@@ -238,7 +400,7 @@ router.post(
  *   patch:
  *     tags: [Budget]
  *     summary: Update category budget
- *     description: Updates allocated or spent amount for a specific budget category
+ *     description: Updates the allocated amount for a specific budget category. Spent amounts are derived from expenses.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -263,13 +425,15 @@ router.post(
  *             properties:
  *               allocatedAmount:
  *                 type: number
- *               spentAmount:
- *                 type: number
  *     responses:
  *       200:
  *         description: Budget category updated
+ *       400:
+ *         description: spentAmount was sent; record an expense instead
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
- *         description: Trip not found
+ *         description: Trip or budget category not found
  */
 router.patch(
     "/:category",
@@ -277,25 +441,702 @@ router.patch(
         const { tripId, category } = req.params;
         const { allocatedAmount, spentAmount } = req.body;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        const budget = await prisma.tripBudget.update({
-            where: {
-                tripId_category: {
-                    tripId,
-                    category: category as any,
+        if (spentAmount !== undefined) {
+            return sendError(res, "Spent amounts are derived from expenses; record an expense instead", 400);
+        }
+
+        const where = { tripId_category: { tripId, category: category as any } };
+        const previous = await prisma.tripBudget.findUnique({ where });
+        if (!previous) {
+            return sendError(res, "Budget category not found", 404);
+        }
+
+        const budget = await prisma.$transaction(async (tx) => {
+            const updated = await tx.tripBudget.update({
+                where,
+                data: {
+                    ...(allocatedAmount !== undefined && { allocatedAmount }),
                 },
+            });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "BUDGET",
+                entityId: updated.id,
+                action: "UPDATE",
+                before: previous,
+                after: updated,
+            });
+            return updated;
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "allocation" });
+
+        return sendSuccess(res, budget, "Budget updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/alerts:
+ *   get:
+ *     tags: [Budget]
+ *     summary: List budget alert rules
+ *     description: Each rule comes with its current usage (spent, limit and percent of the limit)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Alert rules
+ *       403:
+ *         description: The share link does not include the budget
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/alerts",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        if (!canSeeBudget(access)) {
+            return sendError(res, BUDGET_HIDDEN_ERROR, 403);
+        }
+        const { trip } = access;
+
+        const [rules, budgets] = await Promise.all([
+            prisma.budgetAlertRule.findMany({ where: { tripId }, orderBy: { createdAt: "asc" } }),
+            prisma.tripBudget.findMany({ where: { tripId } }),
+        ]);
+
+        return sendSuccess(
+            res,
+            rules.map((rule) => ({ ...rule, usage: alertUsage(rule, trip, budgets) }))
+        );
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/alerts:
+ *   post:
+ *     tags: [Budget]
+ *     summary: Add a budget alert rule
+ *     description: |
+ *       Notifies the owner and CAN_EDIT members when spend reaches `thresholdPercent`
+ *       of a category's allocation, or of the trip's totalBudget when no category is
+ *       given. Rules are checked whenever spend, allocations or totalBudget change,
+ *       and fire once each time the threshold is crossed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [TRANSPORT, ACCOMMODATION, FOOD, ACTIVITIES, SHOPPING, MISCELLANEOUS]
+ *                 description: Omit to alert on total spend against totalBudget
+ *               thresholdPercent:
+ *                 type: integer
+ *                 default: 100
+ *                 example: 80
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Alert rule added
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip not found
+ */
+router.post(
+    "/alerts",
+    validate(createBudgetAlertSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const rule = await prisma.budgetAlertRule.create({
+            data: { ...req.body, tripId },
+        });
+        await evaluateBudgetAlerts(tripId);
+
+        return sendSuccess(res, rule, "Alert rule added", 201);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/alerts/{ruleId}:
+ *   patch:
+ *     tags: [Budget]
+ *     summary: Update a budget alert rule
+ *     description: Changing the category or threshold re-arms the rule
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [TRANSPORT, ACCOMMODATION, FOOD, ACTIVITIES, SHOPPING, MISCELLANEOUS]
+ *               thresholdPercent:
+ *                 type: integer
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Alert rule updated
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or alert rule not found
+ */
+router.patch(
+    "/alerts/:ruleId",
+    validate(updateBudgetAlertSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, ruleId } = req.params;
+        const { category, thresholdPercent } = req.body;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const existing = await prisma.budgetAlertRule.findFirst({ where: { id: ruleId, tripId } });
+        if (!existing) {
+            return sendError(res, "Alert rule not found", 404);
+        }
+
+        const rearm = category !== undefined || thresholdPercent !== undefined;
+        await prisma.budgetAlertRule.update({
+            where: { id: ruleId },
+            data: { ...req.body, ...(rearm && { triggeredAt: null }) },
+        });
+        await evaluateBudgetAlerts(tripId);
+
+        const rule = await prisma.budgetAlertRule.findUniqueOrThrow({ where: { id: ruleId } });
+
+        return sendSuccess(res, rule, "Alert rule updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/alerts/{ruleId}:
+ *   delete:
+ *     tags: [Budget]
+ *     summary: Delete a budget alert rule
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Alert rule deleted
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or alert rule not found
+ */
+router.delete(
+    "/alerts/:ruleId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, ruleId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const existing = await prisma.budgetAlertRule.findFirst({ where: { id: ruleId, tripId } });
+        if (!existing) {
+            return sendError(res, "Alert rule not found", 404);
+        }
+
+        await prisma.budgetAlertRule.delete({ where: { id: ruleId } });
+
+        return sendSuccess(res, null, "Alert rule deleted");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/expenses:
+ *   get:
+ *     tags: [Budget]
+ *     summary: List expenses
+ *     description: Returns the trip's expense ledger, newest first, with each expense's splits. Open to every trip member.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [TRANSPORT, ACCOMMODATION, FOOD, ACTIVITIES, SHOPPING, MISCELLANEOUS]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Expenses
+ *       403:
+ *         description: The share link does not include the budget
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/expenses",
+    validate(expenseQuerySchema, "query"),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+        const { category, from, to } = (req as any).validatedQuery as {
+            category?: string;
+            from?: Date;
+            to?: Date;
+        };
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        if (!canSeeBudget(access)) {
+            return sendError(res, BUDGET_HIDDEN_ERROR, 403);
+        }
+
+        const expenses = await prisma.expense.findMany({
+            where: {
+                tripId,
+                ...(category && { category: category as any }),
+                ...((from || to) && { date: { ...(from && { gte: from }), ...(to && { lte: to }) } }),
             },
-            data: {
-                ...(allocatedAmount !== undefined && { allocatedAmount }),
-                ...(spentAmount !== undefined && { spentAmount }),
+            include: {
+                paidBy: { select: { id: true, name: true, avatarUrl: true } },
+                itineraryActivity: { include: { activity: true } },
+                splits: { include: { user: { select: { id: true, name: true, avatarUrl: true } } } },
             },
+            orderBy: [{ date: "desc" }, { createdAt: "desc" }],
         });
 
-        return sendSuccess(res, budget, "Budget updated");
+        return sendSuccess(res, expenses);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/expenses:
+ *   post:
+ *     tags: [Budget]
+ *     summary: Record an expense
+ *     description: |
+ *       Adds an expense to the ledger and updates the category's spent amount.
+ *       Needs edit access (the owner or CAN_EDIT). Without a `split` the expense is
+ *       divided equally between all members.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [category, amount, date]
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 enum: [TRANSPORT, ACCOMMODATION, FOOD, ACTIVITIES, SHOPPING, MISCELLANEOUS]
+ *               amount:
+ *                 type: number
+ *                 example: 42.5
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
+ *                 description: Defaults to your profile currency
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               itineraryActivityId:
+ *                 type: string
+ *                 format: uuid
+ *               paidById:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Defaults to you; must be a trip member
+ *               split:
+ *                 type: object
+ *                 description: How the expense is divided between members
+ *                 properties:
+ *                   method:
+ *                     type: string
+ *                     enum: [EQUAL, SHARES, EXACT]
+ *                     default: EQUAL
+ *                   participants:
+ *                     type: array
+ *                     description: Defaults to every member (EQUAL only)
+ *                     items:
+ *                       type: object
+ *                       required: [userId]
+ *                       properties:
+ *                         userId:
+ *                           type: string
+ *                           format: uuid
+ *                         shares:
+ *                           type: number
+ *                           description: SHARES only
+ *                         amount:
+ *                           type: number
+ *                           description: EXACT only; amounts must add up to the expense
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Expense recorded
+ *       400:
+ *         description: Payer, split participant or linked activity does not belong to this trip, or the split does not add up
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip not found
+ */
+router.post(
+    "/expenses",
+    validate(createExpenseSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+        const { paidById = req.user!.id, currency, itineraryActivityId, split = { method: "EQUAL" }, ...rest } = req.body;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        if (!(await areTripMembers(tripId, [paidById]))) {
+            return sendError(res, "Payer is not part of this trip", 400);
+        }
+
+        if (itineraryActivityId && !(await itineraryActivityInTrip(itineraryActivityId, tripId))) {
+            return sendError(res, "Itinerary activity is not part of this trip", 400);
+        }
+
+        const plan = await planSplit(tripId, rest.amount, split);
+        if (!plan.ok) {
+            return sendError(res, plan.reason, 400);
+        }
+
+        const expense = await prisma.$transaction(async (tx) => {
+            const created = await tx.expense.create({
+                data: {
+                    ...rest,
+                    tripId,
+                    paidById,
+                    itineraryActivityId,
+                    splitMethod: split.method,
+                    currency: currency ?? (await getUserCurrency(req.user!.id)),
+                },
+            });
+            await replaceExpenseSplits(tx, created.id, plan.splits);
+            await syncBudgetSpend(tx, tripId);
+            return tx.expense.findUniqueOrThrow({ where: { id: created.id }, include: { splits: true } });
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "expense" });
+
+        return sendSuccess(res, expense, "Expense recorded", 201);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/expenses/{expenseId}:
+ *   patch:
+ *     tags: [Budget]
+ *     summary: Update an expense
+ *     description: |
+ *       Only the trip owner or the payer can update an expense. Changing the
+ *       amount re-splits it between the same people unless a new `split` is given.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: expenseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               category:
+ *                 type: string
+ *                 enum: [TRANSPORT, ACCOMMODATION, FOOD, ACTIVITIES, SHOPPING, MISCELLANEOUS]
+ *               amount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               itineraryActivityId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               paidById:
+ *                 type: string
+ *                 format: uuid
+ *               split:
+ *                 type: object
+ *                 description: How the expense is divided between members
+ *                 properties:
+ *                   method:
+ *                     type: string
+ *                     enum: [EQUAL, SHARES, EXACT]
+ *                     default: EQUAL
+ *                   participants:
+ *                     type: array
+ *                     description: Defaults to every member (EQUAL only)
+ *                     items:
+ *                       type: object
+ *                       required: [userId]
+ *                       properties:
+ *                         userId:
+ *                           type: string
+ *                           format: uuid
+ *                         shares:
+ *                           type: number
+ *                           description: SHARES only
+ *                         amount:
+ *                           type: number
+ *                           description: EXACT only; amounts must add up to the expense
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Expense updated
+ *       400:
+ *         description: Payer, split participant or linked activity does not belong to this trip, or the split does not add up
+ *       403:
+ *         description: No edit access to this trip, or not the trip owner or the payer
+ *       404:
+ *         description: Trip or expense not found
+ */
+router.patch(
+    "/expenses/:expenseId",
+    validate(updateExpenseSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, expenseId } = req.params;
+        const { split, ...data } = req.body;
+        const { paidById, itineraryActivityId } = data;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        const { trip } = access;
+
+        const existing = await prisma.expense.findFirst({ where: { id: expenseId, tripId }, include: { splits: true } });
+        if (!existing) {
+            return sendError(res, "Expense not found", 404);
+        }
+
+        if (trip.userId !== req.user!.id && existing.paidById !== req.user!.id) {
+            return sendError(res, "Only the trip owner or the payer can change this expense", 403);
+        }
+
+        if (paidById && !(await areTripMembers(tripId, [paidById]))) {
+            return sendError(res, "Payer is not part of this trip", 400);
+        }
+
+        if (itineraryActivityId && !(await itineraryActivityInTrip(itineraryActivityId, tripId))) {
+            return sendError(res, "Itinerary activity is not part of this trip", 400);
+        }
+
+        // A new amount re-splits between the same people unless a new split is given
+        let plan: SplitResult | null = null;
+        if (split || data.amount !== undefined) {
+            plan = await planSplit(
+                tripId,
+                data.amount ?? Number(existing.amount),
+                split ?? {
+                    method: existing.splitMethod,
+                    participants: existing.splits.map((s) => ({
+                        userId: s.userId,
+                        shares: s.shares === null ? undefined : Number(s.shares),
+                        amount: Number(s.amount),
+                    })),
+                }
+            );
+            if (!plan.ok) {
+                return sendError(res, plan.reason, 400);
+            }
+        }
+
+        const expense = await prisma.$transaction(async (tx) => {
+            await tx.expense.update({
+                where: { id: expenseId },
+                data: { ...data, ...(split && { splitMethod: split.method }) },
+            });
+            if (plan?.ok) {
+                await replaceExpenseSplits(tx, expenseId, plan.splits);
+            }
+            await syncBudgetSpend(tx, tripId);
+            return tx.expense.findUniqueOrThrow({ where: { id: expenseId }, include: { splits: true } });
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "expense" });
+
+        return sendSuccess(res, expense, "Expense updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/budget/expenses/{expenseId}:
+ *   delete:
+ *     tags: [Budget]
+ *     summary: Delete an expense
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: expenseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Expense deleted
+ *       403:
+ *         description: No edit access to this trip, or not the trip owner or the payer
+ *       404:
+ *         description: Trip or expense not found
+ */
+router.delete(
+    "/expenses/:expenseId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, expenseId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        const { trip } = access;
+
+        const existing = await prisma.expense.findFirst({ where: { id: expenseId, tripId } });
+        if (!existing) {
+            return sendError(res, "Expense not found", 404);
+        }
+
+        if (trip.userId !== req.user!.id && existing.paidById !== req.user!.id) {
+            return sendError(res, "Only the trip owner or the payer can delete this expense", 403);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.expense.delete({ where: { id: expenseId } });
+            await syncBudgetSpend(tx, tripId);
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "expense" });
+
+        return sendSuccess(res, null, "Expense deleted");
     })
 );
 
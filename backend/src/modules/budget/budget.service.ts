@@ -0,0 +1,237 @@
+import { Prisma, BudgetCategory } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { calendarDate } from "../../utils/time.util";
+import { createCurrencyConverter, CurrencyConverter } from "../currency/currency.service";
+import { listNights, nightsWithoutLodging, stayCost, stayForNight } from "../stays/stays.service";
+import { BudgetCategoryName, DAILY_COST_SHARES, forecastBudget, ForecastDayInput } from "./budget.forecast";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Recomputes every category's spentAmount for a trip from its expense ledger,
+ * in the trip's currency. Transport legs count as TRANSPORT spend on top of the
+ * ledger. Categories with spend but no allocation get a zero allocation so the
+ * spend stays visible. Amounts with no exchange rate to the trip currency are skipped.
+ */
+export const syncBudgetSpend = async (tx: Prisma.TransactionClient, tripId: string) => {
+    const [trip, expenses, legs, budgets] = await Promise.all([
+        tx.trip.findUniqueOrThrow({ where: { id: tripId }, select: { currency: true } }),
+        tx.expense.findMany({ where: { tripId } }),
+        tx.transportLeg.findMany({ where: { tripId } }),
+        tx.tripBudget.findMany({ where: { tripId }, select: { category: true } }),
+    ]);
+    const converter = await createCurrencyConverter(trip.currency);
+
+    const spend = new Map<BudgetCategory, number>();
+    const add = (category: BudgetCategory, amount: number | null) => {
+        if (amount !== null) spend.set(category, (spend.get(category) ?? 0) + amount);
+    };
+    for (const expense of expenses) {
+        add(expense.category, converter.convert(Number(expense.amount), expense.currency, expense.date));
+    }
+    for (const leg of legs) {
+        add("TRANSPORT", converter.convert(Number(leg.cost), leg.currency, leg.departureTime));
+    }
+
+    const categories = new Set<BudgetCategory>([...spend.keys(), ...budgets.map((b) => b.category)]);
+
+    await Promise.all(
+        [...categories].map((category) => {
+            const spentAmount = round2(spend.get(category) ?? 0);
+            return tx.tripBudget.upsert({
+                where: { tripId_category: { tripId, category } },
+                update: { spentAmount },
+                create: { tripId, category, allocatedAmount: 0, spentAmount },
+            });
+        })
+    );
+};
+
+// Planned cost of each scheduled activity, converted from its city's currency
+export const listActivityCosts = async (tripId: string, converter: CurrencyConverter) => {
+    const itineraryActivities = await prisma.itineraryActivity.findMany({
+        where: { itinerary: { tripId } },
+        include: { activity: true, itinerary: { include: { city: true } } },
+    });
+
+    return itineraryActivities.map((ia) => {
+        const cost = ia.customCost ? Number(ia.customCost) : Number(ia.activity.estimatedCost);
+        return {
+            name: ia.activity.name,
+            city: ia.itinerary.city.name,
+            cost: converter.convert(cost, ia.itinerary.city.currency, ia.itinerary.date) ?? 0,
+        };
+    });
+};
+
+interface BudgetTrip {
+    id: string;
+    totalBudget: Prisma.Decimal | null;
+    currency: string;
+    startDate: Date;
+    endDate: Date;
+}
+
+/**
+ * Budget overview for a trip with every amount converted into `currency`.
+ * Expenses, transport legs and stays convert from their own currency, activity
+ * costs from their city's currency, and allocations from the trip currency.
+ * `rates` lists each rate used with its date; amounts in `unconvertedCurrencies`
+ * had no rate and are left out of the totals.
+ */
+export const buildBudgetSummary = async (trip: BudgetTrip, currency: string) => {
+    const converter = await createCurrencyConverter(currency);
+    const fromTrip = (amount: number) => converter.convert(amount, trip.currency) ?? 0;
+
+    const [budgets, expenses, legs, stays, activities] = await Promise.all([
+        prisma.tripBudget.findMany({ where: { tripId: trip.id } }),
+        prisma.expense.findMany({ where: { tripId: trip.id } }),
+        prisma.transportLeg.findMany({ where: { tripId: trip.id } }),
+        prisma.stay.findMany({ where: { tripId: trip.id } }),
+        listActivityCosts(trip.id, converter),
+    ]);
+
+    const spendByCategory: Record<string, number> = {};
+    const spendByDay: Record<string, number> = {};
+    for (const expense of expenses) {
+        const amount = converter.convert(Number(expense.amount), expense.currency, expense.date);
+        if (amount === null) continue;
+        const day = calendarDate(expense.date);
+        spendByCategory[expense.category] = round2((spendByCategory[expense.category] ?? 0) + amount);
+        spendByDay[day] = round2((spendByDay[day] ?? 0) + amount);
+    }
+
+    const transportLegCosts = legs.reduce(
+        (sum, leg) => sum + (converter.convert(Number(leg.cost), leg.currency, leg.departureTime) ?? 0),
+        0
+    );
+    const spentIn = (category: string) =>
+        (spendByCategory[category] ?? 0) + (category === "TRANSPORT" ? transportLegCosts : 0);
+
+    const activityCosts = activities.reduce((sum, a) => sum + a.cost, 0);
+
+    const accommodationCosts = stays.reduce(
+        (sum, stay) => sum + (converter.convert(stayCost(stay), stay.currency, stay.checkIn) ?? 0),
+        0
+    );
+
+    const totalAllocated = budgets.reduce((sum, b) => sum + fromTrip(Number(b.allocatedAmount)), 0);
+    const totalSpent = budgets.reduce((sum, b) => sum + spentIn(b.category), 0);
+
+    const breakdown = budgets.map((b) => {
+        const allocated = round2(fromTrip(Number(b.allocatedAmount)));
+        const spent = round2(spentIn(b.category));
+        return {
+            category: b.category,
+            allocated,
+            spent,
+            percentage: totalAllocated > 0 ? Math.round((allocated / totalAllocated) * 100) : 0,
+            isOverBudget: spent > allocated,
+        };
+    });
+
+    const overBudgetWarnings = breakdown
+        .filter((b) => b.isOverBudget)
+        .map((b) => `${b.category} is over budget by ${(b.spent - b.allocated).toFixed(2)} ${converter.currency}`);
+
+    return {
+        currency: converter.currency,
+        totalBudget: trip.totalBudget ? round2(fromTrip(Number(trip.totalBudget))) : null,
+        totalAllocated: round2(totalAllocated),
+        totalSpent: round2(totalSpent),
+        remaining: round2(totalAllocated - totalSpent),
+        estimatedActivityCosts: round2(activityCosts),
+        estimatedAccommodationCosts: round2(accommodationCosts),
+        nightsWithoutLodging: nightsWithoutLodging(trip, stays),
+        spendByCategory,
+        spendByDay: Object.entries(spendByDay)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([date, amount]) => ({ date, amount })),
+        breakdown,
+        overBudgetWarnings,
+        rates: converter.appliedRates(),
+        unconvertedCurrencies: converter.missingCurrencies(),
+    };
+};
+
+export type BudgetSummary = Awaited<ReturnType<typeof buildBudgetSummary>>;
+
+/**
+ * Forecast of the whole trip's costs in `currency`, day by day. Days without a
+ * planned city use the nearest earlier (else later) day's city; days still
+ * without a city or daily cost are listed in `daysWithoutDailyCost`.
+ */
+export const buildBudgetForecast = async (trip: BudgetTrip, currency: string) => {
+    const converter = await createCurrencyConverter(currency);
+
+    const [budgets, legs, stays, itineraries] = await Promise.all([
+        prisma.tripBudget.findMany({ where: { tripId: trip.id } }),
+        prisma.transportLeg.findMany({ where: { tripId: trip.id } }),
+        prisma.stay.findMany({ where: { tripId: trip.id } }),
+        prisma.itinerary.findMany({
+            where: { tripId: trip.id },
+            include: { city: true, activities: { include: { activity: true } } },
+            orderBy: [{ date: "asc" }, { orderIndex: "asc" }],
+        }),
+    ]);
+
+    const dates = [...listNights(trip.startDate, trip.endDate), calendarDate(trip.endDate)];
+    const cityByDate = new Map<string, (typeof itineraries)[number]["city"]>();
+    for (const it of itineraries) {
+        const date = calendarDate(it.date);
+        if (!cityByDate.has(date)) cityByDate.set(date, it.city);
+    }
+    const cityFor = (index: number) => {
+        for (let i = index; i >= 0; i--) {
+            const city = cityByDate.get(dates[i]);
+            if (city) return city;
+        }
+        return dates.slice(index + 1).map((date) => cityByDate.get(date)).find(Boolean) ?? null;
+    };
+
+    const daysWithoutDailyCost: string[] = [];
+    const days: ForecastDayInput[] = dates.map((date, index) => {
+        const on = new Date(date);
+        const city = cityFor(index);
+        const dailyCost =
+            city?.avgDailyCost != null ? converter.convert(Number(city.avgDailyCost), city.currency, on) : null;
+        if (dailyCost === null) daysWithoutDailyCost.push(date);
+
+        const stay = stayForNight(stays, on);
+        const activityCosts = itineraries
+            .filter((it) => calendarDate(it.date) === date)
+            .flatMap((it) =>
+                it.activities.map((ia) => {
+                    const cost = ia.customCost ? Number(ia.customCost) : Number(ia.activity.estimatedCost);
+                    return converter.convert(cost, it.city.currency, on) ?? 0;
+                })
+            );
+        const legCosts = legs
+            .filter((leg) => calendarDate(leg.departureTime) === date)
+            .map((leg) => converter.convert(Number(leg.cost), leg.currency, leg.departureTime) ?? 0);
+
+        return {
+            date,
+            dailyCost,
+            hasNight: index < dates.length - 1,
+            lodgingCost: stay ? converter.convert(Number(stay.nightlyCost), stay.currency, stay.checkIn) : null,
+            activityCosts: activityCosts.reduce((sum, cost) => sum + cost, 0),
+            transportLegCosts: legCosts.reduce((sum, cost) => sum + cost, 0),
+        };
+    });
+
+    const allocations: Partial<Record<BudgetCategoryName, number>> = {};
+    for (const budget of budgets) {
+        allocations[budget.category] = converter.convert(Number(budget.allocatedAmount), trip.currency) ?? 0;
+    }
+    const totalBudget = trip.totalBudget ? converter.convert(Number(trip.totalBudget), trip.currency) : null;
+
+    return {
+        currency: converter.currency,
+        ...forecastBudget({ days, allocations, totalBudget: totalBudget === null ? null : round2(totalBudget) }),
+        daysWithoutDailyCost,
+        dailyCostShares: DAILY_COST_SHARES,
+        rates: converter.appliedRates(),
+        unconvertedCurrencies: converter.missingCurrencies(),
+    };
+};
@@ -0,0 +1,28 @@
+import { readFileSync } from "fs";
+import { basename } from "path";
+import type { PrismaClient } from "@prisma/client";
+import { parseExchangeRates } from "../../utils/exchangeRates.util";
+
+// Loads a CSV/JSON rates file into the exchange_rates table (re-importing a date overwrites it)
+export const importExchangeRateFile = async (prisma: PrismaClient, path: string) => {
+    const rows = parseExchangeRates(readFileSync(path, "utf8"), path);
+    const source = basename(path);
+
+    await prisma.$transaction(
+        rows.map((row) =>
+            prisma.exchangeRate.upsert({
+                where: {
+                    baseCurrency_quoteCurrency_rateDate: {
+                        baseCurrency: row.baseCurrency,
+                        quoteCurrency: row.quoteCurrency,
+                        rateDate: row.rateDate,
+                    },
+                },
+                update: { rate: row.rate, source },
+                create: { ...row, source },
+            })
+        )
+    );
+
+    return rows.length;
+};
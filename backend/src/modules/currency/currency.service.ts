@@ -0,0 +1,116 @@
+import prisma from "../../config/db.config";
+import { calendarDate } from "../../utils/time.util";
+
+// A rate that was applied in a conversion, reported so clients can show its date
+export interface AppliedRate {
+    from: string;
+    to: string;
+    rate: number;
+    rateDate: string;
+}
+
+export interface CurrencyConverter {
+    currency: string;
+    // Amount in the target currency, or null when no rate links the two currencies
+    convert: (amount: number, from: string | null | undefined, on?: Date) => number | null;
+    appliedRates: () => AppliedRate[];
+    missingCurrencies: () => string[];
+}
+
+interface StoredRate {
+    rate: number;
+    rateDate: Date;
+    inverse?: boolean;
+}
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+// The user's preferred currency, used as the default for new amounts and for reporting
+export const getUserCurrency = async (userId: string): Promise<string> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { currency: true },
+    });
+    return user?.currency ?? "USD";
+};
+
+/**
+ * Loads the exchange-rate table and returns a converter into `currency`.
+ * For each conversion the latest rate on or before the date is used (or the
+ * oldest one if every rate is newer); inverse rates and a single intermediate
+ * currency are used when there is no direct pair.
+ */
+export const createCurrencyConverter = async (currency: string): Promise<CurrencyConverter> => {
+    const target = currency.toUpperCase();
+    const rows = await prisma.exchangeRate.findMany({ orderBy: { rateDate: "desc" } });
+
+    const pairs = new Map<string, StoredRate[]>();
+    const addPair = (from: string, to: string, rate: StoredRate) => {
+        const key = `${from}/${to}`;
+        pairs.set(key, [...(pairs.get(key) ?? []), rate]);
+    };
+    for (const row of rows) {
+        const rate = Number(row.rate);
+        addPair(row.baseCurrency, row.quoteCurrency, { rate, rateDate: row.rateDate });
+        addPair(row.quoteCurrency, row.baseCurrency, { rate: 1 / rate, rateDate: row.rateDate, inverse: true });
+    }
+    // Newest first; on the same date a stored direct pair wins over an inverted one
+    for (const rates of pairs.values()) {
+        rates.sort(
+            (a, b) => b.rateDate.getTime() - a.rateDate.getTime() || Number(a.inverse ?? false) - Number(b.inverse ?? false)
+        );
+    }
+    const currencies = new Set(rows.flatMap((row) => [row.baseCurrency, row.quoteCurrency]));
+
+    const pick = (from: string, to: string, on: Date): StoredRate | null => {
+        const rates = pairs.get(`${from}/${to}`);
+        if (!rates) return null;
+        return rates.find((r) => r.rateDate <= on) ?? rates[rates.length - 1];
+    };
+
+    const resolve = (from: string, on: Date): StoredRate | null => {
+        const direct = pick(from, target, on);
+        if (direct) return direct;
+        for (const via of currencies) {
+            const first = pick(from, via, on);
+            const second = first && pick(via, target, on);
+            if (first && second) {
+                return {
+                    rate: first.rate * second.rate,
+                    rateDate: first.rateDate < second.rateDate ? first.rateDate : second.rateDate,
+                };
+            }
+        }
+        return null;
+    };
+
+    const applied = new Map<string, AppliedRate>();
+    const missing = new Set<string>();
+
+    return {
+        currency: target,
+
+        convert: (amount, from, on = new Date()) => {
+            const source = (from || target).toUpperCase();
+            if (source === target) return amount;
+
+            const rate = resolve(source, on);
+            if (!rate) {
+                missing.add(source);
+                return null;
+            }
+
+            const rateDate = calendarDate(rate.rateDate);
+            applied.set(`${source}/${rateDate}`, {
+                from: source,
+                to: target,
+                rate: round(rate.rate, 6),
+                rateDate,
+            });
+            return round(amount * rate.rate, 2);
+        },
+
+        appliedRates: () => [...applied.values()],
+        missingCurrencies: () => [...missing],
+    };
+};
@@ -0,0 +1,194 @@
+import { Router, Response } from "express";
+import { TripChange, TripChangeEntity } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError, sendPaginated } from "../../utils/response.util";
+import { validate } from "../../middleware/validate.middleware";
+import { tripHistoryQuerySchema } from "../../utils/validation.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { getTripAccess } from "../trips/trips.access";
+import { evaluateBudgetAlerts } from "../budget/budget.alerts";
+import { publishTripEvent, TripChangeType } from "../realtime/realtime.hub";
+import { revertAccessLevel, revertTripChange } from "./history.service";
+
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Live event for a change made by a revert; share changes have none
+const revertEvent = ({ entity, action }: TripChange): TripChangeType | null => {
+    const events: Record<Exclude<TripChangeEntity, "SHARE">, TripChangeType> = {
+        TRIP: action === "DELETE" ? "trip.deleted" : "trip.updated",
+        DAY: action === "CREATE" ? "day.created" : action === "DELETE" ? "day.deleted" : "day.updated",
+        ACTIVITY:
+            action === "CREATE" ? "activity.created" : action === "DELETE" ? "activity.deleted" : "activity.updated",
+        BUDGET: "budget.updated",
+    };
+    return entity === "SHARE" ? null : events[entity];
+};
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/history:
+ *   get:
+ *     tags: [History]
+ *     summary: List a trip's change history
+ *     description: |
+ *       Every change made to the trip, its days, activities, budget allocations and shares,
+ *       newest first, with who made it and the entity's `before` and `after` snapshots.
+ *       `revertedBy` is set once a change has been undone. Share changes are only listed
+ *       for the trip owner.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: entity
+ *         schema:
+ *           type: string
+ *           enum: [TRIP, DAY, ACTIVITY, BUDGET, SHARE]
+ *     responses:
+ *       200:
+ *         description: Paginated list of changes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/",
+    validate(tripHistoryQuerySchema, "query"),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+        const { page, limit, entity } = (req as any).validatedQuery as {
+            page: number;
+            limit: number;
+            entity?: TripChangeEntity;
+        };
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        // Share snapshots hold link slugs, which only the owner should see
+        const where = {
+            tripId,
+            AND: [
+                ...(entity ? [{ entity }] : []),
+                ...(access.level === "owner" ? [] : [{ entity: { not: "SHARE" as const } }]),
+            ],
+        };
+
+        const [changes, total] = await Promise.all([
+            prisma.tripChange.findMany({
+                where,
+                include: {
+                    actor: { select: { id: true, name: true, avatarUrl: true } },
+                    revertedBy: { select: { id: true, actorId: true, createdAt: true } },
+                },
+                orderBy: { createdAt: "desc" },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.tripChange.count({ where }),
+        ]);
+
+        return sendPaginated(res, changes, page, limit, total);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/history/{changeId}/revert:
+ *   post:
+ *     tags: [History]
+ *     summary: Undo a change
+ *     description: |
+ *       Reverts one change: a creation is deleted, a deletion is recreated from its snapshot
+ *       and an update has the fields it changed set back. The revert is itself recorded in
+ *       the history and can be reverted in turn. It is refused with 409 when the entity has
+ *       changed since, so later edits are not overwritten; the current state is in `details`.
+ *       Reverting share changes and trash/restore needs the trip owner.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: changeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Change reverted; returns the new change and the reverted entity
+ *       403:
+ *         description: You need edit access to this trip, or ownership for this change
+ *       404:
+ *         description: Trip or change not found
+ *       409:
+ *         description: Already reverted, or the entity has changed since
+ */
+router.post(
+    "/:changeId/revert",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, changeId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const target = await prisma.tripChange.findFirst({ where: { id: changeId, tripId } });
+        if (!target) {
+            return sendError(res, "Change not found", 404);
+        }
+        if (revertAccessLevel(target) === "owner" && access.level !== "owner") {
+            return sendError(res, "Only the trip owner can do this", 403);
+        }
+
+        const result = await revertTripChange(tripId, changeId, req.user!.id);
+        if (!result.ok) {
+            return sendError(res, `Cannot revert this change: ${result.reason}`, result.status, result.current);
+        }
+
+        const { change, entity } = result;
+        if (change.entity === "TRIP" || change.entity === "BUDGET") {
+            await evaluateBudgetAlerts(tripId);
+        }
+        const event = revertEvent(change);
+        if (event) {
+            const data =
+                change.entity === "BUDGET" ? { source: "allocation" } : entity ?? { id: change.entityId };
+            publishTripEvent(tripId, event, req.user!.id, data);
+        }
+
+        return sendSuccess(res, { change, entity }, "Change reverted");
+    })
+);
+
+export default router;
@@ -0,0 +1,252 @@
+import { BudgetCategory, Prisma, TripChange, TripChangeAction, TripChangeEntity } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { syncBudgetSpend } from "../budget/budget.service";
+import type { TripAccessLevel } from "../trips/trips.access";
+
+// A record as stored in a change's before/after: dates as ISO strings, decimals as strings
+export type ChangeSnapshot = Record<string, Prisma.JsonValue>;
+
+export const toSnapshot = (record: object): ChangeSnapshot => JSON.parse(JSON.stringify(record));
+
+export interface TripChangeInput {
+    tripId: string;
+    actorId: string;
+    entity: TripChangeEntity;
+    entityId: string;
+    action: TripChangeAction;
+    before?: object | null;
+    after?: object | null;
+    revertOfId?: string;
+}
+
+const changeData = ({ before, after, ...change }: TripChangeInput): Prisma.TripChangeUncheckedCreateInput => ({
+    ...change,
+    ...(before && { before: toSnapshot(before) as Prisma.InputJsonObject }),
+    ...(after && { after: toSnapshot(after) as Prisma.InputJsonObject }),
+});
+
+// Appends a change to the trip's history; pass the transaction that made the change
+export const recordTripChange = (tx: Prisma.TransactionClient, change: TripChangeInput) =>
+    tx.tripChange.create({ data: changeData(change) });
+
+export const recordTripChanges = (tx: Prisma.TransactionClient, changes: TripChangeInput[]) =>
+    tx.tripChange.createMany({ data: changes.map(changeData) });
+
+// Fields a revert may write back; ids, derived amounts, timestamps and versions are left alone
+const RESTORABLE_FIELDS: Record<TripChangeEntity, string[]> = {
+    TRIP: [
+        "name",
+        "description",
+        "startDate",
+        "endDate",
+        "totalBudget",
+        "currency",
+        "coverPhotoUrl",
+        "status",
+        "deletedAt",
+    ],
+    DAY: ["cityId", "dayNumber", "date", "notes", "orderIndex"],
+    ACTIVITY: ["itineraryId", "activityId", "startTime", "endTime", "customNotes", "customCost", "orderIndex"],
+    BUDGET: ["category", "allocatedAmount"],
+    SHARE: [
+        "sharedById",
+        "sharedWithId",
+        "publicSlug",
+        "permission",
+        "expiresAt",
+        "passwordHash",
+        "maxViews",
+        "isEnabled",
+        "includeBudget",
+    ],
+};
+
+const pick = (snapshot: ChangeSnapshot, fields: string[]) =>
+    Object.fromEntries(fields.filter((field) => field in snapshot).map((field) => [field, snapshot[field]]));
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+interface RecordStore {
+    find: (tx: Prisma.TransactionClient, id: string) => Promise<object | null>;
+    update: (tx: Prisma.TransactionClient, id: string, data: Record<string, unknown>) => Promise<object>;
+}
+
+interface EntityStore extends RecordStore {
+    create: (tx: Prisma.TransactionClient, tripId: string, snapshot: ChangeSnapshot) => Promise<object>;
+    remove: (tx: Prisma.TransactionClient, id: string) => Promise<unknown>;
+}
+
+const dayInclude = { activities: { orderBy: { orderIndex: "asc" } } } satisfies Prisma.ItineraryInclude;
+
+const activityFields = RESTORABLE_FIELDS.ACTIVITY.filter((field) => field !== "itineraryId");
+
+// Trips are never hard-deleted through the API, so they only need reading and updating
+const ENTITY_STORES: { TRIP: RecordStore } & Record<Exclude<TripChangeEntity, "TRIP">, EntityStore> = {
+    TRIP: {
+        find: (tx, id) => tx.trip.findUnique({ where: { id } }),
+        update: (tx, id, data) => tx.trip.update({ where: { id }, data: data as Prisma.TripUncheckedUpdateInput }),
+    },
+    DAY: {
+        find: (tx, id) => tx.itinerary.findUnique({ where: { id }, include: dayInclude }),
+        create: (tx, tripId, snapshot) =>
+            tx.itinerary.create({
+                data: {
+                    id: snapshot.id,
+                    tripId,
+                    ...pick(snapshot, RESTORABLE_FIELDS.DAY),
+                    activities: {
+                        create: ((snapshot.activities ?? []) as ChangeSnapshot[]).map((activity) => ({
+                            id: activity.id,
+                            ...pick(activity, activityFields),
+                        })),
+                    },
+                } as Prisma.ItineraryUncheckedCreateInput,
+                include: dayInclude,
+            }),
+        update: (tx, id, data) =>
+            tx.itinerary.update({
+                where: { id },
+                data: { ...data, version: { increment: 1 } } as Prisma.ItineraryUncheckedUpdateInput,
+                include: dayInclude,
+            }),
+        remove: (tx, id) => tx.itinerary.delete({ where: { id } }),
+    },
+    ACTIVITY: {
+        find: (tx, id) => tx.itineraryActivity.findUnique({ where: { id } }),
+        create: (tx, _tripId, snapshot) =>
+            tx.itineraryActivity.create({
+                data: {
+                    id: snapshot.id,
+                    ...pick(snapshot, RESTORABLE_FIELDS.ACTIVITY),
+                } as Prisma.ItineraryActivityUncheckedCreateInput,
+            }),
+        update: (tx, id, data) =>
+            tx.itineraryActivity.update({
+                where: { id },
+                data: { ...data, version: { increment: 1 } } as Prisma.ItineraryActivityUncheckedUpdateInput,
+            }),
+        remove: (tx, id) => tx.itineraryActivity.delete({ where: { id } }),
+    },
+    BUDGET: {
+        find: (tx, id) => tx.tripBudget.findUnique({ where: { id } }),
+        create: (tx, tripId, snapshot) =>
+            tx.tripBudget.create({
+                data: {
+                    id: snapshot.id,
+                    tripId,
+                    ...pick(snapshot, RESTORABLE_FIELDS.BUDGET),
+                } as Prisma.TripBudgetUncheckedCreateInput,
+            }),
+        update: (tx, id, data) => tx.tripBudget.update({ where: { id }, data: data as Prisma.TripBudgetUncheckedUpdateInput }),
+        remove: (tx, id) => tx.tripBudget.delete({ where: { id } }),
+    },
+    SHARE: {
+        find: (tx, id) => tx.sharedTrip.findUnique({ where: { id } }),
+        create: (tx, tripId, snapshot) =>
+            tx.sharedTrip.create({
+                data: {
+                    id: snapshot.id,
+                    tripId,
+                    ...pick(snapshot, RESTORABLE_FIELDS.SHARE),
+                } as Prisma.SharedTripUncheckedCreateInput,
+            }),
+        update: (tx, id, data) => tx.sharedTrip.update({ where: { id }, data: data as Prisma.SharedTripUncheckedUpdateInput }),
+        remove: (tx, id) => tx.sharedTrip.delete({ where: { id } }),
+    },
+};
+
+// Shares and moving a trip in or out of the trash are the owner's to undo
+export const revertAccessLevel = (change: Pick<TripChange, "entity" | "action">): TripAccessLevel =>
+    change.entity === "SHARE" || (change.entity === "TRIP" && change.action !== "UPDATE") ? "owner" : "edit";
+
+const inverseAction = ({ entity, action }: Pick<TripChange, "entity" | "action">): TripChangeAction => {
+    if (entity === "TRIP") {
+        return action === "DELETE" ? "RESTORE" : action === "RESTORE" ? "DELETE" : "UPDATE";
+    }
+    return action === "CREATE" ? "DELETE" : action === "DELETE" ? "CREATE" : "UPDATE";
+};
+
+export type RevertResult =
+    | { ok: true; change: TripChange; entity: object | null }
+    | { ok: false; status: 404 | 409; reason: string; current?: object };
+
+/**
+ * Undoes one change and records the undo as a change of its own, which can in
+ * turn be reverted. Creations are deleted and deletions recreated from their
+ * snapshot; updates (including trips moving in and out of the trash) write back
+ * the fields they changed, but only while those fields still hold the values
+ * the change left, so later edits are never silently overwritten.
+ */
+export const revertTripChange = (tripId: string, changeId: string, actorId: string): Promise<RevertResult> =>
+    prisma.$transaction(async (tx) => {
+        const change = await tx.tripChange.findFirst({
+            where: { id: changeId, tripId },
+            include: { revertedBy: true },
+        });
+        if (!change) {
+            return { ok: false, status: 404, reason: "Change not found" };
+        }
+        if (change.revertedBy) {
+            return { ok: false, status: 409, reason: "Change has already been reverted" };
+        }
+
+        const { entity, entityId } = change;
+        const store = ENTITY_STORES[entity];
+        const before = change.before as ChangeSnapshot | null;
+        const after = change.after as ChangeSnapshot | null;
+        const current = await store.find(tx, entityId);
+        let reverted: object | null;
+
+        if (entity !== "TRIP" && change.action === "CREATE") {
+            if (!current) {
+                return { ok: false, status: 409, reason: "It has been deleted since" };
+            }
+            await ENTITY_STORES[entity].remove(tx, entityId);
+            reverted = null;
+        } else if (entity !== "TRIP" && change.action === "DELETE") {
+            if (current) {
+                return { ok: false, status: 409, reason: "It has been recreated since", current };
+            }
+            const taken =
+                entity === "DAY"
+                    ? await tx.itinerary.findUnique({
+                        where: { tripId_dayNumber: { tripId, dayNumber: before!.dayNumber as number } },
+                    })
+                    : entity === "BUDGET"
+                        ? await tx.tripBudget.findUnique({
+                            where: { tripId_category: { tripId, category: before!.category as BudgetCategory } },
+                        })
+                        : null;
+            if (taken) {
+                return { ok: false, status: 409, reason: "Its place has been taken since", current: taken };
+            }
+            reverted = await ENTITY_STORES[entity].create(tx, tripId, before!);
+        } else {
+            if (!current) {
+                return { ok: false, status: 409, reason: "It has been deleted since" };
+            }
+            const fields = RESTORABLE_FIELDS[entity].filter((field) => !sameValue(before?.[field], after?.[field]));
+            const snapshot = toSnapshot(current);
+            if (fields.some((field) => !sameValue(snapshot[field], after?.[field]))) {
+                return { ok: false, status: 409, reason: "It has changed since; revert the later changes first", current };
+            }
+            reverted = await store.update(tx, entityId, pick(before!, fields));
+        }
+
+        if (entity === "BUDGET") {
+            await syncBudgetSpend(tx, tripId);
+        }
+
+        const revert = await recordTripChange(tx, {
+            tripId,
+            actorId,
+            entity,
+            entityId,
+            action: inverseAction(change),
+            before: current,
+            after: reverted,
+            revertOfId: change.id,
+        });
+
+        return { ok: true, change: revert, entity: reverted };
+    });
@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { optimizeRoute, RouteStop, scheduleRoute } from "./itinerary.optimizer";
+
+// Stops along the equator, about 1.1 km apart per 0.01 degrees of longitude
+const stop = (id: string, longitude: number, overrides: Partial<RouteStop> = {}): RouteStop => ({
+    id,
+    name: id.toUpperCase(),
+    coordinates: { latitude: 0, longitude },
+    durationMinutes: 60,
+    windows: null,
+    anchorStart: null,
+    ...overrides,
+});
+
+const options = { dayStart: 9 * 60, speedKmh: 30 };
+const ids = (schedule: { stops: { id: string }[] }) => schedule.stops.map((s) => s.id).join(",");
+
+describe("optimizeRoute", () => {
+    it("returns an empty schedule for no stops", () => {
+        assert.deepEqual(optimizeRoute([], options), { stops: [], distanceKm: 0, travelMinutes: 0, violations: [] });
+    });
+
+    it("starts a single stop at the start of the day", () => {
+        const schedule = optimizeRoute([stop("a", 0)], options);
+
+        assert.deepEqual(schedule.stops, [
+            { id: "a", name: "A", start: 540, end: 600, travelMinutes: 0, distanceKm: 0 },
+        ]);
+        assert.equal(schedule.distanceKm, 0);
+    });
+
+    it("keeps the given order of two stops, since reversing them saves nothing", () => {
+        const schedule = optimizeRoute([stop("b", 0.01), stop("a", 0)], options);
+
+        assert.equal(ids(schedule), "b,a");
+        // 1.11 km at 30 km/h rounds up to 3 minutes
+        assert.equal(schedule.stops[1].travelMinutes, 3);
+        assert.equal(schedule.stops[1].start, 603);
+        assert.equal(schedule.violations.length, 0);
+    });
+
+    it("orders stops to avoid doubling back", () => {
+        const stops = [stop("a", 0), stop("c", 0.02), stop("b", 0.01), stop("d", 0.03)];
+
+        const schedule = optimizeRoute(stops, options);
+
+        assert.ok(["a,b,c,d", "d,c,b,a"].includes(ids(schedule)), ids(schedule));
+        assert.ok(schedule.distanceKm < scheduleRoute(stops, options).distanceKm);
+        assert.ok(Math.abs(schedule.distanceKm - 3.336) < 0.01, String(schedule.distanceKm));
+    });
+
+    it("is never worse than the current order", () => {
+        const stops = [stop("a", 0), stop("b", 0.05), stop("c", 0.01), stop("d", 0.04), stop("e", 0.02)];
+
+        const current = scheduleRoute(stops, options);
+        const optimized = optimizeRoute(stops, options);
+
+        assert.ok(optimized.distanceKm <= current.distanceKm);
+        assert.equal(optimized.violations.length, 0);
+    });
+
+    it("gives the same answer on every run", () => {
+        const stops = [stop("a", 0.03), stop("b", 0), stop("c", 0.02), stop("d", 0.01)];
+
+        assert.equal(ids(optimizeRoute(stops, options)), ids(optimizeRoute(stops, options)));
+    });
+
+    it("keeps a pinned stop at its fixed time, even at the cost of a longer route", () => {
+        const stops = [stop("a", 0), stop("b", 0.01), stop("c", 0.02, { anchorStart: 540 })];
+
+        const schedule = optimizeRoute(stops, options);
+
+        assert.equal(schedule.stops[0].id, "c");
+        assert.equal(schedule.stops[0].start, 540);
+        assert.equal(schedule.violations.length, 0);
+    });
+
+    it("visits a stop while it is open", () => {
+        // B closes at 10:00, so the only visit that fits starts at 9:00
+        const stops = [stop("a", 0), stop("b", 0.01, { windows: [{ open: 540, close: 600 }] }), stop("c", 0.02)];
+
+        const schedule = optimizeRoute(stops, options);
+
+        assert.equal(schedule.stops[0].id, "b");
+        assert.equal(schedule.violations.length, 0);
+    });
+
+    it("waits for a stop to open instead of reporting it", () => {
+        const schedule = optimizeRoute([stop("a", 0, { windows: [{ open: 720, close: 1080 }] })], options);
+
+        assert.equal(schedule.stops[0].start, 720);
+        assert.equal(schedule.violations.length, 0);
+    });
+
+    it("reports constraints no order can meet", () => {
+        const stops = [
+            stop("a", 0, { anchorStart: 540 }),
+            stop("b", 0.01, { anchorStart: 550 }),
+            stop("c", 0.02, { windows: [] }),
+        ];
+
+        const schedule = optimizeRoute(stops, options);
+
+        assert.deepEqual(
+            schedule.violations.map((v) => `${v.id}: ${v.reason}`).sort(),
+            ["b: Cannot reach this fixed-time activity on time", "c: Does not fit within opening hours"]
+        );
+    });
+
+    it("treats stops without coordinates as no travel", () => {
+        const schedule = optimizeRoute([stop("a", 0), stop("b", 0.01, { coordinates: null })], options);
+
+        assert.equal(schedule.distanceKm, 0);
+        assert.equal(schedule.stops[1].start, 600);
+    });
+});
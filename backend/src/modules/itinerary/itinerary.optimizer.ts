@@ -0,0 +1,171 @@
+import { Coordinates, haversineKm } from "../../utils/geo.util";
+import { earliestOpenStart, OpeningWindow } from "../../utils/openingHours.util";
+
+// Deterministic day-route solver. Orders a day's stops to minimise travel
+// distance (nearest-neighbour seeds improved with 2-opt and single-stop moves)
+// while honouring opening hours and activities pinned to their current time.
+
+export interface RouteStop {
+    id: string;
+    name: string;
+    coordinates: Coordinates | null;
+    durationMinutes: number;
+    // null = no opening hours known
+    windows: OpeningWindow[] | null;
+    // Minutes since midnight this stop must start at, if it is anchored
+    anchorStart: number | null;
+}
+
+export interface ScheduledStop {
+    id: string;
+    name: string;
+    start: number;
+    end: number;
+    travelMinutes: number;
+    distanceKm: number;
+}
+
+export interface RouteViolation {
+    id: string;
+    name: string;
+    reason: string;
+}
+
+export interface RouteSchedule {
+    stops: ScheduledStop[];
+    distanceKm: number;
+    travelMinutes: number;
+    violations: RouteViolation[];
+}
+
+export interface OptimizeOptions {
+    dayStart: number;
+    speedKmh: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+// Any constraint violation outweighs any amount of extra travel
+const VIOLATION_PENALTY = 1_000_000;
+
+const legKm = (from: RouteStop | undefined, to: RouteStop) =>
+    from?.coordinates && to.coordinates ? haversineKm(from.coordinates, to.coordinates) : 0;
+
+// Lays stops out back-to-back in the given order, adding travel time between them
+export const scheduleRoute = (order: RouteStop[], { dayStart, speedKmh }: OptimizeOptions): RouteSchedule => {
+    const stops: ScheduledStop[] = [];
+    const violations: RouteViolation[] = [];
+    let clock = dayStart;
+    let totalKm = 0;
+    let totalTravel = 0;
+
+    order.forEach((stop, i) => {
+        const distanceKm = legKm(order[i - 1], stop);
+        const travelMinutes = Math.ceil((distanceKm / speedKmh) * 60);
+        const arrival = clock + travelMinutes;
+        let start = arrival;
+
+        if (stop.anchorStart !== null) {
+            if (arrival > stop.anchorStart) {
+                violations.push({ id: stop.id, name: stop.name, reason: "Cannot reach this fixed-time activity on time" });
+            }
+            start = stop.anchorStart;
+        } else {
+            const openStart = earliestOpenStart(stop.windows, arrival, stop.durationMinutes);
+            if (openStart === null) {
+                violations.push({ id: stop.id, name: stop.name, reason: "Does not fit within opening hours" });
+            } else {
+                start = openStart;
+            }
+        }
+
+        const end = start + stop.durationMinutes;
+        if (end > DAY_MINUTES) {
+            violations.push({ id: stop.id, name: stop.name, reason: "Runs past midnight" });
+        }
+
+        stops.push({ id: stop.id, name: stop.name, start, end, travelMinutes, distanceKm });
+        clock = Math.max(clock, end);
+        totalKm += distanceKm;
+        totalTravel += travelMinutes;
+    });
+
+    return { stops, distanceKm: totalKm, travelMinutes: totalTravel, violations };
+};
+
+const routeCost = (order: RouteStop[], options: OptimizeOptions) => {
+    const schedule = scheduleRoute(order, options);
+    return schedule.violations.length * VIOLATION_PENALTY + schedule.distanceKm;
+};
+
+const nearestNeighbour = (stops: RouteStop[], first: number) => {
+    const remaining = [...stops];
+    const ordered = remaining.splice(first, 1);
+    while (remaining.length) {
+        const last = ordered[ordered.length - 1];
+        let nearest = 0;
+        remaining.forEach((stop, i) => {
+            if (legKm(last, stop) < legKm(last, remaining[nearest])) nearest = i;
+        });
+        ordered.push(...remaining.splice(nearest, 1));
+    }
+    return ordered;
+};
+
+// 2-opt segment reversals plus single-stop relocations until nothing improves
+const improve = (initial: RouteStop[], options: OptimizeOptions) => {
+    let order = initial;
+    let cost = routeCost(order, options);
+    let improved = true;
+
+    const tryOrder = (candidate: RouteStop[]) => {
+        const candidateCost = routeCost(candidate, options);
+        if (candidateCost < cost - 1e-9) {
+            order = candidate;
+            cost = candidateCost;
+            improved = true;
+        }
+    };
+
+    while (improved) {
+        improved = false;
+        for (let i = 0; i < order.length - 1; i++) {
+            for (let j = i + 1; j < order.length; j++) {
+                tryOrder([
+                    ...order.slice(0, i),
+                    ...order.slice(i, j + 1).reverse(),
+                    ...order.slice(j + 1),
+                ]);
+            }
+        }
+        for (let from = 0; from < order.length; from++) {
+            for (let to = 0; to < order.length; to++) {
+                if (from === to) continue;
+                const candidate = [...order];
+                candidate.splice(to, 0, ...candidate.splice(from, 1));
+                tryOrder(candidate);
+            }
+        }
+    }
+
+    return { order, cost };
+};
+
+/**
+ * Finds the lowest-cost order for a day's stops. The given order and a
+ * nearest-neighbour tour from every stop are each improved and the best one
+ * wins, so the result is never worse than the current plan. Ties keep the
+ * earliest candidate, which makes the answer reproducible.
+ */
+export const optimizeRoute = (stops: RouteStop[], options: OptimizeOptions): RouteSchedule => {
+    const seeds = [stops, ...stops.map((_, first) => nearestNeighbour(stops, first))];
+    let best: { order: RouteStop[]; cost: number } | undefined;
+
+    for (const seed of seeds) {
+        const candidate = improve(seed, options);
+        if (!best || candidate.cost < best.cost - 1e-9) {
+            best = candidate;
+        }
+    }
+
+    return scheduleRoute(best?.order ?? [], options);
+};
@@ -5,29 +5,64 @@ import { validate } from "../../middleware/validate.middleware";
 import {
     addItineraryDaySchema,
     addItineraryActivitySchema,
+    addItineraryActivityQuerySchema,
+    itineraryQuerySchema,
+    optimizeDaySchema,
+    reorderItinerarySchema,
+    updateItineraryActivityQuerySchema,
+    updateItineraryActivitySchema,
+    updateItineraryDaySchema,
 } from "../../utils/validation.util";
+import {
+    calendarDate,
+    dateToMinutes,
+    minutesToTime,
+    parseTime,
+    timeToMinutes,
+} from "../../utils/time.util";
 import { asyncHandler } from "../../middleware/error.middleware";
+import {
+    applyScheduleChanges,
+    buildRouteStops,
+    checkActivitySlot,
+    computeTravelLegs,
+    ConflictMode,
+    dayStartMinutes,
+    planInsertion,
+    ScheduleChange,
+    StaleVersionError,
+} from "./itinerary.service";
+import { optimizeRoute, scheduleRoute } from "./itinerary.optimizer";
+import { publishTripEvent } from "../realtime/realtime.hub";
+import { recordTripChange, recordTripChanges } from "../history/history.service";
+import { TravelMode, travelSpeedsKmh } from "../../config/travel.config";
+import { stayForNight } from "../stays/stays.service";
 import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { canSeeBudget, getTripAccess } from "../trips/trips.access";
+
+// Payload of an itinerary.reordered event for a re-timed day
+const scheduleEvent = (changes: ScheduleChange[]) => ({
+    days: [],
+    activities: changes.map(({ itineraryActivityId, ...change }) => ({ id: itineraryActivityId, ...change })),
+});
 
 const router = Router({ mergeParams: true });
 
 // All routes require authentication
 router.use(authMiddleware);
 
-// Helper to verify trip ownership
-const verifyTripOwnership = async (tripId: string, userId: string) => {
-    return prisma.trip.findFirst({
-        where: { id: tripId, userId },
-    });
-};
-
 /**
  * @openapi
  * /api/v1/trips/{tripId}/itinerary:
  *   get:
  *     tags: [Itinerary]
  *     summary: Get full itinerary
- *     description: Returns the complete day-by-day itinerary for a trip
+ *     description: |
+ *       Returns the complete day-by-day itinerary for a trip. Each day includes
+ *       `travelLegs` between consecutive activities (straight-line distance at the
+ *       chosen mode's speed) and `hasTightConnections` when a gap is shorter than
+ *       the travel time it needs. Inter-city `transportLegs` are listed on the day
+ *       they depart, and `stay` is that night's lodging (null if none is booked).
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -37,20 +72,28 @@ const verifyTripOwnership = async (tripId: string, userId: string) => {
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [walk, transit, drive]
+ *           default: walk
  *     responses:
  *       200:
- *         description: Full itinerary with days and activities
+ *         description: Full itinerary with days, activities and travel legs
  *       404:
  *         description: Trip not found
  */
 router.get(
     "/",
+    validate(itineraryQuerySchema, "query"),
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId } = req.params;
+        const { mode } = (req as any).validatedQuery as { mode: TravelMode };
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
         const itinerary = await prisma.itinerary.findMany({
@@ -65,7 +108,45 @@ router.get(
             orderBy: { dayNumber: "asc" },
         });
 
-        return sendSuccess(res, itinerary);
+        const transportLegs = await prisma.transportLeg.findMany({
+            where: { tripId },
+            include: { departureCity: true, arrivalCity: true },
+            orderBy: { departureTime: "asc" },
+        });
+        const stays = await prisma.stay.findMany({
+            where: { tripId },
+            orderBy: { checkIn: "asc" },
+        });
+
+        const days = itinerary.map((day) => {
+            const travelLegs = computeTravelLegs(day.activities, travelSpeedsKmh[mode]);
+            return {
+                ...day,
+                // Inter-city legs departing on this day
+                transportLegs: transportLegs.filter(
+                    (leg) => calendarDate(leg.departureTime) === calendarDate(day.date)
+                ),
+                // Lodging for the night of this day (null when nothing is booked)
+                stay: stayForNight(stays, day.date),
+                travelLegs,
+                hasTightConnections: travelLegs.some((leg) => leg.tooTight),
+            };
+        });
+
+        if (!canSeeBudget(access)) {
+            // A link without the budget shows the plan but not what it costs
+            return sendSuccess(
+                res,
+                days.map(({ activities, transportLegs, stay, ...day }) => ({
+                    ...day,
+                    activities: activities.map(({ customCost, ...activity }) => activity),
+                    transportLegs: transportLegs.map(({ cost, ...leg }) => leg),
+                    stay: stay && { ...stay, nightlyCost: undefined },
+                }))
+            );
+        }
+
+        return sendSuccess(res, days);
     })
 );
 
@@ -107,6 +188,8 @@ router.get(
  *     responses:
  *       201:
  *         description: Day added successfully
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
  *         description: Trip or city not found
  *       409:
@@ -119,9 +202,9 @@ router.post(
         const { tripId } = req.params;
         const { cityId, dayNumber, date, notes } = req.body;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
         const city = await prisma.city.findUnique({ where: { id: cityId } });
@@ -137,17 +220,30 @@ router.post(
             return sendError(res, "Day number already exists", 409);
         }
 
-        const day = await prisma.itinerary.create({
-            data: {
+        const day = await prisma.$transaction(async (tx) => {
+            const created = await tx.itinerary.create({
+                data: {
+                    tripId,
+                    cityId,
+                    dayNumber,
+                    date,
+                    notes,
+                },
+                include: { city: true },
+            });
+            await recordTripChange(tx, {
                 tripId,
-                cityId,
-                dayNumber,
-                date,
-                notes,
-            },
-            include: { city: true },
+                actorId: req.user!.id,
+                entity: "DAY",
+                entityId: created.id,
+                action: "CREATE",
+                after: created,
+            });
+            return created;
         });
 
+        publishTripEvent(tripId, "day.created", req.user!.id, day);
+
         return sendSuccess(res, day, "Day added", 201);
     })
 );
@@ -158,7 +254,9 @@ router.post(
  *   patch:
  *     tags: [Itinerary]
  *     summary: Update a day
- *     description: Updates day properties (city, date, notes)
+ *     description: |
+ *       Updates day properties (city, date, notes). `version` is the one you last read; the
+ *       update is rejected with 409 if someone else has changed the day since.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -175,10 +273,12 @@ router.post(
  *           type: string
  *           format: uuid
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [version]
  *             properties:
  *               cityId:
  *                 type: string
@@ -188,33 +288,78 @@ router.post(
  *                 format: date
  *               notes:
  *                 type: string
+ *               version:
+ *                 type: integer
  *     responses:
  *       200:
  *         description: Day updated
+ *       400:
+ *         description: Validation error, e.g. a missing `version`
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
- *         description: Trip not found
+ *         description: Trip or day not found
+ *       409:
+ *         description: The day has changed since `version`; the current day is in `details`
  */
 router.patch(
     "/days/:dayId",
+    validate(updateItineraryDaySchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId, dayId } = req.params;
-        const { cityId, date, notes } = req.body;
+        const { cityId, date, notes, version } = req.body;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        const day = await prisma.itinerary.update({
-            where: { id: dayId },
-            data: {
-                ...(cityId && { cityId }),
-                ...(date && { date: new Date(date) }),
-                ...(notes !== undefined && { notes }),
-            },
-            include: { city: true },
+        const day = await prisma.$transaction(async (tx) => {
+            const before = await tx.itinerary.findFirst({ where: { id: dayId, tripId } });
+
+            // Only writes if the day is still at the version the client last read
+            const { count } = await tx.itinerary.updateMany({
+                where: { id: dayId, tripId, version },
+                data: {
+                    ...(cityId && { cityId }),
+                    ...(date && { date }),
+                    ...(notes !== undefined && { notes }),
+                    version: { increment: 1 },
+                },
+            });
+            if (!count) {
+                return null;
+            }
+
+            const updated = await tx.itinerary.findUniqueOrThrow({
+                where: { id: dayId },
+                include: { city: true },
+            });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "DAY",
+                entityId: dayId,
+                action: "UPDATE",
+                before,
+                after: updated,
+            });
+            return updated;
         });
 
+        if (!day) {
+            const current = await prisma.itinerary.findFirst({
+                where: { id: dayId, tripId },
+                include: { city: true },
+            });
+            if (!current) {
+                return sendError(res, "Day not found", 404);
+            }
+            return sendError(res, "Day was changed by someone else", 409, current);
+        }
+
+        publishTripEvent(tripId, "day.updated", req.user!.id, day);
+
         return sendSuccess(res, day, "Day updated");
     })
 );
@@ -244,20 +389,43 @@ router.patch(
  *     responses:
  *       200:
  *         description: Day removed
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
- *         description: Trip not found
+ *         description: Trip or day not found
  */
 router.delete(
     "/days/:dayId",
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId, dayId } = req.params;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        await prisma.itinerary.delete({ where: { id: dayId } });
+        // Keep the day's activities in the snapshot so the deletion can be reverted
+        const day = await prisma.itinerary.findFirst({
+            where: { id: dayId, tripId },
+            include: { activities: { orderBy: { orderIndex: "asc" } } },
+        });
+        if (!day) {
+            return sendError(res, "Day not found", 404);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.itinerary.delete({ where: { id: dayId } });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "DAY",
+                entityId: dayId,
+                action: "DELETE",
+                before: day,
+            });
+        });
+
+        publishTripEvent(tripId, "day.deleted", req.user!.id, { id: dayId });
 
         return sendSuccess(res, null, "Day removed");
     })
@@ -269,7 +437,11 @@ router.delete(
  *   post:
  *     tags: [Itinerary]
  *     summary: Add activity to day
- *     description: Schedules an activity for a specific day in the itinerary
+ *     description: |
+ *       Schedules an activity for a specific day in the itinerary. The slot is checked
+ *       against the activity's opening hours for the day's weekday and the other
+ *       activities that day; problems come back as `warnings` (codes END_BEFORE_START,
+ *       OUTSIDE_OPENING_HOURS, OVERLAP).
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -285,6 +457,20 @@ router.delete(
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: query
+ *         name: strict
+ *         schema:
+ *           type: boolean
+ *         description: Reject the request (422) instead of returning schedule warnings
+ *       - in: query
+ *         name: onConflict
+ *         schema:
+ *           type: string
+ *           enum: [reject, shift, squeeze]
+ *         description: |
+ *           How to handle overlaps with activities already on the day. `reject` fails with 409;
+ *           `shift` pushes later activities forward keeping their gaps; `squeeze` uses up gaps
+ *           and time beyond catalogue durations. In these modes the day is re-ordered by start time.
  *     requestBody:
  *       required: true
  *       content:
@@ -308,23 +494,34 @@ router.delete(
  *                 type: number
  *     responses:
  *       201:
- *         description: Activity added to day
+ *         description: Activity added; includes `warnings`, `movedActivityIds` and the recomputed `day`
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
  *         description: Trip, day, or activity not found
+ *       422:
+ *         description: Slot has schedule problems (strict mode); listed in `details`
+ *       409:
+ *         description: Overlap could not be resolved with the chosen `onConflict` mode
  */
 router.post(
     "/days/:dayId/activities",
+    validate(addItineraryActivityQuerySchema, "query"),
     validate(addItineraryActivitySchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId, dayId } = req.params;
         const { activityId, startTime, endTime, customNotes, customCost } = req.body;
+        const { strict, onConflict } = (req as any).validatedQuery as {
+            strict: boolean;
+            onConflict?: ConflictMode;
+        };
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        const day = await prisma.itinerary.findUnique({ where: { id: dayId } });
+        const day = await prisma.itinerary.findFirst({ where: { id: dayId, tripId } });
         if (!day) {
             return sendError(res, "Day not found", 404);
         }
@@ -336,33 +533,141 @@ router.post(
             return sendError(res, "Activity not found", 404);
         }
 
-        const maxOrder = await prisma.itineraryActivity.findFirst({
+        const others = await prisma.itineraryActivity.findMany({
             where: { itineraryId: dayId },
-            orderBy: { orderIndex: "desc" },
+            include: { activity: true },
         });
 
-        const baseDate = new Date("2000-01-01");
-        const parseTime = (time: string) => {
-            const [hours, minutes] = time.split(":").map(Number);
-            const date = new Date(baseDate);
-            date.setHours(hours, minutes, 0, 0);
-            return date;
-        };
+        let warnings = checkActivitySlot({ dayDate: day.date, activity, startTime, endTime, others });
+        let moved: { id: string; start: number; end: number }[] = [];
+
+        if (onConflict) {
+            const plan = planInsertion(
+                onConflict,
+                timeToMinutes(startTime),
+                timeToMinutes(endTime),
+                others.map((ia) => ({
+                    id: ia.id,
+                    name: ia.activity.name,
+                    start: dateToMinutes(ia.startTime),
+                    end: dateToMinutes(ia.endTime),
+                    minDuration: ia.activity.durationMinutes,
+                }))
+            );
+            if (!plan.ok) {
+                return sendError(res, plan.reason, 409, { conflictingActivityIds: plan.conflictingActivityIds });
+            }
 
-        const itineraryActivity = await prisma.itineraryActivity.create({
-            data: {
-                itineraryId: dayId,
-                activityId,
-                startTime: parseTime(startTime),
-                endTime: parseTime(endTime),
-                customNotes,
-                customCost,
-                orderIndex: (maxOrder?.orderIndex ?? -1) + 1,
+            // Overlaps are resolved by the plan; moved activities may now miss their opening hours
+            moved = plan.moved;
+            warnings = [
+                ...warnings.filter((issue) => issue.code !== "OVERLAP"),
+                ...moved.flatMap((slot) =>
+                    checkActivitySlot({
+                        dayDate: day.date,
+                        activity: others.find((ia) => ia.id === slot.id)!.activity,
+                        startTime: minutesToTime(slot.start),
+                        endTime: minutesToTime(slot.end),
+                        others: [],
+                    }).map((issue) => ({ ...issue, affectedActivityId: slot.id }))
+                ),
+            ];
+        }
+
+        if (strict && warnings.length) {
+            return sendError(res, "Activity does not fit the day's schedule", 422, warnings);
+        }
+
+        const itineraryActivity = await prisma.$transaction(async (tx) => {
+            const maxOrder = await tx.itineraryActivity.findFirst({
+                where: { itineraryId: dayId },
+                orderBy: { orderIndex: "desc" },
+            });
+
+            const created = await tx.itineraryActivity.create({
+                data: {
+                    itineraryId: dayId,
+                    activityId,
+                    startTime: parseTime(startTime),
+                    endTime: parseTime(endTime),
+                    customNotes,
+                    customCost,
+                    orderIndex: (maxOrder?.orderIndex ?? -1) + 1,
+                },
+                include: { activity: true },
+            });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "ACTIVITY",
+                entityId: created.id,
+                action: "CREATE",
+                after: created,
+            });
+
+            // In conflict modes the whole day is re-timed and re-ordered by start time
+            if (onConflict) {
+                const slots = [
+                    ...others.map((ia) => {
+                        const move = moved.find((slot) => slot.id === ia.id);
+                        return {
+                            id: ia.id,
+                            start: move?.start ?? dateToMinutes(ia.startTime),
+                            end: move?.end ?? dateToMinutes(ia.endTime),
+                            version: ia.version,
+                        };
+                    }),
+                    {
+                        id: created.id,
+                        start: timeToMinutes(startTime),
+                        end: timeToMinutes(endTime),
+                        version: created.version,
+                    },
+                ].sort((a, b) => a.start - b.start);
+
+                await applyScheduleChanges(
+                    tx,
+                    slots.map((slot, index) => ({
+                        itineraryActivityId: slot.id,
+                        orderIndex: index,
+                        startTime: minutesToTime(slot.start),
+                        endTime: minutesToTime(slot.end),
+                        version: slot.version,
+                    })),
+                    { tripId, actorId: req.user!.id }
+                );
+            }
+
+            return created;
+        });
+
+        const updatedDay = await prisma.itinerary.findUnique({
+            where: { id: dayId },
+            include: {
+                activities: {
+                    include: { activity: true },
+                    orderBy: { orderIndex: "asc" },
+                },
             },
-            include: { activity: true },
+        });
+        const scheduled = updatedDay?.activities.find((ia) => ia.id === itineraryActivity.id);
+
+        publishTripEvent(tripId, "activity.created", req.user!.id, {
+            ...(scheduled ?? itineraryActivity),
+            day: updatedDay,
         });
 
-        return sendSuccess(res, itineraryActivity, "Activity added", 201);
+        return sendSuccess(
+            res,
+            {
+                ...(scheduled ?? itineraryActivity),
+                warnings,
+                movedActivityIds: moved.map((slot) => slot.id),
+                day: updatedDay,
+            },
+            "Activity added",
+            201
+        );
     })
 );
 
@@ -372,7 +677,11 @@ router.post(
  *   patch:
  *     tags: [Itinerary]
  *     summary: Update scheduled activity
- *     description: Updates time, notes, or cost for a scheduled activity
+ *     description: |
+ *       Updates time, notes, or cost for a scheduled activity. A new start or end
+ *       time is checked like when adding an activity and problems come back as `warnings`.
+ *       `version` is the one you last read; the update is rejected with 409 if someone
+ *       else has changed the activity since.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -388,11 +697,18 @@ router.post(
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: query
+ *         name: strict
+ *         schema:
+ *           type: boolean
+ *         description: Reject the request (422) instead of returning schedule warnings
  *     requestBody:
+ *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [version]
  *             properties:
  *               startTime:
  *                 type: string
@@ -406,44 +722,107 @@ router.post(
  *                 type: number
  *               orderIndex:
  *                 type: integer
+ *               version:
+ *                 type: integer
  *     responses:
  *       200:
  *         description: Activity updated
+ *       400:
+ *         description: Validation error, e.g. a missing `version`
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
- *         description: Trip not found
+ *         description: Trip or activity not found
+ *       409:
+ *         description: The activity has changed since `version`; the current activity is in `details`
+ *       422:
+ *         description: Slot has schedule problems (strict mode); listed in `details`
  */
 router.patch(
     "/activities/:activityId",
+    validate(updateItineraryActivityQuerySchema, "query"),
+    validate(updateItineraryActivitySchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId, activityId } = req.params;
-        const { startTime, endTime, customNotes, customCost, orderIndex } = req.body;
+        const { startTime, endTime, customNotes, customCost, orderIndex, version } = req.body;
+        const { strict } = (req as any).validatedQuery as { strict: boolean };
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        const baseDate = new Date("2000-01-01");
-        const parseTime = (time: string) => {
-            const [hours, minutes] = time.split(":").map(Number);
-            const date = new Date(baseDate);
-            date.setHours(hours, minutes, 0, 0);
-            return date;
-        };
+        const existing = await prisma.itineraryActivity.findFirst({
+            where: { id: activityId, itinerary: { tripId } },
+            include: { activity: true, itinerary: true },
+        });
+        if (!existing) {
+            return sendError(res, "Activity not found", 404);
+        }
+
+        // Only re-check the schedule when the slot moves
+        const warnings =
+            startTime || endTime
+                ? checkActivitySlot({
+                    dayDate: existing.itinerary.date,
+                    activity: existing.activity,
+                    startTime: startTime ?? minutesToTime(dateToMinutes(existing.startTime)),
+                    endTime: endTime ?? minutesToTime(dateToMinutes(existing.endTime)),
+                    others: await prisma.itineraryActivity.findMany({
+                        where: { itineraryId: existing.itineraryId, id: { not: activityId } },
+                        include: { activity: true },
+                    }),
+                })
+                : [];
+        if (strict && warnings.length) {
+            return sendError(res, "Activity does not fit the day's schedule", 422, warnings);
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            const before = await tx.itineraryActivity.findUniqueOrThrow({ where: { id: activityId } });
+
+            // Only writes if the activity is still at the version the client last read
+            const { count } = await tx.itineraryActivity.updateMany({
+                where: { id: activityId, version },
+                data: {
+                    ...(startTime && { startTime: parseTime(startTime) }),
+                    ...(endTime && { endTime: parseTime(endTime) }),
+                    ...(customNotes !== undefined && { customNotes }),
+                    ...(customCost !== undefined && { customCost }),
+                    ...(orderIndex !== undefined && { orderIndex }),
+                    version: { increment: 1 },
+                },
+            });
+            if (!count) {
+                return false;
+            }
 
-        const itineraryActivity = await prisma.itineraryActivity.update({
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "ACTIVITY",
+                entityId: activityId,
+                action: "UPDATE",
+                before,
+                after: await tx.itineraryActivity.findUniqueOrThrow({ where: { id: activityId } }),
+            });
+            return true;
+        });
+
+        const itineraryActivity = await prisma.itineraryActivity.findUnique({
             where: { id: activityId },
-            data: {
-                ...(startTime && { startTime: parseTime(startTime) }),
-                ...(endTime && { endTime: parseTime(endTime) }),
-                ...(customNotes !== undefined && { customNotes }),
-                ...(customCost !== undefined && { customCost }),
-                ...(orderIndex !== undefined && { orderIndex }),
-            },
             include: { activity: true },
         });
+        if (!itineraryActivity) {
+            return sendError(res, "Activity not found", 404);
+        }
+        if (!updated) {
+            return sendError(res, "Activity was changed by someone else", 409, itineraryActivity);
+        }
 
-        return sendSuccess(res, itineraryActivity, "Activity updated");
+        publishTripEvent(tripId, "activity.updated", req.user!.id, itineraryActivity);
+
+        return sendSuccess(res, { ...itineraryActivity, warnings }, "Activity updated");
     })
 );
 
@@ -472,20 +851,41 @@ router.patch(
  *     responses:
  *       200:
  *         description: Activity removed
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
- *         description: Trip not found
+ *         description: Trip or activity not found
  */
 router.delete(
     "/activities/:activityId",
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId, activityId } = req.params;
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        await prisma.itineraryActivity.delete({ where: { id: activityId } });
+        const itineraryActivity = await prisma.itineraryActivity.findFirst({
+            where: { id: activityId, itinerary: { tripId } },
+        });
+        if (!itineraryActivity) {
+            return sendError(res, "Activity not found", 404);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.itineraryActivity.delete({ where: { id: activityId } });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "ACTIVITY",
+                entityId: activityId,
+                action: "DELETE",
+                before: itineraryActivity,
+            });
+        });
+
+        publishTripEvent(tripId, "activity.deleted", req.user!.id, { id: activityId });
 
         return sendSuccess(res, null, "Activity removed");
     })
@@ -497,7 +897,10 @@ router.delete(
  *   patch:
  *     tags: [Itinerary]
  *     summary: Reorder days and activities
- *     description: Updates the order of days or activities in the itinerary
+ *     description: |
+ *       Updates the order of days or activities in the itinerary. Each item carries the
+ *       `version` last read; if any has changed since, nothing is reordered and the
+ *       current days and activities come back in `details` with a 409.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -517,64 +920,482 @@ router.delete(
  *                 type: array
  *                 items:
  *                   type: object
+ *                   required: [id, orderIndex, version]
  *                   properties:
  *                     id:
  *                       type: string
  *                     orderIndex:
  *                       type: integer
+ *                     version:
+ *                       type: integer
  *               activities:
  *                 type: array
  *                 items:
  *                   type: object
+ *                   required: [id, orderIndex, version]
  *                   properties:
  *                     id:
  *                       type: string
  *                     orderIndex:
  *                       type: integer
+ *                     version:
+ *                       type: integer
  *     responses:
  *       200:
  *         description: Reorder complete
+ *       400:
+ *         description: Validation error, e.g. a missing `version`
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
- *         description: Trip not found
+ *         description: Trip, or some of the days or activities, not found
+ *       409:
+ *         description: Some days or activities have changed since their `version`
  */
 router.patch(
     "/reorder",
+    validate(reorderItinerarySchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId } = req.params;
         const { days, activities } = req.body as {
-            days?: { id: string; orderIndex: number }[];
-            activities?: { id: string; orderIndex: number }[];
+            days?: { id: string; orderIndex: number; version: number }[];
+            activities?: { id: string; orderIndex: number; version: number }[];
         };
 
-        const trip = await verifyTripOwnership(tripId, req.user!.id);
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        if (days?.length) {
-            await Promise.all(
-                days.map((d) =>
-                    prisma.itinerary.update({
-                        where: { id: d.id },
-                        data: { orderIndex: d.orderIndex },
-                    })
-                )
-            );
+        const [currentDays, currentActivities] = await Promise.all([
+            prisma.itinerary.findMany({
+                where: { tripId, id: { in: (days ?? []).map((d) => d.id) } },
+            }),
+            prisma.itineraryActivity.findMany({
+                where: { itinerary: { tripId }, id: { in: (activities ?? []).map((a) => a.id) } },
+            }),
+        ]);
+        if (currentDays.length !== (days?.length ?? 0) || currentActivities.length !== (activities?.length ?? 0)) {
+            return sendError(res, "Some days or activities are not part of this trip", 404);
         }
 
-        if (activities?.length) {
-            await Promise.all(
-                activities.map((a) =>
-                    prisma.itineraryActivity.update({
-                        where: { id: a.id },
-                        data: { orderIndex: a.orderIndex },
-                    })
-                )
-            );
+        const conflict = async () =>
+            sendError(res, "Itinerary was changed by someone else", 409, {
+                days: await prisma.itinerary.findMany({ where: { id: { in: currentDays.map((d) => d.id) } } }),
+                activities: await prisma.itineraryActivity.findMany({
+                    where: { id: { in: currentActivities.map((a) => a.id) } },
+                }),
+            });
+
+        const isStale = (item: { id: string; version: number }, current: { id: string; version: number }[]) =>
+            current.find((c) => c.id === item.id)?.version !== item.version;
+        if (
+            days?.some((d) => isStale(d, currentDays)) ||
+            activities?.some((a) => isStale(a, currentActivities))
+        ) {
+            return conflict();
+        }
+
+        try {
+            await prisma.$transaction(async (tx) => {
+                // Each write only lands if the item is still at the version the client read;
+                // anything changed since the check above rolls the whole reorder back
+                const counts = await Promise.all([
+                    ...(days ?? []).map((d) =>
+                        tx.itinerary.updateMany({
+                            where: { id: d.id, version: d.version },
+                            data: { orderIndex: d.orderIndex, version: { increment: 1 } },
+                        })
+                    ),
+                    ...(activities ?? []).map((a) =>
+                        tx.itineraryActivity.updateMany({
+                            where: { id: a.id, version: a.version },
+                            data: { orderIndex: a.orderIndex, version: { increment: 1 } },
+                        })
+                    ),
+                ]);
+                if (counts.some(({ count }) => !count)) {
+                    throw new StaleVersionError();
+                }
+
+                const [updatedDays, updatedActivities] = await Promise.all([
+                    tx.itinerary.findMany({ where: { id: { in: currentDays.map((d) => d.id) } } }),
+                    tx.itineraryActivity.findMany({ where: { id: { in: currentActivities.map((a) => a.id) } } }),
+                ]);
+                await recordTripChanges(tx, [
+                    ...updatedDays.map((day) => ({
+                        tripId,
+                        actorId: req.user!.id,
+                        entity: "DAY" as const,
+                        entityId: day.id,
+                        action: "UPDATE" as const,
+                        before: currentDays.find((d) => d.id === day.id),
+                        after: day,
+                    })),
+                    ...updatedActivities.map((activity) => ({
+                        tripId,
+                        actorId: req.user!.id,
+                        entity: "ACTIVITY" as const,
+                        entityId: activity.id,
+                        action: "UPDATE" as const,
+                        before: currentActivities.find((a) => a.id === activity.id),
+                        after: activity,
+                    })),
+                ]);
+            });
+        } catch (error) {
+            if (error instanceof StaleVersionError) {
+                return conflict();
+            }
+            throw error;
         }
 
+        publishTripEvent(tripId, "itinerary.reordered", req.user!.id, {
+            days: days?.map(({ id, orderIndex }) => ({ id, orderIndex })) ?? [],
+            activities: activities?.map(({ id, orderIndex }) => ({ id, orderIndex })) ?? [],
+        });
+
         return sendSuccess(res, null, "Reorder complete");
     })
 );
 
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/itinerary/days/{dayId}/optimize:
+ *   post:
+ *     tags: [Itinerary]
+ *     summary: Optimize a day's route
+ *     description: |
+ *       Orders the day's activities to minimise travel distance without AI
+ *       (haversine distances, nearest-neighbour tours improved with 2-opt).
+ *       Opening hours for the day's weekday and anchored activities are respected;
+ *       activities are scheduled back-to-back with travel time in between.
+ *       The same day always produces the same answer.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: dayId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               anchoredActivityIds:
+ *                 type: array
+ *                 description: Scheduled activity IDs that must keep their current start time
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               mode:
+ *                 type: string
+ *                 enum: [walk, transit, drive]
+ *                 default: walk
+ *                 description: Travel mode whose configured speed is used between activities
+ *               speedKmh:
+ *                 type: number
+ *                 description: Explicit travel speed, overriding `mode`
+ *               apply:
+ *                 type: boolean
+ *                 description: Save the new schedule instead of only returning it (needs edit access; a preview needs view access)
+ *     responses:
+ *       200:
+ *         description: Optimized schedule with estimated minutes saved and any unmet constraints
+ *       400:
+ *         description: Anchored activity is not on this day
+ *       403:
+ *         description: You cannot view this trip, or cannot edit it when `apply` is set
+ *       404:
+ *         description: Trip or day not found
+ */
+router.post(
+    "/days/:dayId/optimize",
+    validate(optimizeDaySchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, dayId } = req.params;
+        const { anchoredActivityIds, mode, apply } = req.body as {
+            anchoredActivityIds: string[];
+            mode: TravelMode;
+            speedKmh?: number;
+            apply?: boolean;
+        };
+        const speedKmh: number = req.body.speedKmh ?? travelSpeedsKmh[mode];
+
+        const access = await getTripAccess(req, tripId, apply ? "edit" : "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const day = await prisma.itinerary.findFirst({
+            where: { id: dayId, tripId },
+            include: {
+                activities: {
+                    include: { activity: true },
+                    orderBy: { orderIndex: "asc" },
+                },
+            },
+        });
+        if (!day) {
+            return sendError(res, "Day not found", 404);
+        }
+
+        const dayActivityIds = day.activities.map((ia) => ia.id);
+        if (anchoredActivityIds.some((id) => !dayActivityIds.includes(id))) {
+            return sendError(res, "Anchored activities must be scheduled on this day", 400);
+        }
+
+        const stops = buildRouteStops(day, anchoredActivityIds);
+        const options = { dayStart: dayStartMinutes(day.activities), speedKmh };
+        const before = scheduleRoute(stops, options);
+        const after = optimizeRoute(stops, options);
+
+        const schedule = after.stops.map((stop, index) => ({
+            itineraryActivityId: stop.id,
+            name: stop.name,
+            orderIndex: index,
+            startTime: minutesToTime(stop.start),
+            endTime: minutesToTime(stop.end),
+            travelMinutes: stop.travelMinutes,
+            distanceKm: Number(stop.distanceKm.toFixed(2)),
+        }));
+
+        if (apply) {
+            const changes: ScheduleChange[] = schedule.map(
+                ({ itineraryActivityId, orderIndex, startTime, endTime }) => ({
+                    itineraryActivityId,
+                    orderIndex,
+                    startTime,
+                    endTime,
+                    version: day.activities.find((ia) => ia.id === itineraryActivityId)!.version,
+                })
+            );
+            await prisma.$transaction((tx) => applyScheduleChanges(tx, changes, { tripId, actorId: req.user!.id }));
+            publishTripEvent(tripId, "itinerary.reordered", req.user!.id, scheduleEvent(changes));
+        }
+
+        return sendSuccess(res, {
+            dayId,
+            schedule,
+            distanceKm: {
+                before: Number(before.distanceKm.toFixed(2)),
+                after: Number(after.distanceKm.toFixed(2)),
+            },
+            // Negative when constraints force a longer route than the current one
+            estimatedMinutesSaved: before.travelMinutes - after.travelMinutes,
+            violations: after.violations,
+            applied: Boolean(apply),
+        });
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/itinerary/proposals:
+ *   get:
+ *     tags: [Itinerary]
+ *     summary: List pending route proposals
+ *     description: Returns route proposals (e.g. from `/ai/optimize-route` with `apply`) still waiting for a decision
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pending proposals with their schedule changes
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/proposals",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const proposals = await prisma.routeProposal.findMany({
+            where: { itinerary: { tripId }, status: "PENDING" },
+            orderBy: { createdAt: "desc" },
+        });
+
+        return sendSuccess(res, proposals);
+    })
+);
+
+// Resolves a pending route proposal; accepting applies its schedule to the day
+const resolveProposal = (decision: "ACCEPTED" | "REJECTED") =>
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, proposalId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const proposal = await prisma.routeProposal.findFirst({
+            where: { id: proposalId, itinerary: { tripId } },
+        });
+        if (!proposal) {
+            return sendError(res, "Proposal not found", 404);
+        }
+
+        if (proposal.status !== "PENDING") {
+            return sendError(res, `Proposal already ${proposal.status.toLowerCase()}`, 409);
+        }
+
+        if (decision === "REJECTED") {
+            const rejected = await prisma.routeProposal.update({
+                where: { id: proposalId },
+                data: { status: "REJECTED", resolvedAt: new Date() },
+            });
+            return sendSuccess(res, rejected, "Proposal rejected");
+        }
+
+        const changes = proposal.changes as unknown as ScheduleChange[];
+        const markStale = async () => {
+            await prisma.routeProposal.updateMany({
+                where: { id: proposalId, status: "PENDING" },
+                data: { status: "STALE", resolvedAt: new Date() },
+            });
+            return sendError(res, "Day has changed since this proposal was created", 409);
+        };
+
+        // The proposal covers the whole day, so an activity added or removed since makes it stale;
+        // proposals stored before versions were recorded cannot be checked and count as stale too
+        const scheduled = await prisma.itineraryActivity.findMany({
+            where: { itineraryId: proposal.itineraryId },
+            select: { id: true },
+        });
+        const proposedIds = new Set(changes.map((c) => c.itineraryActivityId));
+        if (
+            scheduled.length !== proposedIds.size ||
+            scheduled.some((ia) => !proposedIds.has(ia.id)) ||
+            changes.some((c) => typeof c.version !== "number")
+        ) {
+            return markStale();
+        }
+
+        let activities;
+        try {
+            activities = await prisma.$transaction(async (tx) => {
+                // Fails, rolling everything back, if any activity was edited after the proposal
+                await applyScheduleChanges(tx, changes, { tripId, actorId: req.user!.id });
+                const { count } = await tx.routeProposal.updateMany({
+                    where: { id: proposalId, status: "PENDING" },
+                    data: { status: "ACCEPTED", resolvedAt: new Date() },
+                });
+                if (!count) {
+                    throw new StaleVersionError("Proposal was resolved by someone else");
+                }
+                return tx.itineraryActivity.findMany({
+                    where: { itineraryId: proposal.itineraryId },
+                    include: { activity: true },
+                    orderBy: { orderIndex: "asc" },
+                });
+            });
+        } catch (error) {
+            if (!(error instanceof StaleVersionError)) {
+                throw error;
+            }
+            const { status } = await prisma.routeProposal.findUniqueOrThrow({ where: { id: proposalId } });
+            if (status !== "PENDING") {
+                return sendError(res, `Proposal already ${status.toLowerCase()}`, 409);
+            }
+            return markStale();
+        }
+
+        publishTripEvent(tripId, "itinerary.reordered", req.user!.id, scheduleEvent(changes));
+
+        return sendSuccess(res, activities, "Proposal accepted");
+    });
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/itinerary/proposals/{proposalId}/accept:
+ *   post:
+ *     tags: [Itinerary]
+ *     summary: Accept a route proposal
+ *     description: |
+ *       Applies the proposed order and times to the day's activities. If an activity has been
+ *       edited, added or removed since the proposal was made, nothing is applied and the
+ *       proposal is marked STALE.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: proposalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Proposal accepted; returns the day's rescheduled activities
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or proposal not found
+ *       409:
+ *         description: Proposal already resolved, or the day changed since it was made
+ */
+router.post("/proposals/:proposalId/accept", resolveProposal("ACCEPTED"));
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/itinerary/proposals/{proposalId}/reject:
+ *   post:
+ *     tags: [Itinerary]
+ *     summary: Reject a route proposal
+ *     description: Discards the proposal and leaves the day unchanged
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: proposalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Proposal rejected
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or proposal not found
+ *       409:
+ *         description: Proposal already resolved
+ */
+router.post("/proposals/:proposalId/reject", resolveProposal("REJECTED"));
+
 export default router;
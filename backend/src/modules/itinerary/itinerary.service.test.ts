@@ -0,0 +1,163 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseTime } from "../../utils/time.util";
+import { checkActivitySlot, DaySlot, planInsertion, rescheduleInOrder } from "./itinerary.service";
+
+const at = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+};
+
+const slot = (id: string, start: string, end: string, minDuration = 30): DaySlot => ({
+    id,
+    name: id.toUpperCase(),
+    start: at(start),
+    end: at(end),
+    minDuration,
+});
+
+describe("planInsertion", () => {
+    // Museum 10:00-12:00, lunch 12:30-13:30, walk 14:00-15:00
+    const day = [slot("museum", "10:00", "12:00", 90), slot("lunch", "12:30", "13:30", 45), slot("walk", "14:00", "15:00")];
+
+    it("moves nothing when the new slot fits in a gap", () => {
+        for (const mode of ["reject", "shift", "squeeze"] as const) {
+            assert.deepEqual(planInsertion(mode, at("13:30"), at("14:00"), day), { ok: true, moved: [] });
+        }
+    });
+
+    it("rejects any overlap in reject mode", () => {
+        assert.deepEqual(planInsertion("reject", at("12:00"), at("14:30"), day), {
+            ok: false,
+            reason: "Overlaps LUNCH, WALK",
+            conflictingActivityIds: ["lunch", "walk"],
+        });
+    });
+
+    it("shifts every later activity by the same amount, keeping their gaps", () => {
+        const plan = planInsertion("shift", at("12:15"), at("13:00"), day);
+
+        assert.deepEqual(plan, {
+            ok: true,
+            moved: [
+                { id: "lunch", start: at("13:00"), end: at("14:00") },
+                { id: "walk", start: at("14:30"), end: at("15:30") },
+            ],
+        });
+    });
+
+    it("does not shift an activity that starts before the new one", () => {
+        const plan = planInsertion("shift", at("11:00"), at("11:30"), day);
+
+        assert.equal(plan.ok, false);
+        assert.deepEqual(!plan.ok && plan.conflictingActivityIds, ["museum"]);
+    });
+
+    it("squeezes later activities only as far as needed, using up the gaps", () => {
+        const plan = planInsertion("squeeze", at("12:15"), at("13:00"), day);
+
+        // Lunch starts at 13:00, trimmed to its 45-minute minimum, which leaves the walk where it is
+        assert.deepEqual(plan, { ok: true, moved: [{ id: "lunch", start: at("13:00"), end: at("13:45") }] });
+    });
+
+    it("cuts an earlier activity short when squeezing in", () => {
+        const plan = planInsertion("squeeze", at("11:30"), at("12:00"), day);
+
+        assert.deepEqual(plan, { ok: true, moved: [{ id: "museum", start: at("10:00"), end: at("11:30") }] });
+    });
+
+    it("will not cut an earlier activity below its minimum length", () => {
+        const plan = planInsertion("squeeze", at("11:00"), at("12:00"), day);
+
+        assert.equal(plan.ok, false);
+        assert.deepEqual(!plan.ok && plan.conflictingActivityIds, ["museum"]);
+    });
+
+    it("fails when shifting would push activities past midnight", () => {
+        const late = [slot("dinner", "21:00", "22:30"), slot("show", "23:00", "23:50")];
+
+        const plan = planInsertion("shift", at("20:30"), at("22:00"), late);
+
+        assert.deepEqual(plan, {
+            ok: false,
+            reason: "Moving the day's activities would run past midnight",
+            conflictingActivityIds: ["show"],
+        });
+    });
+
+    it("fails when squeezing would push activities past midnight", () => {
+        const late = [slot("bar", "23:00", "23:45")];
+
+        const plan = planInsertion("squeeze", at("22:30"), at("23:40"), late);
+
+        assert.equal(plan.ok, false);
+        assert.deepEqual(!plan.ok && plan.conflictingActivityIds, ["bar"]);
+    });
+});
+
+describe("rescheduleInOrder", () => {
+    const slots = [
+        { id: "a", startTime: parseTime("09:00"), endTime: parseTime("10:00"), version: 1 },
+        { id: "b", startTime: parseTime("10:30"), endTime: parseTime("12:30"), version: 4 },
+        { id: "c", startTime: parseTime("13:30"), endTime: parseTime("14:00"), version: 2 },
+    ];
+
+    it("keeps durations and the gaps by position, and the versions planned from", () => {
+        assert.deepEqual(rescheduleInOrder(slots, ["c", "a", "b"]), [
+            { itineraryActivityId: "c", orderIndex: 0, startTime: "09:00", endTime: "09:30", version: 2 },
+            { itineraryActivityId: "a", orderIndex: 1, startTime: "10:00", endTime: "11:00", version: 1 },
+            { itineraryActivityId: "b", orderIndex: 2, startTime: "12:00", endTime: "14:00", version: 4 },
+        ]);
+    });
+
+    it("leaves the schedule as it is for the current order", () => {
+        assert.deepEqual(
+            rescheduleInOrder(slots, ["a", "b", "c"]).map(({ startTime, endTime }) => `${startTime}-${endTime}`),
+            ["09:00-10:00", "10:30-12:30", "13:30-14:00"]
+        );
+    });
+
+    it("does not carry overlaps over as negative gaps", () => {
+        const overlapping = [
+            { id: "a", startTime: parseTime("09:00"), endTime: parseTime("10:00"), version: 1 },
+            { id: "b", startTime: parseTime("09:30"), endTime: parseTime("10:30"), version: 1 },
+        ];
+
+        assert.deepEqual(
+            rescheduleInOrder(overlapping, ["b", "a"]).map(({ startTime, endTime }) => `${startTime}-${endTime}`),
+            ["09:00-10:00", "10:00-11:00"]
+        );
+    });
+
+    it("returns nothing for an empty day", () => {
+        assert.deepEqual(rescheduleInOrder([], []), []);
+    });
+});
+
+describe("checkActivitySlot", () => {
+    // 2024-06-03 is a Monday
+    const dayDate = new Date("2024-06-03T00:00:00Z");
+    const museum = { name: "Museum", openingHours: { monday: "10:00-17:00" } };
+    const others = [
+        { id: "lunch", startTime: parseTime("12:00"), endTime: parseTime("13:00"), activity: { name: "Lunch" } },
+    ];
+
+    it("finds nothing wrong with a free slot inside opening hours", () => {
+        assert.deepEqual(checkActivitySlot({ dayDate, activity: museum, startTime: "10:00", endTime: "12:00", others }), []);
+    });
+
+    it("reports the issues strict mode rejects", () => {
+        const issues = checkActivitySlot({ dayDate, activity: museum, startTime: "09:00", endTime: "12:30", others });
+
+        assert.deepEqual(issues, [
+            { code: "OUTSIDE_OPENING_HOURS", message: "Museum is open 10:00-17:00 on monday" },
+            { code: "OVERLAP", message: "Overlaps Lunch (12:00-13:00)", conflictingActivityId: "lunch" },
+        ]);
+    });
+
+    it("reports an end time that is not after the start", () => {
+        const issues = checkActivitySlot({ dayDate, activity: museum, startTime: "15:00", endTime: "14:00", others: [] });
+
+        assert.deepEqual(issues.map((issue) => issue.code), ["END_BEFORE_START"]);
+    });
+});
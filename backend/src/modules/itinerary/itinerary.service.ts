@@ -0,0 +1,334 @@
+import { Prisma } from "@prisma/client";
+import { dateToMinutes, minutesToTime, parseTime, timeToMinutes } from "../../utils/time.util";
+import { hasCoordinates, haversineKm } from "../../utils/geo.util";
+import {
+    fitsOpeningWindows,
+    formatOpeningWindows,
+    getOpeningWindows,
+    weekdayOf,
+} from "../../utils/openingHours.util";
+import { RouteStop } from "./itinerary.optimizer";
+import { recordTripChanges } from "../history/history.service";
+
+// One activity's new position and times within its day
+export interface ScheduleChange {
+    itineraryActivityId: string;
+    orderIndex: number;
+    startTime: string;
+    endTime: string;
+    // The activity's version the change was planned from; it only applies if that is still current
+    version: number;
+}
+
+/**
+ * Thrown inside a transaction when a day or activity is no longer at the
+ * version a change was based on, so the whole change rolls back (409).
+ */
+export class StaleVersionError extends Error {
+    statusCode = 409;
+
+    constructor(message = "Itinerary was changed by someone else") {
+        super(message);
+        this.name = "StaleVersionError";
+    }
+}
+
+interface ScheduledSlot {
+    id: string;
+    startTime: Date;
+    endTime: Date;
+}
+
+/**
+ * Lays a day's activities out in a new order, keeping each activity's duration.
+ * The day still starts at its original first start time, and the gaps between
+ * consecutive slots are kept by position (the first gap stays the first gap, ...).
+ */
+export const rescheduleInOrder = (
+    slots: (ScheduledSlot & { version: number })[],
+    orderedIds: string[]
+): ScheduleChange[] => {
+    const byTime = [...slots].sort((a, b) => dateToMinutes(a.startTime) - dateToMinutes(b.startTime));
+    const gaps = byTime
+        .slice(1)
+        .map((slot, i) => Math.max(0, dateToMinutes(slot.startTime) - dateToMinutes(byTime[i].endTime)));
+    const slotsById = new Map(slots.map((slot) => [slot.id, slot]));
+
+    let clock = byTime.length ? dateToMinutes(byTime[0].startTime) : 0;
+
+    return orderedIds.map((id, index) => {
+        const slot = slotsById.get(id)!;
+        const duration = Math.max(0, dateToMinutes(slot.endTime) - dateToMinutes(slot.startTime));
+        const start = clock;
+        clock = start + duration + (gaps[index] ?? 0);
+
+        return {
+            itineraryActivityId: id,
+            orderIndex: index,
+            startTime: minutesToTime(start),
+            endTime: minutesToTime(start + duration),
+            version: slot.version,
+        };
+    });
+};
+
+/**
+ * Writes schedule changes inside an existing transaction and records them in the
+ * trip's history. Throws StaleVersionError, rolling the transaction back, if any
+ * activity has changed since the changes were planned.
+ */
+export const applyScheduleChanges = async (
+    tx: Prisma.TransactionClient,
+    changes: ScheduleChange[],
+    { tripId, actorId }: { tripId: string; actorId: string }
+) => {
+    const ids = changes.map((change) => change.itineraryActivityId);
+    const before = await tx.itineraryActivity.findMany({ where: { id: { in: ids } } });
+    const counts = await Promise.all(
+        changes.map((change) =>
+            tx.itineraryActivity.updateMany({
+                where: { id: change.itineraryActivityId, version: change.version },
+                data: {
+                    orderIndex: change.orderIndex,
+                    startTime: parseTime(change.startTime),
+                    endTime: parseTime(change.endTime),
+                    version: { increment: 1 },
+                },
+            })
+        )
+    );
+    if (counts.some(({ count }) => !count)) {
+        throw new StaleVersionError("Activities were changed by someone else");
+    }
+
+    const after = await tx.itineraryActivity.findMany({ where: { id: { in: ids } } });
+    await recordTripChanges(
+        tx,
+        after.map((activity) => ({
+            tripId,
+            actorId,
+            entity: "ACTIVITY",
+            entityId: activity.id,
+            action: "UPDATE",
+            before: before.find((b) => b.id === activity.id),
+            after: activity,
+        }))
+    );
+    return after;
+};
+
+interface DayWithActivities {
+    date: Date;
+    activities: (ScheduledSlot & {
+        activity: {
+            name: string;
+            latitude: number | null;
+            longitude: number | null;
+            durationMinutes: number;
+            openingHours: Prisma.JsonValue;
+        };
+    })[];
+}
+
+/**
+ * Turns a day's scheduled activities into optimizer stops. Each stop keeps its
+ * scheduled duration (falling back to the catalogue duration), uses the opening
+ * hours for the day's weekday, and anchored activities keep their start time.
+ */
+export const buildRouteStops = (day: DayWithActivities, anchoredIds: string[] = []): RouteStop[] => {
+    const weekday = weekdayOf(day.date);
+
+    return day.activities.map((ia) => {
+        const scheduled = dateToMinutes(ia.endTime) - dateToMinutes(ia.startTime);
+        return {
+            id: ia.id,
+            name: ia.activity.name,
+            coordinates: hasCoordinates(ia.activity) ? ia.activity : null,
+            durationMinutes: scheduled > 0 ? scheduled : ia.activity.durationMinutes,
+            windows: getOpeningWindows(ia.activity.openingHours, weekday),
+            anchorStart: anchoredIds.includes(ia.id) ? dateToMinutes(ia.startTime) : null,
+        };
+    });
+};
+
+// Earliest start time of the day, used as the optimizer's starting clock
+export const dayStartMinutes = (slots: ScheduledSlot[]) =>
+    slots.length ? Math.min(...slots.map((slot) => dateToMinutes(slot.startTime))) : 0;
+
+export type ScheduleIssueCode = "END_BEFORE_START" | "OUTSIDE_OPENING_HOURS" | "OVERLAP";
+
+// A problem with an activity's time slot, returned as a warning (or an error in strict mode)
+export interface ScheduleIssue {
+    code: ScheduleIssueCode;
+    message: string;
+    conflictingActivityId?: string;
+    // Set when the issue is about another activity that was moved to make room
+    affectedActivityId?: string;
+}
+
+interface SlotCheck {
+    dayDate: Date;
+    activity: { name: string; openingHours: Prisma.JsonValue };
+    startTime: string;
+    endTime: string;
+    // Other scheduled activities on the same day
+    others: (ScheduledSlot & { activity: { name: string } })[];
+}
+
+// Checks a proposed slot against the activity's opening hours and the rest of the day
+export const checkActivitySlot = ({ dayDate, activity, startTime, endTime, others }: SlotCheck): ScheduleIssue[] => {
+    const start = timeToMinutes(startTime);
+    const end = timeToMinutes(endTime);
+    const issues: ScheduleIssue[] = [];
+
+    if (end <= start) {
+        issues.push({
+            code: "END_BEFORE_START",
+            message: `End time ${endTime} is not after start time ${startTime}`,
+        });
+    } else {
+        const weekday = weekdayOf(dayDate);
+        const windows = getOpeningWindows(activity.openingHours, weekday);
+        if (windows && !fitsOpeningWindows(windows, start, end)) {
+            issues.push({
+                code: "OUTSIDE_OPENING_HOURS",
+                message: `${activity.name} is open ${formatOpeningWindows(windows)} on ${weekday}`,
+            });
+        }
+    }
+
+    for (const other of others) {
+        if (dateToMinutes(other.startTime) < end && start < dateToMinutes(other.endTime)) {
+            issues.push({
+                code: "OVERLAP",
+                message: `Overlaps ${other.activity.name} (${minutesToTime(dateToMinutes(other.startTime))}-${minutesToTime(dateToMinutes(other.endTime))})`,
+                conflictingActivityId: other.id,
+            });
+        }
+    }
+
+    return issues;
+};
+
+export type ConflictMode = "reject" | "shift" | "squeeze";
+
+// An existing activity on the day, in minutes since midnight
+export interface DaySlot {
+    id: string;
+    name: string;
+    start: number;
+    end: number;
+    // Shortest length squeeze may cut the activity down to
+    minDuration: number;
+}
+
+export type InsertionPlan =
+    | { ok: true; moved: Pick<DaySlot, "id" | "start" | "end">[] }
+    | { ok: false; reason: string; conflictingActivityIds: string[] };
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Works out how the rest of the day has to move for a new start/end slot.
+ * - reject: any overlap fails
+ * - shift: later activities all move forward by the same amount, keeping their gaps
+ * - squeeze: later activities move only as far as needed, using up the gaps between
+ *   them and trimming time beyond their catalogue duration; an activity that starts
+ *   earlier is cut short so it ends when the new one starts
+ */
+export const planInsertion = (
+    mode: ConflictMode,
+    start: number,
+    end: number,
+    slots: DaySlot[]
+): InsertionPlan => {
+    const overlapping = slots.filter((slot) => slot.start < end && start < slot.end);
+    if (!overlapping.length) {
+        return { ok: true, moved: [] };
+    }
+
+    const fail = (reason: string, conflicts: DaySlot[]): InsertionPlan => ({
+        ok: false,
+        reason,
+        conflictingActivityIds: conflicts.map((slot) => slot.id),
+    });
+
+    if (mode === "reject") {
+        return fail(`Overlaps ${overlapping.map((slot) => slot.name).join(", ")}`, overlapping);
+    }
+
+    const moved: Pick<DaySlot, "id" | "start" | "end">[] = [];
+
+    for (const slot of overlapping.filter((s) => s.start < start)) {
+        if (mode === "squeeze" && start - slot.start >= slot.minDuration) {
+            moved.push({ id: slot.id, start: slot.start, end: start });
+        } else {
+            return fail(`${slot.name} starts before the new activity and cannot be moved out of the way`, [slot]);
+        }
+    }
+
+    const later = slots.filter((slot) => slot.start >= start).sort((a, b) => a.start - b.start);
+
+    if (mode === "shift") {
+        const delta = later.length ? end - later[0].start : 0;
+        if (delta > 0) {
+            moved.push(...later.map((slot) => ({ id: slot.id, start: slot.start + delta, end: slot.end + delta })));
+        }
+    } else {
+        let clock = end;
+        for (const slot of later) {
+            if (slot.start >= clock) break;
+            const duration = Math.min(slot.minDuration, slot.end - slot.start);
+            const slotEnd = Math.max(clock + duration, slot.end);
+            moved.push({ id: slot.id, start: clock, end: slotEnd });
+            clock = slotEnd;
+        }
+    }
+
+    const overflow = moved.filter((slot) => slot.end > DAY_MINUTES);
+    if (overflow.length) {
+        return fail("Moving the day's activities would run past midnight", slots.filter((s) => overflow.some((o) => o.id === s.id)));
+    }
+
+    return { ok: true, moved };
+};
+
+// Getting from one scheduled activity to the next
+export interface TravelLeg {
+    fromActivityId: string;
+    toActivityId: string;
+    // null when either activity has no coordinates
+    distanceKm: number | null;
+    travelMinutes: number | null;
+    gapMinutes: number;
+    // The gap is shorter than the travel time
+    tooTight: boolean;
+}
+
+interface LegStop extends ScheduledSlot {
+    activity: { latitude: number | null; longitude: number | null };
+}
+
+// Legs between consecutive activities in start-time order
+export const computeTravelLegs = (activities: LegStop[], speedKmh: number): TravelLeg[] => {
+    const ordered = [...activities].sort((a, b) => dateToMinutes(a.startTime) - dateToMinutes(b.startTime));
+
+    return ordered.slice(1).map((to, i) => {
+        const from = ordered[i];
+        const distanceKm =
+            hasCoordinates(from.activity) && hasCoordinates(to.activity)
+                ? haversineKm(from.activity, to.activity)
+                : null;
+        const travelMinutes = distanceKm === null ? null : Math.ceil((distanceKm / speedKmh) * 60);
+        const gapMinutes = dateToMinutes(to.startTime) - dateToMinutes(from.endTime);
+
+        return {
+            fromActivityId: from.id,
+            toActivityId: to.id,
+            distanceKm: distanceKm === null ? null : Number(distanceKm.toFixed(2)),
+            travelMinutes,
+            gapMinutes,
+            tooTight: travelMinutes !== null && gapMinutes < travelMinutes,
+        };
+    });
+};
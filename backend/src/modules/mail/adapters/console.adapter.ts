@@ -0,0 +1,9 @@
+import type { MailAdapter } from "../mail.adapter";
+
+// Prints emails to the server log instead of sending them, for local development
+export const consoleMailAdapter: MailAdapter = {
+    name: "console",
+    send: async ({ to, subject, text }) => {
+        console.log(`✉️  Mail to ${to}\nSubject: ${subject}\n\n${text}\n`);
+    },
+};
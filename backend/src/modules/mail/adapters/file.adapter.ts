@@ -0,0 +1,13 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { MailAdapter } from "../mail.adapter";
+
+// Writes each email to its own file in a directory, for local development and manual testing
+export const createFileMailAdapter = (directory: string): MailAdapter => ({
+    name: "file",
+    send: async ({ to, subject, text }) => {
+        await mkdir(directory, { recursive: true });
+        const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${process.hrtime.bigint()}.txt`);
+        await writeFile(file, `To: ${to}\nSubject: ${subject}\n\n${text}\n`);
+    },
+});
@@ -0,0 +1,28 @@
+import nodemailer from "nodemailer";
+import type { MailAdapter } from "../mail.adapter";
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string;
+    pass: string;
+    from: string;
+}
+
+// Sends plain-text email through an SMTP server
+export const createSmtpMailAdapter = ({ host, port, secure, user, pass, from }: SmtpOptions): MailAdapter => {
+    const transport = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        ...(user && { auth: { user, pass } }),
+    });
+
+    return {
+        name: "smtp",
+        send: async ({ to, subject, text }) => {
+            await transport.sendMail({ from, to, subject, text });
+        },
+    };
+};
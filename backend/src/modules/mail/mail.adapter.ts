@@ -0,0 +1,46 @@
+import { env } from "../../config/env.config";
+import { consoleMailAdapter } from "./adapters/console.adapter";
+import { createFileMailAdapter } from "./adapters/file.adapter";
+import { createSmtpMailAdapter } from "./adapters/smtp.adapter";
+
+export interface MailMessage {
+    // Address, optionally with a display name: `Name <name@example.com>`
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface MailAdapter {
+    name: string;
+    send: (message: MailMessage) => Promise<void>;
+}
+
+// Adapters selectable through MAIL_ADAPTER
+const adapters: Record<string, () => MailAdapter> = {
+    console: () => consoleMailAdapter,
+    file: () => createFileMailAdapter(env.MAIL_FILE_DIR),
+    smtp: () =>
+        createSmtpMailAdapter({
+            host: env.SMTP_HOST,
+            port: env.SMTP_PORT,
+            secure: env.SMTP_SECURE,
+            user: env.SMTP_USER,
+            pass: env.SMTP_PASS,
+            from: env.SMTP_FROM,
+        }),
+};
+
+let activeAdapter: MailAdapter | undefined;
+
+export const getMailAdapter = (): MailAdapter => {
+    if (!activeAdapter) {
+        const factory = adapters[env.MAIL_ADAPTER];
+        if (!factory) {
+            throw new Error(
+                `Unknown MAIL_ADAPTER "${env.MAIL_ADAPTER}". Expected one of: ${Object.keys(adapters).join(", ")}`
+            );
+        }
+        activeAdapter = factory();
+    }
+    return activeAdapter;
+};
@@ -0,0 +1,53 @@
+import { Router, Response } from "express";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { getTripAccess } from "../trips/trips.access";
+import { listTripMembers } from "./members.service";
+
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/members:
+ *   get:
+ *     tags: [Members]
+ *     summary: List trip members
+ *     description: |
+ *       The trip owner plus everyone the trip is shared with directly (not via a
+ *       public link). Any member can pay for an expense, share in its split and
+ *       see the balances; recording expenses and settlements needs edit access
+ *       (the owner or CAN_EDIT).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Members with their role (OWNER or the share permission)
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        return sendSuccess(res, await listTripMembers(tripId));
+    })
+);
+
+export default router;
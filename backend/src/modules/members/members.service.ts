@@ -0,0 +1,48 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../../config/db.config";
+
+// Shares that still grant access: person-to-person, enabled and not expired
+const activeShareWhere = (): Prisma.SharedTripWhereInput => ({
+    sharedWithId: { not: null },
+    isEnabled: true,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+export interface TripMember {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+    role: "OWNER" | "VIEW_ONLY" | "CAN_EDIT" | "CAN_COPY";
+}
+
+/**
+ * Everyone taking part in a trip: the owner plus each user it is shared with
+ * directly. Public links do not make anyone a member.
+ */
+export const listTripMembers = async (tripId: string): Promise<TripMember[]> => {
+    const trip = await prisma.trip.findUniqueOrThrow({
+        where: { id: tripId },
+        include: {
+            user: { select: { id: true, name: true, avatarUrl: true } },
+            shares: {
+                where: activeShareWhere(),
+                include: { sharedWith: { select: { id: true, name: true, avatarUrl: true } } },
+                orderBy: { createdAt: "asc" },
+            },
+        },
+    });
+
+    const members: TripMember[] = [{ ...trip.user, role: "OWNER" }];
+    for (const share of trip.shares) {
+        if (share.sharedWith && !members.some((m) => m.id === share.sharedWith!.id)) {
+            members.push({ ...share.sharedWith, role: share.permission });
+        }
+    }
+    return members;
+};
+
+// Whether every user id belongs to a member of the trip
+export const areTripMembers = async (tripId: string, userIds: string[]) => {
+    const memberIds = new Set((await listTripMembers(tripId)).map((m) => m.id));
+    return userIds.every((id) => memberIds.has(id));
+};
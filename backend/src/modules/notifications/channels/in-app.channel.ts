@@ -0,0 +1,19 @@
+import prisma from "../../../config/db.config";
+import type { NotificationChannel } from "./notification.channel";
+
+// Stores the notification so it shows up in GET /users/me/notifications
+export const inAppChannel: NotificationChannel = {
+    name: "in-app",
+    deliver: async (recipient, message) => {
+        await prisma.notification.create({
+            data: {
+                userId: recipient.id,
+                tripId: message.tripId,
+                type: message.type,
+                title: message.title,
+                message: message.message,
+                data: message.data,
+            },
+        });
+    },
+};
@@ -0,0 +1,58 @@
+import { Prisma, NotificationType } from "@prisma/client";
+import { env } from "../../../config/env.config";
+import { inAppChannel } from "./in-app.channel";
+import { createSmtpChannel } from "./smtp.channel";
+
+// What is being sent; each channel decides how to present it
+export interface NotificationMessage {
+    type: NotificationType;
+    title: string;
+    message: string;
+    tripId?: string;
+    data?: Prisma.InputJsonValue;
+}
+
+export interface NotificationRecipient {
+    id: string;
+    email: string;
+    name: string;
+}
+
+export interface NotificationChannel {
+    name: string;
+    deliver: (recipient: NotificationRecipient, message: NotificationMessage) => Promise<void>;
+}
+
+// Channels selectable through NOTIFICATION_CHANNELS
+const channels: Record<string, () => NotificationChannel> = {
+    "in-app": () => inAppChannel,
+    smtp: () =>
+        createSmtpChannel({
+            host: env.SMTP_HOST,
+            port: env.SMTP_PORT,
+            secure: env.SMTP_SECURE,
+            user: env.SMTP_USER,
+            pass: env.SMTP_PASS,
+            from: env.SMTP_FROM,
+        }),
+};
+
+let activeChannels: NotificationChannel[] | undefined;
+
+export const getNotificationChannels = (): NotificationChannel[] => {
+    if (!activeChannels) {
+        activeChannels = env.NOTIFICATION_CHANNELS.split(",")
+            .map((name) => name.trim())
+            .filter(Boolean)
+            .map((name) => {
+                const factory = channels[name];
+                if (!factory) {
+                    throw new Error(
+                        `Unknown notification channel "${name}". Expected one of: ${Object.keys(channels).join(", ")}`
+                    );
+                }
+                return factory();
+            });
+    }
+    return activeChannels;
+};
@@ -0,0 +1,18 @@
+import type { NotificationChannel } from "./notification.channel";
+import { createSmtpMailAdapter, SmtpOptions } from "../../mail/adapters/smtp.adapter";
+
+// Emails the notification as plain text
+export const createSmtpChannel = (options: SmtpOptions): NotificationChannel => {
+    const mailer = createSmtpMailAdapter(options);
+
+    return {
+        name: "smtp",
+        deliver: async (recipient, message) => {
+            await mailer.send({
+                to: `${recipient.name} <${recipient.email}>`,
+                subject: message.title,
+                text: message.message,
+            });
+        },
+    };
+};
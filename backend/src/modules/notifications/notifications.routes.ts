@@ -0,0 +1,190 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError, sendPaginated } from "../../utils/response.util";
+import { validate } from "../../middleware/validate.middleware";
+import { notificationQuerySchema, updateNotificationSchema } from "../../utils/validation.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/users/me/notifications:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: List my notifications
+ *     description: In-app notifications such as budget alerts, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: true for unread only, false for read only
+ *     responses:
+ *       200:
+ *         description: Paginated list of notifications
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ */
+router.get(
+    "/",
+    validate(notificationQuerySchema, "query"),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { page, limit, unread } = (req as any).validatedQuery as {
+            page: number;
+            limit: number;
+            unread?: boolean;
+        };
+
+        const where = {
+            userId: req.user!.id,
+            ...(unread !== undefined && { readAt: unread ? null : { not: null } }),
+        };
+
+        const [notifications, total] = await Promise.all([
+            prisma.notification.findMany({
+                where,
+                orderBy: { createdAt: "desc" },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.notification.count({ where }),
+        ]);
+
+        return sendPaginated(res, notifications, page, limit, total);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/notifications/read-all:
+ *   post:
+ *     tags: [Notifications]
+ *     summary: Mark all notifications as read
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read
+ */
+router.post(
+    "/read-all",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { count } = await prisma.notification.updateMany({
+            where: { userId: req.user!.id, readAt: null },
+            data: { readAt: new Date() },
+        });
+
+        return sendSuccess(res, { count }, "Notifications marked as read");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/notifications/{notificationId}:
+ *   patch:
+ *     tags: [Notifications]
+ *     summary: Mark a notification as read or unread
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [read]
+ *             properties:
+ *               read:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Notification updated
+ *       404:
+ *         description: Notification not found
+ */
+router.patch(
+    "/:notificationId",
+    validate(updateNotificationSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { notificationId } = req.params;
+
+        const existing = await prisma.notification.findFirst({
+            where: { id: notificationId, userId: req.user!.id },
+        });
+        if (!existing) {
+            return sendError(res, "Notification not found", 404);
+        }
+
+        const notification = await prisma.notification.update({
+            where: { id: notificationId },
+            data: { readAt: req.body.read ? existing.readAt ?? new Date() : null },
+        });
+
+        return sendSuccess(res, notification, "Notification updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/notifications/{notificationId}:
+ *   delete:
+ *     tags: [Notifications]
+ *     summary: Delete a notification
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notification deleted
+ *       404:
+ *         description: Notification not found
+ */
+router.delete(
+    "/:notificationId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { notificationId } = req.params;
+
+        const { count } = await prisma.notification.deleteMany({
+            where: { id: notificationId, userId: req.user!.id },
+        });
+        if (!count) {
+            return sendError(res, "Notification not found", 404);
+        }
+
+        return sendSuccess(res, null, "Notification deleted");
+    })
+);
+
+export default router;
@@ -0,0 +1,22 @@
+import prisma from "../../config/db.config";
+import { getNotificationChannels, NotificationMessage } from "./channels/notification.channel";
+
+/**
+ * Sends a notification to each user through every configured channel.
+ * A failing channel is logged and does not stop the others.
+ */
+export const notifyUsers = async (userIds: string[], message: NotificationMessage) => {
+    const recipients = await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, email: true, name: true },
+    });
+
+    const deliveries = getNotificationChannels().flatMap((channel) =>
+        recipients.map((recipient) =>
+            channel.deliver(recipient, message).catch((error) => {
+                console.error(`Notification channel "${channel.name}" failed:`, error);
+            })
+        )
+    );
+    await Promise.all(deliveries);
+};
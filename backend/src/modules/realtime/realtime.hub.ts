@@ -0,0 +1,84 @@
+import type { SSEStream } from "../ai/ai.stream";
+
+// Events sent over a trip's stream. Every event is written as
+// `data: {"type": ..., "content": {"actorId": ..., "data": ...}}`, except
+// presence, whose content is `{"viewers": [...]}`.
+export type TripEventType =
+    | "trip.updated"
+    | "trip.deleted"
+    | "day.created"
+    | "day.updated"
+    | "day.deleted"
+    | "activity.created"
+    | "activity.updated"
+    | "activity.deleted"
+    | "itinerary.reordered"
+    | "budget.updated"
+    | "presence";
+
+export type TripChangeType = Exclude<TripEventType, "presence">;
+
+export interface TripViewer {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+}
+
+interface Subscriber {
+    viewer: TripViewer;
+    stream: SSEStream<TripEventType>;
+}
+
+// Open streams per trip. These live in process memory, so with several API
+// instances each one only relays the changes committed through it.
+const channels = new Map<string, Set<Subscriber>>();
+
+// Users currently viewing a trip; someone with several tabs open is listed once
+export const listTripViewers = (tripId: string): TripViewer[] => {
+    const viewers = new Map<string, TripViewer>();
+    for (const { viewer } of channels.get(tripId) ?? []) {
+        viewers.set(viewer.id, viewer);
+    }
+    return [...viewers.values()];
+};
+
+const broadcastPresence = (tripId: string) => {
+    const viewers = listTripViewers(tripId);
+    for (const { stream } of channels.get(tripId) ?? []) {
+        stream.send("presence", { viewers });
+    }
+};
+
+/**
+ * Subscribes a stream to a trip's change events and announces the viewer to
+ * everyone else on the trip. Returns a function that unsubscribes it again.
+ */
+export const joinTripChannel = (
+    tripId: string,
+    viewer: TripViewer,
+    stream: SSEStream<TripEventType>
+): (() => void) => {
+    const subscriber: Subscriber = { viewer, stream };
+    const subscribers = channels.get(tripId) ?? new Set<Subscriber>();
+    subscribers.add(subscriber);
+    channels.set(tripId, subscribers);
+    broadcastPresence(tripId);
+
+    return () => {
+        subscribers.delete(subscriber);
+        if (!subscribers.size && channels.get(tripId) === subscribers) {
+            channels.delete(tripId);
+        }
+        broadcastPresence(tripId);
+    };
+};
+
+/**
+ * Sends a change to everyone viewing the trip. Call it once the change has been
+ * committed; `actorId` lets clients skip the echo of their own edits.
+ */
+export const publishTripEvent = (tripId: string, type: TripChangeType, actorId: string, data: unknown) => {
+    for (const { stream } of channels.get(tripId) ?? []) {
+        stream.send(type, { actorId, data });
+    }
+};
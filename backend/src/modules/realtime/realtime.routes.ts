@@ -0,0 +1,71 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendError } from "../../utils/response.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { getTripAccess } from "../trips/trips.access";
+import { openSSEStream } from "../ai/ai.stream";
+import { joinTripChannel, TripEventType } from "./realtime.hub";
+
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/events:
+ *   get:
+ *     tags: [Realtime]
+ *     summary: Follow live changes to a trip (SSE stream)
+ *     description: |
+ *       Streams changes collaborators commit to the trip: `trip.updated`, `trip.deleted`,
+ *       `day.created`, `day.updated`, `day.deleted`, `activity.created`, `activity.updated`,
+ *       `activity.deleted`, `itinerary.reordered` and `budget.updated`. Each event's content is
+ *       `{ actorId, data }`; `data` is the saved record, or its id for deletions. For
+ *       `budget.updated` it only names the `source` of the change (allocation, expense,
+ *       transport or trip), so clients refetch the budget in their own currency.
+ *
+ *       A `presence` event with the current `viewers` is sent whenever someone opens or closes
+ *       the stream, including straight after connecting.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: SSE stream of trip changes
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const viewer = await prisma.user.findUniqueOrThrow({
+            where: { id: req.user!.id },
+            select: { id: true, name: true, avatarUrl: true },
+        });
+
+        const stream = openSSEStream<TripEventType>(res);
+        const leave = joinTripChannel(tripId, viewer, stream);
+        res.on("close", leave);
+    })
+);
+
+export default router;
@@ -0,0 +1,83 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryRateLimitStore, createRedisRateLimitStore } from "./rateLimit.store";
+
+const START = Date.UTC(2026, 0, 1);
+
+// Moves the clock the stores read; the memory store's cleanup timer is unref'd and never fires here
+const setNow = (ms: number) => mock.method(Date, "now", () => START + ms);
+
+describe("memory rate limit store", () => {
+    afterEach(() => mock.restoreAll());
+
+    it("counts hits within a window and reports when it ends", async () => {
+        const store = createMemoryRateLimitStore();
+        setNow(0);
+
+        assert.deepEqual(await store.hit("login:1.2.3.4", 1000), { count: 1, resetAt: new Date(START + 1000) });
+        setNow(999);
+        assert.deepEqual(await store.hit("login:1.2.3.4", 1000), { count: 2, resetAt: new Date(START + 1000) });
+    });
+
+    it("starts a new window once the old one has ended", async () => {
+        const store = createMemoryRateLimitStore();
+        setNow(0);
+        await store.hit("login:1.2.3.4", 1000);
+        await store.hit("login:1.2.3.4", 1000);
+
+        setNow(1000);
+
+        assert.deepEqual(await store.hit("login:1.2.3.4", 1000), { count: 1, resetAt: new Date(START + 2000) });
+    });
+
+    it("keeps keys apart and forgets a key on reset", async () => {
+        const store = createMemoryRateLimitStore();
+        await store.hit("a", 1000);
+        await store.hit("a", 1000);
+
+        assert.equal((await store.hit("b", 1000)).count, 1);
+        await store.reset("a");
+        assert.equal((await store.hit("a", 1000)).count, 1);
+    });
+});
+
+describe("redis rate limit store", () => {
+    afterEach(() => mock.restoreAll());
+
+    const fakeRedis = (ttl: number) => {
+        let count = 0;
+        const expiries: number[] = [];
+        return {
+            expiries,
+            client: {
+                incr: async () => ++count,
+                pExpire: async (_key: string, ms: number) => expiries.push(ms),
+                pTTL: async () => ttl,
+                del: async () => (count = 0),
+            },
+        };
+    };
+
+    it("sets the expiry on the first hit only", async () => {
+        const redis = fakeRedis(400);
+        const store = createRedisRateLimitStore(redis.client);
+        setNow(0);
+
+        await store.hit("a", 1000);
+        const second = await store.hit("a", 1000);
+
+        assert.deepEqual(redis.expiries, [1000]);
+        assert.deepEqual(second, { count: 2, resetAt: new Date(START + 400) });
+    });
+
+    it("repairs a key left without an expiry", async () => {
+        const redis = fakeRedis(-1);
+        const store = createRedisRateLimitStore(redis.client);
+        setNow(0);
+
+        const hit = await store.hit("a", 1000);
+
+        assert.deepEqual(redis.expiries, [1000, 1000]);
+        assert.deepEqual(hit.resetAt, new Date(START + 1000));
+    });
+});
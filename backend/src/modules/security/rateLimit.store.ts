@@ -0,0 +1,96 @@
+// Counters for rate limiting. The operations map onto Redis (INCR + PEXPIRE on
+// the first hit, PTTL), so a shared store for several API instances can be
+// plugged in with setRateLimitStore without changing the limiter.
+export interface RateLimitHit {
+    // Hits in the current window, including this one
+    count: number;
+    // When the window ends and the count starts again
+    resetAt: Date;
+}
+
+export interface RateLimitStore {
+    name: string;
+    // Counts a hit against the key, starting a window of `windowMs` if none is running
+    hit: (key: string, windowMs: number) => Promise<RateLimitHit>;
+    reset: (key: string) => Promise<void>;
+}
+
+// The subset of a Redis client (node-redis v4 / ioredis style) the Redis store needs
+export interface RedisLikeClient {
+    incr: (key: string) => Promise<number>;
+    pExpire?: (key: string, ms: number) => Promise<unknown>;
+    pexpire?: (key: string, ms: number) => Promise<unknown>;
+    pTTL?: (key: string) => Promise<number>;
+    pttl?: (key: string) => Promise<number>;
+    del: (key: string) => Promise<unknown>;
+}
+
+// Keeps counters in process memory; fine for a single instance and for development
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    // Drop finished windows now and then so idle keys do not pile up
+    setInterval(() => {
+        const now = Date.now();
+        for (const [key, window] of windows) {
+            if (window.resetAt <= now) {
+                windows.delete(key);
+            }
+        }
+    }, 60 * 1000).unref();
+
+    return {
+        name: "memory",
+        hit: async (key, windowMs) => {
+            const now = Date.now();
+            let window = windows.get(key);
+            if (!window || window.resetAt <= now) {
+                window = { count: 0, resetAt: now + windowMs };
+                windows.set(key, window);
+            }
+            window.count += 1;
+            return { count: window.count, resetAt: new Date(window.resetAt) };
+        },
+        reset: async (key) => {
+            windows.delete(key);
+        },
+    };
+};
+
+export const createRedisRateLimitStore = (client: RedisLikeClient, prefix = "rate-limit:"): RateLimitStore => {
+    const pexpire = (key: string, ms: number) => (client.pExpire ?? client.pexpire)!.call(client, key, ms);
+    const pttl = (key: string) => (client.pTTL ?? client.pttl)!.call(client, key);
+
+    return {
+        name: "redis",
+        hit: async (key, windowMs) => {
+            const redisKey = prefix + key;
+            const count = await client.incr(redisKey);
+            if (count === 1) {
+                await pexpire(redisKey, windowMs);
+            }
+            let ttl = await pttl(redisKey);
+            // A key left without expiry (e.g. the process died between INCR and PEXPIRE)
+            if (ttl < 0) {
+                await pexpire(redisKey, windowMs);
+                ttl = windowMs;
+            }
+            return { count, resetAt: new Date(Date.now() + ttl) };
+        },
+        reset: async (key) => {
+            await client.del(prefix + key);
+        },
+    };
+};
+
+let activeStore: RateLimitStore | undefined;
+
+export const getRateLimitStore = (): RateLimitStore => {
+    activeStore ??= createMemoryRateLimitStore();
+    return activeStore;
+};
+
+// Replaces the store, e.g. with createRedisRateLimitStore(client) at startup
+export const setRateLimitStore = (store: RateLimitStore) => {
+    activeStore = store;
+};
@@ -0,0 +1,76 @@
+import { Router, Response } from "express";
+import { SecurityEventType } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { sendPaginated } from "../../utils/response.util";
+import { validate } from "../../middleware/validate.middleware";
+import { securityEventQuerySchema } from "../../utils/validation.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/users/me/security-events:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List my security events
+ *     description: |
+ *       The account's security log, newest first: successful and failed logins, logins refused
+ *       while locked, lockouts and password resets, each with the IP address and user agent.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [LOGIN_SUCCEEDED, LOGIN_FAILED, LOGIN_BLOCKED, ACCOUNT_LOCKED, PASSWORD_RESET]
+ *     responses:
+ *       200:
+ *         description: Paginated list of security events
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ */
+router.get(
+    "/",
+    validate(securityEventQuerySchema, "query"),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { page, limit, type } = (req as any).validatedQuery as {
+            page: number;
+            limit: number;
+            type?: SecurityEventType;
+        };
+
+        const where = { userId: req.user!.id, ...(type && { type }) };
+
+        const [events, total] = await Promise.all([
+            prisma.securityEvent.findMany({
+                where,
+                orderBy: { createdAt: "desc" },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.securityEvent.count({ where }),
+        ]);
+
+        return sendPaginated(res, events, page, limit, total);
+    })
+);
+
+export default router;
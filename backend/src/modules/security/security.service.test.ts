@@ -0,0 +1,81 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { stubPrisma } from "../../test/prisma";
+import { activeLockout, registerFailedLogin, registerSuccessfulLogin } from "./security.service";
+
+const client = { ipAddress: "127.0.0.1" };
+const MINUTE = 60 * 1000;
+
+let account: { failedLoginAttempts: number; lockedUntil: Date | null };
+let events: string[];
+
+stubPrisma("user", {
+    update: async ({ data }) => {
+        const { failedLoginAttempts, ...rest } = data;
+        if (typeof failedLoginAttempts === "object") {
+            account.failedLoginAttempts += failedLoginAttempts.increment;
+        } else if (failedLoginAttempts !== undefined) {
+            account.failedLoginAttempts = failedLoginAttempts;
+        }
+        Object.assign(account, rest);
+        return { ...account };
+    },
+});
+stubPrisma("securityEvent", {
+    create: async ({ data }) => {
+        events.push(data.type);
+        return data;
+    },
+});
+
+// Minutes from now until the returned lockout ends, rounded to absorb test run time
+const minutesUntil = (date: Date | null) => date && Math.round((date.getTime() - Date.now()) / MINUTE);
+
+describe("registerFailedLogin", () => {
+    beforeEach(() => {
+        account = { failedLoginAttempts: 0, lockedUntil: null };
+        events = [];
+    });
+
+    it("does not lock before the fifth failure in a row", async () => {
+        for (let attempt = 1; attempt < 5; attempt++) {
+            assert.equal(await registerFailedLogin("user-1", client), null);
+        }
+        assert.equal(account.lockedUntil, null);
+        assert.deepEqual(events, Array(4).fill("LOGIN_FAILED"));
+    });
+
+    it("locks for a minute, then twice as long with each further failure, up to an hour", async () => {
+        const lockouts = [];
+        for (let attempt = 1; attempt <= 12; attempt++) {
+            lockouts.push(minutesUntil(await registerFailedLogin("user-1", client)));
+        }
+
+        assert.deepEqual(lockouts, [null, null, null, null, 1, 2, 4, 8, 16, 32, 60, 60]);
+        assert.equal(minutesUntil(account.lockedUntil), 60);
+        assert.equal(events.filter((type) => type === "ACCOUNT_LOCKED").length, 8);
+    });
+
+    it("starts counting again after a successful sign-in", async () => {
+        for (let attempt = 1; attempt <= 5; attempt++) {
+            await registerFailedLogin("user-1", client);
+        }
+
+        await registerSuccessfulLogin("user-1", client, "password");
+
+        assert.deepEqual(account, { failedLoginAttempts: 0, lockedUntil: null });
+        assert.equal(await registerFailedLogin("user-1", client), null);
+    });
+});
+
+describe("activeLockout", () => {
+    it("returns the end of a lockout that is still running", () => {
+        const until = new Date(Date.now() + MINUTE);
+        assert.equal(activeLockout({ lockedUntil: until }), until);
+    });
+
+    it("returns null for unlocked accounts and finished lockouts", () => {
+        assert.equal(activeLockout({ lockedUntil: null }), null);
+        assert.equal(activeLockout({ lockedUntil: new Date(Date.now() - MINUTE) }), null);
+    });
+});
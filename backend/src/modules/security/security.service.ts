@@ -0,0 +1,58 @@
+import { Prisma, SecurityEventType } from "@prisma/client";
+import prisma from "../../config/db.config";
+import type { SessionClient } from "../auth/sessions.service";
+
+// Failed logins in a row before the account locks, and how long the first and longest lockouts last
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export const recordSecurityEvent = (
+    userId: string,
+    type: SecurityEventType,
+    client: SessionClient,
+    metadata?: Prisma.InputJsonObject
+) =>
+    prisma.securityEvent.create({
+        data: { userId, type, ipAddress: client.ipAddress, userAgent: client.userAgent, metadata },
+    });
+
+// The account's lockout end, if it is locked right now
+export const activeLockout = (user: { lockedUntil: Date | null }) =>
+    user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null;
+
+/**
+ * Counts a failed password login. From the fifth in a row the account locks,
+ * for a minute at first and twice as long with each further failure, up to an
+ * hour. Returns when the lockout ends, if this failure started one.
+ */
+export const registerFailedLogin = async (userId: string, client: SessionClient): Promise<Date | null> => {
+    const { failedLoginAttempts: attempts } = await prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true },
+    });
+    await recordSecurityEvent(userId, "LOGIN_FAILED", client, { attempts });
+
+    if (attempts < LOCKOUT_THRESHOLD) {
+        return null;
+    }
+
+    const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** (attempts - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+    await prisma.user.update({ where: { id: userId }, data: { lockedUntil } });
+    await recordSecurityEvent(userId, "ACCOUNT_LOCKED", client, {
+        attempts,
+        lockedForSeconds: lockoutMs / 1000,
+    });
+    return lockedUntil;
+};
+
+// Clears the failure count and records the sign-in; `method` is password, google or apple
+export const registerSuccessfulLogin = async (userId: string, client: SessionClient, method: string) => {
+    await prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+    await recordSecurityEvent(userId, "LOGIN_SUCCEEDED", client, { method });
+};
@@ -0,0 +1,117 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { respondToInvitation } from "./invitations.service";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/users/me/invitations:
+ *   get:
+ *     tags: [Sharing]
+ *     summary: List my pending invitations
+ *     description: Trips other users have invited my email address to, waiting for an answer
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of pending invitations with the trip and who sent them
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const invitations = await prisma.shareInvitation.findMany({
+            where: { inviteeId: req.user!.id, status: "PENDING", trip: { deletedAt: null } },
+            include: {
+                trip: {
+                    select: { id: true, name: true, startDate: true, endDate: true, coverPhotoUrl: true },
+                },
+                invitedBy: {
+                    select: { id: true, name: true, avatarUrl: true },
+                },
+            },
+            orderBy: { sentAt: "desc" },
+        });
+
+        return sendSuccess(res, invitations);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/invitations/{invitationId}/accept:
+ *   post:
+ *     tags: [Sharing]
+ *     summary: Accept an invitation
+ *     description: Adds the trip to my shared trips with the invitation's permission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation accepted; `shareId` is the new share
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation already answered or revoked
+ */
+router.post(
+    "/:invitationId/accept",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const result = await respondToInvitation(req.params.invitationId, req.user!.id, "ACCEPTED");
+        if (!result.ok) {
+            return sendError(res, result.reason, result.status);
+        }
+
+        return sendSuccess(res, result.invitation, "Invitation accepted");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/users/me/invitations/{invitationId}/decline:
+ *   post:
+ *     tags: [Sharing]
+ *     summary: Decline an invitation
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation declined
+ *       404:
+ *         description: Invitation not found
+ *       409:
+ *         description: Invitation already answered or revoked
+ */
+router.post(
+    "/:invitationId/decline",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const result = await respondToInvitation(req.params.invitationId, req.user!.id, "DECLINED");
+        if (!result.ok) {
+            return sendError(res, result.reason, result.status);
+        }
+
+        return sendSuccess(res, result.invitation, "Invitation declined");
+    })
+);
+
+export default router;
@@ -0,0 +1,115 @@
+import { randomBytes } from "crypto";
+import { SharePermission, ShareInvitation } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { env } from "../../config/env.config";
+import { getMailAdapter } from "../mail/mail.adapter";
+import { recordTripChange } from "../history/history.service";
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+    VIEW_ONLY: "view only",
+    CAN_COPY: "can view and copy",
+    CAN_EDIT: "can edit",
+};
+
+/**
+ * Emails an invitation to its address. A failing mail adapter is logged and
+ * reported as false so the caller decides whether that matters.
+ */
+export const sendInvitationEmail = async (invitationId: string): Promise<boolean> => {
+    const invitation = await prisma.shareInvitation.findUniqueOrThrow({
+        where: { id: invitationId },
+        include: {
+            trip: { select: { name: true } },
+            invitedBy: { select: { name: true } },
+        },
+    });
+    const { email, permission, trip, invitedBy } = invitation;
+
+    try {
+        await getMailAdapter().send({
+            to: email,
+            subject: `${invitedBy.name} invited you to "${trip.name}" on Globe Trotter`,
+            text: [
+                `${invitedBy.name} would like to share the trip "${trip.name}" with you (${PERMISSION_LABELS[permission]}).`,
+                "",
+                `Sign in or create an account with ${email} to accept or decline the invitation:`,
+                `${env.APP_URL}/invitations`,
+            ].join("\n"),
+        });
+        return true;
+    } catch (error) {
+        console.error(`Failed to send invitation ${invitationId}:`, error);
+        return false;
+    }
+};
+
+// Attaches pending invitations sent to an email address to the account that has verified it
+export const linkPendingInvitations = (userId: string, email: string) =>
+    prisma.shareInvitation.updateMany({
+        where: { email: email.toLowerCase(), inviteeId: null, status: "PENDING" },
+        data: { inviteeId: userId },
+    });
+
+export type InvitationResponse =
+    | { ok: true; invitation: ShareInvitation }
+    | { ok: false; status: 404 | 409; reason: string };
+
+/**
+ * Accepts or declines a pending invitation addressed to the user. Accepting
+ * creates the direct share the invitation describes, on behalf of the inviter.
+ */
+export const respondToInvitation = (
+    invitationId: string,
+    userId: string,
+    decision: "ACCEPTED" | "DECLINED"
+): Promise<InvitationResponse> =>
+    prisma.$transaction(async (tx) => {
+        const invitation = await tx.shareInvitation.findFirst({
+            where: { id: invitationId, inviteeId: userId, trip: { deletedAt: null } },
+        });
+        if (!invitation) {
+            return { ok: false, status: 404, reason: "Invitation not found" };
+        }
+
+        // Only the first response counts, even when two arrive at once
+        const { count } = await tx.shareInvitation.updateMany({
+            where: { id: invitationId, status: "PENDING" },
+            data: { status: decision, respondedAt: new Date() },
+        });
+        if (!count) {
+            return { ok: false, status: 409, reason: `Invitation already ${invitation.status.toLowerCase()}` };
+        }
+
+        if (decision === "DECLINED") {
+            return { ok: true, invitation: await tx.shareInvitation.findUniqueOrThrow({ where: { id: invitationId } }) };
+        }
+
+        const share = await tx.sharedTrip.create({
+            data: {
+                tripId: invitation.tripId,
+                sharedById: invitation.invitedById,
+                sharedWithId: userId,
+                publicSlug: randomBytes(8).toString("hex"),
+                permission: invitation.permission,
+                expiresAt: invitation.expiresInDays
+                    ? new Date(Date.now() + invitation.expiresInDays * 24 * 60 * 60 * 1000)
+                    : null,
+            },
+        });
+        await recordTripChange(tx, {
+            tripId: invitation.tripId,
+            actorId: userId,
+            entity: "SHARE",
+            entityId: share.id,
+            action: "CREATE",
+            after: share,
+        });
+
+        return {
+            ok: true,
+            invitation: await tx.shareInvitation.update({
+                where: { id: invitationId },
+                data: { shareId: share.id },
+            }),
+        };
+    });
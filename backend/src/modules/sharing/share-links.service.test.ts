@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { toSharedTripView } from "./share-links.service";
+
+const trip = {
+    id: "trip-1",
+    name: "Lisbon",
+    totalBudget: 1500,
+    budgets: [{ category: "FOOD", allocatedAmount: 400 }],
+    itineraries: [
+        {
+            dayNumber: 1,
+            activities: [
+                { id: "ia-1", startTime: "09:00", customCost: 25, activity: { name: "Tram 28", estimatedCost: 3 } },
+                { id: "ia-2", startTime: "13:00", customCost: null, activity: { name: "Lunch", estimatedCost: 20 } },
+            ],
+        },
+    ],
+    transportLegs: [{ id: "leg-1", mode: "TRAIN", cost: 120, currency: "EUR" }],
+};
+
+describe("toSharedTripView", () => {
+    it("returns the trip unchanged when the share includes the budget", () => {
+        assert.deepEqual(toSharedTripView(trip, true), trip);
+    });
+
+    it("leaves out the budget and every cost otherwise", () => {
+        assert.deepEqual(toSharedTripView(trip, false), {
+            id: "trip-1",
+            name: "Lisbon",
+            itineraries: [
+                {
+                    dayNumber: 1,
+                    activities: [
+                        { id: "ia-1", startTime: "09:00", activity: { name: "Tram 28", estimatedCost: 3 } },
+                        { id: "ia-2", startTime: "13:00", activity: { name: "Lunch", estimatedCost: 20 } },
+                    ],
+                },
+            ],
+            transportLegs: [{ id: "leg-1", mode: "TRAIN", currency: "EUR" }],
+        });
+    });
+
+    it("leaves out stay prices when the trip has stays", () => {
+        const withStays = { ...trip, stays: [{ id: "stay-1", name: "Casa", nightlyCost: 90 }] };
+
+        assert.deepEqual(toSharedTripView(withStays, false).stays, [{ id: "stay-1", name: "Casa" }]);
+    });
+
+    it("does not modify the trip it is given", () => {
+        toSharedTripView(trip, false);
+        assert.equal(trip.totalBudget, 1500);
+        assert.equal(trip.itineraries[0].activities[0].customCost, 25);
+        assert.equal(trip.transportLegs[0].cost, 120);
+    });
+});
@@ -0,0 +1,163 @@
+import { createHash } from "crypto";
+import bcrypt from "bcryptjs";
+import { SharedTrip } from "@prisma/client";
+import prisma from "../../config/db.config";
+
+// Holders of a password-protected link send the password in this header
+export const SHARE_PASSWORD_HEADER = "x-share-password";
+
+export const hashSharePassword = (password: string) => bcrypt.hash(password, 12);
+
+// A share as returned to its owner: the password hash is replaced by whether there is one
+export const toShareResponse = <T extends SharedTrip>({ passwordHash, ...share }: T) => ({
+    ...share,
+    hasPassword: passwordHash !== null,
+});
+
+// The parts of a shared trip that reveal what it costs
+interface TripSpending {
+    totalBudget: unknown;
+    budgets: unknown[];
+    itineraries: { activities: { customCost: unknown }[] }[];
+    transportLegs: { cost: unknown }[];
+    stays?: { nightlyCost: unknown }[];
+}
+
+/**
+ * The trip as a share shows it. Unless the share includes the budget, the
+ * budget and the trip's own costs (activity prices it set, transport fares and,
+ * when included, stay prices) are left out.
+ */
+export const toSharedTripView = <T extends TripSpending>(trip: T, includeBudget: boolean) => {
+    if (includeBudget) {
+        return trip;
+    }
+    const { totalBudget, budgets, ...rest } = trip;
+    return {
+        ...rest,
+        itineraries: trip.itineraries.map((day) => ({
+            ...day,
+            activities: day.activities.map(({ customCost, ...activity }) => activity),
+        })),
+        transportLegs: trip.transportLegs.map(({ cost, ...leg }) => leg),
+        ...(trip.stays && { stays: trip.stays.map(({ nightlyCost, ...stay }) => stay) }),
+    };
+};
+
+export type ShareLinkCheck =
+    | { ok: true }
+    | { ok: false; status: 401 | 403 | 410; reason: string; passwordRequired?: true };
+
+/**
+ * Checks a share can still be used: enabled, unexpired, under its view limit
+ * and, for a protected link, opened with the right password.
+ */
+export const checkShareLink = async (
+    share: Pick<SharedTrip, "isEnabled" | "expiresAt" | "maxViews" | "viewCount" | "passwordHash">,
+    password?: string
+): Promise<ShareLinkCheck> => {
+    if (!share.isEnabled) {
+        return { ok: false, status: 403, reason: "Share link has been disabled" };
+    }
+    if (share.expiresAt && new Date() > share.expiresAt) {
+        return { ok: false, status: 410, reason: "Share link has expired" };
+    }
+    if (share.maxViews !== null && share.viewCount >= share.maxViews) {
+        return { ok: false, status: 410, reason: "Share link has reached its view limit" };
+    }
+    if (share.passwordHash && !(password && (await bcrypt.compare(password, share.passwordHash)))) {
+        return {
+            ok: false,
+            status: 401,
+            reason: password ? "Incorrect share password" : "This share link is password protected",
+            passwordRequired: true,
+        };
+    }
+    return { ok: true };
+};
+
+export interface ShareViewer {
+    userId?: string;
+    ip?: string;
+    userAgent?: string;
+    sessionId?: string;
+}
+
+const viewerKey = ({ userId, ip, userAgent }: ShareViewer) =>
+    userId
+        ? `user:${userId}`
+        : `anon:${createHash("sha256").update(`${ip ?? ""}|${userAgent ?? ""}`).digest("hex")}`;
+
+/**
+ * Counts a view of a share link. Returns false when the view limit was reached
+ * in the meantime, so two last views at once cannot both get through.
+ */
+export const recordShareView = (shareId: string, viewer: ShareViewer): Promise<boolean> =>
+    prisma.$transaction(async (tx) => {
+        const now = new Date();
+        const { count } = await tx.sharedTrip.updateMany({
+            where: {
+                id: shareId,
+                OR: [{ maxViews: null }, { viewCount: { lt: tx.sharedTrip.fields.maxViews } }],
+            },
+            data: { viewCount: { increment: 1 }, lastViewedAt: now },
+        });
+        if (!count) {
+            return false;
+        }
+
+        await tx.shareView.upsert({
+            where: { shareId_viewerKey: { shareId, viewerKey: viewerKey(viewer) } },
+            create: { shareId, viewerKey: viewerKey(viewer), viewerId: viewer.userId, sessionId: viewer.sessionId },
+            update: { viewCount: { increment: 1 }, lastViewedAt: now, sessionId: viewer.sessionId ?? null },
+        });
+        return true;
+    });
+
+/**
+ * Counts link access through the trip routes (X-Share-Link) as a view. One
+ * signed-in session counts once, however many requests it makes; without a
+ * session every request counts. False when the link's view limit is used up.
+ */
+export const recordLinkAccess = async (shareId: string, viewer: ShareViewer): Promise<boolean> => {
+    if (viewer.sessionId) {
+        const seen = await prisma.shareView.findUnique({
+            where: { shareId_viewerKey: { shareId, viewerKey: viewerKey(viewer) } },
+            select: { sessionId: true },
+        });
+        if (seen?.sessionId === viewer.sessionId) {
+            return true;
+        }
+    }
+    return recordShareView(shareId, viewer);
+};
+
+// View analytics for a share link
+export const getShareAnalytics = async (share: SharedTrip) => {
+    const [uniqueViewers, signedInViewers, recentViewers] = await Promise.all([
+        prisma.shareView.count({ where: { shareId: share.id } }),
+        prisma.shareView.count({ where: { shareId: share.id, viewerId: { not: null } } }),
+        prisma.shareView.findMany({
+            where: { shareId: share.id, viewerId: { not: null } },
+            include: { viewer: { select: { id: true, name: true, avatarUrl: true } } },
+            orderBy: { lastViewedAt: "desc" },
+            take: 10,
+        }),
+    ]);
+
+    return {
+        shareId: share.id,
+        viewCount: share.viewCount,
+        maxViews: share.maxViews,
+        remainingViews: share.maxViews === null ? null : Math.max(share.maxViews - share.viewCount, 0),
+        lastViewedAt: share.lastViewedAt,
+        uniqueViewers,
+        anonymousViewers: uniqueViewers - signedInViewers,
+        recentViewers: recentViewers.map(({ viewer, viewCount, firstViewedAt, lastViewedAt }) => ({
+            user: viewer,
+            viewCount,
+            firstViewedAt,
+            lastViewedAt,
+        })),
+    };
+};
@@ -3,13 +3,25 @@ import { randomBytes } from "crypto";
 import prisma from "../../config/db.config";
 import { sendSuccess, sendError } from "../../utils/response.util";
 import { validate } from "../../middleware/validate.middleware";
-import { createShareSchema } from "../../utils/validation.util";
+import { createShareSchema, updateShareSchema } from "../../utils/validation.util";
 import { asyncHandler } from "../../middleware/error.middleware";
 import {
     authMiddleware,
     optionalAuthMiddleware,
     AuthRequest,
 } from "../../middleware/auth.middleware";
+import { syncBudgetSpend } from "../budget/budget.service";
+import { recordTripChange } from "../history/history.service";
+import { sendInvitationEmail } from "./invitations.service";
+import {
+    SHARE_PASSWORD_HEADER,
+    checkShareLink,
+    getShareAnalytics,
+    hashSharePassword,
+    recordShareView,
+    toSharedTripView,
+    toShareResponse,
+} from "./share-links.service";
 
 const router = Router();
 
@@ -41,7 +53,11 @@ interface TripBudgetData {
  *   post:
  *     tags: [Sharing]
  *     summary: Create share link for a trip
- *     description: Generates a public share link or shares with a specific user
+ *     description: |
+ *       Generates a public share link, or invites a specific email address. The address does
+ *       not need an account: the invitation is emailed and stays pending until its owner
+ *       signs up, verifies the address and accepts it under /users/me/invitations. Accepting
+ *       creates the share, with `expiresInDays` counted from then.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -64,13 +80,23 @@ interface TripBudgetData {
  *               sharedWithEmail:
  *                 type: string
  *                 format: email
- *                 description: Optional - share with specific user
+ *                 description: Optional - invite this address instead of creating a public link
  *               expiresInDays:
  *                 type: integer
  *                 description: Optional - days until link expires
+ *               password:
+ *                 type: string
+ *                 description: Optional - public links only; viewers must send it in the X-Share-Password header
+ *               maxViews:
+ *                 type: integer
+ *                 description: Optional - public links only; the link stops working after this many views
+ *               includeBudget:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Show the trip's budget and costs on the shared page and include them in copies
  *     responses:
  *       201:
- *         description: Share link created
+ *         description: Share link created, or for an email the invitation, with `emailSent`
  *         content:
  *           application/json:
  *             schema:
@@ -92,8 +118,14 @@ interface TripBudgetData {
  *                     expiresAt:
  *                       type: string
  *                       format: date-time
+ *                     hasPassword:
+ *                       type: boolean
+ *       400:
+ *         description: Cannot invite yourself
  *       404:
- *         description: Trip or user not found
+ *         description: Trip not found
+ *       409:
+ *         description: The address already has a pending invitation or access to this trip
  */
 router.post(
     "/trips/:tripId/share",
@@ -101,28 +133,59 @@ router.post(
     validate(createShareSchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { tripId } = req.params;
-        const { permission, sharedWithEmail, expiresInDays } = req.body;
+        const { permission, sharedWithEmail, expiresInDays, password, maxViews, includeBudget } = req.body;
 
         const trip = await prisma.trip.findFirst({
-            where: { id: tripId, userId: req.user!.id },
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
         });
 
         if (!trip) {
             return sendError(res, "Trip not found", 404);
         }
 
-        let sharedWithId: string | null = null;
-
         if (sharedWithEmail) {
-            const sharedUser = await prisma.user.findUnique({
-                where: { email: sharedWithEmail },
+            const invitee = await prisma.user.findFirst({
+                where: { email: { equals: sharedWithEmail, mode: "insensitive" } },
             });
 
-            if (!sharedUser) {
-                return sendError(res, "User not found", 404);
+            if (invitee?.id === req.user!.id) {
+                return sendError(res, "You cannot invite yourself", 400);
+            }
+
+            const [pending, activeShare] = await Promise.all([
+                prisma.shareInvitation.findFirst({
+                    where: { tripId, email: sharedWithEmail, status: "PENDING" },
+                }),
+                invitee &&
+                    prisma.sharedTrip.findFirst({
+                        where: {
+                            tripId,
+                            sharedWithId: invitee.id,
+                            OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+                        },
+                    }),
+            ]);
+            if (pending) {
+                return sendError(res, "This address already has a pending invitation; resend it instead", 409);
+            }
+            if (activeShare) {
+                return sendError(res, "This user already has access to the trip", 409);
             }
 
-            sharedWithId = sharedUser.id;
+            const invitation = await prisma.shareInvitation.create({
+                data: {
+                    tripId,
+                    invitedById: req.user!.id,
+                    email: sharedWithEmail,
+                    // Unverified accounts pick it up once they confirm the address
+                    inviteeId: invitee?.emailVerifiedAt ? invitee.id : undefined,
+                    permission: permission || "VIEW_ONLY",
+                    expiresInDays,
+                },
+            });
+            const emailSent = await sendInvitationEmail(invitation.id);
+
+            return sendSuccess(res, { ...invitation, emailSent }, "Invitation sent", 201);
         }
 
         const publicSlug = randomBytes(8).toString("hex");
@@ -131,21 +194,34 @@ router.post(
             ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
             : null;
 
-        const share = await prisma.sharedTrip.create({
-            data: {
+        const share = await prisma.$transaction(async (tx) => {
+            const created = await tx.sharedTrip.create({
+                data: {
+                    tripId,
+                    sharedById: req.user!.id,
+                    publicSlug,
+                    permission: permission || "VIEW_ONLY",
+                    expiresAt,
+                    passwordHash: password ? await hashSharePassword(password) : null,
+                    maxViews,
+                    includeBudget,
+                },
+            });
+            await recordTripChange(tx, {
                 tripId,
-                sharedById: req.user!.id,
-                sharedWithId,
-                publicSlug,
-                permission: permission || "VIEW_ONLY",
-                expiresAt,
-            },
+                actorId: req.user!.id,
+                entity: "SHARE",
+                entityId: created.id,
+                action: "CREATE",
+                after: created,
+            });
+            return created;
         });
 
         return sendSuccess(
             res,
             {
-                ...share,
+                ...toShareResponse(share),
                 shareUrl: `/shared/${publicSlug}`,
             },
             "Share link created",
@@ -160,7 +236,11 @@ router.post(
  *   get:
  *     tags: [Sharing]
  *     summary: View shared trip
- *     description: Returns trip details for a shared link. Authentication is optional - some shares may be public.
+ *     description: |
+ *       Returns trip details for a shared link. Authentication is optional - some shares may be public.
+ *       Each successful view counts towards the link's analytics and view limit, except the owner's.
+ *       The trip's budget (`totalBudget` and `budgets`) and costs (each activity's `customCost` and each
+ *       transport leg's `cost`) are only included when the share opts in.
  *     parameters:
  *       - in: path
  *         name: slug
@@ -168,15 +248,22 @@ router.post(
  *         schema:
  *           type: string
  *         description: The public share slug
+ *       - in: header
+ *         name: X-Share-Password
+ *         schema:
+ *           type: string
+ *         description: The link's password, if it has one
  *     responses:
  *       200:
  *         description: Shared trip details
+ *       401:
+ *         description: Password missing or wrong; `details.passwordRequired` is true
  *       403:
- *         description: Not authorized to view this trip
+ *         description: Not authorized to view this trip, or the link is disabled
  *       404:
  *         description: Shared trip not found
  *       410:
- *         description: Share link has expired
+ *         description: Share link has expired or reached its view limit
  */
 router.get(
     "/:slug",
@@ -203,6 +290,10 @@ router.get(
                             orderBy: { dayNumber: "asc" },
                         },
                         budgets: true,
+                        transportLegs: {
+                            include: { departureCity: true, arrivalCity: true },
+                            orderBy: { departureTime: "asc" },
+                        },
                     },
                 },
                 sharedBy: {
@@ -211,20 +302,32 @@ router.get(
             },
         });
 
-        if (!share) {
+        if (!share || share.trip.deletedAt) {
             return sendError(res, "Shared trip not found", 404);
         }
 
-        if (share.expiresAt && new Date() > share.expiresAt) {
-            return sendError(res, "Share link has expired", 410);
-        }
-
         if (share.sharedWithId && req.user?.id !== share.sharedWithId) {
             return sendError(res, "Not authorized to view this trip", 403);
         }
 
+        const check = await checkShareLink(share, req.header(SHARE_PASSWORD_HEADER));
+        if (!check.ok) {
+            return sendError(res, check.reason, check.status, check.passwordRequired ? { passwordRequired: true } : undefined);
+        }
+
+        if (req.user?.id !== share.trip.userId) {
+            const counted = await recordShareView(share.id, {
+                userId: req.user?.id,
+                ip: req.ip,
+                userAgent: req.header("user-agent"),
+            });
+            if (!counted) {
+                return sendError(res, "Share link has reached its view limit", 410);
+            }
+        }
+
         return sendSuccess(res, {
-            trip: share.trip,
+            trip: toSharedTripView(share.trip, share.includeBudget),
             sharedBy: share.sharedBy,
             permission: share.permission,
             canCopy: share.permission !== "VIEW_ONLY" || req.user !== undefined,
@@ -238,7 +341,9 @@ router.get(
  *   post:
  *     tags: [Sharing]
  *     summary: Copy shared trip to my trips
- *     description: Creates a copy of a shared trip in the authenticated user's account
+ *     description: |
+ *       Creates a copy of a shared trip in the authenticated user's account. The budget,
+ *       activity costs and transport fares are only copied when the share includes them.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -247,13 +352,22 @@ router.get(
  *         required: true
  *         schema:
  *           type: string
+ *       - in: header
+ *         name: X-Share-Password
+ *         schema:
+ *           type: string
+ *         description: The link's password, if it has one
  *     responses:
  *       201:
  *         description: Trip copied successfully
+ *       401:
+ *         description: Password missing or wrong
  *       403:
- *         description: Copy not allowed for this share
+ *         description: Copy not allowed for this share, or the link is disabled
  *       404:
  *         description: Shared trip not found
+ *       410:
+ *         description: Share link has expired or reached its view limit
  */
 router.post(
     "/:slug/copy",
@@ -270,58 +384,85 @@ router.post(
                             include: { activities: true },
                         },
                         budgets: true,
+                        transportLegs: true,
                     },
                 },
             },
         });
 
-        if (!share) {
+        if (!share || share.trip.deletedAt) {
             return sendError(res, "Shared trip not found", 404);
         }
 
+        const check = await checkShareLink(share, req.header(SHARE_PASSWORD_HEADER));
+        if (!check.ok) {
+            return sendError(res, check.reason, check.status, check.passwordRequired ? { passwordRequired: true } : undefined);
+        }
+
         if (share.permission === "VIEW_ONLY") {
             return sendError(res, "Copy not allowed for this share", 403);
         }
 
-        const newTrip = await prisma.trip.create({
-            data: {
-                userId: req.user!.id,
-                name: `${share.trip.name} (Copied)`,
-                description: share.trip.description,
-                startDate: share.trip.startDate,
-                endDate: share.trip.endDate,
-                totalBudget: share.trip.totalBudget,
-                coverPhotoUrl: share.trip.coverPhotoUrl,
-                status: "DRAFT",
-                itineraries: {
-                    create: (share.trip.itineraries as ItineraryWithActivities[]).map(
-                        (it) => ({
-                            cityId: it.cityId,
-                            dayNumber: it.dayNumber,
-                            date: it.date,
-                            notes: it.notes,
-                            orderIndex: it.orderIndex,
-                            activities: {
-                                create: it.activities.map((act) => ({
-                                    activityId: act.activityId,
-                                    startTime: act.startTime,
-                                    endTime: act.endTime,
-                                    customNotes: act.customNotes,
-                                    customCost: act.customCost,
-                                    orderIndex: act.orderIndex,
-                                })),
-                            },
-                        })
-                    ),
-                },
-                budgets: {
-                    create: (share.trip.budgets as TripBudgetData[]).map((b) => ({
-                        category: b.category as any,
-                        allocatedAmount: b.allocatedAmount,
-                        spentAmount: 0,
-                    })),
+        const newTrip = await prisma.$transaction(async (tx) => {
+            const created = await tx.trip.create({
+                data: {
+                    userId: req.user!.id,
+                    name: `${share.trip.name} (Copied)`,
+                    description: share.trip.description,
+                    startDate: share.trip.startDate,
+                    endDate: share.trip.endDate,
+                    totalBudget: share.includeBudget ? share.trip.totalBudget : null,
+                    currency: share.trip.currency,
+                    coverPhotoUrl: share.trip.coverPhotoUrl,
+                    status: "DRAFT",
+                    itineraries: {
+                        create: (share.trip.itineraries as ItineraryWithActivities[]).map(
+                            (it) => ({
+                                cityId: it.cityId,
+                                dayNumber: it.dayNumber,
+                                date: it.date,
+                                notes: it.notes,
+                                orderIndex: it.orderIndex,
+                                activities: {
+                                    create: it.activities.map((act) => ({
+                                        activityId: act.activityId,
+                                        startTime: act.startTime,
+                                        endTime: act.endTime,
+                                        customNotes: act.customNotes,
+                                        customCost: share.includeBudget ? act.customCost : null,
+                                        orderIndex: act.orderIndex,
+                                    })),
+                                },
+                            })
+                        ),
+                    },
+                    budgets: {
+                        create: (share.includeBudget ? (share.trip.budgets as TripBudgetData[]) : []).map((b) => ({
+                            category: b.category as any,
+                            allocatedAmount: b.allocatedAmount,
+                            spentAmount: 0,
+                        })),
+                    },
+                    transportLegs: {
+                        create: share.trip.transportLegs.map((leg) => ({
+                            mode: leg.mode,
+                            departureCityId: leg.departureCityId,
+                            arrivalCityId: leg.arrivalCityId,
+                            departureTime: leg.departureTime,
+                            arrivalTime: leg.arrivalTime,
+                            cost: share.includeBudget ? leg.cost : 0,
+                            currency: leg.currency,
+                            bookingReference: leg.bookingReference,
+                            notes: leg.notes,
+                        })),
+                    },
                 },
-            },
+            });
+
+            if (share.trip.transportLegs.length) {
+                await syncBudgetSpend(tx, created.id);
+            }
+            return created;
         });
 
         return sendSuccess(res, newTrip, "Trip copied successfully", 201);
@@ -354,7 +495,7 @@ router.post(
  *       200:
  *         description: Share revoked
  *       404:
- *         description: Trip not found
+ *         description: Trip or share not found
  */
 router.delete(
     "/trips/:tripId/share/:shareId",
@@ -363,21 +504,196 @@ router.delete(
         const { tripId, shareId } = req.params;
 
         const trip = await prisma.trip.findFirst({
-            where: { id: tripId, userId: req.user!.id },
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
         });
 
         if (!trip) {
             return sendError(res, "Trip not found", 404);
         }
 
-        await prisma.sharedTrip.delete({
-            where: { id: shareId },
+        const share = await prisma.sharedTrip.findFirst({
+            where: { id: shareId, tripId },
+        });
+        if (!share) {
+            return sendError(res, "Share not found", 404);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.sharedTrip.delete({ where: { id: shareId } });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "SHARE",
+                entityId: shareId,
+                action: "DELETE",
+                before: share,
+            });
         });
 
         return sendSuccess(res, null, "Share revoked");
     })
 );
 
+/**
+ * @openapi
+ * /api/v1/sharing/trips/{tripId}/share/{shareId}:
+ *   patch:
+ *     tags: [Sharing]
+ *     summary: Update a share
+ *     description: |
+ *       Changes a share's permission or settings. `isEnabled: false` switches a link off without
+ *       deleting it or its analytics. Setting `password` or `maxViews` to null removes them.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               permission:
+ *                 type: string
+ *                 enum: [VIEW_ONLY, CAN_EDIT, CAN_COPY]
+ *               isEnabled:
+ *                 type: boolean
+ *               password:
+ *                 type: string
+ *                 nullable: true
+ *               maxViews:
+ *                 type: integer
+ *                 nullable: true
+ *               includeBudget:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Share updated
+ *       400:
+ *         description: Passwords and view limits only apply to public links
+ *       404:
+ *         description: Trip or share not found
+ */
+router.patch(
+    "/trips/:tripId/share/:shareId",
+    authMiddleware,
+    validate(updateShareSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, shareId } = req.params;
+        const { password, ...data } = req.body;
+
+        const trip = await prisma.trip.findFirst({
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
+        });
+
+        if (!trip) {
+            return sendError(res, "Trip not found", 404);
+        }
+
+        const share = await prisma.sharedTrip.findFirst({
+            where: { id: shareId, tripId },
+        });
+        if (!share) {
+            return sendError(res, "Share not found", 404);
+        }
+
+        if (share.sharedWithId && (password || data.maxViews)) {
+            return sendError(res, "Passwords and view limits only apply to public links", 400);
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            const result = await tx.sharedTrip.update({
+                where: { id: shareId },
+                data: {
+                    ...data,
+                    ...(password !== undefined && {
+                        passwordHash: password === null ? null : await hashSharePassword(password),
+                    }),
+                },
+            });
+            await recordTripChange(tx, {
+                tripId,
+                actorId: req.user!.id,
+                entity: "SHARE",
+                entityId: shareId,
+                action: "UPDATE",
+                before: share,
+                after: result,
+            });
+            return result;
+        });
+
+        return sendSuccess(res, toShareResponse(updated), "Share updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/sharing/trips/{tripId}/share/{shareId}/analytics:
+ *   get:
+ *     tags: [Sharing]
+ *     summary: Get a share link's view analytics
+ *     description: |
+ *       Total views, views left under the limit, when it was last viewed and how many distinct
+ *       people viewed it. Anonymous viewers are told apart by IP address and browser, so the
+ *       unique count is an estimate. The owner's own views are not counted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: View analytics, with the most recent signed-in viewers
+ *       404:
+ *         description: Trip or share not found
+ */
+router.get(
+    "/trips/:tripId/share/:shareId/analytics",
+    authMiddleware,
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, shareId } = req.params;
+
+        const trip = await prisma.trip.findFirst({
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
+        });
+
+        if (!trip) {
+            return sendError(res, "Trip not found", 404);
+        }
+
+        const share = await prisma.sharedTrip.findFirst({
+            where: { id: shareId, tripId },
+        });
+        if (!share) {
+            return sendError(res, "Share not found", 404);
+        }
+
+        return sendSuccess(res, await getShareAnalytics(share));
+    })
+);
+
 /**
  * @openapi
  * /api/v1/sharing/trips/{tripId}/shares:
@@ -407,7 +723,7 @@ router.get(
         const { tripId } = req.params;
 
         const trip = await prisma.trip.findFirst({
-            where: { id: tripId, userId: req.user!.id },
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
         });
 
         if (!trip) {
@@ -423,7 +739,192 @@ router.get(
             },
         });
 
-        return sendSuccess(res, shares);
+        return sendSuccess(res, shares.map(toShareResponse));
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/sharing/trips/{tripId}/invitations:
+ *   get:
+ *     tags: [Sharing]
+ *     summary: List a trip's invitations
+ *     description: Every invitation sent for the trip, newest first, whatever its status
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: List of invitations
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/trips/:tripId/invitations",
+    authMiddleware,
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const trip = await prisma.trip.findFirst({
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
+        });
+
+        if (!trip) {
+            return sendError(res, "Trip not found", 404);
+        }
+
+        const invitations = await prisma.shareInvitation.findMany({
+            where: { tripId },
+            include: {
+                invitee: {
+                    select: { id: true, name: true, avatarUrl: true },
+                },
+            },
+            orderBy: { createdAt: "desc" },
+        });
+
+        return sendSuccess(res, invitations);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/sharing/trips/{tripId}/invitations/{invitationId}/resend:
+ *   post:
+ *     tags: [Sharing]
+ *     summary: Resend an invitation email
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation email sent again
+ *       404:
+ *         description: Trip or invitation not found
+ *       409:
+ *         description: Invitation is no longer pending
+ *       502:
+ *         description: The email could not be sent
+ */
+router.post(
+    "/trips/:tripId/invitations/:invitationId/resend",
+    authMiddleware,
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, invitationId } = req.params;
+
+        const trip = await prisma.trip.findFirst({
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
+        });
+
+        if (!trip) {
+            return sendError(res, "Trip not found", 404);
+        }
+
+        const invitation = await prisma.shareInvitation.findFirst({
+            where: { id: invitationId, tripId },
+        });
+
+        if (!invitation) {
+            return sendError(res, "Invitation not found", 404);
+        }
+
+        if (invitation.status !== "PENDING") {
+            return sendError(res, `Invitation already ${invitation.status.toLowerCase()}`, 409);
+        }
+
+        if (!(await sendInvitationEmail(invitationId))) {
+            return sendError(res, "Could not send the invitation email", 502);
+        }
+
+        const resent = await prisma.shareInvitation.update({
+            where: { id: invitationId },
+            data: { sentAt: new Date() },
+        });
+
+        return sendSuccess(res, resent, "Invitation resent");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/sharing/trips/{tripId}/invitations/{invitationId}:
+ *   delete:
+ *     tags: [Sharing]
+ *     summary: Revoke an invitation
+ *     description: Withdraws a pending invitation. Once accepted, revoke the share instead.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       404:
+ *         description: Trip or invitation not found
+ *       409:
+ *         description: Invitation is no longer pending
+ */
+router.delete(
+    "/trips/:tripId/invitations/:invitationId",
+    authMiddleware,
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, invitationId } = req.params;
+
+        const trip = await prisma.trip.findFirst({
+            where: { id: tripId, userId: req.user!.id, deletedAt: null },
+        });
+
+        if (!trip) {
+            return sendError(res, "Trip not found", 404);
+        }
+
+        const invitation = await prisma.shareInvitation.findFirst({
+            where: { id: invitationId, tripId },
+        });
+
+        if (!invitation) {
+            return sendError(res, "Invitation not found", 404);
+        }
+
+        const { count } = await prisma.shareInvitation.updateMany({
+            where: { id: invitationId, status: "PENDING" },
+            data: { status: "REVOKED", respondedAt: new Date() },
+        });
+
+        if (!count) {
+            return sendError(res, `Invitation already ${invitation.status.toLowerCase()}`, 409);
+        }
+
+        return sendSuccess(res, null, "Invitation revoked");
     })
 );
 
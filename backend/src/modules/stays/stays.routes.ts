@@ -0,0 +1,318 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { validate } from "../../middleware/validate.middleware";
+import { createStaySchema, updateStaySchema } from "../../utils/validation.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { canSeeBudget, getTripAccess } from "../trips/trips.access";
+import { listNights, nightsWithoutLodging, stayCost } from "./stays.service";
+import { getUserCurrency } from "../currency/currency.service";
+
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/stays:
+ *   get:
+ *     tags: [Stays]
+ *     summary: List stays
+ *     description: Returns the trip's lodging with per-stay nights and cost, plus trip nights that have no lodging
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stays, total cost and nightsWithoutLodging (YYYY-MM-DD)
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+        const { trip } = access;
+
+        const stays = await prisma.stay.findMany({
+            where: { tripId },
+            include: { city: true },
+            orderBy: { checkIn: "asc" },
+        });
+
+        const withCosts = stays.map((stay) => ({
+            ...stay,
+            nights: listNights(stay.checkIn, stay.checkOut).length,
+            totalCost: stayCost(stay),
+        }));
+
+        if (!canSeeBudget(access)) {
+            return sendSuccess(res, {
+                stays: withCosts.map(({ nightlyCost, totalCost, ...stay }) => stay),
+                nightsWithoutLodging: nightsWithoutLodging(trip, stays),
+            });
+        }
+
+        return sendSuccess(res, {
+            stays: withCosts,
+            totalCost: withCosts.reduce((sum, stay) => sum + stay.totalCost, 0),
+            nightsWithoutLodging: nightsWithoutLodging(trip, stays),
+        });
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/stays:
+ *   post:
+ *     tags: [Stays]
+ *     summary: Add a stay
+ *     description: Records lodging for the nights from check-in up to check-out
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [cityId, name, checkIn, checkOut]
+ *             properties:
+ *               cityId:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *                 example: "Hotel Le Marais"
+ *               address:
+ *                 type: string
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               checkIn:
+ *                 type: string
+ *                 format: date
+ *               checkOut:
+ *                 type: string
+ *                 format: date
+ *               nightlyCost:
+ *                 type: number
+ *                 example: 140
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
+ *                 description: Defaults to your profile currency
+ *               confirmationNumber:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Stay added
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or city not found
+ */
+router.post(
+    "/",
+    validate(createStaySchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const city = await prisma.city.findUnique({ where: { id: req.body.cityId } });
+        if (!city) {
+            return sendError(res, "City not found", 404);
+        }
+
+        const stay = await prisma.stay.create({
+            data: {
+                ...req.body,
+                tripId,
+                currency: req.body.currency ?? (await getUserCurrency(req.user!.id)),
+            },
+            include: { city: true },
+        });
+
+        return sendSuccess(res, stay, "Stay added", 201);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/stays/{stayId}:
+ *   patch:
+ *     tags: [Stays]
+ *     summary: Update a stay
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: stayId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cityId:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               checkIn:
+ *                 type: string
+ *                 format: date
+ *               checkOut:
+ *                 type: string
+ *                 format: date
+ *               nightlyCost:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               confirmationNumber:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Stay updated
+ *       400:
+ *         description: Check-out is not after check-in
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip, stay, or city not found
+ */
+router.patch(
+    "/:stayId",
+    validate(updateStaySchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, stayId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const existing = await prisma.stay.findFirst({ where: { id: stayId, tripId } });
+        if (!existing) {
+            return sendError(res, "Stay not found", 404);
+        }
+
+        const checkIn: Date = req.body.checkIn ?? existing.checkIn;
+        const checkOut: Date = req.body.checkOut ?? existing.checkOut;
+        if (checkOut <= checkIn) {
+            return sendError(res, "Check-out must be after check-in", 400);
+        }
+
+        if (req.body.cityId) {
+            const city = await prisma.city.findUnique({ where: { id: req.body.cityId } });
+            if (!city) {
+                return sendError(res, "City not found", 404);
+            }
+        }
+
+        const stay = await prisma.stay.update({
+            where: { id: stayId },
+            data: req.body,
+            include: { city: true },
+        });
+
+        return sendSuccess(res, stay, "Stay updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/stays/{stayId}:
+ *   delete:
+ *     tags: [Stays]
+ *     summary: Remove a stay
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: stayId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stay removed
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or stay not found
+ */
+router.delete(
+    "/:stayId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, stayId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const existing = await prisma.stay.findFirst({ where: { id: stayId, tripId } });
+        if (!existing) {
+            return sendError(res, "Stay not found", 404);
+        }
+
+        await prisma.stay.delete({ where: { id: stayId } });
+
+        return sendSuccess(res, null, "Stay removed");
+    })
+);
+
+export default router;
@@ -0,0 +1,36 @@
+import { calendarDate } from "../../utils/time.util";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StayNights {
+    checkIn: Date;
+    checkOut: Date;
+    nightlyCost: unknown;
+}
+
+// Each night of a date range as "YYYY-MM-DD", excluding the final (departure) day
+export const listNights = (from: Date, to: Date): string[] => {
+    const nights: string[] = [];
+    const start = Date.parse(calendarDate(from));
+    const end = Date.parse(calendarDate(to));
+    for (let day = start; day < end; day += DAY_MS) {
+        nights.push(calendarDate(new Date(day)));
+    }
+    return nights;
+};
+
+// The stay covering the night that starts on `date`, if any
+export const stayForNight = <T extends StayNights>(stays: T[], date: Date): T | null => {
+    const night = calendarDate(date);
+    return stays.find((stay) => calendarDate(stay.checkIn) <= night && night < calendarDate(stay.checkOut)) ?? null;
+};
+
+export const stayCost = (stay: StayNights) =>
+    listNights(stay.checkIn, stay.checkOut).length * Number(stay.nightlyCost);
+
+// Trip nights (startDate up to endDate) that no stay covers
+export const nightsWithoutLodging = (
+    trip: { startDate: Date; endDate: Date },
+    stays: StayNights[]
+): string[] =>
+    listNights(trip.startDate, trip.endDate).filter((night) => !stayForNight(stays, new Date(night)));
@@ -0,0 +1,334 @@
+import { Router, Response } from "express";
+import prisma from "../../config/db.config";
+import { sendSuccess, sendError } from "../../utils/response.util";
+import { validate } from "../../middleware/validate.middleware";
+import {
+    createTransportLegSchema,
+    updateTransportLegSchema,
+} from "../../utils/validation.util";
+import { asyncHandler } from "../../middleware/error.middleware";
+import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { canSeeBudget, getTripAccess } from "../trips/trips.access";
+import { syncBudgetSpend } from "../budget/budget.service";
+import { evaluateBudgetAlerts } from "../budget/budget.alerts";
+import { publishTripEvent } from "../realtime/realtime.hub";
+import { getUserCurrency } from "../currency/currency.service";
+
+const router = Router({ mergeParams: true });
+
+// All routes require authentication
+router.use(authMiddleware);
+
+// Helper to check that both cities of a leg exist
+const citiesExist = async (...cityIds: string[]) => {
+    const unique = [...new Set(cityIds)];
+    const count = await prisma.city.count({ where: { id: { in: unique } } });
+    return count === unique.length;
+};
+
+const legInclude = { departureCity: true, arrivalCity: true } as const;
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/transport:
+ *   get:
+ *     tags: [Transport]
+ *     summary: List transport legs
+ *     description: Returns the trip's inter-city transport legs in departure order
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Transport legs with departure and arrival cities
+ *       404:
+ *         description: Trip not found
+ */
+router.get(
+    "/",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const legs = await prisma.transportLeg.findMany({
+            where: { tripId },
+            include: legInclude,
+            orderBy: { departureTime: "asc" },
+        });
+
+        return sendSuccess(res, canSeeBudget(access) ? legs : legs.map(({ cost, ...leg }) => leg));
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/transport:
+ *   post:
+ *     tags: [Transport]
+ *     summary: Add a transport leg
+ *     description: Adds a leg between two cities; its cost is added to the TRANSPORT budget spend
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mode, departureCityId, arrivalCityId, departureTime, arrivalTime]
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [FLIGHT, TRAIN, BUS, CAR, FERRY, OTHER]
+ *               departureCityId:
+ *                 type: string
+ *                 format: uuid
+ *               arrivalCityId:
+ *                 type: string
+ *                 format: uuid
+ *               departureTime:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2025-06-03T09:15:00+02:00"
+ *               arrivalTime:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2025-06-03T20:40:00+02:00"
+ *               cost:
+ *                 type: number
+ *                 example: 120
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
+ *                 description: Defaults to your profile currency
+ *               bookingReference:
+ *                 type: string
+ *                 example: "TGV-8XK2Q"
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Transport leg added
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or city not found
+ */
+router.post(
+    "/",
+    validate(createTransportLegSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        if (!(await citiesExist(req.body.departureCityId, req.body.arrivalCityId))) {
+            return sendError(res, "City not found", 404);
+        }
+
+        const leg = await prisma.$transaction(async (tx) => {
+            const created = await tx.transportLeg.create({
+                data: {
+                    ...req.body,
+                    tripId,
+                    currency: req.body.currency ?? (await getUserCurrency(req.user!.id)),
+                },
+                include: legInclude,
+            });
+            await syncBudgetSpend(tx, tripId);
+            return created;
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "transport" });
+
+        return sendSuccess(res, leg, "Transport leg added", 201);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/transport/{legId}:
+ *   patch:
+ *     tags: [Transport]
+ *     summary: Update a transport leg
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: legId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [FLIGHT, TRAIN, BUS, CAR, FERRY, OTHER]
+ *               departureCityId:
+ *                 type: string
+ *                 format: uuid
+ *               arrivalCityId:
+ *                 type: string
+ *                 format: uuid
+ *               departureTime:
+ *                 type: string
+ *                 format: date-time
+ *               arrivalTime:
+ *                 type: string
+ *                 format: date-time
+ *               cost:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               bookingReference:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transport leg updated
+ *       400:
+ *         description: Arrival is not after departure
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip, leg, or city not found
+ */
+router.patch(
+    "/:legId",
+    validate(updateTransportLegSchema),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, legId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const existing = await prisma.transportLeg.findFirst({
+            where: { id: legId, tripId },
+        });
+        if (!existing) {
+            return sendError(res, "Transport leg not found", 404);
+        }
+
+        const departureTime: Date = req.body.departureTime ?? existing.departureTime;
+        const arrivalTime: Date = req.body.arrivalTime ?? existing.arrivalTime;
+        if (arrivalTime <= departureTime) {
+            return sendError(res, "Arrival must be after departure", 400);
+        }
+
+        if (
+            !(await citiesExist(
+                req.body.departureCityId ?? existing.departureCityId,
+                req.body.arrivalCityId ?? existing.arrivalCityId
+            ))
+        ) {
+            return sendError(res, "City not found", 404);
+        }
+
+        const leg = await prisma.$transaction(async (tx) => {
+            const updated = await tx.transportLeg.update({
+                where: { id: legId },
+                data: req.body,
+                include: legInclude,
+            });
+            await syncBudgetSpend(tx, tripId);
+            return updated;
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "transport" });
+
+        return sendSuccess(res, leg, "Transport leg updated");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{tripId}/transport/{legId}:
+ *   delete:
+ *     tags: [Transport]
+ *     summary: Remove a transport leg
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tripId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: legId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Transport leg removed
+ *       403:
+ *         description: You need edit access to this trip
+ *       404:
+ *         description: Trip or leg not found
+ */
+router.delete(
+    "/:legId",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { tripId, legId } = req.params;
+
+        const access = await getTripAccess(req, tripId, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const existing = await prisma.transportLeg.findFirst({
+            where: { id: legId, tripId },
+        });
+        if (!existing) {
+            return sendError(res, "Transport leg not found", 404);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.transportLeg.delete({ where: { id: legId } });
+            await syncBudgetSpend(tx, tripId);
+        });
+        await evaluateBudgetAlerts(tripId);
+        publishTripEvent(tripId, "budget.updated", req.user!.id, { source: "transport" });
+
+        return sendSuccess(res, null, "Transport leg removed");
+    })
+);
+
+export default router;
@@ -0,0 +1,130 @@
+import { SharedTrip, SharePermission, Trip } from "@prisma/client";
+import prisma from "../../config/db.config";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { checkShareLink, recordLinkAccess, SHARE_PASSWORD_HEADER } from "../sharing/share-links.service";
+
+// What someone may do with a trip, lowest to highest; each level includes the ones below
+export const TRIP_ACCESS_LEVELS = ["view", "copy", "edit", "owner"] as const;
+
+export type TripAccessLevel = (typeof TRIP_ACCESS_LEVELS)[number];
+
+const PERMISSION_LEVELS: Record<SharePermission, TripAccessLevel> = {
+    VIEW_ONLY: "view",
+    CAN_COPY: "copy",
+    CAN_EDIT: "edit",
+};
+
+// Link holders send the share slug in this header to use the regular trip routes
+export const SHARE_LINK_HEADER = "x-share-link";
+
+export interface TripAccess {
+    trip: Trip;
+    level: TripAccessLevel;
+    // owner, a share addressed to the user, or a share link they hold
+    via: "owner" | "share" | "link";
+    // The share that grants access; null for the owner
+    share: SharedTrip | null;
+}
+
+export type TripAccessResult =
+    | ({ ok: true } & TripAccess)
+    | { ok: false; status: 403 | 404; error: string };
+
+const rank = (level: TripAccessLevel) => TRIP_ACCESS_LEVELS.indexOf(level);
+
+/**
+ * Works out a user's access to a trip: the owner has full access, otherwise the
+ * best unexpired share wins, either addressed to the user (sharedWithId) or a
+ * public link (no sharedWithId) whose slug the user presents, along with its
+ * password if it has one. Disabled shares and used-up links do not count.
+ * Using a link counts as a view of it (once per session), so its view limit
+ * holds on these routes too. Null = no access, which includes trips in the trash.
+ */
+export const resolveTripAccess = async (
+    tripId: string,
+    userId: string,
+    shareSlug?: string,
+    sharePassword?: string,
+    sessionId?: string
+): Promise<TripAccess | null> => {
+    const trip = await prisma.trip.findUnique({ where: { id: tripId } });
+    if (!trip || trip.deletedAt) {
+        return null;
+    }
+    if (trip.userId === userId) {
+        return { trip, level: "owner", via: "owner", share: null };
+    }
+
+    const shares = await prisma.sharedTrip.findMany({
+        where: {
+            tripId,
+            isEnabled: true,
+            AND: [
+                { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+                {
+                    OR: [
+                        { sharedWithId: userId },
+                        ...(shareSlug ? [{ publicSlug: shareSlug, sharedWithId: null }] : []),
+                    ],
+                },
+            ],
+        },
+    });
+
+    const usable: { share: SharedTrip; level: TripAccessLevel }[] = [];
+    for (const share of shares) {
+        if (!share.sharedWithId && !(await checkShareLink(share, sharePassword)).ok) {
+            continue;
+        }
+        usable.push({ share, level: PERMISSION_LEVELS[share.permission] });
+    }
+    // Best level first; on a tie a direct share wins so no link view is counted
+    usable.sort(
+        (a, b) => rank(b.level) - rank(a.level) || Number(!a.share.sharedWithId) - Number(!b.share.sharedWithId)
+    );
+
+    for (const { share, level } of usable) {
+        if (share.sharedWithId) {
+            return { trip, level, via: "share", share };
+        }
+        if (await recordLinkAccess(share.id, { userId, sessionId })) {
+            return { trip, level, via: "link", share };
+        }
+    }
+    return null;
+};
+
+/**
+ * Resolves the requester's access to a trip and checks it reaches `required`.
+ * No access at all is reported as 404 so trip ids are not leaked; access that
+ * is too low is a 403.
+ */
+export const getTripAccess = async (
+    req: AuthRequest,
+    tripId: string,
+    required: TripAccessLevel
+): Promise<TripAccessResult> => {
+    const access = await resolveTripAccess(
+        tripId,
+        req.user!.id,
+        req.header(SHARE_LINK_HEADER),
+        req.header(SHARE_PASSWORD_HEADER),
+        req.user!.sessionId
+    );
+    if (!access) {
+        return { ok: false, status: 404, error: "Trip not found" };
+    }
+    if (rank(access.level) < rank(required)) {
+        return {
+            ok: false,
+            status: 403,
+            error: required === "owner" ? "Only the trip owner can do this" : `You need ${required} access to this trip`,
+        };
+    }
+    return { ok: true, ...access };
+};
+
+// Link holders only see the trip's budget and costs when the link includes them
+export const canSeeBudget = (access: TripAccess) => access.via !== "link" || access.share!.includeBudget;
+
+export const BUDGET_HIDDEN_ERROR = "This share link does not include the trip's budget";
@@ -9,6 +9,13 @@ import {
 } from "../../utils/validation.util";
 import { asyncHandler } from "../../middleware/error.middleware";
 import { authMiddleware, AuthRequest } from "../../middleware/auth.middleware";
+import { syncBudgetSpend } from "../budget/budget.service";
+import { evaluateBudgetAlerts } from "../budget/budget.alerts";
+import { publishTripEvent } from "../realtime/realtime.hub";
+import { canSeeBudget, getTripAccess } from "./trips.access";
+import { recordTripChange } from "../history/history.service";
+import { getUserCurrency } from "../currency/currency.service";
+import { toSharedTripView } from "../sharing/share-links.service";
 
 const router = Router();
 
@@ -57,6 +64,7 @@ router.get(
 
         const where = {
             userId: req.user!.id,
+            deletedAt: null,
             ...(status && { status: status as any }),
         };
 
@@ -87,6 +95,141 @@ router.get(
     })
 );
 
+/**
+ * @openapi
+ * /api/v1/trips/shared:
+ *   get:
+ *     tags: [Trips]
+ *     summary: List trips shared with me
+ *     description: |
+ *       Trips other users have shared with you directly (not via public links),
+ *       with your permission and who shared them. Expired shares are left out.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Paginated list of shared trips
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ */
+router.get(
+    "/shared",
+    validate(paginationSchema, "query"),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { page, limit } = (req as any).validatedQuery;
+
+        const where = {
+            sharedWithId: req.user!.id,
+            isEnabled: true,
+            trip: { deletedAt: null },
+            OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        };
+
+        const [shares, total] = await Promise.all([
+            prisma.sharedTrip.findMany({
+                where,
+                include: {
+                    trip: {
+                        include: {
+                            itineraries: {
+                                include: {
+                                    city: {
+                                        select: { id: true, name: true, country: true, imageUrl: true },
+                                    },
+                                },
+                                orderBy: { dayNumber: "asc" },
+                            },
+                            _count: {
+                                select: { itineraries: true },
+                            },
+                        },
+                    },
+                    sharedBy: {
+                        select: { id: true, name: true, avatarUrl: true },
+                    },
+                },
+                orderBy: { createdAt: "desc" },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.sharedTrip.count({ where }),
+        ]);
+
+        const trips = shares.map((share) => ({
+            ...share.trip,
+            permission: share.permission,
+            sharedBy: share.sharedBy,
+            sharedAt: share.createdAt,
+            expiresAt: share.expiresAt,
+        }));
+
+        return sendPaginated(res, trips, page, limit, total);
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/deleted:
+ *   get:
+ *     tags: [Trips]
+ *     summary: List my deleted trips
+ *     description: Trips you have deleted, most recently deleted first. Any of them can be restored.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Paginated list of deleted trips
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedResponse'
+ */
+router.get(
+    "/deleted",
+    validate(paginationSchema, "query"),
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { page, limit } = (req as any).validatedQuery;
+
+        const where = { userId: req.user!.id, deletedAt: { not: null } };
+
+        const [trips, total] = await Promise.all([
+            prisma.trip.findMany({
+                where,
+                orderBy: { deletedAt: "desc" },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.trip.count({ where }),
+        ]);
+
+        return sendPaginated(res, trips, page, limit, total);
+    })
+);
+
 /**
  * @openapi
  * /api/v1/trips:
@@ -121,7 +264,7 @@ router.post(
     "/",
     validate(createTripSchema),
     asyncHandler(async (req: AuthRequest, res: Response) => {
-        const { name, description, startDate, endDate, totalBudget, coverPhotoUrl } =
+        const { name, description, startDate, endDate, totalBudget, currency, coverPhotoUrl } =
             req.body;
 
         const trip = await prisma.trip.create({
@@ -132,6 +275,7 @@ router.post(
                 startDate,
                 endDate,
                 totalBudget,
+                currency: currency ?? (await getUserCurrency(req.user!.id)),
                 coverPhotoUrl,
             },
         });
@@ -146,7 +290,13 @@ router.post(
  *   get:
  *     tags: [Trips]
  *     summary: Get trip details
- *     description: Returns detailed information about a specific trip including itineraries and budgets
+ *     description: |
+ *       Returns detailed information about a specific trip including itineraries and budgets.
+ *       Open to the owner, users the trip is shared with, and holders of a share link
+ *       who send its slug in the `X-Share-Link` header (and its password, if it has one, in
+ *       `X-Share-Password`). `accessLevel` is view, copy, edit or owner. Link holders only get
+ *       the budget and costs (`customCost`, transport `cost`) when the link includes them.
+ *       Each session that uses a link counts as one view towards its view limit.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -167,11 +317,13 @@ router.get(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { id } = req.params;
 
-        const trip = await prisma.trip.findFirst({
-            where: {
-                id,
-                userId: req.user!.id,
-            },
+        const access = await getTripAccess(req, id, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const trip = await prisma.trip.findUniqueOrThrow({
+            where: { id },
             include: {
                 itineraries: {
                     include: {
@@ -184,14 +336,16 @@ router.get(
                     orderBy: { dayNumber: "asc" },
                 },
                 budgets: true,
+                transportLegs: {
+                    include: { departureCity: true, arrivalCity: true },
+                    orderBy: { departureTime: "asc" },
+                },
             },
         });
 
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
-        }
+        const visible = canSeeBudget(access) ? trip : toSharedTripView(trip, false);
 
-        return sendSuccess(res, trip);
+        return sendSuccess(res, { ...visible, accessLevel: access.level });
     })
 );
 
@@ -201,7 +355,10 @@ router.get(
  *   get:
  *     tags: [Trips]
  *     summary: Get full trip with all details
- *     description: Returns complete trip information including itineraries, activities, budgets, and shares
+ *     description: |
+ *       Returns complete trip information including itineraries, activities, transport legs, stays,
+ *       budgets, and (for the owner) shares. Link holders only get the budget and costs when the
+ *       link includes them.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -222,11 +379,13 @@ router.get(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { id } = req.params;
 
-        const trip = await prisma.trip.findFirst({
-            where: {
-                id,
-                userId: req.user!.id,
-            },
+        const access = await getTripAccess(req, id, "view");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const trip = await prisma.trip.findUniqueOrThrow({
+            where: { id },
             include: {
                 itineraries: {
                     include: {
@@ -239,15 +398,22 @@ router.get(
                     orderBy: { dayNumber: "asc" },
                 },
                 budgets: true,
-                shares: true,
+                // Share links are only for the owner to see
+                shares: access.level === "owner" && { omit: { passwordHash: true } },
+                transportLegs: {
+                    include: { departureCity: true, arrivalCity: true },
+                    orderBy: { departureTime: "asc" },
+                },
+                stays: {
+                    include: { city: true },
+                    orderBy: { checkIn: "asc" },
+                },
             },
         });
 
-        if (!trip) {
-            return sendError(res, "Trip not found", 404);
-        }
+        const visible = canSeeBudget(access) ? trip : toSharedTripView(trip, false);
 
-        return sendSuccess(res, trip);
+        return sendSuccess(res, { ...visible, accessLevel: access.level });
     })
 );
 
@@ -257,7 +423,7 @@ router.get(
  *   patch:
  *     tags: [Trips]
  *     summary: Update a trip
- *     description: Updates trip properties (name, dates, budget, status, etc.)
+ *     description: Updates trip properties (name, dates, budget, status, etc.). Requires edit access.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -286,12 +452,17 @@ router.get(
  *                 format: date
  *               totalBudget:
  *                 type: number
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
  *               status:
  *                 type: string
  *                 enum: [DRAFT, PLANNING, CONFIRMED, IN_PROGRESS, COMPLETED, CANCELLED]
  *     responses:
  *       200:
  *         description: Trip updated successfully
+ *       403:
+ *         description: You need edit access to this trip
  *       404:
  *         description: Trip not found
  */
@@ -301,18 +472,35 @@ router.patch(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { id } = req.params;
 
-        const existing = await prisma.trip.findFirst({
-            where: { id, userId: req.user!.id },
-        });
-
-        if (!existing) {
-            return sendError(res, "Trip not found", 404);
+        const access = await getTripAccess(req, id, "edit");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
         }
 
-        const trip = await prisma.trip.update({
-            where: { id },
-            data: req.body,
+        const trip = await prisma.$transaction(async (tx) => {
+            const updated = await tx.trip.update({
+                where: { id },
+                data: req.body,
+            });
+            await recordTripChange(tx, {
+                tripId: id,
+                actorId: req.user!.id,
+                entity: "TRIP",
+                entityId: id,
+                action: "UPDATE",
+                before: access.trip,
+                after: updated,
+            });
+            return updated;
         });
+        if (req.body.totalBudget !== undefined) {
+            await evaluateBudgetAlerts(id);
+        }
+
+        publishTripEvent(id, "trip.updated", req.user!.id, trip);
+        if (req.body.totalBudget !== undefined || req.body.currency !== undefined) {
+            publishTripEvent(id, "budget.updated", req.user!.id, { source: "trip" });
+        }
 
         return sendSuccess(res, trip, "Trip updated");
     })
@@ -324,7 +512,9 @@ router.patch(
  *   delete:
  *     tags: [Trips]
  *     summary: Delete a trip
- *     description: Permanently deletes a trip and all associated data
+ *     description: |
+ *       Moves the trip to the trash: it disappears from listings and stops being accessible,
+ *       including through shares, until the owner restores it. Only the owner can delete a trip.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -337,6 +527,8 @@ router.patch(
  *     responses:
  *       200:
  *         description: Trip deleted successfully
+ *       403:
+ *         description: Only the trip owner can do this
  *       404:
  *         description: Trip not found
  */
@@ -345,17 +537,87 @@ router.delete(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { id } = req.params;
 
-        const existing = await prisma.trip.findFirst({
-            where: { id, userId: req.user!.id },
+        const access = await getTripAccess(req, id, "owner");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            const deleted = await tx.trip.update({
+                where: { id },
+                data: { deletedAt: new Date() },
+            });
+            await recordTripChange(tx, {
+                tripId: id,
+                actorId: req.user!.id,
+                entity: "TRIP",
+                entityId: id,
+                action: "DELETE",
+                before: access.trip,
+                after: deleted,
+            });
         });
 
-        if (!existing) {
-            return sendError(res, "Trip not found", 404);
+        publishTripEvent(id, "trip.deleted", req.user!.id, { id });
+
+        return sendSuccess(res, null, "Trip deleted");
+    })
+);
+
+/**
+ * @openapi
+ * /api/v1/trips/{id}/restore:
+ *   post:
+ *     tags: [Trips]
+ *     summary: Restore a deleted trip
+ *     description: Takes a trip out of the trash. Only the owner can restore a trip.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Trip restored
+ *       404:
+ *         description: Deleted trip not found
+ */
+router.post(
+    "/:id/restore",
+    asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { id } = req.params;
+
+        const deleted = await prisma.trip.findFirst({
+            where: { id, userId: req.user!.id, deletedAt: { not: null } },
+        });
+        if (!deleted) {
+            return sendError(res, "Deleted trip not found", 404);
         }
 
-        await prisma.trip.delete({ where: { id } });
+        const trip = await prisma.$transaction(async (tx) => {
+            const restored = await tx.trip.update({
+                where: { id },
+                data: { deletedAt: null },
+            });
+            await recordTripChange(tx, {
+                tripId: id,
+                actorId: req.user!.id,
+                entity: "TRIP",
+                entityId: id,
+                action: "RESTORE",
+                before: deleted,
+                after: restored,
+            });
+            return restored;
+        });
 
-        return sendSuccess(res, null, "Trip deleted");
+        publishTripEvent(id, "trip.updated", req.user!.id, trip);
+
+        return sendSuccess(res, trip, "Trip restored");
     })
 );
 
@@ -365,7 +627,10 @@ router.delete(
  *   post:
  *     tags: [Trips]
  *     summary: Duplicate a trip
- *     description: Creates a copy of an existing trip including all itineraries and activities
+ *     description: |
+ *       Creates a copy of an existing trip including all itineraries, activities and
+ *       transport legs in your account. Requires copy access (CAN_COPY or CAN_EDIT). Through a
+ *       share link, the budget and costs are only copied when the link includes them.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -378,6 +643,8 @@ router.delete(
  *     responses:
  *       201:
  *         description: Trip duplicated successfully
+ *       403:
+ *         description: You need copy access to this trip
  *       404:
  *         description: Trip not found
  */
@@ -386,8 +653,13 @@ router.post(
     asyncHandler(async (req: AuthRequest, res: Response) => {
         const { id } = req.params;
 
-        const original = await prisma.trip.findFirst({
-            where: { id, userId: req.user!.id },
+        const access = await getTripAccess(req, id, "copy");
+        if (!access.ok) {
+            return sendError(res, access.error, access.status);
+        }
+
+        const original = await prisma.trip.findUniqueOrThrow({
+            where: { id },
             include: {
                 itineraries: {
                     include: {
@@ -395,53 +667,74 @@ router.post(
                     },
                 },
                 budgets: true,
+                transportLegs: true,
             },
         });
-
-        if (!original) {
-            return sendError(res, "Trip not found", 404);
-        }
-
-        const newTrip = await prisma.trip.create({
-            data: {
-                userId: req.user!.id,
-                name: `${original.name} (Copy)`,
-                description: original.description,
-                startDate: original.startDate,
-                endDate: original.endDate,
-                totalBudget: original.totalBudget,
-                coverPhotoUrl: original.coverPhotoUrl,
-                status: "DRAFT",
-                itineraries: {
-                    create: original.itineraries.map((it) => ({
-                        cityId: it.cityId,
-                        dayNumber: it.dayNumber,
-                        date: it.date,
-                        notes: it.notes,
-                        orderIndex: it.orderIndex,
-                        activities: {
-                            create: it.activities.map((act) => ({
-                                activityId: act.activityId,
-                                startTime: act.startTime,
-                                endTime: act.endTime,
-                                customNotes: act.customNotes,
-                                customCost: act.customCost,
-                                orderIndex: act.orderIndex,
-                            })),
-                        },
-                    })),
+        // A copy through a link only takes the budget and costs if the link shows them
+        const withBudget = canSeeBudget(access);
+
+        const newTrip = await prisma.$transaction(async (tx) => {
+            const created = await tx.trip.create({
+                data: {
+                    userId: req.user!.id,
+                    name: `${original.name} (Copy)`,
+                    description: original.description,
+                    startDate: original.startDate,
+                    endDate: original.endDate,
+                    totalBudget: withBudget ? original.totalBudget : null,
+                    currency: original.currency,
+                    coverPhotoUrl: original.coverPhotoUrl,
+                    status: "DRAFT",
+                    itineraries: {
+                        create: original.itineraries.map((it) => ({
+                            cityId: it.cityId,
+                            dayNumber: it.dayNumber,
+                            date: it.date,
+                            notes: it.notes,
+                            orderIndex: it.orderIndex,
+                            activities: {
+                                create: it.activities.map((act) => ({
+                                    activityId: act.activityId,
+                                    startTime: act.startTime,
+                                    endTime: act.endTime,
+                                    customNotes: act.customNotes,
+                                    customCost: withBudget ? act.customCost : null,
+                                    orderIndex: act.orderIndex,
+                                })),
+                            },
+                        })),
+                    },
+                    budgets: {
+                        create: (withBudget ? original.budgets : []).map((b) => ({
+                            category: b.category,
+                            allocatedAmount: b.allocatedAmount,
+                            spentAmount: 0,
+                        })),
+                    },
+                    transportLegs: {
+                        create: original.transportLegs.map((leg) => ({
+                            mode: leg.mode,
+                            departureCityId: leg.departureCityId,
+                            arrivalCityId: leg.arrivalCityId,
+                            departureTime: leg.departureTime,
+                            arrivalTime: leg.arrivalTime,
+                            cost: withBudget ? leg.cost : 0,
+                            currency: leg.currency,
+                            bookingReference: leg.bookingReference,
+                            notes: leg.notes,
+                        })),
+                    },
                 },
-                budgets: {
-                    create: original.budgets.map((b) => ({
-                        category: b.category,
-                        allocatedAmount: b.allocatedAmount,
-                        spentAmount: 0,
-                    })),
+                include: {
+                    itineraries: { include: { city: true } },
+                    transportLegs: true,
                 },
-            },
-            include: {
-                itineraries: { include: { city: true } },
-            },
+            });
+
+            if (original.transportLegs.length) {
+                await syncBudgetSpend(tx, created.id);
+            }
+            return created;
         });
 
         return sendSuccess(res, newTrip, "Trip duplicated", 201);
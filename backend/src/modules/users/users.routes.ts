@@ -50,11 +50,12 @@ router.get(
                 language: true,
                 currency: true,
                 role: true,
+                emailVerifiedAt: true,
                 createdAt: true,
                 updatedAt: true,
                 _count: {
                     select: {
-                        trips: true,
+                        trips: { where: { deletedAt: null } },
                         savedCities: true,
                     },
                 },
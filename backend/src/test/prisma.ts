@@ -0,0 +1,12 @@
+import prisma from "../config/db.config";
+
+type Query = (args: any) => Promise<unknown>;
+
+/**
+ * Replaces query methods on the shared Prisma client for the current test file.
+ * Each test file runs in its own process, so nothing leaks between files.
+ */
+export const stubPrisma = (model: string, queries: Record<string, Query>) => {
+    const delegate = (prisma as unknown as Record<string, Record<string, unknown>>)[model];
+    Object.assign(delegate, queries);
+};
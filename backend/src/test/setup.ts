@@ -0,0 +1,5 @@
+// Loaded before every test file. Tests never reach the database, but creating
+// the Prisma client needs a connection string, and signing tokens needs secrets.
+process.env.DATABASE_URL ??= "postgresql://test@localhost:5432/test";
+process.env.JWT_SECRET ??= "test-access-secret";
+process.env.REFRESH_TOKEN_SECRET ??= "test-refresh-secret";
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseExchangeRates } from "./exchangeRates.util";
+
+const row = (baseCurrency: string, quoteCurrency: string, rate: number, date: string) => ({
+    baseCurrency,
+    quoteCurrency,
+    rate,
+    rateDate: new Date(date),
+});
+
+describe("parseExchangeRates", () => {
+    it("reads CSV with columns in any order, skipping comments", () => {
+        const csv = "# daily rates\nDate,Base,Quote,Rate\n2026-01-02,usd,eur,0.92\n\n2026-01-02,USD,JPY,157.1\n";
+
+        assert.deepEqual(parseExchangeRates(csv, "rates.CSV"), [
+            row("USD", "EUR", 0.92, "2026-01-02"),
+            row("USD", "JPY", 157.1, "2026-01-02"),
+        ]);
+    });
+
+    it("reads JSON rows and rate tables", () => {
+        const json = JSON.stringify([
+            { base: "EUR", quote: "GBP", rate: "0.85", date: "2026-01-02" },
+            { base: "USD", date: "2026-01-03", rates: { EUR: 0.93, INR: 83.2 } },
+        ]);
+
+        assert.deepEqual(parseExchangeRates(json, "rates.json"), [
+            row("EUR", "GBP", 0.85, "2026-01-02"),
+            row("USD", "EUR", 0.93, "2026-01-03"),
+            row("USD", "INR", 83.2, "2026-01-03"),
+        ]);
+    });
+
+    it("rejects rates that are not positive numbers", () => {
+        for (const rate of ["abc", null, 0, -1]) {
+            const json = JSON.stringify({ base: "USD", quote: "EUR", rate, date: "2026-01-02" });
+            assert.throws(() => parseExchangeRates(json, "rates.json"), /Invalid rate/);
+        }
+        assert.throws(() => parseExchangeRates("base,quote,rate,date\nUSD,EUR,,2026-01-02", "rates.csv"), /Invalid rate/);
+    });
+
+    it("rejects rows with a missing or malformed currency", () => {
+        const missing = JSON.stringify({ base: "USD", rate: 0.92, date: "2026-01-02" });
+        const malformed = JSON.stringify({ base: "US", quote: "EUR", rate: 0.92, date: "2026-01-02" });
+
+        assert.throws(() => parseExchangeRates(missing, "rates.json"), /Invalid currency pair/);
+        assert.throws(() => parseExchangeRates(malformed, "rates.json"), /Invalid currency pair/);
+    });
+
+    it("rejects JSON that is not rows or tables", () => {
+        for (const content of ["null", '"x"', "42", "[null]", '[["USD", "EUR", 0.92]]']) {
+            assert.throws(() => parseExchangeRates(content, "rates.json"), /Invalid currency pair/);
+        }
+    });
+
+    it("rejects bad dates and CSV without the needed columns", () => {
+        const json = JSON.stringify({ base: "USD", quote: "EUR", rate: 0.92, date: "soon" });
+
+        assert.throws(() => parseExchangeRates(json, "rates.json"), /Invalid date/);
+        assert.throws(() => parseExchangeRates("base,quote,rate\nUSD,EUR,0.92", "rates.csv"), /missing the "date" column/);
+    });
+});
@@ -0,0 +1,71 @@
+// Parsing for offline exchange-rate files. Two formats are accepted:
+// - CSV with a header row: base,quote,rate,date
+// - JSON: an array of { base, quote, rate, date } rows, or a single
+//   { base, date, rates: { EUR: 0.92, ... } } table (or an array of those)
+
+export interface ExchangeRateRow {
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    rateDate: Date;
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const toRow = (base: unknown, quote: unknown, rate: unknown, date: unknown): ExchangeRateRow => {
+    const baseCurrency = String(base ?? "").trim().toUpperCase();
+    const quoteCurrency = String(quote ?? "").trim().toUpperCase();
+    const value = Number(rate);
+    const rateDate = new Date(String(date ?? "").trim());
+
+    if (!CURRENCY_PATTERN.test(baseCurrency) || !CURRENCY_PATTERN.test(quoteCurrency)) {
+        throw new Error(`Invalid currency pair "${base}/${quote}"`);
+    }
+    if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid rate "${rate}" for ${baseCurrency}/${quoteCurrency}`);
+    }
+    if (Number.isNaN(rateDate.getTime())) {
+        throw new Error(`Invalid date "${date}" for ${baseCurrency}/${quoteCurrency}`);
+    }
+
+    return { baseCurrency, quoteCurrency, rate: value, rateDate };
+};
+
+const parseCsv = (content: string): ExchangeRateRow[] => {
+    const [header, ...lines] = content
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#"));
+    const columns = (header ?? "").split(",").map((c) => c.trim().toLowerCase());
+    const index = (name: string) => {
+        const i = columns.indexOf(name);
+        if (i === -1) throw new Error(`CSV is missing the "${name}" column`);
+        return i;
+    };
+    const [base, quote, rate, date] = ["base", "quote", "rate", "date"].map(index);
+
+    return lines.map((line) => {
+        const cells = line.split(",");
+        return toRow(cells[base], cells[quote], cells[rate], cells[date]);
+    });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseJsonEntry = (entry: unknown): ExchangeRateRow[] => {
+    const fields: Record<string, unknown> = isRecord(entry) ? entry : {};
+    const { base, quote, rate, date, rates } = fields;
+    return isRecord(rates)
+        ? Object.entries(rates).map(([rateQuote, rateValue]) => toRow(base, rateQuote, rateValue, date))
+        : [toRow(base, quote, rate, date)];
+};
+
+// Parse a rates file; the format is picked from the extension (.csv or .json)
+export const parseExchangeRates = (content: string, filename: string): ExchangeRateRow[] => {
+    if (filename.toLowerCase().endsWith(".csv")) {
+        return parseCsv(content);
+    }
+    const data: unknown = JSON.parse(content);
+    return (Array.isArray(data) ? data : [data]).flatMap(parseJsonEntry);
+};
@@ -0,0 +1,24 @@
+// Geographic helpers for activity and city coordinates
+const EARTH_RADIUS_KM = 6371;
+
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points in kilometres
+export const haversineKm = (a: Coordinates, b: Coordinates): number => {
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// Narrow nullable latitude/longitude columns to usable coordinates
+export const hasCoordinates = <T extends { latitude: number | null; longitude: number | null }>(
+    value: T
+): value is T & Coordinates => value.latitude !== null && value.longitude !== null;
@@ -0,0 +1,73 @@
+// Helpers for Activity.openingHours, stored as JSON like { monday: "9:00-17:00", ... }.
+// A day may list several ranges ("9:00-12:00, 14:00-18:00") or be "closed".
+import { minutesToTime, timeToMinutes } from "./time.util";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// Open/close in minutes since midnight; close may pass 1440 for late-night venues
+export interface OpeningWindow {
+    open: number;
+    close: number;
+}
+
+const RANGE_PATTERN = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/;
+
+// Weekday of an Itinerary.date (stored as a UTC calendar date)
+export const weekdayOf = (date: Date): Weekday => WEEKDAYS[date.getUTCDay()];
+
+/**
+ * Opening windows for one weekday.
+ * Returns null when the activity has no usable opening hours (treat as always open)
+ * and an empty array when it is closed that day or the day is not listed.
+ */
+export const getOpeningWindows = (openingHours: unknown, weekday: Weekday): OpeningWindow[] | null => {
+    if (!openingHours || typeof openingHours !== "object" || Array.isArray(openingHours)) {
+        return null;
+    }
+
+    const entries = Object.entries(openingHours as Record<string, unknown>);
+    const value = entries.find(([day]) => day.toLowerCase() === weekday)?.[1];
+    if (typeof value !== "string") {
+        return entries.length ? [] : null;
+    }
+
+    return value
+        .split(",")
+        .map((range) => range.trim().match(RANGE_PATTERN))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([, open, close]) => {
+            const openMinutes = timeToMinutes(open);
+            const closeMinutes = timeToMinutes(close);
+            return {
+                open: openMinutes,
+                close: closeMinutes <= openMinutes ? closeMinutes + 24 * 60 : closeMinutes,
+            };
+        });
+};
+
+// Whether a start/end slot (minutes since midnight) fits inside one of the windows
+export const fitsOpeningWindows = (windows: OpeningWindow[] | null, start: number, end: number) =>
+    windows === null || windows.some((w) => start >= w.open && end <= w.close);
+
+// Earliest start at or after `from` that fits a visit of `duration` minutes, if any
+export const earliestOpenStart = (
+    windows: OpeningWindow[] | null,
+    from: number,
+    duration: number
+): number | null => {
+    if (windows === null) {
+        return from;
+    }
+    const starts = windows
+        .map((w) => Math.max(from, w.open))
+        .filter((start, i) => start + duration <= windows[i].close);
+    return starts.length ? Math.min(...starts) : null;
+};
+
+// Human-readable form of the windows, e.g. "09:00-12:00, 14:00-18:00"
+export const formatOpeningWindows = (windows: OpeningWindow[]) =>
+    windows.length
+        ? windows.map((w) => `${minutesToTime(w.open)}-${minutesToTime(w.close % (24 * 60))}`).join(", ")
+        : "closed";
@@ -5,6 +5,7 @@ export interface ApiResponse<T = any> {
     data?: T;
     message?: string;
     error?: string;
+    details?: unknown;
     meta?: {
         page?: number;
         limit?: number;
@@ -30,11 +31,13 @@ export const sendSuccess = <T>(
 export const sendError = (
     res: Response,
     error: string,
-    statusCode: number = 400
+    statusCode: number = 400,
+    details?: unknown
 ): Response => {
     const response: ApiResponse = {
         success: false,
         error,
+        ...(details !== undefined && { details }),
     };
     return res.status(statusCode).json(response);
 };
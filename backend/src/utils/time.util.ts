@@ -0,0 +1,31 @@
+// Time-of-day helpers for ItineraryActivity startTime/endTime (@db.Time columns).
+// Times are anchored to a fixed base date so only the hours and minutes matter.
+const BASE_DATE = "2000-01-01";
+
+// Parse "HH:MM" into a Date usable for a Time column
+export const parseTime = (time: string): Date => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const date = new Date(BASE_DATE);
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+};
+
+// "HH:MM" -> minutes since midnight
+export const timeToMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+};
+
+// Time column value -> minutes since midnight (mirrors parseTime's local hours)
+export const dateToMinutes = (date: Date): number =>
+    date.getHours() * 60 + date.getMinutes();
+
+// Calendar day ("YYYY-MM-DD") of a date column, which Prisma returns at UTC midnight
+export const calendarDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Minutes since midnight -> "HH:MM"
+export const minutesToTime = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${String(hours).padStart(2, "0")}:${String(mins).padStart(2, "0")}`;
+};
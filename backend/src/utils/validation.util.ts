@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { TRAVEL_MODES } from "../config/travel.config";
 
 // Auth schemas
 export const registerSchema = z.object({
@@ -12,6 +13,25 @@ export const loginSchema = z.object({
     password: z.string().min(1, "Password is required"),
 });
 
+export const forgotPasswordSchema = z.object({
+    email: z.string().email("Invalid email format"),
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1, "Token is required"),
+    newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1, "Token is required"),
+});
+
+export const identitySignInSchema = z.object({
+    idToken: z.string().min(1, "ID token is required"),
+    // Apple only sends the user's name to the app, on first sign-in, outside the token
+    name: z.string().min(2).optional(),
+});
+
 // Trip schemas
 export const createTripSchema = z.object({
     name: z.string().min(1, "Trip name is required"),
@@ -19,6 +39,8 @@ export const createTripSchema = z.object({
     startDate: z.string().transform((str) => new Date(str)),
     endDate: z.string().transform((str) => new Date(str)),
     totalBudget: z.number().positive().optional(),
+    // Currency of totalBudget and allocations; defaults to the user's currency
+    currency: z.string().length(3).transform((str) => str.toUpperCase()).optional(),
     coverPhotoUrl: z.string().url().optional(),
 });
 
@@ -40,6 +62,109 @@ export const addItineraryActivitySchema = z.object({
     customCost: z.number().positive().optional(),
 });
 
+// The version the client last read; an update is rejected with 409 if it has changed since
+const versionField = z.number().int().positive("Invalid version");
+
+export const updateItineraryDaySchema = z.object({
+    cityId: z.string().uuid("Invalid city ID").optional(),
+    date: z.string().transform((str) => new Date(str)).optional(),
+    notes: z.string().nullable().optional(),
+    version: versionField,
+});
+
+export const updateItineraryActivitySchema = z.object({
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, "Invalid time format (HH:MM)").optional(),
+    endTime: z.string().regex(/^\d{2}:\d{2}$/, "Invalid time format (HH:MM)").optional(),
+    customNotes: z.string().nullable().optional(),
+    customCost: z.number().positive().nullable().optional(),
+    orderIndex: z.number().int().nonnegative().optional(),
+    version: versionField,
+});
+
+const reorderItemSchema = z.object({
+    id: z.string().uuid("Invalid ID"),
+    orderIndex: z.number().int().nonnegative(),
+    version: versionField,
+});
+
+export const reorderItinerarySchema = z.object({
+    days: z.array(reorderItemSchema).optional(),
+    activities: z.array(reorderItemSchema).optional(),
+});
+
+export const itineraryQuerySchema = z.object({
+    mode: z.enum(TRAVEL_MODES).default("walk"),
+});
+
+export const addItineraryActivityQuerySchema = z.object({
+    // Return schedule problems as a 422 instead of warnings
+    strict: z
+        .enum(["true", "false"])
+        .optional()
+        .transform((value) => value === "true"),
+    // How to handle overlaps with activities already on the day
+    onConflict: z.enum(["reject", "shift", "squeeze"]).optional(),
+});
+
+// Updates take the same `strict` flag; overlaps are only reported, never resolved
+export const updateItineraryActivityQuerySchema = addItineraryActivityQuerySchema.pick({ strict: true });
+
+export const optimizeDaySchema = z.object({
+    // Scheduled activities that must keep their current start time
+    anchoredActivityIds: z.array(z.string().uuid("Invalid activity ID")).default([]),
+    mode: z.enum(TRAVEL_MODES).default("walk"),
+    speedKmh: z.number().positive().max(200).optional(),
+    apply: z.boolean().optional(),
+});
+
+// Transport schemas
+const transportLegFields = {
+    mode: z.enum(["FLIGHT", "TRAIN", "BUS", "CAR", "FERRY", "OTHER"]),
+    departureCityId: z.string().uuid("Invalid departure city ID"),
+    arrivalCityId: z.string().uuid("Invalid arrival city ID"),
+    departureTime: z.string().datetime({ offset: true }).transform((str) => new Date(str)),
+    arrivalTime: z.string().datetime({ offset: true }).transform((str) => new Date(str)),
+    cost: z.number().nonnegative().optional(),
+    // Defaults to the user's currency
+    currency: z.string().length(3).transform((str) => str.toUpperCase()).optional(),
+    bookingReference: z.string().max(100).optional(),
+    notes: z.string().optional(),
+};
+
+export const createTransportLegSchema = z
+    .object(transportLegFields)
+    .refine((leg) => leg.arrivalTime > leg.departureTime, {
+        message: "Arrival must be after departure",
+        path: ["arrivalTime"],
+    });
+
+export const updateTransportLegSchema = z.object(transportLegFields).partial();
+
+// Stay schemas
+const stayFields = {
+    cityId: z.string().uuid("Invalid city ID"),
+    name: z.string().min(1, "Stay name is required"),
+    address: z.string().optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    checkIn: z.string().transform((str) => new Date(str)),
+    checkOut: z.string().transform((str) => new Date(str)),
+    nightlyCost: z.number().nonnegative().optional(),
+    // Defaults to the user's currency
+    currency: z.string().length(3).transform((str) => str.toUpperCase()).optional(),
+    confirmationNumber: z.string().max(100).optional(),
+    notes: z.string().optional(),
+};
+
+export const createStaySchema = z
+    .object(stayFields)
+    .refine((stay) => stay.checkOut > stay.checkIn, {
+        message: "Check-out must be after check-in",
+        path: ["checkOut"],
+    });
+
+export const updateStaySchema = z.object(stayFields).partial();
+
 // AI schemas
 export const generateItinerarySchema = z.object({
     prompt: z.string().min(10, "Please provide more details about your trip"),
@@ -56,6 +181,88 @@ export const generateItinerarySchema = z.object({
     saveToTripId: z.string().uuid().optional(),
 });
 
+// Shape of the itinerary JSON produced by /ai/generate-itinerary
+export const generatedItinerarySchema = z.object({
+    tripName: z.string().min(1),
+    days: z
+        .array(
+            z.object({
+                dayNumber: z.number().int().positive(),
+                city: z.object({
+                    name: z.string().min(1),
+                    country: z.string().min(1),
+                }),
+                activities: z.array(
+                    z.object({
+                        name: z.string().min(1),
+                        startTime: z.string().regex(/^\d{1,2}:\d{2}$/, "Invalid time format (HH:MM)"),
+                        endTime: z.string().regex(/^\d{1,2}:\d{2}$/, "Invalid time format (HH:MM)"),
+                        estimatedCost: z.number().nonnegative().default(0),
+                        category: z
+                            .enum([
+                                "SIGHTSEEING",
+                                "FOOD_TOUR",
+                                "ADVENTURE",
+                                "CULTURAL",
+                                "RELAXATION",
+                                "NIGHTLIFE",
+                                "SHOPPING",
+                                "TRANSPORTATION",
+                            ])
+                            .catch("SIGHTSEEING"),
+                        description: z.string().optional(),
+                    })
+                ),
+            })
+        )
+        .min(1, "Itinerary must contain at least one day"),
+    totalEstimatedCost: z.number().optional(),
+    insights: z.array(z.string()).optional(),
+});
+
+export type GeneratedItinerary = z.infer<typeof generatedItinerarySchema>;
+
+// Structured outputs of the other AI endpoints
+export const activitySuggestionsSchema = z.object({
+    suggestions: z.array(
+        z.object({
+            name: z.string().min(1),
+            reason: z.string(),
+            fitScore: z.number().min(0).max(1),
+        })
+    ),
+});
+
+export const routeOptimizationSchema = z.object({
+    optimizedOrder: z.array(z.string().min(1)),
+    timeSavedMinutes: z.number(),
+    reasoning: z.string(),
+});
+
+export const budgetAdviceSchema = z.object({
+    healthScore: z.number().min(0).max(100),
+    assessment: z.string(),
+    savingTips: z.array(z.string()),
+    recommendations: z.array(z.string()),
+});
+
+export const dayEnhancementSchema = z.object({
+    suggestions: z.array(
+        z.object({
+            name: z.string().min(1),
+            startTime: z.string().regex(/^\d{1,2}:\d{2}$/, "Invalid time format (HH:MM)"),
+            endTime: z.string().regex(/^\d{1,2}:\d{2}$/, "Invalid time format (HH:MM)"),
+            reason: z.string(),
+        })
+    ),
+});
+
+export const optimizeRouteSchema = z.object({
+    itineraryDayId: z.string().uuid("Invalid itinerary day ID"),
+    // Save the optimized order as a pending proposal the user can accept or reject
+    apply: z.boolean().optional(),
+});
+
 export const aiChatSchema = z.object({
     messages: z.array(
         z.object({
@@ -87,6 +294,101 @@ export const setBudgetSchema = z.object({
     ),
 });
 
+const budgetCategorySchema = z.enum([
+    "TRANSPORT",
+    "ACCOMMODATION",
+    "FOOD",
+    "ACTIVITIES",
+    "SHOPPING",
+    "MISCELLANEOUS",
+]);
+
+// How an expense is divided between trip members
+const expenseSplitSchema = z
+    .object({
+        method: z.enum(["EQUAL", "SHARES", "EXACT"]).default("EQUAL"),
+        // Defaults to every trip member (EQUAL only)
+        participants: z
+            .array(
+                z.object({
+                    userId: z.string().uuid("Invalid user ID"),
+                    shares: z.number().positive().optional(),
+                    amount: z.number().nonnegative().optional(),
+                })
+            )
+            .min(1)
+            .optional(),
+    })
+    .refine((split) => split.method === "EQUAL" || split.participants !== undefined, {
+        message: "Participants are required for SHARES and EXACT splits",
+        path: ["participants"],
+    })
+    .refine(
+        (split) =>
+            (split.participants ?? []).every((p) =>
+                split.method === "SHARES" ? p.shares !== undefined : split.method === "EXACT" ? p.amount !== undefined : true
+            ),
+        { message: "Every participant needs shares (SHARES) or an amount (EXACT)", path: ["participants"] }
+    )
+    .refine(
+        (split) => new Set((split.participants ?? []).map((p) => p.userId)).size === (split.participants ?? []).length,
+        { message: "Participants must be unique", path: ["participants"] }
+    );
+
+const expenseFields = {
+    category: budgetCategorySchema,
+    amount: z.number().positive(),
+    currency: z.string().length(3).transform((str) => str.toUpperCase()).optional(),
+    date: z.string().transform((str) => new Date(str)),
+    itineraryActivityId: z.string().uuid("Invalid itinerary activity ID").nullable().optional(),
+    // Defaults to the requesting user
+    paidById: z.string().uuid("Invalid user ID").optional(),
+    // Defaults to an equal split between all trip members
+    split: expenseSplitSchema.optional(),
+    notes: z.string().optional(),
+};
+
+export const createExpenseSchema = z.object(expenseFields);
+
+export const updateExpenseSchema = z.object(expenseFields).partial();
+
+export const expenseQuerySchema = z.object({
+    category: budgetCategorySchema.optional(),
+    from: z.string().transform((str) => new Date(str)).optional(),
+    to: z.string().transform((str) => new Date(str)).optional(),
+});
+
+// Budget alert schemas
+const budgetAlertFields = {
+    // Omit (or null) to alert on total spend against the trip's totalBudget
+    category: budgetCategorySchema.nullable().optional(),
+    thresholdPercent: z.number().int().positive().max(1000).default(100),
+    isActive: z.boolean().optional(),
+};
+
+export const createBudgetAlertSchema = z.object(budgetAlertFields);
+
+export const updateBudgetAlertSchema = z.object({
+    ...budgetAlertFields,
+    thresholdPercent: z.number().int().positive().max(1000).optional(),
+});
+
+// Settlement schemas
+export const createSettlementSchema = z
+    .object({
+        // Defaults to the requesting user
+        fromUserId: z.string().uuid("Invalid user ID").optional(),
+        toUserId: z.string().uuid("Invalid user ID"),
+        amount: z.number().positive(),
+        currency: z.string().length(3).transform((str) => str.toUpperCase()).optional(),
+        date: z.string().transform((str) => new Date(str)).optional(),
+        notes: z.string().optional(),
+    })
+    .refine((settlement) => settlement.fromUserId !== settlement.toUserId, {
+        message: "A settlement must be between two different members",
+        path: ["toUserId"],
+    });
+
 // User profile schemas
 export const updateProfileSchema = z.object({
     name: z.string().min(2).optional(),
@@ -96,10 +398,32 @@ export const updateProfileSchema = z.object({
 });
 
 // Share schemas
-export const createShareSchema = z.object({
+export const createShareSchema = z
+    .object({
+        permission: z.enum(["VIEW_ONLY", "CAN_EDIT", "CAN_COPY"]).optional(),
+        sharedWithEmail: z
+            .string()
+            .email()
+            .transform((str) => str.toLowerCase())
+            .optional(),
+        expiresInDays: z.number().int().positive().optional(),
+        // Public links only
+        password: z.string().min(4).max(100).optional(),
+        maxViews: z.number().int().positive().optional(),
+        includeBudget: z.boolean().optional(),
+    })
+    .refine(
+        (share) => !share.sharedWithEmail || (share.password === undefined && share.maxViews === undefined),
+        { message: "Passwords and view limits only apply to public links", path: ["sharedWithEmail"] }
+    );
+
+export const updateShareSchema = z.object({
     permission: z.enum(["VIEW_ONLY", "CAN_EDIT", "CAN_COPY"]).optional(),
-    sharedWithEmail: z.string().email().optional(),
-    expiresInDays: z.number().int().positive().optional(),
+    isEnabled: z.boolean().optional(),
+    // null removes the password or view limit
+    password: z.string().min(4).max(100).nullable().optional(),
+    maxViews: z.number().int().positive().nullable().optional(),
+    includeBudget: z.boolean().optional(),
 });
 
 // Query schemas
@@ -108,6 +432,25 @@ export const paginationSchema = z.object({
     limit: z.coerce.number().int().positive().max(100).default(10),
 });
 
+export const notificationQuerySchema = paginationSchema.extend({
+    unread: z
+        .enum(["true", "false"])
+        .transform((value) => value === "true")
+        .optional(),
+});
+
+export const tripHistoryQuerySchema = paginationSchema.extend({
+    entity: z.enum(["TRIP", "DAY", "ACTIVITY", "BUDGET", "SHARE"]).optional(),
+});
+
+export const securityEventQuerySchema = paginationSchema.extend({
+    type: z.enum(["LOGIN_SUCCEEDED", "LOGIN_FAILED", "LOGIN_BLOCKED", "ACCOUNT_LOCKED", "PASSWORD_RESET"]).optional(),
+});
+
+export const updateNotificationSchema = z.object({
+    read: z.boolean(),
+});
+
 export const citySearchSchema = paginationSchema.extend({
     search: z.string().optional(),
     country: z.string().optional(),
@@ -0,0 +1,53 @@
+// Checks that every endpoint the API client calls exists in the backend's OpenAPI spec.
+//
+//   npm run check:api                       # spec from http://localhost:3000/api-docs.json
+//   npm run check:api -- ./api-docs.json    # or a URL / file given as argument or API_DOCS_URL
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+const SERVICES_DIR = path.resolve(import.meta.dirname, '../src/services')
+const API_PREFIX = '/api/v1'
+const source = process.argv[2] || process.env.API_DOCS_URL || 'http://localhost:3000/api-docs.json'
+
+const loadSpec = async () => {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source)
+    if (!response.ok) throw new Error(`Fetching ${source} failed with ${response.status}`)
+    return response.json()
+  }
+  return JSON.parse(await readFile(source, 'utf8'))
+}
+
+// `/trips/${id}` and `/trips/{tripId}` both become `/trips/{}`
+const normalize = (route) => route.replace(/\$\{[^}]+\}|\{[^}]+\}/g, '{}')
+
+// Calls look like request<T>('METHOD', '/path', ...) with a quoted or template path
+const CALL_PATTERN = /request(?:<[^>]*>)?\(\s*'(GET|POST|PATCH|PUT|DELETE)',\s*[`'"]([^`'"]+)[`'"]/g
+
+const findClientCalls = async () => {
+  const calls = []
+  for (const file of await readdir(SERVICES_DIR)) {
+    if (!file.endsWith('.ts')) continue
+    const code = await readFile(path.join(SERVICES_DIR, file), 'utf8')
+    for (const [, method, route] of code.matchAll(CALL_PATTERN)) {
+      calls.push({ file, method, route })
+    }
+  }
+  return calls
+}
+
+const spec = await loadSpec()
+const documented = new Set(
+  Object.entries(spec.paths ?? {}).flatMap(([route, operations]) =>
+    Object.keys(operations).map((method) => `${method.toUpperCase()} ${normalize(route)}`)
+  )
+)
+
+const calls = await findClientCalls()
+const missing = calls.filter(({ method, route }) => !documented.has(`${method} ${normalize(API_PREFIX + route)}`))
+
+for (const { file, method, route } of missing) {
+  console.error(`✗ ${method} ${route} (${file}) is not in the API spec`)
+}
+console.log(`${calls.length - missing.length}/${calls.length} client endpoints found in ${source}`)
+process.exit(missing.length ? 1 : 0)
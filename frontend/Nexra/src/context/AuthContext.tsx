@@ -1,151 +1,91 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react'
-
-export interface User {
-  id: string
-  email: string
-  firstName: string
-  lastName: string
-}
-
-export interface AuthContextType {
-  user: User | null
-  token: string | null
-  isLoading: boolean
-  isAuthenticated: boolean
-  login: (email: string, password: string) => Promise<void>
-  signup: (email: string, password: string, firstName: string, lastName: string) => Promise<void>
-  forgotPassword: (email: string) => Promise<void>
-  resetPassword: (token: string, newPassword: string) => Promise<void>
-  loginWithGoogle: (idToken: string) => Promise<void>
-  loginWithApple: (idToken: string) => Promise<void>
-  logout: () => void
-}
+import type { AuthContextType, AuthResponse, User } from '../types/auth'
+import { authAPI } from '../services/authAPI'
+import { onSessionExpired, tokenStore } from '../services/apiClient'
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null)
-  const [token, setToken] = useState<string | null>(localStorage.getItem('authToken'))
-  const [isLoading, setIsLoading] = useState(false)
+  // Loading from the start when there is a stored session to restore
+  const [isLoading, setIsLoading] = useState(() => tokenStore.getRefreshToken() !== null)
 
   useEffect(() => {
-    if (token) {
-      localStorage.setItem('authToken', token)
-    } else {
-      localStorage.removeItem('authToken')
-    }
-  }, [token])
+    onSessionExpired(() => setUser(null))
 
-  const login = async (email: string, password: string) => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
-      })
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.message || 'Login failed')
-      setToken(data.token)
-      setUser(data.user)
-    } finally {
-      setIsLoading(false)
+    if (tokenStore.getRefreshToken()) {
+      authAPI
+        .getMe()
+        .then(setUser)
+        .catch(() => {
+          tokenStore.clear()
+          setUser(null)
+        })
+        .finally(() => setIsLoading(false))
     }
-  }
 
-  const signup = async (email: string, password: string, firstName: string, lastName: string) => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/auth/signup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password, firstName, lastName }),
-      })
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.message || 'Signup failed')
-      setToken(data.token)
-      setUser(data.user)
-    } finally {
-      setIsLoading(false)
-    }
-  }
+    return () => onSessionExpired(null)
+  }, [])
 
-  const forgotPassword = async (email: string) => {
+  const withLoading = async <T,>(action: () => Promise<T>): Promise<T> => {
     setIsLoading(true)
     try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/auth/forgot-password`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email }),
-      })
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.message || 'Request failed')
+      return await action()
     } finally {
       setIsLoading(false)
     }
   }
 
-  const resetPassword = async (resetToken: string, newPassword: string) => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/auth/reset-password`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ token: resetToken, newPassword }),
-      })
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.message || 'Reset failed')
-    } finally {
-      setIsLoading(false)
-    }
+  const startSession = ({ user, accessToken, refreshToken }: AuthResponse) => {
+    tokenStore.set({ accessToken, refreshToken })
+    setUser(user)
   }
 
-  const loginWithGoogle = async (idToken: string) => {
-    setIsLoading(true)
-    try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/auth/google`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ idToken }),
-      })
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.message || 'Google login failed')
-      setToken(data.token)
-      setUser(data.user)
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  const login = (email: string, password: string) =>
+    withLoading(async () => startSession(await authAPI.login(email, password)))
 
-  const loginWithApple = async (idToken: string) => {
-    setIsLoading(true)
+  // The form asks for first and last name; the account has a single name
+  const signup = (email: string, password: string, firstName: string, lastName: string) =>
+    withLoading(async () =>
+      startSession(await authAPI.register(email, password, `${firstName} ${lastName}`.trim()))
+    )
+
+  const forgotPassword = (email: string) =>
+    withLoading(async () => {
+      await authAPI.forgotPassword(email)
+    })
+
+  const resetPassword = (resetToken: string, newPassword: string) =>
+    withLoading(async () => {
+      await authAPI.resetPassword(resetToken, newPassword)
+    })
+
+  const loginWithGoogle = (idToken: string) =>
+    withLoading(async () => startSession(await authAPI.loginWithGoogle(idToken)))
+
+  const loginWithApple = (idToken: string, name?: string) =>
+    withLoading(async () => startSession(await authAPI.loginWithApple(idToken, name)))
+
+  // Revokes the session on the server too; signing out locally does not wait on it succeeding
+  const logout = async () => {
     try {
-      const response = await fetch(`${import.meta.env.VITE_API_URL}/auth/apple`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ idToken }),
-      })
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.message || 'Apple login failed')
-      setToken(data.token)
-      setUser(data.user)
+      if (tokenStore.getAccessToken()) {
+        await authAPI.logout()
+      }
+    } catch {
+      // The tokens are dropped either way
     } finally {
-      setIsLoading(false)
+      tokenStore.clear()
+      setUser(null)
     }
   }
 
-  const logout = () => {
-    setToken(null)
-    setUser(null)
-  }
-
   return (
     <AuthContext.Provider
       value={{
         user,
-        token,
         isLoading,
-        isAuthenticated: !!token,
+        isAuthenticated: !!user,
         login,
         signup,
         forgotPassword,
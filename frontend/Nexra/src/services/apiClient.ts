@@ -0,0 +1,116 @@
+import type { ApiResponse, AuthTokens, ErrorResponse } from '../types/auth'
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api/v1'
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+
+const ACCESS_TOKEN_KEY = 'accessToken'
+const REFRESH_TOKEN_KEY = 'refreshToken'
+
+/**
+ * Token storage shared by the client and AuthContext
+ */
+export const tokenStore = {
+  getAccessToken: () => localStorage.getItem(ACCESS_TOKEN_KEY),
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+  set: ({ accessToken, refreshToken }: AuthTokens) => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken)
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken)
+  },
+  clear: () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY)
+    localStorage.removeItem(REFRESH_TOKEN_KEY)
+  },
+}
+
+/**
+ * Error thrown for non-2xx responses; `message` is the backend's `error`
+ */
+export class ApiError extends Error {
+  status: number
+  details?: unknown
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.details = details
+  }
+}
+
+// Called when the session cannot be refreshed any more, so the app can sign the user out
+let sessionExpiredHandler: (() => void) | null = null
+
+export const onSessionExpired = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler
+}
+
+const send = async (method: HttpMethod, path: string, body?: unknown, accessToken?: string | null) => {
+  const headers: Record<string, string> = {}
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+  if (accessToken) {
+    headers['Authorization'] = `Bearer ${accessToken}`
+  }
+
+  return fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+const parse = async <T>(response: Response): Promise<T> => {
+  const payload = (await response.json().catch(() => null)) as ApiResponse<T> | ErrorResponse | null
+
+  if (!response.ok || !payload?.success) {
+    const error = payload as Partial<ErrorResponse> | null
+    throw new ApiError(error?.error || `API Error: ${response.status}`, response.status, error?.details)
+  }
+
+  return payload.data as T
+}
+
+// One refresh at a time: requests that expire together wait for the same new tokens
+let refreshing: Promise<boolean> | null = null
+
+const refreshTokens = (): Promise<boolean> => {
+  refreshing ??= (async () => {
+    const refreshToken = tokenStore.getRefreshToken()
+    if (!refreshToken) return false
+
+    try {
+      const tokens = await parse<AuthTokens>(await send('POST', '/auth/refresh', { refreshToken }))
+      tokenStore.set(tokens)
+      return true
+    } catch {
+      tokenStore.clear()
+      sessionExpiredHandler?.()
+      return false
+    }
+  })().finally(() => {
+    refreshing = null
+  })
+
+  return refreshing
+}
+
+/**
+ * Calls the API and returns the response's `data`. An expired access token is
+ * refreshed once and the request retried.
+ */
+export const request = async <T = null>(method: HttpMethod, path: string, body?: unknown): Promise<T> => {
+  const response = await send(method, path, body, tokenStore.getAccessToken())
+
+  if (response.status === 401 && tokenStore.getRefreshToken()) {
+    const { error } = (await response.clone().json().catch(() => ({}))) as Partial<ErrorResponse>
+    if (error === 'Token expired' && (await refreshTokens())) {
+      return parse<T>(await send(method, path, body, tokenStore.getAccessToken()))
+    }
+  }
+
+  return parse<T>(response)
+}
+
+export default request
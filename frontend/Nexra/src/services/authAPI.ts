@@ -1,89 +1,49 @@
-interface ApiResponse<T = unknown> {
-  success: boolean
-  data?: T
-  message?: string
-  token?: string
-  user?: {
-    id: string
-    email: string
-    firstName: string
-    lastName: string
-  }
-}
-
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api'
+import type { AuthResponse, Session, User } from '../types/auth'
+import { request } from './apiClient'
 
-const request = async <T = unknown>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> => {
-  const url = `${API_BASE_URL}${endpoint}`
-  const token = localStorage.getItem('authToken')
-
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    ...options.headers,
-  }
+/**
+ * Auth endpoints of the backend; paths are relative to API_BASE_URL.
+ * `npm run check:api` checks them against the backend's /api-docs.json.
+ */
+export const authAPI = {
+  login: (email: string, password: string) =>
+    request<AuthResponse>('POST', '/auth/login', { email, password }),
 
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`
-  }
+  register: (email: string, password: string, name: string) =>
+    request<AuthResponse>('POST', '/auth/register', { email, password, name }),
 
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  })
+  forgotPassword: (email: string) =>
+    request('POST', '/auth/forgot-password', { email }),
 
-  const data = await response.json()
+  resetPassword: (token: string, newPassword: string) =>
+    request('POST', '/auth/reset-password', { token, newPassword }),
 
-  if (!response.ok) {
-    throw new Error(data.message || `API Error: ${response.status}`)
-  }
+  verifyEmail: (token: string) =>
+    request<{ emailVerifiedAt: string }>('POST', '/auth/verify-email', { token }),
 
-  return data as ApiResponse<T>
-}
+  resendVerification: () =>
+    request('POST', '/auth/resend-verification'),
 
-export const authAPI = {
-  login: (email: string, password: string) =>
-    request('/auth/login', {
-      method: 'POST',
-      body: JSON.stringify({ email, password }),
-    }),
+  loginWithGoogle: (idToken: string) =>
+    request<AuthResponse>('POST', '/auth/google', { idToken }),
 
-  signup: (email: string, password: string, firstName: string, lastName: string) =>
-    request('/auth/signup', {
-      method: 'POST',
-      body: JSON.stringify({ email, password, firstName, lastName }),
-    }),
+  loginWithApple: (idToken: string, name?: string) =>
+    request<AuthResponse>('POST', '/auth/apple', { idToken, name }),
 
-  forgotPassword: (email: string) =>
-    request('/auth/forgot-password', {
-      method: 'POST',
-      body: JSON.stringify({ email }),
-    }),
+  logout: () =>
+    request('POST', '/auth/logout'),
 
-  resetPassword: (token: string, newPassword: string) =>
-    request('/auth/reset-password', {
-      method: 'POST',
-      body: JSON.stringify({ token, newPassword }),
-    }),
+  getMe: () =>
+    request<User>('GET', '/users/me'),
 
-  loginWithGoogle: (idToken: string) =>
-    request('/auth/google', {
-      method: 'POST',
-      body: JSON.stringify({ idToken }),
-    }),
+  listSessions: () =>
+    request<Session[]>('GET', '/users/me/sessions'),
 
-  loginWithApple: (idToken: string) =>
-    request('/auth/apple', {
-      method: 'POST',
-      body: JSON.stringify({ idToken }),
-    }),
+  revokeOtherSessions: () =>
+    request<{ revoked: number }>('DELETE', '/users/me/sessions'),
 
-  verifyToken: () =>
-    request('/auth/verify', {
-      method: 'GET',
-    }),
+  revokeSession: (sessionId: string) =>
+    request('DELETE', `/users/me/sessions/${sessionId}`),
 }
 
 export default authAPI
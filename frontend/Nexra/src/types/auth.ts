@@ -6,11 +6,17 @@
 // User & Auth Types
 // ============================================
 
+// The user as returned by the backend (POST /auth/login, GET /users/me)
 export interface User {
   id: string
   email: string
-  firstName: string
-  lastName: string
+  name: string
+  avatarUrl: string | null
+  language: string
+  currency: string
+  role: 'USER' | 'ADMIN'
+  emailVerifiedAt: string | null
+  createdAt?: string
 }
 
 export interface LoginCredentials {
@@ -34,17 +40,22 @@ export interface PasswordResetData {
 
 export interface SocialLoginRequest {
   idToken: string
+  // Apple only: the name it gave the app on first sign-in
+  name?: string
 }
 
 // ============================================
 // API Response Types
 // ============================================
 
-export interface AuthResponse {
-  success: boolean
-  token: string
+export interface AuthTokens {
+  accessToken: string
+  refreshToken: string
+}
+
+// `data` of the login, register, Google and Apple responses
+export interface AuthResponse extends AuthTokens {
   user: User
-  message?: string
 }
 
 export interface ApiResponse<T = unknown> {
@@ -56,8 +67,19 @@ export interface ApiResponse<T = unknown> {
 
 export interface ErrorResponse {
   success: false
-  message: string
-  code?: string
+  error: string
+  details?: unknown
+}
+
+// A signed-in device, from GET /users/me/sessions
+export interface Session {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  expiresAt: string
+  current: boolean
 }
 
 // ============================================
@@ -67,7 +89,6 @@ export interface ErrorResponse {
 export interface AuthContextType {
   // State
   user: User | null
-  token: string | null
   isLoading: boolean
   isAuthenticated: boolean
 
@@ -77,8 +98,8 @@ export interface AuthContextType {
   forgotPassword: (email: string) => Promise<void>
   resetPassword: (token: string, newPassword: string) => Promise<void>
   loginWithGoogle: (idToken: string) => Promise<void>
-  loginWithApple: (idToken: string) => Promise<void>
-  logout: () => void
+  loginWithApple: (idToken: string, name?: string) => Promise<void>
+  logout: () => Promise<void>
 }
 
 // ============================================
@@ -1,3 +1,6 @@
+import type { AuthTokens } from '../types/auth'
+import { tokenStore } from '../services/apiClient'
+
 /**
  * Email validation using regex pattern
  */
@@ -42,24 +45,24 @@ export const passwordsMatch = (password: string, confirmPassword: string): boole
 }
 
 /**
- * Store JWT token in localStorage
+ * Store the access and refresh tokens
  */
-export const setAuthToken = (token: string): void => {
-  localStorage.setItem('authToken', token)
+export const setAuthTokens = (tokens: AuthTokens): void => {
+  tokenStore.set(tokens)
 }
 
 /**
- * Get JWT token from localStorage
+ * Get the access token
  */
 export const getAuthToken = (): string | null => {
-  return localStorage.getItem('authToken')
+  return tokenStore.getAccessToken()
 }
 
 /**
- * Remove JWT token from localStorage
+ * Remove both tokens
  */
 export const removeAuthToken = (): void => {
-  localStorage.removeItem('authToken')
+  tokenStore.clear()
 }
 
 /**